@@ -16,6 +16,35 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
+// 多账户：通过页面地址 ?account=<账户ID> 查看指定账户，未指定时显示主账户
+const ACCOUNT_ID = new URLSearchParams(window.location.search).get('account');
+
+function apiUrl(path) {
+    if (!ACCOUNT_ID) return path;
+    return `${path}${path.includes('?') ? '&' : '?'}account=${encodeURIComponent(ACCOUNT_ID)}`;
+}
+
+function escapeHtml(text) {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// 平仓原因显示 - 与后端 accountManagement.ts 保持一致的映射
+const CLOSE_REASONS = {
+    'stop_loss_triggered': { text: '止损触发', class: 'close-reason-sl' },
+    'take_profit_triggered': { text: '止盈触发', class: 'close-reason-tp' },
+    'manual_close': { text: 'AI手动', class: 'close-reason-manual' },
+    'ai_decision': { text: 'AI主动', class: 'close-reason-ai' },
+    'trend_reversal': { text: '趋势反转', class: 'close-reason-reversal' },
+    'forced_close': { text: '系统强制', class: 'close-reason-forced' },
+    'partial_close': { text: '分批止盈', class: 'close-reason-partial' },
+    'peak_drawdown': { text: '峰值回撤', class: 'close-reason-peak' },
+    'time_limit': { text: '持仓到期', class: 'close-reason-time' },
+};
+
 // AI Trading Monitor - 使用真实 API
 class TradingMonitor {
     constructor() {
@@ -23,6 +52,8 @@ class TradingMonitor {
         this.accountData = null;
         this.equityChart = null;
         this.chartTimeframe = '24'; // 固定24小时
+        this.analytics = null;
+        this.analyticsBreakdown = 'symbol';
         this.init();
     }
 
@@ -35,6 +66,8 @@ class TradingMonitor {
         this.duplicateTicker();
         this.loadGitHubStars(); // 加载 GitHub 星标数
         this.initDecisionNavigation(); // 初始化决策导航
+        this.initAnalyticsBreakdown(); // 初始化绩效分组切换
+        this.initPositionTimeline(); // 初始化持仓时间线
     }
 
     // 加载初始数据
@@ -46,7 +79,8 @@ class TradingMonitor {
                 this.loadTradesData(),
                 this.loadLogsData(),
                 this.loadTickerPrices(),
-                this.loadTradingStats()
+                this.loadTradingStats(),
+                this.loadAnalytics()
             ]);
         } catch (error) {
             console.error('加载初始数据失败:', error);
@@ -74,10 +108,10 @@ class TradingMonitor {
     }
 
     // 加载账户数据
-    async loadAccountData() {
+    async loadAccountData(pushed = null) {
         try {
-            const response = await fetch('/api/account');
-            const data = await response.json();
+            // 实时推送时直接使用推送的数据
+            const data = pushed || await fetch(apiUrl('/api/account')).then(response => response.json());
             
             if (data.error) {
                 console.error('API错误:', data.error);
@@ -158,10 +192,10 @@ class TradingMonitor {
     }
 
     // 加载持仓数据
-    async loadPositionsData() {
+    async loadPositionsData(pushed = null) {
         try {
-            const response = await fetch('/api/positions');
-            const data = await response.json();
+            // 实时推送时直接使用推送的数据
+            const data = pushed || await fetch(apiUrl('/api/positions')).then(response => response.json());
             
             const positionsBody = document.getElementById('positions-body');
             const positionsCardsContainer = document.getElementById('positions-cards-container');
@@ -221,7 +255,7 @@ class TradingMonitor {
                     const pnlText = unrealizedPnl >= 0 ? `+$${formatUSDT(unrealizedPnl)}` : `-$${formatUSDT(Math.abs(unrealizedPnl))}`;
                     
                     return `
-                        <tr>
+                        <tr${this.timelineRowAttrs(pos.entryOrderId)}>
                             <td><span class="symbol">${pos.symbol}</span></td>
                             <td><span class="side ${sideClass}">${sideText}</span></td>
                             <td>${leverage}x</td>
@@ -278,10 +312,10 @@ class TradingMonitor {
     }
 
     // 加载条件单数据（止盈止损）- 只显示活跃的条件单
-    async loadPriceOrdersData() {
+    async loadPriceOrdersData(pushed = null) {
         try {
-            const response = await fetch('/api/price-orders');
-            const data = await response.json();
+            // 实时推送时直接使用推送的数据
+            const data = pushed || await fetch(apiUrl('/api/price-orders')).then(response => response.json());
             
             if (data.error) {
                 console.error('API错误:', data.error);
@@ -403,7 +437,7 @@ class TradingMonitor {
     // 加载交易记录
     async loadTradesData() {
         try {
-            const response = await fetch('/api/completed-trades?limit=50');
+            const response = await fetch(apiUrl('/api/completed-trades?limit=50'));
             const data = await response.json();
             
             if (data.error) {
@@ -446,23 +480,11 @@ class TradingMonitor {
                     const pnlClass = pnl >= 0 ? 'profit' : 'loss';
                     const pnlText = pnl >= 0 ? `+$${formatUSDT(pnl)}` : `-$${formatUSDT(Math.abs(pnl))}`;
                     
-                    // 平仓原因显示 - 与后端 accountManagement.ts 保持一致的映射
+                    // 平仓原因显示
                     let closeReasonText = '-';
                     let closeReasonClass = '';
                     if (trade.closeReason) {
-                        const reasonMap = {
-                            'stop_loss_triggered': { text: '止损触发', class: 'close-reason-sl' },
-                            'take_profit_triggered': { text: '止盈触发', class: 'close-reason-tp' },
-                            'manual_close': { text: 'AI手动', class: 'close-reason-manual' },
-                            'ai_decision': { text: 'AI主动', class: 'close-reason-ai' },
-                            'trend_reversal': { text: '趋势反转', class: 'close-reason-reversal' },
-                            'forced_close': { text: '系统强制', class: 'close-reason-forced' },
-                            'partial_close': { text: '分批止盈', class: 'close-reason-partial' },
-                            'peak_drawdown': { text: '峰值回撤', class: 'close-reason-peak' },
-                            'time_limit': { text: '持仓到期', class: 'close-reason-time' },
-                        };
-                        
-                        const mapping = reasonMap[trade.closeReason];
+                        const mapping = CLOSE_REASONS[trade.closeReason];
                         if (mapping) {
                             closeReasonText = mapping.text;
                             closeReasonClass = mapping.class;
@@ -473,7 +495,7 @@ class TradingMonitor {
                     }
                     
                     return `
-                        <tr>
+                        <tr${this.timelineRowAttrs(trade.positionOrderId)}>
                             <td>${timeStr}</td>
                             <td><span class="symbol">${trade.symbol}</span></td>
                             <td><span class="side ${sideClass}">${sideText}</span></td>
@@ -499,7 +521,7 @@ class TradingMonitor {
     async loadLogsData(offset = 0) {
         try {
             // 加载更多决策以支持导航（最新的50条）
-            const response = await fetch('/api/logs?limit=50');
+            const response = await fetch(apiUrl('/api/logs?limit=50'));
             const data = await response.json();
             
             if (data.error) {
@@ -650,7 +672,7 @@ class TradingMonitor {
     async loadTickerPrices() {
         try {
             // 先获取交易品种列表
-            const symbolsResponse = await fetch('/api/trading-symbols');
+            const symbolsResponse = await fetch(apiUrl('/api/trading-symbols'));
             const symbolsData = await symbolsResponse.json();
             
             if (symbolsData.error) {
@@ -678,7 +700,7 @@ class TradingMonitor {
             }
             
             // 获取价格数据
-            const pricesResponse = await fetch('/api/prices');
+            const pricesResponse = await fetch(apiUrl('/api/prices'));
             const pricesData = await pricesResponse.json();
             
             if (pricesData.error) {
@@ -686,18 +708,20 @@ class TradingMonitor {
                 return;
             }
             
-            // 更新价格缓存
-            Object.entries(pricesData.prices).forEach(([symbol, price]) => {
-                this.cryptoPrices.set(symbol, price);
-            });
-            
-            // 更新显示
-            this.updateTickerPrices();
+            this.applyPrices(pricesData.prices);
         } catch (error) {
             console.error('加载 Ticker 价格失败:', error);
         }
     }
 
+    // 更新价格缓存和显示
+    applyPrices(prices) {
+        Object.entries(prices).forEach(([symbol, price]) => {
+            this.cryptoPrices.set(symbol, price);
+        });
+        this.updateTickerPrices();
+    }
+
     // 更新价格滚动条
     updateTickerPrices() {
         this.cryptoPrices.forEach((price, symbol) => {
@@ -710,8 +734,13 @@ class TradingMonitor {
 
     // 启动数据更新
     startDataUpdates() {
+        // 优先使用实时推送，连接断开期间回退到轮询
+        this.liveConnected = false;
+        this.connectLiveUpdates();
+
         // 每10秒更新价格和持仓数据（确保价格先更新）
         setInterval(async () => {
+            if (this.liveConnected) return;
             // 先更新价格缓存
             await this.loadTickerPrices();
             // 再更新持仓和条件单（使用最新价格）
@@ -722,8 +751,9 @@ class TradingMonitor {
             ]);
         }, 10000);
 
-        // 每10秒更新交易记录、日志和交易统计
+        // 每10秒更新交易记录、日志和交易统计（实时推送时由平仓事件和新决策触发）
         setInterval(async () => {
+            if (this.liveConnected) return;
             await Promise.all([
                 this.loadTradesData(),
                 this.loadLogsData(),
@@ -731,6 +761,11 @@ class TradingMonitor {
             ]);
         }, 10000);
 
+        // 每60秒更新绩效分析（需要汇总全部历史，频率低于其他数据）
+        setInterval(async () => {
+            await this.loadAnalytics();
+        }, 60000);
+
         // 每10秒更新资产曲线图表
         setInterval(async () => {
             await this.updateEquityChart();
@@ -743,10 +778,58 @@ class TradingMonitor {
         }, 60000);
     }
 
+    // 订阅实时推送（SSE）：账户、持仓、价格、条件单快照，以及平仓事件和新的 AI 决策
+    connectLiveUpdates() {
+        if (!window.EventSource) return;
+
+        const source = new EventSource(apiUrl('/api/live'));
+        const listen = (type, handler) => {
+            source.addEventListener(type, (event) => {
+                try {
+                    handler(JSON.parse(event.data));
+                } catch (error) {
+                    console.error(`处理实时推送 ${type} 失败:`, error);
+                }
+            });
+        };
+
+        source.addEventListener('open', () => {
+            this.liveConnected = true;
+            // 重连后补齐断开期间的交易记录和决策
+            this.refreshClosedTrades();
+            this.loadLogsData();
+        });
+        // 断开后浏览器自动重连，期间由轮询更新
+        source.addEventListener('error', () => {
+            this.liveConnected = false;
+        });
+
+        listen('account', data => this.loadAccountData(data));
+        listen('positions', data => this.loadPositionsData(data));
+        listen('prices', data => this.applyPrices(data.prices));
+        listen('price_orders', data => this.loadPriceOrdersData(data));
+        listen('price_order_triggered', () => this.refreshClosedTrades());
+        listen('close_event', () => this.refreshClosedTrades());
+        listen('decision', () => this.loadLogsData());
+    }
+
+    // 平仓后刷新交易记录、统计、绩效分析和资产曲线（同一批事件只刷新一次）
+    refreshClosedTrades() {
+        clearTimeout(this.closedTradesRefreshTimer);
+        this.closedTradesRefreshTimer = setTimeout(() => {
+            Promise.all([
+                this.loadTradesData(),
+                this.loadTradingStats(),
+                this.loadAnalytics(),
+                this.updateEquityChart()
+            ]).catch(error => console.error('刷新交易记录失败:', error));
+        }, 500);
+    }
+
     // 更新系统健康状态
     async updateHealthStatus() {
         try {
-            const response = await fetch('/api/health');
+            const response = await fetch(apiUrl('/api/health'));
             const data = await response.json();
             
             const healthIndicator = document.getElementById('health-indicator');
@@ -1002,7 +1085,7 @@ class TradingMonitor {
     async loadEquityHistory() {
         try {
             // 获取全部历史数据
-            const response = await fetch(`/api/history`);
+            const response = await fetch(apiUrl(`/api/history`));
             const data = await response.json();
             
             if (data.error) {
@@ -1085,9 +1168,9 @@ class TradingMonitor {
         try {
             // 同时获取统计数据和交易历史（用于计算更多指标）
             const [statsResponse, tradesResponse, accountResponse] = await Promise.all([
-                fetch('/api/stats'),
-                fetch('/api/completed-trades?limit=1000'), // 获取所有交易用于详细分析
-                fetch('/api/account')
+                fetch(apiUrl('/api/stats')),
+                fetch(apiUrl('/api/completed-trades?limit=1000')), // 获取所有交易用于详细分析
+                fetch(apiUrl('/api/account'))
             ]);
             
             const stats = await statsResponse.json();
@@ -1231,6 +1314,268 @@ class TradingMonitor {
         }
     }
     
+    // 加载绩效分析（R倍数、期望值、索提诺/卡玛、回撤、分组表现）
+    async loadAnalytics() {
+        try {
+            const response = await fetch(apiUrl('/api/analytics'));
+            const data = await response.json();
+            if (data.error) {
+                console.error('API错误:', data.error);
+                return;
+            }
+            this.analytics = data;
+            
+            const { performance, rMultiples, risk, drawdowns } = data;
+            const ratio = (value) => value === null || value === undefined ? '-' : formatPercent(value);
+            
+            this.updateStatValue('stat-sortino', ratio(risk.sortinoRatio));
+            this.updateStatValue('stat-calmar', ratio(risk.calmarRatio));
+            this.updateStatValue('stat-expectancy', performance.trades > 0 ? this.formatPnl(performance.expectancy) : '-');
+            this.updateStatValue('stat-avg-r', rMultiples.count > 0
+                ? `${formatPercent(rMultiples.average)}R / ${formatPercent(rMultiples.median)}R`
+                : '-');
+            this.updateStatValue('stat-breakeven-win-rate', performance.breakEvenWinRate === null
+                ? '-'
+                : `${formatPercent(performance.breakEvenWinRate, 1)}%`);
+            this.updateStatValue('stat-current-drawdown', `${formatPercent(risk.currentDrawdownPercent, 1)}% / ${drawdowns.length}次`);
+            
+            // R倍数分布（按最大区间数量等比例显示柱长）
+            const rCountEl = document.getElementById('stat-r-count');
+            if (rCountEl) {
+                rCountEl.textContent = `· ${rMultiples.count}/${performance.trades} 笔有初始止损`;
+            }
+            const distributionEl = document.getElementById('analytics-r-distribution');
+            if (distributionEl) {
+                const maxCount = Math.max(1, ...rMultiples.distribution.map(b => b.count));
+                distributionEl.innerHTML = rMultiples.distribution.map(bucket => `
+                    <div class="r-bucket">
+                        <span class="r-bucket-label">${bucket.label}</span>
+                        <span class="r-bucket-bar ${bucket.label.startsWith('<') || bucket.label.startsWith('-') ? 'loss' : 'win'}"
+                              style="width: ${(bucket.count / maxCount) * 100}%"></span>
+                        <span class="r-bucket-count">${bucket.count}</span>
+                    </div>
+                `).join('');
+            }
+            
+            this.renderAnalyticsBreakdown();
+        } catch (error) {
+            console.error('加载绩效分析失败:', error);
+        }
+    }
+    
+    // 渲染分组表现表格
+    renderAnalyticsBreakdown() {
+        const tbody = document.getElementById('analytics-breakdown-body');
+        if (!tbody || !this.analytics) return;
+        
+        const rows = this.analytics.breakdowns[this.analyticsBreakdown] || [];
+        if (rows.length === 0) {
+            tbody.innerHTML = '<tr><td colspan="6" class="empty-state">暂无数据</td></tr>';
+            return;
+        }
+        
+        tbody.innerHTML = rows.map(row => `
+            <tr>
+                <td>${this.analyticsBreakdown === 'hour' ? `${row.key}:00` : row.key}</td>
+                <td>${row.trades}</td>
+                <td>${formatPercent(row.winRate, 1)}%</td>
+                <td class="${row.totalPnl >= 0 ? 'positive' : 'negative'}">${this.formatPnl(row.totalPnl)}</td>
+                <td>${row.profitFactor === null ? '-' : formatPercent(row.profitFactor)}</td>
+                <td>${row.averageR === null ? '-' : `${formatPercent(row.averageR)}R`}</td>
+            </tr>
+        `).join('');
+    }
+    
+    // 初始化分组维度切换按钮
+    initAnalyticsBreakdown() {
+        const buttons = document.querySelectorAll('.breakdown-btn');
+        buttons.forEach(button => {
+            button.addEventListener('click', () => {
+                buttons.forEach(b => b.classList.remove('active'));
+                button.classList.add('active');
+                this.analyticsBreakdown = button.dataset.breakdown;
+                this.renderAnalyticsBreakdown();
+            });
+        });
+    }
+
+    // 可查看时间线的表格行属性（持仓和交易历史共用）
+    timelineRowAttrs(positionOrderId) {
+        if (!positionOrderId) return '';
+        return ` class="timeline-row" data-position-order-id="${escapeHtml(positionOrderId)}" title="点击查看持仓时间线"`;
+    }
+
+    // 初始化持仓时间线：点击持仓或交易历史的行打开
+    initPositionTimeline() {
+        for (const id of ['positions-body', 'trades-body']) {
+            const body = document.getElementById(id);
+            if (!body) continue;
+            body.addEventListener('click', (event) => {
+                const row = event.target.closest('tr[data-position-order-id]');
+                if (row) {
+                    this.openPositionTimeline(row.dataset.positionOrderId);
+                }
+            });
+        }
+
+        const modal = document.getElementById('timeline-modal');
+        const closeBtn = document.getElementById('timeline-close');
+        if (closeBtn) {
+            closeBtn.addEventListener('click', () => this.closePositionTimeline());
+        }
+        if (modal) {
+            modal.addEventListener('click', (event) => {
+                if (event.target === modal) this.closePositionTimeline();
+            });
+        }
+        document.addEventListener('keydown', (event) => {
+            if (event.key === 'Escape') this.closePositionTimeline();
+        });
+    }
+
+    closePositionTimeline() {
+        const modal = document.getElementById('timeline-modal');
+        if (modal) modal.hidden = true;
+    }
+
+    // 加载并显示持仓时间线
+    async openPositionTimeline(positionOrderId) {
+        const modal = document.getElementById('timeline-modal');
+        const summaryEl = document.getElementById('timeline-summary');
+        const eventsEl = document.getElementById('timeline-events');
+        if (!modal || !summaryEl || !eventsEl) return;
+
+        summaryEl.innerHTML = '';
+        eventsEl.innerHTML = '<li class="loading">加载中...</li>';
+        modal.hidden = false;
+
+        try {
+            const response = await fetch(apiUrl(`/api/positions/${encodeURIComponent(positionOrderId)}/timeline`));
+            const data = await response.json();
+            if (data.error) {
+                eventsEl.innerHTML = `<li class="empty-state">${escapeHtml(data.error)}</li>`;
+                return;
+            }
+            this.renderPositionTimeline(data);
+        } catch (error) {
+            console.error('加载持仓时间线失败:', error);
+            eventsEl.innerHTML = '<li class="empty-state">加载失败</li>';
+        }
+    }
+
+    renderPositionTimeline(timeline) {
+        const titleEl = document.getElementById('timeline-title');
+        const summaryEl = document.getElementById('timeline-summary');
+        const eventsEl = document.getElementById('timeline-events');
+
+        const sideText = timeline.side === 'long' ? 'LONG' : 'SHORT';
+        if (titleEl) {
+            titleEl.innerHTML = `${escapeHtml(timeline.symbol)} <span class="side ${timeline.side}">${sideText}</span> ${timeline.leverage}x`;
+        }
+
+        const pnlClass = timeline.realizedPnl >= 0 ? 'profit' : 'loss';
+        const summaryItems = [
+            ['状态', timeline.status === 'closed' ? '已平仓' : '持仓中'],
+            ['开仓价', `$${formatPriceBySymbol(timeline.symbol, timeline.entryPrice)}`],
+            ['数量', formatUSDT(timeline.quantity, 4)],
+            ['市场状态', escapeHtml(timeline.marketState || '-')],
+            ['策略', escapeHtml(timeline.strategyType || '-')],
+            ['机会评分', timeline.opportunityScore !== null ? timeline.opportunityScore.toFixed(0) : '-'],
+            ['已实现盈亏', `<span class="${pnlClass}">${this.formatPnl(timeline.realizedPnl)}</span>`],
+            ['总手续费', `$${formatUSDT(timeline.totalFee)}`],
+            ['资金费', `<span class="${(timeline.fundingPnl || 0) >= 0 ? 'profit' : 'loss'}">${this.formatPnl(timeline.fundingPnl || 0)}</span>`],
+        ];
+        summaryEl.innerHTML = summaryItems.map(([label, value]) => `
+            <div class="timeline-summary-item">
+                <span class="timeline-summary-label">${label}</span>
+                <span class="timeline-summary-value">${value}</span>
+            </div>
+        `).join('');
+
+        if (!timeline.events || timeline.events.length === 0) {
+            eventsEl.innerHTML = '<li class="empty-state">暂无事件</li>';
+            return;
+        }
+
+        eventsEl.innerHTML = timeline.events.map(event => {
+            const { title, detail } = this.describeTimelineEvent(timeline, event);
+            const time = new Date(event.timestamp);
+            const timeStr = `${String(time.getMonth() + 1).padStart(2, '0')}/${String(time.getDate()).padStart(2, '0')} ${String(time.getHours()).padStart(2, '0')}:${String(time.getMinutes()).padStart(2, '0')}:${String(time.getSeconds()).padStart(2, '0')}`;
+            return `
+                <li class="timeline-event timeline-${event.type}">
+                    <div class="timeline-event-head">
+                        <span class="timeline-event-title">${title}</span>
+                        <span class="timeline-event-time">${timeStr}</span>
+                    </div>
+                    ${detail ? `<div class="timeline-event-detail">${detail}</div>` : ''}
+                </li>
+            `;
+        }).join('');
+    }
+
+    // 时间线事件的标题和说明（返回 HTML，文本内容已转义）
+    describeTimelineEvent(timeline, event) {
+        const d = event.details || {};
+        const price = value => value !== null && value !== undefined ? `$${formatPriceBySymbol(timeline.symbol, value)}` : '-';
+        const pnl = value => `<span class="${value >= 0 ? 'profit' : 'loss'}">${this.formatPnl(value)}</span>`;
+        const orderStatus = { active: '生效中', cancelled: '已替换', triggered: '已触发' };
+
+        switch (event.type) {
+            case 'decision': {
+                const confidence = d.confidence !== null && d.confidence !== undefined ? `（置信度 ${(d.confidence * 100).toFixed(0)}%）` : '';
+                const text = d.rationale || (d.decision || '').slice(0, 300);
+                return { title: `AI 决策 #${d.iteration}${confidence}`, detail: escapeHtml(text) };
+            }
+            case 'open': {
+                const parts = [
+                    `数量 ${formatUSDT(event.quantity, 4)}`,
+                    d.marketState ? `市场状态 ${escapeHtml(d.marketState)}` : null,
+                    d.strategyType ? `策略 ${escapeHtml(d.strategyType)}` : null,
+                    d.opportunityScore !== null && d.opportunityScore !== undefined ? `机会评分 ${Number(d.opportunityScore).toFixed(0)}` : null,
+                    `止损 ${price(d.stopLoss)} / 止盈 ${price(d.takeProfit)}`,
+                    `手续费 $${formatUSDT(event.fee || 0)}`,
+                ];
+                return { title: `开仓 @ ${price(event.price)}`, detail: parts.filter(Boolean).join(' · ') };
+            }
+            case 'stop_loss':
+            case 'take_profit': {
+                const label = event.type === 'stop_loss' ? '止损' : '止盈';
+                const title = d.previousPrice !== null && d.previousPrice !== undefined
+                    ? `${label}移动 ${price(d.previousPrice)} → ${price(event.price)}`
+                    : `设置${label} ${price(event.price)}`;
+                return { title, detail: orderStatus[d.status] || escapeHtml(d.status || '') };
+            }
+            case 'partial_take_profit': {
+                const parts = [
+                    `平仓 ${formatPercent(d.closePercent || 0)}%（${formatUSDT(event.quantity || 0, 4)}）`,
+                    `盈亏 ${pnl(event.pnl || 0)}`,
+                    d.newStopLoss ? `止损移至 ${price(d.newStopLoss)}` : null,
+                    event.fee !== null ? `手续费 $${formatUSDT(event.fee)}` : null,
+                ];
+                return { title: `分批止盈 第${d.stage}阶段（${Number(d.rMultiple || 0).toFixed(1)}R）@ ${price(event.price)}`, detail: parts.filter(Boolean).join(' · ') };
+            }
+            case 'reversal_warning': {
+                const score = Number(d.reversalScore || 0).toFixed(0);
+                const detail = d.pnlPercent !== undefined ? `当时盈亏 ${formatPercent(d.pnlPercent)}%` : '';
+                return { title: `反转预警 ${score}分 @ ${price(event.price)}`, detail };
+            }
+            case 'funding':
+                return { title: `资金费结算 ${pnl(event.pnl || 0)}`, detail: (event.pnl || 0) >= 0 ? '收取' : '支付' };
+            case 'close': {
+                const reason = CLOSE_REASONS[d.closeReason]?.text || escapeHtml(d.closeReason || '-');
+                const parts = [
+                    `原因 ${reason}`,
+                    `数量 ${formatUSDT(event.quantity || 0, 4)}`,
+                    `盈亏 ${pnl(event.pnl || 0)}`,
+                    `手续费 $${formatUSDT(event.fee || 0)}`,
+                ];
+                return { title: `平仓 @ ${price(event.price)}`, detail: parts.join(' · ') };
+            }
+            default:
+                return { title: escapeHtml(event.type), detail: '' };
+        }
+    }
+    
     // 辅助方法：格式化盈亏显示
     formatPnl(value) {
         if (value >= 0) {
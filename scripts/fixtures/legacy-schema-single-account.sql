@@ -0,0 +1,277 @@
+-- 多账户改造前（无 account_id 字段）的建表语句，用于验证 account_id 迁移后与最新 schema 一致
+-- 交易记录表
+CREATE TABLE IF NOT EXISTS trades (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  side TEXT NOT NULL,
+  type TEXT NOT NULL,
+  price REAL NOT NULL,
+  quantity REAL NOT NULL,
+  leverage INTEGER NOT NULL,
+  pnl REAL,
+  fee REAL,
+  timestamp TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+);
+
+-- 持仓表
+CREATE TABLE IF NOT EXISTS positions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol TEXT NOT NULL UNIQUE,
+  quantity REAL NOT NULL,
+  entry_price REAL NOT NULL,
+  current_price REAL NOT NULL,
+  liquidation_price REAL NOT NULL,
+  unrealized_pnl REAL NOT NULL,
+  leverage INTEGER NOT NULL,
+  side TEXT NOT NULL,
+  profit_target REAL,
+  stop_loss REAL,
+  tp_order_id TEXT,
+  sl_order_id TEXT,
+  entry_order_id TEXT NOT NULL,
+  opened_at TEXT NOT NULL,
+  confidence REAL,
+  risk_usd REAL,
+  peak_pnl_percent REAL DEFAULT 0,
+  partial_close_percentage REAL DEFAULT 0,
+  market_state TEXT,
+  strategy_type TEXT,
+  signal_strength REAL,
+  opportunity_score REAL,
+  metadata TEXT,
+  direction TEXT
+);
+
+-- 账户历史表
+CREATE TABLE IF NOT EXISTS account_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  total_value REAL NOT NULL,
+  available_cash REAL NOT NULL,
+  unrealized_pnl REAL NOT NULL,
+  realized_pnl REAL NOT NULL,
+  return_percent REAL NOT NULL,
+  sharpe_ratio REAL
+);
+
+-- 技术指标表
+CREATE TABLE IF NOT EXISTS trading_signals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  price REAL NOT NULL,
+  ema_20 REAL NOT NULL,
+  ema_50 REAL,
+  macd REAL NOT NULL,
+  rsi_7 REAL NOT NULL,
+  rsi_14 REAL NOT NULL,
+  volume REAL NOT NULL,
+  open_interest REAL,
+  funding_rate REAL,
+  atr_3 REAL,
+  atr_14 REAL
+);
+
+-- Agent 决策记录表
+CREATE TABLE IF NOT EXISTS agent_decisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  iteration INTEGER NOT NULL,
+  market_analysis TEXT NOT NULL,
+  decision TEXT NOT NULL,
+  actions_taken TEXT NOT NULL,
+  account_value REAL NOT NULL,
+  positions_count INTEGER NOT NULL
+);
+
+-- 系统配置表
+CREATE TABLE IF NOT EXISTS system_config (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  key TEXT NOT NULL UNIQUE,
+  value TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- 条件单表（止损止盈订单）
+CREATE TABLE IF NOT EXISTS price_orders (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL UNIQUE,
+  position_order_id TEXT,
+  symbol TEXT NOT NULL,
+  side TEXT NOT NULL,
+  type TEXT NOT NULL,
+  trigger_price REAL NOT NULL,
+  order_price REAL DEFAULT 0,
+  quantity REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  created_at TEXT NOT NULL,
+  updated_at TEXT,
+  triggered_at TEXT
+);
+
+-- 持仓平仓事件表（记录所有平仓事件，供AI决策使用）
+CREATE TABLE IF NOT EXISTS position_close_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol TEXT NOT NULL,
+  side TEXT NOT NULL,
+  close_reason TEXT NOT NULL,
+  trigger_type TEXT NOT NULL,
+  trigger_price REAL,
+  close_price REAL NOT NULL,
+  entry_price REAL NOT NULL,
+  quantity REAL NOT NULL,
+  leverage INTEGER NOT NULL,
+  pnl REAL NOT NULL,
+  pnl_percent REAL NOT NULL,
+  fee REAL,
+  trigger_order_id TEXT,
+  close_trade_id TEXT,
+  order_id TEXT,
+  position_order_id TEXT,
+  created_at TEXT NOT NULL,
+  processed INTEGER DEFAULT 0
+);
+
+-- 分批止盈历史记录表
+CREATE TABLE IF NOT EXISTS partial_take_profit_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol TEXT NOT NULL,
+  side TEXT,
+  stage INTEGER NOT NULL,
+  r_multiple REAL NOT NULL,
+  trigger_price REAL NOT NULL,
+  close_percent REAL NOT NULL,
+  closed_quantity REAL NOT NULL,
+  remaining_quantity REAL NOT NULL,
+  pnl REAL NOT NULL,
+  new_stop_loss_price REAL,
+  order_id TEXT,
+  position_order_id TEXT,
+  status TEXT NOT NULL DEFAULT 'completed',
+  notes TEXT,
+  timestamp TEXT NOT NULL
+);
+
+-- 不一致状态追踪表（事务保护）
+CREATE TABLE IF NOT EXISTS inconsistent_states (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  operation TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  side TEXT,
+  exchange_success INTEGER NOT NULL,
+  db_success INTEGER NOT NULL,
+  exchange_order_id TEXT,
+  error_message TEXT,
+  resolved INTEGER DEFAULT 0,
+  resolved_at TEXT,
+  resolved_by TEXT,
+  resolution_notes TEXT,
+  created_at TEXT NOT NULL
+);
+
+-- 回测历史K线表
+CREATE TABLE IF NOT EXISTS backtest_candles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol TEXT NOT NULL,
+  timeframe TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  open REAL NOT NULL,
+  high REAL NOT NULL,
+  low REAL NOT NULL,
+  close REAL NOT NULL,
+  volume REAL NOT NULL,
+  exchange TEXT NOT NULL DEFAULT 'binance',
+  UNIQUE(symbol, timeframe, timestamp)
+);
+
+-- 模拟盘账户表（单行）
+CREATE TABLE IF NOT EXISTS paper_account (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  initial_balance REAL NOT NULL,
+  wallet_balance REAL NOT NULL,
+  total_fees REAL NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL
+);
+
+-- 模拟盘持仓表
+CREATE TABLE IF NOT EXISTS paper_positions (
+  contract TEXT PRIMARY KEY,
+  size REAL NOT NULL,
+  entry_price REAL NOT NULL,
+  leverage INTEGER NOT NULL,
+  realised_pnl REAL NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL
+);
+
+-- 模拟盘杠杆设置表
+CREATE TABLE IF NOT EXISTS paper_leverages (
+  contract TEXT PRIMARY KEY,
+  leverage INTEGER NOT NULL
+);
+
+-- 模拟盘订单表
+CREATE TABLE IF NOT EXISTS paper_orders (
+  id TEXT PRIMARY KEY,
+  contract TEXT NOT NULL,
+  size REAL NOT NULL,
+  price REAL NOT NULL DEFAULT 0,
+  status TEXT NOT NULL,
+  reduce_only INTEGER NOT NULL DEFAULT 0,
+  tif TEXT NOT NULL DEFAULT 'gtc',
+  fill_price REAL NOT NULL DEFAULT 0,
+  left_size REAL NOT NULL DEFAULT 0,
+  create_time INTEGER NOT NULL,
+  finish_time INTEGER
+);
+
+-- 模拟盘条件单表（止损/止盈）
+CREATE TABLE IF NOT EXISTS paper_price_orders (
+  id TEXT PRIMARY KEY,
+  contract TEXT NOT NULL,
+  type TEXT NOT NULL,
+  trigger_price REAL NOT NULL,
+  rule INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  create_time INTEGER NOT NULL,
+  finish_time INTEGER
+);
+
+-- 模拟盘成交记录表
+CREATE TABLE IF NOT EXISTS paper_trades (
+  id TEXT PRIMARY KEY,
+  contract TEXT NOT NULL,
+  order_id TEXT,
+  size REAL NOT NULL,
+  price REAL NOT NULL,
+  role TEXT NOT NULL,
+  fee REAL NOT NULL DEFAULT 0,
+  realised_pnl REAL NOT NULL DEFAULT 0,
+  trigger_order_id TEXT,
+  timestamp INTEGER NOT NULL
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades(timestamp);
+CREATE INDEX IF NOT EXISTS idx_trades_symbol ON trades(symbol);
+CREATE INDEX IF NOT EXISTS idx_signals_timestamp ON trading_signals(timestamp);
+CREATE INDEX IF NOT EXISTS idx_signals_symbol ON trading_signals(symbol);
+CREATE INDEX IF NOT EXISTS idx_history_timestamp ON account_history(timestamp);
+CREATE INDEX IF NOT EXISTS idx_decisions_timestamp ON agent_decisions(timestamp);
+CREATE INDEX IF NOT EXISTS idx_price_orders_symbol ON price_orders(symbol);
+CREATE INDEX IF NOT EXISTS idx_price_orders_status ON price_orders(status);
+CREATE INDEX IF NOT EXISTS idx_price_orders_order_id ON price_orders(order_id);
+CREATE INDEX IF NOT EXISTS idx_close_events_processed ON position_close_events(processed, created_at);
+CREATE INDEX IF NOT EXISTS idx_close_events_symbol ON position_close_events(symbol);
+CREATE INDEX IF NOT EXISTS idx_close_events_position_order_id ON position_close_events(position_order_id);
+CREATE INDEX IF NOT EXISTS idx_partial_taking_profit_symbol ON partial_take_profit_history(symbol);
+CREATE INDEX IF NOT EXISTS idx_partial_taking_profit_position_order_id ON partial_take_profit_history(position_order_id);
+CREATE INDEX IF NOT EXISTS idx_partial_taking_profit_status ON partial_take_profit_history(status);
+CREATE INDEX IF NOT EXISTS idx_inconsistent_states_resolved ON inconsistent_states(resolved, created_at);
+CREATE INDEX IF NOT EXISTS idx_inconsistent_states_symbol ON inconsistent_states(symbol);
+CREATE INDEX IF NOT EXISTS idx_inconsistent_states_operation ON inconsistent_states(operation);
+CREATE INDEX IF NOT EXISTS idx_backtest_candles_symbol_time ON backtest_candles(symbol, timeframe, timestamp);
+CREATE INDEX IF NOT EXISTS idx_paper_orders_status ON paper_orders(status);
+CREATE INDEX IF NOT EXISTS idx_paper_price_orders_status ON paper_price_orders(status, contract);
+CREATE INDEX IF NOT EXISTS idx_paper_trades_contract_time ON paper_trades(contract, timestamp);
@@ -59,25 +59,22 @@ async function queryPositionHistory() {
       logger.info("暂无历史仓位记录");
     }
     
-    // 查询历史结算记录（更详细的信息）
-    logger.info("\n查询历史结算记录（更详细的历史仓位信息）...");
+    // 查询资金费结算记录
+    logger.info("\n查询资金费结算记录...");
     const settlementHistory = await exchangeClient.getSettlementHistory(undefined, 50);
     
     if (settlementHistory && settlementHistory.length > 0) {
-      logger.info(`找到 ${settlementHistory.length} 条历史结算记录:\n`);
+      logger.info(`找到 ${settlementHistory.length} 条资金费结算记录:\n`);
       
-      settlementHistory.forEach((settlement: any, index: number) => {
-        logger.info(`[${index + 1}] 历史结算记录:`);
+      settlementHistory.forEach((settlement, index: number) => {
+        logger.info(`[${index + 1}] 资金费结算记录:`);
         logger.info(`  合约: ${settlement.contract || "N/A"}`);
-        logger.info(`  结算价格: ${settlement.settle_price || "N/A"}`);
-        logger.info(`  结算时间: ${settlement.settle_time || "N/A"}`);
-        logger.info(`  仓位数量: ${settlement.size || "N/A"}`);
-        logger.info(`  盈亏: ${settlement.pnl || "N/A"}`);
-        logger.info(`  手续费: ${settlement.fee || "N/A"}`);
+        logger.info(`  结算时间: ${new Date(settlement.time * 1000).toISOString()}`);
+        logger.info(`  金额: ${settlement.change} USDT（正数为收取）`);
         logger.info("---");
       });
     } else {
-      logger.info("暂无历史结算记录");
+      logger.info("暂无资金费结算记录");
     }
     
     logger.info("\n" + "=".repeat(80));
@@ -0,0 +1,157 @@
+/**
+ * 回测交易所测试脚本
+ * 使用合成K线验证撮合、手续费、止损止盈、强平和K线聚合（不依赖网络和数据库）
+ */
+
+import { BacktestExchangeClient } from '../src/backtest/exchanges/BacktestExchangeClient';
+import { RISK_PARAMS } from '../src/config/riskParams';
+import type { CandleData } from '../src/exchanges/IExchangeClient';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function approx(a: number, b: number, eps: number = 1e-6): boolean {
+  return Math.abs(a - b) < eps;
+}
+
+/**
+ * 生成1分钟K线：每根K线 open=close=price，high/low 由 path 指定
+ */
+function makeCandles(path: { price: number; high?: number; low?: number }[]): CandleData[] {
+  return path.map((p, i) => ({
+    timestamp: START + i * MINUTE,
+    open: p.price.toString(),
+    high: (p.high ?? p.price).toString(),
+    low: (p.low ?? p.price).toString(),
+    close: p.price.toString(),
+    volume: '100',
+  }));
+}
+
+function createClient(path: { price: number; high?: number; low?: number }[]): BacktestExchangeClient {
+  process.env.BACKTEST_INITIAL_BALANCE = '1000';
+  process.env.BACKTEST_SLIPPAGE_PERCENT = '0';
+  process.env.BACKTEST_FEE_EXCHANGE = 'binance';
+  const client = new BacktestExchangeClient({ exchangeName: 'backtest', apiKey: '', apiSecret: '', isTestnet: false });
+  client.loadCandles('BTC', '1m', makeCandles(path));
+  client.setCurrentTime(START + MINUTE); // 第一根K线已收盘
+  return client;
+}
+
+async function main() {
+  console.log('🧪 回测交易所测试\n');
+  const fees = RISK_PARAMS.FEE_RATES.binance.mainnet;
+
+  console.log('=== 测试1: 市价开仓与手续费 ===');
+  {
+    const client = createClient(Array(10).fill({ price: 100 }));
+    await client.setLeverage('BTC', 10);
+    const order = await client.placeOrder({ contract: 'BTCUSDT', size: 5, price: 0 });
+    check('市价单立即成交', order.status === 'finished' && order.fill_price === '100');
+    const account = await client.getFuturesAccount();
+    check('扣除Taker手续费', approx(Number.parseFloat(account.total), 1000 - 500 * fees.taker));
+    check('占用保证金', approx(Number.parseFloat(account.positionMargin), 50));
+    const trades = await client.getMyTrades('BTC');
+    check('成交记录包含手续费', trades.length === 1 && approx(Number.parseFloat(trades[0].fee || '0'), 500 * fees.taker));
+  }
+
+  console.log('\n=== 测试2: 无未来数据 ===');
+  {
+    const client = createClient([{ price: 100 }, { price: 110 }, { price: 120 }]);
+    const candles = await client.getFuturesCandles('BTC', '1m', 10);
+    check('只返回已收盘K线', candles.length === 1 && candles[0].close === '100');
+    client.advanceTo(START + 3 * MINUTE);
+    const ticker = await client.getFuturesTicker('BTC');
+    check('推进时间后价格更新', ticker.last === '120');
+  }
+
+  console.log('\n=== 测试3: 止损触发 ===');
+  {
+    const client = createClient([{ price: 100 }, { price: 100 }, { price: 97, low: 94 }, { price: 97 }]);
+    await client.setLeverage('BTC', 5);
+    await client.placeOrder({ contract: 'BTC', size: 1, price: 0 });
+    const result = await client.setPositionStopLoss('BTCUSDT', 95, 110);
+    check('设置止损止盈成功', result.success && !!result.stopLossOrderId && !!result.takeProfitOrderId);
+    check('条件单可查询', (await client.getPriceOrders()).length === 2);
+    client.advanceTo(START + 4 * MINUTE);
+    check('止损后持仓清空', (await client.getPositions()).length === 0);
+    check('止损后条件单全部失效', (await client.getPriceOrders()).length === 0);
+    const trades = await client.getMyTrades('BTC');
+    check('止损按触发价成交', trades.length === 2 && trades[1].price === '95');
+    const expected = 1000 - 100 * fees.taker - 5 - 95 * fees.taker;
+    check('止损亏损计入余额', approx(Number.parseFloat((await client.getFuturesAccount()).total), expected));
+  }
+
+  console.log('\n=== 测试4: 同一K线触及止损和止盈时优先止损 ===');
+  {
+    const client = createClient([{ price: 100 }, { price: 100, high: 120, low: 80 }]);
+    await client.placeOrder({ contract: 'BTC', size: -1, price: 0 });
+    await client.setPositionStopLoss('BTC', 105, 90);
+    client.advanceTo(START + 2 * MINUTE);
+    const trades = await client.getMyTrades('BTC');
+    check('空单优先按止损价成交', trades[1]?.price === '105');
+  }
+
+  console.log('\n=== 测试5: 强平 ===');
+  {
+    const client = createClient([{ price: 100 }, { price: 100 }, { price: 85, low: 80 }]);
+    await client.setLeverage('BTC', 10);
+    await client.placeOrder({ contract: 'BTC', size: 1, price: 0 });
+    const [position] = await client.getPositions();
+    check('强平价计算正确', approx(Number.parseFloat(position.liqPrice), 100 * (1 - 0.1 + 0.004)));
+    client.advanceTo(START + 3 * MINUTE);
+    check('跌破强平价后持仓清空', (await client.getPositions()).length === 0);
+    check('记录强平次数', client.getSummary().liquidationCount === 1);
+  }
+
+  console.log('\n=== 测试6: 限价单挂单 Maker 成交 ===');
+  {
+    const client = createClient([{ price: 100 }, { price: 100, low: 98 }]);
+    const order = await client.placeOrder({ contract: 'BTC', size: 2, price: 99 });
+    check('限价单挂单', order.status === 'open');
+    client.advanceTo(START + 2 * MINUTE);
+    const filled = await client.getOrder(order.id);
+    check('价格穿越后成交', filled.status === 'finished' && filled.fill_price === '99');
+    const trades = await client.getMyTrades('BTC');
+    check('按Maker费率收费', trades[0]?.role === 'maker' && approx(Number.parseFloat(trades[0].fee || '0'), 198 * fees.maker));
+  }
+
+  console.log('\n=== 测试7: 只减仓与K线聚合 ===');
+  {
+    const path = Array.from({ length: 30 }, (_, i) => ({ price: 100 + i }));
+    const client = createClient(path);
+    client.setCurrentTime(START + 30 * MINUTE);
+    let rejected = false;
+    try {
+      await client.placeOrder({ contract: 'BTC', size: -1, price: 0, reduceOnly: true });
+    } catch {
+      rejected = true;
+    }
+    check('无持仓时拒绝只减仓订单', rejected);
+    const candles5m = await client.getFuturesCandles('BTC', '5m', 100);
+    check('1分钟K线聚合为5分钟', candles5m.length === 6 && candles5m[0].open === '100' && candles5m[0].close === '104' && candles5m[0].volume === '500');
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('测试失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+/**
+ * 控制接口测试脚本
+ * 验证调度组件暂停状态的持久化与恢复、控制接口令牌认证，以及每次调用（含认证失败）的审计记录
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function account(id: string) {
+  return { id, name: id, exchangeName: 'paper' as const, symbols: ['BTC', 'ETH'], riskOverrides: {} };
+}
+
+async function main() {
+  console.log('🧪 控制接口测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'control-api-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+
+  try {
+    const {
+      getComponentStates,
+      isComponentPaused,
+      isSchedulerComponent,
+      restorePausedComponents,
+      setComponentPaused,
+    } = await import('../src/scheduler/schedulerControl');
+    const { createControlAuthMiddleware, getControlAuditLog, verifyControlToken } = await import('../src/api/controlAudit');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { createClient } = await import('@libsql/client');
+    const { Hono } = await import('hono');
+
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+
+    // ========== 1. 组件暂停 ==========
+    console.log('=== 测试1: 组件暂停 ===');
+    check('识别组件名称', isSchedulerComponent('trading-loop') && !isSchedulerComponent('all') && !isSchedulerComponent(1));
+    check('默认未暂停', !isComponentPaused('trading-loop', 'acct-1'));
+
+    await runWithAccount(account('acct-1'), async () => {
+      await setComponentPaused(client, 'trading-loop', true);
+      await setComponentPaused(client, 'price-order-monitor', true);
+    });
+    check('暂停当前账户的组件', isComponentPaused('trading-loop', 'acct-1') && isComponentPaused('price-order-monitor', 'acct-1'));
+    check('不影响其他账户', !isComponentPaused('trading-loop', 'acct-2'));
+    check('未暂停的组件不受影响', !isComponentPaused('reversal-monitor', 'acct-1'));
+
+    const states = getComponentStates('acct-1');
+    check('组件状态列表', states.length === 6 && states.filter(s => s.paused).map(s => s.component).join(',') === 'trading-loop,price-order-monitor');
+
+    await setComponentPaused(client, 'price-order-monitor', false, 'acct-1');
+    check('恢复组件', !isComponentPaused('price-order-monitor', 'acct-1'));
+
+    await client.execute({
+      sql: `INSERT INTO system_config (account_id, key, value, updated_at) VALUES ('acct-2', 'paused:unknown', 'true', '2025-01-01T00:00:00')`,
+      args: [],
+    });
+    await setComponentPaused(client, 'health-check', true, 'acct-2');
+    await setComponentPaused(client, 'trading-loop', false, 'acct-1');
+    await client.execute({
+      sql: `UPDATE system_config SET value = 'true' WHERE account_id = 'acct-1' AND key = 'paused:trading-loop'`,
+      args: [],
+    });
+    check('运行时以内存状态为准（仅启动时读取数据库）', !isComponentPaused('trading-loop', 'acct-1'));
+    await restorePausedComponents(client);
+    check('启动时从数据库恢复暂停状态', isComponentPaused('trading-loop', 'acct-1') && isComponentPaused('health-check', 'acct-2'));
+    check('恢复时忽略已恢复和未知的组件', !isComponentPaused('price-order-monitor', 'acct-1'));
+
+    // ========== 2. 令牌认证 ==========
+    console.log('\n=== 测试2: 令牌认证 ===');
+    delete process.env.CONTROL_API_TOKEN;
+    check('未配置令牌时禁用控制接口', verifyControlToken('Bearer x')?.includes('未启用') === true);
+    process.env.CONTROL_API_TOKEN = 'secret-token';
+    check('正确令牌通过', verifyControlToken('Bearer secret-token') === null);
+    check('错误令牌被拒绝', verifyControlToken('Bearer secret-tokem') === '令牌无效');
+    check('缺少 Bearer 前缀被拒绝', verifyControlToken('secret-token') === '令牌无效');
+    check('缺少令牌被拒绝', verifyControlToken(undefined) === '令牌无效');
+
+    // ========== 3. 审计记录 ==========
+    console.log('\n=== 测试3: 审计记录 ===');
+    const app = new Hono();
+    app.use('/api/*', async (c, next) => {
+      await runWithAccount(account(c.req.query('account') || 'acct-1'), () => next());
+    });
+    app.use('/api/*', createControlAuthMiddleware(client));
+    let handlerBody: any = null;
+    app.get('/api/control/status', c => c.json({ ok: true }));
+    app.get('/api/status', c => c.json({ ok: true }));
+    app.post('/api/control/pause', async (c) => {
+      handlerBody = await c.req.json();
+      return c.json({ success: true });
+    });
+    app.post('/api/control/orders', c => c.json({ error: '请求参数无效' }, 400));
+
+    const post = (path: string, body: unknown, token?: string) => app.request(path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Forwarded-For': '10.0.0.8, 127.0.0.1',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    const unauthorized = await post('/api/control/pause', { component: 'all' });
+    check('无令牌返回 401', unauthorized.status === 401 && handlerBody === null);
+    const ok = await post('/api/control/pause', { component: 'trading-loop' }, 'secret-token');
+    check('有效令牌执行接口', ok.status === 200);
+    check('接口中仍可读取请求体', handlerBody?.component === 'trading-loop');
+    const bad = await post('/api/control/orders?account=acct-2', { symbol: 'BTC' }, 'secret-token');
+    check('接口错误照常返回', bad.status === 400);
+    const publicGet = await app.request('/api/status');
+    check('普通 GET 请求无需令牌', publicGet.status === 200);
+    const getDenied = await app.request('/api/control/status');
+    check('控制查询接口无令牌返回 401', getDenied.status === 401);
+    const get = await app.request('/api/control/status', { headers: { Authorization: 'Bearer secret-token' } });
+    check('控制查询接口有效令牌可访问', get.status === 200);
+
+    const acct1Log = await runWithAccount(account('acct-1'), () => getControlAuditLog(client));
+    check('记录认证失败和成功的调用（不记录 GET）', acct1Log.map(r => r.status).join(',') === 'success,unauthorized', JSON.stringify(acct1Log.map(r => r.status)));
+    const [success, denied] = acct1Log;
+    check('记录请求参数和响应', success.params === '{"component":"trading-loop"}' && success.response === '{"success":true}' && success.http_status === 200);
+    check('记录认证失败原因', denied.http_status === 401 && denied.response?.includes('令牌无效') === true && denied.params === '{"component":"all"}');
+    check('记录来源地址', success.remote_addr === '10.0.0.8');
+    check('记录请求方法和路径', success.method === 'POST' && success.path === '/api/control/pause');
+
+    const acct2Log = await runWithAccount(account('acct-2'), () => getControlAuditLog(client));
+    check('失败调用记录到请求的账户', acct2Log.length === 1 && acct2Log[0].status === 'failed' && acct2Log[0].http_status === 400);
+
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,226 @@
+/**
+ * 数据库迁移测试脚本
+ * 使用临时数据库验证版本化迁移：新建数据库与最早期旧版数据库迁移后结构一致、数据回填、重复执行幂等、回滚与不可逆迁移
+ */
+
+import { createClient, type Client } from '@libsql/client';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+/**
+ * 数据库结构快照：表 -> 排序后的 "字段:类型"，以及索引名列表
+ */
+async function getSchemaSnapshot(client: Client): Promise<{ tables: Record<string, string[]>; indexes: string[] }> {
+  const tableRows = await client.execute("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name");
+  const tables: Record<string, string[]> = {};
+  for (const row of tableRows.rows) {
+    const table = row.name as string;
+    const info = await client.execute(`PRAGMA table_info(${table})`);
+    tables[table] = info.rows.map((r: any) => `${r.name}:${r.type}`).sort();
+  }
+  const indexRows = await client.execute("SELECT name FROM sqlite_master WHERE type = 'index' AND name NOT LIKE 'sqlite_%' ORDER BY name");
+  return { tables, indexes: indexRows.rows.map(r => r.name as string) };
+}
+
+function compareSnapshots(
+  name: string,
+  actual: Awaited<ReturnType<typeof getSchemaSnapshot>>,
+  expected: Awaited<ReturnType<typeof getSchemaSnapshot>>,
+) {
+  check(`${name}: 表集合一致`, Object.keys(actual.tables).join(',') === Object.keys(expected.tables).join(','),
+    `多出: ${Object.keys(actual.tables).filter(t => !expected.tables[t]).join(', ')} 缺少: ${Object.keys(expected.tables).filter(t => !actual.tables[t]).join(', ')}`);
+  const mismatched = Object.keys(expected.tables).filter(t => actual.tables[t]?.join(',') !== expected.tables[t].join(','));
+  check(`${name}: 字段名和类型一致`, mismatched.length === 0,
+    mismatched.map(t => `${t}: ${actual.tables[t]?.join(',')} != ${expected.tables[t].join(',')}`).join('; '));
+  check(`${name}: 索引一致`, actual.indexes.join(',') === expected.indexes.join(','),
+    `多出: ${actual.indexes.filter(i => !expected.indexes.includes(i)).join(', ')} 缺少: ${expected.indexes.filter(i => !actual.indexes.includes(i)).join(', ')}`);
+}
+
+async function main() {
+  console.log('🧪 数据库迁移测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'db-migrations-'));
+  const accountsPath = join(dir, 'accounts.json');
+  writeFileSync(accountsPath, JSON.stringify({
+    accounts: [{ id: 'default', name: '主账户', exchange: 'paper', symbols: ['BTC'] }],
+  }));
+  process.env.ACCOUNTS_CONFIG_PATH = accountsPath;
+  process.env.INITIAL_BALANCE = '1000';
+
+  const { initDatabase } = await import('../src/database/init');
+  const { getMigrationStatus, migrateUp, migrateDown } = await import('../src/database/migrator');
+  const { MIGRATIONS } = await import('../src/database/migrations');
+  const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+  const legacySql = readFileSync(join(dirname(fileURLToPath(import.meta.url)), 'fixtures/legacy-schema-v1.sql'), 'utf-8');
+
+  try {
+    console.log('=== 测试1: 新建数据库 ===');
+    process.env.DATABASE_URL = `file:${join(dir, 'fresh.db')}`;
+    await initDatabase();
+    const fresh = createClient({ url: process.env.DATABASE_URL });
+    const freshStatus = await getMigrationStatus(fresh);
+    check('新建数据库所有迁移记为已应用', freshStatus.length === MIGRATIONS.length && freshStatus.every(s => s.appliedAt !== null));
+    check('迁移版本号严格递增', MIGRATIONS.every((m, i) => i === 0 || m.version > MIGRATIONS[i - 1].version));
+    const freshSnapshot = await getSchemaSnapshot(fresh);
+    check('迁移记录表已创建', !!freshSnapshot.tables.schema_migrations);
+
+    console.log('\n=== 测试2: 旧版数据库迁移 ===');
+    process.env.DATABASE_URL = `file:${join(dir, 'legacy.db')}`;
+    const legacy = createClient({ url: process.env.DATABASE_URL });
+    await legacy.executeMultiple(legacySql);
+    const now = new Date().toISOString();
+    await legacy.execute({
+      sql: `INSERT INTO positions (symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl, leverage, side, entry_order_id, opened_at)
+            VALUES ('BTC', 1, 100, 110, 50, 10, 5, 'long', 'open-1', ?)`,
+      args: [now],
+    });
+    await legacy.execute({
+      sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, timestamp, status)
+            VALUES ('open-1', 'BTC', 'long', 'open', 100, 1, 5, '2025-01-01T00:00:00.000Z', 'filled')`,
+      args: [],
+    });
+    for (const [reason, triggerOrderId, createdAt] of [
+      ['stop_loss_triggered', 't-1', '2025-01-02T00:00:00.000Z'],
+      ['stop_loss_triggered', 't-1', '2025-01-02T00:00:05.000Z'],
+      ['partial_close', null, '2025-01-03T00:00:00.000Z'],
+    ]) {
+      await legacy.execute({
+        sql: `INSERT INTO position_close_events (symbol, side, close_reason, close_price, entry_price, quantity, pnl, pnl_percent, trigger_order_id, created_at)
+              VALUES ('BTC', 'long', ?, 95, 100, 1, -5, -25, ?, ?)`,
+        args: [reason, triggerOrderId, createdAt],
+      });
+    }
+    await legacy.execute({
+      sql: `INSERT INTO partial_take_profit_history (symbol, stage, r_multiple, trigger_price, close_percent, closed_quantity, remaining_quantity, pnl, timestamp)
+            VALUES ('BTC', 1, 1, 105, 50, 0.5, 0.5, 2.5, '2025-01-03T00:00:01.000Z')`,
+      args: [],
+    });
+    await legacy.execute({
+      sql: `INSERT INTO price_orders (order_id, symbol, side, type, trigger_price, order_price, quantity, created_at)
+            VALUES ('sl-1', 'BTC', 'long', 'stop_loss', 95, 0, 1, ?)`,
+      args: [now],
+    });
+
+    const legacyStatus = await getMigrationStatus(legacy);
+    check('旧版数据库迁移全部待应用', legacyStatus.every(s => s.appliedAt === null));
+    check('不可逆迁移标记', legacyStatus.filter(s => !s.reversible).map(s => s.name).join(',') === 'dedupe-close-events-trigger-order,relax-price-orders-order-price,add-account-id,drop-legacy-lock-rows');
+
+    await initDatabase();
+    const legacyAfter = await getMigrationStatus(legacy);
+    check('启动初始化时自动应用全部迁移', legacyAfter.every(s => s.appliedAt !== null));
+    compareSnapshots('旧版迁移后与新建数据库', await getSchemaSnapshot(legacy), freshSnapshot);
+
+    const position = await legacy.execute('SELECT account_id, peak_pnl_percent, partial_close_percentage FROM positions');
+    check('峰值盈亏按当前盈亏回填', Math.abs(Number(position.rows[0].peak_pnl_percent) - 50) < 1e-9 && Number(position.rows[0].partial_close_percentage) === 0);
+    check('历史数据归入默认账户', position.rows[0].account_id === 'default');
+    const events = await legacy.execute('SELECT close_reason, trigger_type, leverage, fee, position_order_id FROM position_close_events ORDER BY id');
+    check('重复的条件单平仓事件只保留一条', events.rows.length === 2);
+    check('触发类型按平仓原因回填', events.rows[0].trigger_type === 'exchange_order' && events.rows[1].trigger_type === 'ai_decision');
+    check('杠杆和手续费补默认值', events.rows.every(r => Number(r.leverage) === 1 && Number(r.fee) === 0));
+    check('平仓事件关联到开仓订单', events.rows.every(r => r.position_order_id === 'open-1'));
+    const partialTp = await legacy.execute('SELECT side FROM partial_take_profit_history');
+    check('分批止盈方向从平仓事件回填', partialTp.rows[0].side === 'long');
+    const orderPrice = (await legacy.execute('PRAGMA table_info(price_orders)')).rows.find((r: any) => r.name === 'order_price');
+    check('条件单委托价允许为空', Number(orderPrice?.notnull) === 0);
+    const priceOrders = await legacy.execute("SELECT account_id, order_id FROM price_orders");
+    check('重建表保留条件单数据', priceOrders.rows.length === 1 && priceOrders.rows[0].order_id === 'sl-1' && priceOrders.rows[0].account_id === 'default');
+
+    console.log('\n=== 测试3: 幂等性 ===');
+    check('已是最新版本时不再应用迁移', (await migrateUp(legacy)).length === 0);
+    await initDatabase();
+    compareSnapshots('重复初始化后', await getSchemaSnapshot(legacy), freshSnapshot);
+    const history = await legacy.execute("SELECT COUNT(*) as count FROM schema_migrations");
+    check('迁移记录不重复', Number(history.rows[0].count) === MIGRATIONS.length);
+
+    console.log('\n=== 测试4: 回滚 ===');
+    let irreversibleError = '';
+    try {
+      await migrateDown(legacy);
+    } catch (error) {
+      irreversibleError = (error as Error).message;
+    }
+    check('不可逆迁移拒绝回滚', irreversibleError.includes('drop-legacy-lock-rows'), irreversibleError);
+    check('拒绝回滚时不修改迁移记录', (await getMigrationStatus(legacy)).every(s => s.appliedAt !== null));
+
+    const partial = createClient({ url: `file:${join(dir, 'partial.db')}` });
+    await partial.executeMultiple(legacySql);
+    const upTo8 = await migrateUp(partial, { to: 8 });
+    check('按目标版本应用迁移', upTo8.map(m => m.version).join(',') === '1,2,3,4,5,6,7,8');
+    const closeColumns = (await partial.execute('PRAGMA table_info(position_close_events)')).rows.map((r: any) => r.name);
+    check('平仓事件字段已补齐', ['trigger_type', 'leverage', 'fee', 'order_id', 'position_order_id'].every(c => closeColumns.includes(c)));
+
+    const reverted = await migrateDown(partial, { to: 4 });
+    check('回滚到目标版本', reverted.map(m => m.version).join(',') === '8,7,6,5');
+    const positionColumns = (await partial.execute('PRAGMA table_info(positions)')).rows.map((r: any) => r.name);
+    const revertedCloseColumns = (await partial.execute('PRAGMA table_info(position_close_events)')).rows.map((r: any) => r.name);
+    check('回滚删除迁移添加的字段',
+      !positionColumns.includes('metadata') && !positionColumns.includes('market_state') && !revertedCloseColumns.includes('trigger_type') && !revertedCloseColumns.includes('position_order_id'));
+    check('目标版本之前的字段保留', positionColumns.includes('partial_close_percentage') && positionColumns.includes('peak_pnl_percent'));
+    const partialStatus = await getMigrationStatus(partial);
+    check('回滚后状态正确', partialStatus.filter(s => s.appliedAt).map(s => s.version).join(',') === '1,2,3,4');
+    check('默认只回滚最近一个迁移', (await migrateDown(partial)).map(m => m.version).join(',') === '4');
+
+    await migrateUp(partial);
+    await partial.executeMultiple(CREATE_TABLES_SQL);
+    compareSnapshots('回滚后重新迁移', await getSchemaSnapshot(partial), freshSnapshot);
+
+    let orderError = '';
+    try {
+      await migrateUp(partial, { migrations: [MIGRATIONS[1], MIGRATIONS[0]] });
+    } catch (error) {
+      orderError = (error as Error).message;
+    }
+    check('拒绝乱序的迁移列表', orderError.includes('严格递增'), orderError);
+
+    // 迁移失败时结构变更和版本记录一起回滚
+    const failing = {
+      version: 999,
+      name: 'failing',
+      async up(tx: { execute(sql: string): Promise<unknown> }) {
+        await tx.execute('ALTER TABLE trades ADD COLUMN broken TEXT');
+        throw new Error('迁移中途失败');
+      },
+    };
+    let failError = '';
+    try {
+      await migrateUp(partial, { migrations: [...MIGRATIONS, failing] });
+    } catch (error) {
+      failError = (error as Error).message;
+    }
+    const tradeColumns = (await partial.execute('PRAGMA table_info(trades)')).rows.map((row: any) => row.name);
+    const failedRecord = await partial.execute('SELECT COUNT(*) as count FROM schema_migrations WHERE version = 999');
+    check('迁移失败时回滚结构变更和版本记录',
+      failError === '迁移中途失败' && !tradeColumns.includes('broken') && Number(failedRecord.rows[0].count) === 0, failError);
+
+    fresh.close();
+    legacy.close();
+    partial.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
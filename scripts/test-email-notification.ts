@@ -1,22 +1,22 @@
 /**
- * 测试邮件提醒功能
+ * 测试交易提醒功能（发送到已配置的所有通知渠道：邮件、Telegram、Discord、Slack、Webhook）
  * 
  * 使用方法:
  * npx tsx --env-file=.env ./scripts/test-email-notification.ts
  */
 
-import { emailAlertService, AlertLevel } from '../src/utils/emailAlert';
+import { initializeNotifier, notifyTrade } from '../src/notifications';
 
 async function main() {
   console.log('🧪 测试邮件提醒功能...\n');
   
-  // 1. 初始化邮件服务
-  console.log('1. 初始化邮件服务...');
-  emailAlertService.initialize();
+  // 1. 初始化通知服务
+  console.log('1. 初始化通知服务...');
+  initializeNotifier();
   
   // 2. 测试开仓提醒
   console.log('\n2. 测试开仓提醒邮件...');
-  const openResult = await emailAlertService.sendTradeNotification({
+  const openResult = await notifyTrade({
     type: 'open',
     symbol: 'BTC',
     side: 'long',
@@ -34,10 +34,10 @@ async function main() {
     timestamp: new Date().toISOString(),
   });
   
-  if (openResult) {
+  if (openResult.delivered.length > 0) {
     console.log('✅ 开仓提醒邮件发送成功');
   } else {
-    console.log('⚠️  开仓提醒邮件未发送（可能是邮件服务未配置或在冷却期内）');
+    console.log('⚠️  开仓提醒邮件未发送（可能是通知渠道未配置或在去重窗口内）');
   }
   
   // 等待2秒
@@ -45,7 +45,7 @@ async function main() {
   
   // 3. 测试平仓提醒（盈利）
   console.log('\n3. 测试平仓提醒邮件（盈利）...');
-  const closeProfitResult = await emailAlertService.sendTradeNotification({
+  const closeProfitResult = await notifyTrade({
     type: 'close',
     symbol: 'BTC',
     side: 'long',
@@ -63,7 +63,7 @@ async function main() {
     timestamp: new Date().toISOString(),
   });
   
-  if (closeProfitResult) {
+  if (closeProfitResult.delivered.length > 0) {
     console.log('✅ 平仓提醒邮件（盈利）发送成功');
   } else {
     console.log('⚠️  平仓提醒邮件（盈利）未发送');
@@ -74,7 +74,7 @@ async function main() {
   
   // 4. 测试平仓提醒（亏损）
   console.log('\n4. 测试平仓提醒邮件（亏损）...');
-  const closeLossResult = await emailAlertService.sendTradeNotification({
+  const closeLossResult = await notifyTrade({
     type: 'close',
     symbol: 'ETH',
     side: 'short',
@@ -92,7 +92,7 @@ async function main() {
     timestamp: new Date().toISOString(),
   });
   
-  if (closeLossResult) {
+  if (closeLossResult.delivered.length > 0) {
     console.log('✅ 平仓提醒邮件（亏损）发送成功');
   } else {
     console.log('⚠️  平仓提醒邮件（亏损）未发送');
@@ -0,0 +1,427 @@
+/**
+ * 开仓执行模块测试脚本
+ * 验证市价/限价/只做Maker开仓、部分成交后按最新盘口重挂、超时/不利偏离/连续被拒绝转市价、
+ * 按 Maker/Taker 计算手续费、逐笔写入成交记录，以及中断后撤销残留挂单
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+const realSleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const near = (a: number, b: number, eps = 1e-9) => Math.abs(a - b) < eps;
+
+/**
+ * 假交易所：盘口可调，限价单按 onPoll 脚本成交，市价单按对手价立即成交
+ */
+class FakeExchange {
+  bid = 100;
+  ask = 100.1;
+  placed: any[] = [];
+  cancelled: string[] = [];
+  orders = new Map<string, any>();
+  trades: any[] = [];
+  rejectPostOnly = false;
+  placeErrors = 0;
+  failMarket = false;
+  onPoll: (order: any, polls: number) => void = () => {};
+  onCancel: (order: any) => void = () => {};
+  private nextId = 1;
+  private polls = new Map<string, number>();
+
+  getOrderBook = async () => ({ bids: [{ p: String(this.bid), s: '50' }], asks: [{ p: String(this.ask), s: '50' }] });
+
+  placeOrder = async (params: any) => {
+    this.placed.push(params);
+    if (params.price && this.placeErrors > 0) {
+      this.placeErrors--;
+      throw new Error('Post only order will be rejected');
+    }
+    if (!params.price && this.failMarket) {
+      throw new Error('下单失败');
+    }
+    const id = String(this.nextId++);
+    const total = Math.abs(params.size);
+    const order: any = { id, contract: params.contract, size: params.size, price: String(params.price || 0), status: 'open', left: String(total), fill_price: '0' };
+    if (!params.price) {
+      Object.assign(order, { status: 'finished', left: '0', fill_price: String(params.size > 0 ? this.ask : this.bid) });
+    } else if (params.tif === 'poc' && this.rejectPostOnly) {
+      // Gate：只做Maker订单会立即成交时直接结束，未成交
+      order.status = 'finished';
+    }
+    this.orders.set(id, order);
+    return { ...order };
+  };
+
+  getOrder = async (id: string) => {
+    const order = this.orders.get(id);
+    if (order.status === 'open') {
+      const polls = (this.polls.get(id) ?? 0) + 1;
+      this.polls.set(id, polls);
+      this.onPoll(order, polls);
+    }
+    return { ...order };
+  };
+
+  cancelOrder = async (id: string) => {
+    const order = this.orders.get(id);
+    this.onCancel(order);
+    if (order.status !== 'open') {
+      throw new Error('ORDER_NOT_FOUND');
+    }
+    order.status = 'cancelled';
+    this.cancelled.push(id);
+  };
+
+  getMyTrades = async () => this.trades;
+  getExchangeName = () => 'gate';
+  isTestnet = () => false;
+}
+
+/** 成交指定数量（累计） */
+function fillTo(order: any, quantity: number, price?: number) {
+  const total = Math.abs(order.size);
+  order.left = String(total - quantity);
+  order.fill_price = String(price ?? order.price);
+  if (quantity >= total) order.status = 'finished';
+}
+
+async function main() {
+  console.log('🧪 开仓执行模块测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'entry-execution-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+  process.env.PAPER_INITIAL_BALANCE = '100000';
+  process.env.PAPER_SLIPPAGE_PERCENT = '0';
+  process.env.PAPER_FEE_EXCHANGE = 'gate';
+  delete process.env.ENTRY_EXECUTION_MODE;
+
+  try {
+    const { createClient } = await import('@libsql/client');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const { PaperExchangeClient } = await import('../src/exchanges/PaperExchangeClient');
+    const {
+      executeEntry,
+      attachEntryFees,
+      readOrderFill,
+      resolveEntryExecutionConfig,
+      getEntryFeeRates,
+    } = await import('../src/services/entryExecution');
+    const {
+      recordOperationIntent,
+      markOperationIntentSubmitted,
+      buildOpenPositionStatements,
+      commitOperationIntent,
+      reconcileOperationIntents,
+    } = await import('../src/services/operationIntentLog');
+
+    let clock = 0;
+    const hooks = (extra: Record<string, any> = {}) => ({
+      sleep: async (ms: number) => { clock += ms; },
+      now: () => clock,
+      ...extra,
+    });
+    const config = (mode: 'market' | 'limit' | 'post_only', overrides: Record<string, number> = {}) => ({
+      mode, repriceIntervalSeconds: 10, timeoutSeconds: 30, maxAdverseMovePercent: 0.2, ...overrides,
+    });
+    const request = (side: 'long' | 'short', mode: 'market' | 'limit' | 'post_only', overrides: Record<string, number> = {}) => ({
+      contract: 'BTC_USDT', side, quantity: 10, referencePrice: 100.05, minSize: 1, config: config(mode, overrides),
+    });
+
+    // ========== 1. 市价开仓 ==========
+    console.log('=== 测试1: 市价开仓 ===');
+    let ex = new FakeExchange();
+    const events: string[] = [];
+    let result = await executeEntry(ex as any, request('long', 'market'), hooks({
+      beforeOrder: async () => { events.push('verify'); },
+      onOrderPlaced: async (id: string, ids: string[]) => { events.push(`placed:${id}:${ids.length}`); },
+    }));
+    check('市价单 price=0 且无 tif', ex.placed.length === 1 && ex.placed[0].price === 0 && ex.placed[0].tif === undefined);
+    check('市价成交记为 Taker', result.filledQuantity === 10 && result.takerQuantity === 10 && result.makerQuantity === 0
+      && near(result.averagePrice, 100.1) && result.status === 'filled' && result.fallbackReason === null);
+    check('下单前校验、下单后回调', events.join(',') === 'verify,placed:1:1', events.join(','));
+
+    // ========== 2. 只做Maker挂单 ==========
+    console.log('\n=== 测试2: 只做Maker挂单 ===');
+    ex = new FakeExchange();
+    ex.onPoll = (order) => fillTo(order, 10);
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    check('做多挂在买一、tif=poc', ex.placed.length === 1 && ex.placed[0].price === 100 && ex.placed[0].tif === 'poc' && ex.placed[0].size === 10);
+    check('挂单完全成交记为 Maker', result.makerQuantity === 10 && result.takerQuantity === 0 && near(result.averagePrice, 100)
+      && result.fills.length === 1 && result.fills[0].liquidity === 'maker');
+
+    ex = new FakeExchange();
+    ex.onPoll = (order) => fillTo(order, 10);
+    result = await executeEntry(ex as any, request('short', 'limit'), hooks());
+    check('做空限价单挂在卖一、tif=gtc、数量为负', ex.placed[0].price === 100.1 && ex.placed[0].tif === 'gtc' && ex.placed[0].size === -10);
+    check('做空挂单成交', result.filledQuantity === 10 && near(result.averagePrice, 100.1));
+    check('GTC 限价单成交在确认角色前按 Taker 计', result.fills[0].liquidity === 'taker' && result.takerQuantity === 10);
+
+    // ========== 3. 部分成交后重挂 ==========
+    console.log('\n=== 测试3: 部分成交后重挂 ===');
+    ex = new FakeExchange();
+    const placedIds: string[][] = [];
+    ex.onPoll = (order) => {
+      if (order.id === '1') {
+        fillTo(order, 4);
+        ex.bid = 100.05;
+        ex.ask = 100.15;
+      } else {
+        fillTo(order, 6);
+      }
+    };
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks({
+      onOrderPlaced: async (_id: string, ids: string[]) => { placedIds.push(ids); },
+    }));
+    check('重挂间隔后撤销部分成交的挂单', ex.cancelled.join(',') === '1');
+    check('按最新买一重挂剩余数量', ex.placed.length === 2 && ex.placed[1].price === 100.05 && ex.placed[1].size === 6);
+    check('两笔子订单分别记录成交', result.fills.map(f => `${f.orderId}:${f.quantity}`).join(',') === '1:4,2:6');
+    check('成交均价按数量加权', near(result.averagePrice, (4 * 100 + 6 * 100.05) / 10), String(result.averagePrice));
+    check('重挂次数与订单ID列表', result.repriceCount === 1 && placedIds.map(ids => ids.join('+')).join(',') === '1,1+2');
+
+    // ========== 4. 超时与不利偏离转市价 ==========
+    console.log('\n=== 测试4: 超时与不利偏离转市价 ===');
+    ex = new FakeExchange();
+    clock = 0;
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    const limitOrders = ex.placed.filter(p => p.price > 0);
+    check('未成交时每个重挂间隔重挂一次直到超时', limitOrders.length === 3 && ex.cancelled.length === 3, `挂单 ${limitOrders.length} 次`);
+    check('超时后剩余数量转市价', result.fallbackReason === 'timeout' && ex.placed[ex.placed.length - 1].price === 0
+      && result.takerQuantity === 10 && result.makerQuantity === 0);
+    check('挂单总时长不超过超时时间', clock >= 30_000 && clock <= 30_000 + 2000 + 1000, String(clock));
+
+    ex = new FakeExchange();
+    ex.onPoll = (order) => {
+      fillTo(order, 3);
+      ex.bid = 100.4;
+      ex.ask = 100.5;
+    };
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    check('价格不利偏离超过上限时转市价', result.fallbackReason === 'adverse_move'
+      && result.fills.map(f => `${f.liquidity}:${f.quantity}`).join(',') === 'maker:3,taker:7');
+    check('转市价只下剩余数量', ex.placed[ex.placed.length - 1].size === 7);
+
+    ex = new FakeExchange();
+    ex.bid = 99.6;
+    ex.ask = 99.7;
+    result = await executeEntry(ex as any, request('short', 'post_only'), hooks());
+    check('做空时买一跌破下限直接转市价', result.fallbackReason === 'adverse_move' && ex.placed.length === 1 && ex.placed[0].size === -10);
+
+    ex = new FakeExchange();
+    ex.bid = 100.3;
+    ex.ask = 100.4;
+    ex.onPoll = (order) => fillTo(order, 10);
+    result = await executeEntry(ex as any, request('short', 'post_only'), hooks());
+    check('做空时价格上涨是有利方向，继续挂单', result.fallbackReason === null && result.makerQuantity === 10 && near(result.averagePrice, 100.4));
+
+    // ========== 5. 被拒绝 ==========
+    console.log('\n=== 测试5: 被拒绝 ===');
+    ex = new FakeExchange();
+    ex.rejectPostOnly = true;
+    clock = 0;
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    check('只做Maker订单连续被拒绝后转市价', result.fallbackReason === 'rejected' && ex.placed.filter(p => p.tif === 'poc').length === 3
+      && result.takerQuantity === 10);
+    check('被拒绝的订单不撤单', ex.cancelled.length === 0);
+
+    ex = new FakeExchange();
+    ex.placeErrors = 1;
+    ex.onPoll = (order) => fillTo(order, 10);
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    check('下单报错后重试挂单', result.fallbackReason === null && result.makerQuantity === 10 && ex.placed.length === 2);
+
+    ex = new FakeExchange();
+    ex.placeErrors = 5;
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    check('下单连续报错后转市价', result.fallbackReason === 'rejected' && result.takerQuantity === 10);
+
+    // ========== 6. 边界情况 ==========
+    console.log('\n=== 测试6: 边界情况 ===');
+    ex = new FakeExchange();
+    ex.onCancel = (order) => fillTo(order, 10);
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    check('撤单时已完全成交，以撤单后的订单状态为准', result.makerQuantity === 10 && result.fallbackReason === null
+      && ex.placed.length === 1, JSON.stringify(result.fills));
+
+    ex = new FakeExchange();
+    ex.onPoll = (order) => fillTo(order, 9.5);
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    check('剩余数量低于最小下单量时不再下单', result.filledQuantity === 9.5 && ex.placed.length === 1 && result.fallbackReason === null);
+
+    ex = new FakeExchange();
+    ex.failMarket = true;
+    ex.onPoll = (order) => { if (order.id === '1') fillTo(order, 4); };
+    result = await executeEntry(ex as any, request('long', 'post_only'), hooks());
+    check('已有成交时市价单失败返回已成交部分', result.filledQuantity === 4 && result.fallbackReason === 'timeout');
+
+    ex = new FakeExchange();
+    ex.failMarket = true;
+    const marketError = await executeEntry(ex as any, request('long', 'market'), hooks()).then(() => null, (error: Error) => error);
+    check('无成交时下单失败抛出异常', marketError?.message === '下单失败');
+
+    ex = new FakeExchange();
+    const lockError = await executeEntry(ex as any, request('long', 'post_only'), hooks({
+      beforeOrder: async () => { throw new Error('持仓锁已失效'); },
+    })).then(() => null, (error: Error) => error);
+    check('下单前校验失败时中止且不下单', lockError?.message === '持仓锁已失效' && ex.placed.length === 0);
+
+    ex = new FakeExchange();
+    ex.getOrderBook = async () => { throw new Error('timeout'); };
+    result = await executeEntry(ex as any, request('long', 'limit'), hooks());
+    check('无法获取盘口时转市价', result.fallbackReason === 'no_quote' && result.takerQuantity === 10);
+
+    check('读取成交: 缺少 left 的已完成订单视为全部成交',
+      readOrderFill({ id: '1', contract: 'X', size: -5, price: '10', status: 'finished' } as any, 9).quantity === 5);
+    check('读取成交: 无成交均价时使用委托价',
+      readOrderFill({ id: '1', contract: 'X', size: 5, price: '10', status: 'open', left: '2', fill_price: '0' } as any, 9).price === 10);
+
+    process.env.ENTRY_EXECUTION_MODE = 'market';
+    check('ENTRY_EXECUTION_MODE 统一覆盖开仓方式', resolveEntryExecutionConfig(config('post_only')).mode === 'market');
+    process.env.ENTRY_EXECUTION_MODE = 'iceberg';
+    check('无效的 ENTRY_EXECUTION_MODE 被忽略', resolveEntryExecutionConfig(config('post_only')).mode === 'post_only');
+    delete process.env.ENTRY_EXECUTION_MODE;
+
+    // ========== 7. 手续费 ==========
+    console.log('\n=== 测试7: 手续费 ===');
+    const rates = getEntryFeeRates(new FakeExchange() as any);
+    check('Gate 正式网费率：Maker 返佣、Taker 0.05%', rates.maker < 0 && rates.taker === 0.0005);
+    ex = new FakeExchange();
+    ex.trades = [
+      { id: 't1', order_id: '1', contract: 'BTC_USDT', size: '4', price: '100', role: 'maker', fee: '-0.1', timestamp: 0 },
+      { id: 't2', order_id: '3', contract: 'BTC_USDT', size: '1', price: '100', role: 'maker', fee: '-0.02', timestamp: 0 },
+      { id: 't3', order_id: '3', contract: 'BTC_USDT', size: '1', price: '100', role: 'taker', fee: '0.05', timestamp: 0 },
+    ];
+    const feeExecution: any = {
+      fills: [
+        { orderId: '1', quantity: 4, price: 100, liquidity: 'taker', fee: null },
+        { orderId: '2', quantity: 4, price: 101, liquidity: 'taker', fee: null },
+        { orderId: '3', quantity: 2, price: 100, liquidity: 'maker', fee: null },
+      ],
+      averagePrice: 100.4, makerQuantity: 2, takerQuantity: 8,
+    };
+    const fills = feeExecution.fills;
+    const totalFee = await attachEntryFees(ex as any, 'BTC_USDT', feeExecution, 0.01);
+    check('有成交记录时使用真实手续费（返佣为负）', fills[0].fee === -0.1);
+    check('按成交记录中的角色更正 Maker/Taker', fills[0].liquidity === 'maker' && fills[2].liquidity === 'taker');
+    check('无成交记录时按下单时假设的角色估算（GTC 限价为 Taker）', fills[1].liquidity === 'taker'
+      && near(fills[1].fee as number, 4 * 0.01 * 101 * 0.0005));
+    check('手续费合计', near(totalFee, -0.1 + 4 * 0.01 * 101 * 0.0005 + 0.03));
+    check('按更正后的角色汇总 Maker/Taker 数量', feeExecution.makerQuantity === 4 && feeExecution.takerQuantity === 6);
+
+    // ========== 8. 模拟盘只做Maker ==========
+    console.log('\n=== 测试8: 模拟盘只做Maker ===');
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+    const prices: Record<string, number> = { BTC_USDT: 100, ETH_USDT: 50 };
+    const paper = new PaperExchangeClient(
+      { exchangeName: 'paper', apiKey: '', apiSecret: '', isTestnet: false, accountId: 'acct-1' },
+      {
+        getExchangeName: () => 'gate',
+        normalizeContract: (symbol: string) => symbol.includes('_') ? symbol : `${symbol}_USDT`,
+        extractSymbol: (contract: string) => contract.split('_')[0],
+        getFuturesTicker: async (contract: string) => ({ contract, last: prices[contract].toString() }),
+        getContractInfo: async (contract: string) => ({ name: contract, quantoMultiplier: '1', orderSizeMin: 1, orderSizeMax: 1000000 }),
+        getOrderBook: async (contract: string) => ({
+          bids: [{ p: String(prices[contract] - 0.1), s: '100' }],
+          asks: [{ p: String(prices[contract] + 0.1), s: '100' }],
+        }),
+        getCircuitBreakerStatus: () => ({ isOpen: false }),
+      } as any,
+    );
+    const account = { id: 'acct-1', name: 'acct-1', exchangeName: 'paper' as const, symbols: ['BTC', 'ETH'], riskOverrides: {} };
+
+    await runWithAccount(account, async () => {
+      await paper.setLeverage('BTC_USDT', 5);
+      const crossing = await paper.placeOrder({ contract: 'BTC_USDT', size: 2, price: 100.5, tif: 'poc' });
+      check('模拟盘：会立即成交的只做Maker订单被撤销', crossing.status === 'cancelled' && crossing.left === '2'
+        && (await paper.getPositions()).length === 0);
+
+      let paperClock = 0;
+      const paperResult = await executeEntry(paper as any, {
+        contract: 'BTC_USDT', side: 'long', quantity: 5, referencePrice: 100, minSize: 1,
+        config: { mode: 'post_only', repriceIntervalSeconds: 10, timeoutSeconds: 30, maxAdverseMovePercent: 0.5 },
+      }, {
+        // 模拟盘每秒最多撮合一次：真实等待撮合间隔，第一次查询前价格下跌触及挂单价
+        sleep: async (ms: number) => {
+          paperClock += ms;
+          prices.BTC_USDT = 99.85;
+          await realSleep(1050);
+        },
+        now: () => paperClock,
+      });
+      check('模拟盘：挂单在价格触及后按挂单价 Maker 成交', paperResult.makerQuantity === 5 && near(paperResult.averagePrice, 99.9),
+        JSON.stringify(paperResult.fills));
+      const paperFee = await attachEntryFees(paper as any, 'BTC_USDT', paperResult, 1);
+      check('模拟盘：Maker 成交手续费为返佣', paperFee < 0 && near(paperFee, 5 * 99.9 * rates.maker), String(paperFee));
+      const paperPosition = (await paper.getPositions()).find(p => p.contract === 'BTC_USDT');
+      check('模拟盘：持仓数量与成交数量一致', Number(paperPosition?.size) === 5);
+
+      // ========== 9. 逐笔写入成交记录 ==========
+      console.log('\n=== 测试9: 逐笔写入成交记录 ===');
+      const intentId = await recordOperationIntent(client, {
+        operation: 'open_position', symbol: 'BTC', side: 'long',
+        payload: { contract: 'BTC_USDT', size: 10, plannedPrice: 100, leverage: 5 },
+      });
+      await commitOperationIntent(client, intentId, buildOpenPositionStatements('acct-1', {
+        symbol: 'BTC', side: 'long', orderId: 'o1', fillPrice: 100.06, quantity: 10, leverage: 5, fee: 0.2,
+        tradeStatus: 'filled', liquidationPrice: 82, stopLoss: null, takeProfit: null, slOrderId: null, tpOrderId: null,
+        marketState: null, strategyType: null, signalStrength: null, opportunityScore: null, metadata: null,
+        timestamp: '2026-01-01T00:00:00.000Z',
+        fills: [
+          { orderId: 'o1', price: 100, quantity: 4, fee: -0.1 },
+          { orderId: 'o2', price: 100.1, quantity: 6, fee: 0.3 },
+        ],
+      }));
+      const tradeRows = (await client.execute("SELECT order_id, price, quantity, fee FROM trades WHERE symbol = 'BTC' AND type = 'open' ORDER BY id")).rows;
+      check('每笔子订单一条开仓成交记录', tradeRows.map(r => `${r.order_id}:${r.quantity}:${r.fee}`).join(',') === 'o1:4:-0.1,o2:6:0.3',
+        JSON.stringify(tradeRows));
+      const positionRow = (await client.execute("SELECT quantity, entry_price, entry_order_id FROM positions WHERE symbol = 'BTC'")).rows[0];
+      check('持仓记录合计数量、成交均价和首笔订单ID', Number(positionRow.quantity) === 10 && Number(positionRow.entry_price) === 100.06
+        && positionRow.entry_order_id === 'o1');
+
+      // ========== 10. 中断后撤销残留挂单 ==========
+      console.log('\n=== 测试10: 中断后撤销残留挂单 ===');
+      // 挂单期间崩溃：交易所仍有未成交的挂单，且尚无持仓
+      const resting = await paper.placeOrder({ contract: 'ETH_USDT', size: 3, price: 49.9, tif: 'poc' });
+      const restingIntent = await recordOperationIntent(client, {
+        operation: 'open_position', symbol: 'ETH', side: 'long',
+        payload: { contract: 'ETH_USDT', size: 3, plannedPrice: 50, leverage: 5 },
+      });
+      await markOperationIntentSubmitted(client, restingIntent, resting.id.toString(), { entryOrderIds: [resting.id.toString()] });
+      const reconciled = await reconcileOperationIntents(client, paper as any);
+      const restingAfter = await paper.getOrder(resting.id.toString());
+      check('修复时撤销残留挂单', restingAfter.status === 'cancelled');
+      check('无持仓且未记录成交时开仓意图标记为失败', reconciled.length === 1 && reconciled[0].status === 'failed'
+        && (await client.execute("SELECT COUNT(*) AS count FROM trades WHERE symbol = 'ETH'")).rows[0].count === 0,
+        JSON.stringify(reconciled));
+    });
+
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
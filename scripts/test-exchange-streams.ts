@@ -0,0 +1,259 @@
+/**
+ * WebSocket 数据流测试脚本
+ * 使用本地模拟 WebSocket 服务器验证 Gate.io / 币安的订阅、行情存储新鲜度、订单事件以及断线重连后的重新订阅
+ */
+
+import { createHmac } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { GateExchangeStream } from '../src/exchanges/streams/GateExchangeStream';
+import { BinanceExchangeStream } from '../src/exchanges/streams/BinanceExchangeStream';
+import { MarketDataStore } from '../src/exchanges/streams/MarketDataStore';
+import type { OrderUpdateEvent } from '../src/exchanges/streams/ExchangeStream';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<boolean> {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs) {
+    if (condition()) return true;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return condition();
+}
+
+interface MockConnection {
+  ws: WebSocket;
+  path: string;
+  messages: any[];
+}
+
+/**
+ * 本地模拟 WebSocket 服务器：记录每个连接及其收到的消息
+ */
+async function startMockServer(): Promise<{ url: string; connections: MockConnection[]; close: () => Promise<void> }> {
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+  const connections: MockConnection[] = [];
+  server.on('connection', (ws, request) => {
+    const connection: MockConnection = { ws, path: request.url || '', messages: [] };
+    ws.on('message', raw => connection.messages.push(JSON.parse(raw.toString())));
+    connections.push(connection);
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    connections,
+    close: () => new Promise<void>(resolve => {
+      for (const client of server.clients) client.terminate();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+function candle(timestamp: number, close: number) {
+  return { timestamp, open: '1', high: '2', low: '0.5', close: close.toString(), volume: '10' };
+}
+
+async function testMarketDataStore() {
+  console.log('=== 测试1: 行情存储新鲜度 ===');
+  const store = new MarketDataStore({ tickerMaxAgeMs: 50, candleMaxAgeMs: 50, maxCandles: 3 });
+
+  store.updateTicker('BTC_USDT', { last: '100' });
+  check('新鲜 ticker 可读取', store.getTicker('BTC_USDT')?.last === '100');
+  check('缺少标记价格时按需返回 null', store.getTicker('BTC_USDT', true) === null);
+  store.updateTicker('BTC_USDT', { markPrice: '101' });
+  check('合并标记价格', store.getTicker('BTC_USDT', true)?.markPrice === '101' && store.getTicker('BTC_USDT')?.last === '100');
+
+  store.updateCandle('BTC_USDT', '1m', candle(3000, 13));
+  check('未补齐的K线不可读取', store.getCandles('BTC_USDT', '1m', 1) === null);
+  store.seedCandles('BTC_USDT', '1m', [candle(1000, 11), candle(2000, 12), candle(3000, 12.5)]);
+  const seeded = store.getCandles('BTC_USDT', '1m', 3);
+  check('补齐时保留已推送的更新K线', seeded?.[2].close === '13');
+  store.updateCandle('BTC_USDT', '1m', candle(4000, 14));
+  const appended = store.getCandles('BTC_USDT', '1m', 3);
+  check('新K线追加并按上限裁剪', appended?.map(c => c.timestamp).join(',') === '2000,3000,4000');
+  check('数量不足时回退 REST', store.getCandles('BTC_USDT', '1m', 4) === null);
+
+  await new Promise(resolve => setTimeout(resolve, 80));
+  check('ticker 过期后返回 null', store.getTicker('BTC_USDT') === null);
+  check('K线过期后返回 null', store.getCandles('BTC_USDT', '1m', 3) === null);
+
+  store.updateTicker('BTC_USDT', { last: '100' });
+  store.invalidate();
+  check('断线失效后清空行情', store.getTicker('BTC_USDT') === null && store.getStats().candleSeries === 0);
+}
+
+async function testGateStream() {
+  console.log('\n=== 测试2: Gate.io 订阅、推送与重连 ===');
+  const server = await startMockServer();
+  const stream = new GateExchangeStream({
+    isTestnet: false,
+    apiKey: 'key',
+    apiSecret: 'secret',
+    wsUrl: server.url,
+    reconnectDelayMs: 50,
+    resolveUserId: async () => '10001',
+  });
+  const orderEvents: OrderUpdateEvent[] = [];
+  const resyncs: string[] = [];
+  stream.onOrderUpdate(event => orderEvents.push(event));
+  stream.onResync(reason => resyncs.push(reason));
+
+  try {
+    stream.trackTicker('BTC_USDT');
+    stream.start();
+    await waitFor(() => server.connections.length === 1 && server.connections[0].messages.length >= 4);
+    const first = server.connections[0];
+    const tickerSub = first.messages.find(m => m.channel === 'futures.tickers');
+    check('连接后订阅已跟踪的 ticker', tickerSub?.event === 'subscribe' && tickerSub.payload[0] === 'BTC_USDT');
+    const orderSub = first.messages.find(m => m.channel === 'futures.orders');
+    const expectedSign = createHmac('sha512', 'secret').update(`channel=futures.orders&event=subscribe&time=${orderSub?.time}`).digest('hex');
+    check('私有频道携带签名', orderSub?.payload.join(',') === '10001,!all' && orderSub.auth.KEY === 'key' && orderSub.auth.SIGN === expectedSign);
+    check('订阅确认前订单推送未激活', !stream.isUserDataActive());
+    first.ws.send(JSON.stringify({ channel: 'futures.orders', event: 'subscribe', error: null, result: { status: 'success' } }));
+    await waitFor(() => stream.isUserDataActive());
+    check('订阅确认后订单推送激活', stream.isUserDataActive());
+
+    check('不支持的K线周期不订阅', stream.trackCandles('BTC_USDT', '3m') === false);
+    check('支持的K线周期动态订阅', stream.trackCandles('BTC_USDT', '1m') === true);
+    await waitFor(() => first.messages.some(m => m.channel === 'futures.candlesticks'));
+    const candleSub = first.messages.find(m => m.channel === 'futures.candlesticks');
+    check('K线订阅参数', candleSub?.payload.join(',') === '1m,BTC_USDT');
+
+    first.ws.send(JSON.stringify({
+      channel: 'futures.tickers', event: 'update',
+      result: [{ contract: 'BTC_USDT', last: '100', mark_price: '100.5', index_price: '100.2', volume_24h: '5', high_24h: '110', low_24h: '90', change_percentage: '1.5' }],
+    }));
+    await waitFor(() => stream.getTicker('BTC_USDT') !== null);
+    const ticker = stream.getTicker('BTC_USDT', true);
+    check('ticker 推送写入存储', ticker?.last === '100' && ticker.markPrice === '100.5' && ticker.change24h === '1.5');
+
+    stream.seedCandles('BTC_USDT', '1m', [candle(60000, 1), candle(120000, 2)]);
+    first.ws.send(JSON.stringify({
+      channel: 'futures.candlesticks', event: 'update',
+      result: [{ t: 180, o: '2', h: '3', l: '1.5', c: '2.5', v: '7', n: '1m_BTC_USDT' }],
+    }));
+    await waitFor(() => stream.getCandles('BTC_USDT', '1m', 3) !== null);
+    check('K线推送追加到补齐的序列', stream.getCandles('BTC_USDT', '1m', 3)?.[2].close === '2.5');
+
+    first.ws.send(JSON.stringify({
+      channel: 'futures.orders', event: 'update',
+      result: [{ contract: 'BTC_USDT', id: 555, size: -10, left: 0, fill_price: '99.5', status: 'finished', finish_as: 'filled', is_reduce_only: true }],
+    }));
+    first.ws.send(JSON.stringify({
+      channel: 'futures.autoorders', event: 'update',
+      result: [{ id: 777, status: 'finished', finish_as: 'succeeded', initial: { contract: 'BTC_USDT', size: 0, is_close: true } }],
+    }));
+    await waitFor(() => orderEvents.length >= 2);
+    const fill = orderEvents.find(e => e.orderId === '555');
+    check('平仓成交事件', fill?.status === 'filled' && fill.filledSize === 10 && fill.fillPrice === 99.5 && fill.reduceOnly);
+    const triggered = orderEvents.find(e => e.orderId === '777');
+    check('条件单触发事件', triggered?.status === 'triggered' && triggered.isPriceOrder);
+
+    // 服务端断开连接，模拟网络中断
+    first.ws.terminate();
+    await waitFor(() => !stream.isMarketConnected());
+    check('断线后不再提供行情', stream.getTicker('BTC_USDT') === null && stream.getCandles('BTC_USDT', '1m', 3) === null);
+    await waitFor(() => server.connections.length === 2 && server.connections[1].messages.length >= 5);
+    const second = server.connections[1];
+    const channels = second.messages.map(m => m.channel).sort().join(',');
+    check('重连后重新订阅全部频道', channels === 'futures.autoorders,futures.candlesticks,futures.orders,futures.positions,futures.tickers', channels);
+    check('重连后通知重新同步', resyncs.includes('market-reconnect'));
+    check('重连后K线需重新补齐', stream.getCandles('BTC_USDT', '1m', 3) === null);
+
+    stream.stop();
+    await new Promise(resolve => setTimeout(resolve, 150));
+    check('停止后不再重连', server.connections.length === 2 && !stream.isMarketConnected());
+  } finally {
+    stream.stop();
+    await server.close();
+  }
+}
+
+async function testBinanceStream() {
+  console.log('\n=== 测试3: 币安行情流与用户数据流 ===');
+  const server = await startMockServer();
+  let listenKeyCount = 0;
+  const stream = new BinanceExchangeStream({
+    isTestnet: true,
+    apiKey: 'key',
+    apiSecret: 'secret',
+    wsUrl: server.url,
+    reconnectDelayMs: 50,
+    createListenKey: async () => `lk-${++listenKeyCount}`,
+    keepAliveListenKey: async () => {},
+  });
+  const orderEvents: OrderUpdateEvent[] = [];
+  const resyncs: string[] = [];
+  stream.onOrderUpdate(event => orderEvents.push(event));
+  stream.onResync(reason => resyncs.push(reason));
+
+  try {
+    stream.start();
+    await waitFor(() => stream.isMarketConnected() && stream.isUserDataActive());
+    const market = server.connections.find(c => c.path === '/ws');
+    const user = server.connections.find(c => c.path === '/ws/lk-1');
+    check('行情连接与用户数据连接分离', !!market && !!user);
+
+    stream.trackTicker('BTCUSDT');
+    stream.trackCandles('BTCUSDT', '3m');
+    await waitFor(() => (market?.messages.length || 0) >= 2);
+    const params = market!.messages.flatMap(m => m.params).sort().join(',');
+    check('动态订阅 ticker、标记价格和K线', params === 'btcusdt@kline_3m,btcusdt@markPrice@1s,btcusdt@ticker', params);
+
+    market!.ws.send(JSON.stringify({ e: '24hrTicker', s: 'BTCUSDT', c: '200', v: '9', h: '210', l: '190', P: '-0.5' }));
+    market!.ws.send(JSON.stringify({ e: 'markPriceUpdate', s: 'BTCUSDT', p: '200.3', i: '200.1' }));
+    await waitFor(() => stream.getTicker('BTCUSDT', true) !== null);
+    const ticker = stream.getTicker('BTCUSDT', true);
+    check('合并 ticker 与标记价格推送', ticker?.last === '200' && ticker.markPrice === '200.3' && ticker.indexPrice === '200.1');
+
+    stream.seedCandles('BTCUSDT', '3m', [candle(0, 1)]);
+    market!.ws.send(JSON.stringify({ e: 'kline', s: 'BTCUSDT', k: { t: 180000, o: '1', h: '2', l: '1', c: '1.8', v: '3', i: '3m' } }));
+    await waitFor(() => stream.getCandles('BTCUSDT', '3m', 2) !== null);
+    check('K线推送写入存储', stream.getCandles('BTCUSDT', '3m', 2)?.[1].close === '1.8');
+
+    user!.ws.send(JSON.stringify({
+      e: 'ORDER_TRADE_UPDATE', E: 1, T: 2,
+      o: { s: 'BTCUSDT', i: 9001, X: 'FILLED', z: '0.010', ap: '198.5', R: true, ot: 'STOP_MARKET' },
+    }));
+    await waitFor(() => orderEvents.length === 1);
+    check('止损单成交事件', orderEvents[0]?.status === 'filled' && orderEvents[0].isPriceOrder && orderEvents[0].filledSize === 0.01);
+
+    user!.ws.send(JSON.stringify({ e: 'listenKeyExpired' }));
+    await waitFor(() => server.connections.some(c => c.path === '/ws/lk-2') && stream.isUserDataActive());
+    check('listenKey 过期后申请新 key 重连', server.connections.some(c => c.path === '/ws/lk-2'));
+    check('用户数据流重连后通知重新同步', resyncs.includes('user-reconnect'));
+  } finally {
+    stream.stop();
+    await server.close();
+  }
+}
+
+async function main() {
+  console.log('🧪 WebSocket 数据流测试\n');
+  await testMarketDataStore();
+  await testGateStream();
+  await testBinanceStream();
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,228 @@
+/**
+ * 资金费率与基差测试脚本
+ * 验证各交易所费率格式解析、费率历史记录、持仓资金费预测、结算流水同步与持仓归属、资金费率套利信号，以及持仓时间线的资金费合计
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const sec = (iso: string) => Date.parse(iso) / 1000;
+
+function timeframe(price: number, overrides: Record<string, number> = {}) {
+  return { currentPrice: price, ema20: price, ema50: price, macd: 0, macdSignal: 0, rsi7: 50, rsi14: 50, atrRatio: 1, ...overrides };
+}
+
+async function main() {
+  console.log('🧪 资金费率与基差测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'funding-basis-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+  process.env.FUNDING_INTERVAL_HOURS = '8';
+  process.env.FUNDING_CARRY_MIN_RATE = '0.0003';
+
+  try {
+    const { createClient } = await import('@libsql/client');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const {
+      parseFundingRate,
+      recordFundingRate,
+      getFundingHistory,
+      getFundingSnapshot,
+      buildFundingSnapshot,
+      predictFundingPnl,
+      forecastPositionFunding,
+      syncFundingSettlements,
+    } = await import('../src/services/fundingBasis');
+    const { fundingCarrySignal } = await import('../src/strategies/fundingCarryStrategy');
+    const { loadPositionTimeline } = await import('../src/services/positionJournal');
+
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+    const account = (id: string) => ({ id, name: id, exchangeName: 'paper' as const, symbols: ['BTC', 'ETH', 'SOL'], riskOverrides: {} });
+
+    // ========== 1. 费率格式解析 ==========
+    console.log('=== 测试1: 费率格式解析 ===');
+    const now = Date.parse('2025-01-01T05:00:00.000Z');
+    const gate = parseFundingRate('BTC', { r: '0.0001', t: sec('2025-01-01T00:00:00.000Z') }, now);
+    check('Gate 格式: t 为已结算时间', !gate.predicted && gate.rate === 0.0001 && gate.fundingTime === Date.parse('2025-01-01T00:00:00.000Z'));
+    check('Gate 格式: 按结算间隔推算下次结算', gate.nextFundingTime === Date.parse('2025-01-01T08:00:00.000Z'));
+    check('Gate 格式: 无价格时基差未知', gate.basis === null);
+
+    const okx = parseFundingRate('BTC', {
+      r: '-0.0002', t: sec('2025-01-01T08:00:00.000Z'), funding_rate: '-0.0002', next_funding_time: Date.parse('2025-01-01T08:00:00.000Z'),
+    }, now);
+    check('OKX/Bybit 格式: 预测费率对应下次结算', okx.predicted && okx.rate === -0.0002 && okx.fundingTime === okx.nextFundingTime
+      && okx.nextFundingTime === Date.parse('2025-01-01T08:00:00.000Z'));
+
+    const binance = parseFundingRate('BTC', {
+      r: '0.0005', t: sec('2025-01-01T08:00:00.000Z'), funding_rate: '0.0005', next_funding_time: Date.parse('2025-01-01T08:00:00.000Z'),
+      mark_price: '100100', index_price: '100000',
+    }, now);
+    check('Binance 格式: 标记价格与指数价格计算基差', binance.basis !== null && Math.abs(binance.basis - 0.001) < 1e-12, String(binance.basis));
+    check('只有 funding_rate 字段', parseFundingRate('BTC', { funding_rate: '0.0003' }, now).rate === 0.0003);
+    check('无效费率按 0 处理', parseFundingRate('BTC', { r: 'abc' }, now).rate === 0);
+
+    await runWithAccount(account('acct-1'), async () => {
+      // ========== 2. 费率历史 ==========
+      console.log('\n=== 测试2: 费率历史 ===');
+      for (let i = 1; i <= 5; i++) {
+        await recordFundingRate(client, {
+          symbol: 'BTC', rate: i === 3 ? -0.0001 : 0.0004, fundingTime: Date.parse('2025-01-01T00:00:00.000Z') - i * 8 * HOUR,
+          predicted: false, nextFundingTime: 0, markPrice: null, indexPrice: null, basis: null,
+        });
+      }
+      const future = Date.now() + 4 * HOUR;
+      const predicted = { symbol: 'BTC', rate: 0.0004, fundingTime: future, predicted: true, nextFundingTime: future, markPrice: 101, indexPrice: 100, basis: 0.01 };
+      await recordFundingRate(client, predicted);
+      await recordFundingRate(client, { ...predicted, rate: 0.0006, markPrice: null, indexPrice: null, basis: null });
+      const stored = await client.execute({
+        sql: "SELECT rate, basis FROM funding_rates WHERE symbol = 'BTC' AND funding_time = ?",
+        args: [future],
+      });
+      check('同一结算时间只保留最新费率，价格缺失时保留已有基差',
+        stored.rows.length === 1 && Number(stored.rows[0].rate) === 0.0006 && Number(stored.rows[0].basis) === 0.01);
+
+      const history = await getFundingHistory(client, 'BTC');
+      check('历史费率只包含已结算记录（按时间倒序）', history.length === 5 && history[0].fundingTime > history[4].fundingTime);
+
+      const snapshot = buildFundingSnapshot({ ...predicted, rate: 0.0006 }, history);
+      check('快照: 历史平均费率', snapshot.averageRate !== null && Math.abs(snapshot.averageRate - 0.0003) < 1e-12, String(snapshot.averageRate));
+      check('快照: 与当前费率同号比例', snapshot.historyCount === 5 && snapshot.sameSignShare === 0.8);
+      check('无历史时持续性未知', buildFundingSnapshot(predicted, []).sameSignShare === null);
+
+      let settlements: any[] = [];
+      const fakeExchange: any = {
+        normalizeContract: (symbol: string) => `${symbol}_USDT`,
+        extractSymbol: (contract: string) => contract.replace('_USDT', ''),
+        getFundingRate: async () => ({ r: '0.0005', t: Math.floor((Date.now() - HOUR) / 1000) }),
+        getFuturesTicker: async () => ({ markPrice: '3003', indexPrice: '3000' }),
+        getSettlementHistory: async () => settlements,
+      };
+      const ethSnapshot = await getFundingSnapshot(client, fakeExchange, 'ETH');
+      check('费率接口无价格时从行情补充基差', ethSnapshot.basis !== null && Math.abs(ethSnapshot.basis - 0.001) < 1e-12);
+      check('获取快照时记录当前费率', ethSnapshot.historyCount === 1 && ethSnapshot.rate === 0.0005);
+
+      // ========== 3. 持仓资金费预测 ==========
+      console.log('\n=== 测试3: 持仓资金费预测 ===');
+      check('正费率多头支付', predictFundingPnl('long', 1000, 0.0005) === -0.5);
+      check('正费率空头收取', predictFundingPnl('short', 1000, 0.0005) === 0.5);
+      check('负费率多头收取', predictFundingPnl('long', 1000, -0.0002) === 0.2);
+
+      // ========== 4. 结算同步与持仓归属 ==========
+      console.log('\n=== 测试4: 结算同步与持仓归属 ===');
+      await client.executeMultiple(`
+        INSERT INTO position_entries (account_id, position_order_id, symbol, side, entry_price, quantity, leverage, opened_at)
+        VALUES ('acct-1', 'btc-1', 'BTC', 'long', 100000, 0.02, 5, '2024-12-31T23:00:00.000Z'),
+               ('acct-1', 'btc-2', 'BTC', 'short', 99000, 0.02, 5, '2025-01-01T12:00:00.000Z');
+        INSERT INTO position_close_events (account_id, symbol, side, close_reason, trigger_type, close_price, entry_price,
+          quantity, leverage, pnl, pnl_percent, fee, order_id, position_order_id, created_at)
+        VALUES ('acct-1', 'BTC', 'long', 'partial_close', 'ai_decision', 101000, 100000, 0.01, 5, 10, 5, 0.2, 'c-1', 'btc-1', '2025-01-01T03:00:00.000Z'),
+               ('acct-1', 'BTC', 'long', 'manual_close', 'ai_decision', 100500, 100000, 0.01, 5, 5, 2.5, 0.2, 'c-2', 'btc-1', '2025-01-01T09:00:00.000Z'),
+               ('acct-1', 'BTC', 'short', 'manual_close', 'ai_decision', 98000, 99000, 0.02, 5, 20, 5, 0.3, 'c-3', 'btc-2', '2025-01-01T20:00:00.000Z');
+        INSERT INTO positions (account_id, symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl,
+          leverage, side, entry_order_id, opened_at)
+        VALUES ('acct-1', 'ETH', 1, 3000, 3000, 2500, 0, 3, 'short', 'eth-1', '2025-01-02T00:00:00.000Z');
+      `);
+      // 交易所返回按时间倒序的流水（正数为收取）
+      settlements = [
+        { time: sec('2025-01-02T08:00:00.000Z'), contract: 'ETH_USDT', change: '0.75', type: 'fund', text: 'f6' },
+        { time: sec('2025-01-02T00:00:00.000Z'), contract: 'SOL_USDT', change: '-0.1', type: 'fund', text: 'f5' },
+        { time: sec('2025-01-01T16:00:00.000Z'), contract: 'BTC_USDT', change: '0.4', type: 'fund', text: 'f4' },
+        { time: sec('2025-01-01T08:00:00.000Z'), contract: 'BTC_USDT', change: '-0.3', type: 'fund', text: 'f3' },
+        { time: sec('2025-01-01T00:00:00.000Z'), contract: 'BTC_USDT', change: '-0.8', type: 'fund', text: 'f2' },
+        { time: 0, contract: 'BTC_USDT', change: 'x', type: 'fund', text: 'bad' },
+      ];
+      const firstSync = await syncFundingSettlements(client, fakeExchange);
+      check('同步结算流水（跳过无效记录）', firstSync.inserted === 5, JSON.stringify(firstSync));
+      check('结算归属到结算时持有的持仓', firstSync.attributed === 4, JSON.stringify(firstSync));
+
+      const attributed = await client.execute('SELECT symbol, settled_at, position_order_id FROM funding_settlements ORDER BY settled_at');
+      const owners = attributed.rows.map(row => `${row.symbol}:${row.position_order_id ?? '-'}`).join(',');
+      check('按开平仓时间窗口归属（分批止盈后仍持仓、未平仓持仓、无持仓的币种）',
+        owners === 'BTC:btc-1,BTC:btc-1,BTC:btc-2,SOL:-,ETH:eth-1', owners);
+
+      const secondSync = await syncFundingSettlements(client, fakeExchange);
+      check('重复同步不重复写入', secondSync.inserted === 0 && secondSync.attributed === 0);
+
+      await client.execute(`INSERT INTO position_entries (account_id, position_order_id, symbol, side, entry_price, quantity, leverage, opened_at)
+        VALUES ('acct-1', 'sol-1', 'SOL', 'long', 200, 1, 2, '2025-01-01T23:00:00.000Z')`);
+      await client.execute(`INSERT INTO positions (account_id, symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl,
+        leverage, side, entry_order_id, opened_at)
+        VALUES ('acct-1', 'SOL', 1, 200, 200, 100, 0, 2, 'long', 'sol-1', '2025-01-01T23:00:00.000Z')`);
+      const lateSync = await syncFundingSettlements(client, fakeExchange);
+      check('持仓记录补齐后归属之前未归属的结算', lateSync.inserted === 0 && lateSync.attributed === 1);
+
+      const forecast = await forecastPositionFunding(client, ethSnapshot, { side: 'short', notional: 3000, positionOrderId: 'eth-1' });
+      check('持仓预测: 下次结算预计收取', Math.abs(forecast.expectedPnl - 1.5) < 1e-9 && forecast.nextFundingTime === ethSnapshot.nextFundingTime);
+      check('持仓预测: 已结算资金费合计', forecast.accumulatedPnl === 0.75 && forecast.settlementCount === 1);
+
+      // ========== 5. 持仓时间线 ==========
+      console.log('\n=== 测试5: 持仓时间线 ===');
+      const timeline = await loadPositionTimeline(client, 'btc-1');
+      const fundingEvents = timeline?.events.filter(e => e.type === 'funding') ?? [];
+      check('时间线包含资金费结算事件', fundingEvents.length === 2 && fundingEvents[0].timestamp === '2025-01-01T00:00:00.000Z');
+      check('时间线资金费合计', timeline !== null && Math.abs(timeline.fundingPnl - -1.1) < 1e-9, String(timeline?.fundingPnl));
+      check('资金费不计入已实现盈亏', timeline?.realizedPnl === 15);
+    });
+
+    // ========== 6. 账户隔离 ==========
+    console.log('\n=== 测试6: 账户隔离 ===');
+    await runWithAccount(account('acct-2'), async () => {
+      check('其他账户没有费率历史', (await getFundingHistory(client, 'BTC')).length === 0);
+    });
+
+    // ========== 7. 资金费率套利信号 ==========
+    console.log('\n=== 测试7: 资金费率套利信号 ===');
+    const marketState: any = { symbol: 'BTC', state: 'ranging_neutral', keyMetrics: { atr_ratio: 1 } };
+    const funding = (rate: number, overrides: Record<string, unknown> = {}): any => ({
+      symbol: 'BTC', rate, fundingTime: 0, predicted: true, nextFundingTime: 0, markPrice: 100.1, indexPrice: 100,
+      basis: rate > 0 ? 0.001 : -0.001, averageRate: rate, historyCount: 21, sameSignShare: 1, ...overrides,
+    });
+    const signal = (direction: 'long' | 'short', snapshot: any, tf15m = timeframe(100)) =>
+      fundingCarrySignal('BTC', direction, snapshot, tf15m, timeframe(100), marketState);
+
+    const shortCarry = signal('short', funding(0.001));
+    check('正费率做空收取资金费', shortCarry.action === 'short' && shortCarry.confidence === 'high' && shortCarry.strategyType === 'funding_carry',
+      `${shortCarry.action} ${shortCarry.confidence}`);
+    check('套利使用低杠杆', shortCarry.recommendedLeverage <= 3);
+    check('正费率不做多', signal('long', funding(0.001)).action === 'wait');
+    check('负费率做多收取资金费', signal('long', funding(-0.001)).action === 'long');
+    check('费率低于阈值时观望', signal('short', funding(0.0002)).action === 'wait');
+    check('缺少资金费率数据时观望', signal('short', undefined).action === 'wait');
+    check('短线极端超卖时不做空收费', signal('short', funding(0.001), timeframe(100, { rsi7: 20 })).action === 'wait');
+
+    const weak = signal('short', funding(0.0003, { sameSignShare: 0.3, basis: -0.001 }));
+    check('费率不持续且基差相反时信号减弱', weak.action === 'short' && weak.signalStrength < shortCarry.signalStrength
+      && weak.confidence === 'low' && (weak.warnings ?? []).length === 2, `${weak.signalStrength} ${weak.warnings}`);
+
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,229 @@
+/**
+ * 技术指标库测试脚本
+ * 验证 EMA/RSI/MACD/ATR/ADX/随机RSI/VWAP/肯特纳通道/OBV 的参考值、增量计算与批量计算一致，以及K线格式标准化
+ */
+
+import {
+  ADX,
+  ATR,
+  calculateADX,
+  calculateATR,
+  calculateEMA,
+  calculateKeltnerChannels,
+  calculateMACD,
+  calculateOBV,
+  calculateRSI,
+  calculateStochasticRSI,
+  calculateVWAP,
+  EMA,
+  indicatorSeries,
+  MACD,
+  normalizeCandles,
+  RSI,
+  SMA,
+  StochasticRSI,
+  type IndicatorCandle,
+} from '../src/utils/indicators';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function near(a: number, b: number, tolerance: number = 1e-9): boolean {
+  return Math.abs(a - b) <= tolerance;
+}
+
+// StockCharts RSI 教程中的收盘价序列及 14 周期 RSI 参考值（从第15个收盘价开始）
+const RSI_CLOSES = [
+  44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826, 45.8931, 46.0328,
+  45.614, 46.282, 46.282, 46.0028, 46.0328, 46.4116, 46.2222, 45.6439, 46.2122, 46.2521, 45.7137, 46.4515,
+  45.7835, 45.3548, 44.0288, 44.1783, 44.2181, 44.5672, 43.4205, 42.6628, 43.1314,
+];
+const RSI_REFERENCE = [70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.30, 33.08, 37.77];
+
+// 确定性的模拟K线（趋势 + 周期波动）
+function syntheticCandles(count: number): IndicatorCandle[] {
+  const candles: IndicatorCandle[] = [];
+  let close = 100;
+  for (let i = 0; i < count; i++) {
+    const open = close;
+    close = open + Math.sin(i / 3) * 1.5 + 0.2;
+    const high = Math.max(open, close) + 0.5 + (i % 4) * 0.1;
+    const low = Math.min(open, close) - 0.5 - (i % 3) * 0.1;
+    candles.push({ time: Date.UTC(2025, 0, 1) + i * 3_600_000, high, low, close, volume: 100 + (i % 7) * 10 });
+  }
+  return candles;
+}
+
+// Wilder 原始定义的 ADX（平滑累加和），与指标库的平均值形式相互独立
+function referenceADX(candles: IndicatorCandle[], period: number): number {
+  const trs: number[] = [];
+  const plus: number[] = [];
+  const minus: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const c = candles[i];
+    const p = candles[i - 1];
+    const up = c.high - p.high;
+    const down = p.low - c.low;
+    trs.push(Math.max(c.high - c.low, Math.abs(c.high - p.close), Math.abs(c.low - p.close)));
+    plus.push(up > down && up > 0 ? up : 0);
+    minus.push(down > up && down > 0 ? down : 0);
+  }
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  let tr = sum(trs.slice(0, period));
+  let pdm = sum(plus.slice(0, period));
+  let mdm = sum(minus.slice(0, period));
+  const dxs: number[] = [];
+  for (let i = period - 1; i < trs.length; i++) {
+    if (i >= period) {
+      tr = tr - tr / period + trs[i];
+      pdm = pdm - pdm / period + plus[i];
+      mdm = mdm - mdm / period + minus[i];
+    }
+    const pdi = (100 * pdm) / tr;
+    const mdi = (100 * mdm) / tr;
+    dxs.push((100 * Math.abs(pdi - mdi)) / (pdi + mdi));
+  }
+  let adx = sum(dxs.slice(0, period)) / period;
+  for (let i = period; i < dxs.length; i++) {
+    adx = (adx * (period - 1) + dxs[i]) / period;
+  }
+  return adx;
+}
+
+console.log('🧪 技术指标库测试\n');
+
+// ========== 1. 参考值 ==========
+console.log('=== 测试1: 参考值 ===');
+const linear = Array.from({ length: 10 }, (_, i) => i + 1);
+check('EMA 以简单平均为初值', near(calculateEMA(linear, 3), 9) && near(calculateEMA([2, 4, 6], 3), 4));
+check('EMA 数据不足时返回已有数据的均值', near(calculateEMA([2, 4], 5), 3) && !new EMA(5).isReady);
+
+const rsiSeries = indicatorSeries(new RSI(14), RSI_CLOSES).slice(14);
+check('RSI14 与 StockCharts 参考值一致（±0.01）',
+  rsiSeries.length === RSI_REFERENCE.length && rsiSeries.every((v, i) => near(v, RSI_REFERENCE[i], 0.01)),
+  rsiSeries.map(v => v.toFixed(2)).join(','));
+check('RSI 数据不足返回 50', calculateRSI(RSI_CLOSES.slice(0, 14), 14) === 50);
+check('RSI 单边上涨为 100', calculateRSI(linear, 5) === 100);
+
+const closes = syntheticCandles(120).map(c => c.close);
+const macd = calculateMACD(closes);
+const ema12 = indicatorSeries(new EMA(12), closes);
+const ema26 = indicatorSeries(new EMA(26), closes);
+const macdLine = closes.map((_, i) => ema12[i] - ema26[i]).slice(25);
+check('MACD = EMA12 - EMA26', near(macd.macd, ema12[119] - ema26[119]));
+check('MACD 信号线为 MACD 线的 EMA9', near(macd.signal, calculateEMA(macdLine, 9)) && near(macd.histogram, macd.macd - macd.signal));
+check('MACD 慢线就绪前为 0', calculateMACD(closes.slice(0, 25)).macd === 0 && calculateMACD(closes.slice(0, 26)).macd !== 0);
+
+const atrCandles: IndicatorCandle[] = [
+  { high: 10, low: 9, close: 9.5 },
+  { high: 11, low: 9.5, close: 10.5 },   // TR 1.5
+  { high: 10.8, low: 10, close: 10.2 },  // TR 0.8
+  { high: 12, low: 10.5, close: 11.8 },  // TR 1.8
+  { high: 11.9, low: 10.9, close: 11 },  // TR 1.0
+];
+// 初值 (1.5 + 0.8 + 1.8) / 3 = 1.3667，之后 (1.3667 × 2 + 1.0) / 3 = 1.2444
+check('ATR 使用 Wilder 平滑', near(calculateATR(atrCandles, 3), (((1.5 + 0.8 + 1.8) / 3) * 2 + 1) / 3));
+check('ATR 计算真实波幅包含跳空', near(calculateATR([{ high: 10, low: 9, close: 9.5 }, { high: 12, low: 11, close: 11.5 }], 1), 2.5));
+
+const candles = syntheticCandles(150);
+check('ADX 与 Wilder 原始定义一致', near(calculateADX(candles, 14).adx, referenceADX(candles, 14), 1e-6),
+  `${calculateADX(candles, 14).adx} vs ${referenceADX(candles, 14)}`);
+const adxValue = calculateADX(candles, 14);
+check('ADX/DI 在 0-100 范围内', [adxValue.adx, adxValue.plusDI, adxValue.minusDI].every(v => v >= 0 && v <= 100));
+const uptrend: IndicatorCandle[] = linear.concat(linear.map(v => v + 10), linear.map(v => v + 20), linear.map(v => v + 30))
+  .map(v => ({ high: v + 0.5, low: v - 0.5, close: v }));
+const uptrendAdx = calculateADX(uptrend, 5);
+check('单边上涨时 +DI 主导且 ADX 高', uptrendAdx.plusDI > uptrendAdx.minusDI && uptrendAdx.adx > 90);
+
+const rsiValues = indicatorSeries(new RSI(14), closes).slice(14);
+const stochRaw = rsiValues.slice(13).map((rsi, i) => {
+  const window = rsiValues.slice(i, i + 14);
+  const min = Math.min(...window);
+  const max = Math.max(...window);
+  return max > min ? ((rsi - min) / (max - min)) * 100 : 50;
+});
+const kSeries = indicatorSeries(new SMA(3), stochRaw);
+const stoch = calculateStochasticRSI(closes);
+check('随机RSI %K/%D 与逐窗口计算一致',
+  near(stoch.k, kSeries[kSeries.length - 1]) && near(stoch.d, (kSeries.at(-1)! + kSeries.at(-2)! + kSeries.at(-3)!) / 3));
+check('随机RSI 数据不足返回 50', calculateStochasticRSI(closes.slice(0, 20)).k === 50);
+
+const vwapCandles: IndicatorCandle[] = [
+  { time: Date.UTC(2025, 0, 1, 22), high: 11, low: 9, close: 10, volume: 100 },   // 典型价 10
+  { time: Date.UTC(2025, 0, 1, 23), high: 13, low: 11, close: 12, volume: 300 },  // 典型价 12
+  { time: Date.UTC(2025, 0, 2, 0), high: 21, low: 19, close: 20, volume: 50 },    // 新的一天
+];
+check('VWAP 按成交量加权典型价', near(calculateVWAP(vwapCandles.slice(0, 2)), 11.5));
+check('VWAP 按 UTC 日重置', near(calculateVWAP(vwapCandles, 'day'), 20) && near(calculateVWAP(vwapCandles), (1000 + 3600 + 1000) / 450));
+check('VWAP 无成交量时返回典型价', near(calculateVWAP([{ high: 11, low: 9, close: 10, volume: 0 }]), 10));
+
+const flat: IndicatorCandle[] = Array.from({ length: 30 }, () => ({ high: 101, low: 99, close: 100 }));
+const keltner = calculateKeltnerChannels(flat);
+check('肯特纳通道 = EMA20 ± 2 × ATR10', near(keltner.middle, 100) && near(keltner.upper, 104) && near(keltner.lower, 96));
+
+const obvCandles = [10, 11, 10.5, 10.5, 12].map((close, i) => ({ high: close, low: close, close, volume: [100, 200, 150, 50, 300][i] }));
+check('OBV 按涨跌累加成交量', calculateOBV(obvCandles) === 350);
+
+// ========== 2. 增量计算 ==========
+console.log('\n=== 测试2: 增量计算与批量计算一致 ===');
+const streamingAtr = new ATR(14);
+const streamingAdx = new ADX(14);
+const streamingMacd = new MACD();
+const streamingStoch = new StochasticRSI();
+let consistent = true;
+for (let i = 0; i < candles.length; i++) {
+  streamingAtr.update(candles[i]);
+  streamingAdx.update(candles[i]);
+  streamingMacd.update(candles[i].close);
+  streamingStoch.update(candles[i].close);
+  if (i % 25 === 24) {
+    const prefix = candles.slice(0, i + 1);
+    const prefixCloses = prefix.map(c => c.close);
+    consistent = consistent
+      && near(streamingAtr.value, calculateATR(prefix, 14))
+      && near(streamingAdx.value.adx, calculateADX(prefix, 14).adx)
+      && near(streamingMacd.value.histogram, calculateMACD(prefixCloses).histogram)
+      && near(streamingStoch.value.k, calculateStochasticRSI(prefixCloses).k);
+  }
+}
+check('逐根更新的结果与对前缀批量计算相同', consistent);
+check('就绪状态', streamingAtr.isReady && streamingAdx.isReady && streamingMacd.isReady && streamingStoch.isReady && !new ADX(14).update(candles[0]).adx);
+check('序列长度与输入一致', indicatorSeries(new RSI(7), closes).length === closes.length);
+
+let threw = false;
+try {
+  new EMA(0);
+} catch {
+  threw = true;
+}
+check('拒绝无效周期', threw);
+
+// ========== 3. K线格式标准化 ==========
+console.log('\n=== 测试3: K线格式标准化 ===');
+const normalized = normalizeCandles([
+  { t: 1735689600, o: '100', h: '105', l: '99', c: '104', v: '12.5' },
+  { time: 1735693200000, open: 104, high: 106, low: 103, close: 105, volume: -1 },
+  [1735696800, '8', '106', '107', '104', '105'],
+  { c: 'abc' },
+  { close: '106' },
+  null,
+]);
+check('兼容原始字段、标准字段和数组格式', normalized.length === 4 && normalized.map(c => c.close).join(',') === '104,105,106,106');
+check('秒级时间戳转换为毫秒', normalized[0].time === 1735689600000 && normalized[2].time === 1735696800000);
+check('字符串转换为数值', normalized[0].high === 105 && normalized[0].volume === 12.5 && normalized[2].volume === 8 && normalized[2].low === 104);
+check('无效成交量记为 0，缺失价格用收盘价补齐', normalized[1].volume === 0 && normalized[3].open === 106 && normalized[3].high === 106 && normalized[3].time === 0);
+
+console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+if (failed > 0) {
+  process.exit(1);
+}
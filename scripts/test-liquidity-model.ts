@@ -0,0 +1,204 @@
+/**
+ * 订单簿流动性模型测试脚本
+ * 验证订单簿解析、价差与深度计算、逐档滑点估算、滑点上限内的最大数量、开仓滑点检查、流动性评分，以及缓存与历史均值
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+const near = (a: number, b: number, eps = 1e-9) => Math.abs(a - b) < eps;
+
+// 中间价 100，价差 0.02%，每档 0.1% 间隔、数量 10
+function ladder(levels: number, size = 10) {
+  const bids = [];
+  const asks = [];
+  for (let i = 0; i < levels; i++) {
+    bids.push({ p: (99.99 - i * 0.1).toFixed(2), s: String(size) });
+    asks.push({ p: (100.01 + i * 0.1).toFixed(2), s: String(size) });
+  }
+  return { bids, asks };
+}
+
+async function main() {
+  console.log('🧪 订单簿流动性模型测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'liquidity-model-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+  process.env.LIQUIDITY_CACHE_TTL_SECONDS = '60';
+  process.env.LIQUIDITY_HISTORY_HOURS = '24';
+
+  try {
+    const { createClient } = await import('@libsql/client');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const {
+      parseOrderBook,
+      measureOrderBook,
+      estimateSlippage,
+      maxQuantityWithinSlippage,
+      evaluateEntrySlippage,
+      scoreLiquidityProfile,
+      getLiquidityProfile,
+      getReferenceEquity,
+      clearLiquidityCache,
+    } = await import('../src/services/liquidityModel');
+
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+    const account = (id: string) => ({ id, name: id, exchangeName: 'paper' as const, symbols: ['BTC', 'DOGE'], riskOverrides: {} });
+
+    // ========== 1. 订单簿解析与度量 ==========
+    console.log('=== 测试1: 订单簿解析与度量 ===');
+    const parsed = parseOrderBook({
+      bids: [{ p: '99', s: '5' }, { p: '100', s: '1' }, { p: 'x', s: '1' }, { p: '98', s: '0' }],
+      asks: [{ p: '102', s: '-2' }, ['101', '3']],
+    });
+    check('档位排序并丢弃无效档位', parsed.bids.map(l => l.price).join(',') === '100,99' && parsed.asks.map(l => l.price).join(',') === '101,102');
+    check('卖单负数数量取绝对值（Gate 格式）', parsed.asks[1].size === 2);
+
+    const book = parseOrderBook(ladder(20));
+    const metrics = measureOrderBook('BTC', book, 1)!;
+    check('中间价与价差', near(metrics.midPrice, 100) && near(metrics.spreadPercent, 0.02, 1e-6), `${metrics.midPrice} ${metrics.spreadPercent}`);
+    // ±0.5% 内: 99.99..99.59 共 5 档（99.49 超出 99.5）；±1% 内: 99.99..99.09 共 10 档
+    const bidDepth05 = [99.99, 99.89, 99.79, 99.69, 99.59].reduce((sum, p) => sum + p * 10, 0);
+    check('±0.5% 深度', near(metrics.bidDepth05, bidDepth05, 1e-6), `${metrics.bidDepth05} vs ${bidDepth05}`);
+    check('±1% 深度', near(metrics.askDepth1, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].reduce((sum, i) => sum + (100.01 + i * 0.1) * 10, 0), 1e-6));
+    const gateMetrics = measureOrderBook('BTC', book, 0.0001)!;
+    check('深度按合约乘数换算为 USDT', near(gateMetrics.bidDepth1, metrics.bidDepth1 * 0.0001, 1e-9));
+    check('单边为空时返回 null', measureOrderBook('BTC', { bids: book.bids, asks: [] }) === null);
+
+    // ========== 2. 滑点估算 ==========
+    console.log('\n=== 测试2: 滑点估算 ===');
+    const profile: any = { orderBook: book, midPrice: metrics.midPrice, quantoMultiplier: 1 };
+    const small = estimateSlippage(profile, 'long', 5);
+    check('小单在第一档成交，滑点为半个价差', small.fullyFilled && near(small.averagePrice, 100.01) && near(small.slippagePercent, 0.01, 1e-6));
+    const large = estimateSlippage(profile, 'long', 30);
+    check('大单逐档成交', near(large.averagePrice, (100.01 + 100.11 + 100.21) / 3, 1e-9) && near(large.notional, large.averagePrice * 30, 1e-6));
+    const short = estimateSlippage(profile, 'short', 30);
+    check('做空吃买单', near(short.averagePrice, (99.99 + 99.89 + 99.79) / 3, 1e-9) && short.slippagePercent > 0);
+    const tooLarge = estimateSlippage(profile, 'long', 500);
+    check('订单簿不足时标记未完全成交', !tooLarge.fullyFilled && tooLarge.filledQuantity === 200);
+
+    const maxQty = maxQuantityWithinSlippage(profile, 'long', 0.1);
+    const atLimit = estimateSlippage(profile, 'long', maxQty);
+    check('滑点上限内的最大数量', near(atLimit.slippagePercent, 0.1, 1e-6), `${maxQty} -> ${atLimit.slippagePercent}`);
+    check('做空方向的最大数量对称', near(maxQuantityWithinSlippage(profile, 'short', 0.1), maxQty, 1e-6));
+    check('上限低于半个价差时为 0', maxQuantityWithinSlippage(profile, 'long', 0.005) === 0);
+    check('上限足够时可吃完整个订单簿', maxQuantityWithinSlippage(profile, 'long', 5) === 200);
+
+    // ========== 3. 开仓滑点检查 ==========
+    console.log('\n=== 测试3: 开仓滑点检查 ===');
+    const fullProfile: any = { ...metrics, orderBook: book, quantoMultiplier: 1, averageSpreadPercent: metrics.spreadPercent, averageDepth1: metrics.bidDepth1, sampleCount: 1, sampledAt: 0 };
+    const accept = evaluateEntrySlippage(fullProfile, 'long', 20, 0.1, 1);
+    check('滑点在上限内直接通过', accept.action === 'accept' && accept.quantity === 20);
+    const reduce = evaluateEntrySlippage(fullProfile, 'long', 100, 0.1, 1);
+    check('滑点超限时缩减到上限内的数量', reduce.action === 'reduce' && near(reduce.quantity, maxQty) && reduce.estimate.slippagePercent > 0.1);
+    const reject = evaluateEntrySlippage(fullProfile, 'long', 100, 0.1, 50);
+    check('缩减后低于最小下单量时拒绝', reject.action === 'reject' && reject.quantity === 0 && reject.reason.includes('最小下单量'));
+    const thin = evaluateEntrySlippage(fullProfile, 'short', 500, 5, 1);
+    check('订单簿深度不足时缩减到可成交数量', thin.action === 'reduce' && thin.quantity === 200 && thin.reason.includes('只能成交'));
+
+    // ========== 4. 流动性评分 ==========
+    console.log('\n=== 测试4: 流动性评分 ===');
+    const deep: any = { ...fullProfile, averageSpreadPercent: 0.01, averageDepth1: 10_000_000 };
+    const shallow: any = { ...fullProfile, averageSpreadPercent: 0.15, averageDepth1: 80_000 };
+    check('价差窄、深度厚满分', near(scoreLiquidityProfile(deep), 1));
+    check('价差宽、深度薄低分', scoreLiquidityProfile(shallow) < 0.3, String(scoreLiquidityProfile(shallow)));
+    const goodFill = estimateSlippage(profile, 'long', 5);
+    const badFill = estimateSlippage(profile, 'long', 100);
+    check('参考订单滑点超限降低评分',
+      scoreLiquidityProfile(deep, badFill, 0.1) < scoreLiquidityProfile(deep, goodFill, 0.1) && near(scoreLiquidityProfile(deep, badFill, 0.1), 0.7));
+    check('滑点上限越严评分越低', scoreLiquidityProfile(deep, goodFill, 0.02) < scoreLiquidityProfile(deep, goodFill, 0.2));
+
+    // ========== 5. 缓存与历史均值 ==========
+    console.log('\n=== 测试5: 缓存与历史均值 ===');
+    let orderBookCalls = 0;
+    let accountCalls = 0;
+    let currentBook: any = ladder(20);
+    const fakeExchange: any = {
+      normalizeContract: (symbol: string) => `${symbol}_USDT`,
+      getOrderBook: async (_contract: string, limit: number) => {
+        orderBookCalls++;
+        check('按固定档位数请求订单簿', limit === 50);
+        return currentBook;
+      },
+      getContractInfo: async () => ({ quantoMultiplier: '1' }),
+      getFuturesAccount: async () => {
+        accountCalls++;
+        return { total: '1100', unrealisedPnl: '100' };
+      },
+    };
+
+    await runWithAccount(account('acct-1'), async () => {
+      const [first, concurrent] = await Promise.all([
+        getLiquidityProfile(client, fakeExchange, 'BTC'),
+        getLiquidityProfile(client, fakeExchange, 'BTC'),
+      ]);
+      check('并发请求共用一次采样', orderBookCalls === 1 && concurrent === first);
+      await getLiquidityProfile(client, fakeExchange, 'BTC');
+      const snapshots = await client.execute("SELECT COUNT(*) as count FROM liquidity_snapshots WHERE symbol = 'BTC'");
+      check('缓存有效期内不重复请求订单簿', orderBookCalls === 1 && first.sampleCount === 1 && Number(snapshots.rows[0].count) === 1);
+
+      const equity = await getReferenceEquity(fakeExchange);
+      await getReferenceEquity(fakeExchange);
+      check('账户净值扣除未实现盈亏并在有效期内缓存', equity === 1000 && accountCalls === 1);
+
+      process.env.LIQUIDITY_CACHE_TTL_SECONDS = '0';
+      currentBook = { bids: [{ p: '99.9', s: '10' }], asks: [{ p: '100.1', s: '10' }] };
+      const second = await getLiquidityProfile(client, fakeExchange, 'BTC');
+      check('缓存过期后重新采样', orderBookCalls === 2 && second.sampleCount === 2 && near(second.spreadPercent, 0.2, 1e-6));
+      check('评分使用历史均值', near(second.averageSpreadPercent, (0.02 + 0.2) / 2, 1e-6)
+        && near(second.averageDepth1, (first.bidDepth1 + 999) / 2, 1e-6), `${second.averageDepth1}`);
+
+      // 历史窗口之外的快照在下次采样时清理
+      await client.execute({
+        sql: `INSERT INTO liquidity_snapshots (account_id, symbol, mid_price, spread_percent, bid_depth_05, ask_depth_05, bid_depth_1, ask_depth_1, recorded_at)
+              VALUES ('acct-1', 'BTC', 100, 5, 1, 1, 1, 1, ?)`,
+        args: [Date.now() - 25 * 60 * 60 * 1000],
+      });
+      const third = await getLiquidityProfile(client, fakeExchange, 'BTC');
+      const stored = await client.execute("SELECT COUNT(*) as count FROM liquidity_snapshots WHERE symbol = 'BTC'");
+      check('清理历史窗口之外的快照且不计入均值', Number(stored.rows[0].count) === 3 && third.sampleCount === 3 && third.averageSpreadPercent < 1);
+
+      currentBook = { bids: [], asks: [{ p: '1', s: '1' }] };
+      const empty = await getLiquidityProfile(client, fakeExchange, 'DOGE').then(() => null, (error: Error) => error);
+      check('订单簿无效时抛出错误', empty instanceof Error && empty.message.includes('DOGE'));
+    });
+
+    process.env.LIQUIDITY_CACHE_TTL_SECONDS = '60';
+    clearLiquidityCache();
+    currentBook = ladder(5);
+    await runWithAccount(account('acct-2'), async () => {
+      const other = await getLiquidityProfile(client, fakeExchange, 'BTC');
+      check('其他账户的历史快照互不影响', other.sampleCount === 1);
+    });
+
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,176 @@
+/**
+ * 实时推送测试脚本
+ * 验证按账户共享轮询、快照去重、新订阅者的初始快照、条件单触发/平仓事件/决策的增量推送，以及最后一个订阅者断开后停止轮询
+ */
+
+import type { LiveEvent, LiveUpdateSources } from '../src/api/liveUpdates';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function account(id: string) {
+  return { id, name: id, exchangeName: 'paper' as const, symbols: ['BTC'], riskOverrides: {} };
+}
+
+async function main() {
+  console.log('🧪 实时推送测试\n');
+
+  const { LiveUpdateHub } = await import('../src/api/liveUpdates');
+  const { getCurrentAccountId } = await import('../src/utils/accountContext');
+
+  // 模拟数据源：按账户保存状态，记录每次调用时的账户上下文
+  const state = {
+    balance: 1000,
+    price: 100000,
+    activeOrders: [{ id: 1 }, { id: 2 }] as Array<{ id: number }>,
+    resolved: new Map<number, string>(),
+    closeEvents: [{ id: 5 }] as Array<{ id: number }>,
+    decisions: [{ id: 9 }] as Array<{ id: number }>,
+  };
+  const calls: Record<string, number> = { account: 0, positions: 0, prices: 0 };
+  const contexts = new Set<string>();
+  const sources: LiveUpdateSources = {
+    async account() {
+      calls.account++;
+      contexts.add(getCurrentAccountId());
+      return { totalBalance: state.balance };
+    },
+    async positions() {
+      calls.positions++;
+      return { positions: [], count: 0 };
+    },
+    async prices() {
+      calls.prices++;
+      return { prices: { BTC: state.price } };
+    },
+    async priceOrders() {
+      return { priceOrders: [...state.activeOrders] };
+    },
+    async resolvedPriceOrders(ids) {
+      return ids.map(id => ({ id, status: state.resolved.get(id) || 'active' }));
+    },
+    async closeEventsAfter(lastId) {
+      return state.closeEvents.filter(e => e.id > lastId);
+    },
+    async decisionsAfter(lastId) {
+      return state.decisions.filter(d => d.id > lastId);
+    },
+    async latestIds() {
+      return {
+        closeEvent: Math.max(0, ...state.closeEvents.map(e => e.id)),
+        decision: Math.max(0, ...state.decisions.map(d => d.id)),
+      };
+    },
+  };
+
+  const hub = new LiveUpdateHub(sources, { exchangeIntervalMs: 100, databaseIntervalMs: 40 });
+
+  try {
+    // ========== 1. 初始快照 ==========
+    console.log('=== 测试1: 初始快照 ===');
+    const first: LiveEvent[] = [];
+    const unsubscribeFirst = hub.subscribe(account('acct-1'), event => first.push(event));
+    await sleep(30);
+    const types = new Set(first.map(e => e.type));
+    check('订阅后推送账户、持仓、价格、条件单快照',
+      ['account', 'positions', 'prices', 'price_orders'].every(t => types.has(t as any)), [...types].join(','));
+    check('订阅前已有的平仓事件和决策不推送', !types.has('close_event') && !types.has('decision'));
+    check('数据源在订阅账户的上下文中调用', contexts.size === 1 && contexts.has('acct-1'), [...contexts].join(','));
+
+    // ========== 2. 共享轮询和去重 ==========
+    console.log('\n=== 测试2: 共享轮询和去重 ===');
+    const second: LiveEvent[] = [];
+    const unsubscribeSecond = hub.subscribe(account('acct-1'), event => second.push(event));
+    check('新订阅者立即收到最近一次快照', second.filter(e => e.type === 'account').length === 1 && second.length === 4);
+    check('同一账户共享轮询', hub.getSubscriberCount('acct-1') === 2 && calls.account === 1);
+
+    const beforeUnchanged = first.length;
+    await sleep(130);
+    check('快照未变化时不重复推送', first.length === beforeUnchanged && calls.account >= 2, `${first.length} vs ${beforeUnchanged}`);
+
+    state.price = 101000;
+    await sleep(130);
+    const priceEvents = first.filter(e => e.type === 'prices');
+    check('价格变化时推送给所有订阅者',
+      (priceEvents.at(-1)?.data as any)?.prices.BTC === 101000 && (second.filter(e => e.type === 'prices').at(-1)?.data as any)?.prices.BTC === 101000);
+    check('未变化的账户快照不推送', first.filter(e => e.type === 'account').length === 1);
+    check('事件ID递增', first.every((e, i) => i === 0 || e.id > first[i - 1].id));
+
+    // ========== 3. 增量事件 ==========
+    console.log('\n=== 测试3: 增量事件 ===');
+    state.activeOrders = [{ id: 2 }];
+    state.resolved.set(1, 'triggered');
+    state.closeEvents.push({ id: 6 }, { id: 7 });
+    state.decisions.push({ id: 10 });
+    await sleep(80);
+    const triggered = first.filter(e => e.type === 'price_order_triggered');
+    check('条件单触发时推送', triggered.length === 1 && (triggered[0].data as any).id === 1);
+    check('条件单列表变化时推送新快照', (first.filter(e => e.type === 'price_orders').at(-1)?.data as any)?.priceOrders.length === 1);
+    check('新的平仓事件按顺序推送', first.filter(e => e.type === 'close_event').map(e => (e.data as any).id).join(',') === '6,7');
+    check('新的决策推送', first.filter(e => e.type === 'decision').map(e => (e.data as any).id).join(',') === '10');
+
+    state.activeOrders = [];
+    state.resolved.set(2, 'cancelled');
+    await sleep(80);
+    check('取消的条件单不作为触发推送', first.filter(e => e.type === 'price_order_triggered').length === 1);
+    check('平仓事件和决策不重复推送',
+      first.filter(e => e.type === 'close_event').length === 2 && first.filter(e => e.type === 'decision').length === 1);
+
+    // ========== 4. 账户隔离和停止 ==========
+    console.log('\n=== 测试4: 账户隔离和停止 ===');
+    const other: LiveEvent[] = [];
+    const unsubscribeOther = hub.subscribe(account('acct-2'), event => other.push(event));
+    await sleep(30);
+    check('不同账户独立轮询', contexts.has('acct-2') && hub.getSubscriberCount('acct-1') === 2 && hub.getSubscriberCount('acct-2') === 1);
+    check('其他账户的事件不推送', !other.some(e => e.type === 'close_event'));
+
+    const throwing = hub.subscribe(account('acct-1'), () => {
+      throw new Error('连接已关闭');
+    });
+    state.price = 102000;
+    await sleep(130);
+    check('订阅者出错不影响其他订阅者', (first.filter(e => e.type === 'prices').at(-1)?.data as any)?.prices.BTC === 102000);
+    throwing();
+
+    unsubscribeFirst();
+    unsubscribeSecond();
+    unsubscribeOther();
+    check('最后一个订阅者断开后停止', hub.getSubscriberCount('acct-1') === 0 && hub.getSubscriberCount('acct-2') === 0);
+    const callsAfterStop = calls.account;
+    const eventsAfterStop = first.length;
+    await sleep(150);
+    check('停止后不再访问交易所', calls.account === callsAfterStop && first.length === eventsAfterStop);
+
+    const resumed: LiveEvent[] = [];
+    const unsubscribeResumed = hub.subscribe(account('acct-1'), event => resumed.push(event));
+    await sleep(30);
+    check('重新订阅后重新开始轮询', calls.account > callsAfterStop && resumed.some(e => e.type === 'account'));
+    unsubscribeResumed();
+  } finally {
+    hub.stop();
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
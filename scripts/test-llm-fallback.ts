@@ -0,0 +1,220 @@
+/**
+ * 模型后备链测试脚本
+ * 验证供应商链配置加载、超时/报错/畸形工具调用时的切换、交易操作后的停止切换，以及 llm_usage 记录与 agent_decisions 的关联
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function provider(id: string, overrides: Record<string, any> = {}) {
+  return {
+    id,
+    type: 'openai' as const,
+    baseURL: 'http://127.0.0.1:1/v1',
+    apiKey: '',
+    model: `${id}-model`,
+    timeoutMs: 1000,
+    maxRetries: 0,
+    inputCostPer1M: 0,
+    outputCostPer1M: 0,
+    ...overrides,
+  };
+}
+
+function okResponse(inputTokens: number, outputTokens: number, toolCalls: any[] = []) {
+  return {
+    text: '决策完成',
+    steps: [{ text: '决策完成', toolCalls }],
+    totalUsage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+  };
+}
+
+async function main() {
+  console.log('🧪 模型后备链测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'llm-fallback-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+
+  try {
+    const { getLLMProviderChain, resetLLMProviders, estimateLLMCost } = await import('../src/agents/llmProviders');
+    const { executeWithFallback, recordLLMUsage } = await import('../src/agents/llmFallbackChain');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { createClient } = await import('@libsql/client');
+
+    // ========== 1. 供应商链配置 ==========
+    console.log('=== 测试1: 供应商链配置 ===');
+    delete process.env.LLM_PROVIDERS_CONFIG_PATH;
+    process.env.AI_MODEL_NAME = 'test/model-a';
+    process.env.LLM_FALLBACK_TO_RULE = 'false';
+    resetLLMProviders();
+    let chain = getLLMProviderChain();
+    check('默认只使用环境变量中的模型', chain.length === 1 && chain[0].model === 'test/model-a');
+
+    process.env.LLM_FALLBACK_TO_RULE = 'true';
+    resetLLMProviders();
+    chain = getLLMProviderChain();
+    check('启用规则兜底时追加到链尾', chain.length === 2 && chain[1].type === 'rule');
+
+    const configPath = join(dir, 'llm-providers.json');
+    process.env.TEST_LLM_KEY = 'sk-test';
+    writeFileSync(configPath, JSON.stringify({
+      providers: [
+        { id: 'primary', baseURL: 'https://openrouter.ai/api/v1', apiKeyEnv: 'TEST_LLM_KEY', model: 'x/primary', timeoutSeconds: 30, pricing: { inputPer1M: 2, outputPer1M: 8 } },
+        { id: 'local', baseURL: 'http://127.0.0.1:8000/v1', model: 'qwen' },
+        { id: 'rule', type: 'rule' },
+      ],
+    }));
+    process.env.LLM_PROVIDERS_CONFIG_PATH = configPath;
+    resetLLMProviders();
+    chain = getLLMProviderChain();
+    check('从配置文件加载供应商链', chain.map(p => p.id).join(',') === 'primary,local,rule');
+    check('密钥从环境变量读取', chain[0].apiKey === 'sk-test' && chain[1].apiKey === '');
+    check('超时和单价', chain[0].timeoutMs === 30000 && chain[0].inputCostPer1M === 2 && chain[0].outputCostPer1M === 8);
+    check('费用估算', Math.abs(estimateLLMCost(chain[0], { inputTokens: 1_000_000, outputTokens: 500_000, totalTokens: 1_500_000 }) - 6) < 1e-9);
+
+    const invalidConfigs: Array<[string, any]> = [
+      ['规则引擎不在链尾', { providers: [{ id: 'rule', type: 'rule' }, { id: 'a', model: 'm' }] }],
+      ['供应商ID重复', { providers: [{ id: 'a', model: 'm' }, { id: 'a', model: 'n' }] }],
+      ['缺少模型', { providers: [{ id: 'a' }] }],
+      ['未知类型', { providers: [{ id: 'a', type: 'anthropic', model: 'm' }] }],
+    ];
+    for (const [name, config] of invalidConfigs) {
+      writeFileSync(configPath, JSON.stringify(config));
+      resetLLMProviders();
+      let threw = false;
+      try {
+        getLLMProviderChain();
+      } catch {
+        threw = true;
+      }
+      check(`拒绝无效配置: ${name}`, threw);
+    }
+    resetLLMProviders();
+
+    // ========== 2. 切换规则 ==========
+    console.log('\n=== 测试2: 后备切换 ===');
+    let primarySignal: AbortSignal | null = null;
+    const timeoutResult = await executeWithFallback(
+      [provider('slow', { timeoutMs: 50 }), provider('backup', { inputCostPer1M: 1, outputCostPer1M: 2 })],
+      (p, attempt) => {
+        if (p.id === 'slow') {
+          primarySignal = attempt.signal;
+          return new Promise(() => {});
+        }
+        return Promise.resolve(okResponse(1000, 200));
+      },
+    );
+    check('超时后切换到后备模型', timeoutResult.provider?.id === 'backup' && !!timeoutResult.response);
+    check('超时时中止主模型调用', (primarySignal as AbortSignal | null)?.aborted === true);
+    check('记录超时和成功的尝试', timeoutResult.attempts.map(a => a.status).join(',') === 'timeout,success');
+    const backupAttempt = timeoutResult.attempts[1];
+    check('记录 token 用量和估算费用',
+      backupAttempt.usage.inputTokens === 1000 && backupAttempt.usage.totalTokens === 1200 && Math.abs(backupAttempt.estimatedCostUsd - 0.0014) < 1e-12);
+
+    const malformedResult = await executeWithFallback(
+      [provider('broken'), provider('rule', { type: 'rule', model: undefined })],
+      p => Promise.resolve(p.id === 'broken'
+        ? okResponse(500, 50, [{ toolName: 'openPositon', invalid: true }])
+        : { text: '规则决策', steps: [] }),
+    );
+    check('畸形工具调用切换到规则引擎', malformedResult.provider?.id === 'rule');
+    check('畸形工具调用记录用量', malformedResult.attempts[0].status === 'malformed_tool_call' && malformedResult.attempts[0].usage.inputTokens === 500);
+
+    const thrownResult = await executeWithFallback(
+      [provider('a'), provider('b')],
+      p => {
+        if (p.id === 'a') {
+          const error = new Error('Model tried to call unavailable tool');
+          error.name = 'AI_NoSuchToolError';
+          return Promise.reject(error);
+        }
+        return Promise.resolve(okResponse(10, 10));
+      },
+    );
+    check('解析工具调用失败的异常归类为畸形调用', thrownResult.attempts[0].status === 'malformed_tool_call' && thrownResult.provider?.id === 'b');
+
+    let backupCalled = false;
+    const tradedResult = await executeWithFallback(
+      [provider('a'), provider('b')],
+      (p, attempt) => {
+        if (p.id === 'b') {
+          backupCalled = true;
+          return Promise.resolve(okResponse(10, 10));
+        }
+        attempt.onToolStart('getMarketPrice');
+        attempt.onToolStart('openPosition');
+        return Promise.reject(new Error('upstream 502'));
+      },
+    );
+    check('已执行交易操作后不再切换', !backupCalled && tradedResult.response === null && tradedResult.attempts.length === 1);
+    check('记录已执行的交易工具', tradedResult.attempts[0].tradingActions.join(',') === 'openPosition');
+
+    const partialResult = await executeWithFallback(
+      [provider('a'), provider('b')],
+      (p, attempt) => {
+        attempt.onToolStart('closePosition');
+        return Promise.resolve(okResponse(10, 10, [{ toolName: 'closePosition' }, { toolName: 'x', invalid: true }]));
+      },
+    );
+    check('已执行交易操作时保留含畸形调用的决策', partialResult.provider?.id === 'a' && partialResult.attempts[0].status === 'success');
+
+    const exhausted = await executeWithFallback(
+      [provider('a'), provider('b')],
+      () => Promise.reject(new Error('ECONNREFUSED')),
+    );
+    check('全部失败时返回空决策', exhausted.response === null && exhausted.attempts.every(a => a.status === 'error'));
+
+    // ========== 3. 用量记录 ==========
+    console.log('\n=== 测试3: 用量记录 ===');
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+    await runWithAccount({ id: 'acct-1', name: 'acct-1', exchangeName: 'paper', symbols: ['BTC'], riskOverrides: {} }, async () => {
+      const decision = await client.execute({
+        sql: `INSERT INTO agent_decisions (account_id, timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
+              VALUES ('acct-1', '2025-01-01T00:00:00', 7, '{}', '持有', '[]', 1000, 0)`,
+        args: [],
+      });
+      await recordLLMUsage(client, Number(decision.lastInsertRowid), 7, timeoutResult.attempts);
+      await recordLLMUsage(client, null, 8, exhausted.attempts);
+    });
+
+    const joined = await client.execute(`
+      SELECT u.account_id, u.attempt_index, u.provider_id, u.status, u.total_tokens, u.estimated_cost_usd, d.iteration
+      FROM llm_usage u JOIN agent_decisions d ON d.id = u.decision_id
+      ORDER BY u.attempt_index
+    `);
+    check('用量记录关联到决策', joined.rows.length === 2 && joined.rows.every(r => r.iteration === 7 && r.account_id === 'acct-1'));
+    check('按尝试顺序记录供应商和状态',
+      joined.rows.map(r => `${r.attempt_index}:${r.provider_id}:${r.status}`).join(',') === '0:slow:timeout,1:backup:success');
+    const failedCycle = await client.execute('SELECT COUNT(*) as count FROM llm_usage WHERE decision_id IS NULL AND iteration = 8');
+    check('全部失败的周期也记录尝试', Number(failedCycle.rows[0].count) === 2);
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,241 @@
+/**
+ * 多账户测试脚本
+ * 使用临时数据库验证账户注册表、按账户覆盖的风险参数、旧数据库 account_id 迁移和模拟盘账本隔离
+ */
+
+import { createClient, type Client } from '@libsql/client';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+/**
+ * 假行情客户端：固定价格，合约乘数为 1
+ */
+function createMarketData(prices: Record<string, number>): any {
+  return {
+    getExchangeName: () => 'gate',
+    normalizeContract: (symbol: string) => symbol.includes('_') ? symbol : `${symbol}_USDT`,
+    extractSymbol: (contract: string) => contract.split('_')[0],
+    getFuturesTicker: async (contract: string) => ({ contract, last: prices[contract].toString() }),
+    getContractInfo: async (contract: string) => ({ name: contract, quantoMultiplier: '1', orderSizeMin: 1, orderSizeMax: 1000000 }),
+    getCircuitBreakerStatus: () => ({ isOpen: false }),
+  };
+}
+
+async function getTableColumns(client: Client): Promise<Record<string, string[]>> {
+  const tables = await client.execute("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name");
+  const columns: Record<string, string[]> = {};
+  for (const row of tables.rows) {
+    const table = row.name as string;
+    const info = await client.execute(`PRAGMA table_info(${table})`);
+    columns[table] = info.rows.map((r: any) => r.name as string).sort();
+  }
+  return columns;
+}
+
+async function main() {
+  console.log('🧪 多账户测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'multi-account-'));
+  const accountsPath = join(dir, 'accounts.json');
+  writeFileSync(accountsPath, JSON.stringify({
+    accounts: [
+      { id: 'default', name: '主账户', exchange: 'paper', symbols: ['btc', 'eth'] },
+      { id: 'sub1', name: '子账户', exchange: 'paper', symbols: ['SOL'], strategy: 'conservative', riskParams: { MAX_POSITIONS: 1, MAX_LEVERAGE: 3 } },
+    ],
+  }));
+  process.env.DATABASE_URL = `file:${join(dir, 'legacy.db')}`;
+  process.env.ACCOUNTS_CONFIG_PATH = accountsPath;
+  process.env.INITIAL_BALANCE = '1000';
+  process.env.PAPER_INITIAL_BALANCE = '1000';
+  process.env.PAPER_SLIPPAGE_PERCENT = '0';
+
+  const { getAccounts, getAccount, resetAccounts } = await import('../src/config/accounts');
+  const { RISK_PARAMS, checkTradingSymbol } = await import('../src/config/riskParams');
+  const { runWithAccount, getCurrentAccount, getCurrentAccountId } = await import('../src/utils/accountContext');
+  const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+  const { addAccountId } = await import('../src/database/migrations/013-add-account-id');
+  const { initDatabase } = await import('../src/database/init');
+  const { PaperExchangeClient } = await import('../src/exchanges/PaperExchangeClient');
+  const { acquirePositionLock, getActivePositionLocks } = await import('../src/services/positionLock');
+
+  try {
+    console.log('=== 测试1: 账户注册表 ===');
+    {
+      const accounts = getAccounts();
+      check('加载配置文件中的账户', accounts.length === 2 && accounts[0].id === 'default' && accounts[1].id === 'sub1');
+      check('币种统一为大写', accounts[0].symbols.join(',') === 'BTC,ETH');
+      check('风险参数覆盖', accounts[1].riskOverrides.MAX_POSITIONS === 1 && accounts[1].riskOverrides.MAX_LEVERAGE === 3);
+
+      const invalidConfigs: Array<[string, unknown]> = [
+        ['非法账户ID', [{ id: 'a b', exchange: 'paper' }]],
+        ['重复账户ID', [{ id: 'a', exchange: 'paper' }, { id: 'a', exchange: 'gate' }]],
+        ['未知交易所', [{ id: 'a', exchange: 'ftx' }]],
+        ['未知风险参数', [{ id: 'a', exchange: 'paper', riskParams: { NOT_A_PARAM: 1 } }]],
+        ['风险参数类型错误', [{ id: 'a', exchange: 'paper', riskParams: { MAX_POSITIONS: '3' } }]],
+        ['空币种列表', [{ id: 'a', exchange: 'paper', symbols: [] }]],
+      ];
+      const invalidPath = join(dir, 'invalid.json');
+      process.env.ACCOUNTS_CONFIG_PATH = invalidPath;
+      for (const [name, config] of invalidConfigs) {
+        writeFileSync(invalidPath, JSON.stringify(config));
+        resetAccounts();
+        let error = '';
+        try {
+          getAccounts();
+        } catch (e: any) {
+          error = e.message;
+        }
+        check(`拒绝配置: ${name}`, error.length > 0);
+      }
+      process.env.ACCOUNTS_CONFIG_PATH = accountsPath;
+      resetAccounts();
+    }
+
+    console.log('\n=== 测试2: 按账户覆盖风险参数 ===');
+    {
+      const sub1 = getAccount('sub1')!;
+      const baseMaxPositions = RISK_PARAMS.MAX_POSITIONS;
+      check('账户上下文外使用默认账户', getCurrentAccountId() === 'default');
+      runWithAccount(sub1, () => {
+        check('账户上下文内覆盖 MAX_POSITIONS', RISK_PARAMS.MAX_POSITIONS === 1);
+        check('账户上下文内覆盖币种列表', RISK_PARAMS.TRADING_SYMBOLS.join(',') === 'SOL');
+        check('工具按账户币种列表校验币种', checkTradingSymbol('SOL') === undefined && checkTradingSymbol('BTC') !== undefined);
+        check('账户上下文携带账户策略', getCurrentAccount()?.strategy === 'conservative');
+      });
+      check('离开账户上下文后恢复原值', RISK_PARAMS.MAX_POSITIONS === baseMaxPositions);
+
+      const leverageInTimer = await runWithAccount(sub1, () =>
+        new Promise<number>(resolve => setTimeout(() => resolve(RISK_PARAMS.MAX_LEVERAGE), 5))
+      );
+      check('定时器回调继承账户上下文', leverageInTimer === 3);
+    }
+
+    console.log('\n=== 测试3: 旧数据库迁移 ===');
+    {
+      const legacySql = readFileSync(join(dirname(fileURLToPath(import.meta.url)), 'fixtures/legacy-schema-single-account.sql'), 'utf-8');
+      const legacy = createClient({ url: process.env.DATABASE_URL! });
+      await legacy.executeMultiple(legacySql);
+      await legacy.execute({
+        sql: `INSERT INTO positions (symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl, leverage, side, entry_order_id, opened_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: ['BTC', 1, 100, 101, 50, 1, 10, 'long', 'o-1', new Date().toISOString()],
+      });
+      await legacy.execute({
+        sql: 'INSERT INTO system_config (key, value, updated_at) VALUES (?, ?, ?)',
+        args: ['account_stop_loss_usdt', '50', new Date().toISOString()],
+      });
+      await legacy.execute({
+        sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, fee, timestamp, status)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: ['o-1', 'BTC', 'long', 'open', 100, 1, 10, 0.05, new Date().toISOString(), 'filled'],
+      });
+      await legacy.execute({
+        sql: `INSERT INTO account_history (timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent)
+              VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [new Date().toISOString(), 1000, 1000, 0, 0, 0],
+      });
+
+      // initDatabase 会先迁移再建表，并为每个账户初始化数据
+      await initDatabase();
+
+      const migrated = createClient({ url: process.env.DATABASE_URL! });
+      const fresh = createClient({ url: `file:${join(dir, 'fresh.db')}` });
+      await fresh.executeMultiple(CREATE_TABLES_SQL);
+      const migratedColumns = await getTableColumns(migrated);
+      const freshColumns = await getTableColumns(fresh);
+      check('迁移后表集合与新建数据库一致', Object.keys(migratedColumns).join(',') === Object.keys(freshColumns).join(','));
+      const mismatched = Object.keys(freshColumns).filter(t => migratedColumns[t]?.join(',') !== freshColumns[t].join(','));
+      check('迁移后所有表字段与新建数据库一致', mismatched.length === 0, `不一致: ${mismatched.join(', ')}`);
+
+      const position = await migrated.execute('SELECT account_id, symbol, quantity FROM positions');
+      check('历史持仓归入默认账户', position.rows.length === 1 && position.rows[0].account_id === 'default' && position.rows[0].symbol === 'BTC');
+      const trade = await migrated.execute('SELECT account_id FROM trades');
+      check('历史交易归入默认账户', trade.rows.length === 1 && trade.rows[0].account_id === 'default');
+      const config = await migrated.execute("SELECT account_id, value FROM system_config WHERE key = 'account_stop_loss_usdt'");
+      check('历史配置归入默认账户', config.rows.length === 1 && config.rows[0].account_id === 'default' && config.rows[0].value === '50');
+
+      const history = await migrated.execute('SELECT account_id, COUNT(*) as count FROM account_history GROUP BY account_id ORDER BY account_id');
+      check('新账户写入初始资金记录', history.rows.length === 2 && history.rows[1].account_id === 'sub1');
+
+      await migrated.execute({
+        sql: `INSERT INTO positions (account_id, symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl, leverage, side, entry_order_id, opened_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: ['sub1', 'BTC', 2, 100, 101, 50, 1, 10, 'long', 'o-2', new Date().toISOString()],
+      });
+      const btcPositions = await migrated.execute("SELECT COUNT(*) as count FROM positions WHERE symbol = 'BTC'");
+      check('不同账户可同时持有同一币种', Number(btcPositions.rows[0].count) === 2);
+
+      await addAccountId.up(migrated);
+      const rerunColumns = await getTableColumns(migrated);
+      const rerunPositions = await migrated.execute('SELECT COUNT(*) as count FROM positions');
+      check('重复执行迁移无变更', JSON.stringify(rerunColumns) === JSON.stringify(migratedColumns) && Number(rerunPositions.rows[0].count) === 2);
+
+      legacy.close();
+      migrated.close();
+      fresh.close();
+    }
+
+    console.log('\n=== 测试4: 模拟盘账本与持仓状态隔离 ===');
+    {
+      const prices: Record<string, number> = { BTC_USDT: 100 };
+      const config = { exchangeName: 'paper' as const, apiKey: '', apiSecret: '', isTestnet: false };
+      const main = new PaperExchangeClient({ ...config, accountId: 'default' }, createMarketData(prices));
+      const sub = new PaperExchangeClient({ ...config, accountId: 'sub1' }, createMarketData(prices));
+
+      await sub.setLeverage('BTC', 5);
+      await sub.placeOrder({ contract: 'BTC_USDT', size: 10, price: 0 });
+      const subPositions = await sub.getPositions();
+      const mainPositions = await main.getPositions();
+      check('子账户开仓成功', subPositions.length === 1);
+      check('主账户不受子账户开仓影响', mainPositions.length === 0);
+
+      const mainAccount = await main.getFuturesAccount();
+      const subAccount = await sub.getFuturesAccount();
+      check('主账户余额保持初始资金', Number.parseFloat(mainAccount.total) === 1000);
+      check('子账户扣除手续费', Number.parseFloat(subAccount.total) < 1000);
+
+      const restored = new PaperExchangeClient({ ...config, accountId: 'sub1' }, createMarketData(prices));
+      check('按账户恢复持久化账本', (await restored.getPositions()).length === 1);
+
+      const lockClient = createClient({ url: process.env.DATABASE_URL! });
+      const subLock = await runWithAccount(getAccount('sub1')!, () =>
+        acquirePositionLock(lockClient, { symbol: 'BTC', side: 'long', purpose: 'opening', owner: 'test' }));
+      const mainLock = await acquirePositionLock(lockClient, { symbol: 'BTC', side: 'long', purpose: 'opening', owner: 'test' });
+      const subLocks = await runWithAccount(getAccount('sub1')!, () => getActivePositionLocks(lockClient));
+      check('持仓锁按账户隔离',
+        !!subLock && !!mainLock
+        && (await getActivePositionLocks(lockClient)).length === 1
+        && subLocks.length === 1 && subLocks[0].purpose === 'opening');
+      await subLock?.release();
+      await mainLock?.release();
+      lockClient.close();
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,271 @@
+/**
+ * 通知服务测试脚本
+ * 使用本地 HTTP 服务接收请求，验证渠道配置加载、按事件类型和级别路由、Telegram/Discord/Slack/签名 Webhook 请求格式、去重、限流和渠道失败隔离
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+interface ReceivedRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const NOTIFY_ENV_KEYS = [
+  'SMTP_HOST', 'TELEGRAM_BOT_TOKEN', 'TELEGRAM_CHAT_ID', 'DISCORD_WEBHOOK_URL', 'SLACK_WEBHOOK_URL',
+  'NOTIFY_WEBHOOK_URL', 'NOTIFY_WEBHOOK_SECRET', 'NOTIFY_MIN_LEVEL', 'NOTIFICATION_CONFIG_PATH',
+  'NOTIFY_DEDUP_WINDOW_SECONDS', 'NOTIFY_RATE_LIMIT_PER_MINUTE',
+];
+
+async function main() {
+  console.log('🧪 通知服务测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'notifier-'));
+  const received: ReceivedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url || '', headers: req.headers, body });
+      res.statusCode = req.url?.startsWith('/fail') ? 500 : 200;
+      res.end(req.url?.startsWith('/fail') ? 'internal error' : '{"ok":true}');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const takeRequests = () => received.splice(0, received.length);
+
+  for (const key of NOTIFY_ENV_KEYS) {
+    delete process.env[key];
+  }
+
+  try {
+    const { Notifier, AlertLevel, signWebhookPayload, notify, resetNotifier } = await import('../src/notifications');
+    const { loadNotifierOptions } = await import('../src/notifications/config');
+    const { TelegramChannel } = await import('../src/notifications/channels/TelegramChannel');
+    const { DiscordChannel } = await import('../src/notifications/channels/DiscordChannel');
+    const { SlackChannel } = await import('../src/notifications/channels/SlackChannel');
+    const { WebhookChannel } = await import('../src/notifications/channels/WebhookChannel');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+
+    // ========== 1. 配置加载 ==========
+    console.log('=== 测试1: 配置加载 ===');
+    check('未配置渠道时只记录日志', loadNotifierOptions().channels.length === 0);
+
+    process.env.TELEGRAM_BOT_TOKEN = 'token';
+    process.env.TELEGRAM_CHAT_ID = '42';
+    process.env.NOTIFY_WEBHOOK_URL = `${base}/hook`;
+    process.env.NOTIFY_MIN_LEVEL = 'warning';
+    let options = loadNotifierOptions();
+    check('由环境变量启用渠道', options.channels.map(c => `${c.id}:${c.type}`).join(',') === 'telegram:telegram,webhook:webhook');
+    check('环境变量模式发送到所有渠道并应用最低级别',
+      options.routes.length === 1 && options.routes[0].minLevel === AlertLevel.WARNING && options.routes[0].channels.length === 2);
+    check('默认去重窗口和限流', options.dedupWindowMs === 300000 && options.rateLimitPerMinute === 20);
+
+    const configPath = join(dir, 'notifications.json');
+    process.env.TEST_DISCORD_URL = `${base}/discord`;
+    process.env.TEST_HOOK_SECRET = 'secret';
+    writeFileSync(configPath, JSON.stringify({
+      dedupWindowSeconds: 60,
+      channels: [
+        { id: 'tg', type: 'telegram', botTokenEnv: 'TELEGRAM_BOT_TOKEN', chatId: '-100' },
+        { id: 'dc', type: 'discord', webhookUrlEnv: 'TEST_DISCORD_URL' },
+        { id: 'ops', type: 'webhook', url: `${base}/ops`, secretEnv: 'TEST_HOOK_SECRET' },
+      ],
+      routes: [
+        { events: ['trade'], channels: ['tg'] },
+        { events: ['health_check', 'circuit_breaker'], minLevel: 'WARNING', channels: ['dc'] },
+        { minLevel: 'ERROR', channels: ['ops'] },
+      ],
+    }));
+    process.env.NOTIFICATION_CONFIG_PATH = configPath;
+    options = loadNotifierOptions();
+    check('从配置文件加载渠道和路由', options.channels.map(c => c.id).join(',') === 'tg,dc,ops' && options.routes.length === 3);
+    check('配置文件覆盖去重窗口', options.dedupWindowMs === 60000);
+
+    const routed = new Notifier(options);
+    const routeIds = (event: any, level: any) => routed.resolveChannels(event, level).map(c => c.id).join(',');
+    check('交易提醒路由到 Telegram', routeIds('trade', AlertLevel.INFO) === 'tg');
+    check('大额亏损交易同时路由到 ERROR 渠道', routeIds('trade', AlertLevel.ERROR) === 'tg,ops');
+    check('健康检查 INFO 不发送', routeIds('health_check', AlertLevel.INFO) === '');
+    check('熔断 WARNING 路由到 Discord', routeIds('circuit_breaker', AlertLevel.WARNING) === 'dc');
+    check('CRITICAL 健康检查路由到 Discord 和 Webhook', routeIds('health_check', AlertLevel.CRITICAL) === 'dc,ops');
+    check('未匹配事件类型的低级别通知不发送', routeIds('trading_state', AlertLevel.WARNING) === '');
+
+    const invalidConfigs: Array<[string, any]> = [
+      ['路由引用不存在的渠道', { channels: [{ id: 'tg', type: 'telegram', botTokenEnv: 'TELEGRAM_BOT_TOKEN', chatId: '1' }], routes: [{ channels: ['nope'] }] }],
+      ['未知事件类型', { channels: [{ id: 'tg', type: 'telegram', botTokenEnv: 'TELEGRAM_BOT_TOKEN', chatId: '1' }], routes: [{ events: ['orders'], channels: ['tg'] }] }],
+      ['未知告警级别', { channels: [{ id: 'tg', type: 'telegram', botTokenEnv: 'TELEGRAM_BOT_TOKEN', chatId: '1' }], routes: [{ minLevel: 'FATAL', channels: ['tg'] }] }],
+      ['密钥环境变量未设置', { channels: [{ id: 'dc', type: 'discord', webhookUrlEnv: 'MISSING_ENV' }] }],
+      ['渠道ID重复', { channels: [{ id: 'a', type: 'webhook', url: base }, { id: 'a', type: 'webhook', url: base }] }],
+      ['未知渠道类型', { channels: [{ id: 'a', type: 'pager' }] }],
+    ];
+    for (const [name, config] of invalidConfigs) {
+      writeFileSync(configPath, JSON.stringify(config));
+      let threw = false;
+      try {
+        loadNotifierOptions();
+      } catch {
+        threw = true;
+      }
+      check(`拒绝无效配置: ${name}`, threw);
+    }
+    resetNotifier();
+    const brokenResult = await notify({ event: 'system', level: AlertLevel.ERROR, title: 't', message: 'm' });
+    check('配置错误时发送通知不抛出异常', brokenResult.delivered.length === 0);
+    delete process.env.NOTIFICATION_CONFIG_PATH;
+    resetNotifier();
+
+    // ========== 2. 渠道请求格式 ==========
+    console.log('\n=== 测试2: 渠道请求格式 ===');
+    const channelsNotifier = new Notifier({
+      channels: [
+        new TelegramChannel('tg', { botToken: 'bot-token', chatId: '-100', apiBaseURL: base }),
+        new DiscordChannel('dc', `${base}/discord`),
+        new SlackChannel('sl', `${base}/slack`),
+        new WebhookChannel('wh', { url: `${base}/hook`, secret: 'shh' }),
+      ],
+      routes: [{ channels: ['tg', 'dc', 'sl', 'wh'] }],
+      dedupWindowMs: 0,
+      rateLimitPerMinute: 100,
+    });
+    const account = { id: 'acct-1', name: 'acct-1', exchangeName: 'paper' as const, symbols: ['BTC'], riskOverrides: {} };
+    const sent = await runWithAccount(account, () => channelsNotifier.notify({
+      event: 'circuit_breaker',
+      level: AlertLevel.ERROR,
+      title: 'gate API熔断',
+      message: '连续失败 3 次',
+      details: { consecutiveFailures: 3 },
+    }));
+    check('所有渠道发送成功', sent.delivered.join(',') === 'tg,dc,sl,wh', JSON.stringify(sent));
+    const requests = takeRequests();
+    const byPath = (prefix: string) => requests.find(r => r.path.startsWith(prefix));
+
+    const telegram = byPath('/botbot-token/sendMessage');
+    const telegramBody = telegram ? JSON.parse(telegram.body) : {};
+    check('Telegram 调用 sendMessage 并携带 chat_id', telegramBody.chat_id === '-100');
+    check('Telegram 文本包含级别、标题和详情',
+      typeof telegramBody.text === 'string' && telegramBody.text.includes('[ERROR] gate API熔断') && telegramBody.text.includes('consecutiveFailures: 3'));
+
+    const discordBody = JSON.parse(byPath('/discord')?.body || '{}');
+    check('Discord 使用 embed 并按级别着色', discordBody.embeds?.[0]?.color === 0xf44336 && discordBody.embeds[0].title.includes('gate API熔断'));
+
+    const slackBody = JSON.parse(byPath('/slack')?.body || '{}');
+    check('Slack 发送文本和详情附件', slackBody.text?.includes('*[ERROR] gate API熔断*') && slackBody.attachments?.[0]?.text === 'consecutiveFailures: 3');
+
+    const hook = byPath('/hook');
+    const hookBody = JSON.parse(hook?.body || '{}');
+    check('Webhook 请求体包含事件类型和账户', hookBody.event === 'circuit_breaker' && hookBody.level === 'ERROR' && hookBody.accountId === 'acct-1');
+    const timestamp = String(hook?.headers['x-notify-timestamp'] || '');
+    check('Webhook 签名可由接收方校验',
+      !!timestamp && hook?.headers['x-notify-signature'] === signWebhookPayload('shh', timestamp, hook?.body || ''));
+    check('篡改请求体后签名不匹配', hook?.headers['x-notify-signature'] !== signWebhookPayload('shh', timestamp, `${hook?.body} `));
+
+    // ========== 3. 去重与限流 ==========
+    console.log('\n=== 测试3: 去重与限流 ===');
+    const limited = new Notifier({
+      channels: [new WebhookChannel('wh', { url: `${base}/hook` })],
+      routes: [{ channels: ['wh'] }],
+      dedupWindowMs: 60000,
+      rateLimitPerMinute: 3,
+    });
+    const alert = { event: 'health_check' as const, level: AlertLevel.ERROR, title: '健康检查连续失败', message: '连续失败 3 次' };
+    const first = await limited.notify(alert);
+    const second = await limited.notify({ ...alert, message: '连续失败 4 次' });
+    check('去重窗口内相同告警只发送一次', first.delivered.length === 1 && second.deduplicated && second.delivered.length === 0);
+    const otherAccount = await runWithAccount(account, () => limited.notify(alert));
+    check('不同账户的相同告警分别发送', otherAccount.delivered.length === 1);
+
+    const trade = { type: 'close' as const, symbol: 'BTC', side: 'long' as const, quantity: 1, price: 100, leverage: 5, pnl: 10 };
+    const tradeA = await limited.notifyTrade({ ...trade, orderId: 'o-1' });
+    const tradeB = await limited.notifyTrade({ ...trade, orderId: 'o-2' });
+    const limitedRequests = takeRequests();
+    check('超过每分钟条数的通知被限流', tradeA.delivered.length === 1 && tradeB.rateLimited.join(',') === 'wh' && limitedRequests.length === 3,
+      `收到 ${limitedRequests.length} 个请求`);
+    const critical = await limited.notify({ event: 'circuit_breaker', level: AlertLevel.CRITICAL, title: 'IP被封禁', message: '418' });
+    check('CRITICAL 不受限流影响', critical.delivered.length === 1 && takeRequests().length === 1);
+
+    const tradeNotifier = new Notifier({
+      channels: [new WebhookChannel('wh', { url: `${base}/hook` })],
+      routes: [{ events: ['trade'], channels: ['wh'] }],
+      dedupWindowMs: 60000,
+      rateLimitPerMinute: 100,
+    });
+    await tradeNotifier.notifyTrade({ ...trade, orderId: 'o-1' });
+    await tradeNotifier.notifyTrade({ ...trade, orderId: 'o-2' });
+    const loss = await tradeNotifier.notifyTrade({ ...trade, orderId: 'o-3', pnl: -150 });
+    const tradeBodies = takeRequests().map(r => JSON.parse(r.body));
+    check('同币种不同订单的交易提醒都发送', tradeBodies.length === 3 && tradeBodies[1].details.订单ID === 'o-2');
+    check('大额亏损平仓提醒为 ERROR 级别', loss.delivered.length === 1 && tradeBodies[2].level === 'ERROR' && tradeBodies[2].details.盈亏 === '-150.00 USDT');
+
+    const shortWindow = new Notifier({
+      channels: [new WebhookChannel('wh', { url: `${base}/hook` })],
+      routes: [{ channels: ['wh'] }],
+      dedupWindowMs: 100,
+      rateLimitPerMinute: 100,
+    });
+    const concurrent = await Promise.all([shortWindow.notify(alert), shortWindow.notify(alert)]);
+    check('同时到达的相同通知只发送一次', concurrent.filter(r => r.deduplicated).length === 1 && takeRequests().length === 1);
+    await shortWindow.notifyTrade({ ...trade, orderId: 'o-1' });
+    await shortWindow.notifyTrade({ ...trade, orderId: 'o-2' });
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await shortWindow.notifyTrade({ ...trade, orderId: 'o-3' });
+    takeRequests();
+    check('超出去重窗口的记录被清理', (shortWindow as any).lastSentAt.size === 1, String((shortWindow as any).lastSentAt.size));
+
+    // ========== 4. 渠道失败隔离 ==========
+    console.log('\n=== 测试4: 渠道失败隔离 ===');
+    const partial = new Notifier({
+      channels: [
+        new WebhookChannel('broken', { url: `${base}/fail` }),
+        new DiscordChannel('dc', `${base}/discord`),
+      ],
+      routes: [{ channels: ['broken', 'dc'] }],
+      dedupWindowMs: 60000,
+      rateLimitPerMinute: 100,
+    });
+    const partialResult = await partial.notify(alert);
+    check('单个渠道失败不影响其他渠道', partialResult.failed.join(',') === 'broken' && partialResult.delivered.join(',') === 'dc');
+
+    const allBroken = new Notifier({
+      channels: [new WebhookChannel('broken', { url: `${base}/fail` })],
+      routes: [{ channels: ['broken'] }],
+      dedupWindowMs: 60000,
+      rateLimitPerMinute: 100,
+    });
+    await allBroken.notify(alert);
+    const retried = await allBroken.notify(alert);
+    check('全部渠道失败时不计入去重，下次继续重试', !retried.deduplicated && retried.failed.length === 1);
+    takeRequests();
+  } finally {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
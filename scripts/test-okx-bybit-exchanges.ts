@@ -0,0 +1,369 @@
+/**
+ * OKX / Bybit 交易所客户端测试脚本
+ * 使用 scripts/fixtures 下录制的接口响应离线回放，验证格式转换、签名、条件单和限流熔断降级
+ */
+
+import * as crypto from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { OkxExchangeClient } from '../src/exchanges/OkxExchangeClient';
+import { BybitExchangeClient } from '../src/exchanges/BybitExchangeClient';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function approx(a: number, b: number, eps: number = 1e-6): boolean {
+  return Math.abs(a - b) < eps;
+}
+
+interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body: string;
+}
+
+type ReplayMode = 'fixture' | 'offline' | 'rate-limited';
+
+/**
+ * 录制响应回放器：替换全局 fetch，按 "METHOD 路径[?参数=值]" 匹配录制响应
+ * 带查询参数的键优先匹配；数组表示按调用顺序返回，最后一个重复使用
+ */
+function installReplayer(fixtureFile: string) {
+  const fixture = JSON.parse(readFileSync(join(dirname(fileURLToPath(import.meta.url)), 'fixtures', fixtureFile), 'utf-8'));
+  const counters = new Map<string, number>();
+  const state = {
+    mode: 'fixture' as ReplayMode,
+    requests: [] as RecordedRequest[],
+    unmatched: [] as string[],
+  };
+
+  globalThis.fetch = (async (input: any, init: any = {}) => {
+    const url = new URL(String(input));
+    const method = (init.method || 'GET').toUpperCase();
+    state.requests.push({ method, url, headers: { ...(init.headers || {}) }, body: init.body || '' });
+
+    if (state.mode === 'offline') {
+      throw new TypeError('fetch failed');
+    }
+    if (state.mode === 'rate-limited') {
+      return new Response(JSON.stringify({ code: '50011', msg: 'Too Many Requests', retCode: 10006, retMsg: 'Too many visits' }), { status: 429 });
+    }
+
+    let bestKey: string | undefined;
+    let bestScore = -1;
+    for (const key of Object.keys(fixture.responses)) {
+      const [keyMethod, keyTarget] = key.split(' ');
+      const [keyPath, keyQuery] = keyTarget.split('?');
+      if (keyMethod !== method || keyPath !== url.pathname) continue;
+      const constraints = [...new URLSearchParams(keyQuery || '').entries()];
+      if (constraints.every(([k, v]) => url.searchParams.get(k) === v) && constraints.length > bestScore) {
+        bestKey = key;
+        bestScore = constraints.length;
+      }
+    }
+
+    if (!bestKey) {
+      state.unmatched.push(`${method} ${url.pathname}${url.search}`);
+      return new Response(JSON.stringify({ code: '404', msg: '未录制的请求', retCode: 404, retMsg: '未录制的请求' }), { status: 404 });
+    }
+
+    const entry = fixture.responses[bestKey];
+    let recorded = entry;
+    if (Array.isArray(entry)) {
+      const index = counters.get(bestKey) || 0;
+      counters.set(bestKey, index + 1);
+      recorded = entry[Math.min(index, entry.length - 1)];
+    }
+    return new Response(JSON.stringify(recorded.body), { status: recorded.status || 200 });
+  }) as typeof fetch;
+
+  return state;
+}
+
+function lastRequest(requests: RecordedRequest[], method: string, path: string): RecordedRequest | undefined {
+  return [...requests].reverse().find(r => r.method === method && r.url.pathname === path);
+}
+
+async function testOkx() {
+  console.log('=== OKX: 行情与合约信息 ===');
+  const replay = installReplayer('okx-responses.json');
+  const config = { exchangeName: 'okx' as const, apiKey: 'okx-key', apiSecret: 'okx-secret', passphrase: 'okx-pass', isTestnet: true };
+  const client = new OkxExchangeClient(config);
+  (client as any).rateLimitManager.reset();
+
+  {
+    check('合约名转换为 OKX 格式', client.normalizeContract('BTC_USDT') === 'BTC-USDT-SWAP' && client.extractSymbol('BTC-USDT-SWAP') === 'BTC');
+    check('按币数量计价（线性合约）', client.getContractType() === 'linear');
+
+    const ticker = await client.getFuturesTicker('BTC');
+    check('行情最新价', ticker.last === '65000.1');
+    check('24h涨跌幅由开盘价计算', approx(Number.parseFloat(ticker.change24h || '0'), 1.5627, 1e-3), `实际 ${ticker.change24h}`);
+
+    const candles = await client.getFuturesCandles('BTC', '1h', 3);
+    check('K线转换为正序', candles.length === 3 && candles[0].timestamp < candles[2].timestamp);
+    check('K线成交量使用币数量', candles[2].volume === '15');
+
+    const info = await client.getContractInfo('BTC');
+    check('合约乘数统一为1', info.quantoMultiplier === '1');
+    check('最小下单量换算为币', approx(info.orderSizeMin, 0.0001));
+
+    const quantity = await client.calculateQuantity(100, 65000, 10, 'BTC');
+    check('下单数量按张数步长向下取整', approx(quantity, 0.0153), `实际 ${quantity}`);
+
+    const funding = await client.getFundingRate('BTC');
+    check('资金费率兼容 Gate 格式', funding.r === '0.0001' && funding.t === 1718006400);
+  }
+
+  console.log('\n=== OKX: 账户、持仓与签名 ===');
+  {
+    const account = await client.getFuturesAccount();
+    check('账户余额映射', account.total === '1000.5' && account.available === '950.25' && account.unrealisedPnl === '12.87');
+
+    const positions = await client.getPositions();
+    check('过滤空仓并按币数量返回', positions.length === 1 && approx(Number.parseFloat(positions[0].size), -0.02), JSON.stringify(positions));
+
+    const request = lastRequest(replay.requests, 'GET', '/api/v5/account/positions');
+    const timestamp = request?.headers['OK-ACCESS-TIMESTAMP'] || '';
+    const expected = crypto
+      .createHmac('sha256', 'okx-secret')
+      .update(`${timestamp}GET${request?.url.pathname}${request?.url.search}`)
+      .digest('base64');
+    check('签名与官方算法一致', request?.headers['OK-ACCESS-SIGN'] === expected);
+    check('携带 API 密码', request?.headers['OK-ACCESS-PASSPHRASE'] === 'okx-pass');
+    check('模拟盘请求头', request?.headers['x-simulated-trading'] === '1');
+  }
+
+  console.log('\n=== OKX: 下单与成交记录 ===');
+  {
+    const order = await client.placeOrder({ contract: 'BTC', size: 0.0153, price: 0 });
+    const request = lastRequest(replay.requests, 'POST', '/api/v5/trade/order');
+    const body = JSON.parse(request?.body || '{}');
+    check('币数量换算为张数下单', body.sz === '1.53' && body.side === 'buy' && body.ordType === 'market', request?.body);
+    const expected = crypto
+      .createHmac('sha256', 'okx-secret')
+      .update(`${request?.headers['OK-ACCESS-TIMESTAMP']}POST/api/v5/trade/order${request?.body}`)
+      .digest('base64');
+    check('POST 请求签名包含请求体', request?.headers['OK-ACCESS-SIGN'] === expected);
+    check('返回实际成交均价', order.status === 'finished' && order.fill_price === '65001.3' && approx(order.size, 0.0153));
+
+    const trades = await client.getMyTrades('BTC');
+    check('成交记录转换为正序', trades.length === 2 && trades[0].id === '990001' && trades[1].id === '990002');
+    check('手续费转换为正数', approx(Number.parseFloat(trades[1].fee || '0'), 0.4972599) && trades[0].role === 'maker');
+  }
+
+  console.log('\n=== OKX: 止损止盈条件单 ===');
+  {
+    const result = await client.setPositionStopLoss('BTC', 66000, 60000);
+    check('止损止盈设置成功', result.success && result.stopLossOrderId === '700000000000000002' && result.takeProfitOrderId === '700000000000000003', JSON.stringify(result));
+
+    const cancelBody = JSON.parse(lastRequest(replay.requests, 'POST', '/api/v5/trade/cancel-algos')?.body || '[]');
+    check('先取消旧条件单', cancelBody[0]?.algoId === '700000000000000001');
+
+    const algoBodies = replay.requests
+      .filter(r => r.method === 'POST' && r.url.pathname === '/api/v5/trade/order-algo')
+      .map(r => JSON.parse(r.body));
+    check('空单止损为买入平仓', algoBodies[0]?.side === 'buy' && algoBodies[0]?.sz === '2.00' && algoBodies[0]?.reduceOnly === true);
+    check('止损按标记价格触发', Number.parseFloat(algoBodies[0]?.slTriggerPx) === 66000 && algoBodies[0]?.slTriggerPxType === 'mark');
+    check('止盈单触发价', Number.parseFloat(algoBodies[1]?.tpTriggerPx) === 60000);
+
+    const orders = await client.getPriceOrders('BTC');
+    const stopLoss = orders.find(o => o.type === 'STOP_MARKET');
+    const takeProfit = orders.find(o => o.type === 'TAKE_PROFIT_MARKET');
+    check('空单止损向上触发(rule=1)', stopLoss?.trigger.rule === 1 && stopLoss?.trigger.price === '66000');
+    check('空单止盈向下触发(rule=2)', takeProfit?.trigger.rule === 2 && takeProfit?.trigger.price === '60000');
+    check('条件单数量换算为币', approx(stopLoss?.initial.size, 0.02));
+
+    const { stopLossOrder, takeProfitOrder } = await client.getPositionStopLossOrders('BTC');
+    check('查询持仓止损止盈订单', stopLossOrder?.id === '700000000000000002' && takeProfitOrder?.id === '700000000000000003');
+
+    await client.cancelOrder('700000000000000002');
+    const cancelRequest = lastRequest(replay.requests, 'POST', '/api/v5/trade/cancel-algos');
+    check('条件单通过策略委托接口取消', JSON.parse(cancelRequest?.body || '[]')[0]?.algoId === '700000000000000002');
+
+    const cancelled = await client.cancelPriceOrder('BTC', '700000000000000003');
+    const cancelPriceBody = JSON.parse(lastRequest(replay.requests, 'POST', '/api/v5/trade/cancel-algos')?.body || '[]');
+    check('按合约取消单个条件单', cancelled.success && cancelPriceBody[0]?.algoId === '700000000000000003' && cancelPriceBody[0]?.instId === 'BTC-USDT-SWAP');
+  }
+
+  console.log('\n=== OKX: 熔断与429退避 ===');
+  {
+    replay.mode = 'offline';
+    for (let i = 0; i < 3; i++) {
+      const ticker = await client.getFuturesTicker('BTC', 1, { skipCache: true });
+      check(`网络故障 #${i + 1} 使用缓存行情`, ticker.last === '65000.1');
+    }
+    check('连续失败后熔断器打开', client.getCircuitBreakerStatus().reason === 'API限流熔断', JSON.stringify(client.getCircuitBreakerStatus()));
+
+    (client as any).rateLimitManager.reset();
+    replay.mode = 'rate-limited';
+    await client.getFuturesTicker('BTC', 1, { skipCache: true });
+    check('收到429进入全局退避', client.getCircuitBreakerStatus().reason === '429全局退避', JSON.stringify(client.getCircuitBreakerStatus()));
+
+    const before = replay.requests.length;
+    const ticker = await client.getFuturesTicker('BTC', 1, { skipCache: true });
+    check('退避期间不再发送请求并降级到缓存', replay.requests.length === before && ticker.last === '65000.1');
+    (client as any).rateLimitManager.reset();
+  }
+
+  check('OKX 所有请求均有录制响应', replay.unmatched.length === 0, replay.unmatched.join(', '));
+}
+
+async function testBybit() {
+  console.log('\n=== Bybit: 行情与合约信息 ===');
+  const replay = installReplayer('bybit-responses.json');
+  const config = { exchangeName: 'bybit' as const, apiKey: 'bybit-key', apiSecret: 'bybit-secret', isTestnet: true };
+  const client = new BybitExchangeClient(config);
+  (client as any).rateLimitManager.reset();
+
+  {
+    check('合约名转换为 Bybit 格式', client.normalizeContract('BTC_USDT') === 'BTCUSDT' && client.extractSymbol('BTCUSDT') === 'BTC');
+    check('按币数量计价（线性合约）', client.getContractType() === 'linear');
+
+    const ticker = await client.getFuturesTicker('BTC', 2, undefined, true);
+    check('行情包含标记价格', ticker.last === '65000.1' && ticker.markPrice === '65000');
+    check('24h涨跌幅转换为百分比', approx(Number.parseFloat(ticker.change24h || '0'), 1.5627, 1e-3), `实际 ${ticker.change24h}`);
+
+    const candles = await client.getFuturesCandles('BTC', '1h', 3);
+    check('K线转换为正序', candles.length === 3 && candles[0].timestamp < candles[2].timestamp);
+    const klineRequest = lastRequest(replay.requests, 'GET', '/v5/market/kline');
+    check('K线周期映射', klineRequest?.url.searchParams.get('interval') === '60');
+
+    const info = await client.getContractInfo('BTC');
+    check('合约乘数统一为1', info.quantoMultiplier === '1' && approx(info.orderSizeMin, 0.001));
+
+    const quantity = await client.calculateQuantity(100, 65000, 10, 'BTC');
+    check('下单数量按步长向下取整', approx(quantity, 0.015), `实际 ${quantity}`);
+
+    const funding = await client.getFundingRate('BTC');
+    check('资金费率兼容 Gate 格式', funding.r === '0.0001' && funding.t === 1718006400);
+
+    const book = await client.getOrderBook('BTC', 2);
+    check('订单簿买卖盘', book.bids?.length === 2 && book.asks?.length === 2, JSON.stringify(book));
+  }
+
+  console.log('\n=== Bybit: 账户、持仓与签名 ===');
+  {
+    const account = await client.getFuturesAccount();
+    check('账户余额映射', account.total === '1000.5' && account.available === '917.38' && account.positionMargin === '96.12');
+
+    const positions = await client.getPositions();
+    check('过滤空仓并保留方向', positions.length === 1 && positions[0].size === '0.015', JSON.stringify(positions));
+
+    const request = lastRequest(replay.requests, 'GET', '/v5/position/list');
+    const timestamp = request?.headers['X-BAPI-TIMESTAMP'] || '';
+    const expected = crypto
+      .createHmac('sha256', 'bybit-secret')
+      .update(`${timestamp}bybit-key10000${request?.url.search.slice(1)}`)
+      .digest('hex');
+    check('签名与官方算法一致', request?.headers['X-BAPI-SIGN'] === expected);
+    check('测试网域名', request?.url.host === 'api-testnet.bybit.com');
+
+    await client.setLeverage('BTC', 10);
+    check('杠杆未变化视为成功', lastRequest(replay.requests, 'POST', '/v5/position/set-leverage') !== undefined);
+  }
+
+  console.log('\n=== Bybit: 下单与成交记录 ===');
+  {
+    const order = await client.placeOrder({ contract: 'BTC', size: 0.015, price: 0 });
+    const request = lastRequest(replay.requests, 'POST', '/v5/order/create');
+    const body = JSON.parse(request?.body || '{}');
+    check('市价单参数', body.qty === '0.015' && body.side === 'Buy' && body.orderType === 'Market' && body.category === 'linear', request?.body);
+    const expected = crypto
+      .createHmac('sha256', 'bybit-secret')
+      .update(`${request?.headers['X-BAPI-TIMESTAMP']}bybit-key10000${request?.body}`)
+      .digest('hex');
+    check('POST 请求签名包含请求体', request?.headers['X-BAPI-SIGN'] === expected);
+    check('返回实际成交均价', order.status === 'finished' && order.fill_price === '65001.3' && order.price === '65001.3');
+
+    const trades = await client.getMyTrades('BTC');
+    check('成交记录转换为正序', trades.length === 2 && trades[0].id === 'e-0001' && trades[1].id === 'e-0002');
+    check('成交方向与角色', trades[0].size === -0.01 && trades[0].role === 'maker' && trades[1].fee === '0.53626073');
+  }
+
+  console.log('\n=== Bybit: 止损止盈条件单 ===');
+  {
+    const result = await client.setPositionStopLoss('BTC', 63000, 70000);
+    check('止损止盈设置成功', result.success && result.stopLossOrderId === '1c2d3e4f-0002' && result.takeProfitOrderId === '1c2d3e4f-0003', JSON.stringify(result));
+
+    const cancelBody = JSON.parse(lastRequest(replay.requests, 'POST', '/v5/order/cancel')?.body || '{}');
+    check('先取消旧条件单', cancelBody.orderId === '1c2d3e4f-0000');
+
+    const createBodies = replay.requests
+      .filter(r => r.method === 'POST' && r.url.pathname === '/v5/order/create')
+      .map(r => JSON.parse(r.body));
+    check('多单止损为卖出平仓并向下触发', createBodies[1]?.side === 'Sell' && createBodies[1]?.triggerDirection === 2 && createBodies[1]?.reduceOnly === true);
+    check('止损按标记价格触发', Number.parseFloat(createBodies[1]?.triggerPrice) === 63000 && createBodies[1]?.triggerBy === 'MarkPrice');
+    check('止盈向上触发', createBodies[2]?.triggerDirection === 1 && Number.parseFloat(createBodies[2]?.triggerPrice) === 70000);
+
+    const orders = await client.getPriceOrders('BTC');
+    const stopLoss = orders.find(o => o.type === 'STOP_MARKET');
+    const takeProfit = orders.find(o => o.type === 'TAKE_PROFIT_MARKET');
+    check('多单止损向下触发(rule=2)', stopLoss?.trigger.rule === 2 && stopLoss?.orderId === '1c2d3e4f-0002');
+    check('多单止盈向上触发(rule=1)', takeProfit?.trigger.rule === 1 && takeProfit?.orderId === '1c2d3e4f-0003');
+    check('平多条件单数量为负', stopLoss?.initial.size === -0.015);
+
+    await client.cancelOrder('1c2d3e4f-0002');
+    const cancelRequest = lastRequest(replay.requests, 'POST', '/v5/order/cancel');
+    check('条件单按订单ID取消', JSON.parse(cancelRequest?.body || '{}').orderId === '1c2d3e4f-0002');
+
+    const cancelled = await client.cancelPriceOrder('BTC', '1c2d3e4f-0003');
+    const cancelPriceBody = JSON.parse(lastRequest(replay.requests, 'POST', '/v5/order/cancel')?.body || '{}');
+    check('按合约取消单个条件单', cancelled.success && cancelPriceBody.orderId === '1c2d3e4f-0003' && cancelPriceBody.symbol === 'BTCUSDT');
+  }
+
+  console.log('\n=== Bybit: 熔断与429退避 ===');
+  {
+    replay.mode = 'offline';
+    for (let i = 0; i < 3; i++) {
+      const ticker = await client.getFuturesTicker('BTC', 1, { skipCache: true });
+      check(`网络故障 #${i + 1} 使用缓存行情`, ticker.last === '65000.1');
+    }
+    check('连续失败后熔断器打开', client.getCircuitBreakerStatus().reason === 'API限流熔断', JSON.stringify(client.getCircuitBreakerStatus()));
+
+    (client as any).rateLimitManager.reset();
+    replay.mode = 'rate-limited';
+    await client.getFuturesTicker('BTC', 1, { skipCache: true });
+    check('收到429进入全局退避', client.getCircuitBreakerStatus().reason === '429全局退避', JSON.stringify(client.getCircuitBreakerStatus()));
+
+    const before = replay.requests.length;
+    const ticker = await client.getFuturesTicker('BTC', 1, { skipCache: true });
+    check('退避期间不再发送请求并降级到缓存', replay.requests.length === before && ticker.last === '65000.1');
+    (client as any).rateLimitManager.reset();
+  }
+
+  check('Bybit 所有请求均有录制响应', replay.unmatched.length === 0, replay.unmatched.join(', '));
+}
+
+async function main() {
+  console.log('🧪 OKX / Bybit 交易所客户端测试\n');
+
+  const originalFetch = globalThis.fetch;
+  try {
+    await testOkx();
+    await testBybit();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('测试失败:', error);
+  process.exit(1);
+});
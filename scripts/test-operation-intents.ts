@@ -0,0 +1,340 @@
+/**
+ * 开平仓操作意图日志测试脚本
+ * 在开平仓流程的各个步骤模拟进程崩溃，验证事务原子性、启动修复后数据库与交易所持仓一致、不留孤儿持仓和条件单，以及修复的幂等性
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+/**
+ * 假行情客户端：固定价格，合约乘数为 1
+ */
+function createMarketData(prices: Record<string, number>): any {
+  return {
+    getExchangeName: () => 'gate',
+    normalizeContract: (symbol: string) => symbol.includes('_') ? symbol : `${symbol}_USDT`,
+    extractSymbol: (contract: string) => contract.split('_')[0],
+    getFuturesTicker: async (contract: string) => ({ contract, last: prices[contract].toString() }),
+    getContractInfo: async (contract: string) => ({ name: contract, quantoMultiplier: '1', orderSizeMin: 1, orderSizeMax: 1000000 }),
+    getCircuitBreakerStatus: () => ({ isOpen: false }),
+  };
+}
+
+/** 开仓流程中模拟崩溃的位置 */
+type OpenStage = 'intent' | 'order' | 'submitted' | 'stoploss_placed' | 'stoploss_recorded' | 'commit_failed' | 'committed';
+/** 平仓流程中模拟崩溃的位置 */
+type CloseStage = 'intent' | 'order' | 'submitted' | 'commit_failed' | 'committed';
+
+async function main() {
+  console.log('🧪 开平仓操作意图日志测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'operation-intents-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+  process.env.PAPER_INITIAL_BALANCE = '100000';
+  process.env.PAPER_SLIPPAGE_PERCENT = '0';
+
+  try {
+    const { createClient } = await import('@libsql/client');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { runWithAccount, getCurrentAccountId } = await import('../src/utils/accountContext');
+    const { PaperExchangeClient } = await import('../src/exchanges/PaperExchangeClient');
+    const {
+      recordOperationIntent,
+      markOperationIntentSubmitted,
+      updateOperationIntent,
+      commitOperationIntent,
+      buildOpenPositionStatements,
+      buildClosePositionStatements,
+      reconcileOperationIntents,
+      loadIncompleteOperationIntents,
+    } = await import('../src/services/operationIntentLog');
+
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+
+    const prices: Record<string, number> = {
+      BTC_USDT: 100, ETH_USDT: 50, SOL_USDT: 20, DOGE_USDT: 10, XRP_USDT: 5, ADA_USDT: 4,
+      BNB_USDT: 30, LTC_USDT: 60, DOT_USDT: 8, LINK_USDT: 15, AVAX_USDT: 25, TRX_USDT: 2,
+    };
+    const exchange = new PaperExchangeClient(
+      { exchangeName: 'paper', apiKey: '', apiSecret: '', isTestnet: false, accountId: 'acct-1' },
+      createMarketData(prices),
+    );
+    const account = { id: 'acct-1', name: 'acct-1', exchangeName: 'paper' as const, symbols: Object.keys(prices).map(c => c.split('_')[0]), riskOverrides: {} };
+
+    const count = async (sql: string, args: any[] = []) => Number((await client.execute({ sql, args })).rows[0].count);
+
+    /**
+     * 按开仓工具的步骤执行开仓，在 stage 之后"崩溃"
+     */
+    async function openUntil(symbol: string, side: 'long' | 'short', size: number, stage: OpenStage): Promise<number> {
+      const contract = `${symbol}_USDT`;
+      const price = prices[contract];
+      await exchange.setLeverage(contract, 5);
+      const intentId = await recordOperationIntent(client, {
+        operation: 'open_position', symbol, side,
+        payload: { contract, size: side === 'long' ? size : -size, plannedPrice: price, leverage: 5, strategyType: 'trend_following' },
+      });
+      if (stage === 'intent') return intentId;
+
+      const order = await exchange.placeOrder({ contract, size: side === 'long' ? size : -size, price: 0 });
+      if (stage === 'order') return intentId;
+
+      await markOperationIntentSubmitted(client, intentId, order.id!.toString());
+      const detail = await exchange.getOrder(order.id!.toString());
+      const fillPrice = Number.parseFloat(detail.fill_price || detail.price);
+      await updateOperationIntent(client, intentId, { fillPrice, quantity: size, fee: 0.05, orderStatus: 'filled' });
+      if (stage === 'submitted') return intentId;
+
+      const stopLoss = side === 'long' ? price * 0.95 : price * 1.05;
+      const takeProfit = side === 'long' ? price * 1.1 : price * 0.9;
+      await updateOperationIntent(client, intentId, { stopLoss, takeProfit });
+      const placed = await exchange.setPositionStopLoss(contract, stopLoss, takeProfit);
+      if (stage === 'stoploss_placed') return intentId;
+
+      await updateOperationIntent(client, intentId, { slOrderId: placed.stopLossOrderId, tpOrderId: placed.takeProfitOrderId });
+      if (stage === 'stoploss_recorded') return intentId;
+
+      const statements = buildOpenPositionStatements(getCurrentAccountId(), {
+        symbol, side, orderId: order.id!.toString(), fillPrice, quantity: size, leverage: 5, fee: 0.05, tradeStatus: 'filled',
+        liquidationPrice: side === 'long' ? fillPrice * 0.82 : fillPrice * 1.18, stopLoss, takeProfit,
+        slOrderId: placed.stopLossOrderId ?? null, tpOrderId: placed.takeProfitOrderId ?? null,
+        marketState: null, strategyType: 'trend_following', signalStrength: null, opportunityScore: null, metadata: null,
+        timestamp: new Date().toISOString(),
+      });
+      if (stage === 'commit_failed') {
+        // 最后一条语句失败，前面已执行的写入必须整体回滚
+        await commitOperationIntent(client, intentId, [...statements, { sql: 'INSERT INTO no_such_table (x) VALUES (1)', args: [] }])
+          .catch(() => {});
+        return intentId;
+      }
+      await commitOperationIntent(client, intentId, statements);
+      return intentId;
+    }
+
+    /**
+     * 按平仓工具的步骤执行平仓，在 stage 之后"崩溃"
+     */
+    async function closeUntil(symbol: string, percentage: number, stage: CloseStage): Promise<number> {
+      const contract = `${symbol}_USDT`;
+      const position = (await exchange.getPositions()).find(p => p.contract === contract)!;
+      const quantity = Math.abs(Number.parseFloat(position.size));
+      const side = Number.parseFloat(position.size) > 0 ? 'long' : 'short';
+      const entryPrice = Number.parseFloat(position.entryPrice);
+      const closeSize = percentage === 100 ? quantity : Math.floor(quantity * percentage / 100);
+      const intentId = await recordOperationIntent(client, {
+        operation: 'close_position', symbol, side,
+        payload: {
+          contract, percentage, reason: 'manual_close', quantityBefore: quantity, closeSize, entryPrice,
+          plannedExitPrice: prices[contract], leverage: 5, estimatedPnl: 0, estimatedFee: 0.1,
+        },
+      });
+      if (stage === 'intent') return intentId;
+
+      const order = await exchange.placeOrder({ contract, size: side === 'long' ? -closeSize : closeSize, price: 0, reduceOnly: true });
+      if (stage === 'order') return intentId;
+
+      await markOperationIntentSubmitted(client, intentId, order.id!.toString());
+      await updateOperationIntent(client, intentId, { exitPrice: prices[contract], closeSize, pnl: 0, pnlPercent: 0, fee: 0.1 });
+      let slOrderId: string | null | undefined;
+      let tpOrderId: string | null | undefined;
+      if (percentage === 100) {
+        await exchange.cancelPositionStopLoss(contract);
+      } else {
+        await exchange.cancelPositionStopLoss(contract);
+        const placed = await exchange.setPositionStopLoss(contract, side === 'long' ? prices[contract] * 0.95 : prices[contract] * 1.05);
+        slOrderId = placed.stopLossOrderId ?? null;
+        tpOrderId = null;
+        await updateOperationIntent(client, intentId, { slOrderId, tpOrderId });
+      }
+      if (stage === 'submitted') return intentId;
+
+      const entry = await client.execute({ sql: 'SELECT entry_order_id FROM positions WHERE account_id = ? AND symbol = ?', args: [getCurrentAccountId(), symbol] });
+      const statements = buildClosePositionStatements(getCurrentAccountId(), {
+        symbol, side, fullClose: percentage === 100, orderId: order.id!.toString(), entryPrice, exitPrice: prices[contract],
+        closeSize, remainingQuantity: quantity - closeSize, leverage: 5, pnl: 0, pnlPercent: 0, fee: 0.1, tradeStatus: 'filled',
+        reason: 'manual_close', triggerType: 'ai_decision', entryOrderId: (entry.rows[0]?.entry_order_id as string) ?? null,
+        slOrderId, tpOrderId, timestamp: new Date().toISOString(),
+      });
+      if (stage === 'commit_failed') {
+        await commitOperationIntent(client, intentId, [...statements, { sql: 'INSERT INTO no_such_table (x) VALUES (1)', args: [] }])
+          .catch(() => {});
+        return intentId;
+      }
+      await commitOperationIntent(client, intentId, statements);
+      return intentId;
+    }
+
+    await runWithAccount(account, async () => {
+      // ========== 1. 事务原子性 ==========
+      console.log('=== 测试1: 提交失败整体回滚 ===');
+      const committedId = await openUntil('BTC', 'long', 10, 'committed');
+      const committed = await client.execute({ sql: 'SELECT status FROM operation_intents WHERE id = ?', args: [committedId] });
+      check('完整开仓后意图为 committed', committed.rows[0].status === 'committed');
+      check('完整开仓写入持仓、成交、条件单和开仓快照',
+        await count("SELECT COUNT(*) as count FROM positions WHERE symbol = 'BTC'") === 1
+        && await count("SELECT COUNT(*) as count FROM trades WHERE symbol = 'BTC' AND type = 'open'") === 1
+        && await count("SELECT COUNT(*) as count FROM price_orders WHERE symbol = 'BTC' AND status = 'active'") === 2
+        && await count("SELECT COUNT(*) as count FROM position_entries WHERE symbol = 'BTC'") === 1);
+
+      const failedCommitId = await openUntil('ETH', 'short', 20, 'commit_failed');
+      check('开仓提交失败时不写入任何记录',
+        await count("SELECT COUNT(*) as count FROM positions WHERE symbol = 'ETH'") === 0
+        && await count("SELECT COUNT(*) as count FROM trades WHERE symbol = 'ETH'") === 0
+        && await count("SELECT COUNT(*) as count FROM price_orders WHERE symbol = 'ETH'") === 0
+        && await count("SELECT COUNT(*) as count FROM position_entries WHERE symbol = 'ETH'") === 0);
+      const failedCommit = await client.execute({ sql: 'SELECT status FROM operation_intents WHERE id = ?', args: [failedCommitId] });
+      check('开仓提交失败时意图保持 submitted', failedCommit.rows[0].status === 'submitted');
+
+      await openUntil('LTC', 'long', 10, 'committed');
+      await closeUntil('LTC', 50, 'commit_failed');
+      check('平仓提交失败时持仓数量不变且无平仓记录',
+        await count("SELECT COUNT(*) as count FROM positions WHERE symbol = 'LTC' AND quantity = 10") === 1
+        && await count("SELECT COUNT(*) as count FROM trades WHERE symbol = 'LTC' AND type = 'close'") === 0
+        && await count("SELECT COUNT(*) as count FROM position_close_events WHERE symbol = 'LTC'") === 0);
+
+      // ========== 2. 在各步骤崩溃 ==========
+      console.log('\n=== 测试2: 模拟崩溃 ===');
+      const openIntentOnly = await openUntil('SOL', 'long', 10, 'intent');
+      const openPending = await openUntil('DOGE', 'short', 30, 'order');
+      const openSubmitted = await openUntil('XRP', 'long', 40, 'submitted');
+      const openSlPlaced = await openUntil('ADA', 'short', 50, 'stoploss_placed');
+      const openSlRecorded = await openUntil('BNB', 'long', 10, 'stoploss_recorded');
+      const openClosedMeanwhile = await openUntil('TRX', 'long', 100, 'stoploss_placed');
+      // 中断期间持仓已在交易所被平仓（如止损触发）
+      await exchange.placeOrder({ contract: 'TRX_USDT', size: -100, price: 0, reduceOnly: true });
+
+      await openUntil('DOT', 'long', 20, 'committed');
+      await openUntil('LINK', 'short', 20, 'committed');
+      await openUntil('AVAX', 'long', 20, 'committed');
+      const closeIntentOnly = await closeUntil('BTC', 100, 'intent');
+      const closeFullPending = await closeUntil('DOT', 100, 'order');
+      const closePartialSubmitted = await closeUntil('LINK', 50, 'submitted');
+      const closeFullCommitted = await closeUntil('AVAX', 100, 'committed');
+
+      const incomplete = await loadIncompleteOperationIntents(client);
+      check('崩溃后存在未完成意图', incomplete.length === 11, `实际 ${incomplete.length}`);
+      check('已完成的平仓不需要修复', !incomplete.some(i => i.id === closeFullCommitted));
+
+      // ========== 3. 启动修复 ==========
+      console.log('\n=== 测试3: 启动修复 ===');
+      const results = await reconcileOperationIntents(client, exchange as any);
+      const byId = new Map(results.map(r => [r.intentId, r]));
+      check('所有未完成意图都已处理', results.length === 11, `实际 ${results.length}`);
+
+      check('仅记录意图的开仓作废', byId.get(openIntentOnly)?.status === 'failed'
+        && await count("SELECT COUNT(*) as count FROM positions WHERE symbol = 'SOL'") === 0);
+
+      const doge = await client.execute("SELECT * FROM positions WHERE symbol = 'DOGE'");
+      check('已下单未记录订单的开仓按交易所持仓补写', byId.get(openPending)?.status === 'reconciled'
+        && doge.rows.length === 1 && Number(doge.rows[0].quantity) === 30 && doge.rows[0].side === 'short'
+        && String(doge.rows[0].entry_order_id).startsWith('intent-'));
+
+      const xrp = await client.execute("SELECT * FROM positions WHERE symbol = 'XRP'");
+      check('已提交的开仓使用交易所订单ID补写', xrp.rows.length === 1 && !String(xrp.rows[0].entry_order_id).startsWith('intent-')
+        && await count("SELECT COUNT(*) as count FROM trades WHERE symbol = 'XRP' AND type = 'open' AND order_id = ?", [xrp.rows[0].entry_order_id]) === 1);
+
+      const adaOrders = await exchange.getPriceOrders('ADA_USDT', 'open');
+      const adaDb = await client.execute("SELECT order_id FROM price_orders WHERE symbol = 'ADA' AND status = 'active' ORDER BY order_id");
+      check('条件单ID未记录时重新挂单并写入数据库',
+        adaOrders.length === 2 && adaDb.rows.length === 2
+        && adaDb.rows.every(r => adaOrders.some((o: any) => String(o.id) === String(r.order_id))), JSON.stringify(adaOrders));
+
+      const bnb = await client.execute("SELECT sl_order_id, tp_order_id FROM positions WHERE symbol = 'BNB'");
+      const bnbOrders = await exchange.getPriceOrders('BNB_USDT', 'open');
+      check('已记录的条件单ID直接使用', bnb.rows.length === 1 && bnbOrders.length === 2
+        && bnbOrders.some((o: any) => String(o.id) === String(bnb.rows[0].sl_order_id)));
+
+      check('中断期间已平仓的开仓只补开仓成交记录', byId.get(openClosedMeanwhile)?.status === 'reconciled'
+        && await count("SELECT COUNT(*) as count FROM positions WHERE symbol = 'TRX'") === 0
+        && await count("SELECT COUNT(*) as count FROM trades WHERE symbol = 'TRX' AND type = 'open'") === 1
+        && (await exchange.getPriceOrders('TRX_USDT', 'open')).length === 0);
+
+      check('提交失败的开仓按交易所持仓补写', byId.get(failedCommitId)?.status === 'reconciled'
+        && await count("SELECT COUNT(*) as count FROM positions WHERE symbol = 'ETH' AND side = 'short' AND quantity = 20") === 1);
+
+      check('仅记录意图的平仓作废且持仓保留', byId.get(closeIntentOnly)?.status === 'failed'
+        && await count("SELECT COUNT(*) as count FROM positions WHERE symbol = 'BTC'") === 1);
+
+      const dotEvents = await client.execute("SELECT trigger_type, position_order_id FROM position_close_events WHERE symbol = 'DOT'");
+      check('已下单的全部平仓补写平仓记录', byId.get(closeFullPending)?.status === 'reconciled'
+        && await count("SELECT COUNT(*) as count FROM positions WHERE symbol = 'DOT'") === 0
+        && await count("SELECT COUNT(*) as count FROM price_orders WHERE symbol = 'DOT' AND status = 'active'") === 0
+        && dotEvents.rows.length === 1 && dotEvents.rows[0].trigger_type === 'auto_fix' && !!dotEvents.rows[0].position_order_id);
+
+      const link = await client.execute("SELECT quantity, sl_order_id FROM positions WHERE symbol = 'LINK'");
+      check('部分平仓补写剩余数量和新条件单ID', byId.get(closePartialSubmitted)?.status === 'reconciled'
+        && Number(link.rows[0]?.quantity) === 10 && !!link.rows[0]?.sl_order_id
+        && await count("SELECT COUNT(*) as count FROM trades WHERE symbol = 'LINK' AND type = 'close' AND quantity = 10") === 1);
+
+      const ltc = await client.execute("SELECT quantity FROM positions WHERE symbol = 'LTC'");
+      check('平仓提交失败后按交易所持仓补写', Number(ltc.rows[0]?.quantity) === 5
+        && await count("SELECT COUNT(*) as count FROM position_close_events WHERE symbol = 'LTC'") === 1);
+
+      // ========== 4. 一致性 ==========
+      console.log('\n=== 测试4: 数据库与交易所一致 ===');
+      const exchangePositions = (await exchange.getPositions()).filter(p => Number.parseFloat(p.size) !== 0);
+      const dbPositions = await client.execute({ sql: 'SELECT symbol, side, quantity FROM positions WHERE account_id = ?', args: ['acct-1'] });
+      const exchangeKeys = exchangePositions
+        .map(p => `${p.contract.split('_')[0]}:${Number.parseFloat(p.size) > 0 ? 'long' : 'short'}:${Math.abs(Number.parseFloat(p.size))}`)
+        .sort();
+      const dbKeys = dbPositions.rows.map(r => `${r.symbol}:${r.side}:${Number(r.quantity)}`).sort();
+      check('持仓记录与交易所持仓一一对应', exchangeKeys.join(',') === dbKeys.join(','), `交易所=${exchangeKeys} 数据库=${dbKeys}`);
+
+      check('没有孤儿条件单记录', await count(`
+        SELECT COUNT(*) as count FROM price_orders po
+        WHERE po.status = 'active' AND NOT EXISTS (
+          SELECT 1 FROM positions p
+          WHERE p.account_id = po.account_id AND p.symbol = po.symbol AND p.entry_order_id = po.position_order_id
+        )`) === 0);
+
+      let orphanExchangeOrders = 0;
+      for (const contract of Object.keys(prices)) {
+        const symbol = contract.split('_')[0];
+        for (const order of await exchange.getPriceOrders(contract, 'open')) {
+          if (await count("SELECT COUNT(*) as count FROM price_orders WHERE symbol = ? AND order_id = ? AND status = 'active'", [symbol, String(order.id)]) === 0) {
+            orphanExchangeOrders++;
+          }
+        }
+      }
+      check('交易所条件单都有对应的数据库记录', orphanExchangeOrders === 0, `孤儿单 ${orphanExchangeOrders} 个`);
+
+      check('所有意图处于终态', await count("SELECT COUNT(*) as count FROM operation_intents WHERE status IN ('pending', 'submitted')") === 0);
+      const again = await reconcileOperationIntents(client, exchange as any);
+      const tradeCount = await count('SELECT COUNT(*) as count FROM trades');
+      check('重复修复无变更', again.length === 0 && tradeCount === await count('SELECT COUNT(*) as count FROM trades'));
+    });
+
+    await runWithAccount({ ...account, id: 'acct-2', name: 'acct-2' }, async () => {
+      check('意图按账户隔离', (await loadIncompleteOperationIntents(client)).length === 0);
+    });
+
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,161 @@
+/**
+ * 模拟盘交易所测试脚本
+ * 使用可控价格的假行情客户端和临时数据库，验证撮合、手续费、止损止盈、强平和账本持久化
+ */
+
+import { createClient } from '@libsql/client';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function approx(a: number, b: number, eps: number = 1e-6): boolean {
+  return Math.abs(a - b) < eps;
+}
+
+/**
+ * 假行情客户端：价格由测试控制，合约乘数模拟 Gate.io 的按张计量
+ */
+function createMarketData(prices: Record<string, number>, multiplier: number): any {
+  return {
+    getExchangeName: () => 'gate',
+    normalizeContract: (symbol: string) => symbol.includes('_') ? symbol : `${symbol}_USDT`,
+    extractSymbol: (contract: string) => contract.split('_')[0],
+    getFuturesTicker: async (contract: string) => ({ contract, last: prices[contract].toString() }),
+    getContractInfo: async (contract: string) => ({ name: contract, quantoMultiplier: multiplier.toString(), orderSizeMin: 1, orderSizeMax: 1000000 }),
+    getCircuitBreakerStatus: () => ({ isOpen: false }),
+  };
+}
+
+async function main() {
+  console.log('🧪 模拟盘交易所测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'paper-exchange-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'paper.db')}`;
+  process.env.PAPER_INITIAL_BALANCE = '1000';
+  process.env.PAPER_SLIPPAGE_PERCENT = '0';
+  delete process.env.PAPER_FEE_EXCHANGE;
+
+  const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+  const { RISK_PARAMS } = await import('../src/config/riskParams');
+  const { PaperExchangeClient } = await import('../src/exchanges/PaperExchangeClient');
+
+  const db = createClient({ url: process.env.DATABASE_URL });
+  await db.executeMultiple(CREATE_TABLES_SQL);
+
+  const fees = RISK_PARAMS.FEE_RATES.gate.mainnet;
+  const prices: Record<string, number> = { BTC_USDT: 100 };
+  const config = { exchangeName: 'paper' as const, apiKey: '', apiSecret: '', isTestnet: false };
+  // 1张 = 0.1 币
+  const client = new PaperExchangeClient(config, createMarketData(prices, 0.1));
+
+  try {
+    console.log('=== 测试1: 市价开仓与正式网手续费 ===');
+    {
+      check('手续费参考行情交易所', client.getFeeProfile() === 'gate' && !client.isTestnet());
+      await client.setLeverage('BTC', 10);
+      const order = await client.placeOrder({ contract: 'BTC_USDT', size: 50, price: 0 });
+      check('市价单立即成交', order.status === 'finished' && order.fill_price === '100');
+      const account = await client.getFuturesAccount();
+      check('按合约乘数扣除Taker手续费', approx(Number.parseFloat(account.total), 1000 - 500 * fees.taker));
+      check('占用保证金', approx(Number.parseFloat(account.positionMargin), 50));
+    }
+
+    console.log('\n=== 测试2: 未实现盈亏跟随真实价格 ===');
+    {
+      prices.BTC_USDT = 110;
+      await client.matchNow();
+      const [position] = await client.getPositions();
+      check('未实现盈亏 = 张数 × 乘数 × 价差', approx(Number.parseFloat(position.unrealisedPnl), 50));
+    }
+
+    console.log('\n=== 测试3: 账本持久化 ===');
+    {
+      const result = await client.setPositionStopLoss('BTC_USDT', 95, 130);
+      check('设置止损止盈成功', result.success && !!result.stopLossOrderId && !!result.takeProfitOrderId);
+      const reloaded = new PaperExchangeClient(config, createMarketData(prices, 0.1));
+      const positions = await reloaded.getPositions();
+      check('重启后持仓恢复', positions.length === 1 && positions[0].size === '50');
+      check('重启后条件单恢复', (await reloaded.getPriceOrders('BTC_USDT')).length === 2);
+      check('重启后余额恢复', approx(Number.parseFloat((await reloaded.getFuturesAccount()).total), 1000 - 500 * fees.taker));
+
+      const cancelled = await client.cancelPriceOrder('BTC_USDT', result.takeProfitOrderId!);
+      check('取消单个条件单', cancelled.success && (await client.getPriceOrders('BTC_USDT')).length === 1);
+      const again = await client.cancelPriceOrder('BTC_USDT', result.takeProfitOrderId!);
+      check('重复取消返回不存在', !again.success && again.notFound === true);
+    }
+
+    console.log('\n=== 测试4: 止损触发 ===');
+    {
+      prices.BTC_USDT = 94;
+      await client.matchNow();
+      check('止损后持仓清空', (await client.getPositions()).length === 0);
+      check('止损后条件单全部失效', (await client.getPriceOrders('BTC_USDT')).length === 0);
+      check('已触发条件单可查询', (await client.getPriceOrders('BTC_USDT', 'finished')).length === 1);
+      const trades = await client.getMyTrades('BTC_USDT');
+      check('止损按最新价成交', trades.length === 2 && trades[1].price === '94' && !!trades[1].trigger_order_id);
+      const expected = 1000 - 500 * fees.taker - 30 - 470 * fees.taker;
+      check('止损亏损计入余额', approx(Number.parseFloat((await client.getFuturesAccount()).total), expected));
+    }
+
+    console.log('\n=== 测试5: 限价单 Maker 成交 ===');
+    {
+      const order = await client.placeOrder({ contract: 'BTC_USDT', size: -20, price: 100 });
+      check('限价单挂单', order.status === 'open');
+      prices.BTC_USDT = 101;
+      await client.matchNow();
+      const filled = await client.getOrder(order.id);
+      check('价格穿越后成交', filled.status === 'finished' && filled.fill_price === '100');
+      const trades = await client.getMyTrades('BTC_USDT', 1);
+      check('按Maker费率收费', trades[0]?.role === 'maker' && approx(Number.parseFloat(trades[0].fee || '0'), 200 * fees.maker));
+    }
+
+    console.log('\n=== 测试6: 强平与只减仓 ===');
+    {
+      const [position] = await client.getPositions();
+      check('空单强平价计算正确', approx(Number.parseFloat(position.liqPrice), 100 * (1 + 0.1 - 0.004)));
+      prices.BTC_USDT = 111;
+      await client.matchNow();
+      check('突破强平价后持仓清空', (await client.getPositions()).length === 0);
+      let rejected = false;
+      try {
+        await client.placeOrder({ contract: 'BTC_USDT', size: 1, price: 0, reduceOnly: true });
+      } catch {
+        rejected = true;
+      }
+      check('无持仓时拒绝只减仓订单', rejected);
+    }
+
+    console.log('\n=== 测试7: 重置账户 ===');
+    {
+      await client.resetAccount(500);
+      const account = await client.getFuturesAccount();
+      check('重置后恢复初始资金', account.total === '500' && (await client.getMyTrades()).length === 0);
+    }
+  } finally {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('测试失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,186 @@
+/**
+ * 绩效分析测试脚本
+ * 验证 R 倍数、盈利因子/期望值、持仓时长、分组统计、回撤区间、夏普/索提诺/卡玛，以及从平仓事件和开仓快照加载交易
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function near(a: number | null | undefined, b: number, eps = 1e-6): boolean {
+  return a !== null && a !== undefined && Math.abs(a - b) < eps;
+}
+
+async function main() {
+  console.log('🧪 绩效分析测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'performance-analytics-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+
+  try {
+    const analytics = await import('../src/services/performanceAnalytics');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { createClient } = await import('@libsql/client');
+    type CloseEventRow = import('../src/services/performanceAnalytics').CloseEventRow;
+
+    // ========== 1. R 倍数 ==========
+    console.log('=== 测试1: R 倍数 ===');
+    check('多单盈利 2R', near(analytics.computeRMultiple('long', 100, 95, [{ price: 110, quantity: 1 }]), 2));
+    check('空单止损 -1R', near(analytics.computeRMultiple('short', 100, 104, [{ price: 104, quantity: 2 }]), -1));
+    check('分批平仓按数量加权', near(analytics.computeRMultiple('long', 100, 90, [{ price: 110, quantity: 1 }, { price: 130, quantity: 1 }]), 2));
+    check('部分平仓按开仓数量折算', near(analytics.computeRMultiple('long', 100, 90, [{ price: 120, quantity: 1 }], 4), 0.5));
+    check('缺少止损返回 null', analytics.computeRMultiple('long', 100, null, [{ price: 110, quantity: 1 }]) === null);
+    check('止损在错误一侧返回 null', analytics.computeRMultiple('long', 100, 105, [{ price: 110, quantity: 1 }]) === null);
+
+    // ========== 2. 交易聚合与统计 ==========
+    console.log('\n=== 测试2: 交易聚合与统计 ===');
+    const row = (overrides: Partial<CloseEventRow>): CloseEventRow => ({
+      id: 0, symbol: 'BTC', side: 'long', closeReason: 'take_profit_triggered', closePrice: 110, entryPrice: 100,
+      quantity: 1, leverage: 5, pnl: 10, fee: 0.1, positionOrderId: null, createdAt: '2025-01-01T02:00:00.000Z',
+      openedAt: '2025-01-01T00:00:00.000Z', entryQuantity: null, initialStopLoss: 95, strategyType: 'trend_following',
+      marketState: null, metadata: null, opportunityScore: null, ...overrides,
+    });
+    const trades = analytics.buildClosedTrades([
+      row({ id: 1, positionOrderId: 'p1', quantity: 1, closePrice: 110, pnl: 10, createdAt: '2025-01-01T01:00:00.000Z', closeReason: 'partial_close' }),
+      row({ id: 2, positionOrderId: 'p1', quantity: 1, closePrice: 120, pnl: 20, createdAt: '2025-01-01T04:00:00.000Z' }),
+      row({ id: 3, positionOrderId: 'p2', symbol: 'ETH', side: 'short', entryPrice: 3000, closePrice: 3060, initialStopLoss: 3060,
+        pnl: -15, openedAt: '2025-01-02T13:30:00.000Z', createdAt: '2025-01-02T14:30:00.000Z', strategyType: null,
+        metadata: '{"marketState":"downtrend_overbought"}', closeReason: 'stop_loss_triggered' }),
+      row({ id: 4, symbol: 'ETH', pnl: -5, initialStopLoss: null, openedAt: null, createdAt: '2025-01-03T00:00:00.000Z', marketState: 'ranging_neutral' }),
+    ]);
+    check('同一持仓的分批平仓合并为一笔', trades.length === 3 && trades[0].pnl === 30 && trades[0].closeReasons.length === 2);
+    check('平仓价按数量加权', near(trades[0].exitPrice, 115));
+    check('合并后的 R 倍数', near(trades[0].rMultiple, 3));
+    check('持仓时长取到最后一次平仓', near(trades[0].holdingHours, 4));
+    check('市场状态回退到开仓元数据', trades[1].marketState === 'downtrend_overbought' && trades[1].strategyType === 'unknown');
+    check('无开仓时间的交易持仓时长为 null', trades[2].holdingHours === null && trades[2].rMultiple === null);
+
+    const perf = analytics.computeTradePerformance(trades);
+    check('胜率和总盈亏', perf.trades === 3 && perf.wins === 1 && near(perf.winRate, 100 / 3) && perf.totalPnl === 10);
+    check('盈利因子 = 总盈利 / 总亏损', near(perf.profitFactor, 1.5) && perf.grossLoss === 20);
+    check('盈亏比和保本胜率', near(perf.winLossRatio, 3) && near(perf.breakEvenWinRate, 25));
+    check('每笔期望值', near(perf.expectancy, 10 / 3));
+    check('无亏损时盈利因子为 null', analytics.computeTradePerformance([trades[0]]).profitFactor === null);
+
+    const rStats = analytics.computeRMultipleStats(trades);
+    check('R 倍数统计只计入有止损的交易', rStats.count === 2 && near(rStats.average, 1) && near(rStats.median, 1) && rStats.best === 3 && rStats.worst === -1);
+    const bucket = (label: string) => rStats.distribution.find(b => b.label === label)?.count;
+    check('R 倍数分布区间（含下限）', bucket('>=3R') === 1 && bucket('-1R~0R') === 1 && bucket('<-1R') === 0 && rStats.distribution.reduce((s, b) => s + b.count, 0) === 2,
+      JSON.stringify(rStats.distribution));
+
+    const holding = analytics.computeHoldingTimeStats(trades);
+    check('持仓时长统计', holding.count === 2 && near(holding.averageHours, 2.5) && near(holding.averageWinHours, 4) && near(holding.averageLossHours, 1));
+
+    const bySymbol = analytics.computeBreakdown(trades, 'symbol');
+    check('按币种分组（按盈亏降序）', bySymbol.map(r => `${r.key}:${r.trades}:${r.totalPnl}`).join(',') === 'BTC:1:30,ETH:2:-20');
+    const byHour = analytics.computeBreakdown(trades, 'hour');
+    check('按开仓 UTC 小时分组', byHour.map(r => r.key).join(',') === '00,13');
+    const byState = analytics.computeBreakdown(trades, 'market_state');
+    check('按市场状态分组', byState.map(r => r.key).sort().join(',') === 'downtrend_overbought,ranging_neutral,unknown');
+
+    // ========== 3. 回撤与风险指标 ==========
+    console.log('\n=== 测试3: 回撤与风险指标 ===');
+    const equity = [
+      { timestamp: '2025-01-01T00:00:00.000Z', equity: 1000 },
+      { timestamp: '2025-01-02T00:00:00.000Z', equity: 1100 },
+      { timestamp: '2025-01-03T00:00:00.000Z', equity: 990 },
+      { timestamp: '2025-01-04T00:00:00.000Z', equity: 1045 },
+      { timestamp: '2025-01-05T00:00:00.000Z', equity: 1120 },
+      { timestamp: '2025-01-06T00:00:00.000Z', equity: 1115 },
+      { timestamp: '2025-01-07T00:00:00.000Z', equity: 1064 },
+    ];
+    const episodes = analytics.findDrawdownEpisodes(equity, 1);
+    check('识别已恢复和进行中的回撤', episodes.length === 2 && episodes[0].end === '2025-01-05T00:00:00.000Z' && episodes[1].end === null);
+    check('回撤幅度和时长', near(episodes[0].drawdownPercent, 10) && near(episodes[0].durationHours, 72) && near(episodes[0].recoveryHours as number, 48));
+    check('小于阈值的回撤被忽略', analytics.findDrawdownEpisodes(equity, 6).length === 1);
+
+    const returns = analytics.computeDailyReturns([
+      { timestamp: '2025-01-01T01:00:00.000Z', equity: 1000 },
+      { timestamp: '2025-01-01T23:00:00.000Z', equity: 1010 },
+      { timestamp: '2025-01-02T12:00:00.000Z', equity: 1111 },
+    ]);
+    check('按 UTC 日收盘净值计算日收益', returns.length === 1 && near(returns[0], 0.1));
+
+    const risk = analytics.computeRiskMetrics(equity);
+    check('最大回撤和当前回撤', near(risk.maxDrawdownPercent, 10) && near(risk.currentDrawdownPercent, 5));
+    check('总收益和年化收益', near(risk.totalReturnPercent, 6.4) && near(risk.days, 6) && near(risk.annualReturnPercent, (1.064 ** (365 / 6) - 1) * 100, 1e-3));
+    check('卡玛比率 = 年化收益 / 最大回撤', near(risk.calmarRatio, (risk.annualReturnPercent as number) / 10, 1e-9));
+    check('索提诺比率只惩罚下行波动', (risk.sortinoRatio as number) > 0 && (risk.downsideDeviationPercent as number) < (risk.annualVolatilityPercent as number));
+    check('数据不足时指标为 null', analytics.computeRiskMetrics(equity.slice(0, 1)).sharpeRatio === null);
+
+    // ========== 4. 从数据库加载 ==========
+    console.log('\n=== 测试4: 从数据库加载 ===');
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+    const exec = (sql: string) => client.execute({ sql, args: [] });
+    // 有开仓快照的持仓
+    await exec(`INSERT INTO position_entries (account_id, position_order_id, symbol, side, entry_price, quantity, leverage, initial_stop_loss,
+                strategy_type, market_state, opened_at) VALUES ('acct-1', 'o1', 'BTC', 'long', 100, 4, 5, 95, 'breakout', 'uptrend_oversold', '2025-01-01T00:00:00.000Z')`);
+    await exec(`INSERT INTO price_orders (account_id, order_id, position_order_id, symbol, side, type, trigger_price, order_price, quantity, status, created_at)
+                VALUES ('acct-1', 'sl-moved', 'o1', 'BTC', 'long', 'stop_loss', 99, 0, 4, 'cancelled', '2025-01-01T00:00:00.000Z')`);
+    // 无快照的历史持仓：开仓时间取开仓成交记录，初始止损取最早的止损条件单
+    await exec(`INSERT INTO trades (account_id, order_id, symbol, side, type, price, quantity, leverage, timestamp, status)
+                VALUES ('acct-1', 'o2', 'ETH', 'short', 'open', 3000, 1, 3, '2025-01-02T06:00:00.000Z', 'filled')`);
+    await exec(`INSERT INTO price_orders (account_id, order_id, position_order_id, symbol, side, type, trigger_price, order_price, quantity, status, created_at)
+                VALUES ('acct-1', 'sl-1', 'o2', 'ETH', 'short', 'stop_loss', 3100, 0, 1, 'cancelled', '2025-01-02T06:00:00.000Z'),
+                       ('acct-1', 'sl-2', 'o2', 'ETH', 'short', 'stop_loss', 3050, 0, 1, 'triggered', '2025-01-02T08:00:00.000Z')`);
+    // 仍持有的持仓的部分平仓：属性取自 positions
+    await exec(`INSERT INTO positions (account_id, symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl, leverage, side,
+                entry_order_id, opened_at, strategy_type, metadata) VALUES ('acct-1', 'SOL', 5, 200, 210, 150, 50, 2, 'long', 'o3',
+                '2025-01-03T00:00:00.000Z', 'mean_reversion', '{"marketState":"ranging_oversold"}')`);
+    const closeEvent = (account: string, symbol: string, side: string, close: number, entry: number, qty: number, pnl: number, orderId: string, at: string) =>
+      exec(`INSERT INTO position_close_events (account_id, symbol, side, close_reason, trigger_type, close_price, entry_price, quantity, leverage, pnl, pnl_percent, fee, position_order_id, created_at)
+            VALUES ('${account}', '${symbol}', '${side}', 'ai_decision', 'ai_decision', ${close}, ${entry}, ${qty}, 3, ${pnl}, 0, 0.5, '${orderId}', '${at}')`);
+    await closeEvent('acct-1', 'BTC', 'long', 110, 100, 2, 20, 'o1', '2025-01-01T05:00:00.000Z');
+    await closeEvent('acct-1', 'BTC', 'long', 105, 100, 2, 10, 'o1', '2025-01-01T06:00:00.000Z');
+    await closeEvent('acct-1', 'ETH', 'short', 3200, 3000, 1, -200, 'o2', '2025-01-02T10:00:00.000Z');
+    await closeEvent('acct-1', 'SOL', 'long', 220, 200, 5, 100, 'o3', '2025-01-03T12:00:00.000Z');
+    await closeEvent('acct-2', 'BTC', 'long', 90, 100, 1, -10, 'x1', '2025-01-01T05:00:00.000Z');
+    await exec(`INSERT INTO account_history (account_id, timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent)
+                VALUES ('acct-1', '2025-01-01T00:00:00.000Z', 1000, 1000, 0, 0, 0), ('acct-1', '2025-01-02T00:00:00.000Z', 1030, 1030, 0, 30, 3),
+                       ('acct-1', '2025-01-03T00:00:00.000Z', 830, 830, 0, -170, -17), ('acct-2', '2025-01-01T00:00:00.000Z', 50, 50, 0, 0, 0)`);
+
+    const account = { id: 'acct-1', name: 'acct-1', exchangeName: 'paper' as const, symbols: ['BTC', 'ETH', 'SOL'], riskOverrides: {} };
+    const loaded = await runWithAccount(account, () => analytics.loadClosedTrades(client));
+    const bySym = Object.fromEntries(loaded.map(t => [t.symbol, t]));
+    check('只加载当前账户并按持仓合并', loaded.length === 3 && bySym.BTC.pnl === 30 && bySym.BTC.fee === 1);
+    check('使用开仓快照的初始止损（不受后续移动止损影响）', near(bySym.BTC.rMultiple, 1.5) && bySym.BTC.strategyType === 'breakout' && bySym.BTC.marketState === 'uptrend_oversold');
+    check('无快照时回退到开仓成交时间和最早止损单', bySym.ETH.openedAt === '2025-01-02T06:00:00.000Z' && bySym.ETH.initialStopLoss === 3100 && near(bySym.ETH.rMultiple, -2));
+    check('仍持有的持仓从 positions 读取属性', bySym.SOL.strategyType === 'mean_reversion' && bySym.SOL.marketState === 'ranging_oversold' && near(bySym.SOL.holdingHours, 12));
+
+    const recent = await runWithAccount(account, () => analytics.loadClosedTrades(client, '2025-01-02T00:00:00.000Z'));
+    check('按时间区间过滤', recent.map(t => t.symbol).join(',') === 'ETH,SOL');
+
+    const report = await runWithAccount(account, () => analytics.generatePerformanceReport(client));
+    check('报告包含净值曲线风险指标', near(report.risk.maxDrawdownPercent, (1030 - 830) / 1030 * 100) && report.drawdowns.length === 1);
+    check('报告包含全部分组维度', analytics.BREAKDOWN_DIMENSIONS.every(d => Array.isArray(report.breakdowns[d])) && report.breakdowns.strategy_type.length === 3);
+    check('报告可序列化为 JSON', JSON.parse(JSON.stringify(report)).performance.trades === 3);
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
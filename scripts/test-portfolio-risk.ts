@@ -0,0 +1,199 @@
+/**
+ * 组合风险引擎测试脚本
+ * 验证收益率相关性计算、敞口统计，以及开仓订单按组合限制缩减或拒绝
+ */
+
+import type { IExchangeClient } from '../src/exchanges/IExchangeClient';
+import {
+  assessPortfolio,
+  buildCorrelationMatrix,
+  computeExposure,
+  evaluatePortfolioOrder,
+  formatPortfolioRisk,
+  getCorrelation,
+  pearsonCorrelation,
+  resetCorrelationCache,
+  type PortfolioPosition,
+  type PortfolioRiskLimits,
+  type PortfolioRiskSnapshot,
+} from '../src/services/portfolioRiskEngine';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+// 固定种子的伪随机数，保证测试可重复
+let seed = 42;
+function random(): number {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648 - 0.5;
+}
+
+const HOUR = 3600_000;
+const START = Date.UTC(2025, 0, 1);
+const base = Array.from({ length: 80 }, () => random() * 0.02);
+const noiseA = Array.from({ length: 80 }, () => random() * 0.002);
+const noiseB = Array.from({ length: 80 }, () => random() * 0.02);
+
+function candles(returns: number[], startPrice: number, offset: number = 0) {
+  let price = startPrice;
+  return returns.map((r, i) => {
+    price *= Math.exp(r);
+    return { timestamp: START + (i + offset) * HOUR, open: '0', high: '0', low: '0', close: price.toString(), volume: '0' };
+  });
+}
+
+const series: Record<string, ReturnType<typeof candles>> = {
+  BTC: candles(base, 100000),
+  ETH: candles(base.map((r, i) => r + noiseA[i]), 3000),
+  SOL: candles(noiseB, 200),
+  XRP: candles(base.map((r, i) => -r + noiseA[i]), 2),
+  DOGE: candles(base.slice(0, 10), 0.3),
+};
+
+const limits: PortfolioRiskLimits = {
+  maxGrossExposureRatio: 10,
+  maxNetExposureRatio: 6,
+  maxDirectionExposureRatio: 8,
+  maxMarginAtRiskPercent: 80,
+  correlationThreshold: 0.7,
+  maxCorrelatedPositions: 2,
+  maxCorrelatedExposureRatio: 5,
+  minOrderScale: 0.3,
+};
+
+async function main() {
+  console.log('🧪 组合风险引擎测试\n');
+
+  // ========== 1. 相关性 ==========
+  console.log('=== 测试1: 收益率相关性 ===');
+  check('完全正相关', Math.abs((pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8]) ?? 0) - 1) < 1e-12);
+  check('完全负相关', Math.abs((pearsonCorrelation([1, 2, 3, 4], [4, 3, 2, 1]) ?? 0) + 1) < 1e-12);
+  check('方差为0时未知', pearsonCorrelation([1, 1, 1, 1], [1, 2, 3, 4]) === null);
+
+  const matrix = buildCorrelationMatrix(series);
+  const btcEth = getCorrelation(matrix, 'BTC', 'ETH') ?? 0;
+  const btcSol = getCorrelation(matrix, 'BTC', 'SOL') ?? 1;
+  const btcXrp = getCorrelation(matrix, 'BTC', 'XRP') ?? 0;
+  check('同步波动的币种高度正相关', btcEth > 0.95, `ρ=${btcEth}`);
+  check('独立波动的币种低相关', Math.abs(btcSol) < 0.4, `ρ=${btcSol}`);
+  check('反向波动的币种高度负相关', btcXrp < -0.95, `ρ=${btcXrp}`);
+  check('矩阵对称', getCorrelation(matrix, 'ETH', 'BTC') === btcEth);
+  check('样本不足时相关性未知', getCorrelation(matrix, 'BTC', 'DOGE') === null);
+
+  const shifted = buildCorrelationMatrix({ BTC: series.BTC, ETH: candles(base.map((r, i) => r + noiseA[i]), 3000, 65) });
+  check('按时间戳对齐，重叠不足时不计算', getCorrelation(shifted, 'BTC', 'ETH') === null);
+
+  // ========== 2. 敞口统计 ==========
+  console.log('\n=== 测试2: 敞口统计 ===');
+  const positions: PortfolioPosition[] = [
+    { symbol: 'BTC', side: 'long', notional: 3000, margin: 300 },
+    { symbol: 'SOL', side: 'short', notional: 1000, margin: 200 },
+  ];
+  const exposure = computeExposure(positions, 1000);
+  check('总敞口与净敞口', exposure.grossNotional === 4000 && exposure.netNotional === 2000);
+  check('分方向敞口', exposure.longNotional === 3000 && exposure.shortNotional === 1000 && exposure.longRatio === 3);
+  check('占用保证金比例', exposure.marginUsed === 500 && exposure.marginAtRiskPercent === 50);
+
+  // ========== 3. 开仓评估 ==========
+  console.log('\n=== 测试3: 开仓评估 ===');
+  const snapshot = (held: PortfolioPosition[], overrides: Partial<PortfolioRiskLimits> = {}): PortfolioRiskSnapshot => ({
+    exposure: computeExposure(held, 1000),
+    positions: held,
+    correlations: matrix,
+    limits: { ...limits, ...overrides },
+  });
+
+  const free = evaluatePortfolioOrder(snapshot(positions), { symbol: 'ETH', side: 'short', notional: 1000, margin: 100 });
+  check('限制内的订单原样通过', free.allowed && free.scale === 1 && free.margin === 100);
+
+  const correlatedHeld: PortfolioPosition[] = [
+    { symbol: 'BTC', side: 'long', notional: 1000, margin: 100 },
+    { symbol: 'XRP', side: 'short', notional: 1000, margin: 100 },
+  ];
+  const stacked = evaluatePortfolioOrder(snapshot(correlatedHeld), { symbol: 'ETH', side: 'long', notional: 1000, margin: 100 });
+  check('同向高相关持仓数超限时拒绝', !stacked.allowed && stacked.reasons[0].includes('高度相关'), stacked.reasons.join('；'));
+  check('负相关币种的反向持仓计入同一风险敞口', stacked.correlatedPositions.map(p => p.symbol).sort().join(',') === 'BTC,XRP');
+
+  const hedge = evaluatePortfolioOrder(snapshot(correlatedHeld), { symbol: 'ETH', side: 'short', notional: 1000, margin: 100 });
+  check('反向对冲不计入相关持仓', hedge.allowed && hedge.correlatedPositions.length === 0);
+
+  const heavy: PortfolioPosition[] = [{ symbol: 'BTC', side: 'long', notional: 4500, margin: 450 }];
+  const shrunk = evaluatePortfolioOrder(snapshot(heavy), { symbol: 'ETH', side: 'long', notional: 1000, margin: 100 });
+  check('相关敞口超限时缩减仓位',
+    shrunk.allowed && shrunk.scale < 1 && shrunk.reasons.some(r => r.includes('相关敞口')), shrunk.reasons.join('；'));
+  check('缩减后保证金同比例下降', Math.abs(shrunk.margin - shrunk.notional / 10) < 1e-9);
+  check('缩减后相关敞口恰好达到上限', Math.abs(4500 * (getCorrelation(matrix, 'ETH', 'BTC') ?? 0) + shrunk.notional - 5000) < 1e-6);
+
+  const net = evaluatePortfolioOrder(snapshot(heavy, { maxNetExposureRatio: 4.7 }), { symbol: 'SOL', side: 'long', notional: 1000, margin: 100 });
+  check('净敞口剩余额度不足最小比例时拒绝', !net.allowed && net.reasons.some(r => r.includes('净敞口')), net.reasons.join('；'));
+  const netShort = evaluatePortfolioOrder(snapshot(heavy, { maxNetExposureRatio: 4.7 }), { symbol: 'SOL', side: 'short', notional: 1000, margin: 100 });
+  check('降低净敞口的反向订单不受净敞口限制', netShort.allowed && netShort.scale === 1);
+
+  const direction = evaluatePortfolioOrder(snapshot(heavy, { maxDirectionExposureRatio: 5 }), { symbol: 'SOL', side: 'long', notional: 1000, margin: 100 });
+  check('单方向敞口超限时缩减', direction.allowed && Math.abs(direction.notional - 500) < 1e-9);
+
+  const margin = evaluatePortfolioOrder(snapshot(heavy, { maxMarginAtRiskPercent: 50 }), { symbol: 'SOL', side: 'short', notional: 1000, margin: 100 });
+  check('占用保证金超限时按杠杆换算缩减', margin.allowed && Math.abs(margin.margin - 50) < 1e-9 && Math.abs(margin.notional - 500) < 1e-9);
+
+  const gross = evaluatePortfolioOrder(snapshot(heavy, { maxGrossExposureRatio: 4.6 }), { symbol: 'SOL', side: 'short', notional: 1000, margin: 100 });
+  check('总敞口几乎用尽时拒绝', !gross.allowed && gross.reasons.some(r => r.includes('总敞口')));
+
+  const noEquity = evaluatePortfolioOrder({ ...snapshot([]), exposure: computeExposure([], 0) }, { symbol: 'BTC', side: 'long', notional: 100, margin: 10 });
+  check('净值异常时拒绝', !noEquity.allowed);
+
+  // ========== 4. 加载行情与提示词 ==========
+  console.log('\n=== 测试4: 加载行情与提示词 ===');
+  let candleCalls = 0;
+  const client = {
+    getExchangeName: () => 'fake',
+    normalizeContract: (symbol: string) => `${symbol}_USDT`,
+    getFuturesCandles: async (contract: string, interval: string, limit: number) => {
+      candleCalls++;
+      const symbol = contract.replace('_USDT', '');
+      if (symbol === 'SOL') {
+        throw new Error('rate limited');
+      }
+      return interval === '1h' ? (series[symbol] ?? []).slice(-limit) : [];
+    },
+  } as unknown as IExchangeClient;
+
+  resetCorrelationCache();
+  const held: PortfolioPosition[] = [
+    { symbol: 'BTC', side: 'long', notional: 2000, margin: 200 },
+    { symbol: 'ETH', side: 'long', notional: 1500, margin: 150 },
+    { symbol: 'XRP', side: 'long', notional: 500, margin: 50 },
+  ];
+  const assessed = await assessPortfolio(client, held, 1000, limits);
+  check('从交易所K线计算相关性', (getCorrelation(assessed.correlations, 'BTC', 'ETH') ?? 0) > 0.95);
+  check('单个币种K线失败时跳过', !('SOL' in assessed.correlations) && 'BTC' in assessed.correlations);
+  const calls = candleCalls;
+  await assessPortfolio(client, held, 1000, limits);
+  check('相关性矩阵缓存复用', candleCalls === calls);
+
+  const text = formatPortfolioRisk(assessed);
+  check('提示词展示总敞口和净敞口', text.includes('总敞口: 4000.00 USDT (4.00x') && text.includes('净敞口: 4000.00 USDT (+4.00x'));
+  check('提示词展示同向高相关持仓', text.includes('BTC/ETH') && text.includes('风险叠加'));
+  check('提示词展示负相关同向持仓为对冲', text.includes('BTC/XRP') && text.includes('相互对冲'));
+  const compact = formatPortfolioRisk(assessed, true);
+  check('精简版提示词单行展示', compact.startsWith('【组合】总4.00x/10x') && compact.includes('BTC-ETH') && compact.split('\n').length === 2);
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
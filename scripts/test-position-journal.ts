@@ -0,0 +1,148 @@
+/**
+ * 持仓生命周期日志测试脚本
+ * 验证按开仓订单ID合并决策、开仓、止损移动、分批止盈、反转预警和平仓的时间线，以及未平仓状态和账户隔离
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function account(id: string) {
+  return { id, name: id, exchangeName: 'paper' as const, symbols: ['BTC', 'ETH'], riskOverrides: {} };
+}
+
+async function main() {
+  console.log('🧪 持仓生命周期日志测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'position-journal-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+
+  try {
+    const { loadPositionTimeline, recordPositionJournal } = await import('../src/services/positionJournal');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { createClient } = await import('@libsql/client');
+
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+
+    // 已平仓的 BTC 多单：开仓 → 止损上移 → 分批止盈 → 平仓
+    await client.executeMultiple(`
+      INSERT INTO position_entries (account_id, position_order_id, symbol, side, entry_price, quantity, leverage,
+        initial_stop_loss, initial_take_profit, market_state, strategy_type, signal_strength, opportunity_score, opened_at)
+      VALUES ('acct-1', 'open-1', 'BTC', 'long', 100000, 0.02, 5, 98000, 106000, 'uptrend_oversold', 'trend_following', 0.8, 76, '2025-01-01T00:00:00.000Z');
+      INSERT INTO trades (account_id, order_id, symbol, side, type, price, quantity, leverage, fee, timestamp, status)
+      VALUES ('acct-1', 'open-1', 'BTC', 'long', 'open', 100000, 0.02, 5, 1.0, '2025-01-01T00:00:00.000Z', 'filled');
+      INSERT INTO agent_decisions (account_id, timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
+      VALUES ('acct-1', '2024-12-31T23:50:00.000Z', 11, '{}', '观望', '[]', 1000, 0),
+             ('acct-1', '2025-01-01T00:01:00.000Z', 12, '{}', 'BTC 放量突破，开多', '[]', 1000, 1);
+      INSERT INTO structured_decisions (account_id, decision_id, timestamp, schema_version, raw_output, decision_json, guard_json, results_json)
+      VALUES ('acct-1', 2, '2025-01-01T00:01:00.000Z', 1, '', '{"summary":"突破","actions":[{"action":"open","symbol":"BTC","side":"long","confidence":0.72,"rationale":"放量突破前高"}]}', '{}', '[]');
+      INSERT INTO price_orders (account_id, order_id, position_order_id, symbol, side, type, trigger_price, quantity, status, created_at)
+      VALUES ('acct-1', 'sl-1', 'open-1', 'BTC', 'long', 'stop_loss', 98000, 0.02, 'cancelled', '2025-01-01T00:00:01.000Z'),
+             ('acct-1', 'tp-1', 'open-1', 'BTC', 'long', 'take_profit', 106000, 0.02, 'cancelled', '2025-01-01T00:00:01.000Z'),
+             ('acct-1', 'sl-2', 'open-1', 'BTC', 'long', 'stop_loss', 100500, 0.01, 'triggered', '2025-01-01T03:00:00.000Z');
+      INSERT INTO partial_take_profit_history (account_id, symbol, side, stage, r_multiple, trigger_price, close_percent,
+        closed_quantity, remaining_quantity, pnl, new_stop_loss_price, order_id, position_order_id, status, timestamp)
+      VALUES ('acct-1', 'BTC', 'long', 1, 1.5, 103000, 50, 0.01, 0.01, 30, 100500, 'close-1', 'open-1', 'completed', '2025-01-01T02:59:59.000Z');
+      INSERT INTO position_close_events (account_id, symbol, side, close_reason, trigger_type, close_price, entry_price,
+        quantity, leverage, pnl, pnl_percent, fee, order_id, position_order_id, created_at)
+      VALUES ('acct-1', 'BTC', 'long', 'partial_close', 'ai_decision', 103000, 100000, 0.01, 5, 30, 15, 0.5, 'close-1', 'open-1', '2025-01-01T02:59:59.000Z'),
+             ('acct-1', 'BTC', 'long', 'stop_loss_triggered', 'exchange_order', 100500, 100000, 0.01, 5, 5, 2.5, 0.4, 'close-2', 'open-1', '2025-01-01T05:00:00.000Z');
+    `);
+
+    await runWithAccount(account('acct-1'), async () => {
+      await recordPositionJournal(client, {
+        positionOrderId: 'open-1', symbol: 'BTC', side: 'long', eventType: 'reversal_warning',
+        price: 102000, details: { reversalScore: 45, pnlPercent: 10 },
+      });
+    });
+    // 固定预警时间（写入时使用当前时间）
+    await client.execute("UPDATE position_journal SET timestamp = '2025-01-01T04:00:00.000Z'");
+
+    // ========== 1. 已平仓持仓 ==========
+    console.log('=== 测试1: 已平仓持仓时间线 ===');
+    const timeline = await runWithAccount(account('acct-1'), () => loadPositionTimeline(client, 'open-1'));
+    check('找到持仓', !!timeline);
+    if (!timeline) {
+      throw new Error('时间线为空');
+    }
+    const types = timeline.events.map(e => e.type).join(',');
+    check('事件按生命周期排序',
+      types === 'decision,open,stop_loss,take_profit,partial_take_profit,stop_loss,reversal_warning,close', types);
+    check('状态为已平仓', timeline.status === 'closed' && timeline.closedAt === '2025-01-01T05:00:00.000Z');
+    check('开仓属性取自快照',
+      timeline.marketState === 'uptrend_oversold' && timeline.opportunityScore === 76 && timeline.initialStopLoss === 98000);
+
+    const decision = timeline.events[0];
+    check('开仓决策为开仓后的第一条决策', decision.details.iteration === 12, JSON.stringify(decision.details));
+    check('开仓决策附带结构化理由和置信度', decision.details.rationale === '放量突破前高' && decision.details.confidence === 0.72);
+
+    const open = timeline.events[1];
+    check('开仓事件含手续费和机会评分', open.fee === 1 && open.details.opportunityScore === 76 && open.details.strategyType === 'trend_following');
+
+    const stops = timeline.events.filter(e => e.type === 'stop_loss');
+    check('第一条止损为初始设置', stops[0].price === 98000 && stops[0].details.previousPrice === null);
+    check('后续止损记录移动前的价格', stops[1].price === 100500 && stops[1].details.previousPrice === 98000 && stops[1].details.status === 'triggered');
+
+    const partial = timeline.events.find(e => e.type === 'partial_take_profit');
+    check('分批止盈合并平仓事件的手续费', partial?.fee === 0.5 && partial?.details.rMultiple === 1.5);
+    check('分批止盈的平仓事件不重复显示', timeline.events.filter(e => e.type === 'close').length === 1);
+
+    const warning = timeline.events.find(e => e.type === 'reversal_warning');
+    check('反转预警来自持仓日志', warning?.price === 102000 && warning?.details.reversalScore === 45);
+
+    const close = timeline.events.at(-1);
+    check('最终平仓含原因和手续费', close?.details.closeReason === 'stop_loss_triggered' && close?.fee === 0.4);
+    check('已实现盈亏累计全部平仓事件', timeline.realizedPnl === 35);
+    check('总手续费含开仓和全部平仓', Math.abs(timeline.totalFee - 1.9) < 1e-9, String(timeline.totalFee));
+
+    // ========== 2. 未平仓持仓和回退 ==========
+    console.log('\n=== 测试2: 未平仓持仓 ===');
+    await client.executeMultiple(`
+      INSERT INTO positions (account_id, symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl,
+        leverage, side, stop_loss, entry_order_id, opened_at, market_state, opportunity_score, metadata)
+      VALUES ('acct-1', 'ETH', 1, 3000, 3050, 2500, 50, 3, 'short', 3100, 'open-2', '2025-01-02T00:00:00.000Z', NULL, 60, '{"marketState":"downtrend"}');
+      INSERT INTO price_orders (account_id, order_id, position_order_id, symbol, side, type, trigger_price, quantity, status, created_at)
+      VALUES ('acct-1', 'sl-3', 'open-2', 'ETH', 'short', 'stop_loss', 3100, 1, 'active', '2025-01-02T00:00:01.000Z');
+    `);
+    const openTimeline = await runWithAccount(account('acct-1'), () => loadPositionTimeline(client, 'open-2'));
+    check('无快照时回退到持仓记录', openTimeline?.side === 'short' && openTimeline?.entryPrice === 3000 && openTimeline?.opportunityScore === 60);
+    check('市场状态回退到 metadata', openTimeline?.marketState === 'downtrend');
+    check('初始止损回退到最早的止损条件单', openTimeline?.initialStopLoss === 3100);
+    check('未平仓持仓状态', openTimeline?.status === 'open' && openTimeline?.closedAt === null);
+    check('时间窗口外的决策不关联', !openTimeline?.events.some(e => e.type === 'decision'));
+
+    // ========== 3. 不存在和账户隔离 ==========
+    console.log('\n=== 测试3: 不存在和账户隔离 ===');
+    check('不存在的持仓返回 null', (await runWithAccount(account('acct-1'), () => loadPositionTimeline(client, 'missing'))) === null);
+    check('其他账户查不到', (await runWithAccount(account('acct-2'), () => loadPositionTimeline(client, 'open-1'))) === null);
+
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,202 @@
+/**
+ * 持仓锁服务测试脚本
+ * 验证多个操作并发争用同一持仓时只有一个获得锁、隔离令牌递增、租约过期接管与续期、可重入，以及按币种/方向/账户区分锁
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function main() {
+  console.log('🧪 持仓锁服务测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'position-lock-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+
+  try {
+    const { createClient } = await import('@libsql/client');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const {
+      acquirePositionLock,
+      withPositionLock,
+      getActivePositionLocks,
+      getPositionLockHolder,
+      PositionLockLostError,
+    } = await import('../src/services/positionLock');
+
+    // 两个客户端模拟不同的执行者（交易循环、条件单监控等各自持有连接）
+    const clientA = createClient({ url: process.env.DATABASE_URL });
+    const clientB = createClient({ url: process.env.DATABASE_URL });
+    await clientA.executeMultiple(CREATE_TABLES_SQL);
+
+    const account = (id: string) => ({ id, name: id, exchangeName: 'paper' as const, symbols: ['BTC', 'ETH'], riskOverrides: {} });
+
+    await runWithAccount(account('acct-1'), async () => {
+      // ========== 1. 并发争用 ==========
+      console.log('=== 测试1: 并发争用 ===');
+      const contenders = await Promise.all(
+        ['trading-loop', 'price-order-monitor', 'partial-take-profit', 'reversal-monitor'].map((owner, i) =>
+          acquirePositionLock(i % 2 === 0 ? clientA : clientB, { symbol: 'BTC', side: 'long', purpose: 'closing', owner })),
+      );
+      const winners = contenders.filter(c => c !== null);
+      check('并发获取同一持仓锁只有一个成功', winners.length === 1, `成功 ${winners.length} 个`);
+      const winner = winners[0]!;
+      check('首次获取令牌为 1', winner.lease.fencingToken === 1);
+      check('查询当前持有者', (await getPositionLockHolder(clientB, 'BTC_USDT', 'long')) === winner.lease.holder);
+
+      const busy = await withPositionLock(clientB, { symbol: 'BTC', side: 'long', purpose: 'closing', owner: 'reversal-monitor' }, async () => 'ran');
+      check('锁被占用时不执行并返回持有者', !busy.acquired && busy.holder === winner.lease.holder);
+
+      await winner.release();
+      const next = await acquirePositionLock(clientB, { symbol: 'BTC', side: 'long', purpose: 'closing', owner: 'price-order-monitor' });
+      check('释放后可重新获取且令牌递增', !!next && next.lease.fencingToken === 2);
+      let staleLost = false;
+      try {
+        await winner.verify();
+      } catch (error) {
+        staleLost = error instanceof PositionLockLostError;
+      }
+      check('已释放的租约校验失败', staleLost);
+      await next?.release();
+
+      // ========== 2. 租约过期与续期 ==========
+      console.log('\n=== 测试2: 租约过期与续期 ===');
+      // 模拟进程崩溃：持有者不再续期，租约到期
+      await clientA.execute({
+        sql: `INSERT INTO position_locks (account_id, symbol, side, holder, purpose, fencing_token, acquired_at, expires_at)
+              VALUES ('acct-1', 'ETH', 'short', 'crashed#1', 'closing', 5, '2025-01-01T00:00:00', ?)`,
+        args: [Date.now() + 100],
+      });
+      check('未过期的租约不能被获取',
+        (await acquirePositionLock(clientB, { symbol: 'ETH', side: 'short', purpose: 'closing', owner: 'trading-loop' })) === null);
+      await sleep(150);
+      const takeover = await acquirePositionLock(clientB, { symbol: 'ETH', side: 'short', purpose: 'closing', owner: 'trading-loop' });
+      check('过期租约可被接管且令牌递增', !!takeover && takeover.lease.fencingToken === 6);
+      await takeover?.release();
+
+      const short = await acquirePositionLock(clientA, { symbol: 'ETH', side: 'long', purpose: 'closing', owner: 'slow', ttlMs: 150 });
+      await sleep(400);
+      check('持有期间自动续期，超过 TTL 仍有效',
+        (await acquirePositionLock(clientB, { symbol: 'ETH', side: 'long', purpose: 'closing', owner: 'fast' })) === null);
+      let renewedValid = true;
+      try {
+        await short!.verify();
+      } catch {
+        renewedValid = false;
+      }
+      check('续期后租约校验通过', renewedValid);
+
+      // 续期被阻断后（如进程卡死），租约过期被接管，旧持有者下单前校验失败
+      await clientA.execute("UPDATE position_locks SET expires_at = 0 WHERE symbol = 'ETH' AND side = 'long'");
+      const stolen = await acquirePositionLock(clientB, { symbol: 'ETH', side: 'long', purpose: 'closing', owner: 'fast', ttlMs: 5000 });
+      let lostError: any = null;
+      try {
+        await short!.verify();
+      } catch (error) {
+        lostError = error;
+      }
+      check('租约被接管后旧持有者校验抛出 PositionLockLostError',
+        lostError instanceof PositionLockLostError && lostError.currentHolder === stolen?.lease.holder);
+      await short!.release();
+      check('旧持有者释放不影响新持有者', (await getPositionLockHolder(clientA, 'ETH', 'long')) === stolen?.lease.holder);
+      await sleep(200);
+      check('旧持有者停止续期', (await getPositionLockHolder(clientA, 'ETH', 'long')) === stolen?.lease.holder);
+      await stolen?.release();
+
+      // ========== 3. 可重入与锁粒度 ==========
+      console.log('\n=== 测试3: 可重入与锁粒度 ===');
+      const nested = await withPositionLock(clientA, { symbol: 'BTC', side: 'short', purpose: 'closing', owner: 'partial-tp-executor' }, async (lease) => {
+        // 执行器持锁期间调用的分批止盈工具再次获取同一把锁
+        const inner = await acquirePositionLock(clientA, { symbol: 'BTC_USDT', side: 'short', purpose: 'closing', owner: 'partial-take-profit' });
+        await inner?.release();
+        const stillHeld = (await getPositionLockHolder(clientB, 'BTC', 'short')) === lease.holder;
+        const otherSide = await acquirePositionLock(clientB, { symbol: 'BTC', side: 'long', purpose: 'opening', owner: 'open-position' });
+        const otherSymbol = await acquirePositionLock(clientB, { symbol: 'ETH', side: 'short', purpose: 'opening', owner: 'open-position' });
+        const active = await getActivePositionLocks(clientB);
+        await otherSide?.release();
+        await otherSymbol?.release();
+        return {
+          reentrant: !!inner && inner.reentrant && inner.lease.fencingToken === lease.fencingToken,
+          stillHeld,
+          independent: !!otherSide && !!otherSymbol,
+          active: active.map(l => `${l.symbol}_${l.side}:${l.purpose}`).join(','),
+        };
+      });
+      check('锁内再次获取同一把锁时复用外层租约', nested.acquired && nested.result.reentrant);
+      check('内层释放不影响外层持有', nested.acquired && nested.result.stillHeld);
+      check('不同方向、不同币种的锁互不影响', nested.acquired && nested.result.independent);
+      check('列出当前账户的活跃锁', nested.acquired && nested.result.active === 'BTC_long:opening,BTC_short:closing,ETH_short:opening',
+        nested.acquired ? nested.result.active : '');
+      check('函数结束后释放锁', (await getPositionLockHolder(clientA, 'BTC', 'short')) === null);
+
+      const failedRun = await withPositionLock(clientA, { symbol: 'BTC', side: 'short', purpose: 'closing', owner: 'x' }, async () => {
+        throw new Error('下单失败');
+      }).catch((error: Error) => error.message);
+      check('函数抛出异常时仍释放锁', failedRun === '下单失败' && (await getPositionLockHolder(clientA, 'BTC', 'short')) === null);
+
+      // ========== 4. 临界区互斥 ==========
+      console.log('\n=== 测试4: 临界区互斥 ===');
+      let inside = 0;
+      let maxInside = 0;
+      let completed = 0;
+      const actors = ['trading-loop', 'price-order-monitor', 'partial-take-profit', 'reversal-monitor'];
+      await Promise.all(actors.map(async (owner, i) => {
+        for (let round = 0; round < 5; round++) {
+          const result = await withPositionLock(i % 2 === 0 ? clientA : clientB, { symbol: 'SOL', side: 'long', purpose: 'closing', owner }, async () => {
+            inside++;
+            maxInside = Math.max(maxInside, inside);
+            await sleep(5);
+            inside--;
+          });
+          if (result.acquired) completed++;
+          await sleep(1 + i);
+        }
+      }));
+      check('并发执行的临界区从不重叠', maxInside === 1, `最大并发 ${maxInside}`);
+      check('锁空闲后其他执行者可继续获取', completed > 1, `完成 ${completed} 次`);
+    });
+
+    // ========== 5. 账户隔离 ==========
+    console.log('\n=== 测试5: 账户隔离 ===');
+    const acct1 = await runWithAccount(account('acct-1'), () =>
+      acquirePositionLock(clientA, { symbol: 'BTC', side: 'long', purpose: 'closing', owner: 'a' }));
+    const acct2 = await runWithAccount(account('acct-2'), () =>
+      acquirePositionLock(clientB, { symbol: 'BTC', side: 'long', purpose: 'closing', owner: 'b' }));
+    check('不同账户的同一持仓锁互不影响', !!acct1 && !!acct2);
+    const acct2Locks = await runWithAccount(account('acct-2'), () => getActivePositionLocks(clientA));
+    check('活跃锁只列出当前账户', acct2Locks.length === 1 && acct2Locks[0].holder === acct2?.lease.holder);
+    await acct1?.release();
+    await acct2?.release();
+
+    clientA.close();
+    clientB.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
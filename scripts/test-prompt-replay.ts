@@ -0,0 +1,178 @@
+/**
+ * 提示词回放测试脚本
+ * 验证快照保存与加载、工具调用提取、桩工具按记录结果回放，以及工具调用序列对比
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function inputs(iteration: number) {
+  return {
+    minutesElapsed: iteration * 5,
+    iteration,
+    intervalMinutes: 5,
+    marketData: { BTC: { price: 100000 } },
+    accountInfo: { totalBalance: 1000, availableBalance: 800 },
+    positions: [{ symbol: 'ETH', side: 'long', current_price: 3000 }],
+    tradeHistory: [],
+    recentDecisions: [{ iteration: iteration - 1, decision: '观望' }],
+    closeEvents: [],
+    portfolioRisk: null,
+    tradingState: null,
+  };
+}
+
+async function main() {
+  console.log('🧪 提示词回放测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'prompt-replay-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+
+  try {
+    const { savePromptSnapshot, completePromptSnapshot, loadPromptSnapshots } = await import('../src/replay/promptSnapshots');
+    const { extractToolCalls, createReplayToolExecutor, createStubTools } = await import('../src/replay/replayTools');
+    const { diffToolCalls, formatToolCallDiff } = await import('../src/replay/toolCallDiff');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { createClient } = await import('@libsql/client');
+    const { createTool } = await import('@voltagent/core');
+    const { z } = await import('zod');
+
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+    const account = (id: string) => ({ id, name: id, exchangeName: 'paper' as const, symbols: ['BTC', 'ETH'], riskOverrides: {} });
+
+    // ========== 1. 工具调用提取 ==========
+    console.log('=== 测试1: 工具调用提取 ===');
+    const aiSteps = [
+      {
+        toolCalls: [
+          { toolCallId: 'c1', toolName: 'getMarketPrice', input: { symbol: 'BTC' } },
+          { toolCallId: 'c2', toolName: 'openPosition', input: { symbol: 'BTC', side: 'long', leverage: 5, amountUsdt: 150 } },
+        ],
+        toolResults: [
+          { toolCallId: 'c1', output: { price: 100000 } },
+          { toolCallId: 'c2', output: { success: true, orderId: 'o-1' } },
+        ],
+      },
+      { text: '完成' },
+    ];
+    const ruleSteps = [
+      { toolCalls: [{ toolCallId: 'r1', toolName: 'closePosition', args: { symbol: 'ETH', percentage: 100 } }], toolResults: [{ toolCallId: 'r1', result: { success: true } }] },
+    ];
+    const recorded = extractToolCalls([...aiSteps, ...ruleSteps]);
+    check('按顺序提取 AI SDK 与规则引擎的工具调用', recorded.map(c => c.tool).join(',') === 'getMarketPrice,openPosition,closePosition');
+    check('提取参数和结果', recorded[1].args.leverage === 5 && (recorded[1].result as any).orderId === 'o-1' && (recorded[2].result as any).success === true);
+
+    // ========== 2. 快照存储 ==========
+    console.log('\n=== 测试2: 快照存储 ===');
+    const ids: number[] = [];
+    await runWithAccount(account('acct-1'), async () => {
+      for (const iteration of [1, 2, 3]) {
+        const id = await savePromptSnapshot(client, { inputs: inputs(iteration), prompt: `提示词 ${iteration}`, promptMode: 'compact', decisionMode: 'ai', strategy: 'balanced' });
+        if (id !== null) ids.push(id);
+      }
+      const decision = await client.execute(`INSERT INTO agent_decisions (account_id, timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
+        VALUES ('acct-1', '2025-01-01T00:00:00', 1, '{}', '开多 BTC', '[]', 1000, 1)`);
+      await completePromptSnapshot(client, ids[0], { decisionId: Number(decision.lastInsertRowid), providerId: 'primary', model: 'x/model-a', toolCalls: recorded });
+    });
+    await runWithAccount(account('acct-2'), async () => {
+      await savePromptSnapshot(client, { inputs: inputs(9), prompt: '其他账户', promptMode: 'full', decisionMode: 'structured', strategy: 'aggressive' });
+      // 不能更新其他账户的快照
+      await completePromptSnapshot(client, ids[1], { decisionId: 1, providerId: 'x', model: 'x', toolCalls: [] });
+    });
+    check('保存快照返回ID', ids.length === 3);
+
+    const [first] = await loadPromptSnapshots(client, { ids: [ids[0]] });
+    check('快照保存完整输入', first.inputs.marketData.BTC.price === 100000 && first.inputs.recentDecisions.length === 1 && first.inputs.positions[0].symbol === 'ETH');
+    check('完成后关联决策、模型和工具调用',
+      first.decisionId !== null && first.providerId === 'primary' && first.model === 'x/model-a' && first.toolCalls?.length === 3);
+    const [second] = await loadPromptSnapshots(client, { ids: [ids[1]] });
+    check('未完成的快照没有工具调用', second.toolCalls === null && second.decisionId === null);
+    const byIds = await loadPromptSnapshots(client, { ids: [ids[2], ids[0]] });
+    check('按指定ID顺序加载', byIds.map(s => s.id).join(',') === `${ids[2]},${ids[0]}`);
+    const recent = await loadPromptSnapshots(client, { accountId: 'acct-1', limit: 2 });
+    check('按账户加载最近快照并按时间正序', recent.length === 2 && recent[0].iteration === 2 && recent[1].iteration === 3);
+    const all = await loadPromptSnapshots(client);
+    check('不指定账户时加载所有账户', all.length === 4 && all[3].accountId === 'acct-2' && all[3].promptMode === 'full');
+
+    // ========== 3. 桩工具 ==========
+    console.log('\n=== 测试3: 桩工具 ===');
+    const executor = createReplayToolExecutor([
+      ...recorded,
+      { tool: 'getMarketPrice', args: { symbol: 'ETH' }, result: { price: 3000 } },
+    ]);
+    check('参数相同时返回记录结果', (executor.execute('getMarketPrice', { symbol: 'BTC' }) as any).price === 100000);
+    check('同币种参数不同时返回记录结果',
+      (executor.execute('openPosition', { symbol: 'BTC', side: 'long', leverage: 3, amountUsdt: 100 }) as any).orderId === 'o-1');
+    check('交易操作没有记录时模拟成功', (executor.execute('openPosition', { symbol: 'SOL', side: 'short', leverage: 3, amountUsdt: 100 }) as any).replay === true);
+    const missing = executor.execute('getMarketPrice', { symbol: 'BTC' }) as any;
+    check('记录结果只使用一次，查询没有记录时返回失败', missing.success === false && missing.replay === true);
+    check('执行器记录回放的调用序列', executor.calls.length === 4 && executor.calls[2].args.symbol === 'SOL');
+
+    let realCalled = false;
+    const realTool = createTool({
+      name: 'getMarketPrice',
+      description: '获取市场价格',
+      parameters: z.object({ symbol: z.string() }),
+      execute: async () => {
+        realCalled = true;
+        return { price: 1 };
+      },
+    });
+    const stubExecutor = createReplayToolExecutor(recorded);
+    const [stub] = createStubTools([realTool], stubExecutor);
+    const stubResult = await stub.execute!({ symbol: 'BTC' }) as any;
+    check('桩工具保留名称、描述和参数定义', stub.name === realTool.name && stub.description === realTool.description && stub.parameters === realTool.parameters);
+    check('桩工具不调用真实实现', !realCalled && stubResult.price === 100000 && stubExecutor.calls.length === 1);
+
+    // ========== 4. 序列对比 ==========
+    console.log('\n=== 测试4: 序列对比 ===');
+    check('相同序列', diffToolCalls(recorded, recorded.map(c => ({ ...c }))).identical);
+    const replayed = [
+      { tool: 'getMarketPrice', args: { symbol: 'BTC' }, result: null },
+      { tool: 'getTechnicalIndicators', args: { symbol: 'BTC' }, result: null },
+      { tool: 'openPosition', args: { symbol: 'btc', side: 'long', leverage: 3, amountUsdt: 150.0001 }, result: null },
+    ];
+    const diff = diffToolCalls(recorded, replayed);
+    check('对齐后识别新增、删除和参数变化',
+      diff.entries.map(e => e.kind).join(',') === 'same,added,changed,removed' && !diff.identical,
+      diff.entries.map(e => `${e.kind}:${e.tool}`).join(','));
+    const changed = diff.entries.find(e => e.kind === 'changed');
+    check('只报告超出容差的参数变化（币种大小写不敏感）', changed?.argChanges.length === 1 && changed.argChanges[0].key === 'leverage');
+    check('统计差异数量', diff.counts.same === 1 && diff.counts.added === 1 && diff.counts.changed === 1 && diff.counts.removed === 1);
+    const actionsOnly = diffToolCalls(recorded, replayed, { actionsOnly: true });
+    check('只对比交易操作时忽略查询工具', actionsOnly.entries.map(e => e.kind).join(',') === 'changed,removed');
+    const text = formatToolCallDiff(diff);
+    check('格式化输出', text.includes('+ getTechnicalIndicators') && text.includes('leverage: 5 → 3') && text.includes('- closePosition'));
+    check('空序列一致', diffToolCalls([], []).identical && formatToolCallDiff(diffToolCalls([], [])).includes('无工具调用'));
+
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
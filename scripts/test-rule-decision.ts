@@ -0,0 +1,69 @@
+/**
+ * 规则决策测试脚本
+ * 验证规则引擎的开仓规划（杠杆限制、按评分插值的仓位、同一周期多次开仓扣除已占用保证金）
+ */
+
+import { calculatePositionSizePercent, planRuleEntry, type RuleEntryContext } from '../src/services/ruleEntryPlanner';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+const near = (a: number, b: number, eps = 1e-9) => Math.abs(a - b) < eps;
+
+const context: RuleEntryContext = {
+  riskParams: { MAX_LEVERAGE: 10 },
+  strategyParams: { leverageMin: 3, leverageMax: 8, positionSizeMin: 10, positionSizeMax: 20 },
+  minScore: 60,
+  accountInfo: { totalBalance: 1000, availableBalance: 1000 },
+};
+
+// ========== 1. 仓位和杠杆 ==========
+console.log('\n=== 测试1: 仓位和杠杆 ===');
+check('最低评分使用最小仓位', calculatePositionSizePercent(60, 60, 10, 20) === 10);
+check('满分使用最大仓位', calculatePositionSizePercent(100, 60, 10, 20) === 20);
+check('评分在区间内线性插值', near(calculatePositionSizePercent(80, 60, 10, 20), 15));
+check('超出区间的评分被截断', calculatePositionSizePercent(40, 60, 10, 20) === 10 && calculatePositionSizePercent(120, 60, 10, 20) === 20);
+
+const plan = planRuleEntry({ score: 80, recommendedLeverage: 5 }, context);
+check('按评分计算保证金', plan.leverage === 5 && near(plan.sizePercent, 15) && near(plan.amountUsdt, 150), JSON.stringify(plan));
+check('推荐杠杆超出策略上限时取上限', planRuleEntry({ score: 80, recommendedLeverage: 20 }, context).leverage === 8);
+check('未推荐杠杆时取策略下限', planRuleEntry({ score: 80 }, context).leverage === 3);
+check('杠杆不超过 MAX_LEVERAGE',
+  planRuleEntry({ score: 80, recommendedLeverage: 8 }, { ...context, riskParams: { MAX_LEVERAGE: 6 } }).leverage === 6);
+check('杠杆取整', planRuleEntry({ score: 80, recommendedLeverage: 4.6 }, context).leverage === 5);
+
+// ========== 2. 可用余额 ==========
+console.log('\n=== 测试2: 可用余额 ===');
+const lowBalance = { ...context, accountInfo: { totalBalance: 1000, availableBalance: 100 } };
+check('保证金不超过可用余额的 95%', near(planRuleEntry({ score: 100 }, lowBalance).amountUsdt, 95));
+
+// 同一周期连续开仓：每次开仓后扣除已占用的保证金
+const cycle = { ...context, accountInfo: { totalBalance: 1000, availableBalance: 400 } };
+let committed = 0;
+const amounts: number[] = [];
+for (const score of [100, 100, 100]) {
+  const entry = planRuleEntry({ score, recommendedLeverage: 5 }, cycle, committed);
+  if (entry.amountUsdt <= 0) {
+    break;
+  }
+  amounts.push(entry.amountUsdt);
+  committed += entry.amountUsdt;
+}
+check('后续开仓扣除已占用的保证金', amounts.length === 2 && near(amounts[0], 200) && near(amounts[1], 180), JSON.stringify(amounts));
+check('累计保证金不超过可用余额的 95%', near(committed, 380));
+check('余额用尽后停止开仓', planRuleEntry({ score: 100 }, cycle, committed).amountUsdt <= 0);
+
+console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+if (failed > 0) {
+  process.exit(1);
+}
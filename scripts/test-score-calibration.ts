@@ -0,0 +1,242 @@
+/**
+ * 评分校准测试脚本
+ * 验证评分快照记录与保留期、样本与平仓结果的关联、校准曲线与维度预测力、建议权重与阈值，以及版本化配置的激活、回滚和停用
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+const near = (a: number | null | undefined, b: number, eps = 1e-9) => a !== null && a !== undefined && Math.abs(a - b) < eps;
+
+const CURRENT_WEIGHTS = { signalStrength: 30, trendConsistency: 25, volatilityFit: 20, riskRewardRatio: 15, liquidity: 10 };
+
+function sample(overrides: Record<string, any> = {}): any {
+  return {
+    accountId: 'acct-1', positionOrderId: null, symbol: 'BTC', side: 'long', openedAt: null, closedAt: '2025-01-01T00:00:00.000Z',
+    pnl: 10, rMultiple: null, win: true, opportunityScore: null, strategy: 'balanced', strategyType: 'trend_following',
+    marketState: 'uptrend_oversold', factors: null, penalty: 0, weightsVersion: null, ...overrides,
+  };
+}
+
+async function main() {
+  console.log('🧪 评分校准测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'score-calibration-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+
+  try {
+    const { createClient } = await import('@libsql/client');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const { setSimulatedClock } = await import('../src/utils/timeUtils');
+    const { recordOpportunityScore, loadCalibrationSamples } = await import('../src/calibration/scoreSnapshots');
+    const calibration = await import('../src/calibration/scoreCalibration');
+    const configs = await import('../src/calibration/scoreWeightConfigs');
+
+    // ========== 1. 统计函数 ==========
+    console.log('=== 测试1: 统计函数 ===');
+    check('完全区分时 AUC 为 1', calibration.computeAuc([1, 2, 3, 4], [false, false, true, true]) === 1);
+    check('完全反向时 AUC 为 0', calibration.computeAuc([1, 2, 3, 4], [true, true, false, false]) === 0);
+    check('取值全部相同时 AUC 为 0.5', calibration.computeAuc([5, 5, 5, 5], [true, false, true, false]) === 0.5);
+    check('相同取值按平均秩计算', near(calibration.computeAuc([1, 2, 2, 3], [false, true, false, true]), 0.875));
+    check('只有一类结果时 AUC 为 null', calibration.computeAuc([1, 2], [true, true]) === null);
+    check('相关系数', near(calibration.computeCorrelation([1, 2, 3], [2, 4, 6]), 1) && calibration.computeCorrelation([1, 1, 1], [1, 2, 3]) === null);
+
+    const buckets = calibration.computeScoreBuckets([
+      sample({ opportunityScore: 71, pnl: 10, win: true, rMultiple: 1 }),
+      sample({ opportunityScore: 74.9, pnl: -5, win: false, rMultiple: -1 }),
+      sample({ opportunityScore: 82, pnl: 20, win: true }),
+      sample({ opportunityScore: null }),
+    ]);
+    check('按 5 分分段统计胜率和盈亏', buckets.map(b => `${b.label}:${b.trades}:${b.hitRate}`).join(',') === '70-75:2:50,80-85:1:100'
+      && buckets[0].averagePnl === 2.5 && buckets[0].averageR === 0 && buckets[1].averageR === null);
+
+    const normalized = calibration.normalizeWeights({ signalStrength: 50, trendConsistency: 30, volatilityFit: 1, riskRewardRatio: 0, liquidity: 19 });
+    const total = Object.values(normalized).reduce((s, v) => s + v, 0);
+    check('归一化权重合计 100 且每个维度不低于 5', total === 100 && Object.values(normalized).every(v => v >= 5), JSON.stringify(normalized));
+    check('当前权重归一化后不变', JSON.stringify(calibration.normalizeWeights(CURRENT_WEIGHTS)) === JSON.stringify(CURRENT_WEIGHTS));
+    check('按权重重新评分并扣除惩罚', calibration.rescoreSample(sample({
+      factors: { signalStrength: 1, trendConsistency: 0.5, volatilityFit: 1, riskRewardRatio: 0, liquidity: 1 }, penalty: 10,
+    }), CURRENT_WEIGHTS) === 62.5 && calibration.rescoreSample(sample(), CURRENT_WEIGHTS) === null);
+
+    // ========== 2. 校准建议 ==========
+    console.log('\n=== 测试2: 校准建议 ===');
+    // 信号强度决定盈亏（少量例外），流动性与结果无关，其余维度取值相同
+    const synthetic: any[] = [];
+    for (let i = 0; i < 80; i++) {
+      const signal = (i % 10) / 10 + 0.05;
+      const win = (signal > 0.45) !== (i % 20 === 7);
+      synthetic.push(sample({
+        pnl: win ? 10 : -8,
+        win,
+        opportunityScore: 60 + signal * 30,
+        factors: { signalStrength: signal, trendConsistency: 0.8, volatilityFit: 1, riskRewardRatio: 0.7, liquidity: ((i * 7) % 10) / 10 },
+      }));
+    }
+    const current = { weights: CURRENT_WEIGHTS, minScore: 75, version: null };
+    const result = calibration.calibrateStrategy('balanced', synthetic, current);
+    const signalDim = result.dimensions.find(d => d.dimension === 'signalStrength')!;
+    const trendDim = result.dimensions.find(d => d.dimension === 'trendConsistency')!;
+    check('有预测力的维度 AUC 明显高于 0.5', (signalDim.auc ?? 0) > 0.8 && (signalDim.correlation ?? 0) > 0.5, `${signalDim.auc}`);
+    check('取值相同的维度 AUC 为 0.5 且不拆分段', trendDim.auc === 0.5 && trendDim.correlation === null
+      && trendDim.buckets.length === 1 && trendDim.buckets[0].label === '全部' && trendDim.buckets[0].trades === 80);
+    check('维度按取值三等分，高分段胜率更高', signalDim.buckets.length === 3 && signalDim.buckets[2].hitRate > signalDim.buckets[0].hitRate);
+    check('机会评分校准曲线', result.scoreBuckets.length >= 5 && result.scoreBuckets[result.scoreBuckets.length - 1].hitRate > result.scoreBuckets[0].hitRate);
+
+    const suggestion = result.suggestion!;
+    const suggestedTotal = Object.values(suggestion.weights).reduce((s, v) => s + v, 0);
+    check('生成建议并按样本量收缩', !!suggestion && near(suggestion.shrinkage, 80 / 180));
+    check('有预测力的维度权重提高，无预测力的维度降低',
+      suggestion.weights.signalStrength > 30 && suggestion.weights.trendConsistency < 25 && suggestedTotal === 100, JSON.stringify(suggestion.weights));
+    check('建议阈值在当前阈值与最优阈值之间', suggestion.minScore >= 50 && suggestion.minScore <= 95, String(suggestion.minScore));
+    check('建议阈值内的样本胜率高于全部样本', suggestion.retained.hitRate > suggestion.baseline.hitRate
+      && suggestion.baseline.trades === 80, `${suggestion.retained.hitRate} vs ${suggestion.baseline.hitRate}`);
+
+    const noEdge = synthetic.map((s, i) => ({ ...s, factors: { ...s.factors, signalStrength: 0.5, liquidity: 0.5 }, win: i % 2 === 0, pnl: i % 2 === 0 ? 5 : -5 }));
+    const flat = calibration.calibrateStrategy('balanced', noEdge, current);
+    check('没有维度具备预测力时保持当前权重', JSON.stringify(flat.suggestion?.weights) === JSON.stringify(CURRENT_WEIGHTS));
+
+    const few = calibration.calibrateStrategy('balanced', synthetic.slice(0, 10), current);
+    check('样本不足时不生成建议', few.suggestion === null && few.note?.includes('样本不足') === true);
+    const allWins = calibration.calibrateStrategy('balanced', synthetic.filter(s => s.win), current, { minSamples: 5 });
+    check('全部盈利时不生成建议', allWins.suggestion === null && allWins.note?.includes('全部盈利') === true);
+
+    const report = calibration.buildCalibrationReport(
+      [...synthetic, sample({ strategy: null, opportunityScore: 90 }), sample({ strategy: 'aggressive', factors: synthetic[0].factors })],
+      { balanced: current, aggressive: { ...current, minScore: 70 }, conservative: current },
+    );
+    check('报告只包含有样本的策略', report.strategies.map(s => s.strategy).join(',') === 'balanced,aggressive'
+      && report.totalSamples === 82 && report.matchedSamples === 81 && report.scoredSamples === 81);
+    const text = calibration.formatCalibrationReport(report);
+    check('格式化报告', text.includes('机会评分校准曲线') && text.includes('策略 balanced') && text.includes('建议: 无（样本不足'));
+
+    // ========== 3. 评分快照与样本 ==========
+    console.log('\n=== 测试3: 评分快照与样本 ===');
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+    const account = (id: string) => ({ id, name: id, exchangeName: 'paper' as const, symbols: ['BTC', 'ETH'], riskOverrides: {} });
+    const factors = (signal: number) => ({ signalStrength: signal, trendConsistency: 0.8, volatilityFit: 1, riskRewardRatio: 0.7, liquidity: 0.6 });
+    const snapshot = (symbol: string, direction: 'long' | 'short', signal: number, totalScore: number) => ({
+      symbol, direction, strategy: 'balanced', strategyType: 'trend_following', marketState: 'uptrend_oversold',
+      totalScore, factors: factors(signal), penalty: 5, weightsVersion: null,
+    });
+    const at = (iso: string) => setSimulatedClock(() => Date.parse(iso));
+
+    await runWithAccount(account('acct-1'), async () => {
+      at('2025-03-01T00:00:00.000Z');
+      await recordOpportunityScore(client, snapshot('BTC', 'long', 0.5, 70));
+      at('2025-03-01T00:05:00.000Z');
+      await recordOpportunityScore(client, snapshot('BTC', 'long', 0.9, 85));
+      await recordOpportunityScore(client, snapshot('BTC', 'short', 0.2, 50));
+      at('2025-03-01T00:20:00.000Z');
+      await recordOpportunityScore(client, snapshot('BTC', 'long', 0.1, 40)); // 开仓之后的评分不计入
+      at('2025-03-01T08:00:00.000Z');
+      await recordOpportunityScore(client, snapshot('ETH', 'short', 0.7, 78));
+    });
+    await runWithAccount(account('acct-2'), () => recordOpportunityScore(client, snapshot('BTC', 'long', 0.3, 60)));
+    setSimulatedClock(null);
+
+    const exec = (sql: string) => client.execute({ sql, args: [] });
+    await exec(`INSERT INTO position_entries (account_id, position_order_id, symbol, side, entry_price, quantity, leverage, initial_stop_loss,
+                strategy_type, market_state, opportunity_score, opened_at)
+                VALUES ('acct-1', 'o1', 'BTC', 'long', 100, 2, 5, 95, 'trend_following', 'uptrend_oversold', 84, '2025-03-01T00:10:00.000Z'),
+                       ('acct-1', 'o2', 'ETH', 'short', 3000, 1, 3, 3100, 'trend_following', 'downtrend_overbought', 77, '2025-03-01T10:00:00.000Z')`);
+    const closeEvent = (account: string, symbol: string, side: string, close: number, entry: number, qty: number, pnl: number, orderId: string, time: string) =>
+      exec(`INSERT INTO position_close_events (account_id, symbol, side, close_reason, trigger_type, close_price, entry_price, quantity, leverage, pnl, pnl_percent, fee, position_order_id, created_at)
+            VALUES ('${account}', '${symbol}', '${side}', 'ai_decision', 'ai_decision', ${close}, ${entry}, ${qty}, 3, ${pnl}, 0, 0, '${orderId}', '${time}')`);
+    await closeEvent('acct-1', 'BTC', 'long', 110, 100, 1, 10, 'o1', '2025-03-01T02:00:00.000Z');
+    await closeEvent('acct-1', 'BTC', 'long', 90, 100, 1, -15, 'o1', '2025-03-01T03:00:00.000Z');
+    await closeEvent('acct-1', 'ETH', 'short', 2900, 3000, 1, 100, 'o2', '2025-03-01T12:00:00.000Z');
+
+    const samples = await runWithAccount(account('acct-1'), () => loadCalibrationSamples(client));
+    const btc = samples.find(s => s.symbol === 'BTC')!;
+    const eth = samples.find(s => s.symbol === 'ETH')!;
+    check('分批平仓合并为一个样本', samples.length === 2 && btc.pnl === -5 && !btc.win && eth.win);
+    check('关联开仓前最近一次同方向评分快照', btc.factors?.signalStrength === 0.9 && btc.penalty === 5 && btc.strategy === 'balanced');
+    check('机会评分取开仓快照中记录的值', btc.opportunityScore === 84 && eth.opportunityScore === 77);
+    check('超出匹配窗口的快照不关联', eth.factors === null && eth.strategy === null);
+    const wide = await runWithAccount(account('acct-1'), () => loadCalibrationSamples(client, { matchWindowMinutes: 180 }));
+    check('扩大匹配窗口后关联', wide.find(s => s.symbol === 'ETH')?.factors?.signalStrength === 0.7);
+    const acct2 = await runWithAccount(account('acct-2'), () => loadCalibrationSamples(client));
+    check('只加载当前账户的样本', acct2.length === 0);
+
+    await runWithAccount(account('acct-1'), async () => {
+      at('2025-06-15T00:00:00.000Z');
+      await recordOpportunityScore(client, snapshot('BTC', 'long', 0.4, 65));
+      setSimulatedClock(null);
+    });
+    const remaining = await client.execute("SELECT account_id, direction, scored_at FROM opportunity_scores WHERE symbol = 'BTC' ORDER BY id");
+    check('清理超过保留期的同币种同方向快照',
+      remaining.rows.map(r => `${r.account_id}:${r.direction}`).join(',') === 'acct-1:short,acct-2:long,acct-1:long', JSON.stringify(remaining.rows));
+
+    // ========== 4. 版本化配置 ==========
+    console.log('\n=== 测试4: 版本化配置 ===');
+    check('没有激活配置时返回 null', (await configs.getActiveScoreWeightConfig(client, 'balanced')) === null);
+    const v1 = await configs.saveScoreWeightSuggestions(client, [
+      { strategy: 'balanced', weights: suggestion.weights, minScore: suggestion.minScore, sampleCount: 80, report: { note: 'v1' } },
+      { strategy: 'aggressive', weights: CURRENT_WEIGHTS, minScore: 72, sampleCount: 40 },
+    ]);
+    const v2 = await configs.saveScoreWeightSuggestions(client, [
+      { strategy: 'balanced', weights: CURRENT_WEIGHTS, minScore: 78, sampleCount: 120 },
+    ]);
+    check('每次保存生成递增的版本号', v1 === 1 && v2 === 2);
+    const listed = await configs.listScoreWeightConfigs(client);
+    check('按版本倒序列出建议配置', listed.map(c => `v${c.version}:${c.strategy}:${c.status}`).join(',') === 'v2:balanced:suggested,v1:aggressive:suggested,v1:balanced:suggested'
+      && listed[2].report?.note === 'v1' && listed[1].report === null);
+    check('建议配置未激活前评分器不使用', (await configs.getActiveScoreWeightConfig(client, 'balanced')) === null);
+
+    configs.clearScoreWeightCache();
+    await configs.activateScoreWeightVersion(client, 1);
+    const active1 = await configs.getActiveScoreWeightConfig(client, 'balanced');
+    check('激活版本的全部策略', active1?.version === 1 && JSON.stringify(active1.weights) === JSON.stringify(suggestion.weights)
+      && (await configs.getActiveScoreWeightConfig(client, 'aggressive'))?.minScore === 72);
+
+    await configs.activateScoreWeightVersion(client, 2, ['balanced']);
+    const afterV2 = await configs.listScoreWeightConfigs(client, { strategy: 'balanced' });
+    check('激活新版本时同策略的旧版本停用', afterV2.map(c => `v${c.version}:${c.status}`).join(',') === 'v2:active,v1:retired'
+      && (await configs.getActiveScoreWeightConfig(client, 'balanced'))?.minScore === 78);
+    check('其他策略的激活配置不受影响', (await configs.getActiveScoreWeightConfig(client, 'aggressive'))?.version === 1);
+
+    await configs.activateScoreWeightVersion(client, 1, ['balanced']);
+    check('激活旧版本即回滚', (await configs.getActiveScoreWeightConfig(client, 'balanced'))?.version === 1);
+
+    await configs.getActiveScoreWeightConfig(client, 'aggressive');
+    await client.execute("UPDATE score_weight_configs SET status = 'retired' WHERE strategy = 'aggressive'");
+    check('激活配置缓存 1 分钟', (await configs.getActiveScoreWeightConfig(client, 'aggressive'))?.version === 1);
+    configs.clearScoreWeightCache();
+    check('清空缓存后重新读取', (await configs.getActiveScoreWeightConfig(client, 'aggressive')) === null);
+
+    check('停用后回到默认权重', (await configs.deactivateScoreWeights(client, 'balanced')) === 1
+      && (await configs.getActiveScoreWeightConfig(client, 'balanced')) === null);
+    const missing = await configs.activateScoreWeightVersion(client, 9).then(() => null, (error: Error) => error);
+    check('激活不存在的版本时报错', missing instanceof Error && missing.message.includes('9'));
+
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,214 @@
+/**
+ * 策略注册表测试脚本
+ * 验证内置策略的市场状态映射、插件校验、从目录加载自定义策略，以及候选结果按置信度选优
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function timeframe(price: number, overrides: Record<string, number> = {}) {
+  return { currentPrice: price, ema20: price * 0.99, ema50: price * 0.97, macd: 12, macdSignal: 8, rsi7: 45, rsi14: 50, atrRatio: 1, ...overrides };
+}
+
+const PLUGIN_SOURCE = `
+const keyMetrics = { rsi7: 50, rsi14: 50, macd: 0, ema20: 100, ema50: 100, price: 100, atrRatio: 1, priceDeviationFromEma20: 0 };
+
+export default [
+  {
+    id: 'funding_fade',
+    name: '资金费率反转',
+    marketStates: { ranging_neutral: ['short'], uptrend_overbought: ['short'] },
+    timeframes: ['SHORT', 'MEDIUM'],
+    signal: ({ symbol, direction, marketState, timeframes }) => ({
+      symbol, action: direction, confidence: 'high', signalStrength: 0.8, recommendedLeverage: 3,
+      marketState: marketState.state, strategyType: 'funding_fade',
+      reason: '资金费率过高 ' + Object.keys(timeframes).join('+'), keyMetrics,
+    }),
+  },
+  {
+    id: 'quiet',
+    name: '静默',
+    marketStates: { no_clear_signal: ['long'] },
+    timeframes: ['MEDIUM'],
+    signal: () => { throw new Error('不应调用'); },
+  },
+];
+`;
+
+async function main() {
+  console.log('🧪 策略注册表测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'strategy-registry-'));
+
+  try {
+    const {
+      getRegisteredStrategies,
+      getStrategiesForState,
+      getRequiredTimeframes,
+      registerStrategy,
+      unregisterStrategy,
+      selectBestStrategyResult,
+      loadStrategyPlugins,
+      initializeStrategyRegistry,
+      resetStrategyRegistry,
+      StrategyPluginError,
+    } = await import('../src/strategies/registry');
+
+    const describe = (state: any) => getStrategiesForState(state).map(c => `${c.strategy.id}:${c.direction}`).join(',');
+
+    // ========== 1. 内置策略 ==========
+    console.log('=== 测试1: 内置策略 ===');
+    check('注册四个内置策略', getRegisteredStrategies().map(s => s.id).join(',') === 'trend_following,mean_reversion,breakout,funding_carry');
+    check('上涨趋势超卖 -> 趋势跟踪做多', describe('uptrend_oversold') === 'trend_following:long');
+    check('下跌趋势超买 -> 趋势跟踪做空', describe('downtrend_overbought') === 'trend_following:short');
+    check('下跌趋势超卖 -> 均值回归做多', describe('downtrend_oversold') === 'mean_reversion:long');
+    check('上涨趋势超买 -> 均值回归做空', describe('uptrend_overbought') === 'mean_reversion:short');
+    check('震荡超卖/超买 -> 均值回归', describe('ranging_oversold') === 'mean_reversion:long' && describe('ranging_overbought') === 'mean_reversion:short');
+    check('趋势延续时趋势跟踪与突破竞争', describe('uptrend_continuation') === 'trend_following:long,breakout:long'
+      && describe('downtrend_continuation') === 'trend_following:short,breakout:short', describe('uptrend_continuation'));
+    check('震荡中性 -> 突破与资金费率套利双向', describe('ranging_neutral') === 'breakout:long,breakout:short,funding_carry:long,funding_carry:short');
+    check('资金费率套利声明需要资金费率', getStrategiesForState('ranging_neutral').filter(c => c.strategy.needsFunding).length === 2);
+    check('无明确信号 -> 无适用策略', describe('no_clear_signal') === '');
+    check('汇总所需时间框架', getRequiredTimeframes(getStrategiesForState('uptrend_continuation')).join(',') === 'SHORT_CONFIRM,MEDIUM');
+
+    const trend = getRegisteredStrategies()[0];
+    const marketState: any = { symbol: 'BTC', state: 'uptrend_continuation', keyMetrics: { rsi7_15m: 45, rsi14_15m: 50, price: 100, atr_ratio: 1, distanceToEMA20: 1 } };
+    const trendResult = await trend.signal({
+      symbol: 'BTC',
+      direction: 'long',
+      marketState,
+      timeframes: { SHORT_CONFIRM: timeframe(100), MEDIUM: timeframe(100) },
+    });
+    check('内置策略通过插件接口输出标准化结果', trendResult.strategyType === 'trend_following' && trendResult.symbol === 'BTC'
+      && ['long', 'wait'].includes(trendResult.action), JSON.stringify(trendResult.action));
+
+    // ========== 2. 插件校验 ==========
+    console.log('\n=== 测试2: 插件校验 ===');
+    const valid = { id: 'x', name: 'X', marketStates: { ranging_neutral: ['long'] }, timeframes: ['MEDIUM'], signal: () => trendResult };
+    const invalidPlugins: Array<[string, any]> = [
+      ['ID 与内置策略重复', { ...valid, id: 'breakout' }],
+      ['保留 ID none', { ...valid, id: 'none' }],
+      ['未知市场状态', { ...valid, marketStates: { sideways: ['long'] } }],
+      ['无效方向', { ...valid, marketStates: { ranging_neutral: ['both'] } }],
+      ['未声明市场状态', { ...valid, marketStates: {} }],
+      ['缺少时间框架', { ...valid, timeframes: [] }],
+      ['缺少信号函数', { ...valid, signal: undefined }],
+    ];
+    for (const [name, plugin] of invalidPlugins) {
+      let rejected = false;
+      try {
+        registerStrategy(plugin);
+      } catch (error) {
+        rejected = error instanceof StrategyPluginError;
+      }
+      check(`拒绝无效插件: ${name}`, rejected);
+    }
+    registerStrategy(valid as any);
+    check('代码注册的策略按注册顺序追加', describe('ranging_neutral') === 'breakout:long,breakout:short,funding_carry:long,funding_carry:short,x:long');
+    check('注销策略', unregisterStrategy('x') && describe('ranging_neutral') === 'breakout:long,breakout:short,funding_carry:long,funding_carry:short');
+
+    // ========== 3. 候选选优 ==========
+    console.log('\n=== 测试3: 候选选优 ===');
+    const candidate = (id: string, action: string, confidence: string, signalStrength: number) => ({ id, action, confidence, signalStrength }) as any;
+    check('有信号的候选优先于观望', selectBestStrategyResult([
+      candidate('a', 'wait', 'high', 0.9),
+      candidate('b', 'long', 'low', 0.3),
+    ])?.id === 'b');
+    check('置信度高的候选优先', selectBestStrategyResult([
+      candidate('a', 'long', 'medium', 0.69),
+      candidate('b', 'short', 'high', 0.7),
+    ])?.id === 'b');
+    check('置信度相同时比较信号强度', selectBestStrategyResult([
+      candidate('a', 'long', 'medium', 0.55),
+      candidate('b', 'long', 'medium', 0.65),
+    ])?.id === 'b');
+    check('完全相同时保留先注册的策略', selectBestStrategyResult([
+      candidate('a', 'long', 'medium', 0.6),
+      candidate('b', 'long', 'medium', 0.6),
+    ])?.id === 'a');
+    check('全部观望时返回信号最强的观望结果', selectBestStrategyResult([
+      candidate('a', 'wait', 'low', 0.2),
+      candidate('b', 'wait', 'low', 0.4),
+    ])?.id === 'b');
+    check('无候选时返回 null', selectBestStrategyResult([]) === null);
+
+    // ========== 4. 从目录加载 ==========
+    console.log('\n=== 测试4: 从目录加载 ===');
+    const pluginDir = join(dir, 'plugins');
+    mkdirSync(pluginDir);
+    writeFileSync(join(pluginDir, 'funding.ts'), PLUGIN_SOURCE);
+    writeFileSync(join(pluginDir, 'types.d.ts'), 'export {};');
+    writeFileSync(join(pluginDir, 'README.txt'), '忽略');
+
+    process.env.STRATEGY_PLUGINS_DIR = pluginDir;
+    await initializeStrategyRegistry();
+    await initializeStrategyRegistry();
+    check('按环境变量加载目录中的策略（只加载一次）',
+      getRegisteredStrategies().map(s => s.id).join(',') === 'trend_following,mean_reversion,breakout,funding_carry,funding_fade,quiet');
+    check('自定义策略参与状态匹配', describe('uptrend_overbought') === 'mean_reversion:short,funding_fade:short');
+    check('自定义策略声明的时间框架', getRequiredTimeframes(getStrategiesForState('ranging_neutral')).join(',') === 'SHORT_CONFIRM,MEDIUM,SHORT');
+
+    const funding = getStrategiesForState('ranging_neutral').find(c => c.strategy.id === 'funding_fade')!;
+    const fundingResult = await funding.strategy.signal({
+      symbol: 'ETH',
+      direction: funding.direction,
+      marketState: { ...marketState, state: 'ranging_neutral' },
+      timeframes: { SHORT: timeframe(100), MEDIUM: timeframe(100) },
+    });
+    check('自定义策略的信号函数', fundingResult.action === 'short' && fundingResult.reason === '资金费率过高 SHORT+MEDIUM');
+    check('高置信度的自定义策略胜过内置候选',
+      selectBestStrategyResult([{ ...trendResult, action: 'short', confidence: 'medium' as const }, fundingResult])?.strategyType === 'funding_fade');
+
+    let duplicateRejected = false;
+    try {
+      await loadStrategyPlugins(pluginDir);
+    } catch (error) {
+      duplicateRejected = error instanceof StrategyPluginError && error.message.includes('funding_fade');
+    }
+    check('重复加载同一目录时拒绝重复 ID', duplicateRejected);
+
+    resetStrategyRegistry();
+    check('重置后只保留内置策略', getRegisteredStrategies().length === 4);
+
+    const brokenDir = join(dir, 'broken');
+    mkdirSync(brokenDir);
+    writeFileSync(join(brokenDir, 'bad.ts'), "export default { id: 'bad', name: 'Bad', marketStates: { ranging_neutral: ['long'] }, timeframes: ['MEDIUM'] };");
+    process.env.STRATEGY_PLUGINS_DIR = brokenDir;
+    const brokenInit = await initializeStrategyRegistry().then(() => null, (error: Error) => error);
+    check('无效插件导致初始化失败', brokenInit instanceof StrategyPluginError && brokenInit.message.includes('bad.ts'), brokenInit?.message);
+
+    resetStrategyRegistry();
+    process.env.STRATEGY_PLUGINS_DIR = join(dir, 'missing');
+    const missingInit = await initializeStrategyRegistry().then(() => null, (error: Error) => error);
+    check('插件目录不存在时初始化失败', missingInit instanceof StrategyPluginError);
+
+    delete process.env.STRATEGY_PLUGINS_DIR;
+    resetStrategyRegistry();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
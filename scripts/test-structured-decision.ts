@@ -0,0 +1,150 @@
+/**
+ * 结构化决策测试脚本
+ * 验证决策对象的 zod 校验和开仓前风控检查（杠杆、仓位、持仓数、余额、止损止盈、置信度）
+ */
+
+import {
+  parseTradingDecision,
+  StructuredDecisionError,
+  type TradeAction,
+  type TradingDecision,
+} from '../src/agents/decisionSchema';
+import { checkTradingDecision, type PreTradeGuardContext } from '../src/services/preTradeGuard';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+function expectError(input: unknown): StructuredDecisionError | null {
+  try {
+    parseTradingDecision(input);
+    return null;
+  } catch (error) {
+    return error instanceof StructuredDecisionError ? error : null;
+  }
+}
+
+const context: PreTradeGuardContext = {
+  riskParams: {
+    TRADING_SYMBOLS: ['BTC', 'ETH', 'SOL'],
+    MAX_POSITIONS: 2,
+    MAX_LEVERAGE: 10,
+    MIN_STOP_LOSS_PERCENT: 0.5,
+    MAX_STOP_LOSS_PERCENT: 5,
+  },
+  strategyParams: { name: '平衡', leverageMin: 3, leverageMax: 8, positionSizeMin: 10, positionSizeMax: 20 },
+  accountInfo: { totalBalance: 1000, availableBalance: 800 },
+  positions: [{ symbol: 'ETH', side: 'long' }],
+  prices: { BTC: 100000, ETH: 3000, SOL: 200 },
+  minConfidence: 0.5,
+};
+
+function open(overrides: Partial<Extract<TradeAction, { action: 'open' }>> = {}): TradeAction {
+  return {
+    action: 'open', symbol: 'BTC', side: 'long', leverage: 5, sizeUsdt: 150,
+    stopLoss: 98000, takeProfit: 106000, confidence: 0.7, rationale: '突破',
+    ...overrides,
+  };
+}
+
+function guard(actions: TradeAction[], overrides: Partial<PreTradeGuardContext> = {}) {
+  const decision: TradingDecision = { summary: '测试', actions };
+  return checkTradingDecision(decision, { ...context, ...overrides });
+}
+
+function rejectedReason(actions: TradeAction[], overrides: Partial<PreTradeGuardContext> = {}): string {
+  return guard(actions, overrides).rejected.map(r => r.reasons.join('；')).join(' | ');
+}
+
+console.log('🧪 结构化决策测试\n');
+
+// ========== 1. 决策对象校验 ==========
+console.log('=== 测试1: 决策对象校验 ===');
+const reply = `分析完成，BTC 放量突破。
+
+\`\`\`json
+{"summary":"BTC 突破","actions":[
+  {"action":"open","symbol":"btc_usdt","side":"long","leverage":5,"sizeUsdt":150,"stopLoss":98000,"takeProfit":106000,"confidence":0.7,"rationale":"突破"},
+  {"action":"close","symbol":"ETH","confidence":0.8,"rationale":"反转"}
+]}
+\`\`\``;
+const parsed = parseTradingDecision(reply);
+check('从回复的 JSON 代码块解析决策', parsed.actions.length === 2 && parsed.summary === 'BTC 突破');
+check('币种代码归一化', parsed.actions[0].symbol === 'BTC');
+check('平仓百分比默认 100', parsed.actions[1].action === 'close' && parsed.actions[1].percentage === 100);
+check('无代码块时解析裸 JSON', parseTradingDecision('决策: {"summary":"观望","actions":[{"action":"hold","confidence":0.5,"rationale":"无信号"}]}').actions[0].action === 'hold');
+
+const missingStop = expectError({ summary: 's', actions: [{ action: 'open', symbol: 'BTC', side: 'long', leverage: 5, sizeUsdt: 100, takeProfit: 1, confidence: 0.5, rationale: 'r' }] });
+check('开仓缺少止损被拒绝', !!missingStop && missingStop.issues.some(i => i.startsWith('actions.0.stopLoss')), missingStop?.message);
+check('未知字段被拒绝', !!expectError({ summary: 's', actions: [], extra: 1 }));
+check('未知操作被拒绝', !!expectError({ summary: 's', actions: [{ action: 'hedge', symbol: 'BTC', confidence: 0.5, rationale: 'r' }] }));
+check('置信度超出范围被拒绝', !!expectError({ summary: 's', actions: [{ action: 'hold', confidence: 1.5, rationale: 'r' }] }));
+check('非整数杠杆被拒绝', !!expectError({ summary: 's', actions: [open({ leverage: 2.5 })] }));
+const notJson = expectError('今天市场不明朗，观望');
+check('没有 JSON 的回复被拒绝并保留原文', !!notJson && notJson.rawOutput === '今天市场不明朗，观望');
+
+// ========== 2. 开仓前风控检查 ==========
+console.log('\n=== 测试2: 开仓前风控检查 ===');
+check('合规开仓通过', guard([open()]).approved.length === 1);
+check('杠杆超出策略范围', rejectedReason([open({ leverage: 9 })]).includes('杠杆'));
+check('杠杆低于策略下限', rejectedReason([open({ leverage: 2 })]).includes('杠杆'));
+check('仓位占比超出策略范围', rejectedReason([open({ sizeUsdt: 500 })]).includes('保证金占比'));
+check('止损方向错误', rejectedReason([open({ stopLoss: 101000 })]).includes('多单止损应低于'));
+check('止损距离过大', rejectedReason([open({ stopLoss: 90000 })]).includes('止损距离'));
+check('止盈方向错误', rejectedReason([open({ side: 'short', stopLoss: 102000, takeProfit: 103000 })]).includes('空单止盈应低于'));
+check('置信度不足', rejectedReason([open({ confidence: 0.3 })]).includes('置信度'));
+check('币种不在交易列表', rejectedReason([open({ symbol: 'DOGE' })]).includes('不在交易币种列表'));
+check('已有持仓禁止开仓', rejectedReason([open({ symbol: 'ETH', stopLoss: 2950, takeProfit: 3200 })]).includes('已有多单持仓'));
+check('缺少价格无法校验', rejectedReason([open()], { prices: {} }).includes('缺少最新价格'));
+check('无持仓的平仓被拒绝', rejectedReason([{ action: 'close', symbol: 'SOL', percentage: 100, confidence: 0.9, rationale: 'r' }]).includes('没有持仓'));
+
+const full = guard([
+  open(),
+  open({ symbol: 'SOL', stopLoss: 195, takeProfit: 215 }),
+]);
+check('超过最大持仓数的开仓被拒绝', full.approved.length === 1 && full.rejected[0].reasons.some(r => r.includes('持仓数已达上限')));
+
+const freed = guard([
+  open({ symbol: 'SOL', stopLoss: 195, takeProfit: 215 }),
+  open(),
+  { action: 'close', symbol: 'ETH', percentage: 100, confidence: 0.9, rationale: '反转' },
+]);
+check('先平仓腾出仓位再开仓', freed.approved.length === 3 && freed.checks[0].action.action === 'close');
+
+const partialClose = guard([
+  { action: 'close', symbol: 'ETH', percentage: 50, confidence: 0.9, rationale: '分批止盈' },
+  open(),
+  open({ symbol: 'SOL', stopLoss: 195, takeProfit: 215 }),
+]);
+check('部分平仓不释放仓位', partialClose.approved.length === 2 && partialClose.rejected.length === 1);
+
+const balance = guard([
+  open({ sizeUsdt: 190 }),
+  open({ symbol: 'SOL', sizeUsdt: 190, stopLoss: 195, takeProfit: 215 }),
+], { accountInfo: { totalBalance: 1000, availableBalance: 300 }, positions: [] });
+check('累计保证金不超过可用余额', balance.approved.length === 1 && balance.rejected[0].reasons.some(r => r.includes('可用余额')));
+
+const duplicate = guard([open(), open({ side: 'short', stopLoss: 102000, takeProfit: 95000 })], { positions: [] });
+check('同币种每周期只允许一个操作', duplicate.approved.length === 1 && duplicate.rejected[0].reasons.some(r => r.includes('已有其他操作')));
+
+const adjust = guard([
+  { action: 'adjust', symbol: 'ETH', stopLoss: 2940, takeProfit: 3300, confidence: 0.6, rationale: '上移止损' },
+]);
+check('持仓止损调整通过', adjust.approved.length === 1);
+check('持仓止损调整方向错误被拒绝',
+  rejectedReason([{ action: 'adjust', symbol: 'ETH', stopLoss: 3050, takeProfit: 3300, confidence: 0.6, rationale: 'r' }]).includes('多单止损应低于'));
+check('观望始终通过', guard([{ action: 'hold', confidence: 0.1, rationale: '无信号' }]).approved.length === 1);
+
+console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+if (failed > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,154 @@
+/**
+ * 交易状态机（回撤熔断）测试脚本
+ * 验证峰值回撤、日内亏损、连续亏损驱动的状态切换、恢复缓冲、锁定状态、手动重置及持久化记录
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, condition: boolean, detail: string = '') {
+  if (condition) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name} ${detail}`);
+  }
+}
+
+async function main() {
+  console.log('🧪 交易状态机测试\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'trading-state-'));
+  process.env.DATABASE_URL = `file:${join(dir, 'test.db')}`;
+
+  try {
+    const {
+      canOpenNewPositions,
+      completeFlatten,
+      evaluateTradingState,
+      getPositionSizeFactor,
+      getTradingState,
+      getTradingStateTransitions,
+      resetTradingState,
+      resolveTradingState,
+    } = await import('../src/services/tradingStateMachine');
+    const { runWithAccount } = await import('../src/utils/accountContext');
+    const { CREATE_TABLES_SQL } = await import('../src/database/schema');
+    const { createClient } = await import('@libsql/client');
+
+    const thresholds = {
+      warningDrawdownPercent: 10,
+      noNewEntriesDrawdownPercent: 15,
+      flattenDrawdownPercent: 20,
+      dailyLossLimitPercent: 8,
+      cautiousConsecutiveLosses: 3,
+      maxConsecutiveLosses: 5,
+      recoveryBufferPercent: 2,
+    };
+    const metrics = (drawdownPercent: number, overrides: Record<string, number> = {}) => ({
+      equity: 1000, peakEquity: 1000, drawdownPercent, dayStartEquity: 1000, dailyLossPercent: 0, consecutiveLosses: 0, ...overrides,
+    });
+
+    // ========== 1. 状态转移规则 ==========
+    console.log('=== 测试1: 状态转移规则 ===');
+    check('无回撤保持正常', resolveTradingState('normal', metrics(3), thresholds).state === 'normal');
+    check('回撤达到警告阈值进入谨慎', resolveTradingState('normal', metrics(11), thresholds).state === 'cautious');
+    check('回撤达到禁止开仓阈值', resolveTradingState('normal', metrics(16), thresholds).state === 'no_new_entries');
+    check('回撤达到强制平仓阈值', resolveTradingState('cautious', metrics(21), thresholds).state === 'flatten');
+    check('日内亏损超限禁止开仓',
+      resolveTradingState('normal', metrics(5, { dailyLossPercent: 9 }), thresholds).reason.includes('日内亏损'));
+    check('连续亏损进入谨慎', resolveTradingState('normal', metrics(0, { consecutiveLosses: 3 }), thresholds).state === 'cautious');
+    check('连续亏损过多禁止开仓', resolveTradingState('normal', metrics(0, { consecutiveLosses: 5 }), thresholds).state === 'no_new_entries');
+    check('恢复缓冲内保持原状态', resolveTradingState('no_new_entries', metrics(14), thresholds).state === 'no_new_entries');
+    check('回落到缓冲以下降级', resolveTradingState('no_new_entries', metrics(12), thresholds).state === 'cautious');
+    check('完全恢复回到正常', resolveTradingState('cautious', metrics(7), thresholds).state === 'normal');
+    check('强制平仓状态锁定', resolveTradingState('flatten', metrics(0), thresholds).state === 'flatten');
+    check('停止交易状态锁定', resolveTradingState('halted', metrics(0), thresholds).state === 'halted');
+    check('开仓权限', canOpenNewPositions('cautious') && !canOpenNewPositions('no_new_entries') && !canOpenNewPositions('halted'));
+    check('谨慎状态缩减仓位', getPositionSizeFactor('normal') === 1 && getPositionSizeFactor('cautious') === 0.5);
+
+    // ========== 2. 持久化与指标 ==========
+    console.log('\n=== 测试2: 持久化与指标 ===');
+    const client = createClient({ url: process.env.DATABASE_URL });
+    await client.executeMultiple(CREATE_TABLES_SQL);
+    const account = { id: 'acct-1', name: 'acct-1', exchangeName: 'paper', symbols: ['BTC'], riskOverrides: {} };
+
+    await runWithAccount(account, async () => {
+      await client.execute(`INSERT INTO account_history (account_id, timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent)
+                            VALUES ('acct-1', '2020-01-01T00:00:00.000Z', 1200, 1200, 0, 0, 0),
+                                   ('other', '2020-01-01T00:00:00.000Z', 5000, 5000, 0, 0, 0)`);
+
+      check('未初始化时视为正常', (await getTradingState(client)).state === 'normal');
+
+      let evaluation = await evaluateTradingState(client, 1150, thresholds);
+      check('首次评估以当前净值为峰值，不回溯历史峰值', evaluation.metrics.peakEquity === 1150 && evaluation.metrics.drawdownPercent === 0);
+      check('首次评估保持正常且记录当日起始净值', evaluation.record.state === 'normal' && evaluation.record.dayStartEquity === 1150);
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await client.execute({
+        sql: `INSERT INTO account_history (account_id, timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent)
+              VALUES ('acct-1', ?, 1200, 1200, 0, 0, 0), ('other', ?, 5000, 5000, 0, 0, 0)`,
+        args: [new Date().toISOString(), new Date().toISOString()],
+      });
+      evaluation = await evaluateTradingState(client, 1150, thresholds);
+      check('峰值取自开始跟踪后本账户的账户历史', evaluation.metrics.peakEquity === 1200 && Math.abs(evaluation.metrics.drawdownPercent - 100 / 24) < 1e-9);
+
+      evaluation = await evaluateTradingState(client, 1070, thresholds);
+      check('日内亏损按当日起始净值计算', Math.abs(evaluation.metrics.dailyLossPercent - 80 / 11.5) < 1e-9);
+      check('回撤超过警告阈值切换为谨慎', evaluation.changed && evaluation.record.state === 'cautious', evaluation.record.reason);
+
+      for (const pnl of [5, -3, -4, -2, -6, -1]) {
+        await client.execute({
+          sql: `INSERT INTO position_close_events (account_id, symbol, side, close_reason, trigger_type, close_price, entry_price, quantity, leverage, pnl, pnl_percent, created_at)
+                VALUES ('acct-1', 'BTC', 'long', 'stop_loss_triggered', 'exchange_order', 1, 1, 1, 1, ?, 0, ?)`,
+          args: [pnl, new Date().toISOString()],
+        });
+      }
+      evaluation = await evaluateTradingState(client, 1070, thresholds);
+      check('连续亏损遇到盈利停止计数', evaluation.metrics.consecutiveLosses === 5);
+      check('连续亏损过多禁止开仓', evaluation.record.state === 'no_new_entries' && evaluation.record.reason.includes('连续亏损'));
+
+      evaluation = await evaluateTradingState(client, 950, thresholds);
+      check('回撤超过强制平仓阈值', evaluation.record.state === 'flatten');
+      evaluation = await evaluateTradingState(client, 1300, thresholds);
+      check('强制平仓后净值回升也不自动恢复', evaluation.record.state === 'flatten' && evaluation.record.peakEquity === 1300);
+
+      await completeFlatten(client, 950);
+      check('平仓完成后进入停止交易', (await getTradingState(client)).state === 'halted');
+      evaluation = await evaluateTradingState(client, 950, thresholds);
+      check('停止交易状态持久化', !evaluation.changed && evaluation.previous === 'halted');
+
+      const reset = await resetTradingState(client, 950, '人工复核后恢复');
+      check('手动重置回到正常并以当前净值为峰值', reset.state === 'normal' && reset.peakEquity === 950);
+      evaluation = await evaluateTradingState(client, 950, thresholds);
+      check('重置后连续亏损重新计数', evaluation.metrics.consecutiveLosses === 0 && evaluation.record.state === 'normal');
+
+      const transitions = await getTradingStateTransitions(client);
+      check('每次切换都有记录',
+        transitions.map((t: any) => `${t.from_state}>${t.to_state}`).reverse().join(',') === 'normal>cautious,cautious>no_new_entries,no_new_entries>flatten,flatten>halted,halted>normal');
+      check('记录触发方式', transitions[0].triggered_by === 'manual' && transitions[0].reason === '人工复核后恢复' && transitions[1].triggered_by === 'auto');
+    });
+
+    await runWithAccount({ ...account, id: 'acct-2', name: 'acct-2' }, async () => {
+      check('状态按账户隔离', (await getTradingState(client)).state === 'normal' && (await getTradingStateTransitions(client)).length === 0);
+    });
+    client.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 测试结果: ${passed} 通过, ${failed} 失败`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ 测试执行失败:', error);
+  process.exit(1);
+});
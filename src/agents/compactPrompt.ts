@@ -8,6 +8,8 @@ import { analyzeMultipleMarketStates } from "../services/marketStateAnalyzer";
 import type { MarketStateAnalysis } from "../types/marketState";
 import { createLogger } from "../utils/logger";
 import { getTradingStrategy, getStrategyParams, getMinOpportunityScore } from "./tradingAgent";
+import { formatPortfolioRisk, type PortfolioRiskSnapshot } from "../services/portfolioRiskEngine";
+import { formatTradingStateForPrompt, type TradingStateRecord } from "../services/tradingStateMachine";
 
 const logger = createLogger({ name: "compact-prompt", level: "info" });
 
@@ -22,8 +24,10 @@ export async function generateCompactPrompt(data: {
   marketData: any;
   accountInfo: any;
   positions: any[];
+  portfolioRisk?: PortfolioRiskSnapshot | null;
+  tradingState?: TradingStateRecord | null;
 }): Promise<string> {
-  const { minutesElapsed, iteration, marketData, accountInfo, positions } = data;
+  const { minutesElapsed, iteration, marketData, accountInfo, positions, portfolioRisk, tradingState } = data;
   const currentTime = formatChinaTime();
   const strategy = getTradingStrategy();
   const params = getStrategyParams(strategy);
@@ -61,10 +65,12 @@ ${params.scientificStopLoss?.enabled ? `▸科学止损(交易所服务器端):
 【账户】
 ${formatUSDT(accountInfo.totalBalance)}|可用${formatUSDT(accountInfo.availableBalance)}|收益${accountInfo.returnPercent.toFixed(1)}%|未实现${formatUSDT(positions.reduce((s,p)=>s+(p.unrealized_pnl||0),0))}
 `;
+  if (portfolioRisk) prompt += formatPortfolioRisk(portfolioRisk, true);
+  if (tradingState) prompt += formatTradingStateForPrompt(tradingState.state, tradingState.reason);
   
   // 持仓(紧凑)
   if (positions.length > 0) {
-    prompt += `\n【持仓${positions.length}/${RISK_PARAMS.MAX_POSITIONS}】格式:币种 方向杠杆|盈亏%|持仓h|止损单|分批阶段|预警\n`;
+    prompt += `\n【持仓${positions.length}/${RISK_PARAMS.MAX_POSITIONS}】格式:币种 方向杠杆|盈亏%|持仓h|止损单|分批阶段|预警|资金费(下次预计/已结算,正=收取)\n`;
     
     const posSymbols = positions.map(p => p.symbol);
     let states: Map<string, MarketStateAnalysis> = new Map();
@@ -100,6 +106,7 @@ ${formatUSDT(accountInfo.totalBalance)}|可用${formatUSDT(accountInfo.available
       prompt += `${p.symbol} ${p.side}${p.leverage}x|${pnl>=0?'+':''}${formatPercent(pnl)}%|${h}h|${stopLossStatus}`;
       if (stageInfo) prompt += stageInfo;
       if (f) prompt += `|${f}`;
+      if (p.funding) prompt += `|资金费${p.funding.expectedPnl>=0?'+':''}${formatUSDT(p.funding.expectedPnl)}/${p.funding.accumulatedPnl>=0?'+':''}${formatUSDT(p.funding.accumulatedPnl)}`;
       
       const s = states.get(p.symbol);
       if (s?.reversalAnalysis) {
@@ -0,0 +1,163 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 结构化决策输出格式
+ * 结构化决策模式（DECISION_MODE=structured）下 Agent 不直接调用交易工具，
+ * 而是返回一个决策对象，经 zod 校验和开仓前风控检查后再由系统执行，决策可审计、可回放和对比
+ */
+import { z } from "zod";
+
+/**
+ * 决策对象格式版本（变更字段时递增，写入 structured_decisions.schema_version）
+ */
+export const DECISION_SCHEMA_VERSION = 1;
+
+const symbolSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .transform(s => s.toUpperCase().replace(/[_-]?USDT$/, ""))
+  .describe("币种代码，如 BTC");
+const confidenceSchema = z.number().min(0).max(1).describe("置信度（0-1）");
+const rationaleSchema = z.string().trim().min(1).max(2000).describe("决策理由");
+
+const openActionSchema = z.object({
+  action: z.literal("open"),
+  symbol: symbolSchema,
+  side: z.enum(["long", "short"]),
+  leverage: z.number().int().min(1).describe("杠杆倍数"),
+  sizeUsdt: z.number().positive().describe("保证金（USDT）"),
+  stopLoss: z.number().positive().describe("止损价"),
+  takeProfit: z.number().positive().describe("止盈价"),
+  confidence: confidenceSchema,
+  rationale: rationaleSchema,
+}).strict();
+
+const closeActionSchema = z.object({
+  action: z.literal("close"),
+  symbol: symbolSchema,
+  percentage: z.number().min(1).max(100).default(100).describe("平仓百分比"),
+  confidence: confidenceSchema,
+  rationale: rationaleSchema,
+}).strict();
+
+const adjustActionSchema = z.object({
+  action: z.literal("adjust"),
+  symbol: symbolSchema,
+  stopLoss: z.number().positive().describe("新止损价"),
+  takeProfit: z.number().positive().describe("新止盈价"),
+  confidence: confidenceSchema,
+  rationale: rationaleSchema,
+}).strict();
+
+const holdActionSchema = z.object({
+  action: z.literal("hold"),
+  symbol: symbolSchema.optional(),
+  confidence: confidenceSchema,
+  rationale: rationaleSchema,
+}).strict();
+
+export const tradeActionSchema = z.discriminatedUnion("action", [
+  openActionSchema,
+  closeActionSchema,
+  adjustActionSchema,
+  holdActionSchema,
+]);
+
+export const tradingDecisionSchema = z.object({
+  summary: z.string().trim().min(1).describe("本周期市场判断摘要"),
+  actions: z.array(tradeActionSchema).max(20),
+}).strict();
+
+export type TradeAction = z.infer<typeof tradeActionSchema>;
+export type OpenAction = z.infer<typeof openActionSchema>;
+export type TradingDecision = z.infer<typeof tradingDecisionSchema>;
+
+/**
+ * 决策输出无法解析或不符合格式（后备链据此切换到下一个供应商）
+ */
+export class StructuredDecisionError extends Error {
+  constructor(
+    message: string,
+    readonly rawOutput: string,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "StructuredDecisionError";
+  }
+}
+
+/**
+ * 从模型回复中取出 JSON（优先取最后一个 ```json 代码块，否则取首个 { 到最后一个 } 之间的内容）
+ */
+export function extractDecisionJson(text: string): unknown {
+  const fenced = [...text.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)];
+  let candidate = fenced.length > 0 ? fenced[fenced.length - 1][1] : "";
+  if (!candidate.trim()) {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    candidate = start >= 0 && end > start ? text.slice(start, end + 1) : "";
+  }
+  if (!candidate.trim()) {
+    throw new StructuredDecisionError("回复中没有决策对象", text);
+  }
+  try {
+    return JSON.parse(candidate);
+  } catch (error: any) {
+    throw new StructuredDecisionError(`决策对象不是合法 JSON: ${error.message}`, text);
+  }
+}
+
+/**
+ * 校验决策对象（接受模型回复文本或已解析的对象）
+ */
+export function parseTradingDecision(input: unknown): TradingDecision {
+  const rawOutput = typeof input === "string" ? input : JSON.stringify(input);
+  const raw = typeof input === "string" ? extractDecisionJson(input) : input;
+  const result = tradingDecisionSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new StructuredDecisionError(`决策对象格式错误: ${issues.join("; ")}`, rawOutput, issues);
+  }
+  return result.data;
+}
+
+/**
+ * 决策对象格式说明（追加到 Agent 指令中）
+ */
+export function getDecisionFormatInstructions(): string {
+  return `【结构化决策模式 - 优先于以上所有关于调用交易工具的要求】
+本模式下你只能调用分析类工具，不能直接开仓、平仓或修改止损。
+上文要求调用 openPosition / closePosition / executePartialTakeProfit / updatePositionStopLoss 的地方，
+一律改为写入决策对象的 actions，由系统风控检查通过后执行。
+
+分析完成后，最后一条回复必须是一个 \`\`\`json 代码块，内容为：
+{
+  "summary": "本周期市场判断摘要",
+  "actions": [
+    {"action":"open","symbol":"BTC","side":"long","leverage":5,"sizeUsdt":100,"stopLoss":95000,"takeProfit":105000,"confidence":0.7,"rationale":"理由"},
+    {"action":"close","symbol":"ETH","percentage":100,"confidence":0.8,"rationale":"理由"},
+    {"action":"adjust","symbol":"SOL","stopLoss":180,"takeProfit":220,"confidence":0.6,"rationale":"理由"},
+    {"action":"hold","symbol":"DOGE","confidence":0.5,"rationale":"理由"}
+  ]
+}
+- sizeUsdt 为保证金（USDT），不是名义价值；percentage 小于 100 表示部分平仓（分批止盈）
+- 没有任何操作时 actions 只包含一个 hold
+- 不要输出 JSON 以外的字段`;
+}
@@ -0,0 +1,256 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 大模型后备链执行器
+ * 按供应商链顺序执行决策，记录每次尝试的 token 用量、耗时和估算费用
+ *
+ * 切换规则：
+ * - 超时、接口报错、返回畸形工具调用（参数无法解析或工具不存在）时切换到下一个供应商
+ * - 本次尝试已开始执行交易类工具（开平仓、改止损等）时不再切换，避免后备模型基于过期的提示词重复下单
+ */
+import type { Client } from "@libsql/client";
+import { createLogger } from "../utils/logger";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import { estimateLLMCost, type LLMProviderConfig, type LLMTokenUsage } from "./llmProviders";
+
+const logger = createLogger({
+  name: "llm-fallback",
+  level: "info",
+});
+
+/**
+ * 会改变持仓或挂单的工具
+ */
+export const TRADING_ACTION_TOOLS = new Set([
+  "openPosition",
+  "closePosition",
+  "cancelOrder",
+  "updatePositionStopLoss",
+  "executePartialTakeProfit",
+]);
+
+// AI SDK 解析工具调用失败、结构化决策格式错误时抛出的错误类型
+const MALFORMED_TOOL_CALL_ERRORS = new Set([
+  "AI_InvalidToolInputError",
+  "AI_NoSuchToolError",
+  "AI_ToolCallRepairError",
+  "StructuredDecisionError",
+]);
+
+export type LLMAttemptStatus = "success" | "timeout" | "error" | "malformed_tool_call";
+
+/**
+ * 单次尝试记录（对应 llm_usage 表的一行）
+ */
+export interface LLMAttemptRecord {
+  providerId: string;
+  providerType: LLMProviderConfig["type"];
+  model: string | null;
+  status: LLMAttemptStatus;
+  error?: string;
+  latencyMs: number;
+  usage: LLMTokenUsage;
+  estimatedCostUsd: number;
+  tradingActions: string[];   // 本次尝试已开始执行的交易类工具
+}
+
+/**
+ * 传给单次尝试的上下文
+ */
+export interface LLMAttemptContext {
+  signal: AbortSignal;                      // 超时后触发，调用方应传给 generateText
+  onToolStart: (toolName: string) => void;  // 调用方在工具开始执行时回调
+}
+
+export type LLMAttemptRunner = (provider: LLMProviderConfig, context: LLMAttemptContext) => Promise<any>;
+
+/**
+ * 后备链执行结果，所有供应商都失败时 response 为 null
+ */
+export interface LLMFallbackResult {
+  response: any | null;
+  provider: LLMProviderConfig | null;
+  attempts: LLMAttemptRecord[];
+}
+
+/**
+ * 从响应中提取 token 用量（多步调用优先使用 totalUsage）
+ */
+export function extractTokenUsage(response: any): LLMTokenUsage {
+  const usage = response?.totalUsage || response?.usage || {};
+  const inputTokens = Number(usage.inputTokens || 0);
+  const outputTokens = Number(usage.outputTokens || 0);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: Number(usage.totalTokens || inputTokens + outputTokens),
+  };
+}
+
+/**
+ * 统计响应中的畸形工具调用（AI SDK 将无法解析的调用标记为 invalid）
+ */
+export function countMalformedToolCalls(response: any): number {
+  let count = 0;
+  for (const step of response?.steps || []) {
+    for (const toolCall of step.toolCalls || []) {
+      if (toolCall?.invalid) {
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+function isMalformedToolCallError(error: any): boolean {
+  return MALFORMED_TOOL_CALL_ERRORS.has(error?.name) || MALFORMED_TOOL_CALL_ERRORS.has(error?.cause?.name);
+}
+
+/**
+ * 执行单个供应商，超时后中止调用（controller.signal.aborted 标记为超时）
+ */
+async function runWithTimeout(
+  provider: LLMProviderConfig,
+  runner: LLMAttemptRunner,
+  controller: AbortController,
+  onToolStart: (toolName: string) => void,
+): Promise<any> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`模型调用超时（${Math.round(provider.timeoutMs / 1000)}秒）`));
+    }, provider.timeoutMs);
+  });
+  try {
+    return await Promise.race([runner(provider, { signal: controller.signal, onToolStart }), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 按供应商链执行决策
+ */
+export async function executeWithFallback(
+  providers: LLMProviderConfig[],
+  runner: LLMAttemptRunner,
+): Promise<LLMFallbackResult> {
+  const attempts: LLMAttemptRecord[] = [];
+
+  for (let i = 0; i < providers.length; i++) {
+    const provider = providers[i];
+    const tradingActions: string[] = [];
+    const onToolStart = (toolName: string) => {
+      if (TRADING_ACTION_TOOLS.has(toolName)) {
+        tradingActions.push(toolName);
+      }
+    };
+    const controller = new AbortController();
+    const startTime = Date.now();
+    const attempt: LLMAttemptRecord = {
+      providerId: provider.id,
+      providerType: provider.type,
+      model: provider.model || null,
+      status: "success",
+      latencyMs: 0,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      estimatedCostUsd: 0,
+      tradingActions,
+    };
+    attempts.push(attempt);
+
+    try {
+      const response = await runWithTimeout(provider, runner, controller, onToolStart);
+      attempt.latencyMs = Date.now() - startTime;
+      attempt.usage = extractTokenUsage(response);
+      attempt.estimatedCostUsd = estimateLLMCost(provider, attempt.usage);
+
+      const malformed = countMalformedToolCalls(response);
+      if (malformed > 0 && tradingActions.length === 0) {
+        attempt.status = "malformed_tool_call";
+        attempt.error = `${malformed} 个工具调用无法解析`;
+      } else {
+        if (malformed > 0) {
+          logger.warn(`⚠️ [${provider.id}] 返回 ${malformed} 个畸形工具调用，但已执行交易操作，保留本次决策`);
+        }
+        if (i > 0) {
+          logger.warn(`⚠️ 本周期由后备供应商 ${provider.id} 完成决策`);
+        }
+        return { response, provider, attempts };
+      }
+    } catch (error: any) {
+      attempt.latencyMs = Date.now() - startTime;
+      attempt.status = controller.signal.aborted
+        ? "timeout"
+        : isMalformedToolCallError(error) ? "malformed_tool_call" : "error";
+      attempt.error = error?.message || String(error);
+    }
+
+    logger.warn(`⚠️ [${provider.id}] 决策失败 (${attempt.status}): ${attempt.error}`);
+    if (tradingActions.length > 0) {
+      logger.error(`❌ [${provider.id}] 已开始执行交易操作 (${tradingActions.join(", ")})，不再切换供应商`);
+      break;
+    }
+    if (i < providers.length - 1) {
+      logger.info(`🔄 切换到后备供应商: ${providers[i + 1].id}`);
+    }
+  }
+
+  return { response: null, provider: null, attempts };
+}
+
+/**
+ * 记录本周期的模型调用（decisionId 为空表示所有供应商都失败，未产生决策记录）
+ */
+export async function recordLLMUsage(
+  dbClient: Client,
+  decisionId: number | null,
+  iteration: number,
+  attempts: LLMAttemptRecord[],
+): Promise<void> {
+  const timestamp = getChinaTimeISO();
+  for (let i = 0; i < attempts.length; i++) {
+    const attempt = attempts[i];
+    await dbClient.execute({
+      sql: `INSERT INTO llm_usage
+            (account_id, decision_id, iteration, timestamp, attempt_index, provider_id, provider_type, model, status, error,
+             input_tokens, output_tokens, total_tokens, latency_ms, estimated_cost_usd)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        getCurrentAccountId(),
+        decisionId,
+        iteration,
+        timestamp,
+        i,
+        attempt.providerId,
+        attempt.providerType,
+        attempt.model,
+        attempt.status,
+        attempt.error || null,
+        attempt.usage.inputTokens,
+        attempt.usage.outputTokens,
+        attempt.usage.totalTokens,
+        attempt.latencyMs,
+        attempt.estimatedCostUsd,
+      ],
+    });
+  }
+}
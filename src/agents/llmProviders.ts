@@ -0,0 +1,222 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 大模型供应商链配置
+ * 交易决策按顺序尝试链上的模型，前一个超时、报错或返回畸形工具调用时切换到下一个；
+ * 链尾可以放 rule（规则引擎），保证所有模型都不可用时有持仓的账户也不会错过交易周期
+ *
+ * 配置方式：
+ * - 未设置 LLM_PROVIDERS_CONFIG_PATH：使用 OPENAI_API_KEY / OPENAI_BASE_URL / AI_MODEL_NAME 配置单个模型（与原有部署兼容），
+ *   LLM_FALLBACK_TO_RULE=true 时在链尾追加规则引擎
+ * - 设置 LLM_PROVIDERS_CONFIG_PATH：从 JSON 文件加载供应商链（格式见 llm-providers.example.json）
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger({
+  name: "llm-providers",
+  level: "info",
+});
+
+/**
+ * 供应商类型：openai = OpenAI 兼容接口（OpenRouter、本地推理服务等），rule = 规则引擎（不调用模型）
+ */
+export type LLMProviderType = "openai" | "rule";
+
+/**
+ * 供应商配置
+ */
+export interface LLMProviderConfig {
+  id: string;                 // 供应商ID（写入 llm_usage.provider_id）
+  type: LLMProviderType;
+  baseURL?: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs: number;          // 单次决策（含工具调用）的超时时间
+  maxRetries: number;         // AI SDK 内部重试次数（有后备模型时可以调低，尽快切换）
+  inputCostPer1M: number;     // 每百万输入 token 价格（USD）
+  outputCostPer1M: number;    // 每百万输出 token 价格（USD）
+}
+
+/**
+ * 单次调用的 token 用量
+ */
+export interface LLMTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+const DEFAULT_BASE_URL = "https://openrouter.ai/api/v1";
+const DEFAULT_MODEL = "deepseek/deepseek-v3.2-exp";
+
+let providersCache: LLMProviderConfig[] | null = null;
+
+function getDefaultTimeoutMs(): number {
+  return Number.parseInt(process.env.LLM_TIMEOUT_SECONDS || "300") * 1000;
+}
+
+/**
+ * 规则引擎兜底项
+ */
+function buildRuleProvider(id: string = "rule"): LLMProviderConfig {
+  return {
+    id,
+    type: "rule",
+    timeoutMs: getDefaultTimeoutMs(),
+    maxRetries: 0,
+    inputCostPer1M: 0,
+    outputCostPer1M: 0,
+  };
+}
+
+/**
+ * 由环境变量构建默认模型
+ */
+export function getDefaultLLMProvider(): LLMProviderConfig {
+  return {
+    id: "default",
+    type: "openai",
+    baseURL: process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL,
+    apiKey: process.env.OPENAI_API_KEY || "",
+    model: process.env.AI_MODEL_NAME || DEFAULT_MODEL,
+    timeoutMs: getDefaultTimeoutMs(),
+    maxRetries: 2,
+    inputCostPer1M: Number.parseFloat(process.env.LLM_INPUT_COST_PER_1M || "0"),
+    outputCostPer1M: Number.parseFloat(process.env.LLM_OUTPUT_COST_PER_1M || "0"),
+  };
+}
+
+/**
+ * 校验并转换配置文件中的单个供应商
+ */
+function parseProvider(raw: any, index: number): LLMProviderConfig {
+  const id = String(raw?.id || "").trim();
+  if (!/^[A-Za-z0-9_.-]+$/.test(id)) {
+    throw new Error(`模型供应商 #${index + 1} 的 id 无效: "${raw?.id}"`);
+  }
+
+  const type = String(raw.type || "openai").toLowerCase();
+  if (type === "rule") {
+    return buildRuleProvider(id);
+  }
+  if (type !== "openai") {
+    throw new Error(`模型供应商 ${id} 的类型无效: "${raw.type}"，可选值: openai, rule`);
+  }
+  if (!raw.model) {
+    throw new Error(`模型供应商 ${id} 缺少 model`);
+  }
+
+  // 密钥只从环境变量读取，避免写入配置文件；本地推理服务通常不校验密钥
+  const apiKey = raw.apiKeyEnv ? process.env[String(raw.apiKeyEnv)] : undefined;
+  if (raw.apiKeyEnv && !apiKey) {
+    logger.warn(`⚠️ 模型供应商 ${id} 的密钥环境变量 ${raw.apiKeyEnv} 未设置`);
+  }
+
+  const pricing = raw.pricing || {};
+  return {
+    id,
+    type: "openai",
+    baseURL: String(raw.baseURL || DEFAULT_BASE_URL),
+    apiKey: apiKey || "",
+    model: String(raw.model),
+    timeoutMs: raw.timeoutSeconds !== undefined ? Number(raw.timeoutSeconds) * 1000 : getDefaultTimeoutMs(),
+    maxRetries: raw.maxRetries !== undefined ? Number(raw.maxRetries) : 1,
+    inputCostPer1M: Number(pricing.inputPer1M || 0),
+    outputCostPer1M: Number(pricing.outputPer1M || 0),
+  };
+}
+
+/**
+ * 从配置文件加载供应商链
+ */
+function loadProvidersFromFile(path: string): LLMProviderConfig[] {
+  if (!existsSync(path)) {
+    throw new Error(`模型供应商配置文件不存在: ${path}`);
+  }
+
+  const content = JSON.parse(readFileSync(path, "utf-8"));
+  const rawProviders = Array.isArray(content) ? content : content.providers;
+  if (!Array.isArray(rawProviders) || rawProviders.length === 0) {
+    throw new Error(`模型供应商配置文件 ${path} 中没有供应商`);
+  }
+
+  const providers = rawProviders.map((raw, index) => parseProvider(raw, index));
+  const ids = new Set<string>();
+  for (const provider of providers) {
+    if (ids.has(provider.id)) {
+      throw new Error(`模型供应商ID重复: ${provider.id}`);
+    }
+    ids.add(provider.id);
+  }
+  const ruleIndex = providers.findIndex(p => p.type === "rule");
+  if (ruleIndex >= 0 && ruleIndex < providers.length - 1) {
+    throw new Error("规则引擎必须是供应商链的最后一项（规则引擎不会失败，之后的供应商永远不会被调用）");
+  }
+  return providers;
+}
+
+/**
+ * 获取决策使用的供应商链（首次调用时加载）
+ */
+export function getLLMProviderChain(): LLMProviderConfig[] {
+  if (!providersCache) {
+    const configPath = process.env.LLM_PROVIDERS_CONFIG_PATH;
+    if (configPath) {
+      providersCache = loadProvidersFromFile(configPath);
+    } else {
+      providersCache = [getDefaultLLMProvider()];
+      if (process.env.LLM_FALLBACK_TO_RULE === "true") {
+        providersCache.push(buildRuleProvider());
+      }
+    }
+    logger.info(`模型供应商链: ${providersCache.map(p => p.type === "rule" ? `${p.id}(规则引擎)` : `${p.id}(${p.model})`).join(" → ")}`);
+  }
+  return providersCache;
+}
+
+/**
+ * 重置供应商链缓存（主要用于测试）
+ */
+export function resetLLMProviders(): void {
+  providersCache = null;
+}
+
+/**
+ * 创建供应商对应的语言模型
+ */
+export function createProviderModel(provider: LLMProviderConfig) {
+  if (provider.type !== "openai" || !provider.model) {
+    throw new Error(`模型供应商 ${provider.id} 不是可调用的语言模型`);
+  }
+  // 使用 OpenAI SDK，通过配置 baseURL 兼容 OpenRouter 或其他供应商
+  const openai = createOpenAI({
+    apiKey: provider.apiKey || "",
+    baseURL: provider.baseURL,
+  });
+  return openai.chat(provider.model);
+}
+
+/**
+ * 按供应商单价估算调用费用（USD）
+ */
+export function estimateLLMCost(provider: LLMProviderConfig, usage: LLMTokenUsage): number {
+  return (usage.inputTokens * provider.inputCostPer1M + usage.outputTokens * provider.outputCostPer1M) / 1_000_000;
+}
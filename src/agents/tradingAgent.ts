@@ -19,17 +19,24 @@
 /**
  * 交易 Agent 配置（极简版）
  */
-import { Agent, Memory } from "@voltagent/core";
+import { Agent, Memory, type Tool } from "@voltagent/core";
 import { LibSQLMemoryAdapter } from "@voltagent/libsql";
 import { createLogger } from "../utils/logger";
-import { createOpenAI } from "@ai-sdk/openai";
 import * as tradingTools from "../tools/trading";
 import { formatChinaTime } from "../utils/timeUtils";
 import { RISK_PARAMS } from "../config/riskParams";
+import { getCurrentAccount } from "../utils/accountContext";
 import { formatPrice, formatUSDT, formatPercent, formatATR, getDecimalPlacesBySymbol } from "../utils/priceFormatter";
 import { analyzeMultipleMarketStates } from "../services/marketStateAnalyzer";
 import type { MarketStateAnalysis } from "../types/marketState";
 import { generateCompactInstructions } from "./compactInstructions";
+import { createProviderModel, getDefaultLLMProvider, type LLMProviderConfig } from "./llmProviders";
+import { TRADING_ACTION_TOOLS } from "./llmFallbackChain";
+import { getDecisionFormatInstructions } from "./decisionSchema";
+import { formatPortfolioRisk, type PortfolioRiskSnapshot } from "../services/portfolioRiskEngine";
+import { formatTradingStateForPrompt, type TradingStateRecord } from "../services/tradingStateMachine";
+import { getRegisteredStrategies } from "../strategies/registry";
+import type { EntryExecutionConfig } from "../services/entryExecution";
 
 /**
  * 账户风险配置
@@ -149,6 +156,8 @@ export interface StrategyParams {
     normalVolatility: { leverageFactor: number; positionFactor: number }; // ATR 2-5%
     lowVolatility: { leverageFactor: number; positionFactor: number }; // ATR < 2%
   };
+  maxEntrySlippage: number; // 开仓市价单预计滑点上限（百分比，按订单簿估算，超过时缩减仓位或拒绝开仓）
+  entryExecution: EntryExecutionConfig; // 开仓方式：市价 / 限价 / 只做Maker，限价挂单的重挂间隔、超时和不利偏离上限
   entryCondition: string;
   riskTolerance: string;
   tradingStyle: string;
@@ -260,6 +269,8 @@ export function getStrategyParams(strategy: TradingStrategy): StrategyParams {
         normalVolatility: { leverageFactor: 1.0, positionFactor: 1.0 },
         lowVolatility: { leverageFactor: 1.1, positionFactor: 1.0 },
       },
+      maxEntrySlippage: 0.05, // 超短线：利润空间小，滑点上限最严
+      entryExecution: { mode: "market", repriceIntervalSeconds: 5, timeoutSeconds: 15, maxAdverseMovePercent: 0.1 }, // 超短线：信号时效短，市价立即成交
       entryCondition: "至少2个时间框架信号一致，优先1-5分钟级别",
       riskTolerance: "单笔交易风险控制在18-25%之间，快进快出",
       tradingStyle: "超短线交易，5分钟执行周期，快速捕捉短期波动，严格执行2%周期锁利规则和30分钟盈利平仓规则",
@@ -341,6 +352,8 @@ export function getStrategyParams(strategy: TradingStrategy): StrategyParams {
         normalVolatility: { leverageFactor: 1.0, positionFactor: 1.0 }, // 正常波动：标准配置
         lowVolatility: { leverageFactor: 1.2, positionFactor: 1.1 },    // 低波动：适度提高（趋势稳定）
       },
+      maxEntrySlippage: 0.2, // 波段趋势：目标利润大，可承受较高滑点
+      entryExecution: { mode: "post_only", repriceIntervalSeconds: 15, timeoutSeconds: 120, maxAdverseMovePercent: 0.3 }, // 波段：入场不急，耐心挂单赚取 Maker 费率
       entryCondition: "至少3个以上时间框架信号强烈一致，优先15分钟-4小时级别，等待明确趋势形成",
       riskTolerance: "单笔交易风险控制在12-20%之间，注重趋势质量而非交易频率",
       tradingStyle: "波段趋势交易，20分钟执行周期，耐心等待高质量趋势信号，持仓时间可达数天，让利润充分奔跑",
@@ -422,6 +435,8 @@ export function getStrategyParams(strategy: TradingStrategy): StrategyParams {
         normalVolatility: { leverageFactor: 1.0, positionFactor: 1.0 }, // 正常波动：不调整
         lowVolatility: { leverageFactor: 1.0, positionFactor: 1.0 },    // 低波动：不调整（保守不追求）
       },
+      maxEntrySlippage: 0.08, // 稳健：严格控制交易成本
+      entryExecution: { mode: "post_only", repriceIntervalSeconds: 10, timeoutSeconds: 60, maxAdverseMovePercent: 0.2 }, // 稳健：只做Maker，降低手续费
       entryCondition: "至少3个关键时间框架信号一致，4个或更多更佳",
       riskTolerance: "单笔交易风险控制在15-22%之间，严格控制回撤",
       tradingStyle: "谨慎交易，宁可错过机会也不冒险，优先保护本金",
@@ -503,6 +518,8 @@ export function getStrategyParams(strategy: TradingStrategy): StrategyParams {
         normalVolatility: { leverageFactor: 1.0, positionFactor: 1.0 }, // 正常波动：不调整
         lowVolatility: { leverageFactor: 1.1, positionFactor: 1.0 },    // 低波动：略微提高杠杆
       },
+      maxEntrySlippage: 0.1, // 平衡：标准滑点上限
+      entryExecution: { mode: "post_only", repriceIntervalSeconds: 10, timeoutSeconds: 45, maxAdverseMovePercent: 0.2 }, // 平衡：只做Maker，超时转市价
       entryCondition: "至少3个关键时间框架信号一致，4个或更多更佳",
       riskTolerance: "单笔交易风险控制在10-20%之间，平衡风险与收益",
       tradingStyle: "在风险可控前提下积极把握机会，追求稳健增长",
@@ -584,6 +601,8 @@ export function getStrategyParams(strategy: TradingStrategy): StrategyParams {
         normalVolatility: { leverageFactor: 1.0, positionFactor: 1.0 }, // 正常波动：不调整
         lowVolatility: { leverageFactor: 1.2, positionFactor: 1.1 },    // 低波动：提高杠杆和仓位
       },
+      maxEntrySlippage: 0.15, // 激进：优先成交
+      entryExecution: { mode: "limit", repriceIntervalSeconds: 5, timeoutSeconds: 20, maxAdverseMovePercent: 0.15 }, // 激进：短时限价挂单，优先成交
       entryCondition: "至少2个关键时间框架信号一致即可入场",
       riskTolerance: "单笔交易风险可达25-32%，追求高收益",
       tradingStyle: "积极进取，快速捕捉市场机会，追求最大化收益",
@@ -599,10 +618,10 @@ const logger = createLogger({
 });
 
 /**
- * 从环境变量读取交易策略
+ * 读取交易策略（当前账户配置的策略优先，否则使用环境变量）
  */
 export function getTradingStrategy(): TradingStrategy {
-  const strategy = process.env.TRADING_STRATEGY || "balanced";
+  const strategy = getCurrentAccount()?.strategy || process.env.TRADING_STRATEGY || "balanced";
   if (strategy === "conservative" || strategy === "balanced" || strategy === "aggressive" || strategy === "ultra-short" || strategy === "swing-trend") {
     return strategy;
   }
@@ -637,8 +656,10 @@ export async function generateTradingPrompt(data: {
   tradeHistory?: any[];
   recentDecisions?: any[];
   closeEvents?: any[];
+  portfolioRisk?: PortfolioRiskSnapshot | null;
+  tradingState?: TradingStateRecord | null;
 }): Promise<string> {
-  const { minutesElapsed, iteration, intervalMinutes, marketData, accountInfo, positions, tradeHistory, recentDecisions, closeEvents } = data;
+  const { minutesElapsed, iteration, intervalMinutes, marketData, accountInfo, positions, tradeHistory, recentDecisions, closeEvents, portfolioRisk, tradingState } = data;
   const currentTime = formatChinaTime();
   
   // 获取当前策略参数（用于每周期强调风控规则）
@@ -809,7 +830,7 @@ ${params.scientificStopLoss?.enabled ? `│ 移动止损优化（可选，低优
    ├─ 必须先调用 analyze_opening_opportunities() 获取系统化评估
    ├─ 工具自动完成以下分析：
    │   • 识别市场状态（上涨趋势/下跌趋势/震荡等）
-   │   • 根据市场状态选择最优策略（趋势跟踪/均值回归/突破）
+   │   • 根据市场状态选择最优策略（${getRegisteredStrategies().map(s => s.name).join('/')}）
    │   • 对所有机会进行量化评分（0-100分）
    │   • 自动过滤已有持仓的币种
    │   • 返回评分最高的前${maxOpportunities}个机会
@@ -1034,7 +1055,18 @@ ${params.scientificStopLoss?.enabled ? `│ 移动止损优化（可选，低优
     // 资金费率
     if (data.fundingRate !== undefined) {
       prompt += `此外，这是 ${symbol} 永续合约的最新资金费率（您交易的合约类型）：\n\n`;
-      prompt += `资金费率: ${data.fundingRate.toExponential(2)}\n\n`;
+      prompt += `资金费率: ${data.fundingRate.toExponential(2)}\n`;
+      if (data.funding) {
+        const funding = data.funding;
+        if (funding.averageRate !== null) {
+          prompt += `近${funding.historyCount}次结算平均费率: ${funding.averageRate.toExponential(2)}\n`;
+        }
+        if (funding.basis !== null) {
+          prompt += `基差(标记价格相对指数价格): ${formatPercent(funding.basis * 100, 3)}%\n`;
+        }
+        prompt += `下次结算: ${formatChinaTime(new Date(funding.nextFundingTime).toISOString())}\n`;
+      }
+      prompt += "\n";
     }
     
     // 日内时序数据（3分钟级别）
@@ -1130,6 +1162,11 @@ ${params.scientificStopLoss?.enabled ? `│ 移动止损优化（可选，低优
     prompt += `当前账户价值: ${formatUSDT(accountInfo.totalBalance)} USDT\n\n`;
   }
   
+  // 回撤熔断状态（谨慎/禁止开仓）
+  if (tradingState && tradingState.state !== 'normal') {
+    prompt += `${formatTradingStateForPrompt(tradingState.state, tradingState.reason)}\n`;
+  }
+  
   prompt += `当前总收益率: ${accountInfo.returnPercent.toFixed(2)}%\n\n`;
   
   // 计算所有持仓的未实现盈亏总和
@@ -1138,6 +1175,11 @@ ${params.scientificStopLoss?.enabled ? `│ 移动止损优化（可选，低优
   prompt += `可用资金: ${formatUSDT(accountInfo.availableBalance)} USDT\n\n`;
   prompt += `未实现盈亏: ${formatUSDT(totalUnrealizedPnL)} USDT (${totalUnrealizedPnL >= 0 ? '+' : ''}${formatPercent((totalUnrealizedPnL / accountInfo.totalBalance) * 100)}%)\n\n`;
   
+  // 组合风险敞口（开仓时超出限制会被自动缩减或拒绝）
+  if (portfolioRisk) {
+    prompt += `${formatPortfolioRisk(portfolioRisk)}\n`;
+  }
+  
   // 当前持仓和表现
   if (positions.length > 0) {
     prompt += `以下是您当前的持仓信息。重要说明：\n`;
@@ -1201,6 +1243,13 @@ ${params.scientificStopLoss?.enabled ? `│ 移动止损优化（可选，低优
       prompt += `  已持仓: ${holdingHours} 小时 (${holdingMinutes} 分钟, ${holdingCycles} 个周期)\n`;
       prompt += `  距离36小时限制: ${formatPercent(remainingHours, 1)} 小时 (${remainingCycles} 个周期)\n`;
       
+      // 资金费：下次结算预测（正数为收取）和已结算合计
+      if (pos.funding) {
+        const funding = pos.funding;
+        prompt += `  资金费: 下次结算(${formatChinaTime(new Date(funding.nextFundingTime).toISOString())})预计${funding.expectedPnl >= 0 ? '收取' : '支付'} ${formatUSDT(Math.abs(funding.expectedPnl))} USDT`;
+        prompt += `，已结算 ${funding.settlementCount} 次合计 ${funding.accumulatedPnl >= 0 ? '+' : ''}${formatUSDT(funding.accumulatedPnl)} USDT\n`;
+      }
+      
       // ⭐ 始终显示反转监控状态（明确告知AI是否有预警）
       if (hasReversalWarning && warningScore >= 30) {
         // 有预警标记
@@ -2340,14 +2389,15 @@ function getStateDescription(state: string): string {
 
 /**
  * 创建交易 Agent
+ * @param provider 使用的模型供应商，默认使用环境变量配置的模型
+ * @param options.structuredOutput 结构化决策模式：移除交易类工具，要求 Agent 返回决策对象
+ * @param options.mapTools 替换工具列表（提示词回放时换成不访问交易所的桩工具）
  */
-export function createTradingAgent(intervalMinutes: number = 5) {
-  // 使用 OpenAI SDK，通过配置 baseURL 兼容 OpenRouter 或其他供应商
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-    baseURL: process.env.OPENAI_BASE_URL || "https://openrouter.ai/api/v1",
-  });
-
+export function createTradingAgent(
+  intervalMinutes: number = 5,
+  provider: LLMProviderConfig = getDefaultLLMProvider(),
+  options: { structuredOutput?: boolean; mapTools?: (tools: Tool<any, any>[]) => Tool<any, any>[] } = {},
+) {
   const memory = new Memory({
     storage: new LibSQLMemoryAdapter({
       url: "file:./.voltagent/trading-memory.db",
@@ -2364,39 +2414,45 @@ export function createTradingAgent(intervalMinutes: number = 5) {
   const params = getStrategyParams(strategy);
   const minOpportunityScore = getMinOpportunityScore();
   
-  const instructions = useCompactInstructions
+  const baseInstructions = useCompactInstructions
     ? generateCompactInstructions(strategy, params, intervalMinutes, minOpportunityScore)
     : generateInstructions(strategy, intervalMinutes);
+  const instructions = options.structuredOutput
+    ? `${baseInstructions}\n\n${getDecisionFormatInstructions()}`
+    : baseInstructions;
   
   logger.info(`使用${useCompactInstructions ? '精简版' : '完整版'}Agent指令`);
 
+  const allTools = [
+    tradingTools.getMarketPriceTool,
+    tradingTools.getTechnicalIndicatorsTool,
+    tradingTools.getFundingRateTool,
+    tradingTools.getOrderBookTool,
+    tradingTools.openPositionTool,
+    tradingTools.closePositionTool,
+    tradingTools.cancelOrderTool,
+    tradingTools.getAccountBalanceTool,
+    tradingTools.getPositionsTool,
+    tradingTools.getOpenOrdersTool,
+    tradingTools.checkOrderStatusTool,
+    tradingTools.calculateRiskTool,
+    tradingTools.syncPositionsTool,
+    tradingTools.getCloseEventsTool,
+    tradingTools.calculateStopLossTool,
+    tradingTools.checkOpenPositionTool,
+    tradingTools.updateTrailingStopTool,
+    tradingTools.updatePositionStopLossTool,
+    tradingTools.partialTakeProfitTool,
+    tradingTools.checkPartialTakeProfitOpportunityTool,
+    tradingTools.analyzeOpeningOpportunitiesTool,
+  ];
+  const tools = options.mapTools ? options.mapTools(allTools) : allTools;
+
   const agent = new Agent({
     name: "trading-agent",
     instructions,
-    model: openai.chat(process.env.AI_MODEL_NAME || "deepseek/deepseek-v3.2-exp"),
-    tools: [
-      tradingTools.getMarketPriceTool,
-      tradingTools.getTechnicalIndicatorsTool,
-      tradingTools.getFundingRateTool,
-      tradingTools.getOrderBookTool,
-      tradingTools.openPositionTool,
-      tradingTools.closePositionTool,
-      tradingTools.cancelOrderTool,
-      tradingTools.getAccountBalanceTool,
-      tradingTools.getPositionsTool,
-      tradingTools.getOpenOrdersTool,
-      tradingTools.checkOrderStatusTool,
-      tradingTools.calculateRiskTool,
-      tradingTools.syncPositionsTool,
-      tradingTools.getCloseEventsTool,
-      tradingTools.calculateStopLossTool,
-      tradingTools.checkOpenPositionTool,
-      tradingTools.updateTrailingStopTool,
-      tradingTools.updatePositionStopLossTool,
-      tradingTools.partialTakeProfitTool,
-      tradingTools.checkPartialTakeProfitOpportunityTool,
-      tradingTools.analyzeOpeningOpportunitiesTool,
-    ],
+    model: createProviderModel(provider),
+    tools: options.structuredOutput ? tools.filter(t => !TRADING_ACTION_TOOLS.has(t.name)) : tools,
     memory,
   });
 
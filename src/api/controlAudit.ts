@@ -0,0 +1,183 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 控制接口认证与审计
+ * 非 GET 请求和 /api/control 下的查询接口需携带 Authorization: Bearer <CONTROL_API_TOKEN>，
+ * 每次写操作调用（包括认证失败）都记录到 control_audit_log 表
+ */
+import { timingSafeEqual } from "node:crypto";
+import type { Client } from "@libsql/client";
+import type { MiddlewareHandler } from "hono";
+import type { ControlAuditLog } from "../database/schema";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import { getCurrentAccountId } from "../utils/accountContext";
+
+const logger = createLogger({
+  name: "control-audit",
+  level: "info",
+});
+
+// 审计记录中保存的请求体/响应最大长度
+const MAX_AUDIT_TEXT_LENGTH = 2000;
+
+export type ControlAuditStatus = ControlAuditLog["status"];
+
+export interface ControlAuditEntry {
+  method: string;
+  path: string;
+  params: string | null;
+  status: ControlAuditStatus;
+  httpStatus: number;
+  response: string | null;
+  remoteAddr: string | null;
+}
+
+/**
+ * 校验控制接口令牌（Authorization: Bearer <CONTROL_API_TOKEN>）
+ * @returns 校验失败的原因，通过时返回 null
+ */
+export function verifyControlToken(authorization: string | undefined): string | null {
+  const expected = process.env.CONTROL_API_TOKEN;
+  if (!expected) {
+    return "控制接口未启用（未配置 CONTROL_API_TOKEN）";
+  }
+  const provided = authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : "";
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    return "令牌无效";
+  }
+  return null;
+}
+
+function truncate(text: string | null): string | null {
+  if (!text) {
+    return null;
+  }
+  return text.length > MAX_AUDIT_TEXT_LENGTH ? `${text.slice(0, MAX_AUDIT_TEXT_LENGTH)}...` : text;
+}
+
+/**
+ * 写入一条审计记录（写入失败只记录日志，不影响接口响应）
+ */
+export async function recordControlAudit(dbClient: Client, entry: ControlAuditEntry): Promise<void> {
+  try {
+    await dbClient.execute({
+      sql: `INSERT INTO control_audit_log
+            (account_id, timestamp, method, path, params, status, http_status, response, remote_addr)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        getCurrentAccountId(),
+        getChinaTimeISO(),
+        entry.method,
+        entry.path,
+        truncate(entry.params),
+        entry.status,
+        entry.httpStatus,
+        truncate(entry.response),
+        entry.remoteAddr,
+      ],
+    });
+  } catch (error) {
+    logger.error(`写入控制接口审计记录失败 ${entry.method} ${entry.path}:`, error as any);
+  }
+}
+
+/**
+ * 获取当前账户最近的审计记录（按时间倒序）
+ */
+export async function getControlAuditLog(dbClient: Client, limit = 50): Promise<ControlAuditLog[]> {
+  const result = await dbClient.execute({
+    sql: "SELECT * FROM control_audit_log WHERE account_id = ? ORDER BY id DESC LIMIT ?",
+    args: [getCurrentAccountId(), limit],
+  });
+  return result.rows.map((row: any) => ({
+    id: Number(row.id),
+    account_id: row.account_id,
+    timestamp: row.timestamp,
+    method: row.method,
+    path: row.path,
+    params: row.params ?? null,
+    status: row.status,
+    http_status: Number(row.http_status),
+    response: row.response ?? null,
+    remote_addr: row.remote_addr ?? null,
+  }));
+}
+
+/**
+ * 控制接口中间件：控制查询接口（/api/control 下的 GET）只校验令牌，其他 GET 请求直接放行；
+ * 其他请求校验令牌，并在处理完成后写入审计记录
+ * 需挂在账户选择中间件之后，审计记录归属到请求的账户
+ */
+export function createControlAuthMiddleware(dbClient: Client): MiddlewareHandler {
+  return async (c, next) => {
+    if (c.req.method === "GET" || c.req.method === "HEAD") {
+      if (!c.req.path.startsWith("/api/control/")) {
+        return next();
+      }
+      // 控制状态和审计日志同样需要令牌，查询不写入审计记录
+      const authError = verifyControlToken(c.req.header("Authorization"));
+      if (authError) {
+        logger.warn(`拒绝控制查询 ${c.req.path}: ${authError}`);
+        return c.json({ error: authError }, 401);
+      }
+      return next();
+    }
+
+    // 读取后请求体会被缓存，路由处理中仍可再次读取
+    const params = (await c.req.text().catch(() => "")) || null;
+    const remoteAddr =
+      c.req.header("X-Forwarded-For")?.split(",")[0].trim() ||
+      (c.env as any)?.incoming?.socket?.remoteAddress ||
+      null;
+
+    const authError = verifyControlToken(c.req.header("Authorization"));
+    if (authError) {
+      logger.warn(`拒绝控制请求 ${c.req.method} ${c.req.path}: ${authError}`);
+      const body = { error: authError };
+      await recordControlAudit(dbClient, {
+        method: c.req.method,
+        path: c.req.path,
+        params,
+        status: "unauthorized",
+        httpStatus: 401,
+        response: JSON.stringify(body),
+        remoteAddr,
+      });
+      return c.json(body, 401);
+    }
+
+    await next();
+
+    const response = await c.res.clone().text().catch(() => null);
+    const status: ControlAuditStatus = c.res.ok ? "success" : "failed";
+    logger.info(`🎛️ 控制请求 ${c.req.method} ${c.req.path} -> ${c.res.status}`);
+    await recordControlAudit(dbClient, {
+      method: c.req.method,
+      path: c.req.path,
+      params,
+      status,
+      httpStatus: c.res.status,
+      response,
+      remoteAddr,
+    });
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 实时推送中心
+ *
+ * 监控页面通过 SSE 订阅 /api/live，按账户共享一个后台轮询：
+ * - 交易所快照（账户、持仓、价格）每 LIVE_EXCHANGE_INTERVAL_SECONDS 秒拉取一次，无论打开多少个页面
+ * - 数据库变化（条件单、平仓事件、AI 决策）每 LIVE_DB_INTERVAL_SECONDS 秒检查一次
+ * 快照内容未变化时不推送；最后一个订阅者断开后停止该账户的轮询。
+ */
+import type { AccountConfig } from "../config/accounts";
+import { runWithAccount } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger({
+  name: "live-updates",
+  level: "info",
+});
+
+export type LiveEventType =
+  | "account"
+  | "positions"
+  | "prices"
+  | "price_orders"
+  | "price_order_triggered"
+  | "close_event"
+  | "decision";
+
+export interface LiveEvent {
+  id: number;
+  type: LiveEventType;
+  data: unknown;
+}
+
+export type LiveListener = (event: LiveEvent) => void;
+
+/**
+ * 推送数据源（在订阅账户的上下文中调用）
+ */
+export interface LiveUpdateSources {
+  account(): Promise<unknown>;
+  positions(): Promise<unknown>;
+  prices(): Promise<unknown>;
+  /** 活跃条件单，返回 { priceOrders: [{ id, ... }] } */
+  priceOrders(): Promise<{ priceOrders: Array<{ id: number }> }>;
+  /** 查询已离开活跃状态的条件单（触发或取消） */
+  resolvedPriceOrders(ids: number[]): Promise<Array<{ id: number; status: string }>>;
+  closeEventsAfter(lastId: number): Promise<Array<{ id: number }>>;
+  decisionsAfter(lastId: number): Promise<Array<{ id: number }>>;
+  /** 订阅开始时的最新平仓事件和决策ID，之前的记录不推送 */
+  latestIds(): Promise<{ closeEvent: number; decision: number }>;
+}
+
+export interface LiveUpdateOptions {
+  exchangeIntervalMs: number;
+  databaseIntervalMs: number;
+}
+
+/**
+ * 从环境变量读取推送间隔
+ */
+export function getLiveUpdateOptions(): LiveUpdateOptions {
+  const exchangeSeconds = Number.parseFloat(process.env.LIVE_EXCHANGE_INTERVAL_SECONDS || "10");
+  const databaseSeconds = Number.parseFloat(process.env.LIVE_DB_INTERVAL_SECONDS || "2");
+  return {
+    exchangeIntervalMs: (exchangeSeconds > 0 ? exchangeSeconds : 10) * 1000,
+    databaseIntervalMs: (databaseSeconds > 0 ? databaseSeconds : 2) * 1000,
+  };
+}
+
+interface Channel {
+  account: AccountConfig;
+  listeners: Set<LiveListener>;
+  snapshots: Map<LiveEventType, LiveEvent>;
+  snapshotJson: Map<LiveEventType, string>;
+  activePriceOrderIds: Set<number> | null;
+  lastCloseEventId: number;
+  lastDecisionId: number;
+  ready: Promise<void>;
+  timers: NodeJS.Timeout[];
+  exchangeBusy: boolean;
+  databaseBusy: boolean;
+  stopped: boolean;
+}
+
+export class LiveUpdateHub {
+  private channels = new Map<string, Channel>();
+  private sequence = 0;
+
+  constructor(
+    private sources: LiveUpdateSources,
+    private options: LiveUpdateOptions = getLiveUpdateOptions(),
+  ) {}
+
+  /**
+   * 订阅账户的实时推送，立即收到最近一次快照，返回取消订阅函数
+   */
+  subscribe(account: AccountConfig, listener: LiveListener): () => void {
+    let channel = this.channels.get(account.id);
+    if (!channel) {
+      channel = this.startChannel(account);
+    }
+    channel.listeners.add(listener);
+    for (const event of channel.snapshots.values()) {
+      this.deliver(listener, event);
+    }
+
+    const subscribed = channel;
+    return () => {
+      subscribed.listeners.delete(listener);
+      if (subscribed.listeners.size === 0) {
+        this.stopChannel(subscribed);
+      }
+    };
+  }
+
+  getSubscriberCount(accountId: string): number {
+    return this.channels.get(accountId)?.listeners.size ?? 0;
+  }
+
+  /**
+   * 停止所有账户的轮询（系统关闭时调用）
+   */
+  stop(): void {
+    for (const channel of [...this.channels.values()]) {
+      this.stopChannel(channel);
+    }
+  }
+
+  private startChannel(account: AccountConfig): Channel {
+    const channel: Channel = {
+      account,
+      listeners: new Set(),
+      snapshots: new Map(),
+      snapshotJson: new Map(),
+      activePriceOrderIds: null,
+      lastCloseEventId: 0,
+      lastDecisionId: 0,
+      ready: Promise.resolve(),
+      timers: [],
+      exchangeBusy: false,
+      databaseBusy: false,
+      stopped: false,
+    };
+    this.channels.set(account.id, channel);
+    logger.info(`📡 [${account.id}] 开始实时推送`);
+
+    // 定时器在账户上下文中创建，回调继承该上下文
+    runWithAccount(account, () => {
+      channel.ready = this.sources.latestIds()
+        .then((ids) => {
+          channel.lastCloseEventId = ids.closeEvent;
+          channel.lastDecisionId = ids.decision;
+        })
+        .catch((error: any) => {
+          logger.warn(`[${account.id}] 读取最新事件ID失败: ${error.message}`);
+        });
+      void this.pollExchange(channel);
+      void this.pollDatabase(channel);
+      channel.timers.push(
+        setInterval(() => void this.pollExchange(channel), this.options.exchangeIntervalMs),
+        setInterval(() => void this.pollDatabase(channel), this.options.databaseIntervalMs),
+      );
+    });
+    return channel;
+  }
+
+  private stopChannel(channel: Channel): void {
+    if (channel.stopped) {
+      return;
+    }
+    channel.stopped = true;
+    for (const timer of channel.timers) {
+      clearInterval(timer);
+    }
+    channel.listeners.clear();
+    if (this.channels.get(channel.account.id) === channel) {
+      this.channels.delete(channel.account.id);
+    }
+    logger.info(`📴 [${channel.account.id}] 停止实时推送（无订阅者）`);
+  }
+
+  /**
+   * 拉取交易所快照：账户、持仓、价格
+   */
+  private async pollExchange(channel: Channel): Promise<void> {
+    if (channel.exchangeBusy || channel.stopped) {
+      return;
+    }
+    channel.exchangeBusy = true;
+    try {
+      const fetchers: Array<[LiveEventType, () => Promise<unknown>]> = [
+        ["account", () => this.sources.account()],
+        ["positions", () => this.sources.positions()],
+        ["prices", () => this.sources.prices()],
+      ];
+      for (const [type, fetch] of fetchers) {
+        try {
+          this.publishSnapshot(channel, type, await fetch());
+        } catch (error: any) {
+          logger.warn(`[${channel.account.id}] 推送 ${type} 失败: ${error.message}`);
+        }
+      }
+    } finally {
+      channel.exchangeBusy = false;
+    }
+  }
+
+  /**
+   * 检查数据库变化：条件单、平仓事件、AI 决策
+   */
+  private async pollDatabase(channel: Channel): Promise<void> {
+    if (channel.databaseBusy || channel.stopped) {
+      return;
+    }
+    channel.databaseBusy = true;
+    try {
+      await channel.ready;
+
+      const active = await this.sources.priceOrders();
+      const activeIds = new Set(active.priceOrders.map(order => order.id));
+      const previousIds = channel.activePriceOrderIds;
+      channel.activePriceOrderIds = activeIds;
+      if (previousIds) {
+        const removed = [...previousIds].filter(id => !activeIds.has(id));
+        if (removed.length > 0) {
+          const resolved = await this.sources.resolvedPriceOrders(removed);
+          for (const order of resolved) {
+            if (order.status === "triggered") {
+              this.publish(channel, "price_order_triggered", order);
+            }
+          }
+        }
+      }
+      this.publishSnapshot(channel, "price_orders", active);
+
+      for (const event of await this.sources.closeEventsAfter(channel.lastCloseEventId)) {
+        channel.lastCloseEventId = Math.max(channel.lastCloseEventId, event.id);
+        this.publish(channel, "close_event", event);
+      }
+      for (const decision of await this.sources.decisionsAfter(channel.lastDecisionId)) {
+        channel.lastDecisionId = Math.max(channel.lastDecisionId, decision.id);
+        this.publish(channel, "decision", decision);
+      }
+    } catch (error: any) {
+      logger.warn(`[${channel.account.id}] 检查数据库变化失败: ${error.message}`);
+    } finally {
+      channel.databaseBusy = false;
+    }
+  }
+
+  /**
+   * 推送快照（内容未变化时跳过），并保存为新订阅者的初始数据
+   */
+  private publishSnapshot(channel: Channel, type: LiveEventType, data: unknown): void {
+    const json = JSON.stringify(data);
+    if (channel.snapshotJson.get(type) === json) {
+      return;
+    }
+    channel.snapshotJson.set(type, json);
+    channel.snapshots.set(type, this.publish(channel, type, data));
+  }
+
+  private publish(channel: Channel, type: LiveEventType, data: unknown): LiveEvent {
+    const event: LiveEvent = { id: ++this.sequence, type, data };
+    if (!channel.stopped) {
+      for (const listener of channel.listeners) {
+        this.deliver(listener, event);
+      }
+    }
+    return event;
+  }
+
+  private deliver(listener: LiveListener, event: LiveEvent): void {
+    try {
+      listener(event);
+    } catch (error: any) {
+      logger.warn(`推送 ${event.type} 事件失败: ${error.message}`);
+    }
+  }
+}
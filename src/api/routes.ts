@@ -20,6 +20,8 @@
  * API 路由
  */
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { z } from "zod";
 import { parsePositionSize } from "../utils";
 import { serveStatic } from "@hono/node-server/serve-static";
 import { createClient } from "@libsql/client";
@@ -27,6 +29,34 @@ import { getExchangeClient } from "../exchanges";
 import { createLogger } from "../utils/logger";
 import { formatPrice, formatUSDT, formatPercent, getDecimalPlacesBySymbol } from "../utils/priceFormatter";
 import { performHealthCheck } from "../scheduler/healthCheck";
+import { RISK_PARAMS } from "../config/riskParams";
+import { getAccount, getAccounts, getPrimaryAccount } from "../config/accounts";
+import { getCurrentAccount, getCurrentAccountId, runWithAccount } from "../utils/accountContext";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import { getTradingStateTransitions, loadTradingState, resetTradingState } from "../services/tradingStateMachine";
+import {
+  getComponentStates,
+  isSchedulerComponent,
+  SCHEDULER_COMPONENTS,
+  setComponentPaused,
+  type SchedulerComponent,
+} from "../scheduler/schedulerControl";
+import { closeAllPositions } from "../scheduler/tradingLoop";
+import { openPosition } from "../services/positionOpening";
+import { updatePositionStopLoss, type UpdatePositionStopLossResult } from "../services/positionStopLoss";
+import { createControlAuthMiddleware, getControlAuditLog } from "./controlAudit";
+import { LiveUpdateHub } from "./liveUpdates";
+import { loadPositionTimeline } from "../services/positionJournal";
+import {
+  BREAKDOWN_DIMENSIONS,
+  computeBreakdown,
+  computeRMultipleStats,
+  findDrawdownEpisodes,
+  generatePerformanceReport,
+  loadClosedTrades,
+  loadEquityCurve,
+  type BreakdownDimension,
+} from "../services/performanceAnalytics";
 
 const logger = createLogger({
   name: "api-routes",
@@ -39,21 +69,341 @@ const dbClient = createClient({
   syncInterval: 1000, // 每秒同步一次
 });
 
-// 价格缓存
+// 价格缓存（各账户交易币种不同，按账户缓存）
 interface PriceCache {
   prices: Record<string, number>;
   timestamp: number;
 }
 
-let priceCache: PriceCache | null = null;
+const priceCaches = new Map<string, PriceCache>();
 const PRICE_CACHE_TTL = 5000; // 5秒缓存
 
+// 手动下单请求（开仓后自动设置科学止损，可选覆盖止损止盈价）
+const manualOrderSchema = z.object({
+  symbol: z.string().transform((s) => s.toUpperCase().replace(/_USDT$/, "")),
+  side: z.enum(["long", "short"]),
+  leverage: z.number().int().min(1),
+  amountUsdt: z.number().positive(),
+  stopLoss: z.number().positive().optional(),
+  takeProfit: z.number().positive().optional(),
+}).strict();
+
+/**
+ * 解析统计区间参数 ?days=N（未指定或无效时统计全部历史）
+ */
+function parseAnalyticsSince(days: string | undefined): string | null {
+  const value = Number.parseFloat(days || "");
+  return value > 0 ? new Date(Date.now() - value * 24 * 60 * 60 * 1000).toISOString() : null;
+}
+
+/**
+ * 解析暂停/恢复请求中的组件（"all" 表示全部组件）
+ */
+function parseComponents(value: unknown): SchedulerComponent[] | null {
+  if (value === "all") {
+    return [...SCHEDULER_COMPONENTS];
+  }
+  return isSchedulerComponent(value) ? [value] : null;
+}
+
+/**
+ * 决策日志格式（/api/logs 和实时推送共用）
+ */
+function formatDecisionLog(row: any) {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    iteration: row.iteration,
+    decision: row.decision,
+    actionsTaken: row.actions_taken,
+    accountValue: row.account_value,
+    positionsCount: row.positions_count,
+  };
+}
+
+/**
+ * 账户总览（/api/account 和实时推送共用）
+ */
+async function loadAccountSummary() {
+  const exchangeClient = getExchangeClient();
+  const account = await exchangeClient.getFuturesAccount();
+  
+  // 从数据库获取初始资金
+  const initialResult = await dbClient.execute({
+    sql: "SELECT total_value FROM account_history WHERE account_id = ? ORDER BY timestamp ASC LIMIT 1",
+    args: [getCurrentAccountId()],
+  });
+  const initialBalance = initialResult.rows[0]
+    ? Number.parseFloat(initialResult.rows[0].total_value as string)
+    : 100;
+  
+  // 统一处理：account.total 不包含未实现盈亏（Gate.io 和 Binance 都是如此）
+  // 总资产（不含未实现盈亏）= account.total
+  const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
+  const totalBalance = Number.parseFloat(account.total || "0");
+  
+  // 收益率 = (总资产 - 初始资金) / 初始资金 * 100
+  // 总资产不包含未实现盈亏，收益率反映已实现盈亏
+  const returnPercent = ((totalBalance - initialBalance) / initialBalance) * 100;
+  
+  return {
+    totalBalance,  // 总资产（不包含未实现盈亏）
+    availableBalance: Number.parseFloat(account.available || "0"),
+    positionMargin: Number.parseFloat(account.positionMargin || "0"),
+    unrealisedPnl,
+    returnPercent,  // 收益率（不包含未实现盈亏）
+    initialBalance,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * 当前持仓，交易所实时数据合并数据库中的止损止盈
+ */
+async function loadPositions() {
+  const exchangeClient = getExchangeClient();
+  const exchangePositions = await exchangeClient.getPositions();
+  
+  // 从数据库获取止损止盈信息
+  const dbResult = await dbClient.execute({
+    sql: "SELECT symbol, stop_loss, profit_target, entry_order_id FROM positions WHERE account_id = ?",
+    args: [getCurrentAccountId()],
+  });
+  const dbPositionsMap = new Map(
+    dbResult.rows.map((row: any) => [row.symbol, row])
+  );
+  
+  // 过滤并格式化持仓
+  const positions = exchangePositions
+    .filter((p: any) => parsePositionSize(p.size) !== 0)
+    .map((p: any) => {
+      const size = parsePositionSize(p.size);
+      const symbol = exchangeClient.extractSymbol(p.contract);
+      const dbPos = dbPositionsMap.get(symbol);
+      const entryPrice = Number.parseFloat(p.entryPrice || "0");
+      const quantity = Math.abs(size);
+      const leverage = Number.parseInt(p.leverage || "1");
+      
+      // 开仓价值（保证金）: 从交易所 API 直接获取（Gate.io 和 Binance 都支持）
+      const openValue = Number.parseFloat(p.margin || "0");
+      
+      return {
+        symbol,
+        quantity,
+        entryPrice,
+        currentPrice: Number.parseFloat(p.markPrice || "0"),
+        liquidationPrice: Number.parseFloat(p.liqPrice || "0"),
+        unrealizedPnl: Number.parseFloat(p.unrealisedPnl || "0"),
+        leverage,
+        side: size > 0 ? "long" : "short",
+        openValue,
+        profitTarget: dbPos?.profit_target ? Number(dbPos.profit_target) : null,
+        stopLoss: dbPos?.stop_loss ? Number(dbPos.stop_loss) : null,
+        entryOrderId: dbPos?.entry_order_id || null, // 用于查询持仓时间线
+        openedAt: p.create_time || new Date().toISOString(),
+      };
+    });
+  
+  return { 
+    positions,
+    count: positions.length 
+  };
+}
+
+/**
+ * 交易币种实时价格（按账户缓存 5 秒）
+ */
+async function loadPrices() {
+  // 当前账户的交易币种（单账户部署时即 TRADING_SYMBOLS 环境变量）
+  const symbols = [...RISK_PARAMS.TRADING_SYMBOLS];
+  
+  const exchangeClient = getExchangeClient();
+  const prices: Record<string, number> = {};
+  
+  // 使用缓存的价格数据（如果存在且未过期）
+  const accountId = getCurrentAccountId();
+  const priceCache = priceCaches.get(accountId);
+  if (priceCache && Date.now() - priceCache.timestamp < PRICE_CACHE_TTL) {
+    return { prices: priceCache.prices };
+  }
+  
+  // 分批获取价格，避免并发过多导致网络拥堵
+  const BATCH_SIZE = 5; // 每批5个币种
+  for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
+    const batch = symbols.slice(i, i + BATCH_SIZE);
+    await Promise.all(
+      batch.map(async (symbol) => {
+        try {
+          const contract = exchangeClient.normalizeContract(symbol);
+          const ticker = await exchangeClient.getFuturesTicker(contract);
+          prices[symbol] = Number.parseFloat(ticker.last || "0");
+        } catch (error: any) {
+          logger.error(`获取 ${symbol} 价格失败:`, error);
+          // 如果有旧缓存，使用旧价格作为降级
+          if (priceCache && priceCache.prices[symbol]) {
+            prices[symbol] = priceCache.prices[symbol];
+            logger.warn(`使用 ${symbol} 的缓存价格: ${prices[symbol]}`);
+          } else {
+            prices[symbol] = 0;
+          }
+        }
+      })
+    );
+    // 批次之间添加短暂延迟，避免请求过快
+    if (i + BATCH_SIZE < symbols.length) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  
+  // 更新缓存
+  priceCaches.set(accountId, {
+    prices,
+    timestamp: Date.now(),
+  });
+  
+  return { prices };
+}
+
+/**
+ * 活跃条件单（止盈止损）
+ */
+async function loadActivePriceOrders() {
+  // 只返回活跃状态的条件单（已触发和已取消的不显示，因为平仓原因已在交易历史中显示）
+  const result = await dbClient.execute({
+    sql: `SELECT * FROM price_orders 
+          WHERE account_id = ? AND status = 'active'
+          ORDER BY created_at DESC`,
+    args: [getCurrentAccountId()],
+  });
+  
+  const priceOrders = result.rows.map((row: any) => ({
+    id: row.id,
+    order_id: row.order_id,
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    trigger_price: Number.parseFloat(row.trigger_price),
+    order_price: Number.parseFloat(row.order_price),
+    quantity: Number.parseFloat(row.quantity),
+    status: row.status,
+    position_order_id: row.position_order_id, // 🔧 添加关联持仓ID，用于前端分组
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    triggered_at: row.triggered_at
+  }));
+  
+  return { 
+    priceOrders,
+    count: priceOrders.length,
+    activeCount: priceOrders.length // 全部都是活跃的
+  };
+}
+
+// 实时推送：交易所快照复用上面的查询，数据库变化按自增ID增量读取
+const liveHub = new LiveUpdateHub({
+  account: loadAccountSummary,
+  positions: loadPositions,
+  prices: loadPrices,
+  priceOrders: loadActivePriceOrders,
+  async resolvedPriceOrders(ids) {
+    const result = await dbClient.execute({
+      sql: `SELECT id, order_id, symbol, side, type, trigger_price, status, position_order_id, triggered_at
+            FROM price_orders
+            WHERE account_id = ? AND id IN (${ids.map(() => "?").join(", ")})`,
+      args: [getCurrentAccountId(), ...ids],
+    });
+    return result.rows.map((row: any) => ({
+      id: Number(row.id),
+      order_id: row.order_id,
+      symbol: row.symbol,
+      side: row.side,
+      type: row.type,
+      trigger_price: Number(row.trigger_price),
+      status: row.status,
+      position_order_id: row.position_order_id,
+      triggered_at: row.triggered_at,
+    }));
+  },
+  async closeEventsAfter(lastId) {
+    const result = await dbClient.execute({
+      sql: "SELECT * FROM position_close_events WHERE account_id = ? AND id > ? ORDER BY id ASC LIMIT 50",
+      args: [getCurrentAccountId(), lastId],
+    });
+    return result.rows.map((row: any) => ({
+      id: Number(row.id),
+      symbol: row.symbol,
+      side: row.side,
+      closeReason: row.close_reason,
+      triggerType: row.trigger_type,
+      closePrice: Number(row.close_price),
+      entryPrice: Number(row.entry_price),
+      quantity: Number(row.quantity),
+      leverage: Number(row.leverage),
+      pnl: Number(row.pnl),
+      pnlPercent: Number(row.pnl_percent),
+      positionOrderId: row.position_order_id,
+      createdAt: row.created_at,
+    }));
+  },
+  async decisionsAfter(lastId) {
+    const result = await dbClient.execute({
+      sql: "SELECT * FROM agent_decisions WHERE account_id = ? AND id > ? ORDER BY id ASC LIMIT 20",
+      args: [getCurrentAccountId(), lastId],
+    });
+    return result.rows.map(row => ({ ...formatDecisionLog(row), id: Number(row.id) }));
+  },
+  async latestIds() {
+    const accountId = getCurrentAccountId();
+    const result = await dbClient.execute({
+      sql: `SELECT
+              (SELECT COALESCE(MAX(id), 0) FROM position_close_events WHERE account_id = ?) as close_event,
+              (SELECT COALESCE(MAX(id), 0) FROM agent_decisions WHERE account_id = ?) as decision`,
+      args: [accountId, accountId],
+    });
+    return {
+      closeEvent: Number(result.rows[0].close_event),
+      decision: Number(result.rows[0].decision),
+    };
+  },
+});
+
+const LIVE_KEEPALIVE_MS = 15000;
+
 export function createApiRoutes() {
   const app = new Hono();
 
   // 静态文件服务 - 需要使用绝对路径
   app.use("/*", serveStatic({ root: "./public" }));
 
+  // 账户选择：?account=<账户ID>，未指定时使用主账户，后续查询在该账户上下文中执行
+  app.use("/api/*", async (c, next) => {
+    const accountId = c.req.query("account");
+    const account = accountId ? getAccount(accountId) : getPrimaryAccount();
+    if (!account) {
+      return c.json({ error: `账户不存在: ${accountId}` }, 404);
+    }
+    await runWithAccount(account, () => next());
+  });
+
+  // 控制接口（非 GET 请求及 /api/control 查询）需要令牌认证，写操作调用写入审计日志
+  app.use("/api/*", createControlAuthMiddleware(dbClient));
+
+  /**
+   * 获取已注册的交易账户列表
+   */
+  app.get("/api/accounts", (c) => {
+    const primaryId = getPrimaryAccount().id;
+    const accounts = getAccounts().map(account => ({
+      id: account.id,
+      name: account.name,
+      exchange: account.exchangeName,
+      symbols: account.symbols,
+      strategy: account.strategy || process.env.TRADING_STRATEGY || "balanced",
+      primary: account.id === primaryId,
+    }));
+    return c.json({ accounts });
+  });
+
   /**
    * 获取账户总览
    * 
@@ -79,35 +429,7 @@ export function createApiRoutes() {
    */
   app.get("/api/account", async (c) => {
     try {
-      const exchangeClient = getExchangeClient();
-      const account = await exchangeClient.getFuturesAccount();
-      
-      // 从数据库获取初始资金
-      const initialResult = await dbClient.execute(
-        "SELECT total_value FROM account_history ORDER BY timestamp ASC LIMIT 1"
-      );
-      const initialBalance = initialResult.rows[0]
-        ? Number.parseFloat(initialResult.rows[0].total_value as string)
-        : 100;
-      
-      // 统一处理：account.total 不包含未实现盈亏（Gate.io 和 Binance 都是如此）
-      // 总资产（不含未实现盈亏）= account.total
-      const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
-      const totalBalance = Number.parseFloat(account.total || "0");
-      
-      // 收益率 = (总资产 - 初始资金) / 初始资金 * 100
-      // 总资产不包含未实现盈亏，收益率反映已实现盈亏
-      const returnPercent = ((totalBalance - initialBalance) / initialBalance) * 100;
-      
-      return c.json({
-        totalBalance,  // 总资产（不包含未实现盈亏）
-        availableBalance: Number.parseFloat(account.available || "0"),
-        positionMargin: Number.parseFloat(account.positionMargin || "0"),
-        unrealisedPnl,
-        returnPercent,  // 收益率（不包含未实现盈亏）
-        initialBalance,
-        timestamp: new Date().toISOString(),
-      });
+      return c.json(await loadAccountSummary());
     } catch (error: any) {
       return c.json({ error: error.message }, 500);
     }
@@ -118,50 +440,53 @@ export function createApiRoutes() {
    */
   app.get("/api/positions", async (c) => {
     try {
-      const exchangeClient = getExchangeClient();
-      const exchangePositions = await exchangeClient.getPositions();
-      
-      // 从数据库获取止损止盈信息
-      const dbResult = await dbClient.execute("SELECT symbol, stop_loss, profit_target FROM positions");
-      const dbPositionsMap = new Map(
-        dbResult.rows.map((row: any) => [row.symbol, row])
-      );
-      
-      // 过滤并格式化持仓
-      const positions = exchangePositions
-        .filter((p: any) => parsePositionSize(p.size) !== 0)
-        .map((p: any) => {
-          const size = parsePositionSize(p.size);
-          const symbol = exchangeClient.extractSymbol(p.contract);
-          const dbPos = dbPositionsMap.get(symbol);
-          const entryPrice = Number.parseFloat(p.entryPrice || "0");
-          const quantity = Math.abs(size);
-          const leverage = Number.parseInt(p.leverage || "1");
-          
-          // 开仓价值（保证金）: 从交易所 API 直接获取（Gate.io 和 Binance 都支持）
-          const openValue = Number.parseFloat(p.margin || "0");
-          
-          return {
-            symbol,
-            quantity,
-            entryPrice,
-            currentPrice: Number.parseFloat(p.markPrice || "0"),
-            liquidationPrice: Number.parseFloat(p.liqPrice || "0"),
-            unrealizedPnl: Number.parseFloat(p.unrealisedPnl || "0"),
-            leverage,
-            side: size > 0 ? "long" : "short",
-            openValue,
-            profitTarget: dbPos?.profit_target ? Number(dbPos.profit_target) : null,
-            stopLoss: dbPos?.stop_loss ? Number(dbPos.stop_loss) : null,
-            openedAt: p.create_time || new Date().toISOString(),
-          };
-        });
-      
-      return c.json({ 
-        positions,
-        count: positions.length 
+      return c.json(await loadPositions());
+    } catch (error: any) {
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 实时推送（SSE）：账户、持仓、价格、条件单、条件单触发、平仓事件、AI 决策
+   * 
+   * 事件名即数据类型，数据格式与对应的查询接口一致：
+   * - account / positions / prices / price_orders: 快照，内容变化时推送，连接时先推送最近一次快照
+   * - price_order_triggered / close_event / decision: 新记录产生时推送
+   */
+  app.get("/api/live", (c) => {
+    const account = getCurrentAccount() ?? getPrimaryAccount();
+    return streamSSE(c, async (stream) => {
+      let pending = Promise.resolve();
+      const unsubscribe = liveHub.subscribe(account, (event) => {
+        pending = pending
+          .then(() => stream.writeSSE({ event: event.type, id: String(event.id), data: JSON.stringify(event.data) }))
+          .catch(() => {});
       });
+      stream.onAbort(unsubscribe);
+      try {
+        while (!stream.aborted && !stream.closed) {
+          await stream.sleep(LIVE_KEEPALIVE_MS);
+          pending = pending.then(() => stream.writeSSE({ event: "ping", data: new Date().toISOString() })).catch(() => {});
+        }
+      } finally {
+        unsubscribe();
+      }
+    });
+  });
+
+  /**
+   * 获取持仓生命周期时间线（:id 为开仓订单ID entry_order_id）
+   * 包含开仓决策、开仓、止损止盈设置和移动、分批止盈、反转预警、平仓
+   */
+  app.get("/api/positions/:id/timeline", async (c) => {
+    try {
+      const timeline = await loadPositionTimeline(dbClient, c.req.param("id"));
+      if (!timeline) {
+        return c.json({ error: `持仓不存在: ${c.req.param("id")}` }, 404);
+      }
+      return c.json(timeline);
     } catch (error: any) {
+      logger.error("获取持仓时间线失败:", error);
       return c.json({ error: error.message }, 500);
     }
   });
@@ -180,17 +505,20 @@ export function createApiRoutes() {
         result = await dbClient.execute({
           sql: `SELECT timestamp, total_value, unrealized_pnl, return_percent 
                 FROM account_history 
+                WHERE account_id = ?
                 ORDER BY timestamp DESC 
                 LIMIT ?`,
-          args: [limit],
+          args: [getCurrentAccountId(), limit],
         });
       } else {
         // 如果没有传递 limit 参数，返回全部数据
-        result = await dbClient.execute(
-          `SELECT timestamp, total_value, unrealized_pnl, return_percent 
-           FROM account_history 
-           ORDER BY timestamp DESC`
-        );
+        result = await dbClient.execute({
+          sql: `SELECT timestamp, total_value, unrealized_pnl, return_percent 
+                FROM account_history 
+                WHERE account_id = ?
+                ORDER BY timestamp DESC`,
+          args: [getCurrentAccountId()],
+        });
       }
       
       const history = result.rows.map((row: any) => ({
@@ -216,12 +544,12 @@ export function createApiRoutes() {
       
       // 从数据库获取历史交易记录，按实际时间倒序（最新平仓的在最前面）
       // 使用 strftime 将不同格式的时间戳统一转换为Unix时间戳进行排序，避免字符串比较导致的排序错误
-      let sql = `SELECT * FROM trades ORDER BY strftime('%s', timestamp) DESC LIMIT ?`;
-      let args: any[] = [limit];
+      let sql = `SELECT * FROM trades WHERE account_id = ? ORDER BY strftime('%s', timestamp) DESC LIMIT ?`;
+      let args: any[] = [getCurrentAccountId(), limit];
       
       if (symbol) {
-        sql = `SELECT * FROM trades WHERE symbol = ? ORDER BY strftime('%s', timestamp) DESC LIMIT ?`;
-        args = [symbol, limit];
+        sql = `SELECT * FROM trades WHERE account_id = ? AND symbol = ? ORDER BY strftime('%s', timestamp) DESC LIMIT ?`;
+        args = [getCurrentAccountId(), symbol, limit];
       }
       
       const result = await dbClient.execute({
@@ -281,11 +609,11 @@ export function createApiRoutes() {
       const result = await dbClient.execute({
         sql: `SELECT t.*, pce.close_reason
               FROM trades t
-              LEFT JOIN position_close_events pce ON t.order_id = pce.order_id
-              WHERE t.type = 'close' 
+              LEFT JOIN position_close_events pce ON t.account_id = pce.account_id AND t.order_id = pce.order_id
+              WHERE t.account_id = ? AND t.type = 'close' 
               ORDER BY strftime('%s', t.timestamp) DESC 
               LIMIT ?`,
-        args: [limit],
+        args: [getCurrentAccountId(), limit],
       });
       
       if (!result.rows || result.rows.length === 0) {
@@ -299,13 +627,14 @@ export function createApiRoutes() {
         // 查找对应的开仓记录（同币种、同方向、时间更早）
         const openResult = await dbClient.execute({
           sql: `SELECT * FROM trades 
-                WHERE symbol = ? 
+                WHERE account_id = ?
+                AND symbol = ? 
                 AND side = ? 
                 AND type = 'open' 
                 AND timestamp < ?
                 ORDER BY timestamp DESC 
                 LIMIT 1`,
-          args: [closeRow.symbol, closeRow.side, closeRow.timestamp],
+          args: [getCurrentAccountId(), closeRow.symbol, closeRow.side, closeRow.timestamp],
         });
         
         if (openResult.rows && openResult.rows.length > 0) {
@@ -361,6 +690,7 @@ export function createApiRoutes() {
             totalFee,
             pnl,
             closeReason: closeRow.close_reason || null, // 平仓原因
+            positionOrderId: openRow.order_id, // 开仓订单ID，用于查询持仓时间线
           });
         }
       }
@@ -381,20 +711,13 @@ export function createApiRoutes() {
       
       const result = await dbClient.execute({
         sql: `SELECT * FROM agent_decisions 
+              WHERE account_id = ?
               ORDER BY timestamp DESC 
               LIMIT ?`,
-        args: [Number.parseInt(limit)],
+        args: [getCurrentAccountId(), Number.parseInt(limit)],
       });
       
-      const logs = result.rows.map((row: any) => ({
-        id: row.id,
-        timestamp: row.timestamp,
-        iteration: row.iteration,
-        decision: row.decision,
-        actionsTaken: row.actions_taken,
-        accountValue: row.account_value,
-        positionsCount: row.positions_count,
-      }));
+      const logs = result.rows.map(formatDecisionLog);
       
       return c.json({ logs });
     } catch (error: any) {
@@ -407,36 +730,42 @@ export function createApiRoutes() {
    */
   app.get("/api/stats", async (c) => {
     try {
+      const accountId = getCurrentAccountId();
       // 统计总交易次数 - 使用 pnl IS NOT NULL 来确保这是已完成的平仓交易
-      const totalTradesResult = await dbClient.execute(
-        "SELECT COUNT(*) as count FROM trades WHERE type = 'close' AND pnl IS NOT NULL"
-      );
+      const totalTradesResult = await dbClient.execute({
+        sql: "SELECT COUNT(*) as count FROM trades WHERE account_id = ? AND type = 'close' AND pnl IS NOT NULL",
+        args: [accountId],
+      });
       const totalTrades = (totalTradesResult.rows[0] as any).count;
       
       // 统计盈利交易
-      const winTradesResult = await dbClient.execute(
-        "SELECT COUNT(*) as count FROM trades WHERE type = 'close' AND pnl IS NOT NULL AND pnl > 0"
-      );
+      const winTradesResult = await dbClient.execute({
+        sql: "SELECT COUNT(*) as count FROM trades WHERE account_id = ? AND type = 'close' AND pnl IS NOT NULL AND pnl > 0",
+        args: [accountId],
+      });
       const winTrades = (winTradesResult.rows[0] as any).count;
       
       // 计算胜率
       const winRate = totalTrades > 0 ? (winTrades / totalTrades) * 100 : 0;
       
       // 计算总盈亏
-      const pnlResult = await dbClient.execute(
-        "SELECT SUM(pnl) as total_pnl FROM trades WHERE type = 'close' AND pnl IS NOT NULL"
-      );
+      const pnlResult = await dbClient.execute({
+        sql: "SELECT SUM(pnl) as total_pnl FROM trades WHERE account_id = ? AND type = 'close' AND pnl IS NOT NULL",
+        args: [accountId],
+      });
       const totalPnl = (pnlResult.rows[0] as any).total_pnl || 0;
       
       // 获取最大单笔盈利和亏损
-      const maxWinResult = await dbClient.execute(
-        "SELECT MAX(pnl) as max_win FROM trades WHERE type = 'close' AND pnl IS NOT NULL AND pnl > 0"
-      );
+      const maxWinResult = await dbClient.execute({
+        sql: "SELECT MAX(pnl) as max_win FROM trades WHERE account_id = ? AND type = 'close' AND pnl IS NOT NULL AND pnl > 0",
+        args: [accountId],
+      });
       const maxWin = (maxWinResult.rows[0] as any).max_win || 0;
       
-      const maxLossResult = await dbClient.execute(
-        "SELECT MIN(pnl) as max_loss FROM trades WHERE type = 'close' AND pnl IS NOT NULL AND pnl < 0"
-      );
+      const maxLossResult = await dbClient.execute({
+        sql: "SELECT MIN(pnl) as max_loss FROM trades WHERE account_id = ? AND type = 'close' AND pnl IS NOT NULL AND pnl < 0",
+        args: [accountId],
+      });
       const maxLoss = (maxLossResult.rows[0] as any).max_loss || 0;
       
       return c.json({
@@ -458,53 +787,7 @@ export function createApiRoutes() {
    */
   app.get("/api/prices", async (c) => {
     try {
-      const DEFAULT_TRADING_SYMBOLS = 'BTC,ETH,SOL,XRP,BNB,BCH';
-      const tradingSymbolsStr = process.env.TRADING_SYMBOLS || DEFAULT_TRADING_SYMBOLS;
-      const symbols = tradingSymbolsStr.split(",").map(s => s.trim());
-      
-      const exchangeClient = getExchangeClient();
-      const prices: Record<string, number> = {};
-      
-      // 使用缓存的价格数据（如果存在且未过期）
-      if (priceCache && Date.now() - priceCache.timestamp < PRICE_CACHE_TTL) {
-        return c.json({ prices: priceCache.prices });
-      }
-      
-      // 分批获取价格，避免并发过多导致网络拥堵
-      const BATCH_SIZE = 5; // 每批5个币种
-      for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
-        const batch = symbols.slice(i, i + BATCH_SIZE);
-        await Promise.all(
-          batch.map(async (symbol) => {
-            try {
-              const contract = exchangeClient.normalizeContract(symbol);
-              const ticker = await exchangeClient.getFuturesTicker(contract);
-              prices[symbol] = Number.parseFloat(ticker.last || "0");
-            } catch (error: any) {
-              logger.error(`获取 ${symbol} 价格失败:`, error);
-              // 如果有旧缓存，使用旧价格作为降级
-              if (priceCache && priceCache.prices[symbol]) {
-                prices[symbol] = priceCache.prices[symbol];
-                logger.warn(`使用 ${symbol} 的缓存价格: ${prices[symbol]}`);
-              } else {
-                prices[symbol] = 0;
-              }
-            }
-          })
-        );
-        // 批次之间添加短暂延迟，避免请求过快
-        if (i + BATCH_SIZE < symbols.length) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
-      
-      // 更新缓存
-      priceCache = {
-        prices,
-        timestamp: Date.now(),
-      };
-      
-      return c.json({ prices });
+      return c.json(await loadPrices());
     } catch (error: any) {
       return c.json({ error: error.message }, 500);
     }
@@ -515,9 +798,8 @@ export function createApiRoutes() {
    */
   app.get("/api/trading-symbols", async (c) => {
     try {
-      const DEFAULT_TRADING_SYMBOLS = 'BTC,ETH,SOL,XRP,BNB,BCH';
-      const tradingSymbolsStr = process.env.TRADING_SYMBOLS || DEFAULT_TRADING_SYMBOLS;
-      const symbols = tradingSymbolsStr.split(",").map(s => s.trim());
+      // 当前账户的交易币种（单账户部署时即 TRADING_SYMBOLS 环境变量）
+      const symbols = [...RISK_PARAMS.TRADING_SYMBOLS];
       
       return c.json({ symbols });
     } catch (error: any) {
@@ -530,36 +812,283 @@ export function createApiRoutes() {
    */
   app.get("/api/price-orders", async (c) => {
     try {
-      // 只返回活跃状态的条件单（已触发和已取消的不显示，因为平仓原因已在交易历史中显示）
-      const result = await dbClient.execute(
-        `SELECT * FROM price_orders 
-         WHERE status = 'active'
-         ORDER BY created_at DESC`
-      );
-      
-      const priceOrders = result.rows.map((row: any) => ({
-        id: row.id,
-        order_id: row.order_id,
-        symbol: row.symbol,
-        side: row.side,
-        type: row.type,
-        trigger_price: Number.parseFloat(row.trigger_price),
-        order_price: Number.parseFloat(row.order_price),
-        quantity: Number.parseFloat(row.quantity),
-        status: row.status,
-        position_order_id: row.position_order_id, // 🔧 添加关联持仓ID，用于前端分组
-        created_at: row.created_at,
-        updated_at: row.updated_at,
-        triggered_at: row.triggered_at
-      }));
+      return c.json(await loadActivePriceOrders());
+    } catch (error: any) {
+      logger.error('获取条件单失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 获取回撤熔断状态和最近的状态切换记录
+   */
+  app.get("/api/trading-state", async (c) => {
+    try {
+      const record = await loadTradingState(dbClient);
+      const transitions = await getTradingStateTransitions(dbClient);
+      return c.json({
+        enabled: RISK_PARAMS.CIRCUIT_BREAKER_ENABLED,
+        state: record?.state ?? "normal",
+        reason: record?.reason ?? "",
+        peakEquity: record?.peakEquity ?? null,
+        dayStartEquity: record?.dayStartEquity ?? null,
+        resetAt: record?.resetAt || null,
+        updatedAt: record?.updatedAt ?? null,
+        transitions,
+      });
+    } catch (error: any) {
+      logger.error('获取交易状态失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 手动重置回撤熔断状态（强制平仓/停止交易后恢复交易）
+   * 以当前净值作为新的峰值和当日起始净值
+   */
+  app.post("/api/trading-state/reset", async (c) => {
+    try {
+      const body = await c.req.json().catch(() => ({}));
+      const reason = typeof body?.reason === "string" && body.reason.trim() ? body.reason.trim() : "手动重置";
       
-      return c.json({ 
-        priceOrders,
-        count: priceOrders.length,
-        activeCount: priceOrders.length // 全部都是活跃的
+      const account = await getExchangeClient().getFuturesAccount();
+      const equity = Number.parseFloat(account.total || "0") + Number.parseFloat(account.unrealisedPnl || "0");
+      const record = await resetTradingState(dbClient, equity, reason);
+      return c.json({ success: true, state: record.state, peakEquity: record.peakEquity, resetAt: record.resetAt });
+    } catch (error: any) {
+      logger.error('重置交易状态失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 绩效分析汇总：盈利因子、期望值、R 倍数、持仓时长、夏普/索提诺/卡玛、回撤区间和各维度分组
+   * 参数: ?days=N 只统计最近 N 天
+   */
+  app.get("/api/analytics", async (c) => {
+    try {
+      const report = await generatePerformanceReport(dbClient, { since: parseAnalyticsSince(c.req.query("days")) });
+      return c.json(report);
+    } catch (error: any) {
+      logger.error('生成绩效分析失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 逐笔 R 倍数和分布
+   */
+  app.get("/api/analytics/r-multiples", async (c) => {
+    try {
+      const trades = await loadClosedTrades(dbClient, parseAnalyticsSince(c.req.query("days")));
+      return c.json({
+        stats: computeRMultipleStats(trades),
+        trades: trades.map((t) => ({
+          symbol: t.symbol,
+          side: t.side,
+          entryPrice: t.entryPrice,
+          exitPrice: t.exitPrice,
+          initialStopLoss: t.initialStopLoss,
+          pnl: t.pnl,
+          rMultiple: t.rMultiple,
+          strategyType: t.strategyType,
+          openedAt: t.openedAt,
+          closedAt: t.closedAt,
+        })),
       });
     } catch (error: any) {
-      logger.error('获取条件单失败:', error);
+      logger.error('获取R倍数分析失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 按维度分组统计: ?by=symbol|strategy_type|market_state|hour
+   */
+  app.get("/api/analytics/breakdown", async (c) => {
+    try {
+      const by = c.req.query("by") || "symbol";
+      if (!BREAKDOWN_DIMENSIONS.includes(by as BreakdownDimension)) {
+        return c.json({ error: `不支持的分组维度: ${by}，可选: ${BREAKDOWN_DIMENSIONS.join(", ")}` }, 400);
+      }
+      const trades = await loadClosedTrades(dbClient, parseAnalyticsSince(c.req.query("days")));
+      return c.json({ by, rows: computeBreakdown(trades, by as BreakdownDimension) });
+    } catch (error: any) {
+      logger.error('获取分组统计失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 回撤区间: ?min=最小回撤百分比（默认1）
+   */
+  app.get("/api/analytics/drawdowns", async (c) => {
+    try {
+      const min = Number.parseFloat(c.req.query("min") || "1");
+      const equity = await loadEquityCurve(dbClient, parseAnalyticsSince(c.req.query("days")));
+      return c.json({ drawdowns: findDrawdownEpisodes(equity, Number.isFinite(min) ? min : 1) });
+    } catch (error: any) {
+      logger.error('获取回撤分析失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 获取各调度组件的暂停状态
+   */
+  app.get("/api/control/status", (c) => {
+    return c.json({ components: getComponentStates() });
+  });
+
+  /**
+   * 获取控制接口审计日志
+   */
+  app.get("/api/control/audit", async (c) => {
+    try {
+      const limit = Math.min(Number.parseInt(c.req.query("limit") || "50") || 50, 500);
+      const records = await getControlAuditLog(dbClient, limit);
+      return c.json({ records });
+    } catch (error: any) {
+      logger.error('获取审计日志失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 暂停/恢复交易循环或监控服务
+   * 请求体: { component: "trading-loop" | "price-order-monitor" | ... | "all" }
+   */
+  for (const action of ["pause", "resume"] as const) {
+    app.post(`/api/control/${action}`, async (c) => {
+      try {
+        const body = await c.req.json().catch(() => ({}));
+        const components = parseComponents(body?.component);
+        if (!components) {
+          return c.json({ error: `未知组件: ${body?.component}，可选: ${SCHEDULER_COMPONENTS.join(", ")}, all` }, 400);
+        }
+        for (const component of components) {
+          await setComponentPaused(dbClient, component, action === "pause");
+        }
+        return c.json({ success: true, components: getComponentStates() });
+      } catch (error: any) {
+        logger.error(`${action === "pause" ? "暂停" : "恢复"}组件失败:`, error);
+        return c.json({ error: error.message }, 500);
+      }
+    });
+  }
+
+  /**
+   * 市价平掉指定币种的持仓
+   */
+  app.post("/api/control/positions/:symbol/close", async (c) => {
+    try {
+      const symbol = c.req.param("symbol").toUpperCase().replace(/_USDT$/, "");
+      const closed = await closeAllPositions(`手动平仓 ${symbol}（控制接口）`, symbol);
+      if (closed.length === 0) {
+        return c.json({ error: `没有 ${symbol} 的持仓或平仓失败` }, 404);
+      }
+      return c.json({ success: true, closed });
+    } catch (error: any) {
+      logger.error('手动平仓失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 市价平掉所有持仓
+   */
+  app.post("/api/control/positions/close-all", async (c) => {
+    try {
+      const closed = await closeAllPositions("手动清仓（控制接口）");
+      return c.json({ success: true, closed });
+    } catch (error: any) {
+      logger.error('手动清仓失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 手动开仓：经过与 AI 开仓相同的风控检查，成交后自动设置止损止盈条件单
+   */
+  app.post("/api/control/orders", async (c) => {
+    try {
+      const parsed = manualOrderSchema.safeParse(await c.req.json().catch(() => null));
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`);
+        return c.json({ error: `请求参数无效: ${issues.join("；")}` }, 400);
+      }
+      const order = parsed.data;
+
+      // 币种按当前账户的交易币种列表校验（开仓服务内部完成）
+      const result = await openPosition({
+        symbol: order.symbol,
+        side: order.side,
+        leverage: order.leverage,
+        amountUsdt: order.amountUsdt,
+        strategyType: "manual",
+      });
+      if (!result.success) {
+        return c.json({ error: result.message || "开仓失败", result }, 400);
+      }
+
+      // 指定了止损止盈时覆盖自动设置的科学止损（服务内部会拒绝放宽止损）
+      let stopLossResult: UpdatePositionStopLossResult | null = null;
+      if (order.stopLoss !== undefined || order.takeProfit !== undefined) {
+        stopLossResult = await updatePositionStopLoss({
+          symbol: order.symbol,
+          stopLoss: order.stopLoss,
+          takeProfit: order.takeProfit,
+        });
+        if (!stopLossResult.success) {
+          logger.warn(`⚠️ ${order.symbol} 手动开仓成功但设置止损止盈失败: ${stopLossResult.message}`);
+        }
+      }
+      return c.json({ success: true, result, stopLossResult });
+    } catch (error: any) {
+      logger.error('手动开仓失败:', error);
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  /**
+   * 取消条件单（先撤销交易所订单，成功后再更新本地状态）
+   */
+  app.post("/api/control/price-orders/:id/cancel", async (c) => {
+    try {
+      const result = await dbClient.execute({
+        sql: "SELECT * FROM price_orders WHERE account_id = ? AND id = ?",
+        args: [getCurrentAccountId(), c.req.param("id")],
+      });
+      const priceOrder: any = result.rows[0];
+      if (!priceOrder) {
+        return c.json({ error: `条件单不存在: ${c.req.param("id")}` }, 404);
+      }
+      if (priceOrder.status !== "active") {
+        return c.json({ error: `条件单状态为 ${priceOrder.status}，无法取消` }, 409);
+      }
+
+      // 条件单需走条件单撤单接口，普通订单的 cancelOrder 对条件单无效
+      const exchangeClient = getExchangeClient();
+      const cancelResult = await exchangeClient.cancelPriceOrder(
+        exchangeClient.normalizeContract(priceOrder.symbol),
+        priceOrder.order_id
+      );
+      if (!cancelResult.success) {
+        logger.warn(`⚠️ 取消条件单失败: ${priceOrder.symbol} ${priceOrder.type} ${priceOrder.order_id} - ${cancelResult.message}`);
+        return c.json(
+          { error: cancelResult.message || "交易所取消条件单失败", orderId: priceOrder.order_id },
+          cancelResult.notFound ? 404 : 502
+        );
+      }
+
+      await dbClient.execute({
+        sql: "UPDATE price_orders SET status = 'cancelled', updated_at = ? WHERE account_id = ? AND id = ?",
+        args: [getChinaTimeISO(), getCurrentAccountId(), priceOrder.id],
+      });
+      logger.info(`✅ 已手动取消条件单: ${priceOrder.symbol} ${priceOrder.type} ${priceOrder.order_id}`);
+      return c.json({ success: true, id: priceOrder.id, orderId: priceOrder.order_id });
+    } catch (error: any) {
+      logger.error('取消条件单失败:', error);
       return c.json({ error: error.message }, 500);
     }
   });
@@ -0,0 +1,109 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测命令行工具
+ *
+ * 用法：
+ *   tsx --env-file=.env ./src/backtest/cli.ts download --symbols BTC,ETH --timeframes 1m --start 2024-01-01 --end 2024-03-31
+ *   tsx --env-file=.env ./src/backtest/cli.ts run --start 2024-01-08 --end 2024-03-31 [--symbols BTC,ETH] [--interval 15]
+ *
+ * 说明：
+ *   - 回测使用独立数据库 BACKTEST_DATABASE_URL（默认 file:./.voltagent/backtest.db），不会影响实盘数据
+ *   - 只需下载最小周期K线（如 1m），更大周期由回测交易所自动聚合
+ *   - 回测开始前需要约 7 天的预热数据用于计算指标
+ */
+
+// 解析命令行参数
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options: Record<string, string> = {};
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'run';
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--') && i + 1 < args.length) {
+      options[args[i].slice(2)] = args[i + 1];
+      i++;
+    }
+  }
+
+  return { command, options };
+}
+
+function parseDate(value: string | undefined, name: string): number {
+  if (!value) {
+    throw new Error(`缺少参数 --${name}（格式：YYYY-MM-DD）`);
+  }
+  const time = new Date(value.includes('T') ? value : `${value}T00:00:00Z`).getTime();
+  if (!Number.isFinite(time)) {
+    throw new Error(`无效的日期参数 --${name}: ${value}`);
+  }
+  return time;
+}
+
+async function main() {
+  const { command, options } = parseArgs();
+
+  // 必须在加载交易模块之前设置环境变量（各模块在导入时创建数据库连接）
+  process.env.EXCHANGE_NAME = 'backtest';
+  process.env.DATABASE_URL = process.env.BACKTEST_DATABASE_URL || 'file:./.voltagent/backtest.db';
+  if (options.symbols) {
+    process.env.TRADING_SYMBOLS = options.symbols;
+  }
+  if (options.interval) {
+    process.env.TRADING_INTERVAL_MINUTES = options.interval;
+  }
+
+  const { initDatabase } = await import("../database/init");
+  await initDatabase();
+
+  const startTime = parseDate(options.start, 'start');
+  const endTime = parseDate(options.end, 'end');
+
+  if (command === 'download') {
+    const { downloadHistoricalCandles } = await import("./data/HistoricalDataLoader");
+    await downloadHistoricalCandles({
+      symbols: (options.symbols || process.env.TRADING_SYMBOLS || 'BTC,ETH').split(',').map(s => s.trim()),
+      timeframes: (options.timeframes || '1m').split(',').map(s => s.trim()),
+      startTime,
+      endTime,
+    });
+    return;
+  }
+
+  if (command === 'run') {
+    const { runBacktest } = await import("./core/BacktestEngine");
+    const result = await runBacktest({
+      startTime,
+      endTime,
+      intervalMinutes: Number.parseInt(process.env.TRADING_INTERVAL_MINUTES || '5'),
+      warmupHours: options.warmup ? Number.parseInt(options.warmup) : undefined,
+    });
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  throw new Error(`未知命令: ${command}（可用命令：download, run）`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ 回测失败:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,179 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测引擎 - 在模拟时钟下逐周期回放历史K线，
+ * 复用真实的 executeTradingDecision / 条件单监控 / 账户记录流程
+ */
+import { createClient } from "@libsql/client";
+import { createLogger } from "../../utils/logger";
+import { setSimulatedClock } from "../../utils/timeUtils";
+import { RISK_PARAMS } from "../../config/riskParams";
+import { getExchangeClient } from "../../exchanges";
+import { BacktestExchangeClient } from "../exchanges/BacktestExchangeClient";
+import { loadCandles, getStoredTimeframes } from "../data/HistoricalDataLoader";
+import {
+  executeTradingDecision,
+  initTradingSystem,
+  setIterationCount,
+  setTradingStartTime,
+} from "../../scheduler/tradingLoop";
+import { recordAccountAssets } from "../../scheduler/accountRecorder";
+import { PriceOrderMonitor } from "../../scheduler/priceOrderMonitor";
+import { getCurrentAccountId } from "../../utils/accountContext";
+
+const logger = createLogger({
+  name: "backtest-engine",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/**
+ * 回测配置
+ */
+export interface BacktestConfig {
+  startTime: number;            // 回测开始时间（毫秒）
+  endTime: number;              // 回测结束时间（毫秒）
+  intervalMinutes: number;      // 交易决策周期（分钟）
+  warmupHours?: number;         // 指标预热数据（小时），默认 7 天以满足1小时K线168根的需求
+  symbols?: string[];           // 默认使用 RISK_PARAMS.TRADING_SYMBOLS
+}
+
+/**
+ * 回测结果
+ */
+export interface BacktestResult {
+  iterations: number;
+  initialBalance: number;
+  finalEquity: number;
+  returnPercent: number;
+  maxDrawdownPercent: number;
+  totalFees: number;
+  tradeCount: number;
+  liquidationCount: number;
+  openPositions: number;
+}
+
+/**
+ * 清空回测数据库中的交易数据（保留历史K线）
+ */
+async function resetTradingTables(initialBalance: number, startTime: number): Promise<void> {
+  const tables = [
+    "trades",
+    "positions",
+    "account_history",
+    "trading_signals",
+    "agent_decisions",
+    "price_orders",
+    "position_close_events",
+    "partial_take_profit_history",
+    "inconsistent_states",
+  ];
+  for (const table of tables) {
+    await dbClient.execute(`DELETE FROM ${table}`);
+  }
+
+  await dbClient.execute({
+    sql: `INSERT INTO account_history
+          (account_id, timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [getCurrentAccountId(), new Date(startTime).toISOString(), initialBalance, initialBalance, 0, 0, 0],
+  });
+}
+
+/**
+ * 运行回测
+ */
+export async function runBacktest(config: BacktestConfig): Promise<BacktestResult> {
+  const exchangeClient = getExchangeClient();
+  if (!(exchangeClient instanceof BacktestExchangeClient)) {
+    throw new Error("回测需要设置 EXCHANGE_NAME=backtest");
+  }
+
+  const symbols = config.symbols || [...RISK_PARAMS.TRADING_SYMBOLS];
+  const warmupMs = (config.warmupHours ?? 7 * 24) * 60 * 60 * 1000;
+  const intervalMs = config.intervalMinutes * 60 * 1000;
+
+  // 1. 加载历史K线（含预热数据）
+  for (const symbol of symbols) {
+    const timeframes = await getStoredTimeframes(symbol);
+    if (timeframes.length === 0) {
+      throw new Error(`backtest_candles 中没有 ${symbol} 的K线数据，请先运行 npm run backtest:download-data`);
+    }
+    for (const timeframe of timeframes) {
+      const candles = await loadCandles(symbol, timeframe, config.startTime - warmupMs, config.endTime);
+      exchangeClient.loadCandles(symbol, timeframe, candles);
+    }
+  }
+
+  // 2. 重置交易数据并接管系统时钟
+  await resetTradingTables(exchangeClient.getInitialBalance(), config.startTime);
+  exchangeClient.setCurrentTime(config.startTime);
+  setSimulatedClock(() => exchangeClient.getCurrentTime());
+  setTradingStartTime(new Date(config.startTime));
+  setIterationCount(0);
+
+  const priceOrderMonitor = new PriceOrderMonitor(dbClient, exchangeClient);
+  let iterations = 0;
+  let peakEquity = exchangeClient.getInitialBalance();
+  let maxDrawdownPercent = 0;
+
+  logger.info(`🚀 开始回测: ${new Date(config.startTime).toISOString()} -> ${new Date(config.endTime).toISOString()}, 周期=${config.intervalMinutes}分钟, 币种=${symbols.join(",")}`);
+
+  try {
+    await initTradingSystem();
+
+    for (let time = config.startTime; time <= config.endTime; time += intervalMs) {
+      // 3. 推进时钟：处理期间的限价单、止损止盈和强平
+      exchangeClient.advanceTo(time);
+
+      // 4. 与实盘一致：先由条件单监控同步已触发的平仓，再执行交易决策
+      await priceOrderMonitor.checkTriggeredOrders();
+      await executeTradingDecision();
+      await recordAccountAssets();
+      iterations++;
+
+      const equity = exchangeClient.getSummary().equity;
+      peakEquity = Math.max(peakEquity, equity);
+      const drawdown = peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0;
+      maxDrawdownPercent = Math.max(maxDrawdownPercent, drawdown);
+    }
+  } finally {
+    setSimulatedClock(null);
+  }
+
+  const summary = exchangeClient.getSummary();
+  const result: BacktestResult = {
+    iterations,
+    initialBalance: summary.initialBalance,
+    finalEquity: summary.equity,
+    returnPercent: ((summary.equity - summary.initialBalance) / summary.initialBalance) * 100,
+    maxDrawdownPercent,
+    totalFees: summary.totalFees,
+    tradeCount: summary.tradeCount,
+    liquidationCount: summary.liquidationCount,
+    openPositions: summary.openPositions,
+  };
+
+  logger.info(`✅ 回测完成: 周期数=${result.iterations}, 最终净值=${result.finalEquity.toFixed(2)} USDT, 收益率=${result.returnPercent.toFixed(2)}%, 最大回撤=${result.maxDrawdownPercent.toFixed(2)}%, 手续费=${result.totalFees.toFixed(2)} USDT, 成交笔数=${result.tradeCount}, 强平次数=${result.liquidationCount}`);
+
+  return result;
+}
@@ -0,0 +1,177 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 历史数据加载器 - 下载并读写 backtest_candles 表
+ */
+import { createClient } from "@libsql/client";
+import { createLogger } from "../../utils/logger";
+import type { CandleData } from "../../exchanges/IExchangeClient";
+import { intervalToMs } from "../exchanges/BacktestExchangeClient";
+
+const logger = createLogger({
+  name: "backtest-data",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/**
+ * 历史数据下载配置
+ */
+export interface HistoricalDataConfig {
+  symbols: string[];            // ['BTC', 'ETH', 'SOL']
+  timeframes: string[];         // ['1m', '5m', '1h']
+  startTime: number;            // 毫秒时间戳
+  endTime: number;              // 毫秒时间戳
+}
+
+/**
+ * 保存K线到 backtest_candles（已存在的K线会被忽略）
+ */
+export async function saveCandles(
+  symbol: string,
+  timeframe: string,
+  candles: CandleData[],
+  exchange: string = 'binance'
+): Promise<number> {
+  if (candles.length === 0) {
+    return 0;
+  }
+
+  const statements = candles.map(c => ({
+    sql: `INSERT OR IGNORE INTO backtest_candles
+          (symbol, timeframe, timestamp, open, high, low, close, volume, exchange)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      symbol,
+      timeframe,
+      c.timestamp,
+      Number.parseFloat(c.open),
+      Number.parseFloat(c.high),
+      Number.parseFloat(c.low),
+      Number.parseFloat(c.close),
+      Number.parseFloat(c.volume),
+      exchange,
+    ],
+  }));
+
+  await dbClient.batch(statements, "write");
+  return candles.length;
+}
+
+/**
+ * 从 backtest_candles 读取指定时间范围的K线
+ */
+export async function loadCandles(
+  symbol: string,
+  timeframe: string,
+  startTime?: number,
+  endTime?: number
+): Promise<CandleData[]> {
+  const result = await dbClient.execute({
+    sql: `SELECT timestamp, open, high, low, close, volume FROM backtest_candles
+          WHERE symbol = ? AND timeframe = ? AND timestamp >= ? AND timestamp < ?
+          ORDER BY timestamp ASC`,
+    args: [symbol, timeframe, startTime ?? 0, endTime ?? Number.MAX_SAFE_INTEGER],
+  });
+
+  return result.rows.map(row => ({
+    timestamp: Number(row.timestamp),
+    open: String(row.open),
+    high: String(row.high),
+    low: String(row.low),
+    close: String(row.close),
+    volume: String(row.volume),
+  }));
+}
+
+/**
+ * 获取某个币种已存储的K线周期
+ */
+export async function getStoredTimeframes(symbol: string): Promise<string[]> {
+  const result = await dbClient.execute({
+    sql: `SELECT DISTINCT timeframe FROM backtest_candles WHERE symbol = ?`,
+    args: [symbol],
+  });
+  return result.rows.map(row => String(row.timeframe));
+}
+
+/**
+ * 从 Binance U本位合约公开接口分页下载历史K线
+ * 支持增量更新：已存储的最后一根K线之前的数据不会重复下载
+ */
+export async function downloadHistoricalCandles(config: HistoricalDataConfig): Promise<void> {
+  const baseUrl = 'https://fapi.binance.com';
+  const pageLimit = 1500;
+
+  for (const symbol of config.symbols) {
+    for (const timeframe of config.timeframes) {
+      const intervalMs = intervalToMs(timeframe);
+
+      // 增量更新：从已有数据的下一根K线开始
+      const lastResult = await dbClient.execute({
+        sql: `SELECT MAX(timestamp) as last FROM backtest_candles
+              WHERE symbol = ? AND timeframe = ? AND timestamp >= ? AND timestamp < ?`,
+        args: [symbol, timeframe, config.startTime, config.endTime],
+      });
+      const lastTimestamp = lastResult.rows[0]?.last;
+      let cursor = lastTimestamp ? Number(lastTimestamp) + intervalMs : config.startTime;
+      let total = 0;
+
+      logger.info(`📥 下载 ${symbol} ${timeframe} K线: ${new Date(cursor).toISOString()} -> ${new Date(config.endTime).toISOString()}`);
+
+      while (cursor < config.endTime) {
+        const url = new URL('/fapi/v1/klines', baseUrl);
+        url.searchParams.set('symbol', `${symbol}USDT`);
+        url.searchParams.set('interval', timeframe);
+        url.searchParams.set('startTime', cursor.toString());
+        url.searchParams.set('endTime', (config.endTime - 1).toString());
+        url.searchParams.set('limit', pageLimit.toString());
+
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`下载 ${symbol} ${timeframe} K线失败: HTTP ${response.status} ${await response.text()}`);
+        }
+        const rows = await response.json() as any[][];
+        if (rows.length === 0) {
+          break;
+        }
+
+        const candles: CandleData[] = rows.map(k => ({
+          timestamp: Number(k[0]),
+          open: k[1].toString(),
+          high: k[2].toString(),
+          low: k[3].toString(),
+          close: k[4].toString(),
+          volume: k[5].toString(),
+        }));
+
+        total += await saveCandles(symbol, timeframe, candles, 'binance');
+        cursor = candles[candles.length - 1].timestamp + intervalMs;
+
+        // 控制请求频率，避免触发限流
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+
+      logger.info(`✅ ${symbol} ${timeframe} 下载完成，新增 ${total} 根K线`);
+    }
+  }
+}
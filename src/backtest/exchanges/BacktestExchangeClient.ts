@@ -0,0 +1,683 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测交易所客户端 - 基于本地历史K线模拟撮合
+ *
+ * 设计要点：
+ * - 使用模拟时钟，只返回当前模拟时间之前已收盘的K线，杜绝未来函数
+ * - 市价单按当前价格 + 滑点成交，收取 Taker 手续费
+ * - 限价单挂单，K线最高/最低价穿越时按限价成交，收取 Maker 手续费
+ * - 条件单（止损/止盈）与强平在 advanceTo() 推进时间时逐根K线检测
+ * - 同一根K线内同时触及止损和止盈时，保守地假设先触发止损
+ * - 撮合、保证金和强平逻辑由 SimulatedExchange 实现（与模拟盘共用），本类只负责模拟时钟和K线行情
+ * - 按 U本位正向合约处理（数量为币数，乘数为1），不模拟资金费率
+ */
+import { createLogger } from "../../utils/logger";
+import { RISK_PARAMS } from "../../config/riskParams";
+import type {
+  IExchangeClient,
+  ExchangeConfig,
+  TickerInfo,
+  CandleData,
+  AccountInfo,
+  PositionInfo,
+  OrderParams,
+  OrderResponse,
+  ContractInfo,
+  TradeRecord,
+  SettlementRecord,
+  PriceOrderCancelResult,
+} from "../../exchanges/IExchangeClient";
+import { SimulatedExchange, type FeeProfile } from "../../exchanges/SimulatedExchange";
+
+const logger = createLogger({
+  name: "backtest-exchange",
+  level: "info",
+});
+
+/**
+ * 将K线周期转换为毫秒
+ */
+export function intervalToMs(interval: string): number {
+  const match = interval.match(/^(\d+)([mhdw])$/);
+  if (!match) {
+    throw new Error(`不支持的K线周期: ${interval}`);
+  }
+  const value = Number.parseInt(match[1]);
+  const unitMs: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+  };
+  return value * unitMs[match[2]];
+}
+
+export class BacktestExchangeClient implements IExchangeClient {
+  private readonly config: ExchangeConfig;
+  private readonly feeProfile: FeeProfile;
+  private readonly makerFeeRate: number;
+  private readonly takerFeeRate: number;
+  private readonly slippageRate: number;
+  private readonly maintenanceMarginRate: number;
+
+  // ============ 模拟时钟 ============
+  private currentTime = 0;
+
+  // ============ 历史K线数据 ============
+  // contract -> interval -> 按时间升序的K线
+  private readonly candles: Map<string, Map<string, CandleData[]>> = new Map();
+  // 聚合K线缓存：contract-interval -> 聚合结果
+  private readonly aggregatedCandles: Map<string, CandleData[]> = new Map();
+
+  // ============ 模拟账户状态 ============
+  private initialBalance: number;
+  private readonly ledger: SimulatedExchange;
+  private readonly trades: TradeRecord[] = [];
+  private orderSeq = 0;
+  private tradeSeq = 0;
+
+  constructor(config: ExchangeConfig) {
+    this.config = config;
+
+    const feeProfile = (process.env.BACKTEST_FEE_EXCHANGE || 'binance').toLowerCase();
+    this.feeProfile = feeProfile === 'gate' ? 'gate' : 'binance';
+    const feeRates = RISK_PARAMS.FEE_RATES[this.feeProfile][config.isTestnet ? 'testnet' : 'mainnet'];
+    this.makerFeeRate = feeRates.maker;
+    this.takerFeeRate = feeRates.taker;
+
+    this.slippageRate = Number.parseFloat(process.env.BACKTEST_SLIPPAGE_PERCENT || '0.02') / 100;
+    this.maintenanceMarginRate = Number.parseFloat(process.env.BACKTEST_MAINTENANCE_MARGIN_RATE || '0.004');
+    this.initialBalance = Number.parseFloat(process.env.BACKTEST_INITIAL_BALANCE || '1000');
+
+    this.ledger = new SimulatedExchange({
+      label: '回测',
+      initialBalance: this.initialBalance,
+      makerFeeRate: this.makerFeeRate,
+      takerFeeRate: this.takerFeeRate,
+      slippageRate: this.slippageRate,
+      maintenanceMarginRate: this.maintenanceMarginRate,
+      defaultLeverage: Number.parseInt(process.env.BACKTEST_DEFAULT_LEVERAGE || '10'),
+      now: () => this.currentTime,
+      nextOrderId: () => `bt-${++this.orderSeq}`,
+      tradeId: () => `bt-trade-${++this.tradeSeq}`,
+      listener: {
+        onTrade: trade => {
+          this.trades.push(trade);
+        },
+      },
+    });
+
+    logger.info(`回测交易所初始化完成: 初始资金=${this.initialBalance} USDT, 费率参考=${this.feeProfile} (maker=${this.makerFeeRate}, taker=${this.takerFeeRate}), 滑点=${(this.slippageRate * 100).toFixed(3)}%`);
+  }
+
+  // ============ 回测专用方法 ============
+
+  /**
+   * 加载历史K线（按时间升序存储）
+   */
+  loadCandles(contract: string, interval: string, candles: CandleData[]): void {
+    const normalized = this.normalizeContract(contract);
+    if (!this.candles.has(normalized)) {
+      this.candles.set(normalized, new Map());
+    }
+    const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    this.candles.get(normalized)!.set(interval, sorted);
+
+    // 清除该合约的聚合缓存
+    for (const key of this.aggregatedCandles.keys()) {
+      if (key.startsWith(`${normalized}-`)) {
+        this.aggregatedCandles.delete(key);
+      }
+    }
+
+    logger.info(`已加载 ${normalized} ${interval} K线 ${sorted.length} 根`);
+  }
+
+  /**
+   * 获取已加载的合约列表
+   */
+  getLoadedContracts(): string[] {
+    return Array.from(this.candles.keys());
+  }
+
+  /**
+   * 获取所有已加载数据覆盖的时间范围
+   */
+  getDataRange(): { start: number; end: number } | null {
+    let start = Number.POSITIVE_INFINITY;
+    let end = 0;
+    for (const contract of this.candles.keys()) {
+      const base = this.getBaseSeries(contract);
+      if (!base || base.candles.length === 0) continue;
+      start = Math.min(start, base.candles[0].timestamp);
+      end = Math.max(end, base.candles[base.candles.length - 1].timestamp + base.intervalMs);
+    }
+    return end > 0 ? { start, end } : null;
+  }
+
+  /**
+   * 获取当前模拟时间（毫秒）
+   */
+  getCurrentTime(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * 设置模拟时间（不处理中间的K线，用于回测开始前定位）
+   */
+  setCurrentTime(time: number): void {
+    this.currentTime = time;
+  }
+
+  /**
+   * 推进模拟时间，逐根处理期间收盘的最小周期K线：
+   * 撮合限价单、检测止损/止盈条件单和强平
+   */
+  advanceTo(targetTime: number): void {
+    if (targetTime <= this.currentTime) {
+      return;
+    }
+
+    // 收集所有合约在 (currentTime, targetTime] 内收盘的K线，按时间顺序处理
+    const events: { contract: string; candle: CandleData; closeTime: number }[] = [];
+    for (const contract of this.candles.keys()) {
+      const base = this.getBaseSeries(contract);
+      if (!base) continue;
+      for (const candle of base.candles) {
+        const closeTime = candle.timestamp + base.intervalMs;
+        if (closeTime <= this.currentTime) continue;
+        if (closeTime > targetTime) break;
+        events.push({ contract, candle, closeTime });
+      }
+    }
+    events.sort((a, b) => a.closeTime - b.closeTime);
+
+    for (const event of events) {
+      this.currentTime = event.closeTime;
+      this.processCandle(event.contract, event.candle);
+    }
+
+    this.currentTime = targetTime;
+  }
+
+  /**
+   * 获取初始资金
+   */
+  getInitialBalance(): number {
+    return this.initialBalance;
+  }
+
+  /**
+   * 获取回测统计摘要
+   */
+  getSummary(): {
+    initialBalance: number;
+    walletBalance: number;
+    equity: number;
+    totalFees: number;
+    tradeCount: number;
+    liquidationCount: number;
+    openPositions: number;
+  } {
+    const { walletBalance, totalFees, liquidationCount, positions } = this.ledger;
+    return {
+      initialBalance: this.initialBalance,
+      walletBalance,
+      equity: walletBalance + this.ledger.getTotalUnrealisedPnl(c => this.getCurrentPrice(c)),
+      totalFees,
+      tradeCount: this.trades.length,
+      liquidationCount,
+      openPositions: positions.size,
+    };
+  }
+
+  /**
+   * 获取手续费参考的交易所（供 FeeService 估算手续费使用）
+   */
+  getFeeProfile(): FeeProfile {
+    return this.feeProfile;
+  }
+
+  // ============ IExchangeClient 实现 ============
+
+  getExchangeName(): string {
+    return "backtest";
+  }
+
+  isTestnet(): boolean {
+    return this.config.isTestnet;
+  }
+
+  normalizeContract(symbol: string): string {
+    // 与 Binance 保持一致的合约格式 BTCUSDT
+    let normalized = symbol.replace('_', '').replace('/', '').replace(':USDT', '');
+    if (!normalized.endsWith('USDT')) {
+      normalized = normalized + 'USDT';
+    }
+    return normalized;
+  }
+
+  extractSymbol(contract: string): string {
+    const normalized = this.normalizeContract(contract);
+    return normalized.replace(/USDT$/, '');
+  }
+
+  async getFuturesTicker(contract: string, retries?: number, cacheOptions?: { ttl?: number; skipCache?: boolean }, includeMarkPrice: boolean = false): Promise<TickerInfo> {
+    const normalized = this.normalizeContract(contract);
+    const price = this.getCurrentPrice(normalized);
+
+    // 24小时统计
+    const base = this.getBaseSeries(normalized);
+    const dayStart = this.currentTime - 24 * 60 * 60 * 1000;
+    let high = price;
+    let low = price;
+    let volume = 0;
+    let openPrice = price;
+    if (base) {
+      const dayCandles = base.candles.filter(c => c.timestamp >= dayStart && c.timestamp + base.intervalMs <= this.currentTime);
+      if (dayCandles.length > 0) {
+        openPrice = Number.parseFloat(dayCandles[0].open);
+        for (const c of dayCandles) {
+          high = Math.max(high, Number.parseFloat(c.high));
+          low = Math.min(low, Number.parseFloat(c.low));
+          volume += Number.parseFloat(c.volume);
+        }
+      }
+    }
+
+    const result: TickerInfo = {
+      contract: normalized,
+      last: price.toString(),
+      volume24h: volume.toString(),
+      high24h: high.toString(),
+      low24h: low.toString(),
+      change24h: openPrice > 0 ? (((price - openPrice) / openPrice) * 100).toFixed(2) : '0',
+    };
+
+    if (includeMarkPrice) {
+      result.markPrice = price.toString();
+      result.indexPrice = price.toString();
+    }
+
+    return result;
+  }
+
+  async getFuturesCandles(
+    contract: string,
+    interval: string = '1h',
+    limit: number = 100,
+    retries?: number,
+    cacheOptions?: { ttl?: number; skipCache?: boolean }
+  ): Promise<CandleData[]> {
+    const normalized = this.normalizeContract(contract);
+    const series = this.getSeries(normalized, interval);
+    const intervalMs = intervalToMs(interval);
+
+    // 只返回当前模拟时间之前已收盘的K线
+    const endIndex = this.findClosedIndex(series, intervalMs);
+    if (endIndex < 0) {
+      return [];
+    }
+    return series.slice(Math.max(0, endIndex - limit + 1), endIndex + 1);
+  }
+
+  async getFuturesAccount(): Promise<AccountInfo> {
+    return this.ledger.getAccountInfo(c => this.getCurrentPrice(c));
+  }
+
+  async getPositions(): Promise<PositionInfo[]> {
+    return this.ledger.getPositionInfos(c => this.getCurrentPrice(c));
+  }
+
+  async placeOrder(params: OrderParams): Promise<OrderResponse> {
+    const contract = this.normalizeContract(params.contract);
+    const order = this.ledger.submitOrder({ ...params, contract }, this.getCurrentPrice(contract), c => this.getCurrentPrice(c));
+    return this.ledger.toOrderResponse(order);
+  }
+
+  async getOrder(orderId: string): Promise<OrderResponse> {
+    const order = this.ledger.orders.get(orderId);
+    if (!order) {
+      throw new Error(`订单 ${orderId} 不存在`);
+    }
+    return this.ledger.toOrderResponse(order);
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    this.ledger.cancelOrder(orderId);
+  }
+
+  async getOpenOrders(contract?: string): Promise<OrderResponse[]> {
+    const normalized = contract ? this.normalizeContract(contract) : undefined;
+    return Array.from(this.ledger.orders.values())
+      .filter(o => o.status === 'open' && (!normalized || o.contract === normalized))
+      .map(o => this.ledger.toOrderResponse(o));
+  }
+
+  async setLeverage(contract: string, leverage: number): Promise<void> {
+    const normalized = this.normalizeContract(contract);
+    this.ledger.setLeverage(normalized, leverage);
+    logger.debug(`已设置 ${normalized} 杠杆为 ${leverage}x`);
+  }
+
+  async getContractInfo(contract: string): Promise<ContractInfo> {
+    const normalized = this.normalizeContract(contract);
+    const price = this.getCurrentPrice(normalized);
+    // 按价格量级推算价格步长
+    const tickSize = price >= 1000 ? '0.1' : price >= 10 ? '0.01' : price >= 1 ? '0.001' : '0.00001';
+
+    return {
+      name: normalized,
+      quantoMultiplier: '1',
+      orderSizeMin: 0.001,
+      orderSizeMax: 1000000,
+      orderPriceRound: tickSize,
+      markPriceRound: tickSize,
+      leverage_min: '1',
+      leverage_max: '125',
+      maintenance_rate: this.maintenanceMarginRate.toString(),
+      maker_fee_rate: this.makerFeeRate.toString(),
+      taker_fee_rate: this.takerFeeRate.toString(),
+    };
+  }
+
+  async getOrderBook(contract: string, limit: number = 100): Promise<any> {
+    // 根据当前价格和近期成交量合成订单簿（每档0.01%间隔）
+    const normalized = this.normalizeContract(contract);
+    const price = this.getCurrentPrice(normalized);
+    const recent = await this.getFuturesCandles(normalized, this.getBaseSeries(normalized)?.interval || '1m', 20);
+    const avgVolume = recent.length > 0
+      ? recent.reduce((sum, c) => sum + Number.parseFloat(c.volume), 0) / recent.length
+      : 0;
+    const levelSize = (avgVolume / 10).toString();
+    const levels = Math.min(limit, 20);
+
+    const bids = [];
+    const asks = [];
+    for (let i = 1; i <= levels; i++) {
+      bids.push({ p: (price * (1 - 0.0001 * i)).toString(), s: levelSize });
+      asks.push({ p: (price * (1 + 0.0001 * i)).toString(), s: levelSize });
+    }
+    return { bids, asks };
+  }
+
+  async getMyTrades(contract?: string, limit: number = 100, startTime?: number): Promise<TradeRecord[]> {
+    const normalized = contract ? this.normalizeContract(contract) : undefined;
+    const filtered = this.trades.filter(t =>
+      (!normalized || t.contract === normalized) &&
+      (!startTime || t.timestamp >= startTime)
+    );
+    return filtered.slice(-limit);
+  }
+
+  async getFundingRate(contract: string): Promise<any> {
+    // 回测不模拟资金费率
+    const fundingInterval = 8 * 60 * 60 * 1000;
+    return {
+      funding_rate: '0',
+      next_funding_time: Math.ceil((this.currentTime + 1) / fundingInterval) * fundingInterval,
+    };
+  }
+
+  async getAllContracts(): Promise<any[]> {
+    return this.getLoadedContracts().map(name => ({ name, symbol: name }));
+  }
+
+  async getPositionHistory(contract?: string, limit?: number, offset?: number): Promise<any[]> {
+    return [];
+  }
+
+  async getSettlementHistory(contract?: string, limit?: number, offset?: number): Promise<SettlementRecord[]> {
+    return [];
+  }
+
+  async getOrderHistory(contract?: string, limit: number = 100): Promise<any[]> {
+    const normalized = contract ? this.normalizeContract(contract) : undefined;
+    return Array.from(this.ledger.orders.values())
+      .filter(o => !normalized || o.contract === normalized)
+      .slice(-limit)
+      .map(o => this.ledger.toOrderResponse(o));
+  }
+
+  getContractType(contract?: string): 'inverse' | 'linear' {
+    return 'linear';
+  }
+
+  async cancelAllOrders(contract?: string): Promise<any> {
+    return this.ledger.cancelAllOrders(contract ? this.normalizeContract(contract) : undefined);
+  }
+
+  async calculateQuantity(
+    amountUsdt: number,
+    price: number,
+    leverage: number,
+    contract: string
+  ): Promise<number> {
+    // 正向合约：数量 = (保证金 * 杠杆) / 价格，保留3位小数
+    const quantity = (amountUsdt * leverage) / price;
+    return Math.max(0.001, Math.floor(quantity * 1000) / 1000);
+  }
+
+  async calculatePnl(
+    entryPrice: number,
+    exitPrice: number,
+    quantity: number,
+    side: 'long' | 'short',
+    contract: string
+  ): Promise<number> {
+    return side === 'long'
+      ? quantity * (exitPrice - entryPrice)
+      : quantity * (entryPrice - exitPrice);
+  }
+
+  async setPositionStopLoss(
+    contract: string,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<{
+    success: boolean;
+    stopLossOrderId?: string;
+    takeProfitOrderId?: string;
+    actualStopLoss?: number;
+    actualTakeProfit?: number;
+    message?: string;
+  }> {
+    const normalized = this.normalizeContract(contract);
+    if (!this.ledger.positions.has(normalized)) {
+      return {
+        success: false,
+        message: `未找到 ${normalized} 的持仓`
+      };
+    }
+    return this.ledger.setPositionStopLoss(normalized, this.getCurrentPrice(normalized), stopLoss, takeProfit);
+  }
+
+  async cancelPositionStopLoss(contract: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    const normalized = this.normalizeContract(contract);
+    const count = this.ledger.cancelPriceOrdersOf(normalized);
+    return {
+      success: true,
+      message: `已取消 ${normalized} 的 ${count} 个条件单`
+    };
+  }
+
+  async cancelPriceOrder(contract: string, orderId: string): Promise<PriceOrderCancelResult> {
+    const normalized = this.normalizeContract(contract);
+    if (!this.ledger.cancelPriceOrder(normalized, orderId)) {
+      return {
+        success: false,
+        notFound: true,
+        message: `条件单 ${orderId} 不存在或已触发`
+      };
+    }
+    return {
+      success: true,
+      message: `已取消 ${normalized} 条件单 ${orderId}`
+    };
+  }
+
+  async getPositionStopLossOrders(contract: string): Promise<{
+    stopLossOrder?: any;
+    takeProfitOrder?: any;
+  }> {
+    const { stopLoss, takeProfit } = this.ledger.getActivePriceOrders(this.normalizeContract(contract));
+    return {
+      stopLossOrder: stopLoss ? this.ledger.toPriceOrderResponse(stopLoss) : undefined,
+      takeProfitOrder: takeProfit ? this.ledger.toPriceOrderResponse(takeProfit) : undefined,
+    };
+  }
+
+  async getPriceOrders(contract?: string, status?: string): Promise<any[]> {
+    const normalized = contract ? this.normalizeContract(contract) : undefined;
+    const wanted = status || 'open';
+    return Array.from(this.ledger.priceOrders.values())
+      .filter(o => (!normalized || o.contract === normalized) && o.status === wanted)
+      .map(o => this.ledger.toPriceOrderResponse(o));
+  }
+
+  getCircuitBreakerStatus(): {
+    isOpen: boolean;
+    reason?: string;
+    remainingSeconds?: number;
+  } {
+    return { isOpen: false };
+  }
+
+  // ============ 内部行情逻辑 ============
+
+  /**
+   * 处理一根已收盘的最小周期K线：撮合限价单、检测止损/止盈条件单和强平
+   */
+  private processCandle(contract: string, candle: CandleData): void {
+    this.ledger.matchBar(contract, {
+      open: Number.parseFloat(candle.open),
+      high: Number.parseFloat(candle.high),
+      low: Number.parseFloat(candle.low),
+    });
+  }
+
+  /**
+   * 获取当前模拟时间的最新价格（最小周期最近一根已收盘K线的收盘价）
+   */
+  private getCurrentPrice(contract: string): number {
+    const base = this.getBaseSeries(contract);
+    if (!base) {
+      throw new Error(`回测数据中没有 ${contract} 的K线`);
+    }
+    const index = this.findClosedIndex(base.candles, base.intervalMs);
+    if (index < 0) {
+      throw new Error(`${contract} 在 ${new Date(this.currentTime).toISOString()} 之前没有K线数据`);
+    }
+    return Number.parseFloat(base.candles[index].close);
+  }
+
+  /**
+   * 获取合约最小周期的K线序列
+   */
+  private getBaseSeries(contract: string): { interval: string; intervalMs: number; candles: CandleData[] } | null {
+    const byInterval = this.candles.get(contract);
+    if (!byInterval || byInterval.size === 0) {
+      return null;
+    }
+    let best: { interval: string; intervalMs: number; candles: CandleData[] } | null = null;
+    for (const [interval, candles] of byInterval) {
+      const intervalMs = intervalToMs(interval);
+      if (!best || intervalMs < best.intervalMs) {
+        best = { interval, intervalMs, candles };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 获取指定周期的K线序列，未直接加载的周期由最小周期聚合
+   */
+  private getSeries(contract: string, interval: string): CandleData[] {
+    const byInterval = this.candles.get(contract);
+    const direct = byInterval?.get(interval);
+    if (direct) {
+      return direct;
+    }
+
+    const cacheKey = `${contract}-${interval}`;
+    const cached = this.aggregatedCandles.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const base = this.getBaseSeries(contract);
+    if (!base) {
+      throw new Error(`回测数据中没有 ${contract} 的K线`);
+    }
+    const targetMs = intervalToMs(interval);
+    if (targetMs < base.intervalMs || targetMs % base.intervalMs !== 0) {
+      throw new Error(`无法由 ${base.interval} K线聚合出 ${interval} K线`);
+    }
+
+    const aggregated: CandleData[] = [];
+    let bucket: CandleData | null = null;
+    let bucketCount = 0;
+    const expectedCount = targetMs / base.intervalMs;
+    for (const candle of base.candles) {
+      const bucketStart = Math.floor(candle.timestamp / targetMs) * targetMs;
+      if (!bucket || bucket.timestamp !== bucketStart) {
+        if (bucket && bucketCount === expectedCount) {
+          aggregated.push(bucket);
+        }
+        bucket = { ...candle, timestamp: bucketStart };
+        bucketCount = 1;
+        continue;
+      }
+      bucket.high = Math.max(Number.parseFloat(bucket.high), Number.parseFloat(candle.high)).toString();
+      bucket.low = Math.min(Number.parseFloat(bucket.low), Number.parseFloat(candle.low)).toString();
+      bucket.close = candle.close;
+      bucket.volume = (Number.parseFloat(bucket.volume) + Number.parseFloat(candle.volume)).toString();
+      bucketCount++;
+    }
+    if (bucket && bucketCount === expectedCount) {
+      aggregated.push(bucket);
+    }
+
+    this.aggregatedCandles.set(cacheKey, aggregated);
+    return aggregated;
+  }
+
+  /**
+   * 二分查找当前模拟时间之前最后一根已收盘K线的下标
+   */
+  private findClosedIndex(series: CandleData[], intervalMs: number): number {
+    let lo = 0;
+    let hi = series.length - 1;
+    let result = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (series[mid].timestamp + intervalMs <= this.currentTime) {
+        result = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 评分校准命令行工具
+ *
+ * 用法：
+ *   tsx --env-file=.env ./src/calibration/cli.ts report [--account main] [--days 90] [--match-window 60] [--min-samples 30] [--json]
+ *   tsx --env-file=.env ./src/calibration/cli.ts suggest [同上参数] [--activate]
+ *   tsx --env-file=.env ./src/calibration/cli.ts list [--strategy balanced]
+ *   tsx --env-file=.env ./src/calibration/cli.ts activate --version 3 [--strategy balanced]
+ *   tsx --env-file=.env ./src/calibration/cli.ts reset [--strategy balanced]
+ *
+ * 说明：
+ *   - 样本为已平仓交易关联开仓前最近一次评分快照（--match-window 分钟内），默认合并所有账户，--account 只统计指定账户
+ *   - report 只输出校准曲线和维度预测力；suggest 额外把建议权重和阈值保存为新的配置版本（--activate 同时激活）
+ *   - 激活的配置在 1 分钟内被评分器加载；activate 旧版本即可回滚，reset 停用后回到代码中的默认权重
+ */
+import { createClient } from "@libsql/client";
+import type { StrategyScoreConfig } from "./scoreCalibration";
+import type { CalibrationSample } from "./scoreSnapshots";
+import {
+  activateScoreWeightVersion,
+  deactivateScoreWeights,
+  getActiveScoreWeightConfig,
+  listScoreWeightConfigs,
+  saveScoreWeightSuggestions,
+} from "./scoreWeightConfigs";
+
+// 解析命令行参数（--json、--activate 为开关参数）
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options: Record<string, string> = {};
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'report';
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) continue;
+    if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      options[args[i].slice(2)] = args[i + 1];
+      i++;
+    } else {
+      options[args[i].slice(2)] = 'true';
+    }
+  }
+
+  return { command, options };
+}
+
+function parsePositiveInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number.parseInt(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`无效的参数 --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+async function main() {
+  const { command, options } = parseArgs();
+
+  const dbClient = createClient({
+    url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+  });
+
+  if (command === 'list') {
+    const configs = await listScoreWeightConfigs(dbClient, { strategy: options.strategy });
+    if (configs.length === 0) {
+      console.log('暂无评分权重配置（评分器使用默认权重）');
+      return;
+    }
+    for (const config of configs) {
+      const status = config.status === 'active' ? '✅ 激活' : config.status === 'suggested' ? '📝 建议' : '⏸️ 停用';
+      const weights = Object.entries(config.weights).map(([k, v]) => `${k}=${v}`).join(' ');
+      console.log(`v${config.version}  ${config.strategy.padEnd(12)} ${status}  ${weights}  最低评分 ${config.minScore}  样本 ${config.sampleCount}  ${config.createdAt}`);
+    }
+    return;
+  }
+
+  if (command === 'activate') {
+    const version = parsePositiveInt(options.version, 'version');
+    if (version === undefined) {
+      throw new Error('缺少参数 --version');
+    }
+    const activated = await activateScoreWeightVersion(dbClient, version, options.strategy ? [options.strategy] : undefined);
+    console.log(`✅ 已激活评分权重配置 v${version}: ${activated.map(c => c.strategy).join(', ')}`);
+    return;
+  }
+
+  if (command === 'reset') {
+    const count = await deactivateScoreWeights(dbClient, options.strategy);
+    console.log(`⏸️ 已停用 ${count} 个评分权重配置，${options.strategy ?? '所有策略'}使用默认权重`);
+    return;
+  }
+
+  if (command === 'report' || command === 'suggest') {
+    const { getAccount, getAccounts } = await import("../config/accounts");
+    const { runWithAccount } = await import("../utils/accountContext");
+    const { STRATEGY_SCORE_WEIGHTS } = await import("../services/opportunityScorer");
+    const { loadCalibrationSamples } = await import("./scoreSnapshots");
+    const { buildCalibrationReport, formatCalibrationReport } = await import("./scoreCalibration");
+
+    const days = parsePositiveInt(options.days, 'days');
+    const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : null;
+    const matchWindowMinutes = parsePositiveInt(options['match-window'], 'match-window');
+
+    let accounts = getAccounts();
+    if (options.account) {
+      const account = getAccount(options.account);
+      if (!account) {
+        throw new Error(`未找到账户: ${options.account}`);
+      }
+      accounts = [account];
+    }
+
+    const samples: CalibrationSample[] = [];
+    for (const account of accounts) {
+      samples.push(...await runWithAccount(account, () => loadCalibrationSamples(dbClient, { since, matchWindowMinutes })));
+    }
+
+    // 当前配置：激活的校准配置优先，其次为默认权重
+    const currentConfigs: Record<string, StrategyScoreConfig> = {};
+    for (const [strategy, { minScore, ...weights }] of Object.entries(STRATEGY_SCORE_WEIGHTS)) {
+      const active = await getActiveScoreWeightConfig(dbClient, strategy);
+      currentConfigs[strategy] = active
+        ? { weights: active.weights, minScore: active.minScore, version: active.version }
+        : { weights, minScore, version: null };
+    }
+
+    const report = buildCalibrationReport(samples, currentConfigs, {
+      minSamples: parsePositiveInt(options['min-samples'], 'min-samples'),
+    });
+    console.log(options.json === 'true' ? JSON.stringify(report, null, 2) : formatCalibrationReport(report));
+
+    if (command === 'suggest') {
+      const suggestions = report.strategies.flatMap(c => c.suggestion
+        ? [{
+            strategy: c.strategy,
+            weights: c.suggestion.weights,
+            minScore: c.suggestion.minScore,
+            sampleCount: c.samples,
+            report: { since, baseline: c.suggestion.baseline, retained: c.suggestion.retained, dimensions: c.dimensions.map(d => ({ dimension: d.dimension, auc: d.auc, correlation: d.correlation })) },
+          }]
+        : []);
+      if (suggestions.length === 0) {
+        console.log('\n⚠️ 没有样本充足的策略，未生成新的配置版本');
+        return;
+      }
+      const version = await saveScoreWeightSuggestions(dbClient, suggestions);
+      console.log(`\n📝 已保存评分权重建议 v${version}: ${suggestions.map(s => s.strategy).join(', ')}`);
+      if (options.activate === 'true') {
+        await activateScoreWeightVersion(dbClient, version);
+        console.log(`✅ 已激活 v${version}`);
+      } else {
+        console.log(`   激活: npm run calibrate -- activate --version ${version}`);
+      }
+    }
+    return;
+  }
+
+  throw new Error(`未知命令: ${command}（可用命令：report, suggest, list, activate, reset）`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ 评分校准失败:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,444 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 评分校准分析
+ *
+ * - 校准曲线：按机会评分分段（默认每 5 分）统计胜率、平均盈亏和平均 R 倍数，回答"80 分是否比 70 分更好"
+ * - 维度预测力：每个评分维度的 AUC（随机抽一笔盈利和一笔亏损交易，盈利交易该维度更高的概率）、
+ *   与盈亏结果的相关系数，以及按维度取值三等分的胜率
+ * - 建议配置：按各维度 AUC 超出 0.5 的部分分配权重，再按样本量向当前权重收缩（样本越少越接近当前配置）；
+ *   用建议权重重新计算样本评分，选出使保留交易总盈亏最大的最低评分，同样按样本量收缩
+ */
+import type { CalibrationSample } from "./scoreSnapshots";
+import { SCORE_DIMENSIONS, type ScoreDimension, type ScoreDimensionWeights } from "./scoreWeightConfigs";
+
+const DEFAULT_BUCKET_WIDTH = 5;
+const DEFAULT_MIN_SAMPLES = 30;
+// 收缩强度：样本数等于该值时建议值与当前值各占一半
+const DEFAULT_PRIOR_TRADES = 100;
+// 建议配置中每个维度的最低权重
+const MIN_DIMENSION_WEIGHT = 5;
+// 最低评分的搜索范围
+const MIN_SCORE_FLOOR = 50;
+const MIN_SCORE_CEILING = 95;
+// 建议阈值下至少保留的样本比例
+const MIN_RETAINED_RATIO = 0.3;
+
+export interface StrategyScoreConfig {
+  weights: ScoreDimensionWeights;
+  minScore: number;
+  version: number | null;       // 激活配置的版本号（默认权重为 null）
+}
+
+export interface OutcomeBucket {
+  label: string;
+  min: number;
+  max: number;
+  trades: number;
+  wins: number;
+  hitRate: number;              // 胜率（百分比）
+  totalPnl: number;
+  averagePnl: number;
+  averageR: number | null;
+}
+
+export interface DimensionCalibration {
+  dimension: ScoreDimension | "total";
+  samples: number;
+  auc: number | null;           // 0.5 表示没有预测力
+  correlation: number | null;   // 与盈亏（USDT）的相关系数
+  buckets: OutcomeBucket[];     // 按取值三等分（低/中/高）
+}
+
+export interface WeightSuggestion {
+  weights: ScoreDimensionWeights;
+  minScore: number;
+  shrinkage: number;            // 校准结果所占比重（0-1），其余为当前配置
+  retained: OutcomeBucket;      // 按建议配置重新评分后达到建议阈值的样本
+  baseline: OutcomeBucket;      // 全部样本（当前配置下实际开仓的结果）
+}
+
+export interface StrategyCalibration {
+  strategy: string;
+  samples: number;              // 匹配到评分快照的样本数
+  current: StrategyScoreConfig;
+  scoreBuckets: OutcomeBucket[];
+  dimensions: DimensionCalibration[];
+  suggestion: WeightSuggestion | null;
+  note: string | null;          // 没有建议时的原因
+}
+
+export interface CalibrationReport {
+  generatedAt: string;
+  totalSamples: number;
+  scoredSamples: number;        // 有机会评分的样本
+  matchedSamples: number;       // 匹配到评分快照（有维度因子）的样本
+  scoreBuckets: OutcomeBucket[];
+  strategies: StrategyCalibration[];
+}
+
+export interface CalibrationOptions {
+  bucketWidth?: number;
+  minSamples?: number;
+  priorTrades?: number;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+/**
+ * 统计一组样本的胜率和盈亏
+ */
+export function summarizeOutcomes(label: string, min: number, max: number, samples: CalibrationSample[]): OutcomeBucket {
+  const wins = samples.filter((s) => s.win).length;
+  const totalPnl = sum(samples.map((s) => s.pnl));
+  const rMultiples = samples.map((s) => s.rMultiple).filter((r): r is number => r !== null);
+  return {
+    label,
+    min,
+    max,
+    trades: samples.length,
+    wins,
+    hitRate: samples.length > 0 ? (wins / samples.length) * 100 : 0,
+    totalPnl,
+    averagePnl: samples.length > 0 ? totalPnl / samples.length : 0,
+    averageR: rMultiples.length > 0 ? sum(rMultiples) / rMultiples.length : null,
+  };
+}
+
+/**
+ * 按机会评分分段（左闭右开，只返回有样本的分段）
+ */
+export function computeScoreBuckets(samples: CalibrationSample[], width: number = DEFAULT_BUCKET_WIDTH): OutcomeBucket[] {
+  const groups = new Map<number, CalibrationSample[]>();
+  for (const sample of samples) {
+    if (sample.opportunityScore === null) continue;
+    const start = Math.floor(sample.opportunityScore / width) * width;
+    const group = groups.get(start);
+    if (group) {
+      group.push(sample);
+    } else {
+      groups.set(start, [sample]);
+    }
+  }
+  return [...groups.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([start, group]) => summarizeOutcomes(`${start}-${start + width}`, start, start + width, group));
+}
+
+/**
+ * AUC（Mann-Whitney U 统计量，相同取值按平均秩），没有盈利或没有亏损样本时返回 null
+ */
+export function computeAuc(values: number[], wins: boolean[]): number | null {
+  const positives = wins.filter(Boolean).length;
+  const negatives = wins.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return null;
+  }
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+  const positiveRankSum = sum(ranks.filter((_, index) => wins[index]));
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/**
+ * 皮尔逊相关系数（样本少于 3 个或任一方差为 0 时返回 null）
+ */
+export function computeCorrelation(x: number[], y: number[]): number | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 3) {
+    return null;
+  }
+  const meanX = sum(x.slice(0, n)) / n;
+  const meanY = sum(y.slice(0, n)) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  }
+  // 浮点误差导致常数序列的方差不为 0，按相对均值的量级判断
+  const isConstant = (variance: number, mean: number) => variance <= 1e-12 * Math.max(1, mean * mean) * n;
+  return isConstant(varianceX, meanX) || isConstant(varianceY, meanY) ? null : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * 按维度取值排序后三等分（低/中/高），相同取值不拆到不同分段；取值全部相同时只有一个分段（全部）
+ */
+function computeTercileBuckets(entries: Array<{ value: number; sample: CalibrationSample }>): OutcomeBucket[] {
+  const sorted = [...entries].sort((a, b) => a.value - b.value);
+  const groups: Array<typeof sorted> = [];
+  let start = 0;
+  for (let i = 1; i <= 3 && start < sorted.length; i++) {
+    let end = Math.max(start + 1, Math.floor((i * sorted.length) / 3));
+    while (end < sorted.length && sorted[end].value === sorted[end - 1].value) end++;
+    groups.push(sorted.slice(start, end));
+    start = end;
+  }
+
+  const labels = groups.length === 1 ? ["全部"] : groups.length === 2 ? ["低", "高"] : ["低", "中", "高"];
+  return groups.map((group, index) =>
+    summarizeOutcomes(labels[index], group[0].value, group[group.length - 1].value, group.map((e) => e.sample)));
+}
+
+/**
+ * 分析单个维度（total 为开仓时的机会评分）的预测力
+ */
+export function analyzeDimension(samples: CalibrationSample[], dimension: ScoreDimension | "total"): DimensionCalibration {
+  const entries: Array<{ value: number; sample: CalibrationSample }> = [];
+  for (const sample of samples) {
+    const value = dimension === "total" ? sample.opportunityScore : sample.factors?.[dimension];
+    if (value !== null && value !== undefined && Number.isFinite(value)) {
+      entries.push({ value, sample });
+    }
+  }
+  const values = entries.map((e) => e.value);
+  return {
+    dimension,
+    samples: entries.length,
+    auc: computeAuc(values, entries.map((e) => e.sample.win)),
+    correlation: computeCorrelation(values, entries.map((e) => e.sample.pnl)),
+    buckets: computeTercileBuckets(entries),
+  };
+}
+
+/**
+ * 用给定权重重新计算样本评分（与评分器一致：各维度因子 × 权重 − 惩罚）
+ */
+export function rescoreSample(sample: CalibrationSample, weights: ScoreDimensionWeights): number | null {
+  if (!sample.factors) {
+    return null;
+  }
+  const factors = sample.factors;
+  const base = sum(SCORE_DIMENSIONS.map((d) => factors[d] * weights[d]));
+  return Math.max(0, base - sample.penalty);
+}
+
+/**
+ * 将权重归一化为合计 100 的整数（最大余数法），每个维度不低于 MIN_DIMENSION_WEIGHT
+ */
+export function normalizeWeights(raw: ScoreDimensionWeights): ScoreDimensionWeights {
+  const floored = SCORE_DIMENSIONS.map((d) => Math.max(MIN_DIMENSION_WEIGHT, raw[d]));
+  const spare = 100 - MIN_DIMENSION_WEIGHT * SCORE_DIMENSIONS.length;
+  const extra = floored.map((w) => w - MIN_DIMENSION_WEIGHT);
+  const extraTotal = sum(extra);
+  const exact = extra.map((e) => (extraTotal > 0 ? (e / extraTotal) * spare : spare / SCORE_DIMENSIONS.length));
+  const rounded = exact.map(Math.floor);
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  const deficit = spare - sum(rounded);
+  for (let i = 0; i < deficit; i++) {
+    rounded[order[i].index]++;
+  }
+
+  const weights = {} as ScoreDimensionWeights;
+  for (const [index, d] of SCORE_DIMENSIONS.entries()) {
+    weights[d] = rounded[index] + MIN_DIMENSION_WEIGHT;
+  }
+  return weights;
+}
+
+/**
+ * 建议维度权重：按 AUC 超出 0.5 的部分分配，再按 shrinkage 与当前权重混合
+ * 所有维度都没有预测力时返回当前权重
+ */
+export function suggestWeights(
+  current: ScoreDimensionWeights,
+  dimensions: DimensionCalibration[],
+  shrinkage: number,
+): ScoreDimensionWeights {
+  const edges = SCORE_DIMENSIONS.map((d) => {
+    const auc = dimensions.find((c) => c.dimension === d)?.auc;
+    return auc === null || auc === undefined ? 0 : Math.max(0, auc - 0.5);
+  });
+  const totalEdge = sum(edges);
+  if (totalEdge <= 0) {
+    return normalizeWeights(current);
+  }
+  const blended = {} as ScoreDimensionWeights;
+  for (const [index, d] of SCORE_DIMENSIONS.entries()) {
+    blended[d] = (1 - shrinkage) * current[d] + shrinkage * ((edges[index] / totalEdge) * 100);
+  }
+  return normalizeWeights(blended);
+}
+
+/**
+ * 建议最低评分：按建议权重重新评分，在 [50, 95] 中选出使保留交易总盈亏最大的阈值（相同时取更高的阈值），
+ * 保留的样本不少于 30%；再按 shrinkage 与当前阈值混合
+ */
+export function suggestMinScore(
+  samples: CalibrationSample[],
+  weights: ScoreDimensionWeights,
+  currentMinScore: number,
+  shrinkage: number,
+): number {
+  const scored = samples
+    .map((sample) => ({ sample, score: rescoreSample(sample, weights) }))
+    .filter((e): e is { sample: CalibrationSample; score: number } => e.score !== null);
+  const minRetained = Math.max(1, Math.ceil(scored.length * MIN_RETAINED_RATIO));
+
+  let best: { threshold: number; totalPnl: number } | null = null;
+  for (let threshold = MIN_SCORE_FLOOR; threshold <= MIN_SCORE_CEILING; threshold++) {
+    const retained = scored.filter((e) => e.score >= threshold);
+    if (retained.length < minRetained) break;
+    const totalPnl = sum(retained.map((e) => e.sample.pnl));
+    if (!best || totalPnl >= best.totalPnl) {
+      best = { threshold, totalPnl };
+    }
+  }
+  if (!best) {
+    return currentMinScore;
+  }
+  return Math.round(currentMinScore + shrinkage * (best.threshold - currentMinScore));
+}
+
+/**
+ * 校准单个交易策略
+ */
+export function calibrateStrategy(
+  strategy: string,
+  samples: CalibrationSample[],
+  current: StrategyScoreConfig,
+  options: CalibrationOptions = {},
+): StrategyCalibration {
+  const matched = samples.filter((s) => s.strategy === strategy && s.factors !== null);
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const dimensions = [
+    ...SCORE_DIMENSIONS.map((d) => analyzeDimension(matched, d)),
+    analyzeDimension(matched, "total"),
+  ];
+
+  const calibration: StrategyCalibration = {
+    strategy,
+    samples: matched.length,
+    current,
+    scoreBuckets: computeScoreBuckets(matched, options.bucketWidth),
+    dimensions,
+    suggestion: null,
+    note: null,
+  };
+
+  if (matched.length < minSamples) {
+    calibration.note = `样本不足（${matched.length} < ${minSamples}）`;
+    return calibration;
+  }
+  if (matched.every((s) => s.win) || matched.every((s) => !s.win)) {
+    calibration.note = "样本全部盈利或全部亏损，无法评估预测力";
+    return calibration;
+  }
+
+  const priorTrades = options.priorTrades ?? DEFAULT_PRIOR_TRADES;
+  const shrinkage = matched.length / (matched.length + priorTrades);
+  const weights = suggestWeights(current.weights, dimensions, shrinkage);
+  const minScore = suggestMinScore(matched, weights, current.minScore, shrinkage);
+  const retained = matched.filter((s) => (rescoreSample(s, weights) ?? 0) >= minScore);
+
+  calibration.suggestion = {
+    weights,
+    minScore,
+    shrinkage,
+    retained: summarizeOutcomes(`≥${minScore}`, minScore, 100, retained),
+    baseline: summarizeOutcomes("全部", 0, 100, matched),
+  };
+  return calibration;
+}
+
+/**
+ * 生成校准报告
+ * @param currentConfigs 各交易策略当前使用的权重和阈值（激活配置或默认权重）
+ */
+export function buildCalibrationReport(
+  samples: CalibrationSample[],
+  currentConfigs: Record<string, StrategyScoreConfig>,
+  options: CalibrationOptions = {},
+): CalibrationReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    totalSamples: samples.length,
+    scoredSamples: samples.filter((s) => s.opportunityScore !== null).length,
+    matchedSamples: samples.filter((s) => s.factors !== null).length,
+    scoreBuckets: computeScoreBuckets(samples, options.bucketWidth),
+    strategies: Object.entries(currentConfigs)
+      .filter(([strategy]) => samples.some((s) => s.strategy === strategy))
+      .map(([strategy, current]) => calibrateStrategy(strategy, samples, current, options)),
+  };
+}
+
+function formatBucket(bucket: OutcomeBucket): string {
+  const averageR = bucket.averageR === null ? "-" : `${bucket.averageR.toFixed(2)}R`;
+  return `${bucket.trades}笔  胜率 ${bucket.hitRate.toFixed(1)}%  平均 ${bucket.averagePnl.toFixed(2)} USDT  合计 ${bucket.totalPnl.toFixed(2)} USDT  平均 ${averageR}`;
+}
+
+function formatWeights(weights: ScoreDimensionWeights): string {
+  return SCORE_DIMENSIONS.map((d) => `${d}=${weights[d]}`).join(" ");
+}
+
+/**
+ * 格式化校准报告（命令行输出）
+ */
+export function formatCalibrationReport(report: CalibrationReport): string {
+  const lines: string[] = [];
+  lines.push(`📊 校准样本: ${report.totalSamples} 笔已平仓交易，${report.scoredSamples} 笔有机会评分，${report.matchedSamples} 笔匹配到评分快照`);
+  lines.push("");
+  lines.push("机会评分校准曲线（全部样本）:");
+  if (report.scoreBuckets.length === 0) {
+    lines.push("  （无有评分的样本）");
+  }
+  for (const bucket of report.scoreBuckets) {
+    lines.push(`  ${bucket.label.padEnd(8)} ${formatBucket(bucket)}`);
+  }
+
+  for (const calibration of report.strategies) {
+    lines.push("");
+    lines.push(`━━━ 策略 ${calibration.strategy}（${calibration.samples} 笔样本）━━━`);
+    const version = calibration.current.version === null ? "默认权重" : `配置版本 v${calibration.current.version}`;
+    lines.push(`当前 [${version}]: ${formatWeights(calibration.current.weights)}  最低评分 ${calibration.current.minScore}`);
+    lines.push("评分分段:");
+    for (const bucket of calibration.scoreBuckets) {
+      lines.push(`  ${bucket.label.padEnd(8)} ${formatBucket(bucket)}`);
+    }
+    lines.push("维度预测力（AUC 0.5 为无预测力）:");
+    for (const dimension of calibration.dimensions) {
+      const auc = dimension.auc === null ? "-" : dimension.auc.toFixed(3);
+      const correlation = dimension.correlation === null ? "-" : dimension.correlation.toFixed(3);
+      const hitRates = dimension.buckets.map((b) => `${b.label} ${b.hitRate.toFixed(0)}%`).join(" / ");
+      lines.push(`  ${dimension.dimension.padEnd(17)} AUC ${auc}  相关 ${correlation}  胜率 ${hitRates || "-"}`);
+    }
+    if (!calibration.suggestion) {
+      lines.push(`建议: 无（${calibration.note}）`);
+      continue;
+    }
+    const { suggestion } = calibration;
+    lines.push(`建议（校准占比 ${(suggestion.shrinkage * 100).toFixed(0)}%）: ${formatWeights(suggestion.weights)}  最低评分 ${suggestion.minScore}`);
+    lines.push(`  全部样本   ${formatBucket(suggestion.baseline)}`);
+    lines.push(`  建议阈值内 ${formatBucket(suggestion.retained)}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,178 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 机会评分快照与校准样本
+ *
+ * 评分器对每个有方向的机会记录各维度的 0-1 因子（未乘权重）和惩罚分，
+ * 校准时按 币种 + 方向 取开仓前最近一次评分快照，与已平仓交易（loadClosedTrades，分批平仓合并为一笔）关联成样本。
+ */
+import type { Client } from "@libsql/client";
+import { loadClosedTrades } from "../services/performanceAnalytics";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import type { ScoreDimension } from "./scoreWeightConfigs";
+
+const logger = createLogger({
+  name: "score-snapshots",
+  level: "info",
+});
+
+// 评分快照保留天数
+const SNAPSHOT_RETENTION_DAYS = 90;
+
+// 开仓前多长时间内的评分快照视为该次开仓的评分（分钟）
+const DEFAULT_MATCH_WINDOW_MINUTES = 60;
+
+export type ScoreFactors = Record<ScoreDimension, number>;
+
+export interface OpportunityScoreSnapshot {
+  symbol: string;
+  direction: "long" | "short";
+  strategy: string;                 // 交易策略（如 balanced）
+  strategyType: string | null;      // 信号来源策略（如 trend_following）
+  marketState: string | null;
+  totalScore: number;
+  factors: ScoreFactors;            // 各维度因子（0-1）
+  penalty: number;                  // 惩罚分合计
+  weightsVersion: number | null;
+}
+
+/**
+ * 校准样本：一笔已平仓交易及其开仓时的评分
+ */
+export interface CalibrationSample {
+  accountId: string;
+  positionOrderId: string | null;
+  symbol: string;
+  side: "long" | "short";
+  openedAt: string | null;
+  closedAt: string;
+  pnl: number;
+  rMultiple: number | null;
+  win: boolean;
+  opportunityScore: number | null;  // 开仓时记录的机会评分
+  strategy: string | null;          // 评分快照中的交易策略（未匹配到快照时为 null）
+  strategyType: string;
+  marketState: string;
+  factors: ScoreFactors | null;     // 未匹配到评分快照时为 null
+  penalty: number;
+  weightsVersion: number | null;
+}
+
+/**
+ * 记录评分快照（失败只记录错误，不影响评分）
+ */
+export async function recordOpportunityScore(dbClient: Client, snapshot: OpportunityScoreSnapshot): Promise<void> {
+  const accountId = getCurrentAccountId();
+  const scoredAt = getChinaTimeISO();
+  const retentionStart = new Date(Date.parse(scoredAt) - SNAPSHOT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  try {
+    await dbClient.batch([
+      {
+        sql: `INSERT INTO opportunity_scores
+              (account_id, symbol, direction, strategy, strategy_type, market_state, total_score,
+               signal_strength, trend_consistency, volatility_fit, risk_reward_ratio, liquidity, penalty, weights_version, scored_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          accountId,
+          snapshot.symbol,
+          snapshot.direction,
+          snapshot.strategy,
+          snapshot.strategyType,
+          snapshot.marketState,
+          snapshot.totalScore,
+          snapshot.factors.signalStrength,
+          snapshot.factors.trendConsistency,
+          snapshot.factors.volatilityFit,
+          snapshot.factors.riskRewardRatio,
+          snapshot.factors.liquidity,
+          snapshot.penalty,
+          snapshot.weightsVersion,
+          scoredAt,
+        ],
+      },
+      {
+        sql: "DELETE FROM opportunity_scores WHERE account_id = ? AND symbol = ? AND direction = ? AND scored_at < ?",
+        args: [accountId, snapshot.symbol, snapshot.direction, retentionStart],
+      },
+    ], "write");
+  } catch (error) {
+    logger.error(`记录 ${snapshot.symbol} 评分快照失败:`, error as any);
+  }
+}
+
+/**
+ * 读取当前账户的校准样本
+ * @param since 只统计该时间之后平仓的交易（ISO 时间）
+ * @param matchWindowMinutes 开仓前多长时间内的评分快照视为该次开仓的评分
+ */
+export async function loadCalibrationSamples(
+  dbClient: Client,
+  options: { since?: string | null; matchWindowMinutes?: number } = {},
+): Promise<CalibrationSample[]> {
+  const accountId = getCurrentAccountId();
+  const windowMs = (options.matchWindowMinutes ?? DEFAULT_MATCH_WINDOW_MINUTES) * 60 * 1000;
+  const trades = await loadClosedTrades(dbClient, options.since ?? null);
+
+  const samples: CalibrationSample[] = [];
+  for (const trade of trades) {
+    let snapshot: any = null;
+    const openedMs = trade.openedAt ? Date.parse(trade.openedAt) : Number.NaN;
+    if (Number.isFinite(openedMs)) {
+      const result = await dbClient.execute({
+        sql: `SELECT * FROM opportunity_scores
+              WHERE account_id = ? AND symbol = ? AND direction = ? AND scored_at <= ? AND scored_at >= ?
+              ORDER BY scored_at DESC LIMIT 1`,
+        args: [accountId, trade.symbol, trade.side, trade.openedAt, new Date(openedMs - windowMs).toISOString()],
+      });
+      snapshot = result.rows[0] ?? null;
+    }
+
+    samples.push({
+      accountId,
+      positionOrderId: trade.positionOrderId,
+      symbol: trade.symbol,
+      side: trade.side,
+      openedAt: trade.openedAt,
+      closedAt: trade.closedAt,
+      pnl: trade.pnl,
+      rMultiple: trade.rMultiple,
+      win: trade.pnl > 0,
+      opportunityScore: trade.opportunityScore ?? (snapshot ? Number(snapshot.total_score) : null),
+      strategy: snapshot ? String(snapshot.strategy) : null,
+      strategyType: trade.strategyType,
+      marketState: trade.marketState,
+      factors: snapshot
+        ? {
+            signalStrength: Number(snapshot.signal_strength),
+            trendConsistency: Number(snapshot.trend_consistency),
+            volatilityFit: Number(snapshot.volatility_fit),
+            riskRewardRatio: Number(snapshot.risk_reward_ratio),
+            liquidity: Number(snapshot.liquidity),
+          }
+        : null,
+      penalty: snapshot ? Number(snapshot.penalty) : 0,
+      weightsVersion: snapshot?.weights_version === null || snapshot?.weights_version === undefined
+        ? null
+        : Number(snapshot.weights_version),
+    });
+  }
+  return samples;
+}
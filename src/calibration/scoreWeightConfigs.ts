@@ -0,0 +1,205 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 评分权重配置（版本化）
+ *
+ * 离线校准每次运行生成一个新版本，每个交易策略一行（status=suggested）；
+ * 激活某个版本后，机会评分器使用该版本的维度权重和最低评分，没有激活配置的策略使用代码中的默认权重。
+ * 激活旧版本即可回滚，停用后回到默认权重。
+ */
+import type { Client } from "@libsql/client";
+import { getChinaTimeISO } from "../utils/timeUtils";
+
+// 评分器读取激活配置的缓存时间
+const ACTIVE_CONFIG_CACHE_MS = 60 * 1000;
+
+/**
+ * 机会评分维度（与 OpportunityScore.breakdown 一致）
+ */
+export const SCORE_DIMENSIONS = [
+  "signalStrength",
+  "trendConsistency",
+  "volatilityFit",
+  "riskRewardRatio",
+  "liquidity",
+] as const;
+
+export type ScoreDimension = (typeof SCORE_DIMENSIONS)[number];
+
+export type ScoreDimensionWeights = Record<ScoreDimension, number>;
+
+export type ScoreWeightConfigStatus = "suggested" | "active" | "retired";
+
+export interface ScoreWeightConfig {
+  id: number;
+  version: number;
+  strategy: string;
+  weights: ScoreDimensionWeights;
+  minScore: number;
+  status: ScoreWeightConfigStatus;
+  sampleCount: number;
+  report: any | null;
+  createdAt: string;
+  activatedAt: string | null;
+}
+
+export interface ScoreWeightSuggestionInput {
+  strategy: string;
+  weights: ScoreDimensionWeights;
+  minScore: number;
+  sampleCount: number;
+  report?: unknown;
+}
+
+const activeCache = new Map<string, { config: ScoreWeightConfig | null; loadedAt: number }>();
+
+function rowToConfig(row: any): ScoreWeightConfig {
+  return {
+    id: Number(row.id),
+    version: Number(row.version),
+    strategy: String(row.strategy),
+    weights: JSON.parse(String(row.weights_json)),
+    minScore: Number(row.min_score),
+    status: row.status as ScoreWeightConfigStatus,
+    sampleCount: Number(row.sample_count),
+    report: row.report_json ? JSON.parse(String(row.report_json)) : null,
+    createdAt: String(row.created_at),
+    activatedAt: row.activated_at ? String(row.activated_at) : null,
+  };
+}
+
+/**
+ * 保存一次校准生成的建议配置（新版本号），返回版本号
+ */
+export async function saveScoreWeightSuggestions(
+  dbClient: Client,
+  suggestions: ScoreWeightSuggestionInput[],
+): Promise<number> {
+  if (suggestions.length === 0) {
+    throw new Error("没有可保存的评分权重建议");
+  }
+  const latest = await dbClient.execute("SELECT MAX(version) as version FROM score_weight_configs");
+  const version = Number(latest.rows[0]?.version ?? 0) + 1;
+  const createdAt = getChinaTimeISO();
+
+  await dbClient.batch(suggestions.map((s) => ({
+    sql: `INSERT INTO score_weight_configs (version, strategy, weights_json, min_score, status, sample_count, report_json, created_at)
+          VALUES (?, ?, ?, ?, 'suggested', ?, ?, ?)`,
+    args: [
+      version,
+      s.strategy,
+      JSON.stringify(s.weights),
+      s.minScore,
+      s.sampleCount,
+      s.report === undefined ? null : JSON.stringify(s.report),
+      createdAt,
+    ],
+  })), "write");
+  return version;
+}
+
+/**
+ * 查询配置（按版本号倒序）
+ */
+export async function listScoreWeightConfigs(
+  dbClient: Client,
+  filter: { strategy?: string; version?: number; limit?: number } = {},
+): Promise<ScoreWeightConfig[]> {
+  const result = await dbClient.execute({
+    sql: `SELECT * FROM score_weight_configs
+          WHERE (? IS NULL OR strategy = ?) AND (? IS NULL OR version = ?)
+          ORDER BY version DESC, strategy ASC
+          LIMIT ?`,
+    args: [
+      filter.strategy ?? null,
+      filter.strategy ?? null,
+      filter.version ?? null,
+      filter.version ?? null,
+      filter.limit ?? 100,
+    ],
+  });
+  return result.rows.map(rowToConfig);
+}
+
+/**
+ * 激活某个版本（可只激活其中的部分策略），同一策略之前激活的配置标记为 retired
+ * @returns 激活的配置
+ */
+export async function activateScoreWeightVersion(
+  dbClient: Client,
+  version: number,
+  strategies?: string[],
+): Promise<ScoreWeightConfig[]> {
+  const configs = (await listScoreWeightConfigs(dbClient, { version }))
+    .filter((c) => !strategies || strategies.includes(c.strategy));
+  if (configs.length === 0) {
+    throw new Error(`未找到评分权重配置版本 ${version}${strategies ? ` (${strategies.join(", ")})` : ""}`);
+  }
+
+  const activatedAt = getChinaTimeISO();
+  await dbClient.batch(configs.flatMap((c) => [
+    {
+      sql: "UPDATE score_weight_configs SET status = 'retired' WHERE strategy = ? AND status = 'active' AND id != ?",
+      args: [c.strategy, c.id],
+    },
+    {
+      sql: "UPDATE score_weight_configs SET status = 'active', activated_at = ? WHERE id = ?",
+      args: [activatedAt, c.id],
+    },
+  ]), "write");
+  clearScoreWeightCache();
+  return configs.map((c) => ({ ...c, status: "active" as const, activatedAt }));
+}
+
+/**
+ * 停用激活的配置（不传策略时停用全部），评分器回到默认权重
+ * @returns 停用的配置数量
+ */
+export async function deactivateScoreWeights(dbClient: Client, strategy?: string): Promise<number> {
+  const result = await dbClient.execute({
+    sql: "UPDATE score_weight_configs SET status = 'retired' WHERE status = 'active' AND (? IS NULL OR strategy = ?)",
+    args: [strategy ?? null, strategy ?? null],
+  });
+  clearScoreWeightCache();
+  return result.rowsAffected;
+}
+
+/**
+ * 获取策略当前激活的配置（缓存 1 分钟，没有激活配置时返回 null）
+ */
+export async function getActiveScoreWeightConfig(dbClient: Client, strategy: string): Promise<ScoreWeightConfig | null> {
+  const cached = activeCache.get(strategy);
+  if (cached && Date.now() - cached.loadedAt < ACTIVE_CONFIG_CACHE_MS) {
+    return cached.config;
+  }
+  const result = await dbClient.execute({
+    sql: "SELECT * FROM score_weight_configs WHERE strategy = ? AND status = 'active' ORDER BY version DESC LIMIT 1",
+    args: [strategy],
+  });
+  const config = result.rows.length > 0 ? rowToConfig(result.rows[0]) : null;
+  activeCache.set(strategy, { config, loadedAt: Date.now() });
+  return config;
+}
+
+/**
+ * 清空激活配置缓存
+ */
+export function clearScoreWeightCache(): void {
+  activeCache.clear();
+}
@@ -0,0 +1,174 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 交易账户注册表
+ * 一个进程可同时运行多个账户，每个账户拥有独立的交易所、凭证、币种列表、策略和风险参数覆盖
+ *
+ * 配置方式：
+ * - 未设置 ACCOUNTS_CONFIG_PATH：使用环境变量配置单个默认账户（与单账户部署完全兼容）
+ * - 设置 ACCOUNTS_CONFIG_PATH：从 JSON 文件加载账户列表（格式见 accounts.example.json）
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { createLogger } from "../utils/logger";
+import { DEFAULT_ACCOUNT_ID } from "../utils/accountContext";
+import type { ExchangeConfig } from "../exchanges/IExchangeClient";
+import { RISK_PARAMS, type RiskParams } from "./riskParams";
+
+const logger = createLogger({
+  name: "account-registry",
+  level: "info",
+});
+
+/**
+ * 账户配置
+ */
+export interface AccountConfig {
+  id: string;                                   // 账户ID（写入所有数据表的 account_id）
+  name: string;                                 // 显示名称
+  exchangeName: ExchangeConfig['exchangeName']; // 交易所
+  envPrefix?: string;                           // 凭证环境变量前缀（读取 {PREFIX}_API_KEY 等），默认使用交易所前缀
+  symbols: string[];                            // 交易币种列表
+  strategy?: string;                            // 交易策略（覆盖 TRADING_STRATEGY）
+  riskOverrides: Partial<RiskParams>;           // RISK_PARAMS 覆盖值
+}
+
+const SUPPORTED_EXCHANGES: ExchangeConfig['exchangeName'][] = ['gate', 'binance', 'okx', 'bybit', 'paper', 'backtest'];
+
+// 不允许按账户覆盖的风险参数（手续费表按交易所区分，持仓周期数由持仓小时数推导）
+const NON_OVERRIDABLE_PARAMS = new Set(['FEE_RATES', 'MAX_HOLDING_CYCLES']);
+
+let accountsCache: AccountConfig[] | null = null;
+
+/**
+ * 由环境变量构建默认账户
+ */
+function buildDefaultAccount(): AccountConfig {
+  return {
+    id: DEFAULT_ACCOUNT_ID,
+    name: '默认账户',
+    exchangeName: (process.env.EXCHANGE_NAME?.toLowerCase() || 'gate') as ExchangeConfig['exchangeName'],
+    symbols: [...RISK_PARAMS.TRADING_SYMBOLS],
+    riskOverrides: {},
+  };
+}
+
+/**
+ * 校验并转换配置文件中的单个账户
+ */
+function parseAccount(raw: any, index: number): AccountConfig {
+  const id = String(raw?.id || '').trim();
+  if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+    throw new Error(`账户配置 #${index + 1} 的 id 无效: "${raw?.id}"（只能包含字母、数字、下划线和连字符）`);
+  }
+
+  const exchangeName = String(raw.exchange || '').toLowerCase() as ExchangeConfig['exchangeName'];
+  if (!SUPPORTED_EXCHANGES.includes(exchangeName)) {
+    throw new Error(`账户 ${id} 的交易所无效: "${raw.exchange}"，可选值: ${SUPPORTED_EXCHANGES.join(', ')}`);
+  }
+
+  let symbols = [...RISK_PARAMS.TRADING_SYMBOLS] as string[];
+  if (raw.symbols !== undefined) {
+    if (!Array.isArray(raw.symbols) || raw.symbols.length === 0) {
+      throw new Error(`账户 ${id} 的 symbols 必须是非空数组`);
+    }
+    symbols = raw.symbols.map((s: unknown) => String(s).trim().toUpperCase()).filter((s: string) => s.length > 0);
+  }
+
+  const riskOverrides: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw.riskParams || {})) {
+    if (!(key in RISK_PARAMS) || NON_OVERRIDABLE_PARAMS.has(key)) {
+      throw new Error(`账户 ${id} 的风险参数 ${key} 不存在或不允许覆盖`);
+    }
+    const baseValue = RISK_PARAMS[key as keyof RiskParams];
+    if (typeof value !== typeof baseValue) {
+      throw new Error(`账户 ${id} 的风险参数 ${key} 类型错误: 期望 ${typeof baseValue}，实际 ${typeof value}`);
+    }
+    riskOverrides[key] = value;
+  }
+  // 账户币种列表通过 TRADING_SYMBOLS 覆盖生效
+  riskOverrides.TRADING_SYMBOLS = symbols;
+
+  return {
+    id,
+    name: String(raw.name || id),
+    exchangeName,
+    envPrefix: raw.envPrefix ? String(raw.envPrefix).toUpperCase() : undefined,
+    symbols,
+    strategy: raw.strategy ? String(raw.strategy) : undefined,
+    riskOverrides: riskOverrides as Partial<RiskParams>,
+  };
+}
+
+/**
+ * 从配置文件加载账户列表
+ */
+function loadAccountsFromFile(path: string): AccountConfig[] {
+  if (!existsSync(path)) {
+    throw new Error(`账户配置文件不存在: ${path}`);
+  }
+
+  const content = JSON.parse(readFileSync(path, 'utf-8'));
+  const rawAccounts = Array.isArray(content) ? content : content.accounts;
+  if (!Array.isArray(rawAccounts) || rawAccounts.length === 0) {
+    throw new Error(`账户配置文件 ${path} 中没有账户`);
+  }
+
+  const accounts = rawAccounts.map((raw, index) => parseAccount(raw, index));
+  const ids = new Set<string>();
+  for (const account of accounts) {
+    if (ids.has(account.id)) {
+      throw new Error(`账户ID重复: ${account.id}`);
+    }
+    ids.add(account.id);
+  }
+  return accounts;
+}
+
+/**
+ * 获取所有已注册账户（首次调用时加载）
+ */
+export function getAccounts(): AccountConfig[] {
+  if (!accountsCache) {
+    const configPath = process.env.ACCOUNTS_CONFIG_PATH;
+    accountsCache = configPath ? loadAccountsFromFile(configPath) : [buildDefaultAccount()];
+    logger.info(`已加载 ${accountsCache.length} 个交易账户: ${accountsCache.map(a => `${a.id}(${a.exchangeName})`).join(', ')}`);
+  }
+  return accountsCache;
+}
+
+/**
+ * 按ID获取账户
+ */
+export function getAccount(id: string): AccountConfig | undefined {
+  return getAccounts().find(a => a.id === id);
+}
+
+/**
+ * 获取主账户（未指定账户时使用，如 Web 接口默认展示的账户）
+ */
+export function getPrimaryAccount(): AccountConfig {
+  return getAccount(DEFAULT_ACCOUNT_ID) || getAccounts()[0];
+}
+
+/**
+ * 重置账户注册表缓存（主要用于测试）
+ */
+export function resetAccounts(): void {
+  accountsCache = null;
+}
@@ -19,6 +19,7 @@
 /**
  * 基础风险参数配置（从环境变量读取，支持灵活配置）
  */
+import { getCurrentAccount } from "../utils/accountContext";
 
 // 从环境变量读取交易币种列表（逗号分隔）
 const DEFAULT_TRADING_SYMBOLS = 'BTC,ETH,SOL,XRP,BNB,BCH';
@@ -26,7 +27,7 @@ const tradingSymbolsStr = process.env.TRADING_SYMBOLS || DEFAULT_TRADING_SYMBOLS
 const tradingSymbols = tradingSymbolsStr.split(',').map(s => s.trim()).filter(s => s.length > 0);
 
 // 从环境变量读取配置，提供默认值
-export const RISK_PARAMS = {
+const BASE_RISK_PARAMS = {
   // 最大持仓数
   MAX_POSITIONS: Number.parseInt(process.env.MAX_POSITIONS || '5', 10),
   
@@ -44,16 +45,32 @@ export const RISK_PARAMS = {
     return this.MAX_HOLDING_HOURS * 6;
   },
   
-  // 账户回撤风控阈值
-  // 禁止新开仓的回撤阈值（⚠️ 已禁用 - 相关检查已被注释，不再限制开仓）
+  // ===== 账户回撤熔断（交易状态机：正常 → 谨慎 → 禁止开仓 → 强制平仓 → 停止交易） =====
+  // 是否启用回撤熔断（默认启用）
+  CIRCUIT_BREAKER_ENABLED: process.env.CIRCUIT_BREAKER_ENABLED !== 'false',
+  
+  // 禁止新开仓的回撤阈值（从峰值净值计算）
   ACCOUNT_DRAWDOWN_NO_NEW_POSITION_PERCENT: Number.parseInt(process.env.ACCOUNT_DRAWDOWN_NO_NEW_POSITION_PERCENT || '15', 10),
   
-  // 强制平仓的回撤阈值（⚠️ 已禁用 - 相关检查已被注释，不再强制平仓）
+  // 强制平仓的回撤阈值（平仓后停止交易，需通过 API 手动重置）
   ACCOUNT_DRAWDOWN_FORCE_CLOSE_PERCENT: Number.parseInt(process.env.ACCOUNT_DRAWDOWN_FORCE_CLOSE_PERCENT || '20', 10),
   
-  // 警告提醒的回撤阈值（达到此阈值时，提醒谨慎交易）
+  // 警告提醒的回撤阈值（进入谨慎状态，新开仓按比例缩减）
   ACCOUNT_DRAWDOWN_WARNING_PERCENT: Number.parseInt(process.env.ACCOUNT_DRAWDOWN_WARNING_PERCENT || '10', 10),
   
+  // 日内亏损上限%（相对当日起始净值，达到后当日禁止开仓）
+  DAILY_LOSS_LIMIT_PERCENT: Number.parseFloat(process.env.DAILY_LOSS_LIMIT_PERCENT || '8'),
+  
+  // 连续亏损次数：达到前者进入谨慎状态，达到后者禁止开仓（盈利一笔或手动重置后重新计数）
+  CAUTIOUS_CONSECUTIVE_LOSSES: Number.parseInt(process.env.CAUTIOUS_CONSECUTIVE_LOSSES || '3', 10),
+  MAX_CONSECUTIVE_LOSSES: Number.parseInt(process.env.MAX_CONSECUTIVE_LOSSES || '5', 10),
+  
+  // 回撤/日内亏损需回落到阈值以下该百分点才自动恢复，避免在阈值附近反复切换
+  CIRCUIT_BREAKER_RECOVERY_BUFFER_PERCENT: Number.parseFloat(process.env.CIRCUIT_BREAKER_RECOVERY_BUFFER_PERCENT || '2'),
+  
+  // 谨慎状态下新开仓的仓位系数
+  CAUTIOUS_POSITION_SIZE_FACTOR: Number.parseFloat(process.env.CAUTIOUS_POSITION_SIZE_FACTOR || '0.5'),
+  
   // ===== 科学止损配置 =====
   // 是否启用科学止损系统
   ENABLE_SCIENTIFIC_STOP_LOSS: process.env.ENABLE_SCIENTIFIC_STOP_LOSS !== 'false', // 默认启用
@@ -82,6 +99,19 @@ export const RISK_PARAMS = {
   ENABLE_TRAILING_STOP_LOSS: process.env.ENABLE_TRAILING_STOP_LOSS === 'true', // 启用移动止损（默认关闭）
   TRAILING_STOP_CHECK_INTERVAL: Number.parseInt(process.env.TRAILING_STOP_CHECK_INTERVAL || '6', 10), // 检查间隔（周期数）
   
+  // ===== 组合风险配置（相关性与敞口限制，比例均相对账户净值） =====
+  PORTFOLIO_RISK_ENABLED: process.env.PORTFOLIO_RISK_ENABLED !== 'false', // 启用组合风险检查（默认启用）
+  PORTFOLIO_MAX_GROSS_EXPOSURE_RATIO: Number.parseFloat(process.env.PORTFOLIO_MAX_GROSS_EXPOSURE_RATIO || '10'), // 总名义敞口上限（倍）
+  PORTFOLIO_MAX_NET_EXPOSURE_RATIO: Number.parseFloat(process.env.PORTFOLIO_MAX_NET_EXPOSURE_RATIO || '6'), // 净敞口上限（倍）
+  PORTFOLIO_MAX_DIRECTION_EXPOSURE_RATIO: Number.parseFloat(process.env.PORTFOLIO_MAX_DIRECTION_EXPOSURE_RATIO || '8'), // 单方向敞口上限（倍）
+  PORTFOLIO_MAX_MARGIN_AT_RISK_PERCENT: Number.parseFloat(process.env.PORTFOLIO_MAX_MARGIN_AT_RISK_PERCENT || '80'), // 占用保证金上限%
+  PORTFOLIO_CORRELATION_THRESHOLD: Number.parseFloat(process.env.PORTFOLIO_CORRELATION_THRESHOLD || '0.7'), // 视为高相关的相关系数
+  PORTFOLIO_MAX_CORRELATED_POSITIONS: Number.parseInt(process.env.PORTFOLIO_MAX_CORRELATED_POSITIONS || '3', 10), // 同向高相关持仓数上限（含新开仓）
+  PORTFOLIO_MAX_CORRELATED_EXPOSURE_RATIO: Number.parseFloat(process.env.PORTFOLIO_MAX_CORRELATED_EXPOSURE_RATIO || '5'), // 同向高相关敞口上限（倍，按相关系数加权）
+  PORTFOLIO_MIN_ORDER_SCALE: Number.parseFloat(process.env.PORTFOLIO_MIN_ORDER_SCALE || '0.3'), // 缩减后低于原仓位此比例则直接拒绝
+  PORTFOLIO_CORRELATION_TIMEFRAME: process.env.PORTFOLIO_CORRELATION_TIMEFRAME || '1h', // 计算收益率相关性的K线周期
+  PORTFOLIO_CORRELATION_LOOKBACK: Number.parseInt(process.env.PORTFOLIO_CORRELATION_LOOKBACK || '72', 10), // 滚动窗口（K线根数）
+  
   // ===== 手续费配置 =====
   // 不同交易所、不同网络的手续费费率
   FEE_RATES: {
@@ -104,7 +134,55 @@ export const RISK_PARAMS = {
         maker: -0.00025, // -0.025% - Gate.io 正式网 maker（返佣）
         taker: 0.0005,   // 0.05% - Gate.io 正式网 taker
       }
+    },
+    okx: {
+      testnet: {
+        maker: 0.0002,  // 0.02% - OKX 模拟盘 maker
+        taker: 0.0005,  // 0.05% - OKX 模拟盘 taker
+      },
+      mainnet: {
+        maker: 0.0002,  // 0.02% - OKX 正式网 maker（普通用户 Lv1）
+        taker: 0.0005,  // 0.05% - OKX 正式网 taker（普通用户 Lv1）
+      }
+    },
+    bybit: {
+      testnet: {
+        maker: 0.0002,   // 0.02% - Bybit 测试网 maker
+        taker: 0.00055,  // 0.055% - Bybit 测试网 taker
+      },
+      mainnet: {
+        maker: 0.0002,   // 0.02% - Bybit 正式网 maker（VIP0）
+        taker: 0.00055,  // 0.055% - Bybit 正式网 taker（VIP0）
+      }
     }
   }
 } as const;
 
+export type RiskParams = typeof BASE_RISK_PARAMS;
+
+/**
+ * 当前账户生效的风险参数
+ * 多账户运行时优先使用账户配置中的覆盖值（见 config/accounts.ts），否则使用环境变量配置
+ */
+export const RISK_PARAMS: RiskParams = new Proxy(BASE_RISK_PARAMS, {
+  get(target, prop, receiver) {
+    const overrides = getCurrentAccount()?.riskOverrides;
+    if (overrides && typeof prop === 'string' && Object.hasOwn(overrides, prop)) {
+      return overrides[prop as keyof RiskParams];
+    }
+    return Reflect.get(target, prop, receiver);
+  },
+});
+
+/**
+ * 检查币种是否在当前账户的交易币种列表中
+ * 工具参数 schema 在模块加载时生成，无法反映账户覆盖的 TRADING_SYMBOLS，需在工具执行时调用
+ * @returns 不可交易时返回错误信息，可交易时返回 undefined
+ */
+export function checkTradingSymbol(symbol: string): string | undefined {
+  const symbols: readonly string[] = RISK_PARAMS.TRADING_SYMBOLS;
+  if (symbols.includes(symbol)) {
+    return undefined;
+  }
+  return `${symbol} 不在当前账户的交易币种列表中（${symbols.join(", ")}）`;
+}
@@ -20,8 +20,10 @@
  * 数据库初始化脚本
  */
 import "dotenv/config";
-import { createClient } from "@libsql/client";
+import { createClient, type Client } from "@libsql/client";
 import { CREATE_TABLES_SQL } from "./schema";
+import { migrateUp } from "./migrator";
+import { getAccounts } from "../config/accounts";
 import { createLogger } from "../utils/logger";
 
 const logger = createLogger({
@@ -29,85 +31,56 @@ const logger = createLogger({
   level: "info",
 });
 
-async function initDatabase() {
-  try {
-    const dbUrl = process.env.DATABASE_URL || "file:./.voltagent/trading.db";
-    const initialBalance = Number.parseFloat(process.env.INITIAL_BALANCE || "1000");
-
-    logger.info(`初始化数据库: ${dbUrl}`);
+/**
+ * 初始化单个交易账户的数据（初始资金记录、状态展示、孤儿订单清理）
+ */
+async function initAccountData(client: Client, accountId: string, initialBalance: number) {
+  logger.info(`\n[${accountId}] 初始化账户数据...`);
 
-    const client = createClient({
-      url: dbUrl,
+  // 检查是否需要重新初始化
+  const existingHistory = await client.execute({
+    sql: "SELECT COUNT(*) as count FROM account_history WHERE account_id = ?",
+    args: [accountId],
+  });
+  const count = (existingHistory.rows[0] as any).count as number;
+  let needsInitialRecord = true;
+
+  if (count > 0) {
+    // 检查第一条记录的资金是否与当前设置不同
+    const firstRecord = await client.execute({
+      sql: "SELECT total_value FROM account_history WHERE account_id = ? ORDER BY id ASC LIMIT 1",
+      args: [accountId],
     });
-
-    // 执行建表语句
-    logger.info("创建数据库表...");
-    await client.executeMultiple(CREATE_TABLES_SQL);
-
-    // 检查是否需要重新初始化
-    const existingHistory = await client.execute(
-      "SELECT COUNT(*) as count FROM account_history"
-    );
-    const count = (existingHistory.rows[0] as any).count as number;
-
-    if (count > 0) {
-      // 检查第一条记录的资金是否与当前设置不同
-      const firstRecord = await client.execute(
-        "SELECT total_value FROM account_history ORDER BY id ASC LIMIT 1"
-      );
-      const firstBalance = Number.parseFloat(firstRecord.rows[0]?.total_value as string || "0");
+    const firstBalance = Number.parseFloat(firstRecord.rows[0]?.total_value as string || "0");
+    
+    if (firstBalance !== initialBalance) {
+      logger.warn(`⚠️  检测到初始资金变更: ${firstBalance} USDT -> ${initialBalance} USDT`);
+      logger.info("清空现有数据，重新初始化...");
       
-      if (firstBalance !== initialBalance) {
-        logger.warn(`⚠️  检测到初始资金变更: ${firstBalance} USDT -> ${initialBalance} USDT`);
-        logger.info("清空现有数据，重新初始化...");
-        
-        // 清空所有交易数据
-        await client.execute("DELETE FROM trades");
-        await client.execute("DELETE FROM positions");
-        await client.execute("DELETE FROM account_history");
-        await client.execute("DELETE FROM trading_signals");
-        await client.execute("DELETE FROM agent_decisions");
-        
-        logger.info("✅ 旧数据已清空");
-      } else {
-        logger.info(`数据库已有 ${count} 条账户历史记录，跳过初始化`);
-        // 显示当前状态后直接返回
-        const latestAccount = await client.execute(
-          "SELECT * FROM account_history ORDER BY timestamp DESC LIMIT 1"
-        );
-        if (latestAccount.rows.length > 0) {
-          const account = latestAccount.rows[0] as any;
-          logger.info("当前账户状态:");
-          logger.info(`  总资产: ${account.total_value} USDT`);
-          logger.info(`  可用资金: ${account.available_cash} USDT`);
-          logger.info(`  未实现盈亏: ${account.unrealized_pnl} USDT`);
-          logger.info(`  总收益率: ${account.return_percent}%`);
-        }
-        
-        const positions = await client.execute("SELECT * FROM positions");
-        if (positions.rows.length > 0) {
-          logger.info(`\n当前持仓 (${positions.rows.length}):`);
-          for (const pos of positions.rows) {
-            const p = pos as any;
-            logger.info(`  ${p.symbol}: ${p.quantity} @ ${p.entry_price} (${p.side}, ${p.leverage}x)`);
-          }
-        } else {
-          logger.info("\n当前无持仓");
-        }
-        
-        logger.info("\n✅ 数据库初始化完成");
-        client.close();
-        return;
+      // 清空该账户的所有交易数据
+      for (const table of ["trades", "positions", "position_entries", "position_journal", "account_history", "trading_signals", "llm_usage", "structured_decisions", "prompt_snapshots", "operation_intents", "agent_decisions", "trading_state", "trading_state_transitions", "funding_settlements"]) {
+        await client.execute({
+          sql: `DELETE FROM ${table} WHERE account_id = ?`,
+          args: [accountId],
+        });
       }
+      
+      logger.info("✅ 旧数据已清空");
+    } else {
+      logger.info(`数据库已有 ${count} 条账户历史记录，跳过初始化`);
+      needsInitialRecord = false;
     }
+  }
 
+  if (needsInitialRecord) {
     // 插入初始账户记录
     logger.info(`插入初始资金记录: ${initialBalance} USDT`);
     await client.execute({
       sql: `INSERT INTO account_history 
-            (timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent) 
-            VALUES (?, ?, ?, ?, ?, ?)`,
+            (account_id, timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent) 
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
       args: [
+        accountId,
         new Date().toISOString(),
         initialBalance,
         initialBalance,
@@ -117,65 +90,93 @@ async function initDatabase() {
       ],
     });
     logger.info("✅ 初始资金记录已创建");
+  }
+
+  // 显示当前账户状态
+  const latestAccount = await client.execute({
+    sql: "SELECT * FROM account_history WHERE account_id = ? ORDER BY timestamp DESC LIMIT 1",
+    args: [accountId],
+  });
+
+  if (latestAccount.rows.length > 0) {
+    const account = latestAccount.rows[0] as any;
+    logger.info("当前账户状态:");
+    logger.info(`  总资产: ${account.total_value} USDT`);
+    logger.info(`  可用资金: ${account.available_cash} USDT`);
+    logger.info(`  未实现盈亏: ${account.unrealized_pnl} USDT`);
+    logger.info(`  总收益率: ${account.return_percent}%`);
+  }
 
-    // 显示当前账户状态
-    const latestAccount = await client.execute(
-      "SELECT * FROM account_history ORDER BY timestamp DESC LIMIT 1"
-    );
-
-    if (latestAccount.rows.length > 0) {
-      const account = latestAccount.rows[0] as any;
-      logger.info("当前账户状态:");
-      logger.info(`  总资产: ${account.total_value} USDT`);
-      logger.info(`  可用资金: ${account.available_cash} USDT`);
-      logger.info(`  未实现盈亏: ${account.unrealized_pnl} USDT`);
-      logger.info(`  总收益率: ${account.return_percent}%`);
+  // 显示当前持仓
+  const positions = await client.execute({
+    sql: "SELECT * FROM positions WHERE account_id = ?",
+    args: [accountId],
+  });
+  
+  if (positions.rows.length > 0) {
+    logger.info(`\n当前持仓 (${positions.rows.length}):`);
+    for (const pos of positions.rows) {
+      const p = pos as any;
+      logger.info(`  ${p.symbol}: ${p.quantity} @ ${p.entry_price} (${p.side}, ${p.leverage}x)`);
     }
+  } else {
+    logger.info("\n当前无持仓");
+  }
 
-    // 显示当前持仓
-    const positions = await client.execute(
-      "SELECT * FROM positions"
-    );
+  // 清理孤儿订单：持仓已关闭但止损止盈订单仍然活跃的情况
+  try {
+    const activeSymbols = new Set((positions.rows as any[]).map((p: any) => p.symbol));
     
-    if (positions.rows.length > 0) {
-      logger.info(`\n当前持仓 (${positions.rows.length}):`);
-      for (const pos of positions.rows) {
-        const p = pos as any;
-        logger.info(`  ${p.symbol}: ${p.quantity} @ ${p.entry_price} (${p.side}, ${p.leverage}x)`);
+    // 查询该账户所有活跃的止损止盈订单
+    const activeOrdersResult = await client.execute({
+      sql: "SELECT DISTINCT symbol FROM price_orders WHERE account_id = ? AND status = 'active'",
+      args: [accountId],
+    });
+    
+    const orphanSymbols = (activeOrdersResult.rows as any[])
+      .map((o: any) => o.symbol)
+      .filter(symbol => !activeSymbols.has(symbol));
+    
+    if (orphanSymbols.length > 0) {
+      logger.warn(`⚠️  发现孤儿订单: ${orphanSymbols.join(', ')}，正在清理...`);
+      
+      for (const symbol of orphanSymbols) {
+        await client.execute({
+          sql: `UPDATE price_orders 
+                SET status = 'cancelled', updated_at = datetime('now')
+                WHERE account_id = ? AND symbol = ? AND status = 'active'`,
+          args: [accountId, symbol],
+        });
       }
-    } else {
-      logger.info("\n当前无持仓");
+      
+      logger.info(`✅ 已清理 ${orphanSymbols.length} 个币种的孤儿订单`);
     }
+  } catch (error) {
+    logger.error("清理孤儿订单失败:", error as any);
+  }
+}
 
-    // 清理孤儿订单：持仓已关闭但止损止盈订单仍然活跃的情况
-    try {
-      const activeSymbols = new Set((positions.rows as any[]).map((p: any) => p.symbol));
-      
-      // 查询所有活跃的止损止盈订单
-      const activeOrdersResult = await client.execute(
-        "SELECT DISTINCT symbol FROM price_orders WHERE status = 'active'"
-      );
-      
-      const orphanSymbols = (activeOrdersResult.rows as any[])
-        .map((o: any) => o.symbol)
-        .filter(symbol => !activeSymbols.has(symbol));
-      
-      if (orphanSymbols.length > 0) {
-        logger.warn(`⚠️  发现孤儿订单: ${orphanSymbols.join(', ')}，正在清理...`);
-        
-        for (const symbol of orphanSymbols) {
-          await client.execute({
-            sql: `UPDATE price_orders 
-                  SET status = 'cancelled', updated_at = datetime('now')
-                  WHERE symbol = ? AND status = 'active'`,
-            args: [symbol],
-          });
-        }
-        
-        logger.info(`✅ 已清理 ${orphanSymbols.length} 个币种的孤儿订单`);
-      }
-    } catch (error) {
-      logger.error("清理孤儿订单失败:", error as any);
+async function initDatabase() {
+  try {
+    const dbUrl = process.env.DATABASE_URL || "file:./.voltagent/trading.db";
+    const initialBalance = Number.parseFloat(process.env.INITIAL_BALANCE || "1000");
+
+    logger.info(`初始化数据库: ${dbUrl}`);
+
+    const client = createClient({
+      url: dbUrl,
+    });
+
+    // 旧版本数据库先按版本执行迁移补齐字段（新建索引依赖这些字段），新数据库的迁移会全部跳过
+    await migrateUp(client);
+
+    // 执行建表语句
+    logger.info("创建数据库表...");
+    await client.executeMultiple(CREATE_TABLES_SQL);
+
+    // 逐个账户初始化数据
+    for (const account of getAccounts()) {
+      await initAccountData(client, account.id, initialBalance);
     }
 
     logger.info("\n✅ 数据库初始化完成");
@@ -0,0 +1,108 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 数据库迁移命令行工具
+ *
+ * 用法：
+ *   npm run db:migrate status             查看各版本迁移的应用状态
+ *   npm run db:migrate -- up [--to 12]    应用待执行的迁移（默认全部）
+ *   npm run db:migrate -- down [--to 10]  回滚迁移（默认只回滚最近一个）
+ *
+ * 说明：
+ *   - initDatabase 启动时会自动应用所有待执行的迁移，通常无需手动执行 up
+ *   - 不可逆的迁移（如 account_id 重建表）无法回滚
+ */
+import { createClient } from "@libsql/client";
+import { getMigrationStatus, migrateDown, migrateUp } from "./migrator";
+
+// 解析命令行参数
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options: Record<string, string> = {};
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'status';
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--') && i + 1 < args.length) {
+      options[args[i].slice(2)] = args[i + 1];
+      i++;
+    }
+  }
+
+  return { command, options };
+}
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const version = Number.parseInt(value);
+  if (!Number.isFinite(version) || version < 0) {
+    throw new Error(`无效的版本号 --to: ${value}`);
+  }
+  return version;
+}
+
+async function main() {
+  const { command, options } = parseArgs();
+  const to = parseVersion(options.to);
+  const dbUrl = process.env.DATABASE_URL || "file:./.voltagent/trading.db";
+  const client = createClient({ url: dbUrl });
+
+  try {
+    if (command === 'status') {
+      const status = await getMigrationStatus(client);
+      const applied = status.filter(s => s.appliedAt).length;
+      console.log(`📋 数据库: ${dbUrl}`);
+      console.log(`   已应用 ${applied}/${status.length} 个迁移\n`);
+      for (const s of status) {
+        const mark = s.appliedAt ? '✅' : '⏳';
+        const reversible = s.reversible ? '' : '  (不可回滚)';
+        console.log(`${mark} ${String(s.version).padStart(3, '0')} ${s.name.padEnd(40)} ${s.appliedAt ?? '待应用'}${reversible}`);
+      }
+      return;
+    }
+
+    if (command === 'up') {
+      const applied = await migrateUp(client, { to });
+      if (applied.length === 0) {
+        console.log('数据库已是最新版本，无需迁移');
+      }
+      return;
+    }
+
+    if (command === 'down') {
+      const reverted = await migrateDown(client, { to });
+      if (reverted.length === 0) {
+        console.log('没有可回滚的迁移');
+      }
+      return;
+    }
+
+    throw new Error(`未知命令: ${command}（可用命令：status, up, down）`);
+  } finally {
+    client.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ 迁移失败:', error);
+    process.exit(1);
+  });
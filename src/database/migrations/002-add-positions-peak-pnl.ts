@@ -0,0 +1,47 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 002: positions 表添加峰值盈亏百分比字段（移动止盈依据）
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+export const addPositionsPeakPnl: Migration = {
+  version: 2,
+  name: "add-positions-peak-pnl",
+  async up(client) {
+    const added = await addColumns(client, "positions", [{ name: "peak_pnl_percent", type: "REAL DEFAULT 0" }]);
+    if (added.length === 0) {
+      return;
+    }
+
+    // 已有持仓的峰值初始化为当前盈亏百分比（亏损时为 0）
+    await client.execute(`
+      UPDATE positions
+      SET peak_pnl_percent = MAX(
+        (current_price - entry_price) / entry_price * 100 * (CASE WHEN side = 'long' THEN 1 ELSE -1 END) * leverage,
+        0
+      )
+      WHERE entry_price > 0
+    `);
+  },
+  async down(client) {
+    await dropColumns(client, "positions", ["peak_pnl_percent"]);
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 003: price_orders 表添加开仓订单ID字段（条件单按持仓分组）
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+export const addPriceOrdersPositionOrderId: Migration = {
+  version: 3,
+  name: "add-price-orders-position-order-id",
+  async up(client) {
+    await addColumns(client, "price_orders", [{ name: "position_order_id", type: "TEXT" }]);
+  },
+  async down(client) {
+    await client.execute("DROP INDEX IF EXISTS idx_price_orders_position_order_id");
+    await dropColumns(client, "price_orders", ["position_order_id"]);
+  },
+};
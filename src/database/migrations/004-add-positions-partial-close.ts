@@ -0,0 +1,34 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 004: positions 表添加已部分平仓百分比字段（分批止盈）
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+export const addPositionsPartialClose: Migration = {
+  version: 4,
+  name: "add-positions-partial-close",
+  async up(client) {
+    await addColumns(client, "positions", [{ name: "partial_close_percentage", type: "REAL DEFAULT 0" }]);
+  },
+  async down(client) {
+    await dropColumns(client, "positions", ["partial_close_percentage"]);
+  },
+};
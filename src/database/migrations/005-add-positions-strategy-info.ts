@@ -0,0 +1,46 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 005: positions 表添加开仓时的策略信息字段
+ *
+ * - market_state: 市场状态（趋势/震荡/超买超卖等）
+ * - strategy_type: 策略类型（趋势跟踪/均值回归/突破等）
+ * - signal_strength: 信号强度（0-1）
+ * - opportunity_score: 机会评分（0-100）
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+const COLUMNS = [
+  { name: "market_state", type: "TEXT" },
+  { name: "strategy_type", type: "TEXT" },
+  { name: "signal_strength", type: "REAL" },
+  { name: "opportunity_score", type: "REAL" },
+];
+
+export const addPositionsStrategyInfo: Migration = {
+  version: 5,
+  name: "add-positions-strategy-info",
+  async up(client) {
+    await addColumns(client, "positions", COLUMNS);
+  },
+  async down(client) {
+    await dropColumns(client, "positions", COLUMNS.map((c) => c.name));
+  },
+};
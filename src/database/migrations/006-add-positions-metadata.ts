@@ -0,0 +1,34 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 006: positions 表添加 metadata 字段（JSON，持仓趋势监控等扩展信息）
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+export const addPositionsMetadata: Migration = {
+  version: 6,
+  name: "add-positions-metadata",
+  async up(client) {
+    await addColumns(client, "positions", [{ name: "metadata", type: "TEXT" }]);
+  },
+  async down(client) {
+    await dropColumns(client, "positions", ["metadata"]);
+  },
+};
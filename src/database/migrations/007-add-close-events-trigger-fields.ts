@@ -0,0 +1,57 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 007: position_close_events 表添加触发类型、杠杆、手续费、平仓订单ID字段
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+const COLUMNS = [
+  { name: "trigger_type", type: "TEXT" },
+  { name: "leverage", type: "INTEGER" },
+  { name: "fee", type: "REAL" },
+  { name: "order_id", type: "TEXT" },
+];
+
+export const addCloseEventsTriggerFields: Migration = {
+  version: 7,
+  name: "add-close-events-trigger-fields",
+  async up(client) {
+    const added = await addColumns(client, "position_close_events", COLUMNS);
+    if (added.length === 0) {
+      return;
+    }
+
+    // 根据平仓原因推断已有记录的触发类型
+    await client.batch([
+      `UPDATE position_close_events
+       SET trigger_type = CASE
+         WHEN close_reason IN ('stop_loss_triggered', 'take_profit_triggered', 'trailing_stop') THEN 'exchange_order'
+         WHEN close_reason = 'forced_close' THEN 'system_risk'
+         ELSE 'ai_decision'
+       END
+       WHERE trigger_type IS NULL`,
+      "UPDATE position_close_events SET leverage = 1 WHERE leverage IS NULL",
+      "UPDATE position_close_events SET fee = 0 WHERE fee IS NULL",
+    ]);
+  },
+  async down(client) {
+    await dropColumns(client, "position_close_events", COLUMNS.map((c) => c.name));
+  },
+};
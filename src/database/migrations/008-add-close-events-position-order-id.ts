@@ -0,0 +1,80 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 008: position_close_events 表添加开仓订单ID字段，用于精确关联持仓
+ *
+ * 回填顺序：当前持仓 → 开仓成交记录 → 平仓订单ID兜底
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+export const addCloseEventsPositionOrderId: Migration = {
+  version: 8,
+  name: "add-close-events-position-order-id",
+  async up(client) {
+    const added = await addColumns(client, "position_close_events", [{ name: "position_order_id", type: "TEXT" }]);
+    if (added.length === 0) {
+      return;
+    }
+
+    const records = await client.execute(`
+      SELECT id, symbol, side, entry_price, created_at, order_id, close_trade_id
+      FROM position_close_events
+      WHERE position_order_id IS NULL
+    `);
+
+    for (const record of records.rows) {
+      let positionOrderId: unknown = null;
+
+      const fromPositions = await client.execute({
+        sql: `SELECT entry_order_id FROM positions
+              WHERE symbol = ? AND side = ? AND ABS(entry_price - ?) < 0.0001
+              LIMIT 1`,
+        args: [record.symbol, record.side, record.entry_price],
+      });
+      positionOrderId = fromPositions.rows[0]?.entry_order_id ?? null;
+
+      if (!positionOrderId) {
+        const fromTrades = await client.execute({
+          sql: `SELECT order_id FROM trades
+                WHERE symbol = ? AND side = ? AND type = 'open'
+                  AND ABS(price - ?) < 0.0001
+                  AND datetime(timestamp) <= datetime(?)
+                ORDER BY datetime(timestamp) DESC
+                LIMIT 1`,
+          args: [record.symbol, record.side, record.entry_price, record.created_at],
+        });
+        positionOrderId = fromTrades.rows[0]?.order_id ?? null;
+      }
+
+      if (!positionOrderId) {
+        positionOrderId = record.order_id || record.close_trade_id || `unknown_${record.symbol}_${record.id}`;
+      }
+
+      await client.execute({
+        sql: "UPDATE position_close_events SET position_order_id = ? WHERE id = ?",
+        args: [positionOrderId as string, record.id],
+      });
+    }
+  },
+  async down(client) {
+    await client.execute("DROP INDEX IF EXISTS idx_close_events_position_order_id");
+    await dropColumns(client, "position_close_events", ["position_order_id"]);
+  },
+};
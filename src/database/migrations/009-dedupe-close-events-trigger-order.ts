@@ -0,0 +1,47 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 009: 清理同一条件单产生的重复平仓事件
+ *
+ * 早期价格监控会对同一个触发的条件单重复记录平仓事件，每个 trigger_order_id 只保留最早的一条。
+ * 之后的去重由写入前的幂等检查保证。纯数据清理，不可回滚。
+ */
+import type { Migration } from "./types";
+import { getColumns } from "./helpers";
+
+export const dedupeCloseEventsTriggerOrder: Migration = {
+  version: 9,
+  name: "dedupe-close-events-trigger-order",
+  async up(client) {
+    const columns = await getColumns(client, "position_close_events");
+    if (!columns.includes("trigger_order_id")) {
+      return;
+    }
+
+    await client.execute(`
+      DELETE FROM position_close_events
+      WHERE trigger_order_id IS NOT NULL AND trigger_order_id != ''
+        AND id NOT IN (
+          SELECT MIN(id) FROM position_close_events
+          WHERE trigger_order_id IS NOT NULL AND trigger_order_id != ''
+          GROUP BY trigger_order_id
+        )
+    `);
+  },
+};
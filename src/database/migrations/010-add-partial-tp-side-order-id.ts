@@ -0,0 +1,60 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 010: partial_take_profit_history 表添加方向和平仓订单ID字段
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+export const addPartialTpSideOrderId: Migration = {
+  version: 10,
+  name: "add-partial-tp-side-order-id",
+  async up(client) {
+    const added = await addColumns(client, "partial_take_profit_history", [
+      { name: "side", type: "TEXT" },
+      { name: "order_id", type: "TEXT" },
+    ]);
+    if (!added.includes("side")) {
+      return;
+    }
+
+    // 从时间最接近的部分平仓事件回填方向
+    const records = await client.execute(
+      "SELECT id, symbol, timestamp FROM partial_take_profit_history WHERE side IS NULL"
+    );
+    for (const record of records.rows) {
+      const closeEvent = await client.execute({
+        sql: `SELECT side FROM position_close_events
+              WHERE symbol = ? AND close_reason = 'partial_close'
+              ORDER BY ABS(JULIANDAY(created_at) - JULIANDAY(?)) ASC
+              LIMIT 1`,
+        args: [record.symbol, record.timestamp],
+      });
+      if (closeEvent.rows.length > 0) {
+        await client.execute({
+          sql: "UPDATE partial_take_profit_history SET side = ? WHERE id = ?",
+          args: [closeEvent.rows[0].side, record.id],
+        });
+      }
+    }
+  },
+  async down(client) {
+    await dropColumns(client, "partial_take_profit_history", ["side", "order_id"]);
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 011: partial_take_profit_history 表添加开仓订单ID字段
+ *
+ * 同一币种多次开仓时仅按 symbol 查询会混入上一笔持仓的分批止盈记录，
+ * 回填时通过平仓成交找到对应时间点之前最近的条件单所属持仓。
+ */
+import type { Migration } from "./types";
+import { addColumns, dropColumns } from "./helpers";
+
+export const addPartialTpPositionOrderId: Migration = {
+  version: 11,
+  name: "add-partial-tp-position-order-id",
+  async up(client) {
+    const added = await addColumns(client, "partial_take_profit_history", [{ name: "position_order_id", type: "TEXT" }]);
+    if (added.length === 0) {
+      return;
+    }
+
+    const records = await client.execute(
+      "SELECT id, symbol, order_id, timestamp FROM partial_take_profit_history WHERE position_order_id IS NULL AND order_id IS NOT NULL"
+    );
+    for (const record of records.rows) {
+      const trade = await client.execute({
+        sql: "SELECT order_id FROM trades WHERE order_id = ? AND type = 'close' LIMIT 1",
+        args: [record.order_id],
+      });
+      if (trade.rows.length === 0) {
+        continue;
+      }
+
+      const priceOrder = await client.execute({
+        sql: `SELECT position_order_id FROM price_orders
+              WHERE symbol LIKE ? AND position_order_id IS NOT NULL AND created_at <= ?
+              ORDER BY created_at DESC
+              LIMIT 1`,
+        args: [`%${record.symbol}%`, record.timestamp],
+      });
+      if (priceOrder.rows[0]?.position_order_id) {
+        await client.execute({
+          sql: "UPDATE partial_take_profit_history SET position_order_id = ? WHERE id = ?",
+          args: [priceOrder.rows[0].position_order_id, record.id],
+        });
+      }
+    }
+  },
+  async down(client) {
+    await client.execute("DROP INDEX IF EXISTS idx_partial_taking_profit_position_order_id");
+    await dropColumns(client, "partial_take_profit_history", ["position_order_id"]);
+  },
+};
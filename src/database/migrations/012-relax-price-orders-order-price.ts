@@ -0,0 +1,38 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 012: 放宽 price_orders.order_price 的 NOT NULL 约束（市价条件单没有委托价）
+ *
+ * SQLite 无法修改列约束，按最新定义重建表，原有 NULL 值补 0。不可回滚。
+ */
+import type { Migration } from "./types";
+import { rebuildTable } from "./helpers";
+
+export const relaxPriceOrdersOrderPrice: Migration = {
+  version: 12,
+  name: "relax-price-orders-order-price",
+  async up(client) {
+    const result = await client.execute("PRAGMA table_info(price_orders)");
+    const orderPrice = result.rows.find((row: any) => row.name === "order_price");
+    if (!orderPrice || Number(orderPrice.notnull) === 0) {
+      return;
+    }
+    await rebuildTable(client, "price_orders", { order_price: "COALESCE(order_price, 0)" });
+  },
+};
@@ -0,0 +1,94 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 013: 所有业务表添加 account_id 字段（多账户支持），历史数据归属 'default' 账户。不可回滚。
+ *
+ * - 普通表直接 ALTER TABLE 添加 account_id 列
+ * - 唯一约束/主键需要包含 account_id 的表（positions、system_config、price_orders、paper_*）
+ *   按 schema.ts 中的最新定义重建，并复制原有数据
+ * - backtest_candles 为共享行情数据，不区分账户
+ */
+import type { Migration } from "./types";
+import { getColumns, rebuildTable } from "./helpers";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger({
+  name: "migrate-account-id",
+  level: "info",
+});
+
+/**
+ * 只需添加列的表
+ */
+const ALTER_TABLES = [
+  "trades",
+  "account_history",
+  "trading_signals",
+  "agent_decisions",
+  "position_close_events",
+  "partial_take_profit_history",
+  "inconsistent_states",
+];
+
+/**
+ * 唯一约束/主键包含 account_id，需要重建的表
+ */
+const REBUILD_TABLES = [
+  "positions",
+  "system_config",
+  "price_orders",
+  "paper_account",
+  "paper_positions",
+  "paper_leverages",
+  "paper_orders",
+  "paper_price_orders",
+  "paper_trades",
+];
+
+export const addAccountId: Migration = {
+  version: 13,
+  name: "add-account-id",
+  async up(client) {
+    const migrated: string[] = [];
+
+    for (const table of ALTER_TABLES) {
+      const columns = await getColumns(client, table);
+      if (columns.length === 0 || columns.includes("account_id")) {
+        continue;
+      }
+      await client.execute(
+        `ALTER TABLE ${table} ADD COLUMN account_id TEXT NOT NULL DEFAULT 'default'`
+      );
+      migrated.push(table);
+    }
+
+    for (const table of REBUILD_TABLES) {
+      const columns = await getColumns(client, table);
+      if (columns.length === 0 || columns.includes("account_id")) {
+        continue;
+      }
+      await rebuildTable(client, table);
+      migrated.push(table);
+    }
+
+    if (migrated.length > 0) {
+      logger.info(`✅ 已为 ${migrated.length} 张表添加 account_id: ${migrated.join(", ")}`);
+    }
+  },
+};
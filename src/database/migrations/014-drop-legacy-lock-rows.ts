@@ -0,0 +1,41 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 014: 清理旧版分布式锁写入 system_config 的锁记录
+ *
+ * 分批止盈和反转监控执行器曾以 partial_tp_* / reversal_close_* 为键在 system_config 中轮询加锁，
+ * 现已统一改用 position_locks 表的持仓锁服务，残留的锁记录不再使用。纯数据清理，不可回滚。
+ */
+import type { Migration } from "./types";
+import { getColumns } from "./helpers";
+
+export const dropLegacyLockRows: Migration = {
+  version: 14,
+  name: "drop-legacy-lock-rows",
+  async up(client) {
+    const columns = await getColumns(client, "system_config");
+    if (columns.length === 0) {
+      return;
+    }
+
+    await client.execute(
+      "DELETE FROM system_config WHERE key LIKE 'partial\\_tp\\_%' ESCAPE '\\' OR key LIKE 'reversal\\_close\\_%' ESCAPE '\\'",
+    );
+  },
+};
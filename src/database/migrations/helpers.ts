@@ -0,0 +1,112 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 迁移辅助函数
+ */
+import type { MigrationClient } from "./types";
+import { CREATE_TABLES_SQL } from "../schema";
+
+export interface ColumnDefinition {
+  name: string;
+  type: string;
+}
+
+/**
+ * 获取表的字段名列表（表不存在时返回空数组）
+ */
+export async function getColumns(client: MigrationClient, table: string): Promise<string[]> {
+  const result = await client.execute(`PRAGMA table_info(${table})`);
+  return result.rows.map((row: any) => row.name as string);
+}
+
+/**
+ * 添加缺失的字段
+ * @returns 实际添加的字段名；表不存在时返回空数组
+ */
+export async function addColumns(client: MigrationClient, table: string, columns: ColumnDefinition[]): Promise<string[]> {
+  const existing = await getColumns(client, table);
+  if (existing.length === 0) {
+    return [];
+  }
+
+  const added: string[] = [];
+  for (const column of columns) {
+    if (existing.includes(column.name)) {
+      continue;
+    }
+    await client.execute(`ALTER TABLE ${table} ADD COLUMN ${column.name} ${column.type}`);
+    added.push(column.name);
+  }
+  return added;
+}
+
+/**
+ * 删除已存在的字段（字段上的索引需先删除）
+ */
+export async function dropColumns(client: MigrationClient, table: string, names: string[]): Promise<void> {
+  const existing = await getColumns(client, table);
+  for (const name of names) {
+    if (existing.includes(name)) {
+      await client.execute(`ALTER TABLE ${table} DROP COLUMN ${name}`);
+    }
+  }
+}
+
+/**
+ * 从 CREATE_TABLES_SQL 中取出指定表的建表语句
+ */
+export function getCreateTableSql(table: string): string {
+  const match = CREATE_TABLES_SQL.match(
+    new RegExp(`CREATE TABLE IF NOT EXISTS ${table} \\([\\s\\S]*?\\n\\);`)
+  );
+  if (!match) {
+    throw new Error(`schema.ts 中未找到表 ${table} 的定义`);
+  }
+  return match[0];
+}
+
+/**
+ * 按 schema.ts 中的最新定义重建表（SQLite 无法直接修改约束）
+ *
+ * 只复制新旧表都存在的列，旧版本缺失的列使用新表默认值；
+ * expressions 可为指定列提供复制时的取值表达式（如 COALESCE 补默认值）
+ */
+export async function rebuildTable(
+  client: MigrationClient,
+  table: string,
+  expressions: Record<string, string> = {},
+): Promise<void> {
+  const columns = await getColumns(client, table);
+  const createSql = getCreateTableSql(table).replace(
+    `CREATE TABLE IF NOT EXISTS ${table} (`,
+    `CREATE TABLE ${table}__new (`
+  );
+  await client.execute(`DROP TABLE IF EXISTS ${table}__new`);
+  await client.execute(createSql);
+
+  const newColumns = await getColumns(client, `${table}__new`);
+  const shared = columns.filter((c) => newColumns.includes(c));
+  const selects = shared.map((c) => expressions[c] ?? c);
+
+  await client.batch([
+    `INSERT INTO ${table}__new (${shared.join(", ")}) SELECT ${selects.join(", ")} FROM ${table}`,
+    `DROP TABLE ${table}`,
+    `ALTER TABLE ${table}__new RENAME TO ${table}`,
+  ]);
+}
@@ -0,0 +1,58 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 版本化迁移列表（按版本号顺序）
+ *
+ * 新增迁移：在本目录按 `NNN-描述.ts` 新建文件并追加到 MIGRATIONS 末尾，
+ * 同时更新 schema.ts 中的 CREATE_TABLES_SQL，保证新建数据库与迁移后的数据库结构一致
+ */
+import type { Migration } from "./types";
+import { addTradesFee } from "./001-add-trades-fee";
+import { addPositionsPeakPnl } from "./002-add-positions-peak-pnl";
+import { addPriceOrdersPositionOrderId } from "./003-add-price-orders-position-order-id";
+import { addPositionsPartialClose } from "./004-add-positions-partial-close";
+import { addPositionsStrategyInfo } from "./005-add-positions-strategy-info";
+import { addPositionsMetadata } from "./006-add-positions-metadata";
+import { addCloseEventsTriggerFields } from "./007-add-close-events-trigger-fields";
+import { addCloseEventsPositionOrderId } from "./008-add-close-events-position-order-id";
+import { dedupeCloseEventsTriggerOrder } from "./009-dedupe-close-events-trigger-order";
+import { addPartialTpSideOrderId } from "./010-add-partial-tp-side-order-id";
+import { addPartialTpPositionOrderId } from "./011-add-partial-tp-position-order-id";
+import { relaxPriceOrdersOrderPrice } from "./012-relax-price-orders-order-price";
+import { addAccountId } from "./013-add-account-id";
+import { dropLegacyLockRows } from "./014-drop-legacy-lock-rows";
+
+export type { Migration, MigrationClient } from "./types";
+
+export const MIGRATIONS: Migration[] = [
+  addTradesFee,
+  addPositionsPeakPnl,
+  addPriceOrdersPositionOrderId,
+  addPositionsPartialClose,
+  addPositionsStrategyInfo,
+  addPositionsMetadata,
+  addCloseEventsTriggerFields,
+  addCloseEventsPositionOrderId,
+  dedupeCloseEventsTriggerOrder,
+  addPartialTpSideOrderId,
+  addPartialTpPositionOrderId,
+  relaxPriceOrdersOrderPrice,
+  addAccountId,
+  dropLegacyLockRows,
+];
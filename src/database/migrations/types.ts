@@ -0,0 +1,42 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 数据库迁移定义
+ */
+import type { Transaction } from "@libsql/client";
+
+/**
+ * 迁移可用的数据库操作（迁移在事务中执行，Client 和 Transaction 都满足该接口）
+ */
+export type MigrationClient = Pick<Transaction, "execute" | "batch">;
+
+/**
+ * 单个版本化迁移
+ *
+ * - version 全局递增，一旦发布不可修改或复用
+ * - up 必须幂等：表不存在时直接跳过（由 CREATE_TABLES_SQL 按最新定义创建），字段已存在时不再添加
+ * - down 撤销 up 的结构变更；不可逆的迁移不提供 down
+ * - up/down 与 schema_migrations 的记录在同一事务中提交，迁移内不能再开启事务
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(client: MigrationClient): Promise<void>;
+  down?(client: MigrationClient): Promise<void>;
+}
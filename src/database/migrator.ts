@@ -0,0 +1,176 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 版本化数据库迁移执行器
+ *
+ * 已应用的版本记录在 schema_migrations 表中。initDatabase 启动时先执行待应用的迁移，
+ * 再执行 CREATE_TABLES_SQL 补齐缺失的表和索引：
+ * - 新数据库：迁移全部跳过（表尚不存在），随后按最新定义建表，所有版本记为已应用
+ * - 旧数据库：按版本顺序补齐字段/约束，最终结构与新数据库一致
+ *
+ * 每个迁移与其 schema_migrations 记录在同一事务中提交，中途失败时整体回滚；
+ * 迁移本身也是幂等的，修复后重新执行即可。
+ */
+import type { Client } from "@libsql/client";
+import { MIGRATIONS, type Migration, type MigrationClient } from "./migrations";
+import { getCreateTableSql } from "./migrations/helpers";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger({
+  name: "migrator",
+  level: "info",
+});
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  reversible: boolean;
+}
+
+export interface MigrateOptions {
+  /** 目标版本（up 时为最高应用到的版本，down 时为回滚后保留的最高版本） */
+  to?: number;
+  migrations?: Migration[];
+}
+
+/**
+ * 校验迁移列表版本号严格递增
+ */
+function validateMigrations(migrations: Migration[]): void {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(`迁移版本号必须严格递增: ${migrations[i - 1].version} -> ${migrations[i].version}`);
+    }
+  }
+}
+
+/**
+ * 迁移在 CREATE_TABLES_SQL 之前执行，需要先单独创建版本表
+ */
+async function ensureMigrationsTable(client: Client): Promise<void> {
+  await client.execute(getCreateTableSql("schema_migrations"));
+}
+
+async function getAppliedVersions(client: Client): Promise<Map<number, string>> {
+  await ensureMigrationsTable(client);
+  const result = await client.execute("SELECT version, applied_at FROM schema_migrations ORDER BY version");
+  return new Map(result.rows.map((row: any) => [Number(row.version), row.applied_at as string]));
+}
+
+/**
+ * 在写事务中执行，成功提交、失败回滚
+ */
+async function runInTransaction(client: Client, fn: (tx: MigrationClient) => Promise<void>): Promise<void> {
+  const tx = await client.transaction("write");
+  try {
+    await fn(tx);
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback().catch(() => {});
+    throw error;
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * 查询所有迁移的应用状态
+ */
+export async function getMigrationStatus(
+  client: Client,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<MigrationStatus[]> {
+  const applied = await getAppliedVersions(client);
+  return migrations.map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version) ?? null,
+    reversible: typeof migration.down === "function",
+  }));
+}
+
+/**
+ * 按版本顺序执行待应用的迁移
+ * @returns 本次应用的迁移
+ */
+export async function migrateUp(client: Client, options: MigrateOptions = {}): Promise<Migration[]> {
+  const migrations = options.migrations ?? MIGRATIONS;
+  validateMigrations(migrations);
+  const applied = await getAppliedVersions(client);
+  const pending = migrations.filter(
+    (m) => !applied.has(m.version) && (options.to === undefined || m.version <= options.to)
+  );
+
+  for (const migration of pending) {
+    logger.info(`⬆️  应用迁移 ${migration.version}: ${migration.name}`);
+    await runInTransaction(client, async (tx) => {
+      await migration.up(tx);
+      await tx.execute({
+        sql: "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+        args: [migration.version, migration.name, new Date().toISOString()],
+      });
+    });
+  }
+
+  if (pending.length > 0) {
+    logger.info(`✅ 已应用 ${pending.length} 个迁移`);
+  }
+  return pending;
+}
+
+/**
+ * 按版本倒序回滚已应用的迁移，默认只回滚最近一个
+ *
+ * 回滚范围内存在不可逆迁移时整体拒绝执行，不做部分回滚
+ * @returns 本次回滚的迁移
+ */
+export async function migrateDown(client: Client, options: MigrateOptions = {}): Promise<Migration[]> {
+  const migrations = options.migrations ?? MIGRATIONS;
+  validateMigrations(migrations);
+  const applied = await getAppliedVersions(client);
+  const appliedMigrations = migrations.filter((m) => applied.has(m.version));
+  if (appliedMigrations.length === 0) {
+    return [];
+  }
+
+  const target = options.to ?? (appliedMigrations.length > 1 ? appliedMigrations[appliedMigrations.length - 2].version : 0);
+  const rollback = appliedMigrations.filter((m) => m.version > target).reverse();
+
+  const irreversible = rollback.filter((m) => typeof m.down !== "function");
+  if (irreversible.length > 0) {
+    throw new Error(`以下迁移不可回滚: ${irreversible.map((m) => `${m.version}(${m.name})`).join(", ")}`);
+  }
+
+  for (const migration of rollback) {
+    logger.info(`⬇️  回滚迁移 ${migration.version}: ${migration.name}`);
+    await runInTransaction(client, async (tx) => {
+      await migration.down?.(tx);
+      await tx.execute({
+        sql: "DELETE FROM schema_migrations WHERE version = ?",
+        args: [migration.version],
+      });
+    });
+  }
+
+  if (rollback.length > 0) {
+    logger.info(`✅ 已回滚 ${rollback.length} 个迁移`);
+  }
+  return rollback;
+}
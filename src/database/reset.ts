@@ -46,15 +46,29 @@ async function resetDatabase() {
     // 删除所有表
     logger.info("🗑️  删除现有表...");
     await client.execute("DROP TABLE IF EXISTS trades");
+    await client.execute("DROP TABLE IF EXISTS llm_usage");
+    await client.execute("DROP TABLE IF EXISTS structured_decisions");
+    await client.execute("DROP TABLE IF EXISTS prompt_snapshots");
     await client.execute("DROP TABLE IF EXISTS agent_decisions");
+    await client.execute("DROP TABLE IF EXISTS trading_state");
+    await client.execute("DROP TABLE IF EXISTS trading_state_transitions");
     await client.execute("DROP TABLE IF EXISTS trading_signals");
     await client.execute("DROP TABLE IF EXISTS positions");
+    await client.execute("DROP TABLE IF EXISTS position_entries");
+    await client.execute("DROP TABLE IF EXISTS position_journal");
     await client.execute("DROP TABLE IF EXISTS account_history");
     await client.execute("DROP TABLE IF EXISTS price_orders");
     await client.execute("DROP TABLE IF EXISTS position_close_events");
     await client.execute("DROP TABLE IF EXISTS partial_take_profit_history");
     await client.execute("DROP TABLE IF EXISTS system_config");
     await client.execute("DROP TABLE IF EXISTS inconsistent_states");
+    await client.execute("DROP TABLE IF EXISTS operation_intents");
+    await client.execute("DROP TABLE IF EXISTS position_locks");
+    await client.execute("DROP TABLE IF EXISTS funding_rates");
+    await client.execute("DROP TABLE IF EXISTS funding_settlements");
+    await client.execute("DROP TABLE IF EXISTS liquidity_snapshots");
+    await client.execute("DROP TABLE IF EXISTS opportunity_scores");
+    await client.execute("DROP TABLE IF EXISTS score_weight_configs");
     logger.info("✅ 现有表已删除");
 
     // 重新创建表
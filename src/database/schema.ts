@@ -22,6 +22,7 @@
 
 export interface Trade {
   id: number;
+  account_id: string; // 所属交易账户
   order_id: string;
   symbol: string;
   side: 'long' | 'short';
@@ -37,6 +38,7 @@ export interface Trade {
 
 export interface Position {
   id: number;
+  account_id: string; // 所属交易账户
   symbol: string;
   quantity: number;
   entry_price: number;
@@ -62,8 +64,46 @@ export interface Position {
   opportunity_score?: number; // 机会评分（0-100）
 }
 
+/**
+ * 开仓快照：持仓平仓后 positions 记录会被删除，开仓时的属性保留在此用于绩效分析
+ */
+export interface PositionEntry {
+  id: number;
+  account_id: string; // 所属交易账户
+  position_order_id: string; // 开仓订单ID（对应 position_close_events.position_order_id）
+  symbol: string;
+  side: 'long' | 'short';
+  entry_price: number;
+  quantity: number;
+  leverage: number;
+  initial_stop_loss?: number; // 开仓时的止损价（计算 R 倍数）
+  initial_take_profit?: number;
+  market_state?: string;
+  strategy_type?: string;
+  signal_strength?: number;
+  opportunity_score?: number;
+  metadata?: string;
+  opened_at: string;
+}
+
+/**
+ * 持仓日志：其他表中没有历史记录的持仓事件（如反转预警，positions.metadata 只保留最近一次）
+ */
+export interface PositionJournal {
+  id: number;
+  account_id: string; // 所属交易账户
+  position_order_id: string; // 开仓订单ID（positions.entry_order_id）
+  symbol: string;
+  side: 'long' | 'short';
+  event_type: 'reversal_warning';
+  price?: number; // 事件发生时的价格
+  details?: string; // JSON 格式的事件详情
+  timestamp: string;
+}
+
 export interface AccountHistory {
   id: number;
+  account_id: string; // 所属交易账户
   timestamp: string;
   total_value: number;
   available_cash: number;
@@ -75,6 +115,7 @@ export interface AccountHistory {
 
 export interface TradingSignal {
   id: number;
+  account_id: string; // 所属交易账户
   symbol: string;
   timestamp: string;
   price: number;
@@ -92,6 +133,7 @@ export interface TradingSignal {
 
 export interface AgentDecision {
   id: number;
+  account_id: string; // 所属交易账户
   timestamp: string;
   iteration: number;
   market_analysis: string;
@@ -101,8 +143,136 @@ export interface AgentDecision {
   positions_count: number;
 }
 
+/**
+ * 模型调用记录（每个交易周期的每次供应商尝试一行，通过 decision_id 关联 agent_decisions）
+ */
+export interface LLMUsage {
+  id: number;
+  account_id: string; // 所属交易账户
+  decision_id: number | null;       // 所有供应商都失败时为空
+  iteration: number;
+  timestamp: string;
+  attempt_index: number;            // 在供应商链中的尝试顺序（0 为主模型）
+  provider_id: string;
+  provider_type: 'openai' | 'rule';
+  model: string | null;
+  status: 'success' | 'timeout' | 'error' | 'malformed_tool_call';
+  error: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  latency_ms: number;
+  estimated_cost_usd: number;
+}
+
+/**
+ * 结构化决策审计记录（DECISION_MODE=structured，通过 decision_id 关联 agent_decisions）
+ */
+export interface StructuredDecision {
+  id: number;
+  account_id: string; // 所属交易账户
+  decision_id: number;
+  timestamp: string;
+  schema_version: number;
+  raw_output: string;               // 模型原始回复
+  decision_json: string;            // 校验后的决策对象
+  guard_json: string;               // 风控检查结果（通过/拒绝及原因）
+  results_json: string;             // 各操作执行结果
+  approved_count: number;
+  rejected_count: number;
+}
+
+/**
+ * 提示词输入快照（每个 AI 决策周期一条，供回放工具对比提示词/模型修改前后的工具调用）
+ */
+export interface PromptSnapshotRow {
+  id: number;
+  account_id: string; // 所属交易账户
+  decision_id?: number; // 对应的 agent_decisions 记录（决策完成后关联）
+  timestamp: string;
+  iteration: number;
+  strategy: string;
+  decision_mode: string;            // ai / structured
+  prompt_mode: string;              // compact / full
+  provider_id?: string;             // 实际产生决策的模型供应商
+  model?: string;
+  inputs_json: string;              // 生成提示词的全部输入（行情、持仓、账户、近期决策等）
+  prompt: string;                   // 实际使用的提示词
+  tool_calls_json?: string;         // 实际执行的工具调用序列（含返回结果）
+}
+
+/**
+ * 开平仓操作意图日志（预写日志：意图 → 交易所下单 → 数据库事务提交 → 完成）
+ */
+export interface OperationIntentRow {
+  id: number;
+  account_id: string; // 所属交易账户
+  operation: 'open_position' | 'close_position';
+  symbol: string;
+  side?: 'long' | 'short';
+  status: 'pending' | 'submitted' | 'committed' | 'failed' | 'reconciled';
+  exchange_order_id?: string;       // 交易所订单ID（下单返回后记录）
+  payload: string;                  // JSON: 操作参数及各阶段结果（成交价、数量、条件单等）
+  resolution?: string;              // 失败或启动修复时的处理说明
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 持仓锁租约（每个账户的每个币种+方向一行，释放后保留行以延续隔离令牌）
+ */
+export interface PositionLockRow {
+  account_id: string; // 所属交易账户
+  symbol: string;
+  side: 'long' | 'short';
+  holder?: string;                  // 当前持有者（释放后为空）
+  purpose?: 'opening' | 'closing';  // 持有目的（健康检查据此跳过正在开平仓的持仓）
+  fencing_token: number;            // 隔离令牌，每次获取递增
+  acquired_at?: string;
+  expires_at: number;               // 租约到期时间（毫秒时间戳），持有期间定时续期
+}
+
+export interface TradingStateRow {
+  account_id: string;               // 所属交易账户（每个账户一行）
+  state: 'normal' | 'cautious' | 'no_new_entries' | 'flatten' | 'halted';
+  reason: string;
+  peak_equity: number;              // 上次重置以来的峰值净值（含未实现盈亏）
+  trading_day: string;              // 当日日期（UTC，YYYY-MM-DD）
+  day_start_equity: number;         // 当日起始净值（用于计算日内亏损）
+  reset_at: string;                 // 上次手动重置时间（连续亏损从此时开始统计，空字符串表示从未重置）
+  updated_at: string;
+}
+
+export interface TradingStateTransition {
+  id: number;
+  account_id: string; // 所属交易账户
+  timestamp: string;
+  from_state: string;
+  to_state: string;
+  reason: string;
+  triggered_by: 'auto' | 'manual';  // 自动触发或手动重置
+  equity: number;
+  drawdown_percent: number;
+  daily_loss_percent: number;
+  consecutive_losses: number;
+}
+
+export interface ControlAuditLog {
+  id: number;
+  account_id: string; // 所属交易账户
+  timestamp: string;
+  method: string;
+  path: string;
+  params: string | null;  // 请求体（JSON）
+  status: 'success' | 'failed' | 'unauthorized';
+  http_status: number;
+  response: string | null;  // 响应内容（截断）
+  remote_addr: string | null;
+}
+
 export interface SystemConfig {
   id: number;
+  account_id: string; // 所属交易账户
   key: string;
   value: string;
   updated_at: string;
@@ -110,6 +280,7 @@ export interface SystemConfig {
 
 export interface PriceOrder {
   id: number;
+  account_id: string; // 所属交易账户
   order_id: string;
   position_order_id?: string;  // 关联的开仓订单ID
   symbol: string;
@@ -126,6 +297,7 @@ export interface PriceOrder {
 
 export interface PositionCloseEvent {
   id: number;
+  account_id: string; // 所属交易账户
   symbol: string;
   side: 'long' | 'short';
   close_reason: 'stop_loss_triggered' | 'take_profit_triggered' | 'manual_close' | 'ai_decision' | 'trend_reversal' | 'peak_drawdown' | 'time_limit' | 'partial_close' | 'trailing_stop' | 'forced_close';
@@ -150,6 +322,7 @@ export interface PositionCloseEvent {
  */
 export interface PartialTakeProfitHistory {
   id: number;
+  account_id: string;               // 所属交易账户
   symbol: string;
   stage: number;                    // 阶段：1=1R, 2=2R, 3=3R+
   r_multiple: number;               // 当时的R倍数
@@ -164,6 +337,113 @@ export interface PartialTakeProfitHistory {
   timestamp: string;                // 执行时间
 }
 
+/**
+ * 资金费率历史（每个币种每个结算时间一行，结算前以最新预测值覆盖）
+ */
+export interface FundingRateRow {
+  id: number;
+  account_id: string;               // 所属交易账户
+  symbol: string;
+  funding_time: number;             // 结算时间（毫秒时间戳）
+  rate: number;                     // 资金费率（正数为多头支付空头）
+  mark_price?: number;
+  index_price?: number;
+  basis?: number;                   // 基差 (标记价格 - 指数价格) / 指数价格
+  recorded_at: string;              // 最近一次记录时间
+}
+
+/**
+ * 资金费结算流水（从交易所结算记录同步，按持仓开平仓时间归属到持仓）
+ */
+export interface FundingSettlementRow {
+  id: number;
+  account_id: string;               // 所属交易账户
+  symbol: string;
+  settled_at: number;               // 结算时间（毫秒时间戳）
+  amount: number;                   // 资金费（USDT，正数为收取，负数为支付）
+  position_order_id?: string;       // 归属的持仓（开仓订单ID），未找到持仓时为空
+  external_id?: string;             // 交易所流水ID
+}
+
+/**
+ * 订单簿流动性快照（价差、±0.5%/±1% 深度，用于流动性评分的滚动均值）
+ */
+export interface LiquiditySnapshotRow {
+  id: number;
+  account_id: string;               // 所属交易账户
+  symbol: string;
+  mid_price: number;
+  spread_percent: number;           // 买卖价差（相对中间价，百分比）
+  bid_depth_05: number;             // 中间价下方 0.5% 内的买单深度（USDT）
+  ask_depth_05: number;             // 中间价上方 0.5% 内的卖单深度（USDT）
+  bid_depth_1: number;              // 中间价下方 1% 内的买单深度（USDT）
+  ask_depth_1: number;              // 中间价上方 1% 内的卖单深度（USDT）
+  recorded_at: number;              // 采样时间（毫秒时间戳）
+}
+
+/**
+ * 机会评分快照（各评分维度的 0-1 因子，离线校准时与平仓结果关联）
+ */
+export interface OpportunityScoreRow {
+  id: number;
+  account_id: string;               // 所属交易账户
+  symbol: string;
+  direction: 'long' | 'short';
+  strategy: string;                 // 评分时的交易策略（如 balanced）
+  strategy_type?: string;           // 信号来源策略（如 trend_following）
+  market_state?: string;
+  total_score: number;              // 机会评分（0-100）
+  signal_strength: number;          // 信号强度因子（0-1）
+  trend_consistency: number;        // 趋势一致性因子（0-1）
+  volatility_fit: number;           // 波动率适配因子（0-1）
+  risk_reward_ratio: number;        // 风险收益比因子（0-1）
+  liquidity: number;                // 流动性因子（0-1）
+  penalty: number;                  // 历史失败、趋势不稳、高波动惩罚合计（分）
+  weights_version?: number;         // 评分使用的权重配置版本（静态默认权重时为空）
+  scored_at: string;
+}
+
+/**
+ * 评分权重配置（离线校准生成的版本化配置，每个版本每个策略一行）
+ */
+export interface ScoreWeightConfigRow {
+  id: number;
+  version: number;
+  strategy: string;
+  weights_json: string;             // 各维度权重（JSON，合计 100）
+  min_score: number;                // 最低机会评分
+  status: 'suggested' | 'active' | 'retired';
+  sample_count: number;             // 校准样本数
+  report_json?: string;             // 校准报告摘要（JSON）
+  created_at: string;
+  activated_at?: string;
+}
+
+/**
+ * 回测历史K线
+ */
+export interface BacktestCandle {
+  id: number;
+  symbol: string;
+  timeframe: string;                // '1m', '5m', '15m', '1h', '4h'
+  timestamp: number;                // K线开盘时间（毫秒）
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  exchange: string;                 // 数据来源交易所
+}
+
+/**
+ * 已应用的数据库迁移版本（全局，不区分账户）
+ */
+export interface SchemaMigration {
+  version: number;                  // 迁移版本号
+  name: string;                     // 迁移名称
+  applied_at: string;               // 应用时间
+}
+
 /**
  * SQL 建表语句
  */
@@ -171,6 +451,7 @@ export const CREATE_TABLES_SQL = `
 -- 交易记录表
 CREATE TABLE IF NOT EXISTS trades (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
   order_id TEXT NOT NULL,
   symbol TEXT NOT NULL,
   side TEXT NOT NULL,
@@ -187,7 +468,8 @@ CREATE TABLE IF NOT EXISTS trades (
 -- 持仓表
 CREATE TABLE IF NOT EXISTS positions (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
-  symbol TEXT NOT NULL UNIQUE,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  symbol TEXT NOT NULL,
   quantity REAL NOT NULL,
   entry_price REAL NOT NULL,
   current_price REAL NOT NULL,
@@ -210,12 +492,48 @@ CREATE TABLE IF NOT EXISTS positions (
   signal_strength REAL,
   opportunity_score REAL,
   metadata TEXT,
-  direction TEXT
+  direction TEXT,
+  UNIQUE(account_id, symbol)
+);
+
+-- 开仓快照表
+CREATE TABLE IF NOT EXISTS position_entries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  position_order_id TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  side TEXT NOT NULL,
+  entry_price REAL NOT NULL,
+  quantity REAL NOT NULL,
+  leverage INTEGER NOT NULL,
+  initial_stop_loss REAL,
+  initial_take_profit REAL,
+  market_state TEXT,
+  strategy_type TEXT,
+  signal_strength REAL,
+  opportunity_score REAL,
+  metadata TEXT,
+  opened_at TEXT NOT NULL,
+  UNIQUE(account_id, position_order_id)
+);
+
+-- 持仓日志表
+CREATE TABLE IF NOT EXISTS position_journal (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  position_order_id TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  side TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  price REAL,
+  details TEXT,
+  timestamp TEXT NOT NULL
 );
 
 -- 账户历史表
 CREATE TABLE IF NOT EXISTS account_history (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
   timestamp TEXT NOT NULL,
   total_value REAL NOT NULL,
   available_cash REAL NOT NULL,
@@ -228,6 +546,7 @@ CREATE TABLE IF NOT EXISTS account_history (
 -- 技术指标表
 CREATE TABLE IF NOT EXISTS trading_signals (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
   symbol TEXT NOT NULL,
   timestamp TEXT NOT NULL,
   price REAL NOT NULL,
@@ -246,6 +565,7 @@ CREATE TABLE IF NOT EXISTS trading_signals (
 -- Agent 决策记录表
 CREATE TABLE IF NOT EXISTS agent_decisions (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
   timestamp TEXT NOT NULL,
   iteration INTEGER NOT NULL,
   market_analysis TEXT NOT NULL,
@@ -255,18 +575,114 @@ CREATE TABLE IF NOT EXISTS agent_decisions (
   positions_count INTEGER NOT NULL
 );
 
+-- 模型调用记录表（token 用量、耗时、估算费用）
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  decision_id INTEGER REFERENCES agent_decisions(id),
+  iteration INTEGER NOT NULL,
+  timestamp TEXT NOT NULL,
+  attempt_index INTEGER NOT NULL,
+  provider_id TEXT NOT NULL,
+  provider_type TEXT NOT NULL,
+  model TEXT,
+  status TEXT NOT NULL,
+  error TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd REAL NOT NULL DEFAULT 0
+);
+
+-- 结构化决策审计表
+CREATE TABLE IF NOT EXISTS structured_decisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  decision_id INTEGER NOT NULL REFERENCES agent_decisions(id),
+  timestamp TEXT NOT NULL,
+  schema_version INTEGER NOT NULL,
+  raw_output TEXT NOT NULL,
+  decision_json TEXT NOT NULL,
+  guard_json TEXT NOT NULL,
+  results_json TEXT NOT NULL,
+  approved_count INTEGER NOT NULL DEFAULT 0,
+  rejected_count INTEGER NOT NULL DEFAULT 0
+);
+
+-- 提示词输入快照表
+CREATE TABLE IF NOT EXISTS prompt_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  decision_id INTEGER REFERENCES agent_decisions(id),
+  timestamp TEXT NOT NULL,
+  iteration INTEGER NOT NULL,
+  strategy TEXT NOT NULL,
+  decision_mode TEXT NOT NULL,
+  prompt_mode TEXT NOT NULL,
+  provider_id TEXT,
+  model TEXT,
+  inputs_json TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  tool_calls_json TEXT
+);
+
+-- 账户交易状态表（回撤熔断状态机，每个账户一行）
+CREATE TABLE IF NOT EXISTS trading_state (
+  account_id TEXT PRIMARY KEY,
+  state TEXT NOT NULL DEFAULT 'normal',
+  reason TEXT NOT NULL DEFAULT '',
+  peak_equity REAL NOT NULL,
+  trading_day TEXT NOT NULL,
+  day_start_equity REAL NOT NULL,
+  reset_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- 交易状态切换记录
+CREATE TABLE IF NOT EXISTS trading_state_transitions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  timestamp TEXT NOT NULL,
+  from_state TEXT NOT NULL,
+  to_state TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  triggered_by TEXT NOT NULL,
+  equity REAL NOT NULL,
+  drawdown_percent REAL NOT NULL,
+  daily_loss_percent REAL NOT NULL,
+  consecutive_losses INTEGER NOT NULL
+);
+
+-- 控制接口审计日志表
+CREATE TABLE IF NOT EXISTS control_audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  timestamp TEXT NOT NULL,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  params TEXT,
+  status TEXT NOT NULL,
+  http_status INTEGER NOT NULL,
+  response TEXT,
+  remote_addr TEXT
+);
+
 -- 系统配置表
 CREATE TABLE IF NOT EXISTS system_config (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
-  key TEXT NOT NULL UNIQUE,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  key TEXT NOT NULL,
   value TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  UNIQUE(account_id, key)
 );
 
 -- 条件单表（止损止盈订单）
 CREATE TABLE IF NOT EXISTS price_orders (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
-  order_id TEXT NOT NULL UNIQUE,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  order_id TEXT NOT NULL,
   position_order_id TEXT,
   symbol TEXT NOT NULL,
   side TEXT NOT NULL,
@@ -277,12 +693,14 @@ CREATE TABLE IF NOT EXISTS price_orders (
   status TEXT NOT NULL DEFAULT 'active',
   created_at TEXT NOT NULL,
   updated_at TEXT,
-  triggered_at TEXT
+  triggered_at TEXT,
+  UNIQUE(account_id, order_id)
 );
 
 -- 持仓平仓事件表（记录所有平仓事件，供AI决策使用）
 CREATE TABLE IF NOT EXISTS position_close_events (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
   symbol TEXT NOT NULL,
   side TEXT NOT NULL,
   close_reason TEXT NOT NULL,
@@ -306,6 +724,7 @@ CREATE TABLE IF NOT EXISTS position_close_events (
 -- 分批止盈历史记录表
 CREATE TABLE IF NOT EXISTS partial_take_profit_history (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
   symbol TEXT NOT NULL,
   side TEXT,
   stage INTEGER NOT NULL,
@@ -326,6 +745,7 @@ CREATE TABLE IF NOT EXISTS partial_take_profit_history (
 -- 不一致状态追踪表（事务保护）
 CREATE TABLE IF NOT EXISTS inconsistent_states (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
   operation TEXT NOT NULL,
   symbol TEXT NOT NULL,
   side TEXT,
@@ -340,7 +760,220 @@ CREATE TABLE IF NOT EXISTS inconsistent_states (
   created_at TEXT NOT NULL
 );
 
+-- 开平仓操作意图日志（启动时修复未完成的操作）
+CREATE TABLE IF NOT EXISTS operation_intents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  operation TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  side TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  exchange_order_id TEXT,
+  payload TEXT NOT NULL,
+  resolution TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- 持仓锁租约（同一持仓同时只允许一个操作开平仓或调整仓位）
+CREATE TABLE IF NOT EXISTS position_locks (
+  account_id TEXT NOT NULL DEFAULT 'default',
+  symbol TEXT NOT NULL,
+  side TEXT NOT NULL,
+  holder TEXT,
+  purpose TEXT,
+  fencing_token INTEGER NOT NULL DEFAULT 0,
+  acquired_at TEXT,
+  expires_at INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (account_id, symbol, side)
+);
+
+-- 资金费率历史表
+CREATE TABLE IF NOT EXISTS funding_rates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  symbol TEXT NOT NULL,
+  funding_time INTEGER NOT NULL,
+  rate REAL NOT NULL,
+  mark_price REAL,
+  index_price REAL,
+  basis REAL,
+  recorded_at TEXT NOT NULL,
+  UNIQUE(account_id, symbol, funding_time)
+);
+
+-- 资金费结算流水表
+CREATE TABLE IF NOT EXISTS funding_settlements (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  symbol TEXT NOT NULL,
+  settled_at INTEGER NOT NULL,
+  amount REAL NOT NULL,
+  position_order_id TEXT,
+  external_id TEXT,
+  UNIQUE(account_id, symbol, settled_at)
+);
+
+-- 订单簿流动性快照表
+CREATE TABLE IF NOT EXISTS liquidity_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  symbol TEXT NOT NULL,
+  mid_price REAL NOT NULL,
+  spread_percent REAL NOT NULL,
+  bid_depth_05 REAL NOT NULL,
+  ask_depth_05 REAL NOT NULL,
+  bid_depth_1 REAL NOT NULL,
+  ask_depth_1 REAL NOT NULL,
+  recorded_at INTEGER NOT NULL
+);
+
+-- 机会评分快照表
+CREATE TABLE IF NOT EXISTS opportunity_scores (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL DEFAULT 'default',
+  symbol TEXT NOT NULL,
+  direction TEXT NOT NULL,
+  strategy TEXT NOT NULL,
+  strategy_type TEXT,
+  market_state TEXT,
+  total_score REAL NOT NULL,
+  signal_strength REAL NOT NULL,
+  trend_consistency REAL NOT NULL,
+  volatility_fit REAL NOT NULL,
+  risk_reward_ratio REAL NOT NULL,
+  liquidity REAL NOT NULL,
+  penalty REAL NOT NULL DEFAULT 0,
+  weights_version INTEGER,
+  scored_at TEXT NOT NULL
+);
+
+-- 评分权重配置表
+CREATE TABLE IF NOT EXISTS score_weight_configs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  version INTEGER NOT NULL,
+  strategy TEXT NOT NULL,
+  weights_json TEXT NOT NULL,
+  min_score REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'suggested',
+  sample_count INTEGER NOT NULL DEFAULT 0,
+  report_json TEXT,
+  created_at TEXT NOT NULL,
+  activated_at TEXT,
+  UNIQUE(version, strategy)
+);
+
+-- 回测历史K线表
+CREATE TABLE IF NOT EXISTS backtest_candles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  symbol TEXT NOT NULL,
+  timeframe TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  open REAL NOT NULL,
+  high REAL NOT NULL,
+  low REAL NOT NULL,
+  close REAL NOT NULL,
+  volume REAL NOT NULL,
+  exchange TEXT NOT NULL DEFAULT 'binance',
+  UNIQUE(symbol, timeframe, timestamp)
+);
+
+-- 数据库迁移版本表（由 migrator 维护）
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TEXT NOT NULL
+);
+
+-- 模拟盘账户表（每个交易账户一行）
+CREATE TABLE IF NOT EXISTS paper_account (
+  account_id TEXT PRIMARY KEY DEFAULT 'default',
+  initial_balance REAL NOT NULL,
+  wallet_balance REAL NOT NULL,
+  total_fees REAL NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL
+);
+
+-- 模拟盘持仓表
+CREATE TABLE IF NOT EXISTS paper_positions (
+  account_id TEXT NOT NULL DEFAULT 'default',
+  contract TEXT NOT NULL,
+  size REAL NOT NULL,
+  entry_price REAL NOT NULL,
+  leverage INTEGER NOT NULL,
+  realised_pnl REAL NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (account_id, contract)
+);
+
+-- 模拟盘杠杆设置表
+CREATE TABLE IF NOT EXISTS paper_leverages (
+  account_id TEXT NOT NULL DEFAULT 'default',
+  contract TEXT NOT NULL,
+  leverage INTEGER NOT NULL,
+  PRIMARY KEY (account_id, contract)
+);
+
+-- 模拟盘订单表
+CREATE TABLE IF NOT EXISTS paper_orders (
+  account_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  size REAL NOT NULL,
+  price REAL NOT NULL DEFAULT 0,
+  status TEXT NOT NULL,
+  reduce_only INTEGER NOT NULL DEFAULT 0,
+  tif TEXT NOT NULL DEFAULT 'gtc',
+  fill_price REAL NOT NULL DEFAULT 0,
+  left_size REAL NOT NULL DEFAULT 0,
+  create_time INTEGER NOT NULL,
+  finish_time INTEGER,
+  PRIMARY KEY (account_id, id)
+);
+
+-- 模拟盘条件单表（止损/止盈）
+CREATE TABLE IF NOT EXISTS paper_price_orders (
+  account_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  type TEXT NOT NULL,
+  trigger_price REAL NOT NULL,
+  rule INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  create_time INTEGER NOT NULL,
+  finish_time INTEGER,
+  PRIMARY KEY (account_id, id)
+);
+
+-- 模拟盘成交记录表
+CREATE TABLE IF NOT EXISTS paper_trades (
+  account_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  order_id TEXT,
+  size REAL NOT NULL,
+  price REAL NOT NULL,
+  role TEXT NOT NULL,
+  fee REAL NOT NULL DEFAULT 0,
+  realised_pnl REAL NOT NULL DEFAULT 0,
+  trigger_order_id TEXT,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (account_id, id)
+);
+
 -- 创建索引
+CREATE INDEX IF NOT EXISTS idx_trades_account ON trades(account_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_history_account ON account_history(account_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_decisions_account ON agent_decisions(account_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_account ON llm_usage(account_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_decision ON llm_usage(decision_id);
+CREATE INDEX IF NOT EXISTS idx_structured_decisions_decision ON structured_decisions(decision_id);
+CREATE INDEX IF NOT EXISTS idx_prompt_snapshots_account ON prompt_snapshots(account_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_trading_state_transitions_account ON trading_state_transitions(account_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_control_audit_log_account ON control_audit_log(account_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_price_orders_account ON price_orders(account_id, status);
+CREATE INDEX IF NOT EXISTS idx_close_events_account ON position_close_events(account_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_position_journal_position ON position_journal(account_id, position_order_id, timestamp);
 CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades(timestamp);
 CREATE INDEX IF NOT EXISTS idx_trades_symbol ON trades(symbol);
 CREATE INDEX IF NOT EXISTS idx_signals_timestamp ON trading_signals(timestamp);
@@ -359,5 +992,14 @@ CREATE INDEX IF NOT EXISTS idx_partial_taking_profit_status ON partial_take_prof
 CREATE INDEX IF NOT EXISTS idx_inconsistent_states_resolved ON inconsistent_states(resolved, created_at);
 CREATE INDEX IF NOT EXISTS idx_inconsistent_states_symbol ON inconsistent_states(symbol);
 CREATE INDEX IF NOT EXISTS idx_inconsistent_states_operation ON inconsistent_states(operation);
+CREATE INDEX IF NOT EXISTS idx_operation_intents_status ON operation_intents(account_id, status);
+CREATE INDEX IF NOT EXISTS idx_funding_settlements_position ON funding_settlements(account_id, position_order_id);
+CREATE INDEX IF NOT EXISTS idx_liquidity_snapshots_symbol_time ON liquidity_snapshots(account_id, symbol, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_opportunity_scores_lookup ON opportunity_scores(account_id, symbol, direction, scored_at);
+CREATE INDEX IF NOT EXISTS idx_score_weight_configs_strategy ON score_weight_configs(strategy, status);
+CREATE INDEX IF NOT EXISTS idx_backtest_candles_symbol_time ON backtest_candles(symbol, timeframe, timestamp);
+CREATE INDEX IF NOT EXISTS idx_paper_orders_status ON paper_orders(status);
+CREATE INDEX IF NOT EXISTS idx_paper_price_orders_status ON paper_price_orders(status, contract);
+CREATE INDEX IF NOT EXISTS idx_paper_trades_contract_time ON paper_trades(contract, timestamp);
 `;
 
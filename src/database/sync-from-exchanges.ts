@@ -99,9 +99,18 @@ async function syncFromGate() {
     await client.executeMultiple(`
       DROP TABLE IF EXISTS trades;
       DROP TABLE IF EXISTS positions;
+      DROP TABLE IF EXISTS position_entries;
+      DROP TABLE IF EXISTS position_journal;
       DROP TABLE IF EXISTS account_history;
       DROP TABLE IF EXISTS trading_signals;
+      DROP TABLE IF EXISTS llm_usage;
+      DROP TABLE IF EXISTS structured_decisions;
+      DROP TABLE IF EXISTS prompt_snapshots;
+      DROP TABLE IF EXISTS operation_intents;
+      DROP TABLE IF EXISTS funding_settlements;
       DROP TABLE IF EXISTS agent_decisions;
+      DROP TABLE IF EXISTS trading_state;
+      DROP TABLE IF EXISTS trading_state_transitions;
     `);
     logger.info("✅ 现有表已删除");
     
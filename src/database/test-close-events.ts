@@ -45,7 +45,7 @@ async function testCloseEvents() {
 
     if (tableCheck.rows.length === 0) {
       logger.error("❌ position_close_events 表不存在！");
-      logger.info("请先运行: npx tsx src/database/migrate-add-close-events.ts");
+      logger.info("请先运行: npm run db:init");
       return;
     }
     logger.info("✅ position_close_events 表存在\n");
@@ -23,6 +23,8 @@ import * as crypto from 'crypto';
 import { createLogger } from "../utils/logger";
 import { RISK_PARAMS } from "../config/riskParams";
 import { RateLimitManager } from "./RateLimitManager";
+import { BinanceExchangeStream } from "./streams/BinanceExchangeStream";
+import type { ExchangeStream } from "./streams/ExchangeStream";
 import type {
   IExchangeClient,
   ExchangeConfig,
@@ -34,6 +36,8 @@ import type {
   OrderResponse,
   ContractInfo,
   TradeRecord,
+  SettlementRecord,
+  PriceOrderCancelResult,
 } from "./IExchangeClient";
 
 const logger = createLogger({
@@ -72,6 +76,9 @@ export class BinanceExchangeClient implements IExchangeClient {
   // ============ 批量请求跟踪 ============
   private recentCandleRequests: number[] = []; // 最近的K线请求时间戳
   private recentTickerRequests: number[] = []; // 最近的ticker请求时间戳
+
+  // ============ WebSocket 数据流（启用后行情优先从推送读取） ============
+  private marketStream: BinanceExchangeStream | null = null;
   private readonly BATCH_REQUEST_WINDOW = 5000; // 5秒内的请求算作批量请求
 
   // ============ 资金费率缓存 ============
@@ -124,6 +131,59 @@ export class BinanceExchangeClient implements IExchangeClient {
     return "binance";
   }
 
+  /**
+   * 启用 WebSocket 数据流（行情推送 + 有 API 密钥时的用户数据流）
+   * @param publicOnly 只订阅公共行情（模拟盘行情来源使用）
+   */
+  enableMarketStream(publicOnly: boolean = false): ExchangeStream {
+    if (!this.marketStream) {
+      this.marketStream = new BinanceExchangeStream({
+        isTestnet: this.config.isTestnet,
+        apiKey: publicOnly ? undefined : this.apiKey,
+        apiSecret: publicOnly ? undefined : this.apiSecret,
+        createListenKey: async () => {
+          const result = await this.listenKeyRequest('POST');
+          return result.listenKey;
+        },
+        keepAliveListenKey: async () => {
+          await this.listenKeyRequest('PUT');
+        },
+      });
+
+      // 成交和持仓推送到达时清空持仓/账户缓存，确保随后的 REST 读取反映最新状态
+      const invalidateAccountCaches = () => {
+        this.positionsCache = null;
+        this.accountInfoCache = null;
+      };
+      this.marketStream.onPositionUpdate(invalidateAccountCaches);
+      this.marketStream.onOrderUpdate((event) => {
+        if (event.status !== 'open') {
+          invalidateAccountCaches();
+        }
+      });
+      this.marketStream.start();
+    }
+    return this.marketStream;
+  }
+
+  getMarketStream(): ExchangeStream | null {
+    return this.marketStream;
+  }
+
+  /**
+   * 申请/延期用户数据流 listenKey（只需 API Key，无需签名）
+   */
+  private async listenKeyRequest(method: 'POST' | 'PUT'): Promise<any> {
+    const endpoint = '/fapi/v1/listenKey';
+    return this.handleRequest(new URL(this.baseUrl + endpoint), {
+      method,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey,
+        'User-Agent': 'Mozilla/5.0 AI-Auto-Trading Bot',
+      }
+    }, 2, endpoint);
+  }
+
   isTestnet(): boolean {
     return this.config.isTestnet;
   }
@@ -750,6 +810,15 @@ export class BinanceExchangeClient implements IExchangeClient {
       const cacheTTL = cacheOptions?.ttl !== undefined ? cacheOptions.ttl : this.TICKER_CACHE_TTL;
       const skipCache = cacheOptions?.skipCache || false;
 
+      // 优先使用 WebSocket 推送的新鲜行情（不占用 REST 限流配额）
+      if (this.marketStream && !skipCache) {
+        this.marketStream.trackTicker(symbol);
+        const streamed = this.marketStream.getTicker(symbol, includeMarkPrice);
+        if (streamed) {
+          return { ...streamed, contract };
+        }
+      }
+
       // 检查缓存（如果未设置skipCache）- 区分是否包含markPrice的缓存
       const cacheKey = includeMarkPrice ? `${symbol}_full` : symbol;
       const cached = this.tickerCache.get(cacheKey);
@@ -834,10 +903,20 @@ export class BinanceExchangeClient implements IExchangeClient {
       const cacheTTL = cacheOptions?.ttl !== undefined ? cacheOptions.ttl : this.CANDLE_CACHE_TTL;
       const skipCache = cacheOptions?.skipCache || false;
 
+      // 优先使用 WebSocket 推送维护的K线；尚未补齐时跳过缓存，用 REST 最新数据补齐历史
+      let seedStream = false;
+      if (this.marketStream && !skipCache) {
+        const streamed = this.marketStream.getCandles(symbol, interval, limit);
+        if (streamed) {
+          return streamed;
+        }
+        seedStream = this.marketStream.trackCandles(symbol, interval) && this.marketStream.isMarketConnected();
+      }
+
       // 检查缓存（如果未设置skipCache）
       const cacheKey = `${symbol}-${interval}-${limit}`;
       const cached = this.candleCache.get(cacheKey);
-      if (!skipCache && cached && this.isCacheValid(cached.timestamp, cacheTTL)) {
+      if (!skipCache && !seedStream && cached && this.isCacheValid(cached.timestamp, cacheTTL)) {
         return cached.data;
       }
 
@@ -885,6 +964,7 @@ export class BinanceExchangeClient implements IExchangeClient {
         data: result,
         timestamp: Date.now()
       });
+      this.marketStream?.seedCandles(symbol, interval, result);
 
       return result;
     } catch (error) {
@@ -1089,7 +1169,9 @@ export class BinanceExchangeClient implements IExchangeClient {
 
       if (params.price) {
         data.price = params.price.toString();
-        data.timeInForce = params.tif || 'GTC';
+        // 统一的 tif（Gate 格式）转换为 Binance timeInForce，poc（只做 Maker）对应 GTX
+        const tif = (params.tif || 'gtc').toLowerCase();
+        data.timeInForce = tif === 'ioc' ? 'IOC' : tif === 'fok' ? 'FOK' : tif === 'poc' ? 'GTX' : 'GTC';
       }
 
       if (params.reduceOnly) {
@@ -1481,9 +1563,14 @@ export class BinanceExchangeClient implements IExchangeClient {
       // 查询API
       const response = await this.publicRequest('/fapi/v1/premiumIndex', { symbol }, retries);
       
+      // 同时提供 Gate 格式的 r/t（t 为下次结算时间，秒）
       const result = {
+        r: response.lastFundingRate,
+        t: Math.floor(Number(response.nextFundingTime || 0) / 1000),
         funding_rate: response.lastFundingRate,
-        next_funding_time: response.nextFundingTime
+        next_funding_time: response.nextFundingTime,
+        mark_price: response.markPrice,
+        index_price: response.indexPrice,
       };
       
       // 🔧 更新缓存（新增）
@@ -1516,9 +1603,25 @@ export class BinanceExchangeClient implements IExchangeClient {
     return [];
   }
 
-  async getSettlementHistory(contract?: string, limit?: number, offset?: number): Promise<any[]> {
-    // Binance doesn't have a direct settlement history endpoint, return empty array
-    return [];
+  async getSettlementHistory(contract?: string, limit: number = 100, offset?: number): Promise<SettlementRecord[]> {
+    try {
+      // 收益流水中 FUNDING_FEE 即资金费结算（接口按时间正序返回）
+      const params: any = { incomeType: 'FUNDING_FEE', limit: Math.min(limit, 1000) };
+      if (contract) {
+        params.symbol = this.normalizeContract(contract);
+      }
+      const incomes = await this.privateRequest('/fapi/v1/income', params);
+      return (incomes || []).reverse().map((income: any) => ({
+        time: Math.floor(Number(income.time) / 1000),
+        contract: income.symbol,
+        change: String(income.income),
+        type: 'fund' as const,
+        text: String(income.tranId ?? ''),
+      }));
+    } catch (error) {
+      logger.error('获取资金费结算记录失败:', error as Error);
+      throw error;
+    }
   }
 
   async getOrderHistory(contract?: string, limit?: number): Promise<any[]> {
@@ -2011,6 +2114,48 @@ export class BinanceExchangeClient implements IExchangeClient {
     }
   }
 
+  /**
+   * 取消单个条件单
+   * 止损止盈使用 Algo Order 下单，普通订单接口查不到也取消不了，需按 algoId 走 Algo Order 接口
+   */
+  async cancelPriceOrder(contract: string, orderId: string): Promise<PriceOrderCancelResult> {
+    try {
+      const symbol = this.normalizeContract(contract);
+
+      // 先确认条件单仍然活跃，避免把已触发/已取消的条件单当作取消成功
+      const response = await this.privateRequest('/fapi/v1/openAlgoOrders', {
+        algoType: 'CONDITIONAL',
+        symbol
+      }, 'GET', 2);
+      const orders: any[] = response || [];
+      if (!orders.some(o => o.algoId?.toString() === orderId)) {
+        logger.debug(`条件单 ${orderId} 不在活跃列表中，可能已触发或已取消`);
+        return {
+          success: false,
+          notFound: true,
+          message: `条件单 ${orderId} 不存在或已触发`
+        };
+      }
+
+      await this.privateRequest('/fapi/v1/algoOrder', {
+        symbol,
+        algoId: orderId
+      }, 'DELETE', 2);
+
+      logger.info(`✅ 已取消条件单: algoId=${orderId}`);
+      return {
+        success: true,
+        message: `已取消 ${contract} 条件单 ${orderId}`
+      };
+    } catch (error: any) {
+      logger.error(`❌ 取消条件单 ${orderId} 失败: ${error.message}`);
+      return {
+        success: false,
+        message: `取消失败: ${error.message}`
+      };
+    }
+  }
+
   /**
    * 获取持仓的止损止盈订单状态
    */
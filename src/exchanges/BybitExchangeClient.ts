@@ -0,0 +1,1669 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Bybit 交易所客户端实现 - 使用原生 fetch API（v5 接口，USDT 永续合约）
+ *
+ * 说明：
+ * - 合约名称使用 Bybit 格式 BTCUSDT（category = linear），数量为币数量
+ * - 账户类型为统一交易账户（UNIFIED），仅支持单向持仓模式
+ * - 止损止盈使用条件市价单（triggerDirection: 1 = 价格上涨触发，2 = 价格下跌触发）
+ */
+import * as crypto from 'node:crypto';
+import { createLogger } from "../utils/logger";
+import { RateLimitManager } from "./RateLimitManager";
+import type {
+  IExchangeClient,
+  ExchangeConfig,
+  TickerInfo,
+  CandleData,
+  AccountInfo,
+  PositionInfo,
+  OrderParams,
+  OrderResponse,
+  ContractInfo,
+  TradeRecord,
+  SettlementRecord,
+  PriceOrderCancelResult,
+} from "./IExchangeClient";
+
+const logger = createLogger({
+  name: "bybit-exchange",
+  level: "info",
+});
+
+/**
+ * K线周期映射（系统格式 -> Bybit interval 参数）
+ */
+const INTERVAL_MAP: Record<string, string> = {
+  '1m': '1',
+  '3m': '3',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '2h': '120',
+  '4h': '240',
+  '6h': '360',
+  '12h': '720',
+  '1d': 'D',
+  '1w': 'W',
+};
+
+/**
+ * Bybit 错误码
+ */
+const RATE_LIMIT_CODE = 10006;       // 请求频率过高
+const TIMESTAMP_ERROR_CODE = 10002;  // 请求时间戳超出 recv_window
+const LEVERAGE_NOT_MODIFIED_CODE = 110043; // 杠杆未变化
+const ORDER_NOT_EXISTS_CODE = 110001; // 订单不存在或已完成
+
+/**
+ * 请求参数：GET 为查询参数，POST 为 JSON 请求体
+ */
+type BybitQuery = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Bybit 响应包（retCode 为 0 表示成功）
+ */
+interface BybitResponse<T> {
+  retCode: number;
+  retMsg: string;
+  result?: T;
+  time?: number;
+}
+
+/**
+ * 列表类接口的 result
+ */
+interface BybitList<T> {
+  list?: T[];
+}
+
+/**
+ * 带错误码的请求错误，fatal 表示不可重试
+ */
+interface BybitApiError extends Error {
+  code?: number;
+  fatal?: boolean;
+}
+
+interface BybitTicker {
+  symbol?: string;
+  lastPrice: string;
+  markPrice?: string;
+  indexPrice?: string;
+  volume24h: string;
+  highPrice24h: string;
+  lowPrice24h: string;
+  price24hPcnt?: string;
+  fundingRate?: string;
+  nextFundingTime?: string;
+}
+
+interface BybitWalletCoin {
+  coin: string;
+  walletBalance?: string;
+  totalPositionIM?: string;
+  totalOrderIM?: string;
+  unrealisedPnl?: string;
+}
+
+interface BybitWalletAccount {
+  totalAvailableBalance?: string;
+  coin?: BybitWalletCoin[];
+}
+
+interface BybitPosition {
+  symbol: string;
+  side: string;
+  size?: string;
+  leverage?: string;
+  avgPrice?: string;
+  positionIM?: string;
+  markPrice?: string;
+  liqPrice?: string;
+  unrealisedPnl?: string;
+  curRealisedPnl?: string;
+}
+
+interface BybitOrder {
+  orderId: string;
+  symbol: string;
+  side: string;
+  qty?: string;
+  cumExecQty?: string;
+  price?: string;
+  avgPrice?: string;
+  orderStatus: string;
+  createdTime?: string;
+  triggerPrice?: string;
+  triggerDirection?: number;
+  stopOrderType?: string;
+}
+
+interface BybitInstrument {
+  symbol: string;
+  status: string;
+  contractType?: string;
+  settleCoin?: string;
+  fundingInterval?: number;
+  lotSizeFilter?: {
+    minOrderQty?: string;
+    maxOrderQty?: string;
+    maxMktOrderQty?: string;
+    qtyStep?: string;
+  };
+  priceFilter?: {
+    tickSize?: string;
+  };
+  leverageFilter?: {
+    minLeverage?: string;
+    maxLeverage?: string;
+  };
+}
+
+interface BybitExecution {
+  execId: string;
+  symbol: string;
+  orderId: string;
+  side: string;
+  execQty?: string;
+  execPrice: string;
+  execFee?: string;
+  execTime?: string;
+  isMaker?: boolean;
+}
+
+interface BybitClosedPnl {
+  symbol: string;
+  orderId?: string;
+  side?: string;
+  qty?: string;
+  leverage?: string;
+  avgEntryPrice?: string;
+  avgExitPrice?: string;
+  closedPnl?: string;
+  createdTime?: string;
+  updatedTime?: string;
+}
+
+interface BybitTransactionLog {
+  id: string;
+  symbol: string;
+  change?: string;
+  transactionTime: string;
+}
+
+/**
+ * 订单簿（Gate.io 格式）
+ */
+interface OrderBookSnapshot {
+  bids: Array<{ p: string; s: string }>;
+  asks: Array<{ p: string; s: string }>;
+}
+
+/**
+ * 资金费率（同时提供 Gate.io 格式 r/t 和通用字段）
+ */
+interface FundingRateInfo {
+  r: string;
+  t: number;
+  funding_rate: string;
+  next_funding_time: number;
+  mark_price?: string;
+  index_price?: string;
+}
+
+/**
+ * 统一格式的条件单（兼容 Gate.io 与 Binance 字段）
+ */
+interface PriceOrderInfo {
+  id: string;
+  orderId: string;
+  contract: string;
+  type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET';
+  side: string;
+  status: string;
+  triggerPrice?: string;
+  stopPrice?: string;
+  quantity?: string;
+  reduce_only: boolean;
+  create_time: number;
+  trigger: { price?: string; rule: number };
+  initial: { contract: string; size: number; price: string; reduce_only: boolean };
+}
+
+export class BybitExchangeClient implements IExchangeClient {
+  private readonly apiKey: string;
+  private readonly apiSecret: string;
+  private readonly baseUrl: string;
+  private readonly config: ExchangeConfig;
+  private readonly recvWindow = 10000;
+  private timeOffset = 0;
+  private lastSyncTime = 0;
+  // 订单缓存：存储最近的订单信息 (orderId -> {contract, orderInfo, timestamp})，查询/取消订单需要 symbol
+  private orderCache: Map<string, {contract: string, orderInfo: OrderResponse, timestamp: number}> = new Map();
+  private readonly MAX_CACHE_SIZE = 1000; // 最大缓存数量
+  private readonly CACHE_TTL = 24 * 60 * 60 * 1000; // 缓存有效期：24小时
+  private readonly contractInfoCache: Map<string, ContractInfo> = new Map();
+
+  // ============ 数据缓存机制 ============
+  private positionsCache: { data: PositionInfo[]; timestamp: number } | null = null;
+  private readonly POSITIONS_CACHE_TTL = 30000; // 持仓缓存30秒
+  private accountInfoCache: { data: AccountInfo; timestamp: number } | null = null;
+  private readonly ACCOUNT_INFO_CACHE_TTL = 30000; // 账户信息缓存30秒
+  private tickerCache: Map<string, { data: TickerInfo; timestamp: number }> = new Map();
+  private readonly TICKER_CACHE_TTL = 60000; // 行情缓存60秒
+  private candleCache: Map<string, { data: CandleData[]; timestamp: number }> = new Map();
+  private readonly CANDLE_CACHE_TTL = 600000; // K线缓存10分钟
+
+  // ============ 统一限流管理器 ============
+  private readonly rateLimitManager: RateLimitManager;
+
+  // ============ 资金费率缓存 ============
+  private fundingRateCache = new Map<string, { data: FundingRateInfo; timestamp: number }>();
+  private readonly FUNDING_RATE_CACHE_TTL = 3600000; // 1小时缓存（资金费率8小时更新一次）
+
+  constructor(config: ExchangeConfig) {
+    this.config = config;
+    this.apiKey = config.apiKey;
+    this.apiSecret = config.apiSecret;
+    this.baseUrl = config.isTestnet
+      ? 'https://api-testnet.bybit.com'
+      : 'https://api.bybit.com';
+
+    // 初始化统一限流管理器
+    this.rateLimitManager = RateLimitManager.getInstance({
+      exchangeName: 'bybit',
+      maxRequestsPerMinute: 600, // Bybit IP 限制600次/5秒，交易接口按UID限流，保留安全余量
+      minRequestDelay: 100, // 最小请求间隔100ms
+      circuitBreakerThreshold: 3, // 连续失败3次触发熔断
+      circuitBreakerTimeout: 60000, // 熔断器打开60秒
+    });
+
+    logger.info(`使用 Bybit USDT永续合约${config.isTestnet ? '测试网' : '正式网'}: ${this.baseUrl}`);
+    logger.info('Bybit API 客户端初始化完成');
+  }
+
+  getExchangeName(): string {
+    return "bybit";
+  }
+
+  isTestnet(): boolean {
+    return this.config.isTestnet;
+  }
+
+  normalizeContract(symbol: string): string {
+    // 处理各种输入格式（BTC、BTC_USDT、BTC/USDT:USDT），转换为 Bybit 格式 BTCUSDT
+    let normalized = symbol.replace(':USDT', '').replace(/[_/-]/g, '').toUpperCase();
+    if (!normalized.endsWith('USDT')) {
+      normalized = `${normalized}USDT`;
+    }
+    return normalized;
+  }
+
+  extractSymbol(contract: string): string {
+    // 从 BTCUSDT 提取 BTC
+    return this.normalizeContract(contract).replace(/USDT$/, '');
+  }
+
+  /**
+   * 清理过期的订单缓存
+   */
+  private cleanupCache(): void {
+    const now = Date.now();
+    for (const [orderId, cache] of Array.from(this.orderCache.entries())) {
+      if (now - cache.timestamp > this.CACHE_TTL) {
+        this.orderCache.delete(orderId);
+      }
+    }
+
+    if (this.orderCache.size > this.MAX_CACHE_SIZE) {
+      const entries = Array.from(this.orderCache.entries());
+      entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
+      for (const [orderId] of entries.slice(0, entries.length - this.MAX_CACHE_SIZE)) {
+        this.orderCache.delete(orderId);
+      }
+    }
+  }
+
+  /**
+   * 同步服务器时间（请求时间戳必须在 recv_window 范围内）
+   */
+  private async syncServerTime(): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    try {
+      const t0 = Date.now();
+      const response = await fetch(`${this.baseUrl}/v5/market/time`, { signal: controller.signal });
+      const payload = (await response.json()) as BybitResponse<unknown>;
+      const t1 = Date.now();
+      const serverTime = Number(payload?.time || 0);
+      if (serverTime > 0) {
+        // 减去1秒安全余量，避免时间戳超前
+        this.timeOffset = serverTime + Math.floor((t1 - t0) / 2) - t1 - 1000;
+      }
+      this.lastSyncTime = Date.now();
+    } catch (error) {
+      // 时间同步失败不阻断请求，使用本地时间
+      logger.warn(`同步 Bybit 服务器时间失败，使用本地时间: ${(error as Error).message}`);
+      this.lastSyncTime = Date.now();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * 确保时间已同步（每5分钟重新同步一次）
+   */
+  private async ensureTimeSynced(): Promise<void> {
+    if (Date.now() - this.lastSyncTime > 5 * 60 * 1000) {
+      await this.syncServerTime();
+    }
+  }
+
+  /**
+   * 生成签名：Hex(HMAC-SHA256(timestamp + apiKey + recvWindow + queryString|jsonBody))
+   */
+  private generateSignature(timestamp: string, payload: string): string {
+    return crypto
+      .createHmac('sha256', this.apiSecret)
+      .update(timestamp + this.apiKey + this.recvWindow + payload)
+      .digest('hex');
+  }
+
+  /**
+   * 检查熔断器状态 (委托给统一限流管理器)
+   */
+  private isCircuitBreakerOpen(): boolean {
+    const stats = this.rateLimitManager.getStats();
+    return stats.isCircuitBreakerOpen || stats.bannedUntil > Date.now() || stats.backoffUntil > Date.now();
+  }
+
+  /**
+   * 检查缓存是否有效
+   */
+  private isCacheValid(timestamp: number, ttl: number): boolean {
+    return Date.now() - timestamp < ttl;
+  }
+
+  /**
+   * 处理API请求，包含签名、重试、超时和错误处理逻辑
+   * 集成统一限流管理器，支持429/10006限流退避和403 IP封禁检测
+   * @returns Bybit 响应中的 result 对象
+   */
+  private async request<T>(method: 'GET' | 'POST', path: string, params: BybitQuery = {}, signed = false, retries = 3): Promise<T> {
+    // 应用统一限流控制（熔断器打开、429退避时直接抛错，交给缓存降级处理）
+    await this.rateLimitManager.waitForRateLimit(path);
+
+    if (signed) {
+      await this.ensureTimeSynced();
+    }
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      const controller = new AbortController();
+      const timeoutMs = 15000 + (attempt - 1) * 5000;
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        let url = this.baseUrl + path;
+        let payloadString = '';
+        if (method === 'GET') {
+          payloadString = new URLSearchParams(
+            Object.entries(params)
+              .filter(([, value]) => value !== undefined && value !== null)
+              .map(([key, value]) => [key, String(value)])
+          ).toString();
+          if (payloadString) {
+            url += `?${payloadString}`;
+          }
+        } else {
+          payloadString = JSON.stringify(params);
+        }
+
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Mozilla/5.0 AI-Auto-Trading Bot',
+        };
+        if (signed) {
+          // 每次重试都重新生成时间戳和签名
+          const timestamp = (Date.now() + this.timeOffset).toString();
+          headers['X-BAPI-API-KEY'] = this.apiKey;
+          headers['X-BAPI-TIMESTAMP'] = timestamp;
+          headers['X-BAPI-RECV-WINDOW'] = this.recvWindow.toString();
+          headers['X-BAPI-SIGN'] = this.generateSignature(timestamp, payloadString);
+        }
+
+        const response = await fetch(url, {
+          method,
+          headers,
+          body: method === 'GET' ? undefined : payloadString,
+          signal: controller.signal,
+        });
+        clearTimeout(timeoutId);
+
+        // 🔥 403: IP 因请求过于频繁被封禁（Bybit 默认封禁10分钟）
+        if (response.status === 403) {
+          this.rateLimitManager.handle418Ban(600);
+          throw this.createFatalError('IP被封禁: 请求过于频繁 (HTTP 403)', 403);
+        }
+
+        const payload = (await response.json().catch(() => null)) as BybitResponse<T> | null;
+
+        // 🔥 429 或限流错误码：立即触发全局退避，不再重试
+        if (response.status === 429 || payload?.retCode === RATE_LIMIT_CODE) {
+          this.rateLimitManager.handle429Warning();
+          throw this.createFatalError('收到429警告，已触发全局退避', RATE_LIMIT_CODE);
+        }
+
+        if (!payload) {
+          throw new Error(`API返回非JSON数据 (HTTP ${response.status})`);
+        }
+
+        if (payload.retCode === 0) {
+          this.rateLimitManager.recordSuccess();
+          return payload.result || ({} as T);
+        }
+
+        // 时间戳错误：重新同步时间后重试
+        if (payload.retCode === TIMESTAMP_ERROR_CODE && attempt < retries) {
+          logger.debug(`时间戳错误，重新同步服务器时间 (${attempt}/${retries})`);
+          await this.syncServerTime();
+          continue;
+        }
+
+        // 服务端错误可重试，业务错误直接抛出
+        if (response.status >= 500) {
+          throw new Error(`HTTP ${response.status}: ${payload.retMsg}`);
+        }
+        throw this.createFatalError(`Bybit API错误 ${payload.retCode}: ${payload.retMsg}`, payload.retCode);
+      } catch (error) {
+        clearTimeout(timeoutId);
+
+        if ((error as BybitApiError).fatal) {
+          throw error;
+        }
+
+        if (attempt === retries) {
+          this.rateLimitManager.recordFailure();
+          logger.error(`API请求失败(${attempt}/${retries}) ${method} ${path}:`, error as Error);
+          throw error;
+        }
+
+        const isTimeout = (error as Error).name === 'AbortError';
+        const delay = isTimeout
+          ? Math.min(3000 * attempt, 10000)
+          : Math.min(1000 * attempt, 3000);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    this.rateLimitManager.recordFailure();
+    throw new Error(`API请求失败，已重试${retries}次`);
+  }
+
+  /**
+   * 创建不可重试的错误（业务错误、限流）
+   */
+  private createFatalError(message: string, code: number): BybitApiError {
+    const error: BybitApiError = new Error(message);
+    error.code = code;
+    error.fatal = true;
+    return error;
+  }
+
+  /**
+   * 发送公共请求
+   */
+  private async publicRequest<T>(path: string, params: BybitQuery = {}, retries = 3): Promise<T> {
+    return this.request<T>('GET', path, params, false, retries);
+  }
+
+  /**
+   * 发送私有请求（需要签名）
+   */
+  private async privateRequest<T>(path: string, params: BybitQuery = {}, method: 'GET' | 'POST' = 'GET', retries = 3): Promise<T> {
+    return this.request<T>(method, path, params, true, retries);
+  }
+
+  /**
+   * 按数量步长格式化下单数量
+   */
+  private formatQuantity(info: ContractInfo, quantity: number, mode: 'round' | 'floor' = 'round'): string {
+    const step = Number.parseFloat(info.qtyStep || '0.001');
+    const raw = Math.abs(quantity) / step;
+    // 加上极小量避免 0.3/0.1 这类浮点误差导致少一个步长
+    const steps = mode === 'floor' ? Math.floor(raw + 1e-9) : Math.round(raw);
+    const decimals = info.qtyStep?.split('.')[1]?.length || 0;
+    return (steps * step).toFixed(decimals);
+  }
+
+  /**
+   * 映射订单状态为系统统一格式
+   */
+  private mapOrderStatus(status: string): string {
+    if (status === 'Filled') return 'finished';
+    if (status === 'New' || status === 'PartiallyFilled' || status === 'Untriggered') return 'open';
+    if (status === 'Cancelled' || status === 'Rejected' || status === 'Deactivated' || status === 'PartiallyFilledCanceled') return 'cancelled';
+    return status.toLowerCase();
+  }
+
+  /**
+   * 将 Bybit 订单转换为系统统一格式
+   */
+  private toOrderResponse(order: BybitOrder): OrderResponse {
+    const qty = Number.parseFloat(order.qty || '0');
+    const filled = Number.parseFloat(order.cumExecQty || '0');
+    return {
+      id: order.orderId,
+      contract: order.symbol,
+      size: order.side === 'Buy' ? qty : -qty,
+      price: order.price && order.price !== '0' ? order.price : (order.avgPrice || '0'),
+      status: this.mapOrderStatus(order.orderStatus),
+      create_time: Number.parseInt(order.createdTime || '0'),
+      fill_price: order.avgPrice || '0',
+      left: Number.parseFloat((qty - filled).toFixed(10)).toString(),
+    };
+  }
+
+  async getFuturesTicker(contract: string, retries = 2, cacheOptions?: { ttl?: number; skipCache?: boolean }, includeMarkPrice = false): Promise<TickerInfo> {
+    const symbol = this.normalizeContract(contract);
+    const cached = this.tickerCache.get(symbol);
+
+    try {
+      // Bybit 行情接口已包含标记价格，无需区分缓存
+      const cacheTTL = cacheOptions?.ttl !== undefined ? cacheOptions.ttl : this.TICKER_CACHE_TTL;
+      if (!cacheOptions?.skipCache && cached && this.isCacheValid(cached.timestamp, cacheTTL)) {
+        return cached.data;
+      }
+
+      if (this.isCircuitBreakerOpen()) {
+        if (cached) {
+          logger.warn(`熔断器已打开，使用 ${symbol} 的缓存数据`);
+          return cached.data;
+        }
+        throw new Error('熔断器已打开且无可用缓存');
+      }
+
+      const result = await this.publicRequest<BybitList<BybitTicker>>('/v5/market/tickers', { category: 'linear', symbol }, retries);
+      const ticker = result.list?.[0];
+      if (!ticker) {
+        throw new Error(`未找到 ${symbol} 的行情数据`);
+      }
+
+      const tickerInfo: TickerInfo = {
+        contract: symbol,
+        last: ticker.lastPrice,
+        markPrice: ticker.markPrice,
+        indexPrice: ticker.indexPrice,
+        volume24h: ticker.volume24h,
+        high24h: ticker.highPrice24h,
+        low24h: ticker.lowPrice24h,
+        // price24hPcnt 为小数（0.0123 = 1.23%），转换为百分比
+        change24h: (Number.parseFloat(ticker.price24hPcnt || '0') * 100).toFixed(4),
+      };
+
+      // 顺带缓存资金费率，减少单独请求
+      this.fundingRateCache.set(symbol, {
+        data: this.toFundingRate(ticker),
+        timestamp: Date.now(),
+      });
+
+      this.tickerCache.set(symbol, { data: tickerInfo, timestamp: Date.now() });
+      return tickerInfo;
+    } catch (error) {
+      if (cached) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.warn(`获取 ${symbol} 行情失败，使用缓存数据: ${errorMsg}`);
+        return cached.data;
+      }
+
+      logger.error(`获取 ${contract} 行情失败:`, error as Error);
+      throw error;
+    }
+  }
+
+  async getFuturesCandles(
+    contract: string,
+    interval = '1h',
+    limit = 100,
+    retries = 2,
+    cacheOptions?: { ttl?: number; skipCache?: boolean }
+  ): Promise<CandleData[]> {
+    const symbol = this.normalizeContract(contract);
+    const cacheKey = `${symbol}-${interval}-${limit}`;
+    const cached = this.candleCache.get(cacheKey);
+
+    try {
+      const cacheTTL = cacheOptions?.ttl !== undefined ? cacheOptions.ttl : this.CANDLE_CACHE_TTL;
+      if (!cacheOptions?.skipCache && cached && this.isCacheValid(cached.timestamp, cacheTTL)) {
+        return cached.data;
+      }
+
+      // 🔧 如果熔断器打开，使用过期缓存（K线数据可容忍轻微延迟）
+      if (this.isCircuitBreakerOpen()) {
+        if (cached) {
+          const cacheAge = Math.floor((Date.now() - cached.timestamp) / 1000);
+          logger.warn(`熔断器已打开，使用 ${symbol} ${interval} K线缓存数据 (${cacheAge}秒前)`);
+          return cached.data;
+        }
+        throw new Error('熔断器已打开且无可用K线缓存');
+      }
+
+      const result = await this.publicRequest<BybitList<string[]>>('/v5/market/kline', {
+        category: 'linear',
+        symbol,
+        interval: INTERVAL_MAP[interval] || interval,
+        limit: Math.min(limit, 1000),
+      }, retries);
+
+      // Bybit 按时间倒序返回，转换为正序（与其他交易所一致）
+      const candles: CandleData[] = (result.list || [])
+        .map((k) => ({
+          timestamp: Number.parseInt(k[0]),
+          open: k[1],
+          high: k[2],
+          low: k[3],
+          close: k[4],
+          volume: k[5],
+        }))
+        .reverse();
+
+      this.candleCache.set(cacheKey, { data: candles, timestamp: Date.now() });
+      return candles;
+    } catch (error) {
+      if (cached) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.warn(`获取 ${symbol} K线失败，使用缓存数据: ${errorMsg}`);
+        return cached.data;
+      }
+      logger.debug(`获取 ${contract} K线数据失败:`, error as Error);
+      throw error;
+    }
+  }
+
+  async getFuturesAccount(retries = 2): Promise<AccountInfo> {
+    try {
+      if (this.accountInfoCache && this.isCacheValid(this.accountInfoCache.timestamp, this.ACCOUNT_INFO_CACHE_TTL)) {
+        return this.accountInfoCache.data;
+      }
+
+      if (this.isCircuitBreakerOpen()) {
+        if (this.accountInfoCache) {
+          logger.warn('熔断器已打开，使用账户信息缓存数据');
+          return this.accountInfoCache.data;
+        }
+        throw new Error('熔断器已打开且无可用缓存');
+      }
+
+      const result = await this.privateRequest<BybitList<BybitWalletAccount>>('/v5/account/wallet-balance', {
+        accountType: 'UNIFIED',
+        coin: 'USDT',
+      }, 'GET', retries);
+      const account: BybitWalletAccount = result.list?.[0] || {};
+      const coin: Partial<BybitWalletCoin> = account.coin?.find((c) => c.coin === 'USDT') || {};
+
+      const walletBalance = Number.parseFloat(coin.walletBalance || '0');
+      const positionMargin = Number.parseFloat(coin.totalPositionIM || '0');
+      const orderMargin = Number.parseFloat(coin.totalOrderIM || '0');
+      const unrealisedPnl = Number.parseFloat(coin.unrealisedPnl || '0');
+      // 可用余额 = 权益 - 持仓保证金 - 挂单保证金（与 Binance availableBalance 口径一致）
+      const available = account.totalAvailableBalance ||
+        Math.max(0, walletBalance + unrealisedPnl - positionMargin - orderMargin).toString();
+
+      // 与 Gate.io/Binance 保持一致：total 为钱包余额，不包含未实现盈亏
+      const accountInfo: AccountInfo = {
+        currency: 'USDT',
+        total: coin.walletBalance || '0',
+        available,
+        positionMargin: coin.totalPositionIM || '0',
+        orderMargin: coin.totalOrderIM || '0',
+        unrealisedPnl: coin.unrealisedPnl || '0',
+      };
+
+      this.accountInfoCache = { data: accountInfo, timestamp: Date.now() };
+      return accountInfo;
+    } catch (error) {
+      if (this.accountInfoCache) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.warn(`获取账户信息失败，使用缓存数据: ${errorMsg}`);
+        return this.accountInfoCache.data;
+      }
+
+      logger.error('获取账户信息失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getPositions(retries = 2): Promise<PositionInfo[]> {
+    try {
+      if (this.positionsCache && this.isCacheValid(this.positionsCache.timestamp, this.POSITIONS_CACHE_TTL)) {
+        return this.positionsCache.data;
+      }
+
+      if (this.isCircuitBreakerOpen()) {
+        if (this.positionsCache) {
+          logger.warn('熔断器已打开，使用持仓信息缓存数据');
+          return this.positionsCache.data;
+        }
+        throw new Error('熔断器已打开且无可用缓存');
+      }
+
+      const result = await this.privateRequest<BybitList<BybitPosition>>('/v5/position/list', {
+        category: 'linear',
+        settleCoin: 'USDT',
+      }, 'GET', retries);
+
+      const positions: PositionInfo[] = (result.list || [])
+        .filter((p) => Number.parseFloat(p.size || '0') !== 0)
+        .map((p) => {
+          const quantity = Number.parseFloat(p.size || '0');
+          const leverage = Number.parseFloat(p.leverage || '1');
+          const entryPrice = Number.parseFloat(p.avgPrice || '0');
+          const margin = Number.parseFloat(p.positionIM || '0') ||
+            (leverage > 0 ? (quantity * entryPrice) / leverage : 0);
+
+          return {
+            contract: p.symbol,
+            size: (p.side === 'Sell' ? -quantity : quantity).toString(), // 保留符号：正数=多头，负数=空头
+            leverage: leverage.toString(),
+            entryPrice: entryPrice.toString(),
+            markPrice: p.markPrice || '0',
+            liqPrice: p.liqPrice || '0',
+            unrealisedPnl: p.unrealisedPnl || '0',
+            realisedPnl: p.curRealisedPnl || '0',
+            margin: margin.toString(),
+          };
+        });
+
+      this.positionsCache = { data: positions, timestamp: Date.now() };
+      return positions;
+    } catch (error) {
+      if (this.positionsCache) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.warn(`获取持仓失败，使用缓存数据: ${errorMsg}`);
+        return this.positionsCache.data;
+      }
+
+      logger.error('获取持仓失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async placeOrder(params: OrderParams, retries = 2): Promise<OrderResponse> {
+    try {
+      const symbol = this.normalizeContract(params.contract);
+      const info = await this.getContractInfo(symbol);
+
+      let qty = this.formatQuantity(info, params.size);
+      if (Number.parseFloat(qty) < info.orderSizeMin) {
+        logger.warn(`下单数量 ${qty} 小于最小下单量 ${info.orderSizeMin}，调整为最小值`);
+        qty = this.formatQuantity(info, info.orderSizeMin);
+      }
+
+      const data: BybitQuery = {
+        category: 'linear',
+        symbol,
+        side: params.size > 0 ? 'Buy' : 'Sell',
+        orderType: params.price ? 'Limit' : 'Market',
+        qty,
+      };
+      let price: string | undefined;
+      if (params.price) {
+        const tif = (params.tif || 'gtc').toLowerCase();
+        price = await this.formatPriceByTickSize(symbol, params.price);
+        data.price = price;
+        data.timeInForce = tif === 'ioc' ? 'IOC' : tif === 'fok' ? 'FOK' : tif === 'poc' ? 'PostOnly' : 'GTC';
+      }
+      if (params.reduceOnly) {
+        data.reduceOnly = true;
+      }
+
+      const placed = await this.privateRequest<{ orderId: string }>('/v5/order/create', data, 'POST', retries);
+      const orderId = placed.orderId;
+
+      // 查询订单详情获取实际成交价
+      let orderResponse: OrderResponse;
+      try {
+        const detail = await this.privateRequest<BybitList<BybitOrder>>('/v5/order/realtime', { category: 'linear', symbol, orderId }, 'GET', 2);
+        const [order] = detail.list || [];
+        if (!order) {
+          throw new Error(`订单 ${orderId} 未返回详情`);
+        }
+        orderResponse = this.toOrderResponse(order);
+      } catch (error) {
+        logger.warn(`获取订单 ${orderId} 详情失败，使用下单参数: ${(error as Error).message}`);
+        orderResponse = {
+          id: orderId,
+          contract: symbol,
+          size: params.size,
+          price: price || '0',
+          status: params.price ? 'open' : 'finished',
+          create_time: Date.now(),
+          fill_price: '0',
+          left: '0',
+        };
+      }
+
+      // 市价单未返回成交均价时，使用当前市场价格兜底
+      if (!params.price) {
+        if (Number.parseFloat(orderResponse.fill_price || '0') === 0) {
+          try {
+            const ticker = await this.getFuturesTicker(symbol, 2, { skipCache: true });
+            orderResponse.fill_price = ticker.last;
+            logger.warn(`⚠️ 使用当前市场价格作为成交价: ${ticker.last}`);
+          } catch (tickerError) {
+            logger.error('获取市场价格也失败，成交价将为0', tickerError as Error);
+          }
+        }
+        orderResponse.price = orderResponse.fill_price;
+      }
+
+      this.orderCache.set(orderId, { contract: symbol, orderInfo: orderResponse, timestamp: Date.now() });
+      this.cleanupCache();
+
+      // 清除相关缓存（因为持仓和账户信息已改变）
+      this.positionsCache = null;
+      this.accountInfoCache = null;
+
+      return orderResponse;
+    } catch (error) {
+      logger.error('下单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getOrder(orderId: string): Promise<OrderResponse> {
+    try {
+      const cached = this.orderCache.get(orderId);
+      const params: BybitQuery = { category: 'linear', orderId };
+      if (cached) {
+        params.symbol = cached.contract;
+      } else {
+        params.settleCoin = 'USDT';
+      }
+
+      try {
+        // realtime 接口可查询活跃订单及最近完成的订单
+        const result = await this.privateRequest<BybitList<BybitOrder>>('/v5/order/realtime', params, 'GET', 2);
+        const order = result.list?.[0];
+        if (order) {
+          const orderResponse = this.toOrderResponse(order);
+          this.orderCache.set(orderId, { contract: order.symbol, orderInfo: orderResponse, timestamp: Date.now() });
+          return orderResponse;
+        }
+      } catch (apiError) {
+        if (cached) {
+          logger.warn(`API查询订单失败，使用缓存信息: ${apiError}`);
+          return cached.orderInfo;
+        }
+        throw apiError;
+      }
+
+      if (cached) {
+        return cached.orderInfo;
+      }
+
+      // 如果都找不到，返回一个基本的响应（避免中断交易流程）
+      logger.warn(`订单 ${orderId} 未在缓存或交易所中找到，返回默认状态`);
+      return {
+        id: orderId,
+        contract: 'UNKNOWN',
+        size: 0,
+        price: '0',
+        status: 'finished',
+        create_time: Date.now(),
+        fill_price: '0',
+        left: '0',
+      };
+    } catch (error) {
+      logger.error('获取订单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    // Bybit 取消订单需要 symbol，普通订单和条件单使用同一接口
+    try {
+      let symbol = this.orderCache.get(orderId)?.contract;
+
+      if (!symbol) {
+        const [openOrders, priceOrders] = await Promise.all([
+          this.getOpenOrders(),
+          this.getPriceOrders(),
+        ]);
+        symbol = openOrders.find(o => o.id === orderId)?.contract ||
+          priceOrders.find(o => o.id === orderId)?.contract;
+      }
+
+      if (!symbol) {
+        logger.debug(`订单 ${orderId} 未找到，可能已完成或不存在`);
+        return;
+      }
+
+      await this.privateRequest('/v5/order/cancel', { category: 'linear', symbol, orderId }, 'POST');
+      this.positionsCache = null;
+      this.accountInfoCache = null;
+      logger.debug(`已取消订单 ${orderId}`);
+    } catch (error) {
+      if ((error as BybitApiError).code === ORDER_NOT_EXISTS_CODE) {
+        logger.debug(`订单 ${orderId} 已不存在，无需取消`);
+        return;
+      }
+      logger.error('取消订单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getOpenOrders(contract?: string, retries = 2): Promise<OrderResponse[]> {
+    try {
+      const params: BybitQuery = { category: 'linear', orderFilter: 'Order' };
+      if (contract) {
+        params.symbol = this.normalizeContract(contract);
+      } else {
+        params.settleCoin = 'USDT';
+      }
+
+      const result = await this.privateRequest<BybitList<BybitOrder>>('/v5/order/realtime', params, 'GET', retries);
+      return (result.list || []).map((order) => this.toOrderResponse(order));
+    } catch (error) {
+      logger.error('获取未成交订单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async setLeverage(contract: string, leverage: number, retries = 2): Promise<void> {
+    const symbol = this.normalizeContract(contract);
+    try {
+      await this.privateRequest('/v5/position/set-leverage', {
+        category: 'linear',
+        symbol,
+        buyLeverage: leverage.toString(),
+        sellLeverage: leverage.toString(),
+      }, 'POST', retries);
+      logger.info(`已设置 ${symbol} 杠杆为 ${leverage}x`);
+    } catch (error) {
+      // 杠杆未变化时 Bybit 返回错误，视为成功
+      if ((error as BybitApiError).code === LEVERAGE_NOT_MODIFIED_CODE) {
+        logger.debug(`${symbol} 杠杆已是 ${leverage}x`);
+        return;
+      }
+      logger.error('设置杠杆失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getContractInfo(contract: string, retries = 2): Promise<ContractInfo> {
+    const symbol = this.normalizeContract(contract);
+    const cached = this.contractInfoCache.get(symbol);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const result = await this.publicRequest<BybitList<BybitInstrument>>('/v5/market/instruments-info', { category: 'linear', symbol }, retries);
+      const inst = result.list?.[0];
+      if (!inst) {
+        throw new Error(`Contract ${contract} not found`);
+      }
+
+      const contractInfo: ContractInfo = {
+        name: inst.symbol,
+        quantoMultiplier: '1',
+        orderSizeMin: Number.parseFloat(inst.lotSizeFilter?.minOrderQty || '0.001'),
+        orderSizeMax: Number.parseFloat(inst.lotSizeFilter?.maxMktOrderQty || inst.lotSizeFilter?.maxOrderQty || '1000000'),
+        orderPriceDeviate: '0.05',
+        orderPriceRound: inst.priceFilter?.tickSize || '0.01',
+        markPriceRound: inst.priceFilter?.tickSize || '0.01',
+        type: 'direct',
+        leverage_min: inst.leverageFilter?.minLeverage || '1',
+        leverage_max: inst.leverageFilter?.maxLeverage || '100',
+        in_delisting: inst.status !== 'Trading',
+        funding_interval: (inst.fundingInterval || 480) * 60,
+        // Bybit 原始数量步长（下单精度使用）
+        qtyStep: inst.lotSizeFilter?.qtyStep || '0.001',
+      };
+
+      this.contractInfoCache.set(symbol, contractInfo);
+      return contractInfo;
+    } catch (error) {
+      logger.error('获取合约信息失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getOrderBook(contract: string, limit = 100, retries = 2): Promise<OrderBookSnapshot> {
+    try {
+      const symbol = this.normalizeContract(contract);
+      const result = await this.publicRequest<{ a?: string[][]; b?: string[][] }>('/v5/market/orderbook', {
+        category: 'linear',
+        symbol,
+        limit: Math.min(limit, 500),
+      }, retries);
+
+      // 转换为 Gate.io 的格式 [{p: "价格", s: "数量"}]
+      const mapLevel = (level: string[]) => ({ p: level[0], s: level[1] });
+      return {
+        bids: (result.b || []).map(mapLevel),
+        asks: (result.a || []).map(mapLevel),
+      };
+    } catch (error) {
+      logger.error('获取订单簿失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getMyTrades(contract?: string, limit = 100, startTime?: number, retries = 2): Promise<TradeRecord[]> {
+    try {
+      const params: BybitQuery = { category: 'linear', execType: 'Trade', limit: Math.min(limit, 100) };
+      if (contract) {
+        params.symbol = this.normalizeContract(contract);
+      }
+      if (startTime) {
+        params.startTime = startTime;
+      }
+
+      const result = await this.privateRequest<BybitList<BybitExecution>>('/v5/execution/list', params, 'GET', retries);
+
+      const trades: TradeRecord[] = (result.list || []).map((exec) => {
+        const quantity = Number.parseFloat(exec.execQty || '0');
+        const timestamp = Number.parseInt(exec.execTime || '0');
+        return {
+          id: exec.execId,
+          contract: exec.symbol,
+          create_time: timestamp,
+          order_id: exec.orderId,
+          size: exec.side === 'Buy' ? quantity : -quantity,
+          price: exec.execPrice,
+          role: exec.isMaker ? 'maker' : 'taker',
+          fee: exec.execFee || '0',
+          timestamp,
+        };
+      });
+
+      // Bybit 按时间倒序返回，转换为正序
+      return trades.sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      logger.error('获取成交记录失败:', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 从行情数据提取资金费率（同时提供 Gate.io 格式 r/t 和通用格式字段）
+   */
+  private toFundingRate(ticker: Partial<BybitTicker>): FundingRateInfo {
+    const nextFundingTime = Number.parseInt(ticker.nextFundingTime || '0');
+    return {
+      r: ticker.fundingRate || '0',
+      t: Math.floor(nextFundingTime / 1000),
+      funding_rate: ticker.fundingRate || '0',
+      next_funding_time: nextFundingTime,
+      mark_price: ticker.markPrice,
+      index_price: ticker.indexPrice,
+    };
+  }
+
+  async getFundingRate(contract: string, retries = 2): Promise<FundingRateInfo> {
+    try {
+      const symbol = this.normalizeContract(contract);
+      const now = Date.now();
+
+      const cached = this.fundingRateCache.get(symbol);
+      if (cached && now - cached.timestamp < this.FUNDING_RATE_CACHE_TTL) {
+        return cached.data;
+      }
+
+      const result = await this.publicRequest<BybitList<BybitTicker>>('/v5/market/tickers', { category: 'linear', symbol }, retries);
+      const fundingRate = this.toFundingRate(result.list?.[0] || {});
+
+      this.fundingRateCache.set(symbol, { data: fundingRate, timestamp: now });
+      return fundingRate;
+    } catch (error) {
+      logger.error('获取资金费率失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getAllContracts(): Promise<BybitInstrument[]> {
+    try {
+      const result = await this.publicRequest<BybitList<BybitInstrument>>('/v5/market/instruments-info', { category: 'linear', limit: 1000 });
+      return (result.list || []).filter((inst) =>
+        inst.status === 'Trading' &&
+        inst.contractType === 'LinearPerpetual' &&
+        inst.settleCoin === 'USDT'
+      );
+    } catch (error) {
+      logger.error('获取所有合约失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getPositionHistory(contract?: string, limit = 100, offset?: number): Promise<BybitClosedPnl[]> {
+    try {
+      const params: BybitQuery = { category: 'linear', limit: Math.min(limit, 100) };
+      if (contract) {
+        params.symbol = this.normalizeContract(contract);
+      }
+      const result = await this.privateRequest<BybitList<BybitClosedPnl>>('/v5/position/closed-pnl', params);
+      return result.list || [];
+    } catch (error) {
+      logger.error('获取历史仓位失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getSettlementHistory(contract?: string, limit = 50, offset?: number): Promise<SettlementRecord[]> {
+    try {
+      // 统一账户交易日志：SETTLEMENT = 资金费结算
+      const params: BybitQuery = { accountType: 'UNIFIED', category: 'linear', type: 'SETTLEMENT', limit: Math.min(limit, 50) };
+      if (contract) {
+        params.symbol = this.normalizeContract(contract);
+      }
+      const result = await this.privateRequest<BybitList<BybitTransactionLog>>('/v5/account/transaction-log', params);
+      return (result.list || []).map((log) => ({
+        time: Math.floor(Number(log.transactionTime) / 1000),
+        contract: log.symbol,
+        change: log.change || '0',
+        type: 'fund' as const,
+        text: log.id,
+      }));
+    } catch (error) {
+      logger.error('获取资金费结算记录失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getOrderHistory(contract?: string, limit = 50): Promise<BybitOrder[]> {
+    try {
+      const params: BybitQuery = { category: 'linear', limit: Math.min(limit, 50) };
+      if (contract) {
+        params.symbol = this.normalizeContract(contract);
+      } else {
+        params.settleCoin = 'USDT';
+      }
+      const result = await this.privateRequest<BybitList<BybitOrder>>('/v5/order/history', params);
+      return result.list || [];
+    } catch (error) {
+      logger.error('获取订单历史失败:', error as Error);
+      throw error;
+    }
+  }
+
+  getContractType(contract?: string): 'inverse' | 'linear' {
+    return 'linear'; // Bybit USDT 永续合约是正向合约（USDT 本位）
+  }
+
+  async cancelAllOrders(contract?: string): Promise<Array<{ orderId: string }>> {
+    try {
+      // 只取消普通订单，条件单由 cancelPositionStopLoss 管理
+      const params: BybitQuery = { category: 'linear', orderFilter: 'Order' };
+      if (contract) {
+        params.symbol = this.normalizeContract(contract);
+      } else {
+        params.settleCoin = 'USDT';
+      }
+      const result = await this.privateRequest<BybitList<{ orderId: string }>>('/v5/order/cancel-all', params, 'POST');
+      this.positionsCache = null;
+      this.accountInfoCache = null;
+      return result.list || [];
+    } catch (error) {
+      logger.error('取消所有订单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async calculateQuantity(
+    amountUsdt: number,
+    price: number,
+    leverage: number,
+    contract: string
+  ): Promise<number> {
+    // 数量(币) = (保证金金额 * 杠杆) / 价格，按数量步长向下取整
+    const quantity = (amountUsdt * leverage) / price;
+
+    try {
+      const info = await this.getContractInfo(contract);
+      let rounded = Number.parseFloat(this.formatQuantity(info, quantity, 'floor'));
+      if (rounded < info.orderSizeMin) {
+        logger.warn(`计算数量 ${rounded} 小于最小下单量 ${info.orderSizeMin}，调整为最小值`);
+        rounded = info.orderSizeMin;
+      }
+      return rounded;
+    } catch (error) {
+      logger.warn('获取合约信息失败，使用默认精度:', error as Error);
+      return Math.floor(quantity * 1000) / 1000;
+    }
+  }
+
+  async calculatePnl(
+    entryPrice: number,
+    exitPrice: number,
+    quantity: number,
+    side: 'long' | 'short',
+    contract: string
+  ): Promise<number> {
+    // 正向合约，数量为币数量
+    return side === 'long'
+      ? quantity * (exitPrice - entryPrice)
+      : quantity * (entryPrice - exitPrice);
+  }
+
+  /**
+   * 根据合约的价格步长格式化价格
+   */
+  private async formatPriceByTickSize(contract: string, price: number): Promise<string> {
+    try {
+      const contractInfo = await this.getContractInfo(contract);
+      const tickSize = Number.parseFloat(contractInfo.orderPriceRound || '0.01');
+      const decimals = contractInfo.orderPriceRound?.split('.')[1]?.length || 0;
+      return (Math.round(price / tickSize) * tickSize).toFixed(decimals);
+    } catch (error) {
+      logger.error(`格式化价格失败，使用默认精度: ${error}`);
+      return price.toFixed(2);
+    }
+  }
+
+  /**
+   * 校验触发价方向，价格已越过触发价时调整到当前价附近（留0.1%缓冲）
+   */
+  private adjustTriggerPrice(
+    contract: string,
+    type: 'stop_loss' | 'take_profit',
+    side: 'long' | 'short',
+    triggerPrice: number,
+    currentPrice: number
+  ): number {
+    // 多单止损/空单止盈需低于当前价，多单止盈/空单止损需高于当前价
+    const mustBeBelow = (type === 'stop_loss') === (side === 'long');
+    const crossed = mustBeBelow ? triggerPrice >= currentPrice : triggerPrice <= currentPrice;
+    if (!crossed) {
+      return triggerPrice;
+    }
+
+    const buffer = 0.001; // 0.1%缓冲
+    const adjusted = mustBeBelow ? currentPrice * (1 - buffer) : currentPrice * (1 + buffer);
+    const label = type === 'stop_loss' ? '止损' : '止盈';
+    logger.warn(`⚠️ ${contract} 价格已突破${label}位: 原${label}=${triggerPrice.toFixed(6)}, 当前价=${currentPrice.toFixed(6)}`);
+    logger.info(`🔧 自动调整${label}价: ${triggerPrice.toFixed(6)} → ${adjusted.toFixed(6)} (${side}单，缓冲${(buffer * 100).toFixed(1)}%)`);
+    return adjusted;
+  }
+
+  /**
+   * 创建条件市价平仓单
+   */
+  private async createConditionalOrder(
+    symbol: string,
+    type: 'stop_loss' | 'take_profit',
+    posSize: number,
+    triggerPrice: string
+  ): Promise<string> {
+    const info = await this.getContractInfo(symbol);
+    const isLong = posSize > 0;
+    // 多单止损/空单止盈：价格下跌触发(2)；多单止盈/空单止损：价格上涨触发(1)
+    const triggerDirection = (type === 'stop_loss') === isLong ? 2 : 1;
+
+    const qty = this.formatQuantity(info, posSize);
+    const result = await this.privateRequest<{ orderId: string }>('/v5/order/create', {
+      category: 'linear',
+      symbol,
+      side: isLong ? 'Sell' : 'Buy',
+      orderType: 'Market',
+      qty,
+      triggerPrice,
+      triggerDirection,
+      triggerBy: 'MarkPrice',
+      reduceOnly: true,
+      closeOnTrigger: true,
+    }, 'POST', 2);
+
+    this.orderCache.set(result.orderId, {
+      contract: symbol,
+      orderInfo: {
+        id: result.orderId,
+        contract: symbol,
+        size: isLong ? -Number.parseFloat(qty) : Number.parseFloat(qty),
+        price: triggerPrice,
+        status: 'open',
+      },
+      timestamp: Date.now(),
+    });
+    return result.orderId;
+  }
+
+  /**
+   * 设置持仓的止损止盈价格
+   * Bybit 使用独立的条件市价单，止损和止盈各一个
+   */
+  async setPositionStopLoss(
+    contract: string,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<{
+    success: boolean;
+    stopLossOrderId?: string;
+    takeProfitOrderId?: string;
+    actualStopLoss?: number;
+    actualTakeProfit?: number;
+    message?: string;
+  }> {
+    try {
+      const symbol = this.normalizeContract(contract);
+
+      const positions = await this.getPositions();
+      const position = positions.find(p => p.contract === symbol);
+      if (!position || Math.abs(Number.parseFloat(position.size)) === 0) {
+        return {
+          success: false,
+          message: `未找到 ${symbol} 的持仓`,
+        };
+      }
+
+      const posSize = Number.parseFloat(position.size);
+      const side = posSize > 0 ? 'long' : 'short';
+
+      // 先取消现有的止损止盈订单
+      await this.cancelPositionStopLoss(symbol);
+
+      // 获取当前价格用于验证（需要markPrice进行精确校验）
+      const ticker = await this.getFuturesTicker(symbol, 2, undefined, true);
+      const currentPrice = Number.parseFloat(ticker.markPrice || ticker.last || '0');
+      if (currentPrice <= 0) {
+        throw new Error(`无法获取 ${symbol} 的当前价格`);
+      }
+
+      let stopLossOrderId: string | undefined;
+      let takeProfitOrderId: string | undefined;
+      // 实际生效的触发价（可能经过方向校验调整和价格步长取整）
+      let actualStopLoss = stopLoss;
+      let actualTakeProfit = takeProfit;
+
+      if (stopLoss !== undefined && stopLoss > 0) {
+        const adjustedStopLoss = this.adjustTriggerPrice(symbol, 'stop_loss', side, stopLoss, currentPrice);
+        const formattedStopLoss = await this.formatPriceByTickSize(symbol, adjustedStopLoss);
+        try {
+          stopLossOrderId = await this.createConditionalOrder(symbol, 'stop_loss', posSize, formattedStopLoss);
+          actualStopLoss = Number.parseFloat(formattedStopLoss);
+          logger.info(`✅ ${symbol} 止损单已创建: orderId=${stopLossOrderId}, 触发价=${formattedStopLoss}, 当前价=${currentPrice.toFixed(6)}`);
+        } catch (error) {
+          const errorMsg = (error as Error).message;
+          logger.error(`❌ 创建止损单失败: ${errorMsg}`);
+          return {
+            success: false,
+            message: `创建止损单失败: ${errorMsg}`,
+          };
+        }
+      }
+
+      if (takeProfit !== undefined && takeProfit > 0) {
+        const adjustedTakeProfit = this.adjustTriggerPrice(symbol, 'take_profit', side, takeProfit, currentPrice);
+        const formattedTakeProfit = await this.formatPriceByTickSize(symbol, adjustedTakeProfit);
+        try {
+          takeProfitOrderId = await this.createConditionalOrder(symbol, 'take_profit', posSize, formattedTakeProfit);
+          actualTakeProfit = Number.parseFloat(formattedTakeProfit);
+          logger.info(`✅ ${symbol} 止盈单已创建: orderId=${takeProfitOrderId}, 触发价=${formattedTakeProfit}, 当前价=${currentPrice.toFixed(6)}`);
+        } catch (error) {
+          const errorMsg = (error as Error).message;
+          logger.error(`❌ 创建止盈单失败: ${errorMsg}`);
+          // 如果止盈单失败但止损单成功，仍返回成功（止损更重要）
+          if (stopLossOrderId) {
+            return {
+              success: true,
+              stopLossOrderId,
+              actualStopLoss,
+              message: `止损单已创建，止盈单创建失败: ${errorMsg}`,
+            };
+          }
+          return {
+            success: false,
+            message: `创建止盈单失败: ${errorMsg}`,
+          };
+        }
+      }
+
+      this.cleanupCache();
+
+      return {
+        success: true,
+        stopLossOrderId,
+        takeProfitOrderId,
+        actualStopLoss,
+        actualTakeProfit,
+        message: `止损止盈已设置${actualStopLoss ? ` 止损=${actualStopLoss}` : ''}${actualTakeProfit ? ` 止盈=${actualTakeProfit}` : ''}`,
+      };
+    } catch (error) {
+      const errorMsg = (error as Error).message;
+      logger.error(`设置止损止盈失败: ${errorMsg}`);
+      return {
+        success: false,
+        message: `设置失败: ${errorMsg}`,
+      };
+    }
+  }
+
+  /**
+   * 取消持仓的止损止盈订单
+   */
+  async cancelPositionStopLoss(contract: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const symbol = this.normalizeContract(contract);
+      const orders = await this.getPriceOrders(symbol);
+
+      if (orders.length === 0) {
+        logger.debug(`${symbol} 没有活跃的条件单需要取消`);
+        return {
+          success: true,
+          message: `${symbol} 没有活跃的条件单`,
+        };
+      }
+
+      const failedOrders: string[] = [];
+      for (const order of orders) {
+        try {
+          await this.privateRequest('/v5/order/cancel', { category: 'linear', symbol, orderId: order.id }, 'POST', 2);
+          logger.info(`✅ 已取消条件单: orderId=${order.id} (${order.type})`);
+        } catch (error) {
+          const { code, message } = error as BybitApiError;
+          if (code === ORDER_NOT_EXISTS_CODE) continue;
+          logger.warn(`⚠️ 取消条件单失败: orderId=${order.id}, ${message}`);
+          failedOrders.push(order.id);
+        }
+      }
+
+      if (failedOrders.length > 0) {
+        return {
+          success: false, // 部分失败也视为失败，需要重试
+          message: `部分成功: 取消 ${orders.length - failedOrders.length}/${orders.length}，失败订单: ${failedOrders.join(', ')}`,
+        };
+      }
+
+      logger.info(`✅ 已成功取消 ${symbol} 的全部 ${orders.length} 个条件单`);
+      return {
+        success: true,
+        message: `已取消 ${symbol} 的 ${orders.length} 个条件单`,
+      };
+    } catch (error) {
+      const errorMsg = (error as Error).message;
+      logger.error(`❌ 取消条件单过程异常: ${errorMsg}`);
+      return {
+        success: false,
+        message: `异常: ${errorMsg}`,
+      };
+    }
+  }
+
+  /**
+   * 取消单个条件单（StopOrder）
+   */
+  async cancelPriceOrder(contract: string, orderId: string): Promise<PriceOrderCancelResult> {
+    const symbol = this.normalizeContract(contract);
+    try {
+      await this.privateRequest('/v5/order/cancel', { category: 'linear', symbol, orderId }, 'POST', 2);
+      logger.info(`✅ 已取消条件单: orderId=${orderId}`);
+      return {
+        success: true,
+        message: `已取消 ${symbol} 条件单 ${orderId}`,
+      };
+    } catch (error) {
+      const { code, message } = error as BybitApiError;
+      if (code === ORDER_NOT_EXISTS_CODE) {
+        logger.debug(`条件单 ${orderId} 不存在或已触发`);
+        return {
+          success: false,
+          notFound: true,
+          message: `条件单 ${orderId} 不存在或已触发`,
+        };
+      }
+      logger.error(`❌ 取消条件单 ${orderId} 失败: ${message}`);
+      return {
+        success: false,
+        message: `取消失败: ${message}`,
+      };
+    }
+  }
+
+  /**
+   * 将 Bybit 条件单转换为统一格式
+   * 兼容 Gate.io 字段（trigger.rule: 1 = 价格 >= 触发价，2 = 价格 <= 触发价）和 Binance 字段（triggerPrice/type）
+   */
+  private toPriceOrder(order: BybitOrder, status: string): PriceOrderInfo {
+    const triggerDirection = Number(order.triggerDirection);
+    // 平仓方向：Sell = 平多，Buy = 平空；多单止损/空单止盈为下跌触发
+    let isStopLoss = (order.side === 'Sell') === (triggerDirection === 2);
+    if (order.stopOrderType === 'StopLoss') isStopLoss = true;
+    if (order.stopOrderType === 'TakeProfit') isStopLoss = false;
+    const quantity = Number.parseFloat(order.qty || '0');
+    const closeSize = order.side === 'Sell' ? -quantity : quantity;
+
+    return {
+      id: order.orderId,
+      orderId: order.orderId,
+      contract: order.symbol,
+      type: isStopLoss ? 'STOP_MARKET' : 'TAKE_PROFIT_MARKET',
+      side: order.side.toUpperCase(),
+      status,
+      triggerPrice: order.triggerPrice,
+      stopPrice: order.triggerPrice,
+      quantity: order.qty,
+      reduce_only: true,
+      create_time: Number.parseInt(order.createdTime || '0'),
+      trigger: {
+        price: order.triggerPrice,
+        rule: triggerDirection === 1 ? 1 : 2,
+      },
+      initial: {
+        contract: order.symbol,
+        size: closeSize,
+        price: '0',
+        reduce_only: true,
+      },
+    };
+  }
+
+  /**
+   * 获取持仓的止损止盈订单状态
+   */
+  async getPositionStopLossOrders(contract: string): Promise<{
+    stopLossOrder?: PriceOrderInfo;
+    takeProfitOrder?: PriceOrderInfo;
+  }> {
+    try {
+      const orders = await this.getPriceOrders(contract);
+      return {
+        stopLossOrder: orders.find(o => o.type === 'STOP_MARKET'),
+        takeProfitOrder: orders.find(o => o.type === 'TAKE_PROFIT_MARKET'),
+      };
+    } catch (error) {
+      logger.debug(`${contract} 暂无止损止盈订单或查询失败: ${(error as Error).message}`);
+      return {
+        stopLossOrder: undefined,
+        takeProfitOrder: undefined,
+      };
+    }
+  }
+
+  /**
+   * 获取条件单列表
+   * @param contract 合约名称（可选）
+   * @param status 状态过滤（可选）：'open'=活跃（默认）, 'finished'=已触发
+   */
+  async getPriceOrders(contract?: string, status?: string): Promise<PriceOrderInfo[]> {
+    const params: BybitQuery = { category: 'linear', orderFilter: 'StopOrder' };
+    if (contract) {
+      params.symbol = this.normalizeContract(contract);
+    } else {
+      params.settleCoin = 'USDT';
+    }
+
+    if (status === 'finished') {
+      const result = await this.privateRequest<BybitList<BybitOrder>>('/v5/order/history', params, 'GET', 2);
+      return (result.list || [])
+        .filter((o) => o.orderStatus === 'Triggered' || o.orderStatus === 'Filled')
+        .map((o) => this.toPriceOrder(o, 'finished'));
+    }
+
+    const result = await this.privateRequest<BybitList<BybitOrder>>('/v5/order/realtime', params, 'GET', 2);
+    return (result.list || [])
+      .filter((o) => o.orderStatus === 'Untriggered')
+      .map((o) => this.toPriceOrder(o, 'open'));
+  }
+
+  /**
+   * 获取熔断器状态（检测是否因IP封禁使用缓存数据）- 委托给统一限流管理器
+   */
+  getCircuitBreakerStatus(): {
+    isOpen: boolean;
+    reason?: string;
+    remainingSeconds?: number;
+  } {
+    const stats = this.rateLimitManager.getStats();
+    const now = Date.now();
+
+    if (stats.bannedUntil > now) {
+      return {
+        isOpen: true,
+        reason: 'IP封禁',
+        remainingSeconds: Math.ceil((stats.bannedUntil - now) / 1000),
+      };
+    }
+
+    if (stats.backoffUntil > now) {
+      return {
+        isOpen: true,
+        reason: '429全局退避',
+        remainingSeconds: Math.ceil((stats.backoffUntil - now) / 1000),
+      };
+    }
+
+    if (stats.isCircuitBreakerOpen) {
+      return {
+        isOpen: true,
+        reason: 'API限流熔断',
+        remainingSeconds: 60, // 估计值
+      };
+    }
+
+    return {
+      isOpen: false,
+    };
+  }
+}
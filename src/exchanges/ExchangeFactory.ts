@@ -21,9 +21,15 @@
  * 根据配置创建相应的交易所客户端
  */
 import { createLogger } from "../utils/logger";
+import { getCurrentAccount } from "../utils/accountContext";
+import type { AccountConfig } from "../config/accounts";
 import type { IExchangeClient, ExchangeConfig } from "./IExchangeClient";
 import { GateExchangeClient } from "./GateExchangeClient";
 import { BinanceExchangeClient } from "./BinanceExchangeClient";
+import { OkxExchangeClient } from "./OkxExchangeClient";
+import { BybitExchangeClient } from "./BybitExchangeClient";
+import { PaperExchangeClient } from "./PaperExchangeClient";
+import { BacktestExchangeClient } from "../backtest/exchanges/BacktestExchangeClient";
 
 const logger = createLogger({
   name: "exchange-factory",
@@ -35,85 +41,192 @@ const logger = createLogger({
  */
 let exchangeClientInstance: IExchangeClient | null = null;
 
+/**
+ * 各交易账户的交易所客户端实例（多账户运行时按账户ID缓存）
+ */
+const accountClientInstances = new Map<string, IExchangeClient>();
+
+/**
+ * 各实盘交易所的环境变量前缀，新增交易所只需在此登记
+ * 读取 {PREFIX}_API_KEY / {PREFIX}_API_SECRET / {PREFIX}_USE_TESTNET，
+ * needsPassphrase 的交易所额外读取 {PREFIX}_API_PASSPHRASE
+ */
+const EXCHANGE_ENV_PREFIXES: Record<string, { prefix: string; needsPassphrase?: boolean }> = {
+  gate: { prefix: 'GATE' },
+  binance: { prefix: 'BINANCE' },
+  okx: { prefix: 'OKX', needsPassphrase: true },
+  bybit: { prefix: 'BYBIT' },
+};
+
 /**
  * 从环境变量读取交易所配置
+ * @param name 交易所名称，默认读取 EXCHANGE_NAME
+ * @param envPrefix 凭证环境变量前缀，默认使用交易所前缀（多账户时用于区分同一交易所的不同凭证）
  */
-function getExchangeConfigFromEnv(): ExchangeConfig {
+function getExchangeConfigFromEnv(name?: string, envPrefix?: string): ExchangeConfig {
   // 读取交易所类型（默认为gate）
-  const exchangeName = (process.env.EXCHANGE_NAME?.toLowerCase() || 'gate') as 'gate' | 'binance';
-  
-  // 根据交易所类型读取相应的API密钥
-  let apiKey: string | undefined;
-  let apiSecret: string | undefined;
-  let isTestnet: boolean;
-
-  if (exchangeName === 'binance') {
-    apiKey = process.env.BINANCE_API_KEY;
-    apiSecret = process.env.BINANCE_API_SECRET;
-    isTestnet = process.env.BINANCE_USE_TESTNET === 'true';
-  } else {
-    // 默认使用Gate.io
-    apiKey = process.env.GATE_API_KEY;
-    apiSecret = process.env.GATE_API_SECRET;
-    isTestnet = process.env.GATE_USE_TESTNET === 'true';
+  const exchangeName = (name || process.env.EXCHANGE_NAME?.toLowerCase() || 'gate') as ExchangeConfig['exchangeName'];
+
+  // 回测模式使用本地历史K线，模拟盘只使用公开行情接口，都不需要API密钥
+  if (exchangeName === 'backtest' || exchangeName === 'paper') {
+    return {
+      exchangeName,
+      apiKey: '',
+      apiSecret: '',
+      isTestnet: false,
+    };
+  }
+
+  const envConfig = EXCHANGE_ENV_PREFIXES[exchangeName];
+  if (!envConfig) {
+    throw new Error(
+      `不支持的交易所: ${exchangeName}，可选值: ${[...Object.keys(EXCHANGE_ENV_PREFIXES), 'backtest', 'paper'].join(', ')}`
+    );
   }
 
+  // 根据交易所类型读取相应的API密钥
+  const { needsPassphrase } = envConfig;
+  const prefix = envPrefix || envConfig.prefix;
+  const apiKey = process.env[`${prefix}_API_KEY`];
+  const apiSecret = process.env[`${prefix}_API_SECRET`];
+  const passphrase = process.env[`${prefix}_API_PASSPHRASE`];
+  const isTestnet = process.env[`${prefix}_USE_TESTNET`] === 'true';
+
   // 验证API密钥是否设置
   if (!apiKey || !apiSecret) {
-    const prefix = exchangeName === 'binance' ? 'BINANCE' : 'GATE';
     throw new Error(
       `${prefix}_API_KEY 和 ${prefix}_API_SECRET 必须在环境变量中设置`
     );
   }
+  if (needsPassphrase && !passphrase) {
+    throw new Error(`${prefix}_API_PASSPHRASE 必须在环境变量中设置`);
+  }
 
   return {
     exchangeName,
     apiKey,
     apiSecret,
     isTestnet,
+    passphrase,
   };
 }
 
 /**
- * 创建交易所客户端实例
+ * 是否启用 WebSocket 数据流（仅 Gate.io 和币安支持推送）
  */
-export function createExchangeClient(config?: ExchangeConfig): IExchangeClient {
-  // 如果已存在实例，直接返回
-  if (exchangeClientInstance) {
-    return exchangeClientInstance;
-  }
+function isMarketStreamEnabled(): boolean {
+  return process.env.MARKET_STREAM_ENABLED === 'true';
+}
 
-  // 如果没有提供配置，从环境变量读取
-  const exchangeConfig = config || getExchangeConfigFromEnv();
+/**
+ * 创建模拟盘使用的行情客户端（始终连接正式网，API密钥可选）
+ */
+function createPaperMarketDataClient(): IExchangeClient {
+  const marketExchange = (process.env.PAPER_MARKET_DATA_EXCHANGE?.toLowerCase() || 'gate');
+
+  const client = marketExchange === 'binance'
+    ? new BinanceExchangeClient({
+      exchangeName: 'binance',
+      apiKey: process.env.BINANCE_API_KEY || '',
+      apiSecret: process.env.BINANCE_API_SECRET || '',
+      isTestnet: false,
+    })
+    : new GateExchangeClient({
+      exchangeName: 'gate',
+      apiKey: process.env.GATE_API_KEY || '',
+      apiSecret: process.env.GATE_API_SECRET || '',
+      isTestnet: false,
+    });
+
+  // 模拟盘只需要公共行情推送，不订阅真实账户的订单
+  if (isMarketStreamEnabled()) {
+    client.enableMarketStream(true);
+  }
+  return client;
+}
 
+/**
+ * 根据配置实例化交易所客户端
+ */
+function instantiateExchangeClient(exchangeConfig: ExchangeConfig): IExchangeClient {
   logger.info(`初始化 ${exchangeConfig.exchangeName.toUpperCase()} 交易所客户端...`);
   logger.info(`使用${exchangeConfig.isTestnet ? '测试网' : '正式网'}环境`);
 
   // 根据交易所类型创建相应的客户端
   switch (exchangeConfig.exchangeName) {
-    case 'binance':
-      exchangeClientInstance = new BinanceExchangeClient(exchangeConfig);
-      break;
+    case 'binance': {
+      const client = new BinanceExchangeClient(exchangeConfig);
+      if (isMarketStreamEnabled()) {
+        client.enableMarketStream();
+      }
+      return client;
+    }
+    case 'okx':
+      return new OkxExchangeClient(exchangeConfig);
+    case 'bybit':
+      return new BybitExchangeClient(exchangeConfig);
+    case 'backtest':
+      return new BacktestExchangeClient(exchangeConfig);
+    case 'paper':
+      return new PaperExchangeClient(exchangeConfig, createPaperMarketDataClient());
     case 'gate':
-    default:
-      exchangeClientInstance = new GateExchangeClient(exchangeConfig);
-      break;
+    default: {
+      const client = new GateExchangeClient(exchangeConfig);
+      if (isMarketStreamEnabled()) {
+        client.enableMarketStream();
+      }
+      return client;
+    }
+  }
+}
+
+/**
+ * 创建交易所客户端实例
+ */
+export function createExchangeClient(config?: ExchangeConfig): IExchangeClient {
+  // 如果已存在实例，直接返回
+  if (exchangeClientInstance) {
+    return exchangeClientInstance;
   }
 
+  // 如果没有提供配置，从环境变量读取
+  exchangeClientInstance = instantiateExchangeClient(config || getExchangeConfigFromEnv());
   return exchangeClientInstance;
 }
 
+/**
+ * 获取指定交易账户的交易所客户端（每个账户一个实例）
+ */
+export function getAccountExchangeClient(account: AccountConfig): IExchangeClient {
+  let client = accountClientInstances.get(account.id);
+  if (!client) {
+    logger.info(`[${account.id}] 创建账户交易所客户端`);
+    client = instantiateExchangeClient({
+      ...getExchangeConfigFromEnv(account.exchangeName, account.envPrefix),
+      accountId: account.id,
+    });
+    accountClientInstances.set(account.id, client);
+  }
+  return client;
+}
+
 /**
  * 重置交易所客户端实例（主要用于测试）
  */
 export function resetExchangeClient(): void {
   exchangeClientInstance = null;
+  accountClientInstances.clear();
 }
 
 /**
  * 获取当前交易所客户端实例
+ * 在账户上下文中（见 utils/accountContext.ts）返回该账户的客户端，否则返回环境变量配置的全局实例
  */
 export function getExchangeClient(): IExchangeClient {
+  const account = getCurrentAccount();
+  if (account) {
+    return getAccountExchangeClient(account);
+  }
   if (!exchangeClientInstance) {
     return createExchangeClient();
   }
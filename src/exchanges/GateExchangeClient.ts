@@ -24,6 +24,8 @@ import * as GateApi from "gate-api";
 import { createLogger } from "../utils/logger";
 import { RISK_PARAMS } from "../config/riskParams";
 import { RateLimitManager } from "./RateLimitManager";
+import { GateExchangeStream } from "./streams/GateExchangeStream";
+import type { ExchangeStream } from "./streams/ExchangeStream";
 import type {
   IExchangeClient,
   ExchangeConfig,
@@ -35,6 +37,8 @@ import type {
   OrderResponse,
   ContractInfo,
   TradeRecord,
+  SettlementRecord,
+  PriceOrderCancelResult,
 } from "./IExchangeClient";
 
 const logger = createLogger({
@@ -63,6 +67,9 @@ export class GateExchangeClient implements IExchangeClient {
   // ============ 统一限流管理器 ============
   private readonly rateLimitManager: RateLimitManager;
 
+  // ============ WebSocket 数据流（启用后行情优先从推送读取） ============
+  private marketStream: GateExchangeStream | null = null;
+
   constructor(config: ExchangeConfig) {
     this.config = config;
     
@@ -105,6 +112,42 @@ export class GateExchangeClient implements IExchangeClient {
     return "gate";
   }
 
+  /**
+   * 启用 WebSocket 数据流（行情推送 + 有 API 密钥时的订单推送）
+   * @param publicOnly 只订阅公共行情（模拟盘行情来源使用）
+   */
+  enableMarketStream(publicOnly: boolean = false): ExchangeStream {
+    if (!this.marketStream) {
+      this.marketStream = new GateExchangeStream({
+        isTestnet: this.config.isTestnet,
+        apiKey: publicOnly ? undefined : this.config.apiKey,
+        apiSecret: publicOnly ? undefined : this.config.apiSecret,
+        resolveUserId: async () => {
+          const result = await this.futuresApi.listFuturesAccounts(this.settle);
+          return String(result.body.user);
+        },
+      });
+
+      // 成交和持仓推送到达时清空持仓/账户缓存，确保随后的 REST 读取反映最新状态
+      const invalidateAccountCaches = () => {
+        this.positionsCache = null;
+        this.accountInfoCache = null;
+      };
+      this.marketStream.onPositionUpdate(invalidateAccountCaches);
+      this.marketStream.onOrderUpdate((event) => {
+        if (event.status !== 'open') {
+          invalidateAccountCaches();
+        }
+      });
+      this.marketStream.start();
+    }
+    return this.marketStream;
+  }
+
+  getMarketStream(): ExchangeStream | null {
+    return this.marketStream;
+  }
+
   isTestnet(): boolean {
     return this.config.isTestnet;
   }
@@ -165,6 +208,15 @@ export class GateExchangeClient implements IExchangeClient {
     const cacheTTL = cacheOptions?.ttl !== undefined ? cacheOptions.ttl : this.TICKER_CACHE_TTL;
     const skipCache = cacheOptions?.skipCache || false;
 
+    // 优先使用 WebSocket 推送的新鲜行情（不占用 REST 限流配额）
+    if (this.marketStream && !skipCache) {
+      this.marketStream.trackTicker(contract);
+      const streamed = this.marketStream.getTicker(contract, includeMarkPrice);
+      if (streamed) {
+        return streamed;
+      }
+    }
+
     // 检查缓存（如果未设置skipCache）- Gate.io总是返回markPrice，无需区分缓存
     const cacheKey = contract;
     const cached = this.tickerCache.get(cacheKey);
@@ -247,10 +299,20 @@ export class GateExchangeClient implements IExchangeClient {
     const cacheTTL = cacheOptions?.ttl !== undefined ? cacheOptions.ttl : this.CANDLE_CACHE_TTL;
     const skipCache = cacheOptions?.skipCache || false;
 
+    // 优先使用 WebSocket 推送维护的K线；尚未补齐时跳过缓存，用 REST 最新数据补齐历史
+    let seedStream = false;
+    if (this.marketStream && !skipCache) {
+      const streamed = this.marketStream.getCandles(contract, interval, limit);
+      if (streamed) {
+        return streamed;
+      }
+      seedStream = this.marketStream.trackCandles(contract, interval) && this.marketStream.isMarketConnected();
+    }
+
     // 检查缓存（如果未设置skipCache）
     const cacheKey = `${contract}-${interval}-${limit}`;
     const cached = this.candleCache.get(cacheKey);
-    if (!skipCache && cached && this.isCacheValid(cached.timestamp, cacheTTL)) {
+    if (!skipCache && !seedStream && cached && this.isCacheValid(cached.timestamp, cacheTTL)) {
       return cached.data;
     }
 
@@ -280,6 +342,7 @@ export class GateExchangeClient implements IExchangeClient {
           data: candles,
           timestamp: Date.now()
         });
+        this.marketStream?.seedCandles(contract, interval, candles);
 
         return candles;
       } catch (error) {
@@ -897,20 +960,21 @@ export class GateExchangeClient implements IExchangeClient {
     }
   }
 
-  async getSettlementHistory(contract?: string, limit: number = 100, offset: number = 0): Promise<any[]> {
+  async getSettlementHistory(contract?: string, limit: number = 100, offset: number = 0): Promise<SettlementRecord[]> {
     try {
-      const options: any = { limit, offset };
+      // 账户变更流水中 type=fund 即资金费结算
+      const options: any = { limit, offset, type: "fund" };
       if (contract) {
         options.contract = contract;
       }
       
-      const result = await this.futuresApi.listFuturesSettlementHistory(
+      const result = await this.futuresApi.listFuturesAccountBook(
         this.settle,
         options
       );
-      return result.body;
+      return result.body as SettlementRecord[];
     } catch (error) {
-      logger.error(`获取历史结算记录失败:`, error as any);
+      logger.error(`获取资金费结算记录失败:`, error as any);
       throw error;
     }
   }
@@ -1437,6 +1501,36 @@ export class GateExchangeClient implements IExchangeClient {
     }
   }
 
+  /**
+   * 取消单个条件单
+   * 条件单不能用 cancelFuturesOrder 取消（会返回404），需使用条件单接口
+   */
+  async cancelPriceOrder(contract: string, orderId: string): Promise<PriceOrderCancelResult> {
+    try {
+      await this.futuresApi.cancelPriceTriggeredOrder(this.settle, orderId);
+      logger.info(`✅ 已取消 ${contract} 条件单: ${orderId}`);
+      return {
+        success: true,
+        message: `已取消 ${contract} 条件单 ${orderId}`
+      };
+    } catch (error: any) {
+      const status = error.status || error.response?.status;
+      if (status === 404) {
+        logger.debug(`条件单 ${orderId} 不存在或已触发 (404)`);
+        return {
+          success: false,
+          notFound: true,
+          message: `条件单 ${orderId} 不存在或已触发`
+        };
+      }
+      logger.error(`取消条件单 ${orderId} 失败: ${error.message}`);
+      return {
+        success: false,
+        message: `取消失败: ${error.message}`
+      };
+    }
+  }
+
   /**
    * 获取持仓的止损止盈订单状态
    */
@@ -20,6 +20,7 @@
  * 统一交易所接口
  * 定义所有交易所客户端必须实现的方法
  */
+import type { ExchangeStream } from "./streams/ExchangeStream";
 
 /**
  * 交易所配置
@@ -28,7 +29,9 @@ export interface ExchangeConfig {
   apiKey: string;
   apiSecret: string;
   isTestnet: boolean;
-  exchangeName: 'gate' | 'binance';
+  exchangeName: 'gate' | 'binance' | 'okx' | 'bybit' | 'backtest' | 'paper';
+  passphrase?: string; // API 密码（OKX 需要）
+  accountId?: string; // 所属交易账户ID（多账户运行时区分本地数据，如模拟盘账本）
 }
 
 /**
@@ -148,6 +151,27 @@ export interface TradeRecord {
   [key: string]: any;
 }
 
+/**
+ * 资金费结算记录（统一为 Gate 账户变更流水格式）
+ */
+export interface SettlementRecord {
+  time: number;          // 结算时间（秒）
+  contract: string;      // 交易所合约名称
+  change: string;        // 资金费金额（USDT，正数为收取，负数为支付）
+  type: 'fund';
+  text?: string;         // 交易所流水ID
+  [key: string]: any;
+}
+
+/**
+ * 单个条件单的取消结果
+ */
+export interface PriceOrderCancelResult {
+  success: boolean;      // 交易所已确认取消
+  notFound?: boolean;    // 条件单不存在（已触发、已取消或ID错误）
+  message?: string;
+}
+
 /**
  * 统一交易所客户端接口
  */
@@ -290,12 +314,12 @@ export interface IExchangeClient {
   getPositionHistory(contract?: string, limit?: number, offset?: number): Promise<any[]>;
 
   /**
-   * 获取历史结算记录
+   * 获取资金费结算记录（按时间倒序）
    * @param contract 合约名称（可选）
    * @param limit 返回数量
    * @param offset 偏移量
    */
-  getSettlementHistory(contract?: string, limit?: number, offset?: number): Promise<any[]>;
+  getSettlementHistory(contract?: string, limit?: number, offset?: number): Promise<SettlementRecord[]>;
 
   /**
    * 获取已完成的订单历史
@@ -378,6 +402,20 @@ export interface IExchangeClient {
     message?: string;
   }>;
 
+  /**
+   * 取消单个条件单（止损/止盈）
+   * 条件单与普通订单在交易所侧是不同的订单体系，不能用 cancelOrder 取消：
+   * - Gate.io: 条件单接口 cancelPriceTriggeredOrder
+   * - Binance: Algo Order 接口（algoId）
+   * - OKX: 策略委托接口 cancel-algos
+   * - Bybit: 条件单（StopOrder）撤单
+   * 
+   * @param contract 合约名称
+   * @param orderId 条件单ID（setPositionStopLoss 返回的 stopLossOrderId/takeProfitOrderId）
+   * @returns 取消结果，只有 success=true 时才表示交易所已确认取消
+   */
+  cancelPriceOrder(contract: string, orderId: string): Promise<PriceOrderCancelResult>;
+
   /**
    * 获取持仓的止损止盈订单状态
    * 
@@ -406,4 +444,9 @@ export interface IExchangeClient {
     reason?: string;        // 熔断原因（如 'IP封禁', 'API限流'）
     remainingSeconds?: number; // 剩余时间（秒）
   };
+
+  /**
+   * 获取 WebSocket 数据流（可选，仅支持推送的交易所实现；未启用时返回 null）
+   */
+  getMarketStream?(): ExchangeStream | null;
 }
@@ -0,0 +1,1686 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * OKX 交易所客户端实现 - 使用原生 fetch API（v5 接口，USDT 永续合约）
+ *
+ * 说明：
+ * - 合约名称使用 OKX 格式 BTC-USDT-SWAP
+ * - OKX 按张下单（1张 = ctVal 个币），对外统一按币数量表示（与 Binance 一致，quantoMultiplier = 1），
+ *   下单/查询时在内部完成张数与币数量的换算
+ * - 仅支持单向持仓模式（net），保证金模式由 OKX_MARGIN_MODE 指定（cross/isolated）
+ * - 止损止盈使用 OKX 策略委托（conditional 单向止盈止损）
+ */
+import * as crypto from 'node:crypto';
+import { createLogger } from "../utils/logger";
+import { RateLimitManager } from "./RateLimitManager";
+import type {
+  IExchangeClient,
+  ExchangeConfig,
+  TickerInfo,
+  CandleData,
+  AccountInfo,
+  PositionInfo,
+  OrderParams,
+  OrderResponse,
+  ContractInfo,
+  TradeRecord,
+  SettlementRecord,
+  PriceOrderCancelResult,
+} from "./IExchangeClient";
+
+const logger = createLogger({
+  name: "okx-exchange",
+  level: "info",
+});
+
+/**
+ * K线周期映射（系统格式 -> OKX bar 参数）
+ */
+const BAR_MAP: Record<string, string> = {
+  '1m': '1m',
+  '3m': '3m',
+  '5m': '5m',
+  '15m': '15m',
+  '30m': '30m',
+  '1h': '1H',
+  '2h': '2H',
+  '4h': '4H',
+  '6h': '6H',
+  '12h': '12H',
+  '1d': '1D',
+  '1w': '1W',
+};
+
+/**
+ * OKX 限流相关错误码
+ * 50011: 请求频率过高, 50061: 子账户请求频率过高
+ */
+const RATE_LIMIT_CODES = new Set(['50011', '50061']);
+
+/**
+ * OKX 时间戳过期错误码
+ */
+const TIMESTAMP_EXPIRED_CODE = '50102';
+
+/**
+ * OKX 订单已不存在的错误码
+ * 51400: 订单已完成或已撤销, 51401/51402: 订单已撤销/已完成, 51603: 订单不存在
+ */
+const ORDER_GONE_CODES = new Set(['51400', '51401', '51402', '51603']);
+
+/**
+ * 请求参数：GET 为查询参数，POST 为 JSON 请求体（批量接口为数组）
+ */
+type OkxQuery = Record<string, string | number | boolean | undefined>;
+type OkxRequestParams = OkxQuery | OkxQuery[];
+
+/**
+ * OKX 响应包（code 为 '0' 表示成功）
+ */
+interface OkxResponse<T> {
+  code: string;
+  msg: string;
+  data?: T[];
+}
+
+/**
+ * 带错误码的请求错误，fatal 表示不可重试
+ */
+interface OkxApiError extends Error {
+  code?: string;
+  fatal?: boolean;
+}
+
+/**
+ * 写操作（下单、撤单、批量接口）的单条结果
+ */
+interface OkxItemResult {
+  ordId?: string;
+  algoId?: string;
+  ts?: string;
+  sCode?: string;
+  sMsg?: string;
+}
+
+interface OkxTicker {
+  last: string;
+  open24h: string;
+  volCcy24h: string;
+  high24h: string;
+  low24h: string;
+}
+
+interface OkxBalanceDetail {
+  ccy: string;
+  cashBal?: string;
+  availEq?: string;
+  availBal?: string;
+  imr?: string;
+  frozenBal?: string;
+  ordFrozen?: string;
+  upl?: string;
+}
+
+interface OkxPosition {
+  instId?: string;
+  pos?: string;
+  posSide?: string;
+  lever?: string;
+  avgPx?: string;
+  margin?: string;
+  imr?: string;
+  markPx?: string;
+  liqPx?: string;
+  upl?: string;
+  realizedPnl?: string;
+}
+
+interface OkxOrder {
+  ordId: string;
+  instId: string;
+  side: string;
+  sz: string;
+  accFillSz: string;
+  px?: string;
+  avgPx?: string;
+  state: string;
+  cTime?: string;
+  ordType?: string;
+  reduceOnly?: string;
+  fee?: string;
+  pnl?: string;
+}
+
+interface OkxAlgoOrder {
+  algoId: string;
+  instId: string;
+  side: string;
+  sz: string;
+  slTriggerPx?: string;
+  tpTriggerPx?: string;
+  cTime?: string;
+}
+
+interface OkxInstrument {
+  instId: string;
+  settleCcy?: string;
+  ctVal?: string;
+  minSz?: string;
+  lotSz?: string;
+  maxMktSz?: string;
+  maxLmtSz?: string;
+  tickSz?: string;
+  lever?: string;
+  state: string;
+}
+
+interface OkxFill {
+  tradeId: string;
+  instId: string;
+  ordId: string;
+  side: string;
+  fillSz: string;
+  fillPx: string;
+  fee?: string;
+  execType?: string;
+  ts?: string;
+  fillTime?: string;
+}
+
+interface OkxBill {
+  billId: string;
+  instId: string;
+  balChg?: string;
+  ts: string;
+}
+
+interface OkxPositionHistory {
+  instId: string;
+  posId?: string;
+  direction?: string;
+  lever?: string;
+  openAvgPx?: string;
+  closeAvgPx?: string;
+  closeTotalPos?: string;
+  realizedPnl?: string;
+  pnl?: string;
+  fee?: string;
+  fundingFee?: string;
+  cTime?: string;
+  uTime?: string;
+}
+
+/**
+ * 订单簿（Gate.io 格式，数量为币数量）
+ */
+interface OrderBookSnapshot {
+  bids: Array<{ p: string; s: string }>;
+  asks: Array<{ p: string; s: string }>;
+}
+
+/**
+ * 资金费率（同时提供 Gate.io 格式 r/t 和通用字段）
+ */
+interface FundingRateInfo {
+  r: string;
+  t: number;
+  funding_rate: string;
+  next_funding_time: number;
+}
+
+/**
+ * 统一格式的条件单（兼容 Gate.io 与 Binance 字段）
+ */
+interface PriceOrderInfo {
+  id: string;
+  algoId: string;
+  contract: string;
+  type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET';
+  side: string;
+  status: string;
+  triggerPrice?: string;
+  stopPrice?: string;
+  quantity: string;
+  reduce_only: boolean;
+  create_time: number;
+  trigger: { price?: string; rule: number };
+  initial: { contract: string; size: number; price: string; reduce_only: boolean };
+}
+
+export class OkxExchangeClient implements IExchangeClient {
+  private readonly apiKey: string;
+  private readonly apiSecret: string;
+  private readonly passphrase: string;
+  private readonly baseUrl: string;
+  private readonly config: ExchangeConfig;
+  private readonly marginMode: string;
+  private timeOffset = 0;
+  private lastSyncTime = 0;
+  // 订单缓存：存储最近的订单信息 (orderId -> {contract, orderInfo, timestamp})，查询/取消订单需要 instId
+  private orderCache: Map<string, {contract: string, orderInfo: OrderResponse, timestamp: number}> = new Map();
+  // 条件单缓存：algoId -> instId，用于 cancelOrder 识别策略委托
+  private algoOrderCache: Map<string, string> = new Map();
+  private readonly MAX_CACHE_SIZE = 1000; // 最大缓存数量
+  private readonly CACHE_TTL = 24 * 60 * 60 * 1000; // 缓存有效期：24小时
+  private readonly contractInfoCache: Map<string, ContractInfo> = new Map();
+
+  // ============ 数据缓存机制 ============
+  private positionsCache: { data: PositionInfo[]; timestamp: number } | null = null;
+  private readonly POSITIONS_CACHE_TTL = 30000; // 持仓缓存30秒
+  private accountInfoCache: { data: AccountInfo; timestamp: number } | null = null;
+  private readonly ACCOUNT_INFO_CACHE_TTL = 30000; // 账户信息缓存30秒
+  private tickerCache: Map<string, { data: TickerInfo; timestamp: number }> = new Map();
+  private readonly TICKER_CACHE_TTL = 60000; // 行情缓存60秒
+  private candleCache: Map<string, { data: CandleData[]; timestamp: number }> = new Map();
+  private readonly CANDLE_CACHE_TTL = 600000; // K线缓存10分钟
+
+  // ============ 统一限流管理器 ============
+  private readonly rateLimitManager: RateLimitManager;
+
+  // ============ 资金费率缓存 ============
+  private fundingRateCache = new Map<string, { data: FundingRateInfo; timestamp: number }>();
+  private readonly FUNDING_RATE_CACHE_TTL = 3600000; // 1小时缓存（资金费率8小时更新一次）
+
+  constructor(config: ExchangeConfig) {
+    this.config = config;
+    this.apiKey = config.apiKey;
+    this.apiSecret = config.apiSecret;
+    this.passphrase = config.passphrase || '';
+    // OKX 模拟盘与实盘使用同一域名，通过 x-simulated-trading 请求头区分
+    this.baseUrl = 'https://www.okx.com';
+    this.marginMode = (process.env.OKX_MARGIN_MODE || 'cross').toLowerCase() === 'isolated' ? 'isolated' : 'cross';
+
+    // 初始化统一限流管理器
+    this.rateLimitManager = RateLimitManager.getInstance({
+      exchangeName: 'okx',
+      maxRequestsPerMinute: 600, // OKX 按接口限流（多为20次/2秒），整体保留安全余量
+      minRequestDelay: 100, // 最小请求间隔100ms
+      circuitBreakerThreshold: 3, // 连续失败3次触发熔断
+      circuitBreakerTimeout: 60000, // 熔断器打开60秒
+    });
+
+    logger.info(`使用 OKX USDT永续合约${config.isTestnet ? '模拟盘' : '正式网'} (保证金模式: ${this.marginMode})`);
+    logger.info('OKX API 客户端初始化完成');
+  }
+
+  getExchangeName(): string {
+    return "okx";
+  }
+
+  isTestnet(): boolean {
+    return this.config.isTestnet;
+  }
+
+  normalizeContract(symbol: string): string {
+    // 处理各种输入格式（BTC、BTC_USDT、BTCUSDT、BTC/USDT:USDT），转换为 OKX 格式 BTC-USDT-SWAP
+    if (symbol.endsWith('-USDT-SWAP')) {
+      return symbol;
+    }
+    const base = symbol
+      .replace('-SWAP', '')
+      .replace(':USDT', '')
+      .replace(/[_/-]/g, '')
+      .replace(/USDT$/, '');
+    return `${base}-USDT-SWAP`;
+  }
+
+  extractSymbol(contract: string): string {
+    // 从 BTC-USDT-SWAP 提取 BTC
+    return this.normalizeContract(contract).split('-')[0];
+  }
+
+  /**
+   * 清理过期的订单缓存
+   */
+  private cleanupCache(): void {
+    const now = Date.now();
+    for (const [orderId, cache] of Array.from(this.orderCache.entries())) {
+      if (now - cache.timestamp > this.CACHE_TTL) {
+        this.orderCache.delete(orderId);
+      }
+    }
+
+    // 如果缓存数量超过限制，删除最旧的条目
+    if (this.orderCache.size > this.MAX_CACHE_SIZE) {
+      const entries = Array.from(this.orderCache.entries());
+      entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
+      for (const [orderId] of entries.slice(0, entries.length - this.MAX_CACHE_SIZE)) {
+        this.orderCache.delete(orderId);
+      }
+    }
+    if (this.algoOrderCache.size > this.MAX_CACHE_SIZE) {
+      const keys = Array.from(this.algoOrderCache.keys());
+      for (const key of keys.slice(0, keys.length - this.MAX_CACHE_SIZE)) {
+        this.algoOrderCache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 同步服务器时间（OKX 要求请求时间戳与服务器相差不超过30秒）
+   */
+  private async syncServerTime(): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    try {
+      const t0 = Date.now();
+      const response = await fetch(`${this.baseUrl}/api/v5/public/time`, { signal: controller.signal });
+      const payload = (await response.json()) as OkxResponse<{ ts: string }>;
+      const t1 = Date.now();
+      const serverTime = Number.parseInt(payload?.data?.[0]?.ts || '0');
+      if (serverTime > 0) {
+        this.timeOffset = serverTime + Math.floor((t1 - t0) / 2) - t1;
+      }
+      this.lastSyncTime = Date.now();
+    } catch (error) {
+      // 时间同步失败不阻断请求，使用本地时间
+      logger.warn(`同步 OKX 服务器时间失败，使用本地时间: ${(error as Error).message}`);
+      this.lastSyncTime = Date.now();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * 确保时间已同步（每5分钟重新同步一次）
+   */
+  private async ensureTimeSynced(): Promise<void> {
+    if (Date.now() - this.lastSyncTime > 5 * 60 * 1000) {
+      await this.syncServerTime();
+    }
+  }
+
+  /**
+   * 生成签名：Base64(HMAC-SHA256(timestamp + method + requestPath + body))
+   */
+  private generateSignature(timestamp: string, method: string, requestPath: string, body: string): string {
+    return crypto
+      .createHmac('sha256', this.apiSecret)
+      .update(timestamp + method + requestPath + body)
+      .digest('base64');
+  }
+
+  /**
+   * 检查熔断器状态 (委托给统一限流管理器)
+   */
+  private isCircuitBreakerOpen(): boolean {
+    const stats = this.rateLimitManager.getStats();
+    return stats.isCircuitBreakerOpen || stats.bannedUntil > Date.now() || stats.backoffUntil > Date.now();
+  }
+
+  /**
+   * 检查缓存是否有效
+   */
+  private isCacheValid(timestamp: number, ttl: number): boolean {
+    return Date.now() - timestamp < ttl;
+  }
+
+  /**
+   * 处理API请求，包含签名、重试、超时和错误处理逻辑
+   * 集成统一限流管理器，支持429/限流错误码检测和全局退避
+   * @returns OKX 响应中的 data 数组
+   */
+  private async request<T>(method: 'GET' | 'POST', path: string, params: OkxRequestParams = {}, signed = false, retries = 3): Promise<T[]> {
+    // 应用统一限流控制（熔断器打开、429退避时直接抛错，交给缓存降级处理）
+    await this.rateLimitManager.waitForRateLimit(path);
+
+    if (signed) {
+      await this.ensureTimeSynced();
+    }
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      const controller = new AbortController();
+      const timeoutMs = 15000 + (attempt - 1) * 5000;
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        let requestPath = path;
+        let body = '';
+        if (method === 'GET') {
+          const query = new URLSearchParams(
+            Object.entries(params)
+              .filter(([, value]) => value !== undefined && value !== null)
+              .map(([key, value]) => [key, String(value)])
+          ).toString();
+          if (query) {
+            requestPath += `?${query}`;
+          }
+        } else {
+          body = JSON.stringify(params);
+        }
+
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Mozilla/5.0 AI-Auto-Trading Bot',
+        };
+        if (signed) {
+          // 每次重试都重新生成时间戳和签名
+          const timestamp = new Date(Date.now() + this.timeOffset).toISOString();
+          headers['OK-ACCESS-KEY'] = this.apiKey;
+          headers['OK-ACCESS-SIGN'] = this.generateSignature(timestamp, method, requestPath, body);
+          headers['OK-ACCESS-TIMESTAMP'] = timestamp;
+          headers['OK-ACCESS-PASSPHRASE'] = this.passphrase;
+        }
+        if (this.config.isTestnet) {
+          headers['x-simulated-trading'] = '1';
+        }
+
+        const response = await fetch(this.baseUrl + requestPath, {
+          method,
+          headers,
+          body: method === 'GET' ? undefined : body,
+          signal: controller.signal,
+        });
+        clearTimeout(timeoutId);
+
+        const payload = (await response.json().catch(() => null)) as OkxResponse<T> | null;
+
+        // 🔥 429 或限流错误码：立即触发全局退避，不再重试
+        if (response.status === 429 || RATE_LIMIT_CODES.has(payload?.code ?? '')) {
+          this.rateLimitManager.handle429Warning();
+          throw this.createFatalError('收到429警告，已触发全局退避', payload?.code || '429');
+        }
+
+        if (!payload) {
+          throw new Error(`API返回非JSON数据 (HTTP ${response.status})`);
+        }
+
+        if (payload.code === '0') {
+          this.rateLimitManager.recordSuccess();
+          return payload.data || [];
+        }
+
+        // 时间戳过期：重新同步时间后重试
+        if (payload.code === TIMESTAMP_EXPIRED_CODE && attempt < retries) {
+          logger.debug(`时间戳过期，重新同步服务器时间 (${attempt}/${retries})`);
+          await this.syncServerTime();
+          continue;
+        }
+
+        // 服务端错误可重试，业务错误直接抛出
+        if (response.status >= 500) {
+          throw new Error(`HTTP ${response.status}: ${payload.msg}`);
+        }
+        const detail = payload.data?.[0] as OkxItemResult | undefined;
+        const code = detail?.sCode && detail.sCode !== '0' ? detail.sCode : payload.code;
+        const message = detail?.sMsg || payload.msg || '未知错误';
+        throw this.createFatalError(`OKX API错误 ${code}: ${message}`, code);
+      } catch (error) {
+        clearTimeout(timeoutId);
+
+        if ((error as OkxApiError).fatal) {
+          throw error;
+        }
+
+        if (attempt === retries) {
+          this.rateLimitManager.recordFailure();
+          logger.error(`API请求失败(${attempt}/${retries}) ${method} ${path}:`, error as Error);
+          throw error;
+        }
+
+        const isTimeout = (error as Error).name === 'AbortError';
+        const delay = isTimeout
+          ? Math.min(3000 * attempt, 10000)
+          : Math.min(1000 * attempt, 3000);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    this.rateLimitManager.recordFailure();
+    throw new Error(`API请求失败，已重试${retries}次`);
+  }
+
+  /**
+   * 创建不可重试的错误（业务错误、限流）
+   */
+  private createFatalError(message: string, code: string): OkxApiError {
+    const error: OkxApiError = new Error(message);
+    error.code = code;
+    error.fatal = true;
+    return error;
+  }
+
+  /**
+   * 发送公共请求
+   */
+  private async publicRequest<T>(path: string, params: OkxQuery = {}, retries = 3): Promise<T[]> {
+    return this.request<T>('GET', path, params, false, retries);
+  }
+
+  /**
+   * 发送私有请求（需要签名）
+   */
+  private async privateRequest<T>(path: string, params: OkxRequestParams = {}, method: 'GET' | 'POST' = 'GET', retries = 3): Promise<T[]> {
+    return this.request<T>(method, path, params, true, retries);
+  }
+
+  /**
+   * 币数量 -> 张数（按 lotSz 取整，返回符合精度的字符串）
+   */
+  private toContractSize(info: ContractInfo, quantity: number, mode: 'round' | 'floor' = 'round'): string {
+    const lotSz = Number.parseFloat(info.lotSz || '1');
+    const raw = Math.abs(quantity) / Number.parseFloat(info.ctVal || '1');
+    // 加上极小量避免 0.3/0.1 这类浮点误差导致少一个步长
+    const lots = mode === 'floor' ? Math.floor(raw / lotSz + 1e-9) : Math.round(raw / lotSz);
+    const decimals = info.lotSz?.split('.')[1]?.length || 0;
+    return (lots * lotSz).toFixed(decimals);
+  }
+
+  /**
+   * 张数 -> 币数量
+   */
+  private toCoinQuantity(info: ContractInfo, contracts: string | number): number {
+    const value = Number.parseFloat(String(contracts || '0')) * Number.parseFloat(info.ctVal || '1');
+    return Number.parseFloat(value.toFixed(10));
+  }
+
+  /**
+   * 映射订单状态为系统统一格式
+   */
+  private mapOrderStatus(state: string): string {
+    if (state === 'filled') return 'finished';
+    if (state === 'live' || state === 'partially_filled') return 'open';
+    if (state === 'canceled' || state === 'mmp_canceled') return 'cancelled';
+    return state;
+  }
+
+  /**
+   * 将 OKX 订单转换为系统统一格式
+   */
+  private toOrderResponse(order: OkxOrder, info: ContractInfo): OrderResponse {
+    const size = this.toCoinQuantity(info, order.sz);
+    const filled = this.toCoinQuantity(info, order.accFillSz);
+    return {
+      id: order.ordId,
+      contract: order.instId,
+      size: order.side === 'buy' ? size : -size,
+      price: order.px || order.avgPx || '0',
+      status: this.mapOrderStatus(order.state),
+      create_time: Number.parseInt(order.cTime || '0'),
+      fill_price: order.avgPx || '0',
+      left: Number.parseFloat((size - filled).toFixed(10)).toString(),
+    };
+  }
+
+  async getFuturesTicker(contract: string, retries = 2, cacheOptions?: { ttl?: number; skipCache?: boolean }, includeMarkPrice = false): Promise<TickerInfo> {
+    const instId = this.normalizeContract(contract);
+    const cacheKey = includeMarkPrice ? `${instId}_full` : instId;
+    const cached = this.tickerCache.get(cacheKey);
+
+    try {
+      // 确定缓存TTL：优先使用传入的TTL，否则使用默认值
+      const cacheTTL = cacheOptions?.ttl !== undefined ? cacheOptions.ttl : this.TICKER_CACHE_TTL;
+      if (!cacheOptions?.skipCache && cached && this.isCacheValid(cached.timestamp, cacheTTL)) {
+        return cached.data;
+      }
+
+      // 如果熔断器打开，使用过期缓存
+      if (this.isCircuitBreakerOpen()) {
+        if (cached) {
+          logger.warn(`熔断器已打开，使用 ${instId} 的缓存数据`);
+          return cached.data;
+        }
+        throw new Error('熔断器已打开且无可用缓存');
+      }
+
+      const [ticker] = await this.publicRequest<OkxTicker>('/api/v5/market/ticker', { instId }, retries);
+      if (!ticker) {
+        throw new Error(`未找到 ${instId} 的行情数据`);
+      }
+
+      const last = Number.parseFloat(ticker.last);
+      const open24h = Number.parseFloat(ticker.open24h);
+      const result: TickerInfo = {
+        contract: instId,
+        last: ticker.last,
+        volume24h: ticker.volCcy24h, // SWAP 的 volCcy24h 为币数量
+        high24h: ticker.high24h,
+        low24h: ticker.low24h,
+        change24h: open24h > 0 ? (((last - open24h) / open24h) * 100).toFixed(4) : '0',
+      };
+
+      // 只有明确需要时才查询标记价格（节省API请求）
+      if (includeMarkPrice) {
+        const [mark] = await this.publicRequest<{ markPx?: string }>('/api/v5/public/mark-price', { instType: 'SWAP', instId }, retries);
+        result.markPrice = mark?.markPx;
+      }
+
+      this.tickerCache.set(cacheKey, { data: result, timestamp: Date.now() });
+      return result;
+    } catch (error) {
+      // 如果出错且有缓存，使用缓存降级
+      if (cached) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.warn(`获取 ${instId} 行情失败，使用缓存数据: ${errorMsg}`);
+        return cached.data;
+      }
+
+      logger.error(`获取 ${contract} 行情失败:`, error as Error);
+      throw error;
+    }
+  }
+
+  async getFuturesCandles(
+    contract: string,
+    interval = '1h',
+    limit = 100,
+    retries = 2,
+    cacheOptions?: { ttl?: number; skipCache?: boolean }
+  ): Promise<CandleData[]> {
+    const instId = this.normalizeContract(contract);
+    const cacheKey = `${instId}-${interval}-${limit}`;
+    const cached = this.candleCache.get(cacheKey);
+
+    try {
+      const cacheTTL = cacheOptions?.ttl !== undefined ? cacheOptions.ttl : this.CANDLE_CACHE_TTL;
+      if (!cacheOptions?.skipCache && cached && this.isCacheValid(cached.timestamp, cacheTTL)) {
+        return cached.data;
+      }
+
+      // 🔧 如果熔断器打开，使用过期缓存（K线数据可容忍轻微延迟）
+      if (this.isCircuitBreakerOpen()) {
+        if (cached) {
+          const cacheAge = Math.floor((Date.now() - cached.timestamp) / 1000);
+          logger.warn(`熔断器已打开，使用 ${instId} ${interval} K线缓存数据 (${cacheAge}秒前)`);
+          return cached.data;
+        }
+        throw new Error('熔断器已打开且无可用K线缓存');
+      }
+
+      const bar = BAR_MAP[interval] || interval;
+      // OKX 单次最多返回300根K线
+      const response = await this.publicRequest<string[]>('/api/v5/market/candles', {
+        instId,
+        bar,
+        limit: Math.min(limit, 300),
+      }, retries);
+
+      // OKX 按时间倒序返回，转换为正序（与其他交易所一致）
+      const result: CandleData[] = response
+        .map((k) => ({
+          timestamp: Number.parseInt(k[0]),
+          open: k[1],
+          high: k[2],
+          low: k[3],
+          close: k[4],
+          volume: k[6], // volCcy：币数量
+        }))
+        .reverse();
+
+      this.candleCache.set(cacheKey, { data: result, timestamp: Date.now() });
+      return result;
+    } catch (error) {
+      if (cached) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.warn(`获取 ${instId} K线失败，使用缓存数据: ${errorMsg}`);
+        return cached.data;
+      }
+      logger.debug(`获取 ${contract} K线数据失败:`, error as Error);
+      throw error;
+    }
+  }
+
+  async getFuturesAccount(retries = 2): Promise<AccountInfo> {
+    try {
+      if (this.accountInfoCache && this.isCacheValid(this.accountInfoCache.timestamp, this.ACCOUNT_INFO_CACHE_TTL)) {
+        return this.accountInfoCache.data;
+      }
+
+      if (this.isCircuitBreakerOpen()) {
+        if (this.accountInfoCache) {
+          logger.warn('熔断器已打开，使用账户信息缓存数据');
+          return this.accountInfoCache.data;
+        }
+        throw new Error('熔断器已打开且无可用缓存');
+      }
+
+      const [account] = await this.privateRequest<{ details?: OkxBalanceDetail[] }>('/api/v5/account/balance', { ccy: 'USDT' }, 'GET', retries);
+      const detail: Partial<OkxBalanceDetail> = account?.details?.find((d) => d.ccy === 'USDT') || {};
+
+      // 与 Gate.io/Binance 保持一致：total 为钱包余额，不包含未实现盈亏
+      const result: AccountInfo = {
+        currency: 'USDT',
+        total: detail.cashBal || '0',
+        available: detail.availEq || detail.availBal || '0',
+        positionMargin: detail.imr || detail.frozenBal || '0',
+        orderMargin: detail.ordFrozen || '0',
+        unrealisedPnl: detail.upl || '0',
+      };
+
+      this.accountInfoCache = { data: result, timestamp: Date.now() };
+      return result;
+    } catch (error) {
+      if (this.accountInfoCache) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.warn(`获取账户信息失败，使用缓存数据: ${errorMsg}`);
+        return this.accountInfoCache.data;
+      }
+
+      logger.error('获取账户信息失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getPositions(retries = 2): Promise<PositionInfo[]> {
+    try {
+      if (this.positionsCache && this.isCacheValid(this.positionsCache.timestamp, this.POSITIONS_CACHE_TTL)) {
+        return this.positionsCache.data;
+      }
+
+      if (this.isCircuitBreakerOpen()) {
+        if (this.positionsCache) {
+          logger.warn('熔断器已打开，使用持仓信息缓存数据');
+          return this.positionsCache.data;
+        }
+        throw new Error('熔断器已打开且无可用缓存');
+      }
+
+      const positions = await this.privateRequest<OkxPosition>('/api/v5/account/positions', { instType: 'SWAP' }, 'GET', retries);
+
+      const result: PositionInfo[] = [];
+      for (const p of positions) {
+        const contracts = Number.parseFloat(p.pos || '0');
+        if (contracts === 0 || !p.instId?.endsWith('-USDT-SWAP')) continue;
+
+        const info = await this.getContractInfo(p.instId);
+        // 单向持仓模式下 pos 自带符号；双向持仓模式根据 posSide 确定方向
+        const sign = p.posSide === 'short' ? -1 : p.posSide === 'long' ? 1 : Math.sign(contracts);
+        const size = this.toCoinQuantity(info, Math.abs(contracts)) * sign;
+        const leverage = Number.parseFloat(p.lever || '1');
+        const entryPrice = Number.parseFloat(p.avgPx || '0');
+        const margin = Number.parseFloat(p.margin || p.imr || '0') ||
+          (leverage > 0 ? Math.abs(size * entryPrice) / leverage : 0);
+
+        result.push({
+          contract: p.instId,
+          size: size.toString(), // 保留符号：正数=多头，负数=空头
+          leverage: leverage.toString(),
+          entryPrice: entryPrice.toString(),
+          markPrice: p.markPx || '0',
+          liqPrice: p.liqPx || '0',
+          unrealisedPnl: p.upl || '0',
+          realisedPnl: p.realizedPnl || '0',
+          margin: margin.toString(),
+        });
+      }
+
+      this.positionsCache = { data: result, timestamp: Date.now() };
+      return result;
+    } catch (error) {
+      if (this.positionsCache) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.warn(`获取持仓失败，使用缓存数据: ${errorMsg}`);
+        return this.positionsCache.data;
+      }
+
+      logger.error('获取持仓失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async placeOrder(params: OrderParams, retries = 2): Promise<OrderResponse> {
+    try {
+      const instId = this.normalizeContract(params.contract);
+      const info = await this.getContractInfo(instId);
+
+      let sz = this.toContractSize(info, params.size);
+      if (Number.parseFloat(sz) < Number.parseFloat(info.minSz || '1')) {
+        logger.warn(`下单张数 ${sz} 小于最小下单张数 ${info.minSz}，调整为最小值`);
+        sz = info.minSz;
+      }
+
+      // 限价单根据 tif 选择 OKX 订单类型
+      let ordType = 'market';
+      if (params.price) {
+        const tif = (params.tif || 'gtc').toLowerCase();
+        ordType = tif === 'ioc' ? 'ioc' : tif === 'fok' ? 'fok' : tif === 'poc' ? 'post_only' : 'limit';
+      }
+
+      const data: OkxQuery = {
+        instId,
+        tdMode: this.marginMode,
+        side: params.size > 0 ? 'buy' : 'sell',
+        ordType,
+        sz,
+      };
+      let px: string | undefined;
+      if (params.price) {
+        px = await this.formatPriceByTickSize(instId, params.price);
+        data.px = px;
+      }
+      if (params.reduceOnly) {
+        data.reduceOnly = true;
+      }
+
+      const [placed] = await this.privateRequest<OkxItemResult>('/api/v5/trade/order', data, 'POST', retries);
+      const ordId = placed.ordId || '';
+
+      // 查询订单详情获取实际成交价
+      let orderResponse: OrderResponse;
+      try {
+        const [detail] = await this.privateRequest<OkxOrder>('/api/v5/trade/order', { instId, ordId }, 'GET', 2);
+        orderResponse = this.toOrderResponse(detail, info);
+      } catch (error) {
+        logger.warn(`获取订单 ${ordId} 详情失败，使用下单参数: ${(error as Error).message}`);
+        orderResponse = {
+          id: ordId,
+          contract: instId,
+          size: params.size,
+          price: px || '0',
+          status: ordType === 'market' ? 'finished' : 'open',
+          create_time: Number.parseInt(placed.ts || Date.now().toString()),
+          fill_price: '0',
+          left: '0',
+        };
+      }
+
+      // 市价单未返回成交均价时，使用当前市场价格兜底
+      if (ordType === 'market' && Number.parseFloat(orderResponse.fill_price || '0') === 0) {
+        try {
+          const ticker = await this.getFuturesTicker(instId, 2, { skipCache: true });
+          orderResponse.fill_price = ticker.last;
+          orderResponse.price = ticker.last;
+          logger.warn(`⚠️ 使用当前市场价格作为成交价: ${ticker.last}`);
+        } catch (tickerError) {
+          logger.error('获取市场价格也失败，成交价将为0', tickerError as Error);
+        }
+      } else if (ordType === 'market') {
+        orderResponse.price = orderResponse.fill_price;
+      }
+
+      // 缓存订单信息供后续查询/取消使用
+      this.orderCache.set(ordId, { contract: instId, orderInfo: orderResponse, timestamp: Date.now() });
+      this.cleanupCache();
+
+      // 清除相关缓存（因为持仓和账户信息已改变）
+      this.positionsCache = null;
+      this.accountInfoCache = null;
+
+      return orderResponse;
+    } catch (error) {
+      logger.error('下单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getOrder(orderId: string): Promise<OrderResponse> {
+    try {
+      const cached = this.orderCache.get(orderId);
+      if (cached) {
+        try {
+          const info = await this.getContractInfo(cached.contract);
+          const [detail] = await this.privateRequest<OkxOrder>('/api/v5/trade/order', { instId: cached.contract, ordId: orderId }, 'GET', 2);
+          const orderResponse = this.toOrderResponse(detail, info);
+          this.orderCache.set(orderId, { contract: cached.contract, orderInfo: orderResponse, timestamp: Date.now() });
+          return orderResponse;
+        } catch (apiError) {
+          logger.warn(`API查询订单失败，使用缓存信息: ${apiError}`);
+          return cached.orderInfo;
+        }
+      }
+
+      // 如果缓存中没有，尝试从未成交订单中查找
+      const openOrders = await this.getOpenOrders();
+      const order = openOrders.find(o => o.id === orderId);
+      if (order) {
+        return order;
+      }
+
+      // 如果都找不到，返回一个基本的响应（避免中断交易流程）
+      logger.warn(`订单 ${orderId} 未在缓存或未成交订单中找到，返回默认状态`);
+      return {
+        id: orderId,
+        contract: 'UNKNOWN',
+        size: 0,
+        price: '0',
+        status: 'finished',
+        create_time: Date.now(),
+        fill_price: '0',
+        left: '0',
+      };
+    } catch (error) {
+      logger.error('获取订单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    // OKX 取消订单需要 instId，普通订单与策略委托（条件单）使用不同接口
+    try {
+      let algoInstId = this.algoOrderCache.get(orderId);
+      let instId = this.orderCache.get(orderId)?.contract;
+
+      if (!algoInstId && !instId) {
+        const openOrders = await this.getOpenOrders();
+        instId = openOrders.find(o => o.id === orderId)?.contract;
+      }
+      if (!algoInstId && !instId) {
+        // 刷新条件单缓存后再查找
+        await this.getPriceOrders();
+        algoInstId = this.algoOrderCache.get(orderId);
+      }
+
+      if (algoInstId) {
+        await this.privateRequest('/api/v5/trade/cancel-algos', [{ instId: algoInstId, algoId: orderId }], 'POST');
+        this.algoOrderCache.delete(orderId);
+        logger.debug(`已取消条件单 ${orderId}`);
+        return;
+      }
+
+      if (!instId) {
+        logger.debug(`订单 ${orderId} 未找到，可能已完成或不存在`);
+        return;
+      }
+
+      await this.privateRequest('/api/v5/trade/cancel-order', { instId, ordId: orderId }, 'POST');
+      this.positionsCache = null;
+      this.accountInfoCache = null;
+      logger.debug(`已取消订单 ${orderId}`);
+    } catch (error) {
+      if (ORDER_GONE_CODES.has((error as OkxApiError).code ?? '')) {
+        logger.debug(`订单 ${orderId} 已不存在，无需取消`);
+        return;
+      }
+      logger.error('取消订单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getOpenOrders(contract?: string, retries = 2): Promise<OrderResponse[]> {
+    try {
+      const params: OkxQuery = { instType: 'SWAP' };
+      if (contract) {
+        params.instId = this.normalizeContract(contract);
+      }
+
+      const orders = await this.privateRequest<OkxOrder>('/api/v5/trade/orders-pending', params, 'GET', retries);
+      const result: OrderResponse[] = [];
+      for (const order of orders) {
+        const info = await this.getContractInfo(order.instId);
+        result.push(this.toOrderResponse(order, info));
+      }
+      return result;
+    } catch (error) {
+      logger.error('获取未成交订单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async setLeverage(contract: string, leverage: number, retries = 2): Promise<void> {
+    try {
+      const instId = this.normalizeContract(contract);
+      await this.privateRequest('/api/v5/account/set-leverage', {
+        instId,
+        lever: leverage.toString(),
+        mgnMode: this.marginMode,
+      }, 'POST', retries);
+      logger.info(`已设置 ${instId} 杠杆为 ${leverage}x`);
+    } catch (error) {
+      logger.error('设置杠杆失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getContractInfo(contract: string, retries = 2): Promise<ContractInfo> {
+    const instId = this.normalizeContract(contract);
+    const cached = this.contractInfoCache.get(instId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const [inst] = await this.publicRequest<OkxInstrument>('/api/v5/public/instruments', { instType: 'SWAP', instId }, retries);
+      if (!inst) {
+        throw new Error(`Contract ${contract} not found`);
+      }
+
+      const ctVal = Number.parseFloat(inst.ctVal || '1');
+      const contractInfo: ContractInfo = {
+        name: inst.instId,
+        // 对外按币数量计价，合约乘数固定为1
+        quantoMultiplier: '1',
+        orderSizeMin: Number.parseFloat((Number.parseFloat(inst.minSz || '1') * ctVal).toFixed(10)),
+        orderSizeMax: Number.parseFloat(inst.maxMktSz || inst.maxLmtSz || '1000000') * ctVal,
+        orderPriceDeviate: '0.05',
+        orderPriceRound: inst.tickSz || '0.01',
+        markPriceRound: inst.tickSz || '0.01',
+        type: 'direct',
+        leverage_min: '1',
+        leverage_max: inst.lever || '100',
+        in_delisting: inst.state !== 'live',
+        // OKX 原始合约参数（张数换算使用）
+        ctVal: inst.ctVal || '1',
+        minSz: inst.minSz || '1',
+        lotSz: inst.lotSz || '1',
+      };
+
+      this.contractInfoCache.set(instId, contractInfo);
+      return contractInfo;
+    } catch (error) {
+      logger.error('获取合约信息失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getOrderBook(contract: string, limit = 100, retries = 2): Promise<OrderBookSnapshot> {
+    try {
+      const instId = this.normalizeContract(contract);
+      const info = await this.getContractInfo(instId);
+      const [book] = await this.publicRequest<{ bids?: string[][]; asks?: string[][] }>('/api/v5/market/books', { instId, sz: Math.min(limit, 400) }, retries);
+
+      // 转换为 Gate.io 的格式 [{p: "价格", s: "数量"}]，数量换算为币数量
+      const mapLevel = (level: string[]) => ({
+        p: level[0],
+        s: this.toCoinQuantity(info, level[1]).toString(),
+      });
+      return {
+        bids: (book?.bids || []).map(mapLevel),
+        asks: (book?.asks || []).map(mapLevel),
+      };
+    } catch (error) {
+      logger.error('获取订单簿失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getMyTrades(contract?: string, limit = 100, startTime?: number, retries = 2): Promise<TradeRecord[]> {
+    try {
+      const params: OkxQuery = { instType: 'SWAP', limit: Math.min(limit, 100) };
+      if (contract) {
+        params.instId = this.normalizeContract(contract);
+      }
+      if (startTime) {
+        params.begin = startTime;
+      }
+
+      const fills = await this.privateRequest<OkxFill>('/api/v5/trade/fills-history', params, 'GET', retries);
+
+      const result: TradeRecord[] = [];
+      for (const fill of fills) {
+        const info = await this.getContractInfo(fill.instId);
+        const quantity = this.toCoinQuantity(info, fill.fillSz);
+        const timestamp = Number.parseInt(fill.ts || fill.fillTime || '0');
+        result.push({
+          id: fill.tradeId,
+          contract: fill.instId,
+          create_time: timestamp,
+          order_id: fill.ordId,
+          size: fill.side === 'buy' ? quantity : -quantity,
+          price: fill.fillPx,
+          role: fill.execType === 'M' ? 'maker' : 'taker',
+          // OKX 手续费为负数表示扣除，统一转换为正数表示成本
+          fee: (-Number.parseFloat(fill.fee || '0')).toString(),
+          timestamp,
+        });
+      }
+
+      // OKX 按时间倒序返回，转换为正序
+      return result.sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      logger.error('获取成交记录失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getFundingRate(contract: string, retries = 2): Promise<FundingRateInfo> {
+    try {
+      const instId = this.normalizeContract(contract);
+      const now = Date.now();
+
+      const cached = this.fundingRateCache.get(instId);
+      if (cached && now - cached.timestamp < this.FUNDING_RATE_CACHE_TTL) {
+        return cached.data;
+      }
+
+      const [funding] = await this.publicRequest<{ fundingRate?: string; fundingTime?: string }>('/api/v5/public/funding-rate', { instId }, retries);
+      const nextFundingTime = Number.parseInt(funding?.fundingTime || '0');
+
+      // 同时提供 Gate.io 格式（r/t，t 为秒）和通用格式字段
+      const result: FundingRateInfo = {
+        r: funding?.fundingRate || '0',
+        t: Math.floor(nextFundingTime / 1000),
+        funding_rate: funding?.fundingRate || '0',
+        next_funding_time: nextFundingTime,
+      };
+
+      this.fundingRateCache.set(instId, { data: result, timestamp: now });
+      return result;
+    } catch (error) {
+      logger.error('获取资金费率失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getAllContracts(): Promise<OkxInstrument[]> {
+    try {
+      const instruments = await this.publicRequest<OkxInstrument>('/api/v5/public/instruments', { instType: 'SWAP' });
+      return instruments.filter((inst) => inst.settleCcy === 'USDT' && inst.state === 'live');
+    } catch (error) {
+      logger.error('获取所有合约失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getPositionHistory(contract?: string, limit = 100, offset?: number): Promise<OkxPositionHistory[]> {
+    try {
+      const params: OkxQuery = { instType: 'SWAP', limit: Math.min(limit, 100) };
+      if (contract) {
+        params.instId = this.normalizeContract(contract);
+      }
+      return await this.privateRequest<OkxPositionHistory>('/api/v5/account/positions-history', params);
+    } catch (error) {
+      logger.error('获取历史仓位失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getSettlementHistory(contract?: string, limit = 100, offset?: number): Promise<SettlementRecord[]> {
+    try {
+      // 账单类型 8 = 资金费
+      const params: OkxQuery = { instType: 'SWAP', type: '8', limit: Math.min(limit, 100) };
+      if (contract) {
+        params.instId = this.normalizeContract(contract);
+      }
+      const bills = await this.privateRequest<OkxBill>('/api/v5/account/bills', params);
+      return bills.map((bill) => ({
+        time: Math.floor(Number(bill.ts) / 1000),
+        contract: bill.instId,
+        change: bill.balChg || '0',
+        type: 'fund' as const,
+        text: bill.billId,
+      }));
+    } catch (error) {
+      logger.error('获取资金费结算记录失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async getOrderHistory(contract?: string, limit = 100): Promise<OkxOrder[]> {
+    try {
+      const params: OkxQuery = { instType: 'SWAP', limit: Math.min(limit, 100) };
+      if (contract) {
+        params.instId = this.normalizeContract(contract);
+      }
+      return await this.privateRequest<OkxOrder>('/api/v5/trade/orders-history', params);
+    } catch (error) {
+      logger.error('获取订单历史失败:', error as Error);
+      throw error;
+    }
+  }
+
+  getContractType(contract?: string): 'inverse' | 'linear' {
+    return 'linear'; // OKX USDT 永续合约是正向合约，对外按币数量计价
+  }
+
+  async cancelAllOrders(contract?: string): Promise<OkxItemResult[]> {
+    try {
+      const openOrders = await this.getOpenOrders(contract);
+      const results: OkxItemResult[] = [];
+      // OKX 批量撤单每次最多20个
+      for (let i = 0; i < openOrders.length; i += 20) {
+        const batch = openOrders.slice(i, i + 20).map(o => ({ instId: o.contract, ordId: o.id }));
+        results.push(...await this.privateRequest<OkxItemResult>('/api/v5/trade/cancel-batch-orders', batch, 'POST'));
+      }
+      this.positionsCache = null;
+      this.accountInfoCache = null;
+      return results;
+    } catch (error) {
+      logger.error('取消所有订单失败:', error as Error);
+      throw error;
+    }
+  }
+
+  async calculateQuantity(
+    amountUsdt: number,
+    price: number,
+    leverage: number,
+    contract: string
+  ): Promise<number> {
+    // 数量(币) = (保证金金额 * 杠杆) / 价格，再按张数步长向下取整
+    const quantity = (amountUsdt * leverage) / price;
+
+    try {
+      const info = await this.getContractInfo(contract);
+      let contracts = Number.parseFloat(this.toContractSize(info, quantity, 'floor'));
+      const minSz = Number.parseFloat(info.minSz || '1');
+      if (contracts < minSz) {
+        logger.warn(`计算张数 ${contracts} 小于最小下单张数 ${minSz}，调整为最小值`);
+        contracts = minSz;
+      }
+      return this.toCoinQuantity(info, contracts);
+    } catch (error) {
+      logger.warn('获取合约信息失败，使用默认精度:', error as Error);
+      return Math.floor(quantity * 1000) / 1000;
+    }
+  }
+
+  async calculatePnl(
+    entryPrice: number,
+    exitPrice: number,
+    quantity: number,
+    side: 'long' | 'short',
+    contract: string
+  ): Promise<number> {
+    // 正向合约，数量为币数量
+    return side === 'long'
+      ? quantity * (exitPrice - entryPrice)
+      : quantity * (entryPrice - exitPrice);
+  }
+
+  /**
+   * 根据合约的价格步长格式化价格
+   */
+  private async formatPriceByTickSize(contract: string, price: number): Promise<string> {
+    try {
+      const contractInfo = await this.getContractInfo(contract);
+      const tickSize = Number.parseFloat(contractInfo.orderPriceRound || '0.01');
+      const decimals = contractInfo.orderPriceRound?.split('.')[1]?.length || 0;
+      return (Math.round(price / tickSize) * tickSize).toFixed(decimals);
+    } catch (error) {
+      logger.error(`格式化价格失败，使用默认精度: ${error}`);
+      return price.toFixed(2);
+    }
+  }
+
+  /**
+   * 校验触发价方向，价格已越过触发价时调整到当前价附近（留0.1%缓冲）
+   */
+  private adjustTriggerPrice(
+    contract: string,
+    type: 'stop_loss' | 'take_profit',
+    side: 'long' | 'short',
+    triggerPrice: number,
+    currentPrice: number
+  ): number {
+    // 多单止损/空单止盈需低于当前价，多单止盈/空单止损需高于当前价
+    const mustBeBelow = (type === 'stop_loss') === (side === 'long');
+    const crossed = mustBeBelow ? triggerPrice >= currentPrice : triggerPrice <= currentPrice;
+    if (!crossed) {
+      return triggerPrice;
+    }
+
+    const buffer = 0.001; // 0.1%缓冲
+    const adjusted = mustBeBelow ? currentPrice * (1 - buffer) : currentPrice * (1 + buffer);
+    const label = type === 'stop_loss' ? '止损' : '止盈';
+    logger.warn(`⚠️ ${contract} 价格已突破${label}位: 原${label}=${triggerPrice.toFixed(6)}, 当前价=${currentPrice.toFixed(6)}`);
+    logger.info(`🔧 自动调整${label}价: ${triggerPrice.toFixed(6)} → ${adjusted.toFixed(6)} (${side}单，缓冲${(buffer * 100).toFixed(1)}%)`);
+    return adjusted;
+  }
+
+  /**
+   * 创建单向止损或止盈策略委托（触发后市价平仓）
+   */
+  private async createConditionalOrder(
+    instId: string,
+    type: 'stop_loss' | 'take_profit',
+    posSize: number,
+    triggerPrice: string
+  ): Promise<string> {
+    const info = await this.getContractInfo(instId);
+    const prefix = type === 'stop_loss' ? 'sl' : 'tp';
+    const data: OkxQuery = {
+      instId,
+      tdMode: this.marginMode,
+      side: posSize > 0 ? 'sell' : 'buy',
+      ordType: 'conditional',
+      sz: this.toContractSize(info, posSize),
+      reduceOnly: true,
+      [`${prefix}TriggerPx`]: triggerPrice,
+      [`${prefix}OrdPx`]: '-1', // -1 表示触发后市价委托
+      [`${prefix}TriggerPxType`]: 'mark',
+    };
+
+    const [result] = await this.privateRequest<OkxItemResult>('/api/v5/trade/order-algo', data, 'POST', 2);
+    const algoId = result.algoId || '';
+    this.algoOrderCache.set(algoId, instId);
+    return algoId;
+  }
+
+  /**
+   * 设置持仓的止损止盈价格
+   * OKX 使用独立的策略委托（conditional），止损和止盈各一个
+   */
+  async setPositionStopLoss(
+    contract: string,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<{
+    success: boolean;
+    stopLossOrderId?: string;
+    takeProfitOrderId?: string;
+    actualStopLoss?: number;
+    actualTakeProfit?: number;
+    message?: string;
+  }> {
+    try {
+      const instId = this.normalizeContract(contract);
+
+      const positions = await this.getPositions();
+      const position = positions.find(p => p.contract === instId);
+      if (!position || Math.abs(Number.parseFloat(position.size)) === 0) {
+        return {
+          success: false,
+          message: `未找到 ${instId} 的持仓`,
+        };
+      }
+
+      const posSize = Number.parseFloat(position.size);
+      const side = posSize > 0 ? 'long' : 'short';
+
+      // 先取消现有的止损止盈订单
+      await this.cancelPositionStopLoss(instId);
+
+      // 获取当前价格用于验证（需要markPrice进行精确校验）
+      const ticker = await this.getFuturesTicker(instId, 2, undefined, true);
+      const currentPrice = Number.parseFloat(ticker.markPrice || ticker.last || '0');
+      if (currentPrice <= 0) {
+        throw new Error(`无法获取 ${instId} 的当前价格`);
+      }
+
+      let stopLossOrderId: string | undefined;
+      let takeProfitOrderId: string | undefined;
+      // 实际生效的触发价（可能经过方向校验调整和价格步长取整）
+      let actualStopLoss = stopLoss;
+      let actualTakeProfit = takeProfit;
+
+      if (stopLoss !== undefined && stopLoss > 0) {
+        const adjustedStopLoss = this.adjustTriggerPrice(instId, 'stop_loss', side, stopLoss, currentPrice);
+        const formattedStopLoss = await this.formatPriceByTickSize(instId, adjustedStopLoss);
+        try {
+          stopLossOrderId = await this.createConditionalOrder(instId, 'stop_loss', posSize, formattedStopLoss);
+          actualStopLoss = Number.parseFloat(formattedStopLoss);
+          logger.info(`✅ ${instId} 止损单已创建: algoId=${stopLossOrderId}, 触发价=${formattedStopLoss}, 当前价=${currentPrice.toFixed(6)}`);
+        } catch (error) {
+          const errorMsg = (error as Error).message;
+          logger.error(`❌ 创建止损单失败: ${errorMsg}`);
+          return {
+            success: false,
+            message: `创建止损单失败: ${errorMsg}`,
+          };
+        }
+      }
+
+      if (takeProfit !== undefined && takeProfit > 0) {
+        const adjustedTakeProfit = this.adjustTriggerPrice(instId, 'take_profit', side, takeProfit, currentPrice);
+        const formattedTakeProfit = await this.formatPriceByTickSize(instId, adjustedTakeProfit);
+        try {
+          takeProfitOrderId = await this.createConditionalOrder(instId, 'take_profit', posSize, formattedTakeProfit);
+          actualTakeProfit = Number.parseFloat(formattedTakeProfit);
+          logger.info(`✅ ${instId} 止盈单已创建: algoId=${takeProfitOrderId}, 触发价=${formattedTakeProfit}, 当前价=${currentPrice.toFixed(6)}`);
+        } catch (error) {
+          const errorMsg = (error as Error).message;
+          logger.error(`❌ 创建止盈单失败: ${errorMsg}`);
+          // 如果止盈单失败但止损单成功，仍返回成功（止损更重要）
+          if (stopLossOrderId) {
+            return {
+              success: true,
+              stopLossOrderId,
+              actualStopLoss,
+              message: `止损单已创建，止盈单创建失败: ${errorMsg}`,
+            };
+          }
+          return {
+            success: false,
+            message: `创建止盈单失败: ${errorMsg}`,
+          };
+        }
+      }
+
+      this.cleanupCache();
+
+      return {
+        success: true,
+        stopLossOrderId,
+        takeProfitOrderId,
+        actualStopLoss,
+        actualTakeProfit,
+        message: `止损止盈已设置${actualStopLoss ? ` 止损=${actualStopLoss}` : ''}${actualTakeProfit ? ` 止盈=${actualTakeProfit}` : ''}`,
+      };
+    } catch (error) {
+      const errorMsg = (error as Error).message;
+      logger.error(`设置止损止盈失败: ${errorMsg}`);
+      return {
+        success: false,
+        message: `设置失败: ${errorMsg}`,
+      };
+    }
+  }
+
+  /**
+   * 取消持仓的止损止盈订单
+   */
+  async cancelPositionStopLoss(contract: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const instId = this.normalizeContract(contract);
+      const orders = await this.privateRequest<OkxAlgoOrder>('/api/v5/trade/orders-algo-pending', {
+        ordType: 'conditional',
+        instType: 'SWAP',
+        instId,
+      }, 'GET', 2);
+
+      if (orders.length === 0) {
+        logger.debug(`${instId} 没有活跃的条件单需要取消`);
+        return {
+          success: true,
+          message: `${instId} 没有活跃的条件单`,
+        };
+      }
+
+      const results = await this.privateRequest<OkxItemResult>(
+        '/api/v5/trade/cancel-algos',
+        orders.map((o) => ({ instId, algoId: o.algoId })),
+        'POST',
+        2
+      );
+      const failed = results.filter((r) => r.sCode && r.sCode !== '0').map((r) => r.algoId);
+      for (const order of orders) {
+        this.algoOrderCache.delete(order.algoId);
+      }
+
+      if (failed.length > 0) {
+        logger.warn(`⚠️ ${instId} 取消了 ${orders.length - failed.length}/${orders.length} 个条件单，失败: ${failed.join(', ')}`);
+        return {
+          success: false,
+          message: `部分成功: 取消 ${orders.length - failed.length}/${orders.length}，失败订单: ${failed.join(', ')}`,
+        };
+      }
+
+      logger.info(`✅ 已成功取消 ${instId} 的全部 ${orders.length} 个条件单`);
+      return {
+        success: true,
+        message: `已取消 ${instId} 的 ${orders.length} 个条件单`,
+      };
+    } catch (error) {
+      const errorMsg = (error as Error).message;
+      logger.error(`❌ 取消条件单过程异常: ${errorMsg}`);
+      return {
+        success: false,
+        message: `异常: ${errorMsg}`,
+      };
+    }
+  }
+
+  /**
+   * 取消单个条件单（策略委托，按 algoId 撤销）
+   */
+  async cancelPriceOrder(contract: string, orderId: string): Promise<PriceOrderCancelResult> {
+    const instId = this.normalizeContract(contract);
+    try {
+      await this.privateRequest('/api/v5/trade/cancel-algos', [{ instId, algoId: orderId }], 'POST', 2);
+      this.algoOrderCache.delete(orderId);
+      logger.info(`✅ 已取消条件单: algoId=${orderId}`);
+      return {
+        success: true,
+        message: `已取消 ${instId} 条件单 ${orderId}`,
+      };
+    } catch (error) {
+      const { code, message } = error as OkxApiError;
+      if (code && ORDER_GONE_CODES.has(code)) {
+        this.algoOrderCache.delete(orderId);
+        logger.debug(`条件单 ${orderId} 不存在或已触发`);
+        return {
+          success: false,
+          notFound: true,
+          message: `条件单 ${orderId} 不存在或已触发`,
+        };
+      }
+      logger.error(`❌ 取消条件单 ${orderId} 失败: ${message}`);
+      return {
+        success: false,
+        message: `取消失败: ${message}`,
+      };
+    }
+  }
+
+  /**
+   * 将 OKX 策略委托转换为统一的条件单格式
+   * 兼容 Gate.io 字段（trigger.rule: 1 = 价格 >= 触发价，2 = 价格 <= 触发价）和 Binance 字段（triggerPrice/type）
+   */
+  private toPriceOrder(order: OkxAlgoOrder, info: ContractInfo, status: string): PriceOrderInfo {
+    const isStopLoss = !!order.slTriggerPx;
+    const triggerPrice = isStopLoss ? order.slTriggerPx : order.tpTriggerPx;
+    // 平仓方向：sell = 平多，buy = 平空
+    const closeSize = this.toCoinQuantity(info, order.sz) * (order.side === 'sell' ? -1 : 1);
+    const isLong = order.side === 'sell';
+    // 多单止损/空单止盈向下触发(rule=2)，多单止盈/空单止损向上触发(rule=1)
+    const rule = isStopLoss === isLong ? 2 : 1;
+
+    return {
+      id: order.algoId,
+      algoId: order.algoId,
+      contract: order.instId,
+      type: isStopLoss ? 'STOP_MARKET' : 'TAKE_PROFIT_MARKET',
+      side: order.side.toUpperCase(),
+      status,
+      triggerPrice,
+      stopPrice: triggerPrice,
+      quantity: Math.abs(closeSize).toString(),
+      reduce_only: true,
+      create_time: Number.parseInt(order.cTime || '0'),
+      trigger: {
+        price: triggerPrice,
+        rule,
+      },
+      initial: {
+        contract: order.instId,
+        size: closeSize,
+        price: '0',
+        reduce_only: true,
+      },
+    };
+  }
+
+  /**
+   * 获取持仓的止损止盈订单状态
+   */
+  async getPositionStopLossOrders(contract: string): Promise<{
+    stopLossOrder?: PriceOrderInfo;
+    takeProfitOrder?: PriceOrderInfo;
+  }> {
+    try {
+      const orders = await this.getPriceOrders(contract);
+      return {
+        stopLossOrder: orders.find(o => o.type === 'STOP_MARKET'),
+        takeProfitOrder: orders.find(o => o.type === 'TAKE_PROFIT_MARKET'),
+      };
+    } catch (error) {
+      logger.debug(`${contract} 暂无止损止盈订单或查询失败: ${(error as Error).message}`);
+      return {
+        stopLossOrder: undefined,
+        takeProfitOrder: undefined,
+      };
+    }
+  }
+
+  /**
+   * 获取条件单列表
+   * @param contract 合约名称（可选）
+   * @param status 状态过滤（可选）：'open'=活跃（默认）, 'finished'=已触发
+   */
+  async getPriceOrders(contract?: string, status?: string): Promise<PriceOrderInfo[]> {
+    const params: OkxQuery = { ordType: 'conditional', instType: 'SWAP' };
+    if (contract) {
+      params.instId = this.normalizeContract(contract);
+    }
+
+    const finished = status === 'finished';
+    if (finished) {
+      params.state = 'effective';
+    }
+    const orders = await this.privateRequest<OkxAlgoOrder>(
+      finished ? '/api/v5/trade/orders-algo-history' : '/api/v5/trade/orders-algo-pending',
+      params,
+      'GET',
+      2
+    );
+
+    const result: PriceOrderInfo[] = [];
+    for (const order of orders) {
+      if (!finished) {
+        this.algoOrderCache.set(order.algoId, order.instId);
+      }
+      const info = await this.getContractInfo(order.instId);
+      result.push(this.toPriceOrder(order, info, finished ? 'finished' : 'open'));
+    }
+    return result;
+  }
+
+  /**
+   * 获取熔断器状态（检测是否因限流使用缓存数据）- 委托给统一限流管理器
+   */
+  getCircuitBreakerStatus(): {
+    isOpen: boolean;
+    reason?: string;
+    remainingSeconds?: number;
+  } {
+    const stats = this.rateLimitManager.getStats();
+    const now = Date.now();
+
+    if (stats.bannedUntil > now) {
+      return {
+        isOpen: true,
+        reason: 'IP封禁',
+        remainingSeconds: Math.ceil((stats.bannedUntil - now) / 1000),
+      };
+    }
+
+    if (stats.backoffUntil > now) {
+      return {
+        isOpen: true,
+        reason: '429全局退避',
+        remainingSeconds: Math.ceil((stats.backoffUntil - now) / 1000),
+      };
+    }
+
+    if (stats.isCircuitBreakerOpen) {
+      return {
+        isOpen: true,
+        reason: 'API限流熔断',
+        remainingSeconds: 60, // 估计值
+      };
+    }
+
+    return {
+      isOpen: false,
+    };
+  }
+}
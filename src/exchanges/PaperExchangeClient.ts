@@ -0,0 +1,788 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 模拟盘交易所客户端 - 真实行情 + 本地模拟账本
+ *
+ * 设计要点：
+ * - 行情数据（ticker、K线、订单簿、资金费率、合约信息）透传给 Gate.io / Binance 正式网公开接口
+ * - 订单、持仓、余额、止损止盈条件单保存在交易数据库的 paper_* 表中，重启后继续
+ * - 多账户运行时每个交易账户一本独立账本（按 account_id 区分）
+ * - 手续费始终使用 RISK_PARAMS.FEE_RATES 中的正式网费率（测试网费率与正式网不一致）
+ * - 每次查询账户/持仓/订单前按最新成交价撮合：限价单、止损、止盈和强平
+ * - 撮合、保证金和强平逻辑由 SimulatedExchange 实现（与回测共用），本类只负责时钟、持久化和行情
+ * - 只支持 USDT 本位正向合约，盈亏 = 数量 × 合约乘数 × 价差，不模拟资金费
+ */
+import { createClient } from "@libsql/client";
+import { createLogger } from "../utils/logger";
+import { RISK_PARAMS } from "../config/riskParams";
+import { DEFAULT_ACCOUNT_ID } from "../utils/accountContext";
+import { SimulatedExchange, type FeeProfile, type SimulatedOrder, type SimulatedPriceOrder } from "./SimulatedExchange";
+import type {
+  IExchangeClient,
+  ExchangeConfig,
+  TickerInfo,
+  CandleData,
+  AccountInfo,
+  PositionInfo,
+  OrderParams,
+  OrderResponse,
+  ContractInfo,
+  TradeRecord,
+  SettlementRecord,
+  PriceOrderCancelResult,
+} from "./IExchangeClient";
+
+const logger = createLogger({
+  name: "paper-exchange",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/**
+ * 撮合最小间隔（毫秒），避免每次查询都请求行情
+ */
+const MATCH_INTERVAL_MS = 1000;
+
+export class PaperExchangeClient implements IExchangeClient {
+  private readonly config: ExchangeConfig;
+  private readonly accountId: string;
+  private readonly marketData: IExchangeClient;
+  private readonly feeProfile: FeeProfile;
+  private readonly makerFeeRate: number;
+  private readonly takerFeeRate: number;
+  private readonly slippageRate: number;
+  private readonly defaultLeverage: number;
+  private readonly initialBalance: number;
+
+  // ============ 模拟账户状态（内存镜像，写穿到数据库） ============
+  private readonly ledger: SimulatedExchange;
+  private orderSeq = 0;
+
+  // ============ 待落库的变更 ============
+  private readonly dirtyPositions: Set<string> = new Set();
+  private readonly dirtyLeverages: Set<string> = new Set();
+  private readonly dirtyOrders: Set<string> = new Set();
+  private readonly dirtyPriceOrders: Set<string> = new Set();
+  private pendingTrades: TradeRecord[] = [];
+  private accountDirty = false;
+
+  private loadPromise: Promise<void> | null = null;
+  private matchPromise: Promise<void> | null = null;
+  private lastMatchTime = 0;
+
+  /**
+   * @param config 交易所配置（exchangeName = 'paper'）
+   * @param marketData 提供真实行情的交易所客户端（正式网）
+   */
+  constructor(config: ExchangeConfig, marketData: IExchangeClient) {
+    this.config = config;
+    this.accountId = config.accountId || DEFAULT_ACCOUNT_ID;
+    this.marketData = marketData;
+
+    const marketExchange = marketData.getExchangeName() === 'gate' ? 'gate' : 'binance';
+    const feeProfile = (process.env.PAPER_FEE_EXCHANGE || marketExchange).toLowerCase();
+    this.feeProfile = feeProfile === 'gate' ? 'gate' : 'binance';
+    const feeRates = RISK_PARAMS.FEE_RATES[this.feeProfile].mainnet;
+    this.makerFeeRate = feeRates.maker;
+    this.takerFeeRate = feeRates.taker;
+
+    this.slippageRate = Number.parseFloat(process.env.PAPER_SLIPPAGE_PERCENT || '0.02') / 100;
+    this.defaultLeverage = Number.parseInt(process.env.PAPER_DEFAULT_LEVERAGE || '10');
+    this.initialBalance = Number.parseFloat(process.env.PAPER_INITIAL_BALANCE || '1000');
+
+    this.ledger = new SimulatedExchange({
+      label: '模拟盘',
+      initialBalance: 0,
+      makerFeeRate: this.makerFeeRate,
+      takerFeeRate: this.takerFeeRate,
+      slippageRate: this.slippageRate,
+      maintenanceMarginRate: Number.parseFloat(process.env.PAPER_MAINTENANCE_MARGIN_RATE || '0.004'),
+      defaultLeverage: this.defaultLeverage,
+      now: () => Date.now(),
+      nextOrderId: () => this.nextOrderId(),
+      tradeId: orderId => `${orderId}-t`,
+      // 账本变更记录下来，在 flush() 中写入数据库
+      listener: {
+        onPositionChange: contract => this.dirtyPositions.add(contract),
+        onLeverageChange: contract => this.dirtyLeverages.add(contract),
+        onOrderChange: id => this.dirtyOrders.add(id),
+        onPriceOrderChange: id => this.dirtyPriceOrders.add(id),
+        onBalanceChange: () => {
+          this.accountDirty = true;
+        },
+        onTrade: trade => {
+          this.pendingTrades.push(trade);
+        },
+      },
+    });
+
+    logger.info(`模拟盘交易所初始化完成: 行情=${marketData.getExchangeName()} 正式网, 初始资金=${this.initialBalance} USDT, 费率参考=${this.feeProfile} (maker=${this.makerFeeRate}, taker=${this.takerFeeRate}), 滑点=${(this.slippageRate * 100).toFixed(3)}%`);
+  }
+
+  // ============ 模拟盘专用方法 ============
+
+  /**
+   * 手续费参考的交易所（FeeService 估算手续费时使用）
+   */
+  getFeeProfile(): FeeProfile {
+    return this.feeProfile;
+  }
+
+  /**
+   * 获取提供行情的交易所客户端
+   */
+  getMarketDataClient(): IExchangeClient {
+    return this.marketData;
+  }
+
+  /**
+   * 重置模拟账户：清空持仓、订单和成交记录，恢复初始资金
+   */
+  async resetAccount(initialBalance: number = this.initialBalance): Promise<void> {
+    await dbClient.batch([
+      ...["paper_positions", "paper_leverages", "paper_orders", "paper_price_orders", "paper_trades"].map(table => ({
+        sql: `DELETE FROM ${table} WHERE account_id = ?`,
+        args: [this.accountId],
+      })),
+      {
+        sql: `INSERT OR REPLACE INTO paper_account (account_id, initial_balance, wallet_balance, total_fees, updated_at)
+              VALUES (?, ?, ?, 0, ?)`,
+        args: [this.accountId, initialBalance, initialBalance, new Date().toISOString()],
+      },
+    ], "write");
+
+    this.ledger.reset(initialBalance);
+    this.dirtyPositions.clear();
+    this.dirtyLeverages.clear();
+    this.dirtyOrders.clear();
+    this.dirtyPriceOrders.clear();
+    this.pendingTrades = [];
+    this.accountDirty = false;
+    this.loadPromise = Promise.resolve();
+
+    logger.info(`🔄 模拟账户已重置，初始资金 ${initialBalance} USDT`);
+  }
+
+  /**
+   * 立即按最新价格撮合一次（忽略撮合间隔）
+   */
+  async matchNow(): Promise<void> {
+    this.lastMatchTime = 0;
+    await this.matchOrders();
+  }
+
+  // ============ 行情数据（透传真实交易所） ============
+
+  getExchangeName(): string {
+    return 'paper';
+  }
+
+  isTestnet(): boolean {
+    return false;
+  }
+
+  normalizeContract(symbol: string): string {
+    return this.marketData.normalizeContract(symbol);
+  }
+
+  extractSymbol(contract: string): string {
+    return this.marketData.extractSymbol(contract);
+  }
+
+  async getFuturesTicker(contract: string, retries?: number, cacheOptions?: { ttl?: number; skipCache?: boolean }, includeMarkPrice: boolean = false): Promise<TickerInfo> {
+    return this.marketData.getFuturesTicker(contract, retries, cacheOptions, includeMarkPrice);
+  }
+
+  async getFuturesCandles(
+    contract: string,
+    interval: string = '5m',
+    limit: number = 100,
+    retries?: number,
+    cacheOptions?: { ttl?: number; skipCache?: boolean }
+  ): Promise<CandleData[]> {
+    return this.marketData.getFuturesCandles(contract, interval, limit, retries, cacheOptions);
+  }
+
+  async getContractInfo(contract: string): Promise<ContractInfo> {
+    return this.marketData.getContractInfo(contract);
+  }
+
+  async getOrderBook(contract: string, limit?: number): Promise<any> {
+    return this.marketData.getOrderBook(contract, limit);
+  }
+
+  async getFundingRate(contract: string): Promise<any> {
+    return this.marketData.getFundingRate(contract);
+  }
+
+  async getAllContracts(): Promise<any[]> {
+    return this.marketData.getAllContracts();
+  }
+
+  getContractType(contract?: string): 'inverse' | 'linear' {
+    return this.marketData.getContractType(contract);
+  }
+
+  async calculateQuantity(
+    amountUsdt: number,
+    price: number,
+    leverage: number,
+    contract: string
+  ): Promise<number> {
+    return this.marketData.calculateQuantity(amountUsdt, price, leverage, contract);
+  }
+
+  async calculatePnl(
+    entryPrice: number,
+    exitPrice: number,
+    quantity: number,
+    side: 'long' | 'short',
+    contract: string
+  ): Promise<number> {
+    return this.marketData.calculatePnl(entryPrice, exitPrice, quantity, side, contract);
+  }
+
+  getCircuitBreakerStatus(): {
+    isOpen: boolean;
+    reason?: string;
+    remainingSeconds?: number;
+  } {
+    return this.marketData.getCircuitBreakerStatus();
+  }
+
+  // ============ 模拟账户 ============
+
+  async getFuturesAccount(): Promise<AccountInfo> {
+    await this.matchOrders();
+    const prices = await this.fetchPrices(this.ledger.positions.keys());
+    return this.ledger.getAccountInfo(contract => prices.get(contract));
+  }
+
+  async getPositions(): Promise<PositionInfo[]> {
+    await this.matchOrders();
+    const prices = await this.fetchPrices(this.ledger.positions.keys());
+    return this.ledger.getPositionInfos(contract => prices.get(contract));
+  }
+
+  async placeOrder(params: OrderParams): Promise<OrderResponse> {
+    await this.ensureLoaded();
+    const contract = this.normalizeContract(params.contract);
+    if (parseFloat(params.size.toFixed(8)) === 0) {
+      throw new Error('下单数量不能为0');
+    }
+
+    await this.ensureMultiplier(contract);
+    const currentPrice = (await this.fetchPrices([contract])).get(contract);
+    if (!currentPrice) {
+      throw new Error(`无法获取 ${contract} 的最新价格`);
+    }
+
+    // 下单保证金检查只按本合约最新价估算未实现盈亏（不为其他持仓请求行情）
+    const order = this.ledger.submitOrder({ ...params, contract }, currentPrice, c => (c === contract ? currentPrice : undefined));
+    await this.flush();
+
+    logger.info(`📝 [模拟盘] ${contract} ${order.size > 0 ? '买入' : '卖出'} ${Math.abs(order.size)} @ ${order.price === 0 ? '市价' : order.price}, 状态=${order.status}${order.status === 'finished' ? `, 成交价=${order.fillPrice}` : ''}`);
+    return this.ledger.toOrderResponse(order);
+  }
+
+  async getOrder(orderId: string): Promise<OrderResponse> {
+    await this.matchOrders();
+    const order = this.ledger.orders.get(orderId);
+    if (order) {
+      return this.ledger.toOrderResponse(order);
+    }
+
+    const result = await dbClient.execute({
+      sql: "SELECT * FROM paper_orders WHERE account_id = ? AND id = ?",
+      args: [this.accountId, orderId],
+    });
+    if (result.rows.length === 0) {
+      throw new Error(`订单 ${orderId} 不存在`);
+    }
+    return this.ledger.toOrderResponse(this.rowToOrder(result.rows[0]));
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    await this.ensureLoaded();
+    this.ledger.cancelOrder(orderId);
+    await this.flush();
+  }
+
+  async getOpenOrders(contract?: string): Promise<OrderResponse[]> {
+    await this.matchOrders();
+    const normalized = contract ? this.normalizeContract(contract) : undefined;
+    return Array.from(this.ledger.orders.values())
+      .filter(o => o.status === 'open' && (!normalized || o.contract === normalized))
+      .map(o => this.ledger.toOrderResponse(o));
+  }
+
+  async setLeverage(contract: string, leverage: number): Promise<void> {
+    await this.ensureLoaded();
+    const normalized = this.normalizeContract(contract);
+    this.ledger.setLeverage(normalized, leverage);
+    await this.flush();
+    logger.debug(`已设置 ${normalized} 杠杆为 ${leverage}x`);
+  }
+
+  async cancelAllOrders(contract?: string): Promise<any> {
+    await this.ensureLoaded();
+    const cancelled = this.ledger.cancelAllOrders(contract ? this.normalizeContract(contract) : undefined);
+    await this.flush();
+    return cancelled;
+  }
+
+  async getMyTrades(contract?: string, limit: number = 100, startTime?: number): Promise<TradeRecord[]> {
+    await this.matchOrders();
+    const conditions: string[] = ["account_id = ?"];
+    const args: any[] = [this.accountId];
+    if (contract) {
+      conditions.push("contract = ?");
+      args.push(this.normalizeContract(contract));
+    }
+    if (startTime) {
+      conditions.push("timestamp >= ?");
+      args.push(startTime);
+    }
+    args.push(limit);
+
+    const result = await dbClient.execute({
+      sql: `SELECT * FROM paper_trades
+            WHERE ${conditions.join(" AND ")}
+            ORDER BY timestamp DESC LIMIT ?`,
+      args,
+    });
+
+    return result.rows.reverse().map(row => ({
+      id: String(row.id),
+      contract: String(row.contract),
+      create_time: Number(row.timestamp),
+      order_id: String(row.order_id),
+      size: Number(row.size),
+      price: String(row.price),
+      role: String(row.role),
+      fee: String(row.fee),
+      timestamp: Number(row.timestamp),
+      realised_pnl: String(row.realised_pnl),
+      trigger_order_id: row.trigger_order_id ? String(row.trigger_order_id) : undefined,
+    }));
+  }
+
+  async getPositionHistory(contract?: string, limit?: number, offset?: number): Promise<any[]> {
+    return [];
+  }
+
+  async getSettlementHistory(contract?: string, limit?: number, offset?: number): Promise<SettlementRecord[]> {
+    return [];
+  }
+
+  async getOrderHistory(contract?: string, limit: number = 100): Promise<any[]> {
+    await this.matchOrders();
+    const result = await dbClient.execute({
+      sql: `SELECT * FROM paper_orders
+            WHERE account_id = ? AND status != 'open' ${contract ? "AND contract = ?" : ""}
+            ORDER BY create_time DESC LIMIT ?`,
+      args: contract ? [this.accountId, this.normalizeContract(contract), limit] : [this.accountId, limit],
+    });
+    return result.rows.map(row => this.ledger.toOrderResponse(this.rowToOrder(row)));
+  }
+
+  async setPositionStopLoss(
+    contract: string,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<{
+    success: boolean;
+    stopLossOrderId?: string;
+    takeProfitOrderId?: string;
+    actualStopLoss?: number;
+    actualTakeProfit?: number;
+    message?: string;
+  }> {
+    await this.ensureLoaded();
+    const normalized = this.normalizeContract(contract);
+    if (!this.ledger.positions.has(normalized)) {
+      return {
+        success: false,
+        message: `未找到 ${normalized} 的持仓`
+      };
+    }
+
+    const currentPrice = (await this.fetchPrices([normalized])).get(normalized);
+    if (!currentPrice) {
+      return {
+        success: false,
+        message: `无法获取 ${normalized} 的最新价格`
+      };
+    }
+
+    const result = this.ledger.setPositionStopLoss(normalized, currentPrice, stopLoss, takeProfit);
+    await this.flush();
+    return result;
+  }
+
+  async cancelPositionStopLoss(contract: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    await this.ensureLoaded();
+    const normalized = this.normalizeContract(contract);
+    const count = this.ledger.cancelPriceOrdersOf(normalized);
+    await this.flush();
+    return {
+      success: true,
+      message: `已取消 ${normalized} 的 ${count} 个条件单`
+    };
+  }
+
+  async cancelPriceOrder(contract: string, orderId: string): Promise<PriceOrderCancelResult> {
+    // 先撮合，已触发的条件单不能再被取消
+    await this.matchOrders();
+    const normalized = this.normalizeContract(contract);
+    if (!this.ledger.cancelPriceOrder(normalized, orderId)) {
+      return {
+        success: false,
+        notFound: true,
+        message: `条件单 ${orderId} 不存在或已触发`
+      };
+    }
+    await this.flush();
+    return {
+      success: true,
+      message: `已取消 ${normalized} 条件单 ${orderId}`
+    };
+  }
+
+  async getPositionStopLossOrders(contract: string): Promise<{
+    stopLossOrder?: any;
+    takeProfitOrder?: any;
+  }> {
+    await this.matchOrders();
+    const { stopLoss, takeProfit } = this.ledger.getActivePriceOrders(this.normalizeContract(contract));
+    return {
+      stopLossOrder: stopLoss ? this.ledger.toPriceOrderResponse(stopLoss) : undefined,
+      takeProfitOrder: takeProfit ? this.ledger.toPriceOrderResponse(takeProfit) : undefined,
+    };
+  }
+
+  async getPriceOrders(contract?: string, status?: string): Promise<any[]> {
+    await this.matchOrders();
+    const normalized = contract ? this.normalizeContract(contract) : undefined;
+    const wanted = status || 'open';
+
+    if (wanted === 'open') {
+      return Array.from(this.ledger.priceOrders.values())
+        .filter(o => (!normalized || o.contract === normalized) && o.status === 'open')
+        .map(o => this.ledger.toPriceOrderResponse(o));
+    }
+
+    // 已结束的条件单从数据库读取（内存中只保留活跃条件单）
+    const result = await dbClient.execute({
+      sql: `SELECT * FROM paper_price_orders
+            WHERE account_id = ? AND status = ? ${normalized ? "AND contract = ?" : ""}
+            ORDER BY create_time DESC LIMIT 100`,
+      args: normalized ? [this.accountId, wanted, normalized] : [this.accountId, wanted],
+    });
+    return result.rows.map(row => this.ledger.toPriceOrderResponse(this.rowToPriceOrder(row)));
+  }
+
+  // ============ 账本加载与持久化 ============
+
+  /**
+   * 首次使用时从数据库加载账本
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadState().catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async loadState(): Promise<void> {
+    const accountResult = await dbClient.execute({
+      sql: "SELECT * FROM paper_account WHERE account_id = ?",
+      args: [this.accountId],
+    });
+    if (accountResult.rows.length === 0) {
+      await dbClient.execute({
+        sql: `INSERT INTO paper_account (account_id, initial_balance, wallet_balance, total_fees, updated_at)
+              VALUES (?, ?, ?, 0, ?)`,
+        args: [this.accountId, this.initialBalance, this.initialBalance, new Date().toISOString()],
+      });
+      this.ledger.walletBalance = this.initialBalance;
+      this.ledger.totalFees = 0;
+      logger.info(`🆕 [${this.accountId}] 创建模拟账户，初始资金 ${this.initialBalance} USDT`);
+    } else {
+      const row = accountResult.rows[0];
+      this.ledger.walletBalance = Number(row.wallet_balance);
+      this.ledger.totalFees = Number(row.total_fees);
+    }
+
+    const positionResult = await dbClient.execute({
+      sql: "SELECT * FROM paper_positions WHERE account_id = ?",
+      args: [this.accountId],
+    });
+    for (const row of positionResult.rows) {
+      this.ledger.positions.set(String(row.contract), {
+        contract: String(row.contract),
+        size: Number(row.size),
+        entryPrice: Number(row.entry_price),
+        leverage: Number(row.leverage),
+        realisedPnl: Number(row.realised_pnl),
+      });
+    }
+
+    const leverageResult = await dbClient.execute({
+      sql: "SELECT * FROM paper_leverages WHERE account_id = ?",
+      args: [this.accountId],
+    });
+    for (const row of leverageResult.rows) {
+      this.ledger.leverages.set(String(row.contract), Number(row.leverage));
+    }
+
+    const orderResult = await dbClient.execute({
+      sql: "SELECT * FROM paper_orders WHERE account_id = ? AND status = 'open'",
+      args: [this.accountId],
+    });
+    for (const row of orderResult.rows) {
+      const order = this.rowToOrder(row);
+      this.ledger.orders.set(order.id, order);
+    }
+
+    const priceOrderResult = await dbClient.execute({
+      sql: "SELECT * FROM paper_price_orders WHERE account_id = ? AND status = 'open'",
+      args: [this.accountId],
+    });
+    for (const row of priceOrderResult.rows) {
+      const priceOrder = this.rowToPriceOrder(row);
+      this.ledger.priceOrders.set(priceOrder.id, priceOrder);
+    }
+
+    const { positions, orders, priceOrders } = this.ledger;
+    const contracts = new Set([...positions.keys(), ...Array.from(orders.values()).map(o => o.contract)]);
+    for (const contract of contracts) {
+      await this.ensureMultiplier(contract);
+    }
+
+    logger.info(`📂 [${this.accountId}] 已加载模拟账户: 余额=${this.ledger.walletBalance.toFixed(2)} USDT, 持仓=${positions.size}, 挂单=${orders.size}, 条件单=${priceOrders.size}`);
+  }
+
+  /**
+   * 将内存中的变更写入数据库（同一事务）
+   */
+  private async flush(): Promise<void> {
+    const statements: Array<{ sql: string; args: any[] }> = [];
+    const now = new Date().toISOString();
+
+    const { positions, leverages, orders, priceOrders } = this.ledger;
+
+    for (const contract of this.dirtyPositions) {
+      const pos = positions.get(contract);
+      statements.push(pos
+        ? {
+            sql: `INSERT OR REPLACE INTO paper_positions (account_id, contract, size, entry_price, leverage, realised_pnl, updated_at)
+                  VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            args: [this.accountId, pos.contract, pos.size, pos.entryPrice, pos.leverage, pos.realisedPnl, now],
+          }
+        : { sql: "DELETE FROM paper_positions WHERE account_id = ? AND contract = ?", args: [this.accountId, contract] });
+    }
+
+    for (const contract of this.dirtyLeverages) {
+      statements.push({
+        sql: "INSERT OR REPLACE INTO paper_leverages (account_id, contract, leverage) VALUES (?, ?, ?)",
+        args: [this.accountId, contract, leverages.get(contract) ?? this.defaultLeverage],
+      });
+    }
+
+    for (const id of this.dirtyOrders) {
+      const order = orders.get(id);
+      if (!order) continue;
+      statements.push({
+        sql: `INSERT OR REPLACE INTO paper_orders
+              (account_id, id, contract, size, price, status, reduce_only, tif, fill_price, left_size, create_time, finish_time)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          this.accountId, order.id, order.contract, order.size, order.price, order.status, order.reduceOnly ? 1 : 0,
+          order.tif, order.fillPrice, order.left, order.createTime, order.finishTime ?? null,
+        ],
+      });
+      // 已结束的订单只保留在数据库中
+      if (order.status !== 'open') {
+        orders.delete(id);
+      }
+    }
+
+    for (const id of this.dirtyPriceOrders) {
+      const priceOrder = priceOrders.get(id);
+      if (!priceOrder) continue;
+      statements.push({
+        sql: `INSERT OR REPLACE INTO paper_price_orders
+              (account_id, id, contract, type, trigger_price, rule, status, create_time, finish_time)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          this.accountId, priceOrder.id, priceOrder.contract, priceOrder.type, priceOrder.triggerPrice, priceOrder.rule,
+          priceOrder.status, priceOrder.createTime, priceOrder.finishTime ?? null,
+        ],
+      });
+      if (priceOrder.status !== 'open') {
+        priceOrders.delete(id);
+      }
+    }
+
+    for (const trade of this.pendingTrades) {
+      statements.push({
+        sql: `INSERT INTO paper_trades
+              (account_id, id, contract, order_id, size, price, role, fee, realised_pnl, trigger_order_id, timestamp)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          this.accountId, trade.id, trade.contract, trade.order_id ?? null, Number(trade.size), Number.parseFloat(trade.price),
+          trade.role ?? 'taker', Number.parseFloat(trade.fee || '0'), Number.parseFloat(trade.realised_pnl || '0'),
+          trade.trigger_order_id ?? null, trade.timestamp,
+        ],
+      });
+    }
+
+    if (this.accountDirty) {
+      statements.push({
+        sql: "UPDATE paper_account SET wallet_balance = ?, total_fees = ?, updated_at = ? WHERE account_id = ?",
+        args: [this.ledger.walletBalance, this.ledger.totalFees, now, this.accountId],
+      });
+    }
+
+    this.dirtyPositions.clear();
+    this.dirtyLeverages.clear();
+    this.dirtyOrders.clear();
+    this.dirtyPriceOrders.clear();
+    this.pendingTrades = [];
+    this.accountDirty = false;
+
+    if (statements.length > 0) {
+      await dbClient.batch(statements, "write");
+    }
+  }
+
+  // ============ 撮合逻辑 ============
+
+  /**
+   * 按最新价格撮合挂单、条件单和强平（并发调用会合并为一次）
+   */
+  private async matchOrders(): Promise<void> {
+    await this.ensureLoaded();
+    if (this.matchPromise) {
+      return this.matchPromise;
+    }
+    if (Date.now() - this.lastMatchTime < MATCH_INTERVAL_MS) {
+      return;
+    }
+
+    const contracts = new Set<string>([
+      ...this.ledger.positions.keys(),
+      ...Array.from(this.ledger.orders.values()).filter(o => o.status === 'open').map(o => o.contract),
+    ]);
+    if (contracts.size === 0) {
+      // 在创建撮合任务之前返回：同步结束的任务会先执行 finally 再赋值，导致 matchPromise 无法清除
+      this.lastMatchTime = Date.now();
+      return;
+    }
+
+    this.matchPromise = (async () => {
+      try {
+        const prices = await this.fetchPrices(contracts);
+        for (const [contract, price] of prices) {
+          this.ledger.matchBar(contract, { open: price, high: price, low: price });
+        }
+        await this.flush();
+      } finally {
+        this.lastMatchTime = Date.now();
+        this.matchPromise = null;
+      }
+    })();
+
+    return this.matchPromise;
+  }
+
+  /**
+   * 批量获取最新成交价（单个合约失败时跳过，不影响其他合约）
+   */
+  private async fetchPrices(contracts: Iterable<string>): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    for (const contract of contracts) {
+      try {
+        const ticker = await this.marketData.getFuturesTicker(contract);
+        const price = Number.parseFloat(ticker.last || "0");
+        if (price > 0) {
+          prices.set(contract, price);
+        }
+      } catch (error: any) {
+        logger.warn(`获取 ${contract} 最新价格失败: ${error.message}`);
+      }
+    }
+    return prices;
+  }
+
+  /**
+   * 缓存合约乘数（Gate.io 按张计量，Binance 乘数为1）
+   */
+  private async ensureMultiplier(contract: string): Promise<void> {
+    if (this.ledger.multipliers.has(contract)) {
+      return;
+    }
+    const info = await this.marketData.getContractInfo(contract);
+    const multiplier = Number.parseFloat(info.quantoMultiplier || "1");
+    this.ledger.multipliers.set(contract, multiplier > 0 ? multiplier : 1);
+  }
+
+  private nextOrderId(): string {
+    return `paper-${Date.now().toString(36)}-${++this.orderSeq}`;
+  }
+
+  private rowToOrder(row: any): SimulatedOrder {
+    return {
+      id: String(row.id),
+      contract: String(row.contract),
+      size: Number(row.size),
+      price: Number(row.price),
+      status: row.status as SimulatedOrder['status'],
+      reduceOnly: Number(row.reduce_only) === 1,
+      tif: String(row.tif),
+      createTime: Number(row.create_time),
+      finishTime: row.finish_time != null ? Number(row.finish_time) : undefined,
+      fillPrice: Number(row.fill_price),
+      left: Number(row.left_size),
+    };
+  }
+
+  private rowToPriceOrder(row: any): SimulatedPriceOrder {
+    return {
+      id: String(row.id),
+      contract: String(row.contract),
+      type: row.type as SimulatedPriceOrder['type'],
+      triggerPrice: Number(row.trigger_price),
+      rule: Number(row.rule) === 1 ? 1 : 2,
+      status: row.status as SimulatedPriceOrder['status'],
+      createTime: Number(row.create_time),
+      finishTime: row.finish_time != null ? Number(row.finish_time) : undefined,
+    };
+  }
+}
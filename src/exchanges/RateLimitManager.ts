@@ -30,6 +30,7 @@
  */
 
 import { createLogger } from "../utils/logger";
+import { AlertLevel, notify } from "../notifications";
 
 const logger = createLogger({
   name: "rate-limit-manager",
@@ -160,6 +161,12 @@ export class RateLimitManager {
       logger.info(`[${this.exchangeName}] 🔄 熔断器恢复，尝试重新连接`);
       this.consecutiveFailures = 0;
       this.circuitBreakerOpenUntil = 0;
+      notify({
+        event: 'circuit_breaker',
+        level: AlertLevel.INFO,
+        title: `${this.exchangeName} API熔断恢复`,
+        message: '熔断时间已过，恢复请求交易所API',
+      });
     }
     
     return { block: false };
@@ -236,6 +243,13 @@ export class RateLimitManager {
     
     logger.error(`[${this.exchangeName}] 🚨 IP被封禁！封禁时长: ${Math.ceil(duration / 1000)}秒`);
     logger.error(`[${this.exchangeName}] ⏰ 系统将使用缓存数据，封禁解除后自动恢复`);
+    notify({
+      event: 'circuit_breaker',
+      level: AlertLevel.CRITICAL,
+      title: `${this.exchangeName} IP被封禁`,
+      message: `交易所返回418，所有API请求暂停 ${Math.ceil(duration / 1000)} 秒，期间使用缓存数据`,
+      details: { bannedUntil: new Date(this.ipBannedUntil).toISOString() },
+    });
     
     // 打印封禁前的API请求统计
     this.logRequestStats(true);
@@ -257,11 +271,21 @@ export class RateLimitManager {
   recordFailure(): void {
     this.consecutiveFailures++;
     if (this.consecutiveFailures >= this.circuitBreakerThreshold) {
+      const wasOpen = this.circuitBreakerOpenUntil > Date.now();
       this.circuitBreakerOpenUntil = Date.now() + this.circuitBreakerTimeout;
       logger.error(
         `[${this.exchangeName}] 🚨 连续失败${this.consecutiveFailures}次，触发熔断器，` +
         `${this.circuitBreakerTimeout / 1000}秒内使用缓存数据`
       );
+      if (!wasOpen) {
+        notify({
+          event: 'circuit_breaker',
+          level: AlertLevel.ERROR,
+          title: `${this.exchangeName} API熔断`,
+          message: `交易所API连续失败 ${this.consecutiveFailures} 次，${this.circuitBreakerTimeout / 1000} 秒内暂停请求并使用缓存数据`,
+          details: { consecutiveFailures: this.consecutiveFailures, openUntil: new Date(this.circuitBreakerOpenUntil).toISOString() },
+        });
+      }
     }
   }
 
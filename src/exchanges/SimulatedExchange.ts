@@ -0,0 +1,737 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 模拟交易所撮合引擎 - 模拟盘和回测共用的订单撮合、保证金和强平逻辑
+ *
+ * 设计要点：
+ * - 只维护内存中的账本（余额、持仓、杠杆、订单、条件单），时钟、持久化和行情由使用方提供
+ * - 市价单按当前价格 + 滑点以 Taker 成交；可立即成交的限价单按当前价格吃单，
+ *   poc（只做 Maker）会立即成交时撤销，ioc/fok 无法立即成交时撤销，其余挂单等待撮合
+ * - 挂单在价格区间（K线最高/最低价，或单个最新价）穿越限价时按限价以 Maker 成交
+ * - 不利方向优先：先检测止损和强平（价格先到达哪个就先触发哪个），再检测止盈；
+ *   跳空时条件单按开盘价成交并计入滑点，强平按强平价成交
+ * - 逐仓强平价 = 开仓价 × (1 ∓ 1/杠杆 ± 维持保证金率)
+ * - 只支持 USDT 本位正向合约，盈亏 = 数量 × 合约乘数 × 价差
+ * - 账本变更通过 listener 通知使用方（模拟盘据此写入数据库）
+ */
+import { createLogger } from "../utils/logger";
+import type { AccountInfo, OrderResponse, PositionInfo, TradeRecord } from "./IExchangeClient";
+
+const logger = createLogger({
+  name: "simulated-exchange",
+  level: "info",
+});
+
+/**
+ * 手续费参考的交易所
+ */
+export type FeeProfile = 'binance' | 'gate';
+
+/**
+ * 模拟持仓
+ */
+export interface SimulatedPosition {
+  contract: string;
+  size: number;          // 正数=多头，负数=空头
+  entryPrice: number;
+  leverage: number;
+  realisedPnl: number;
+}
+
+/**
+ * 模拟普通订单
+ */
+export interface SimulatedOrder {
+  id: string;
+  contract: string;
+  size: number;
+  price: number;         // 0 = 市价单
+  status: 'open' | 'finished' | 'cancelled';
+  reduceOnly: boolean;
+  tif: string;
+  createTime: number;
+  finishTime?: number;
+  fillPrice: number;
+  left: number;
+}
+
+/**
+ * 模拟条件单（止损/止盈）
+ */
+export interface SimulatedPriceOrder {
+  id: string;
+  contract: string;
+  type: 'stop_loss' | 'take_profit';
+  triggerPrice: number;
+  rule: 1 | 2;           // 与 Gate.io 保持一致：1 = 价格 >= 触发价，2 = 价格 <= 触发价
+  status: 'open' | 'finished' | 'cancelled';
+  createTime: number;
+  finishTime?: number;
+}
+
+/**
+ * 一段时间内的价格区间（模拟盘为单个最新价，回测为一根K线）
+ */
+export interface PriceBar {
+  open: number;
+  high: number;
+  low: number;
+}
+
+/**
+ * 按合约查询标记价格，无价格时按开仓价计算（未实现盈亏为 0）
+ */
+export type PriceLookup = (contract: string) => number | undefined;
+
+/**
+ * 账本变更通知
+ */
+export interface SimulatedExchangeListener {
+  onPositionChange?(contract: string): void;
+  onLeverageChange?(contract: string): void;
+  onOrderChange?(orderId: string): void;
+  onPriceOrderChange?(orderId: string): void;
+  onBalanceChange?(): void;
+  onTrade?(trade: TradeRecord): void;
+}
+
+export interface SimulatedExchangeOptions {
+  label: string;                 // 日志前缀（模拟盘/回测）
+  initialBalance: number;
+  makerFeeRate: number;
+  takerFeeRate: number;
+  slippageRate: number;
+  maintenanceMarginRate: number;
+  defaultLeverage: number;
+  now: () => number;             // 模拟时钟
+  nextOrderId: () => string;
+  tradeId: (orderId: string) => string;
+  listener?: SimulatedExchangeListener;
+}
+
+export interface StopLossResult {
+  success: boolean;
+  stopLossOrderId?: string;
+  takeProfitOrderId?: string;
+  actualStopLoss?: number;
+  actualTakeProfit?: number;
+  message?: string;
+}
+
+export class SimulatedExchange {
+  private readonly options: SimulatedExchangeOptions;
+  private readonly listener: SimulatedExchangeListener;
+
+  // ============ 账本状态 ============
+  walletBalance: number;
+  totalFees = 0;
+  liquidationCount = 0;
+  readonly positions: Map<string, SimulatedPosition> = new Map();
+  readonly leverages: Map<string, number> = new Map();
+  readonly orders: Map<string, SimulatedOrder> = new Map();
+  readonly priceOrders: Map<string, SimulatedPriceOrder> = new Map();
+  readonly multipliers: Map<string, number> = new Map();
+
+  constructor(options: SimulatedExchangeOptions) {
+    this.options = options;
+    this.listener = options.listener ?? {};
+    this.walletBalance = options.initialBalance;
+  }
+
+  /**
+   * 清空持仓、订单和条件单，恢复指定资金
+   */
+  reset(initialBalance: number): void {
+    this.positions.clear();
+    this.leverages.clear();
+    this.orders.clear();
+    this.priceOrders.clear();
+    this.walletBalance = initialBalance;
+    this.totalFees = 0;
+    this.liquidationCount = 0;
+  }
+
+  getMultiplier(contract: string): number {
+    return this.multipliers.get(contract) ?? 1;
+  }
+
+  getLeverage(contract: string): number {
+    return this.leverages.get(contract) || this.options.defaultLeverage;
+  }
+
+  setLeverage(contract: string, leverage: number): void {
+    this.leverages.set(contract, leverage);
+    this.listener.onLeverageChange?.(contract);
+  }
+
+  // ============ 下单与撤单 ============
+
+  /**
+   * 提交订单：市价单和可立即成交的限价单立即成交，其余挂单
+   *
+   * @param currentPrice 合约最新价格
+   * @param markPrice 开仓保证金检查时估算未实现盈亏使用的价格
+   */
+  submitOrder(
+    params: { contract: string; size: number; price?: number; reduceOnly?: boolean; tif?: string },
+    currentPrice: number,
+    markPrice: PriceLookup,
+  ): SimulatedOrder {
+    const { contract } = params;
+    const size = Number.parseFloat(params.size.toFixed(8));
+    if (size === 0) {
+      throw new Error('下单数量不能为0');
+    }
+
+    const now = this.options.now();
+    const order: SimulatedOrder = {
+      id: this.options.nextOrderId(),
+      contract,
+      size,
+      price: params.price || 0,
+      status: 'open',
+      reduceOnly: params.reduceOnly || false,
+      tif: params.tif || 'gtc',
+      createTime: now,
+      fillPrice: 0,
+      left: Math.abs(size),
+    };
+
+    const fillSize = this.resolveFillSize(order);
+    if (fillSize === 0) {
+      throw new Error(`${contract} 只减仓订单无可减持仓`);
+    }
+
+    if (order.price === 0) {
+      // 市价单：最新价格 + 滑点，Taker 成交
+      const fillPrice = size > 0
+        ? currentPrice * (1 + this.options.slippageRate)
+        : currentPrice * (1 - this.options.slippageRate);
+      this.ensureMargin(contract, fillSize, fillPrice, markPrice);
+      this.fillOrder(order, fillSize, fillPrice, 'taker');
+    } else {
+      const marketable = size > 0 ? order.price >= currentPrice : order.price <= currentPrice;
+      if (marketable && order.tif === 'poc') {
+        // 只做 Maker 的限价单会立即成交时直接撤销（与 Gate.io poc 一致）
+        order.status = 'cancelled';
+        order.finishTime = now;
+      } else if (marketable) {
+        // 可立即成交的限价单按最新价格吃单
+        this.ensureMargin(contract, fillSize, currentPrice, markPrice);
+        this.fillOrder(order, fillSize, currentPrice, 'taker');
+      } else if (order.tif === 'ioc' || order.tif === 'fok') {
+        order.status = 'cancelled';
+        order.finishTime = now;
+      } else {
+        this.ensureMargin(contract, fillSize, order.price, markPrice);
+      }
+    }
+
+    this.orders.set(order.id, order);
+    this.listener.onOrderChange?.(order.id);
+    return order;
+  }
+
+  /**
+   * 撤销挂单或条件单（已结束的订单不做处理）
+   */
+  cancelOrder(orderId: string): void {
+    const order = this.orders.get(orderId);
+    if (order) {
+      if (order.status === 'open') {
+        order.status = 'cancelled';
+        order.finishTime = this.options.now();
+        this.listener.onOrderChange?.(order.id);
+      }
+      return;
+    }
+
+    const priceOrder = this.priceOrders.get(orderId);
+    if (!priceOrder) {
+      throw new Error(`订单 ${orderId} 不存在`);
+    }
+    if (priceOrder.status === 'open') {
+      priceOrder.status = 'cancelled';
+      priceOrder.finishTime = this.options.now();
+      this.listener.onPriceOrderChange?.(priceOrder.id);
+    }
+  }
+
+  /**
+   * 撤销全部挂单（可指定合约），返回撤销的订单ID
+   */
+  cancelAllOrders(contract?: string): string[] {
+    const cancelled: string[] = [];
+    for (const order of this.orders.values()) {
+      if (order.status === 'open' && (!contract || order.contract === contract)) {
+        order.status = 'cancelled';
+        order.finishTime = this.options.now();
+        this.listener.onOrderChange?.(order.id);
+        cancelled.push(order.id);
+      }
+    }
+    return cancelled;
+  }
+
+  // ============ 条件单 ============
+
+  /**
+   * 为持仓设置止损/止盈条件单（替换已有条件单），触发价已被穿越时拒绝
+   */
+  setPositionStopLoss(contract: string, currentPrice: number, stopLoss?: number, takeProfit?: number): StopLossResult {
+    const position = this.positions.get(contract);
+    if (!position) {
+      return {
+        success: false,
+        message: `未找到 ${contract} 的持仓`
+      };
+    }
+
+    const isLong = position.size > 0;
+    if (stopLoss !== undefined && stopLoss > 0) {
+      if ((isLong && stopLoss >= currentPrice) || (!isLong && stopLoss <= currentPrice)) {
+        return {
+          success: false,
+          message: `止损价 ${stopLoss} 已越过当前价格 ${currentPrice}`
+        };
+      }
+    }
+    if (takeProfit !== undefined && takeProfit > 0) {
+      if ((isLong && takeProfit <= currentPrice) || (!isLong && takeProfit >= currentPrice)) {
+        return {
+          success: false,
+          message: `止盈价 ${takeProfit} 已越过当前价格 ${currentPrice}`
+        };
+      }
+    }
+
+    this.cancelPriceOrdersOf(contract);
+
+    const stopLossOrderId = stopLoss !== undefined && stopLoss > 0
+      ? this.addPriceOrder(contract, 'stop_loss', stopLoss, isLong ? 2 : 1)
+      : undefined;
+    const takeProfitOrderId = takeProfit !== undefined && takeProfit > 0
+      ? this.addPriceOrder(contract, 'take_profit', takeProfit, isLong ? 1 : 2)
+      : undefined;
+
+    return {
+      success: true,
+      stopLossOrderId,
+      takeProfitOrderId,
+      actualStopLoss: stopLoss,
+      actualTakeProfit: takeProfit,
+    };
+  }
+
+  /**
+   * 取消单个活跃条件单，条件单不存在或已触发时返回 false
+   */
+  cancelPriceOrder(contract: string, orderId: string): boolean {
+    const priceOrder = this.priceOrders.get(orderId);
+    if (!priceOrder || priceOrder.contract !== contract || priceOrder.status !== 'open') {
+      return false;
+    }
+    priceOrder.status = 'cancelled';
+    priceOrder.finishTime = this.options.now();
+    this.listener.onPriceOrderChange?.(priceOrder.id);
+    return true;
+  }
+
+  /**
+   * 取消合约的全部活跃条件单，返回取消数量
+   */
+  cancelPriceOrdersOf(contract: string): number {
+    let count = 0;
+    for (const priceOrder of this.priceOrders.values()) {
+      if (priceOrder.contract === contract && priceOrder.status === 'open') {
+        priceOrder.status = 'cancelled';
+        priceOrder.finishTime = this.options.now();
+        this.listener.onPriceOrderChange?.(priceOrder.id);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 合约当前的止损/止盈条件单
+   */
+  getActivePriceOrders(contract: string): { stopLoss?: SimulatedPriceOrder; takeProfit?: SimulatedPriceOrder } {
+    const active = Array.from(this.priceOrders.values())
+      .filter(o => o.contract === contract && o.status === 'open');
+    return {
+      stopLoss: active.find(o => o.type === 'stop_loss'),
+      takeProfit: active.find(o => o.type === 'take_profit'),
+    };
+  }
+
+  private addPriceOrder(contract: string, type: SimulatedPriceOrder['type'], triggerPrice: number, rule: 1 | 2): string {
+    const id = this.options.nextOrderId();
+    this.priceOrders.set(id, {
+      id,
+      contract,
+      type,
+      triggerPrice,
+      rule,
+      status: 'open',
+      createTime: this.options.now(),
+    });
+    this.listener.onPriceOrderChange?.(id);
+    return id;
+  }
+
+  // ============ 撮合 ============
+
+  /**
+   * 按一段价格区间撮合单个合约：限价单 → 止损/强平 → 止盈
+   */
+  matchBar(contract: string, bar: PriceBar): void {
+    const { open, high, low } = bar;
+    const { label, slippageRate } = this.options;
+
+    // 1. 撮合挂单中的限价单（Maker 成交）
+    for (const order of this.orders.values()) {
+      if (order.contract !== contract || order.status !== 'open') continue;
+      const crossed = order.size > 0 ? low <= order.price : high >= order.price;
+      if (!crossed) continue;
+
+      const fillSize = this.resolveFillSize(order);
+      if (fillSize === 0) {
+        order.status = 'cancelled';
+        order.finishTime = this.options.now();
+        this.listener.onOrderChange?.(order.id);
+        continue;
+      }
+      this.fillOrder(order, fillSize, order.price, 'maker');
+      logger.info(`✅ [${label}] ${contract} 限价单 ${order.id} 成交 @ ${order.price}`);
+    }
+
+    const position = this.positions.get(contract);
+    if (!position) return;
+
+    const isLong = position.size > 0;
+    const { stopLoss, takeProfit } = this.getActivePriceOrders(contract);
+    const liqPrice = this.getLiquidationPrice(position);
+
+    // 2. 不利方向优先：先检测止损和强平（价格先到达哪个就先触发哪个）
+    const adverseTriggers: { kind: 'stop_loss' | 'liquidation'; price: number; order?: SimulatedPriceOrder }[] = [];
+    if (stopLoss) adverseTriggers.push({ kind: 'stop_loss', price: stopLoss.triggerPrice, order: stopLoss });
+    if (liqPrice > 0) adverseTriggers.push({ kind: 'liquidation', price: liqPrice });
+    adverseTriggers.sort((a, b) => isLong ? b.price - a.price : a.price - b.price);
+
+    for (const trigger of adverseTriggers) {
+      const hit = isLong ? low <= trigger.price : high >= trigger.price;
+      if (!hit) continue;
+
+      if (trigger.order) {
+        // 跳空时按开盘价成交，并计入滑点
+        const basePrice = isLong ? Math.min(open, trigger.price) : Math.max(open, trigger.price);
+        const fillPrice = isLong ? basePrice * (1 - slippageRate) : basePrice * (1 + slippageRate);
+        this.triggerPriceOrder(trigger.order, position, fillPrice);
+      } else {
+        this.liquidate(position, trigger.price);
+      }
+      return;
+    }
+
+    // 3. 止盈
+    if (takeProfit) {
+      const hit = isLong ? high >= takeProfit.triggerPrice : low <= takeProfit.triggerPrice;
+      if (hit) {
+        const basePrice = isLong ? Math.max(open, takeProfit.triggerPrice) : Math.min(open, takeProfit.triggerPrice);
+        const fillPrice = isLong ? basePrice * (1 - slippageRate) : basePrice * (1 + slippageRate);
+        this.triggerPriceOrder(takeProfit, position, fillPrice);
+      }
+    }
+  }
+
+  /**
+   * 条件单触发：市价平掉全部持仓
+   */
+  private triggerPriceOrder(priceOrder: SimulatedPriceOrder, position: SimulatedPosition, fillPrice: number): void {
+    priceOrder.status = 'finished';
+    priceOrder.finishTime = this.options.now();
+    this.listener.onPriceOrderChange?.(priceOrder.id);
+
+    this.closePosition(position, fillPrice, priceOrder.id);
+    logger.info(`🎯 [${this.options.label}] ${position.contract} ${priceOrder.type === 'stop_loss' ? '止损' : '止盈'}触发: 触发价=${priceOrder.triggerPrice}, 成交价=${fillPrice.toFixed(6)}`);
+  }
+
+  /**
+   * 强制平仓：按强平价成交，保证金亏损
+   */
+  private liquidate(position: SimulatedPosition, liqPrice: number): void {
+    this.closePosition(position, liqPrice);
+    this.liquidationCount++;
+    logger.warn(`💥 [${this.options.label}] ${position.contract} 触发强平: 强平价=${liqPrice.toFixed(6)}`);
+  }
+
+  /**
+   * 以只减仓市价单平掉全部持仓
+   */
+  private closePosition(position: SimulatedPosition, fillPrice: number, triggerOrderId?: string): void {
+    const closeOrder: SimulatedOrder = {
+      id: this.options.nextOrderId(),
+      contract: position.contract,
+      size: -position.size,
+      price: 0,
+      status: 'open',
+      reduceOnly: true,
+      tif: 'ioc',
+      createTime: this.options.now(),
+      fillPrice: 0,
+      left: Math.abs(position.size),
+    };
+    this.orders.set(closeOrder.id, closeOrder);
+    this.fillOrder(closeOrder, -position.size, fillPrice, 'taker', triggerOrderId);
+  }
+
+  /**
+   * 成交订单并更新持仓和余额
+   */
+  private fillOrder(order: SimulatedOrder, fillSize: number, fillPrice: number, role: 'maker' | 'taker', triggerOrderId?: string): void {
+    const contract = order.contract;
+    const multiplier = this.getMultiplier(contract);
+    const now = this.options.now();
+    const feeRate = role === 'maker' ? this.options.makerFeeRate : this.options.takerFeeRate;
+    const fee = Math.abs(fillSize * multiplier * fillPrice) * feeRate;
+    let realisedPnl = 0;
+
+    const position = this.positions.get(contract);
+    if (!position || Math.sign(position.size) === Math.sign(fillSize)) {
+      // 开仓或加仓：按成交量加权计算均价
+      if (position) {
+        const newSize = position.size + fillSize;
+        position.entryPrice = (position.entryPrice * Math.abs(position.size) + fillPrice * Math.abs(fillSize)) / Math.abs(newSize);
+        position.size = newSize;
+      } else {
+        this.positions.set(contract, {
+          contract,
+          size: fillSize,
+          entryPrice: fillPrice,
+          leverage: this.getLeverage(contract),
+          realisedPnl: 0,
+        });
+      }
+    } else {
+      // 减仓或平仓（反向超出部分开新仓）
+      const closeQty = Math.min(Math.abs(fillSize), Math.abs(position.size));
+      realisedPnl = closeQty * multiplier * (fillPrice - position.entryPrice) * Math.sign(position.size);
+      position.realisedPnl += realisedPnl;
+      position.size = Number.parseFloat((position.size + Math.sign(fillSize) * closeQty).toFixed(8));
+
+      const remaining = Number.parseFloat((Math.abs(fillSize) - closeQty).toFixed(8));
+      if (position.size === 0) {
+        this.positions.delete(contract);
+        // 持仓归零后，剩余的条件单失效
+        this.cancelPriceOrdersOf(contract);
+      }
+      if (remaining > 0 && !order.reduceOnly) {
+        this.positions.set(contract, {
+          contract,
+          size: Math.sign(fillSize) * remaining,
+          entryPrice: fillPrice,
+          leverage: this.getLeverage(contract),
+          realisedPnl: 0,
+        });
+      }
+    }
+    this.listener.onPositionChange?.(contract);
+
+    this.walletBalance += realisedPnl - fee;
+    this.totalFees += fee;
+    this.listener.onBalanceChange?.();
+
+    order.status = 'finished';
+    order.finishTime = now;
+    order.fillPrice = fillPrice;
+    order.left = 0;
+    this.listener.onOrderChange?.(order.id);
+
+    this.listener.onTrade?.({
+      id: this.options.tradeId(order.id),
+      contract,
+      create_time: now,
+      order_id: order.id,
+      size: fillSize,
+      price: fillPrice.toString(),
+      role,
+      fee: fee.toString(),
+      timestamp: now,
+      realised_pnl: realisedPnl.toString(),
+      trigger_order_id: triggerOrderId,
+    });
+  }
+
+  /**
+   * 根据只减仓标记计算实际可成交数量
+   */
+  private resolveFillSize(order: SimulatedOrder): number {
+    if (!order.reduceOnly) {
+      return order.size;
+    }
+    const position = this.positions.get(order.contract);
+    if (!position || Math.sign(position.size) === Math.sign(order.size)) {
+      return 0;
+    }
+    return Math.sign(order.size) * Math.min(Math.abs(order.size), Math.abs(position.size));
+  }
+
+  /**
+   * 开仓前检查可用保证金
+   */
+  private ensureMargin(contract: string, fillSize: number, price: number, markPrice: PriceLookup): void {
+    const position = this.positions.get(contract);
+    const isIncreasing = !position || Math.sign(position.size) === Math.sign(fillSize);
+    if (!isIncreasing) {
+      return;
+    }
+
+    const requiredMargin = Math.abs(fillSize * this.getMultiplier(contract) * price) / this.getLeverage(contract);
+    const available = this.getAvailableBalance(markPrice);
+    if (requiredMargin > available) {
+      throw new Error(`保证金不足: 需要 ${requiredMargin.toFixed(2)} USDT，可用 ${available.toFixed(2)} USDT`);
+    }
+  }
+
+  // ============ 账户与持仓 ============
+
+  /**
+   * 计算强平价（逐仓模型）
+   */
+  getLiquidationPrice(position: SimulatedPosition): number {
+    const isLong = position.size > 0;
+    const { maintenanceMarginRate } = this.options;
+    const price = isLong
+      ? position.entryPrice * (1 - 1 / position.leverage + maintenanceMarginRate)
+      : position.entryPrice * (1 + 1 / position.leverage - maintenanceMarginRate);
+    return Math.max(0, price);
+  }
+
+  getPositionMargin(position: SimulatedPosition): number {
+    return Math.abs(position.size * this.getMultiplier(position.contract) * position.entryPrice) / position.leverage;
+  }
+
+  getUnrealisedPnl(position: SimulatedPosition, markPrice: PriceLookup): number {
+    const price = markPrice(position.contract) ?? position.entryPrice;
+    return position.size * this.getMultiplier(position.contract) * (price - position.entryPrice);
+  }
+
+  getTotalUnrealisedPnl(markPrice: PriceLookup): number {
+    let total = 0;
+    for (const pos of this.positions.values()) {
+      total += this.getUnrealisedPnl(pos, markPrice);
+    }
+    return total;
+  }
+
+  getTotalPositionMargin(): number {
+    let total = 0;
+    for (const pos of this.positions.values()) {
+      total += this.getPositionMargin(pos);
+    }
+    return total;
+  }
+
+  getTotalOrderMargin(): number {
+    let total = 0;
+    for (const order of this.orders.values()) {
+      if (order.status !== 'open' || order.reduceOnly) continue;
+      total += Math.abs(order.left * this.getMultiplier(order.contract) * order.price) / this.getLeverage(order.contract);
+    }
+    return total;
+  }
+
+  getAvailableBalance(markPrice: PriceLookup): number {
+    return this.walletBalance + this.getTotalUnrealisedPnl(markPrice) - this.getTotalPositionMargin() - this.getTotalOrderMargin();
+  }
+
+  getAccountInfo(markPrice: PriceLookup): AccountInfo {
+    const positionMargin = this.getTotalPositionMargin();
+    const orderMargin = this.getTotalOrderMargin();
+    const unrealisedPnl = this.getTotalUnrealisedPnl(markPrice);
+    const available = this.walletBalance + unrealisedPnl - positionMargin - orderMargin;
+
+    return {
+      currency: 'USDT',
+      total: this.walletBalance.toString(),
+      available: Math.max(0, available).toString(),
+      positionMargin: positionMargin.toString(),
+      orderMargin: orderMargin.toString(),
+      unrealisedPnl: unrealisedPnl.toString(),
+    };
+  }
+
+  getPositionInfos(markPrice: PriceLookup): PositionInfo[] {
+    return Array.from(this.positions.values()).map(pos => ({
+      contract: pos.contract,
+      size: pos.size.toString(),
+      leverage: pos.leverage.toString(),
+      entryPrice: pos.entryPrice.toString(),
+      markPrice: (markPrice(pos.contract) ?? pos.entryPrice).toString(),
+      liqPrice: this.getLiquidationPrice(pos).toString(),
+      unrealisedPnl: this.getUnrealisedPnl(pos, markPrice).toString(),
+      realisedPnl: pos.realisedPnl.toString(),
+      margin: this.getPositionMargin(pos).toString(),
+    }));
+  }
+
+  // ============ 输出格式 ============
+
+  toOrderResponse(order: SimulatedOrder): OrderResponse {
+    return {
+      id: order.id,
+      contract: order.contract,
+      size: order.size,
+      price: order.price.toString(),
+      status: order.status,
+      create_time: order.createTime,
+      finish_time: order.finishTime,
+      fill_price: order.fillPrice.toString(),
+      left: order.left.toString(),
+      is_reduce_only: order.reduceOnly,
+    };
+  }
+
+  /**
+   * 条件单输出格式与 Gate.io 保持一致（trigger.rule / initial.size），
+   * 便于条件单监控服务复用现有的匹配逻辑
+   */
+  toPriceOrderResponse(order: SimulatedPriceOrder): any {
+    const position = this.positions.get(order.contract);
+    const closeSize = position ? -position.size : 0;
+    return {
+      id: order.id,
+      contract: order.contract,
+      status: order.status,
+      create_time: order.createTime,
+      finish_time: order.finishTime,
+      trigger: {
+        price: order.triggerPrice.toString(),
+        rule: order.rule,
+      },
+      initial: {
+        contract: order.contract,
+        size: closeSize,
+        price: '0',
+        reduce_only: true,
+      },
+    };
+  }
+}
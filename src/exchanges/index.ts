@@ -30,12 +30,22 @@ export type {
   OrderResponse,
   ContractInfo,
   TradeRecord,
+  PriceOrderCancelResult,
 } from "./IExchangeClient";
 
+export type {
+  ExchangeStream,
+  OrderUpdateEvent,
+  PositionUpdateEvent,
+} from "./streams/ExchangeStream";
+
 export { GateExchangeClient } from "./GateExchangeClient";
 export { BinanceExchangeClient } from "./BinanceExchangeClient";
+export { OkxExchangeClient } from "./OkxExchangeClient";
+export { BybitExchangeClient } from "./BybitExchangeClient";
 export {
   createExchangeClient,
   resetExchangeClient,
   getExchangeClient,
+  getAccountExchangeClient,
 } from "./ExchangeFactory";
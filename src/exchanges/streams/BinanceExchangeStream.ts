@@ -0,0 +1,237 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 币安 U本位合约 WebSocket 数据流
+ * 行情连接：<symbol>@ticker、<symbol>@markPrice@1s、<symbol>@kline_<interval>（通过 SUBSCRIBE 消息动态订阅）
+ * 用户数据连接：通过 listenKey 接收 ORDER_TRADE_UPDATE、ACCOUNT_UPDATE
+ */
+import { createLogger } from "../../utils/logger";
+import { ExchangeStream, type ExchangeStreamConfig, type StreamOrderStatus } from "./ExchangeStream";
+import { StreamConnection } from "./StreamConnection";
+
+const logger = createLogger({
+  name: "binance-stream",
+  level: "info",
+});
+
+const BINANCE_STREAM_INTERVALS = new Set(["1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "6h", "8h", "12h", "1d", "3d", "1w", "1M"]);
+
+// 条件单（止损/止盈）的原始订单类型
+const PRICE_ORDER_TYPES = new Set(["STOP", "STOP_MARKET", "TAKE_PROFIT", "TAKE_PROFIT_MARKET", "TRAILING_STOP_MARKET"]);
+
+// listenKey 有效期60分钟，每30分钟延期一次
+const LISTEN_KEY_KEEPALIVE_MS = 30 * 60 * 1000;
+
+export interface BinanceExchangeStreamConfig extends ExchangeStreamConfig {
+  createListenKey?: () => Promise<string>;      // 申请 listenKey（POST /fapi/v1/listenKey）
+  keepAliveListenKey?: () => Promise<void>;     // 延期 listenKey（PUT /fapi/v1/listenKey）
+}
+
+export class BinanceExchangeStream extends ExchangeStream {
+  private readonly marketConnection: StreamConnection;
+  private readonly userConnection: StreamConnection | null = null;
+  private hasMarketConnected = false;
+  private hasUserConnected = false;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private requestId = 0;
+
+  constructor(protected readonly config: BinanceExchangeStreamConfig) {
+    super(config);
+    const baseUrl = config.wsUrl || (config.isTestnet
+      ? "wss://stream.binancefuture.com"
+      : "wss://fstream.binance.com");
+
+    this.marketConnection = new StreamConnection({
+      name: "binance-market-ws",
+      resolveUrl: () => `${baseUrl}/ws`,
+      onOpen: () => {
+        const isReconnect = this.hasMarketConnected;
+        this.hasMarketConnected = true;
+        this.handleMarketOpen(isReconnect);
+      },
+      onMessage: (message) => this.handleMarketMessage(message),
+      onClose: () => this.handleMarketClose(),
+      staleTimeoutMs: config.staleTimeoutMs,
+      reconnectDelayMs: config.reconnectDelayMs,
+    });
+
+    const { createListenKey } = config;
+    if (this.hasCredentials() && createListenKey) {
+      this.userConnection = new StreamConnection({
+        name: "binance-user-ws",
+        // 每次（重新）连接都申请 listenKey，已存在时币安返回同一个并自动延期
+        resolveUrl: async () => `${baseUrl}/ws/${await createListenKey()}`,
+        onOpen: () => {
+          logger.info("✅ 币安用户数据流已连接");
+          if (this.hasUserConnected) {
+            this.emit('resync', 'user-reconnect');
+          }
+          this.hasUserConnected = true;
+        },
+        onMessage: (message) => this.handleUserMessage(message),
+        onClose: () => this.emit('disconnected', 'user'),
+        // 用户数据流在无订单变化时不会推送消息，不做无消息超时检测
+        staleTimeoutMs: Number.MAX_SAFE_INTEGER,
+        reconnectDelayMs: config.reconnectDelayMs,
+      });
+    }
+  }
+
+  getExchangeName(): string {
+    return "binance";
+  }
+
+  protected supportsInterval(interval: string): boolean {
+    return BINANCE_STREAM_INTERVALS.has(interval);
+  }
+
+  protected connect(): void {
+    this.marketConnection.connect();
+    if (this.userConnection) {
+      this.userConnection.connect();
+      const { keepAliveListenKey } = this.config;
+      if (keepAliveListenKey) {
+        this.keepAliveTimer = setInterval(() => {
+          keepAliveListenKey().catch((error: any) => {
+            logger.warn(`延期 listenKey 失败: ${error.message}`);
+          });
+        }, LISTEN_KEY_KEEPALIVE_MS);
+      }
+    }
+  }
+
+  protected disconnect(): void {
+    this.marketConnection.close();
+    this.userConnection?.close();
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  isMarketConnected(): boolean {
+    return this.marketConnection.isConnected();
+  }
+
+  isUserDataActive(): boolean {
+    return !!this.userConnection?.isConnected();
+  }
+
+  protected subscribeTicker(contract: string): void {
+    const symbol = contract.toLowerCase();
+    this.sendSubscribe([`${symbol}@ticker`, `${symbol}@markPrice@1s`]);
+  }
+
+  protected subscribeCandles(contract: string, interval: string): void {
+    this.sendSubscribe([`${contract.toLowerCase()}@kline_${interval}`]);
+  }
+
+  private sendSubscribe(params: string[]): void {
+    this.marketConnection.send({ method: "SUBSCRIBE", params, id: ++this.requestId });
+  }
+
+  private handleMarketMessage(message: any): void {
+    // 组合流格式 { stream, data } 与单一流格式兼容
+    const data = message.data || message;
+    switch (data.e) {
+      case "24hrTicker":
+        this.store.updateTicker(data.s, {
+          last: String(data.c),
+          volume24h: String(data.v),
+          high24h: String(data.h),
+          low24h: String(data.l),
+          change24h: String(data.P),
+        });
+        break;
+      case "markPriceUpdate":
+        this.store.updateTicker(data.s, {
+          markPrice: String(data.p),
+          indexPrice: data.i !== undefined ? String(data.i) : undefined,
+        });
+        break;
+      case "kline": {
+        const k = data.k;
+        this.store.updateCandle(data.s, k.i, {
+          timestamp: Number(k.t),
+          open: String(k.o),
+          high: String(k.h),
+          low: String(k.l),
+          close: String(k.c),
+          volume: String(k.v),
+        });
+        break;
+      }
+      default:
+        if (message.error) {
+          logger.warn(`币安订阅失败: ${JSON.stringify(message.error)}`);
+        }
+    }
+  }
+
+  private handleUserMessage(message: any): void {
+    switch (message.e) {
+      case "ORDER_TRADE_UPDATE": {
+        const o = message.o || {};
+        this.emitOrderUpdate({
+          exchange: "binance",
+          contract: o.s,
+          orderId: String(o.i),
+          status: this.mapOrderStatus(o.X),
+          filledSize: Math.abs(Number(o.z || 0)),
+          fillPrice: Number(o.ap) > 0 ? Number(o.ap) : undefined,
+          reduceOnly: !!(o.R || o.cp),
+          isPriceOrder: PRICE_ORDER_TYPES.has(o.ot),
+          timestamp: Number(message.T || message.E || Date.now()),
+          raw: message,
+        });
+        break;
+      }
+      case "ACCOUNT_UPDATE":
+        for (const p of message.a?.P || []) {
+          this.emitPositionUpdate({
+            exchange: "binance",
+            contract: p.s,
+            size: Number(p.pa || 0),
+            entryPrice: p.ep ? Number(p.ep) : undefined,
+            timestamp: Number(message.T || message.E || Date.now()),
+            raw: p,
+          });
+        }
+        break;
+      case "listenKeyExpired":
+        this.userConnection?.reconnect("listenKey 已过期");
+        break;
+    }
+  }
+
+  private mapOrderStatus(status: string): StreamOrderStatus {
+    switch (status) {
+      case "FILLED":
+        return "filled";
+      case "PARTIALLY_FILLED":
+        return "partially_filled";
+      case "CANCELED":
+      case "EXPIRED":
+      case "EXPIRED_IN_MATCH":
+        return "cancelled";
+      default:
+        return "open";
+    }
+  }
+}
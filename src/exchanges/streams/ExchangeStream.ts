@@ -0,0 +1,260 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 交易所数据流基类
+ * 订阅 ticker、K线以及订单/持仓推送，维护实时行情存储并向外派发订单事件
+ *
+ * 订阅是惰性的：交易所客户端读取某个合约的行情时调用 trackTicker/trackCandles，
+ * 首次读取走 REST 并补齐存储，之后在数据新鲜时直接由存储返回
+ */
+import { EventEmitter } from "node:events";
+import { createLogger } from "../../utils/logger";
+import type { CandleData, TickerInfo } from "../IExchangeClient";
+import { MarketDataStore, type MarketDataStoreOptions } from "./MarketDataStore";
+
+const logger = createLogger({
+  name: "exchange-stream",
+  level: "info",
+});
+
+/**
+ * 数据流配置
+ */
+export interface ExchangeStreamConfig {
+  isTestnet: boolean;
+  apiKey?: string;                          // 未提供时只订阅公共行情
+  apiSecret?: string;
+  wsUrl?: string;                           // 覆盖默认 WebSocket 地址（测试使用本地模拟服务器）
+  store?: Partial<MarketDataStoreOptions>;
+  reconnectDelayMs?: number;
+  staleTimeoutMs?: number;
+}
+
+/**
+ * 订单推送状态
+ * triggered 表示条件单（止损/止盈）已触发
+ */
+export type StreamOrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'triggered';
+
+/**
+ * 订单更新事件（各交易所推送统一转换为此格式）
+ */
+export interface OrderUpdateEvent {
+  exchange: string;
+  contract: string;
+  orderId: string;
+  status: StreamOrderStatus;
+  filledSize: number;       // 累计成交数量（绝对值）
+  fillPrice?: number;       // 成交均价
+  reduceOnly: boolean;
+  isPriceOrder: boolean;    // 是否为条件单（止损/止盈）
+  timestamp: number;
+  raw: any;
+}
+
+/**
+ * 持仓更新事件
+ */
+export interface PositionUpdateEvent {
+  exchange: string;
+  contract: string;
+  size: number;             // 带方向的持仓数量（多为正，空为负）
+  entryPrice?: number;
+  timestamp: number;
+  raw: any;
+}
+
+export abstract class ExchangeStream extends EventEmitter {
+  readonly store: MarketDataStore;
+  protected readonly trackedTickers = new Set<string>();
+  protected readonly trackedCandles = new Map<string, { contract: string; interval: string }>();
+  protected running = false;
+
+  constructor(protected readonly config: ExchangeStreamConfig) {
+    super();
+    this.store = new MarketDataStore(config.store);
+  }
+
+  abstract getExchangeName(): string;
+
+  /**
+   * 交易所推送是否支持该K线周期（不支持的周期始终走 REST）
+   */
+  protected abstract supportsInterval(interval: string): boolean;
+
+  protected abstract connect(): void;
+
+  protected abstract disconnect(): void;
+
+  protected abstract subscribeTicker(contract: string): void;
+
+  protected abstract subscribeCandles(contract: string, interval: string): void;
+
+  /**
+   * 行情连接是否在线
+   */
+  abstract isMarketConnected(): boolean;
+
+  /**
+   * 订单推送是否在线（在线时条件单监控由成交事件驱动，轮询降级为兜底）
+   */
+  abstract isUserDataActive(): boolean;
+
+  protected hasCredentials(): boolean {
+    return !!(this.config.apiKey && this.config.apiSecret);
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    logger.info(`🚀 启动 ${this.getExchangeName().toUpperCase()} WebSocket 数据流${this.hasCredentials() ? '（含订单推送）' : '（仅公共行情）'}`);
+    this.connect();
+  }
+
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.disconnect();
+    this.store.invalidate();
+    logger.info(`${this.getExchangeName().toUpperCase()} WebSocket 数据流已停止`);
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 订阅合约 ticker（重复调用无副作用）
+   */
+  trackTicker(contract: string): void {
+    if (this.trackedTickers.has(contract)) {
+      return;
+    }
+    this.trackedTickers.add(contract);
+    if (this.isMarketConnected()) {
+      this.subscribeTicker(contract);
+    }
+  }
+
+  /**
+   * 订阅合约K线，返回该周期是否由推送维护（交易所不支持的周期忽略并返回 false）
+   */
+  trackCandles(contract: string, interval: string): boolean {
+    if (!this.supportsInterval(interval)) {
+      return false;
+    }
+    const key = `${contract}|${interval}`;
+    if (!this.trackedCandles.has(key)) {
+      this.trackedCandles.set(key, { contract, interval });
+      if (this.isMarketConnected()) {
+        this.subscribeCandles(contract, interval);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 获取新鲜的 ticker，连接断开或数据过期时返回 null（调用方回退到 REST）
+   */
+  getTicker(contract: string, requireMarkPrice: boolean = false): TickerInfo | null {
+    if (!this.isMarketConnected()) {
+      return null;
+    }
+    return this.store.getTicker(contract, requireMarkPrice);
+  }
+
+  /**
+   * 获取新鲜的K线，未补齐、数据过期或连接断开时返回 null（调用方回退到 REST）
+   */
+  getCandles(contract: string, interval: string, limit: number): CandleData[] | null {
+    if (!this.isMarketConnected()) {
+      return null;
+    }
+    return this.store.getCandles(contract, interval, limit);
+  }
+
+  /**
+   * 用 REST 结果补齐K线（仅对已订阅的周期生效）
+   */
+  seedCandles(contract: string, interval: string, candles: CandleData[]): void {
+    if (this.trackedCandles.has(`${contract}|${interval}`)) {
+      this.store.seedCandles(contract, interval, candles);
+    }
+  }
+
+  /**
+   * 监听订单更新，返回取消监听函数
+   */
+  onOrderUpdate(listener: (event: OrderUpdateEvent) => void): () => void {
+    this.on('orderUpdate', listener);
+    return () => this.off('orderUpdate', listener);
+  }
+
+  /**
+   * 监听持仓更新，返回取消监听函数
+   */
+  onPositionUpdate(listener: (event: PositionUpdateEvent) => void): () => void {
+    this.on('positionUpdate', listener);
+    return () => this.off('positionUpdate', listener);
+  }
+
+  /**
+   * 监听重新同步通知（断线重连后推送可能有遗漏，订阅方应使用 REST 全量核对一次）
+   */
+  onResync(listener: (reason: string) => void): () => void {
+    this.on('resync', listener);
+    return () => this.off('resync', listener);
+  }
+
+  /**
+   * 行情连接建立：重新订阅全部已跟踪的合约
+   */
+  protected handleMarketOpen(isReconnect: boolean): void {
+    for (const contract of this.trackedTickers) {
+      this.subscribeTicker(contract);
+    }
+    for (const { contract, interval } of this.trackedCandles.values()) {
+      this.subscribeCandles(contract, interval);
+    }
+    if (isReconnect) {
+      this.emit('resync', 'market-reconnect');
+    }
+  }
+
+  /**
+   * 行情连接断开：丢弃可能已过期的行情
+   */
+  protected handleMarketClose(): void {
+    this.store.invalidate();
+    this.emit('disconnected', 'market');
+  }
+
+  protected emitOrderUpdate(event: OrderUpdateEvent): void {
+    logger.debug(`[${this.getExchangeName()}] 订单推送: ${event.contract} #${event.orderId} ${event.status}`);
+    this.emit('orderUpdate', event);
+  }
+
+  protected emitPositionUpdate(event: PositionUpdateEvent): void {
+    this.emit('positionUpdate', event);
+  }
+}
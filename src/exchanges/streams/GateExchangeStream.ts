@@ -0,0 +1,259 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Gate.io USDT 永续 WebSocket 数据流
+ * 公共频道：futures.tickers、futures.candlesticks
+ * 私有频道：futures.orders、futures.autoorders（条件单）、futures.positions
+ * 公共和私有频道共用一个连接
+ */
+import * as crypto from "node:crypto";
+import { createLogger } from "../../utils/logger";
+import { ExchangeStream, type ExchangeStreamConfig, type StreamOrderStatus } from "./ExchangeStream";
+import { StreamConnection } from "./StreamConnection";
+
+const logger = createLogger({
+  name: "gate-stream",
+  level: "info",
+});
+
+// Gate.io 推送支持的K线周期（不含 3m）
+const GATE_STREAM_INTERVALS = new Set(["10s", "1m", "5m", "15m", "30m", "1h", "4h", "8h", "1d", "7d"]);
+
+const PRIVATE_CHANNELS = ["futures.orders", "futures.autoorders", "futures.positions"];
+
+export interface GateExchangeStreamConfig extends ExchangeStreamConfig {
+  resolveUserId?: () => Promise<string>;    // 私有频道需要用户ID，由交易所客户端通过 REST 查询
+}
+
+export class GateExchangeStream extends ExchangeStream {
+  private readonly connection: StreamConnection;
+  private hasConnected = false;
+  private userId: string | null = null;
+  private userDataActive = false;
+
+  constructor(protected readonly config: GateExchangeStreamConfig) {
+    super(config);
+    const url = config.wsUrl || (config.isTestnet
+      ? "wss://fx-ws-testnet.gateio.ws/v4/ws/usdt"
+      : "wss://fx-ws.gateio.ws/v4/ws/usdt");
+
+    this.connection = new StreamConnection({
+      name: "gate-ws",
+      resolveUrl: () => url,
+      onOpen: () => this.handleOpen(),
+      onMessage: (message) => this.handleMessage(message),
+      onClose: () => {
+        this.userDataActive = false;
+        this.handleMarketClose();
+      },
+      heartbeat: {
+        intervalMs: 15000,
+        message: () => ({ time: Math.floor(Date.now() / 1000), channel: "futures.ping" }),
+      },
+      staleTimeoutMs: config.staleTimeoutMs,
+      reconnectDelayMs: config.reconnectDelayMs,
+    });
+  }
+
+  getExchangeName(): string {
+    return "gate";
+  }
+
+  protected supportsInterval(interval: string): boolean {
+    return GATE_STREAM_INTERVALS.has(interval);
+  }
+
+  protected connect(): void {
+    this.connection.connect();
+  }
+
+  protected disconnect(): void {
+    this.connection.close();
+    this.userDataActive = false;
+  }
+
+  isMarketConnected(): boolean {
+    return this.connection.isConnected();
+  }
+
+  isUserDataActive(): boolean {
+    return this.connection.isConnected() && this.userDataActive;
+  }
+
+  protected subscribeTicker(contract: string): void {
+    this.sendSubscribe("futures.tickers", [contract]);
+  }
+
+  protected subscribeCandles(contract: string, interval: string): void {
+    this.sendSubscribe("futures.candlesticks", [interval, contract]);
+  }
+
+  private sendSubscribe(channel: string, payload: string[], withAuth: boolean = false): void {
+    const time = Math.floor(Date.now() / 1000);
+    const message: any = { time, channel, event: "subscribe", payload };
+    if (withAuth) {
+      const sign = crypto
+        .createHmac("sha512", this.config.apiSecret || "")
+        .update(`channel=${channel}&event=subscribe&time=${time}`)
+        .digest("hex");
+      message.auth = { method: "api_key", KEY: this.config.apiKey, SIGN: sign };
+    }
+    this.connection.send(message);
+  }
+
+  private async handleOpen(): Promise<void> {
+    const isReconnect = this.hasConnected;
+    this.hasConnected = true;
+    this.handleMarketOpen(isReconnect);
+
+    if (!this.hasCredentials()) {
+      return;
+    }
+    if (!this.userId && this.config.resolveUserId) {
+      try {
+        this.userId = await this.config.resolveUserId();
+      } catch (error: any) {
+        logger.warn(`获取 Gate.io 用户ID失败，跳过订单推送订阅: ${error.message}`);
+        return;
+      }
+    }
+    if (!this.userId) {
+      logger.warn("缺少 Gate.io 用户ID，跳过订单推送订阅");
+      return;
+    }
+    for (const channel of PRIVATE_CHANNELS) {
+      this.sendSubscribe(channel, [this.userId, "!all"], true);
+    }
+  }
+
+  private handleMessage(message: any): void {
+    const { channel, event } = message;
+
+    if (event === "subscribe") {
+      if (message.error) {
+        logger.warn(`Gate.io 订阅 ${channel} 失败: ${message.error.message || JSON.stringify(message.error)}`);
+      } else if (channel === "futures.orders") {
+        this.userDataActive = true;
+        logger.info("✅ Gate.io 订单推送已订阅");
+      }
+      return;
+    }
+    if (event !== "update" || !message.result) {
+      return;
+    }
+
+    const results = Array.isArray(message.result) ? message.result : [message.result];
+    switch (channel) {
+      case "futures.tickers":
+        for (const t of results) {
+          this.store.updateTicker(t.contract, {
+            last: String(t.last),
+            markPrice: t.mark_price ? String(t.mark_price) : undefined,
+            indexPrice: t.index_price ? String(t.index_price) : undefined,
+            volume24h: t.volume_24h ? String(t.volume_24h) : undefined,
+            high24h: t.high_24h ? String(t.high_24h) : undefined,
+            low24h: t.low_24h ? String(t.low_24h) : undefined,
+            change24h: t.change_percentage ? String(t.change_percentage) : undefined,
+          });
+        }
+        break;
+      case "futures.candlesticks":
+        for (const c of results) {
+          // n 的格式为 {周期}_{合约}，如 1m_BTC_USDT
+          const name = String(c.n || "");
+          const separator = name.indexOf("_");
+          if (separator <= 0) continue;
+          this.store.updateCandle(name.slice(separator + 1), name.slice(0, separator), {
+            timestamp: Number(c.t) * 1000,
+            open: String(c.o),
+            high: String(c.h),
+            low: String(c.l),
+            close: String(c.c),
+            volume: String(c.v),
+          });
+        }
+        break;
+      case "futures.orders":
+        for (const o of results) {
+          this.handleOrder(o);
+        }
+        break;
+      case "futures.autoorders":
+        for (const o of results) {
+          this.handleAutoOrder(o);
+        }
+        break;
+      case "futures.positions":
+        for (const p of results) {
+          this.emitPositionUpdate({
+            exchange: "gate",
+            contract: p.contract,
+            size: Number(p.size || 0),
+            entryPrice: p.entry_price ? Number(p.entry_price) : undefined,
+            timestamp: Number(p.time_ms || Date.now()),
+            raw: p,
+          });
+        }
+        break;
+    }
+  }
+
+  private handleOrder(o: any): void {
+    const size = Math.abs(Number(o.size || 0));
+    const left = Math.abs(Number(o.left || 0));
+    const filledSize = size - left;
+    let status: StreamOrderStatus;
+    if (o.status === "finished") {
+      status = filledSize > 0 ? "filled" : "cancelled";
+    } else {
+      status = filledSize > 0 ? "partially_filled" : "open";
+    }
+    this.emitOrderUpdate({
+      exchange: "gate",
+      contract: o.contract,
+      orderId: String(o.id),
+      status,
+      filledSize,
+      fillPrice: Number(o.fill_price) > 0 ? Number(o.fill_price) : undefined,
+      reduceOnly: !!(o.is_reduce_only || o.is_close),
+      isPriceOrder: false,
+      timestamp: Number(o.finish_time_ms || o.create_time_ms || Date.now()),
+      raw: o,
+    });
+  }
+
+  private handleAutoOrder(o: any): void {
+    const initial = o.initial || {};
+    let status: StreamOrderStatus = "open";
+    if (o.status === "finished") {
+      status = o.finish_as === "succeeded" ? "triggered" : "cancelled";
+    }
+    this.emitOrderUpdate({
+      exchange: "gate",
+      contract: initial.contract,
+      orderId: String(o.id),
+      status,
+      filledSize: 0,
+      reduceOnly: !!(initial.is_reduce_only || initial.is_close),
+      isPriceOrder: true,
+      timestamp: o.finish_time ? Number(o.finish_time) * 1000 : Date.now(),
+      raw: o,
+    });
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 实时行情存储
+ * 保存 WebSocket 推送的 ticker 和 K线，按最后更新时间判断新鲜度，
+ * 数据新鲜时交易所客户端直接从这里返回，不再发起 REST 请求
+ */
+import type { CandleData, TickerInfo } from "../IExchangeClient";
+
+export interface MarketDataStoreOptions {
+  tickerMaxAgeMs: number;  // ticker 超过该时间未更新视为过期
+  candleMaxAgeMs: number;  // K线超过该时间未更新视为过期
+  maxCandles: number;      // 每个周期最多保留的K线数量
+}
+
+interface CandleSeries {
+  data: CandleData[];
+  seeded: boolean;    // 是否已用 REST 历史数据补齐（未补齐时只有推送的最新几根，不能直接使用）
+  updatedAt: number;
+}
+
+export class MarketDataStore {
+  private readonly options: MarketDataStoreOptions;
+  private readonly tickers = new Map<string, { data: TickerInfo; updatedAt: number }>();
+  private readonly candles = new Map<string, CandleSeries>();
+
+  constructor(options: Partial<MarketDataStoreOptions> = {}) {
+    this.options = {
+      tickerMaxAgeMs: options.tickerMaxAgeMs ?? Number.parseInt(process.env.MARKET_STREAM_TICKER_MAX_AGE_MS || "10000"),
+      candleMaxAgeMs: options.candleMaxAgeMs ?? Number.parseInt(process.env.MARKET_STREAM_CANDLE_MAX_AGE_MS || "120000"),
+      maxCandles: options.maxCandles ?? 500,
+    };
+  }
+
+  private candleKey(contract: string, interval: string): string {
+    return `${contract}|${interval}`;
+  }
+
+  /**
+   * 合并更新 ticker（币安的最新价和标记价格来自不同的推送频道）
+   */
+  updateTicker(contract: string, patch: Partial<TickerInfo>): void {
+    const existing = this.tickers.get(contract);
+    this.tickers.set(contract, {
+      data: { ...(existing?.data || { contract, last: "0" }), ...patch, contract },
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 获取新鲜的 ticker，过期或缺少所需字段时返回 null
+   */
+  getTicker(contract: string, requireMarkPrice: boolean = false): TickerInfo | null {
+    const entry = this.tickers.get(contract);
+    if (!entry || Date.now() - entry.updatedAt > this.options.tickerMaxAgeMs) {
+      return null;
+    }
+    if (!entry.data.last || entry.data.last === "0") {
+      return null;
+    }
+    if (requireMarkPrice && !entry.data.markPrice) {
+      return null;
+    }
+    return { ...entry.data };
+  }
+
+  /**
+   * 用 REST 返回的历史K线补齐序列，保留补齐期间已推送的更新K线
+   */
+  seedCandles(contract: string, interval: string, candles: CandleData[]): void {
+    const key = this.candleKey(contract, interval);
+    const pushed = this.candles.get(key)?.data || [];
+    const data = candles.map(c => ({ ...c }));
+    for (const candle of pushed) {
+      this.mergeCandle(data, candle);
+    }
+    this.candles.set(key, {
+      data: data.slice(-this.options.maxCandles),
+      seeded: true,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 应用推送的K线（同一时间戳替换，未收盘K线会多次推送）
+   */
+  updateCandle(contract: string, interval: string, candle: CandleData): void {
+    const key = this.candleKey(contract, interval);
+    const series = this.candles.get(key) || { data: [], seeded: false, updatedAt: 0 };
+    this.mergeCandle(series.data, candle);
+    if (series.data.length > this.options.maxCandles) {
+      series.data.splice(0, series.data.length - this.options.maxCandles);
+    }
+    series.updatedAt = Date.now();
+    this.candles.set(key, series);
+  }
+
+  private mergeCandle(data: CandleData[], candle: CandleData): void {
+    const last = data[data.length - 1];
+    if (!last || candle.timestamp > last.timestamp) {
+      data.push({ ...candle });
+      return;
+    }
+    const index = data.findIndex(c => c.timestamp === candle.timestamp);
+    if (index >= 0) {
+      data[index] = { ...candle };
+    }
+  }
+
+  /**
+   * 获取最近 limit 根K线，未补齐、过期或数量不足时返回 null
+   */
+  getCandles(contract: string, interval: string, limit: number): CandleData[] | null {
+    const series = this.candles.get(this.candleKey(contract, interval));
+    if (!series || !series.seeded || series.data.length < limit) {
+      return null;
+    }
+    if (Date.now() - series.updatedAt > this.options.candleMaxAgeMs) {
+      return null;
+    }
+    return series.data.slice(-limit).map(c => ({ ...c }));
+  }
+
+  /**
+   * 连接中断后调用：清空 ticker 和K线（断线期间可能缺失K线，需重新用 REST 补齐）
+   */
+  invalidate(): void {
+    this.tickers.clear();
+    this.candles.clear();
+  }
+
+  getStats(): { tickers: number; candleSeries: number; seededSeries: number } {
+    let seededSeries = 0;
+    for (const series of this.candles.values()) {
+      if (series.seeded) seededSeries++;
+    }
+    return { tickers: this.tickers.size, candleSeries: this.candles.size, seededSeries };
+  }
+}
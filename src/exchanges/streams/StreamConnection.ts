@@ -0,0 +1,222 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 自动重连的 WebSocket 连接
+ * 负责建立连接、心跳、无消息超时检测和指数退避重连，
+ * 每次（重新）连接成功后回调 onOpen 以便调用方重新订阅
+ */
+import WebSocket from "ws";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger({
+  name: "stream-connection",
+  level: "info",
+});
+
+export interface StreamConnectionOptions {
+  name: string;                                   // 连接名称（用于日志）
+  resolveUrl: () => string | Promise<string>;     // 每次连接前解析地址（币安用户数据流需要先申请 listenKey）
+  onOpen: () => void | Promise<void>;             // 连接成功（含重连）后回调，用于发送订阅
+  onMessage: (message: any) => void;              // 收到 JSON 消息
+  onClose?: (willReconnect: boolean) => void;     // 连接断开
+  heartbeat?: {                                   // 应用层心跳（Gate.io 需要主动发送 ping 消息）
+    intervalMs: number;
+    message: () => unknown;
+  };
+  staleTimeoutMs?: number;                        // 超过该时间未收到任何消息则主动断开重连
+  reconnectDelayMs?: number;                      // 首次重连延迟
+  maxReconnectDelayMs?: number;                   // 最大重连延迟
+}
+
+export class StreamConnection {
+  private ws: WebSocket | null = null;
+  private running = false;
+  private connected = false;
+  private reconnectAttempts = 0;
+  private lastMessageAt = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: StreamConnectionOptions) {}
+
+  /**
+   * 开始连接（断开后自动重连，直到调用 close）
+   */
+  connect(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.open();
+  }
+
+  /**
+   * 关闭连接并停止重连
+   */
+  close(): void {
+    this.running = false;
+    this.clearTimers();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.on("error", () => {});
+      this.ws.terminate();
+      this.ws = null;
+    }
+    this.connected = false;
+  }
+
+  /**
+   * 主动断开当前连接并立即重连（如币安 listenKey 过期）
+   */
+  reconnect(reason: string): void {
+    logger.warn(`[${this.options.name}] ${reason}，重新连接`);
+    this.ws?.terminate();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * 发送 JSON 消息，未连接时返回 false（重连成功后由 onOpen 重新订阅）
+   */
+  send(message: unknown): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  private async open(): Promise<void> {
+    let url: string;
+    try {
+      url = await this.options.resolveUrl();
+    } catch (error: any) {
+      logger.warn(`[${this.options.name}] 获取连接地址失败: ${error.message}`);
+      this.scheduleReconnect();
+      return;
+    }
+    if (!this.running) {
+      return;
+    }
+
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.on("open", async () => {
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      logger.info(`✅ [${this.options.name}] WebSocket 已连接`);
+      this.startTimers();
+      try {
+        await this.options.onOpen();
+      } catch (error: any) {
+        logger.error(`[${this.options.name}] 订阅失败: ${error.message}`);
+      }
+    });
+
+    ws.on("message", (raw: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        logger.debug(`[${this.options.name}] 忽略非 JSON 消息: ${raw.toString().slice(0, 100)}`);
+        return;
+      }
+      try {
+        this.options.onMessage(message);
+      } catch (error: any) {
+        logger.error(`[${this.options.name}] 处理消息失败: ${error.message}`);
+      }
+    });
+
+    // 服务端 ping 帧由 ws 自动回复 pong，这里只用于刷新活跃时间
+    ws.on("ping", () => {
+      this.lastMessageAt = Date.now();
+    });
+
+    ws.on("error", (error: Error) => {
+      logger.warn(`[${this.options.name}] WebSocket 错误: ${error.message}`);
+    });
+
+    ws.on("close", () => {
+      if (this.ws !== ws) {
+        return;
+      }
+      const wasConnected = this.connected;
+      this.connected = false;
+      this.ws = null;
+      this.clearTimers();
+      if (wasConnected) {
+        logger.warn(`⚠️ [${this.options.name}] WebSocket 连接断开`);
+      }
+      this.options.onClose?.(this.running);
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) {
+      return;
+    }
+    const baseDelay = this.options.reconnectDelayMs ?? 1000;
+    const maxDelay = this.options.maxReconnectDelayMs ?? 30000;
+    const delay = Math.min(baseDelay * 2 ** this.reconnectAttempts, maxDelay);
+    this.reconnectAttempts++;
+    logger.info(`[${this.options.name}] ${delay}ms 后重连（第${this.reconnectAttempts}次）`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  private startTimers(): void {
+    const { heartbeat } = this.options;
+    if (heartbeat) {
+      this.heartbeatTimer = setInterval(() => this.send(heartbeat.message()), heartbeat.intervalMs);
+    }
+    const staleTimeoutMs = this.options.staleTimeoutMs ?? 60000;
+    this.watchdogTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > staleTimeoutMs) {
+        this.reconnect(`${Math.round(staleTimeoutMs / 1000)}秒未收到消息`);
+      }
+    }, Math.min(staleTimeoutMs, 10000));
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+}
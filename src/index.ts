@@ -19,16 +19,20 @@
 import "dotenv/config";
 import { serve } from "@hono/node-server";
 import { createApiRoutes } from "./api/routes";
-import { startTradingLoop, initTradingSystem } from "./scheduler/tradingLoop";
+import { startTradingLoop, initAllTradingSystems } from "./scheduler/tradingLoop";
 import { startAccountRecorder } from "./scheduler/accountRecorder";
 import { PriceOrderMonitor } from "./scheduler/priceOrderMonitor";
 import { startHealthCheck } from "./scheduler/healthCheck";
 import { inconsistentStateResolver } from "./scheduler/inconsistentStateResolver";
-import { emailAlertService } from "./utils/emailAlert";
+import { initializeNotifier } from "./notifications";
+import { initializeStrategyRegistry } from "./strategies/registry";
 import { initDatabase } from "./database/init";
 import { RISK_PARAMS } from "./config/riskParams";
 import { createClient } from "@libsql/client";
-import { getExchangeClient } from "./exchanges";
+import { getAccountExchangeClient } from "./exchanges";
+import { getAccounts } from "./config/accounts";
+import { runWithAccount } from "./utils/accountContext";
+import { reconcileOperationIntents } from "./services/operationIntentLog";
 import { createLogger } from "./utils/logger";
 
 // 设置时区为中国时间（Asia/Shanghai，UTC+8）
@@ -42,7 +46,7 @@ const logger = createLogger({
 
 // 全局服务器实例
 let server: any = null;
-let priceOrderMonitor: PriceOrderMonitor | null = null;
+const priceOrderMonitors: PriceOrderMonitor[] = [];
 
 /**
  * 主函数
@@ -54,14 +58,36 @@ async function main() {
   logger.info("初始化数据库...");
   await initDatabase();
 
-  // 2. 初始化邮件告警服务
-  logger.info("初始化邮件告警服务...");
-  emailAlertService.initialize();
+  // 2. 初始化通知服务（邮件、Telegram、Discord、Slack、Webhook）
+  logger.info("初始化通知服务...");
+  initializeNotifier();
 
-  // 3. 初始化交易系统配置（读取环境变量并同步到数据库）
-  await initTradingSystem();
+  // 3. 修复上次运行中断的开平仓操作（必须在交易循环之前，以交易所持仓为准补写或作废）
+  logger.info("检查未完成的开平仓操作...");
+  const intentDbClient = createClient({
+    url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+  });
+  for (const account of getAccounts()) {
+    await runWithAccount(account, async () => {
+      try {
+        const results = await reconcileOperationIntents(intentDbClient, getAccountExchangeClient(account));
+        if (results.length > 0) {
+          logger.info(`✅ [${account.id}] 已处理 ${results.length} 个未完成的开平仓操作`);
+        }
+      } catch (error: any) {
+        logger.error(`❌ [${account.id}] 修复未完成的开平仓操作失败:`, error.message);
+      }
+    });
+  }
+
+  // 4. 初始化交易系统配置（读取环境变量并同步到数据库，每个账户独立）
+  await initAllTradingSystems();
+  
+  // 加载策略注册表（STRATEGY_PLUGINS_DIR 中的自定义策略无效时直接启动失败，避免带着不完整的策略集交易）
+  logger.info("加载策略注册表...");
+  await initializeStrategyRegistry();
   
-  // 4. 启动 API 服务器
+  // 5. 启动 API 服务器
   logger.info("🌐 启动 Web 服务器...");
   const apiRoutes = createApiRoutes();
   
@@ -80,16 +106,16 @@ async function main() {
     logger.info(`局域网访问: http://<你的局域网IP>:${port}/`);
   }
   
-  // 5. 启动交易循环
+  // 6. 启动交易循环
   logger.info("启动交易循环...");
   startTradingLoop();
   
-  // 6. 启动账户资产记录器
+  // 7. 启动账户资产记录器
   logger.info("启动账户资产记录器...");
   startAccountRecorder();
   
    
-  // 7. 启动健康检查服务
+  // 8. 启动健康检查服务
   const healthCheckEnabled = process.env.HEALTH_CHECK_ENABLED !== 'false';
   if (healthCheckEnabled) {
     logger.info("启动健康检查服务...");
@@ -98,7 +124,7 @@ async function main() {
     logger.info("健康检查服务已禁用（HEALTH_CHECK_ENABLED=false）");
   }
   
-  // 8. 启动反转监控线程（新增）
+  // 9. 启动反转监控线程（新增）
   const reversalMonitorEnabled = process.env.REVERSAL_MONITOR_ENABLED !== 'false';
   if (reversalMonitorEnabled) {
     logger.info("启动反转监控线程...");
@@ -108,7 +134,7 @@ async function main() {
     logger.info("反转监控线程已禁用（REVERSAL_MONITOR_ENABLED=false）");
   }
 
-  // 9. 启动条件单监控服务
+  // 10. 启动条件单监控服务
   const monitorEnabled = process.env.PRICE_ORDER_MONITOR_ENABLED !== 'false';
   if (monitorEnabled) {
     try {
@@ -118,26 +144,33 @@ async function main() {
         syncUrl: process.env.DATABASE_SYNC_URL,
         syncInterval: Number.parseInt(process.env.DATABASE_SYNC_INTERVAL || '5000'), // 默认5秒同步
       });
-      const exchangeClient = getExchangeClient();
       
-      // 验证交易所连接
-      try {
-        await exchangeClient.getFuturesAccount();
-        logger.info("✅ 交易所连接验证成功");
-      } catch (error: any) {
-        logger.warn("⚠️ 交易所连接验证失败,条件单监控可能受影响:", error.message);
+      // 每个账户启动独立的条件单监控（在账户上下文中启动，定时器继承该上下文）
+      for (const account of getAccounts()) {
+        await runWithAccount(account, async () => {
+          const exchangeClient = getAccountExchangeClient(account);
+          
+          // 验证交易所连接
+          try {
+            await exchangeClient.getFuturesAccount();
+            logger.info(`✅ [${account.id}] 交易所连接验证成功`);
+          } catch (error: any) {
+            logger.warn(`⚠️ [${account.id}] 交易所连接验证失败,条件单监控可能受影响:`, error.message);
+          }
+          
+          const monitor = new PriceOrderMonitor(dbClient, exchangeClient, account.id);
+          await monitor.start();
+          priceOrderMonitors.push(monitor);
+          
+          // 验证启动状态
+          const activeOrders = await dbClient.execute({
+            sql: 'SELECT COUNT(*) as count FROM price_orders WHERE account_id = ? AND status = ?',
+            args: [account.id, 'active']
+          });
+          const activeCount = Number(activeOrders.rows[0]?.count || 0);
+          logger.info(`✅ [${account.id}] 条件单监控服务启动成功,当前监控 ${activeCount} 个活跃条件单`);
+        });
       }
-      
-      priceOrderMonitor = new PriceOrderMonitor(dbClient, exchangeClient);
-      await priceOrderMonitor.start();
-      
-      // 验证启动状态
-      const activeOrders = await dbClient.execute({
-        sql: 'SELECT COUNT(*) as count FROM price_orders WHERE status = ?',
-        args: ['active']
-      });
-      const activeCount = Number(activeOrders.rows[0]?.count || 0);
-      logger.info(`✅ 条件单监控服务启动成功,当前监控 ${activeCount} 个活跃条件单`);
     } catch (error: any) {
       logger.error("❌ 条件单监控服务启动失败:", error.message);
       logger.warn("⚠️ 系统将继续运行,但条件单监控功能不可用");
@@ -148,7 +181,7 @@ async function main() {
     logger.info("条件单监控服务已禁用（PRICE_ORDER_MONITOR_ENABLED=false）");
   }
   
-  // 10. 启动自动修复服务（可选）
+  // 11. 启动自动修复服务（可选）
   const autoResolveEnabled = process.env.AUTO_RESOLVE_ENABLED === 'true';
   if (autoResolveEnabled) {
     logger.info("启动自动修复服务...");
@@ -163,7 +196,9 @@ async function main() {
   logger.info(`监控界面: http://localhost:${port}/`);
   logger.info(`交易间隔: ${process.env.TRADING_INTERVAL_MINUTES || 5} 分钟`);
   logger.info(`账户记录间隔: ${process.env.ACCOUNT_RECORD_INTERVAL_MINUTES || 10} 分钟`);
-  logger.info(`支持币种: ${RISK_PARAMS.TRADING_SYMBOLS.join(', ')}`);
+  for (const account of getAccounts()) {
+    logger.info(`交易账户 [${account.id}] ${account.name}: 交易所=${account.exchangeName}, 币种=${account.symbols.join(', ')}`);
+  }
   logger.info(`最大杠杆: ${RISK_PARAMS.MAX_LEVERAGE}x`);
   logger.info(`最大持仓数: ${RISK_PARAMS.MAX_POSITIONS}`);
   logger.info(`🔴 账户止损线: ${process.env.ACCOUNT_STOP_LOSS_USDT || 50} USDT (触发后全部清仓并退出)`);
@@ -187,9 +222,11 @@ async function gracefulShutdown(signal: string) {
   
   try {
     // 停止条件单监控服务
-    if (priceOrderMonitor) {
+    if (priceOrderMonitors.length > 0) {
       logger.info("正在停止条件单监控服务...");
-      priceOrderMonitor.stop();
+      for (const monitor of priceOrderMonitors) {
+        monitor.stop();
+      }
       logger.info("条件单监控服务已停止");
     }
     
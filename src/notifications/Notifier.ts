@@ -0,0 +1,270 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 通知分发器
+ *
+ * 按路由规则把通知分发到渠道：每条规则匹配事件类型和最低级别，命中的规则的渠道取并集。
+ * - 去重：去重窗口内相同去重键的通知只发送一次（至少一个渠道发送成功才计入）
+ * - 限流：每个渠道每分钟最多发送 rateLimitPerMinute 条，CRITICAL 不受限
+ * - 单个渠道失败不影响其他渠道，发送异常只记录日志，不向调用方抛出
+ */
+import { getCurrentAccountId } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+import {
+  ALERT_LEVEL_ORDER,
+  AlertLevel,
+  type Notification,
+  type NotificationChannel,
+  type NotificationEventType,
+  type NotificationInput,
+  type TradeNotification,
+} from "./types";
+
+const logger = createLogger({
+  name: "notifier",
+  level: "info",
+});
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/**
+ * 路由规则：events 为空表示所有事件，minLevel 为空表示所有级别
+ */
+export interface NotificationRoute {
+  events?: NotificationEventType[];
+  minLevel?: AlertLevel;
+  channels: string[];
+}
+
+export interface NotifierOptions {
+  channels: NotificationChannel[];
+  routes: NotificationRoute[];
+  dedupWindowMs: number;
+  rateLimitPerMinute: number;
+}
+
+export interface NotifyResult {
+  /** 去重窗口内已发送过，本次未发送 */
+  deduplicated: boolean;
+  delivered: string[];
+  failed: string[];
+  rateLimited: string[];
+}
+
+export class Notifier {
+  private lastSentAt = new Map<string, number>();
+  private channelSendTimes = new Map<string, number[]>();
+
+  constructor(private options: NotifierOptions) {}
+
+  getChannels(): NotificationChannel[] {
+    return this.options.channels;
+  }
+
+  /**
+   * 事件类型和级别命中的渠道（保持渠道配置顺序）
+   */
+  resolveChannels(event: NotificationEventType, level: AlertLevel): NotificationChannel[] {
+    const ids = new Set<string>();
+    for (const route of this.options.routes) {
+      if (route.events && route.events.length > 0 && !route.events.includes(event)) continue;
+      if (route.minLevel && ALERT_LEVEL_ORDER[level] < ALERT_LEVEL_ORDER[route.minLevel]) continue;
+      for (const id of route.channels) {
+        ids.add(id);
+      }
+    }
+    return this.options.channels.filter(channel => ids.has(channel.id));
+  }
+
+  async notify(input: NotificationInput): Promise<NotifyResult> {
+    const notification: Notification = {
+      event: input.event,
+      level: input.level,
+      title: input.title,
+      message: input.message,
+      details: input.details,
+      timestamp: input.timestamp || new Date().toISOString(),
+      accountId: input.accountId || getCurrentAccountId(),
+    };
+    const result: NotifyResult = { deduplicated: false, delivered: [], failed: [], rateLimited: [] };
+
+    // 记录到日志
+    const logMessage = `[${notification.level}] ${notification.title}: ${notification.message}`;
+    if (notification.level === AlertLevel.CRITICAL || notification.level === AlertLevel.ERROR) {
+      logger.error(logMessage, notification.details);
+    } else if (notification.level === AlertLevel.WARNING) {
+      logger.warn(logMessage, notification.details);
+    } else {
+      logger.info(logMessage, notification.details);
+    }
+
+    const channels = this.resolveChannels(notification.event, notification.level);
+    if (channels.length === 0) {
+      return result;
+    }
+
+    // 去重（避免同类告警频繁发送）
+    const dedupKey = `${notification.accountId}:${input.dedupKey || `${notification.event}:${notification.level}:${notification.title}`}`;
+    const now = Date.now();
+    this.pruneDedupKeys(now);
+    if (this.lastSentAt.has(dedupKey)) {
+      logger.debug(`通知 ${dedupKey} 在去重窗口内，跳过发送`);
+      result.deduplicated = true;
+      return result;
+    }
+    // 发送前占用去重键，同时到达的相同通知只发送一次；所有渠道都未送达时释放
+    this.lastSentAt.set(dedupKey, now);
+
+    const allowed = channels.filter(channel => {
+      if (notification.level === AlertLevel.CRITICAL || this.tryConsumeRate(channel.id, now)) {
+        return true;
+      }
+      result.rateLimited.push(channel.id);
+      return false;
+    });
+    if (result.rateLimited.length > 0) {
+      logger.warn(`渠道 ${result.rateLimited.join(", ")} 超过发送频率限制，跳过通知: ${notification.title}`);
+    }
+
+    const outcomes = await Promise.allSettled(allowed.map(channel => channel.send(notification)));
+    for (let i = 0; i < allowed.length; i++) {
+      const outcome = outcomes[i];
+      if (outcome.status === "fulfilled") {
+        result.delivered.push(allowed[i].id);
+      } else {
+        result.failed.push(allowed[i].id);
+        logger.error(`通知渠道 ${allowed[i].id}(${allowed[i].type}) 发送失败: ${outcome.reason?.message || outcome.reason}`);
+      }
+    }
+
+    if (result.delivered.length > 0) {
+      logger.debug(`✅ 通知已发送至 ${result.delivered.join(", ")}: ${notification.title}`);
+    } else if (this.lastSentAt.get(dedupKey) === now) {
+      this.lastSentAt.delete(dedupKey);
+    }
+    return result;
+  }
+
+  /**
+   * 清理超出去重窗口的记录（交易通知的去重键按订单唯一，不清理会持续增长）
+   */
+  private pruneDedupKeys(now: number): void {
+    for (const [key, sentAt] of this.lastSentAt) {
+      if (now - sentAt >= this.options.dedupWindowMs) {
+        this.lastSentAt.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 发送交易提醒
+   */
+  async notifyTrade(trade: TradeNotification): Promise<NotifyResult> {
+    const timestamp = trade.timestamp || new Date().toISOString();
+
+    // 构建标题和内容
+    const isOpen = trade.type === 'open';
+    const direction = trade.side === 'long' ? '做多' : '做空';
+    const title = isOpen
+      ? `开仓提醒: ${trade.symbol} ${direction}`
+      : `平仓提醒: ${trade.symbol} ${direction}`;
+
+    // 构建详细信息
+    const details = {
+      交易类型: isOpen ? '开仓' : '平仓',
+      币种: trade.symbol,
+      方向: direction,
+      数量: trade.quantity.toFixed(4),
+      杠杆: `${trade.leverage}x`,
+      ...(isOpen ? {
+        入场价: trade.price.toFixed(2),
+        保证金: trade.margin ? `${trade.margin.toFixed(2)} USDT` : 'N/A',
+        止损价: trade.stopLoss ? trade.stopLoss.toFixed(2) : '未设置',
+        止盈价: trade.takeProfit ? trade.takeProfit.toFixed(2) : '未设置',
+        强平价: trade.liquidationPrice ? trade.liquidationPrice.toFixed(2) : 'N/A',
+        市场状态: trade.marketState || 'N/A',
+        策略类型: trade.strategyType || 'N/A',
+        机会评分: trade.opportunityScore !== undefined ? `${trade.opportunityScore.toFixed(0)}/100` : 'N/A',
+      } : {
+        入场价: trade.entryPrice?.toFixed(2) || 'N/A',
+        平仓价: trade.exitPrice?.toFixed(2) || trade.price.toFixed(2),
+        盈亏: trade.pnl !== undefined ? `${trade.pnl >= 0 ? '+' : ''}${trade.pnl.toFixed(2)} USDT` : 'N/A',
+        盈亏率: trade.pnlPercent !== undefined ? `${trade.pnlPercent >= 0 ? '+' : ''}${trade.pnlPercent.toFixed(2)}%` : 'N/A',
+        手续费: trade.fee !== undefined ? `${trade.fee.toFixed(2)} USDT` : 'N/A',
+        平仓原因: formatCloseReason(trade.closeReason),
+        账户余额: trade.totalBalance !== undefined ? `${trade.totalBalance.toFixed(2)} USDT` : 'N/A',
+      }),
+      订单ID: trade.orderId || 'N/A',
+      时间: timestamp,
+    };
+
+    // 根据盈亏情况选择告警级别
+    let level = AlertLevel.INFO;
+    if (!isOpen && trade.pnl !== undefined) {
+      if (trade.pnl < -100) {
+        level = AlertLevel.ERROR; // 大额亏损
+      } else if (trade.pnl < 0) {
+        level = AlertLevel.WARNING; // 小额亏损
+      }
+    }
+
+    return this.notify({
+      event: 'trade',
+      level,
+      title,
+      message: Object.entries(details).map(([key, value]) => `${key}: ${value}`).join('\n'),
+      details,
+      timestamp,
+      // 每笔成交单独提醒，不与同币种的其他成交去重
+      dedupKey: `trade:${trade.type}:${trade.symbol}:${trade.side}:${trade.orderId || timestamp}`,
+    });
+  }
+
+  /**
+   * 滑动窗口限流
+   */
+  private tryConsumeRate(channelId: string, now: number): boolean {
+    const times = (this.channelSendTimes.get(channelId) || []).filter(t => now - t < RATE_LIMIT_WINDOW_MS);
+    if (times.length >= this.options.rateLimitPerMinute) {
+      this.channelSendTimes.set(channelId, times);
+      return false;
+    }
+    times.push(now);
+    this.channelSendTimes.set(channelId, times);
+    return true;
+  }
+}
+
+/**
+ * 格式化平仓原因
+ */
+function formatCloseReason(reason?: string): string {
+  const reasonMap: Record<string, string> = {
+    'stop_loss_triggered': '止损触发',
+    'take_profit_triggered': '止盈触发',
+    'manual_close': 'AI手动',
+    'ai_decision': 'AI主动',
+    'trend_reversal': '趋势反转',
+    'forced_close': '系统强制',
+    'partial_close': '分批止盈',
+    'peak_drawdown': '峰值回撤',
+    'time_limit': '持仓到期',
+  };
+  return reasonMap[reason || ''] || reason || 'N/A';
+}
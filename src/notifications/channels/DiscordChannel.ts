@@ -0,0 +1,53 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Discord Webhook 通知渠道
+ */
+import { formatNotificationDetails, LEVEL_EMOJI } from "../format";
+import { AlertLevel, type Notification, type NotificationChannel } from "../types";
+import { postJson } from "./http";
+
+const LEVEL_COLOR: Record<AlertLevel, number> = {
+  [AlertLevel.INFO]: 0x2196f3,
+  [AlertLevel.WARNING]: 0xff9800,
+  [AlertLevel.ERROR]: 0xf44336,
+  [AlertLevel.CRITICAL]: 0x9c27b0,
+};
+
+export class DiscordChannel implements NotificationChannel {
+  readonly type = "discord" as const;
+
+  constructor(
+    readonly id: string,
+    private webhookUrl: string,
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const details = formatNotificationDetails(notification.details).join("\n");
+    const description = details ? `${notification.message}\n\n${details}` : notification.message;
+    await postJson(this.webhookUrl, {
+      embeds: [{
+        title: `${LEVEL_EMOJI[notification.level]} [${notification.level}] ${notification.title}`.slice(0, 256),
+        description: description.slice(0, 4000),
+        color: LEVEL_COLOR[notification.level],
+        timestamp: notification.timestamp,
+      }],
+    });
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ */
+
+/**
+ * 邮件通知渠道
+ * 通过 SMTP 发送 HTML 格式的告警和交易提醒
+ */
+import nodemailer from 'nodemailer';
+import { AlertLevel, type Notification, type NotificationChannel } from '../types';
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  user: string;
+  pass: string;
+  from: string;
+  to: string;
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    readonly id: string,
+    private config: EmailChannelConfig,
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.port === 465, // 465端口使用SSL，587端口使用TLS
+      auth: {
+        user: config.user,
+        pass: config.pass
+      }
+    });
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: this.config.to,
+      subject: `[${notification.level}] ${notification.title} - AI自动交易系统`,
+      html: this.buildEmailHtml(notification)
+    });
+  }
+
+  /**
+   * 构建HTML邮件内容
+   */
+  private buildEmailHtml(alert: Notification): string {
+    const levelColor = {
+      [AlertLevel.INFO]: '#2196F3',
+      [AlertLevel.WARNING]: '#FF9800',
+      [AlertLevel.ERROR]: '#F44336',
+      [AlertLevel.CRITICAL]: '#9C27B0'
+    }[alert.level];
+
+    let detailsHtml = '';
+    if (alert.details) {
+      // 检查是否是交易提醒（包含特定字段）
+      const isTradeNotification = alert.details && typeof alert.details === 'object' && 
+        ('交易类型' in alert.details || '币种' in alert.details);
+      
+      if (isTradeNotification) {
+        // 使用表格格式显示交易信息
+        const rows = Object.entries(alert.details)
+          .map(([key, value]) => {
+            let displayValue = String(value);
+            let valueStyle = '';
+            
+            // 为盈亏添加颜色
+            if (key === '盈亏' && typeof value === 'string') {
+              if (value.includes('+')) {
+                valueStyle = 'color: #4CAF50; font-weight: bold;';
+              } else if (value.includes('-')) {
+                valueStyle = 'color: #F44336; font-weight: bold;';
+              }
+            }
+            
+            return `
+              <tr>
+                <td style="padding: 8px; border-bottom: 1px solid #eee; font-weight: 500; color: #666; white-space: nowrap;">${key}</td>
+                <td style="padding: 8px; border-bottom: 1px solid #eee; ${valueStyle}">${displayValue}</td>
+              </tr>
+            `;
+          })
+          .join('');
+        
+        detailsHtml = `
+          <div style="margin-top: 20px; overflow-x: auto;">
+            <table style="width: 100%; border-collapse: collapse; background: white; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+              ${rows}
+            </table>
+          </div>
+        `;
+      } else {
+        // 常规告警使用原格式
+        const detailsStr = typeof alert.details === 'object' 
+          ? JSON.stringify(alert.details, null, 2) 
+          : String(alert.details);
+        detailsHtml = `
+          <div style="margin-top: 20px; padding: 15px; background: #f5f5f5; border-radius: 4px;">
+            <h3 style="margin-top: 0; color: #333;">详细信息：</h3>
+            <pre style="white-space: pre-wrap; word-wrap: break-word; font-family: monospace; font-size: 12px;">${detailsStr}</pre>
+          </div>
+        `;
+      }
+    }
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: ${levelColor}; color: white; padding: 20px; border-radius: 4px; }
+          .content { padding: 20px; background: white; }
+          .footer { margin-top: 20px; padding: 10px; text-align: center; font-size: 12px; color: #999; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="margin: 0;">${alert.level}</h1>
+            <h2 style="margin: 10px 0 0 0;">${alert.title}</h2>
+          </div>
+          <div class="content">
+            <p><strong>告警时间：</strong> ${alert.timestamp}</p>
+            <p><strong>告警级别：</strong> ${alert.level}</p>
+            <p><strong>告警消息：</strong></p>
+            <p style="padding: 10px; background: #f9f9f9; border-left: 4px solid ${levelColor};">
+              ${alert.message}
+            </p>
+            ${detailsHtml}
+          </div>
+          <div class="footer">
+            <p>此邮件由 AI 自动交易系统自动发送，请勿直接回复</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+}
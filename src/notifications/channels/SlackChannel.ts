@@ -0,0 +1,50 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Slack Incoming Webhook 通知渠道
+ */
+import { formatNotificationDetails, LEVEL_EMOJI } from "../format";
+import { AlertLevel, type Notification, type NotificationChannel } from "../types";
+import { postJson } from "./http";
+
+const LEVEL_COLOR: Record<AlertLevel, string> = {
+  [AlertLevel.INFO]: "#2196F3",
+  [AlertLevel.WARNING]: "#FF9800",
+  [AlertLevel.ERROR]: "#F44336",
+  [AlertLevel.CRITICAL]: "#9C27B0",
+};
+
+export class SlackChannel implements NotificationChannel {
+  readonly type = "slack" as const;
+
+  constructor(
+    readonly id: string,
+    private webhookUrl: string,
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const details = formatNotificationDetails(notification.details).join("\n");
+    await postJson(this.webhookUrl, {
+      text: `${LEVEL_EMOJI[notification.level]} *[${notification.level}] ${notification.title}*\n${notification.message}`,
+      attachments: details
+        ? [{ color: LEVEL_COLOR[notification.level], text: details.slice(0, 3000), ts: Math.floor(Date.parse(notification.timestamp) / 1000) }]
+        : [],
+    });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Telegram 机器人通知渠道
+ */
+import { formatNotificationText } from "../format";
+import type { Notification, NotificationChannel } from "../types";
+import { postJson } from "./http";
+
+export interface TelegramChannelConfig {
+  botToken: string;
+  chatId: string;
+  /** 默认 https://api.telegram.org（自建 Bot API 服务或代理时修改） */
+  apiBaseURL?: string;
+}
+
+export class TelegramChannel implements NotificationChannel {
+  readonly type = "telegram" as const;
+
+  constructor(
+    readonly id: string,
+    private config: TelegramChannelConfig,
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const baseURL = (this.config.apiBaseURL || "https://api.telegram.org").replace(/\/$/, "");
+    // 纯文本发送，避免交易详情中的特殊字符被当作 Markdown 解析失败
+    await postJson(`${baseURL}/bot${this.config.botToken}/sendMessage`, {
+      chat_id: this.config.chatId,
+      text: formatNotificationText(notification),
+      disable_web_page_preview: true,
+    });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 通用 JSON Webhook 通知渠道
+ *
+ * 请求体为通知的 JSON（event、level、title、message、details、accountId、timestamp）。
+ * 配置了密钥时附带签名头，接收方按相同方式计算并比对：
+ * - X-Notify-Timestamp: 发送时间（毫秒时间戳）
+ * - X-Notify-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`) 的十六进制
+ */
+import { createHmac } from "node:crypto";
+import type { Notification, NotificationChannel } from "../types";
+import { postJson } from "./http";
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * 计算 Webhook 签名
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export class WebhookChannel implements NotificationChannel {
+  readonly type = "webhook" as const;
+
+  constructor(
+    readonly id: string,
+    private config: WebhookChannelConfig,
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const body = JSON.stringify({
+      event: notification.event,
+      level: notification.level,
+      title: notification.title,
+      message: notification.message,
+      details: notification.details ?? null,
+      accountId: notification.accountId,
+      timestamp: notification.timestamp,
+    });
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (this.config.secret) {
+      const timestamp = Date.now().toString();
+      headers["X-Notify-Timestamp"] = timestamp;
+      headers["X-Notify-Signature"] = signWebhookPayload(this.config.secret, timestamp, body);
+    }
+    await postJson(this.config.url, body, headers);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 通知渠道与路由配置
+ *
+ * 配置方式：
+ * - 未设置 NOTIFICATION_CONFIG_PATH：由环境变量启用渠道（SMTP_* 邮件、TELEGRAM_*、DISCORD_WEBHOOK_URL、
+ *   SLACK_WEBHOOK_URL、NOTIFY_WEBHOOK_URL），所有事件发送到所有已启用渠道，NOTIFY_MIN_LEVEL 控制最低级别
+ * - 设置 NOTIFICATION_CONFIG_PATH：从 JSON 文件加载渠道和路由规则（格式见 notifications.example.json），
+ *   密钥和 Webhook 地址只从环境变量读取（*Env 字段指定变量名）
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { createLogger } from "../utils/logger";
+import { DiscordChannel } from "./channels/DiscordChannel";
+import { EmailChannel } from "./channels/EmailChannel";
+import { SlackChannel } from "./channels/SlackChannel";
+import { TelegramChannel } from "./channels/TelegramChannel";
+import { WebhookChannel } from "./channels/WebhookChannel";
+import type { NotificationRoute, NotifierOptions } from "./Notifier";
+import { AlertLevel, NOTIFICATION_EVENT_TYPES, type NotificationChannel, type NotificationEventType } from "./types";
+
+const logger = createLogger({
+  name: "notifier",
+  level: "info",
+});
+
+interface LoadedNotificationConfig {
+  channels: NotificationChannel[];
+  routes: NotificationRoute[];
+  dedupWindowSeconds?: number;
+  rateLimitPerMinute?: number;
+}
+
+function parseLevel(value: unknown, where: string): AlertLevel {
+  const level = String(value).toUpperCase();
+  if (!Object.values(AlertLevel).includes(level as AlertLevel)) {
+    throw new Error(`${where} 的告警级别无效: "${value}"，可选值: ${Object.values(AlertLevel).join(", ")}`);
+  }
+  return level as AlertLevel;
+}
+
+function readEnv(name: unknown, where: string): string {
+  const value = name ? process.env[String(name)] : undefined;
+  if (!value) {
+    throw new Error(`${where} 的环境变量 ${name || "(未指定)"} 未设置`);
+  }
+  return value;
+}
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = Number.parseFloat(process.env[name] || "");
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * 由 SMTP_* 环境变量构建邮件渠道（未配置完整时返回 null）
+ */
+function buildEmailChannelFromEnv(id: string, to?: string): EmailChannel | null {
+  const { SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, ALERT_EMAIL_FROM, ALERT_EMAIL_TO } = process.env;
+  const recipient = to || ALERT_EMAIL_TO;
+  if (!SMTP_HOST || !SMTP_PORT || !SMTP_USER || !SMTP_PASS || !ALERT_EMAIL_FROM || !recipient) {
+    return null;
+  }
+  return new EmailChannel(id, {
+    host: SMTP_HOST,
+    port: Number.parseInt(SMTP_PORT),
+    user: SMTP_USER,
+    pass: SMTP_PASS,
+    from: ALERT_EMAIL_FROM,
+    to: recipient,
+  });
+}
+
+/**
+ * 校验并创建配置文件中的单个渠道
+ */
+function parseChannel(raw: any, index: number): NotificationChannel {
+  const id = String(raw?.id || "").trim();
+  if (!/^[A-Za-z0-9_.-]+$/.test(id)) {
+    throw new Error(`通知渠道 #${index + 1} 的 id 无效: "${raw?.id}"`);
+  }
+  const where = `通知渠道 ${id}`;
+
+  switch (raw.type) {
+    case "email": {
+      const channel = buildEmailChannelFromEnv(id, raw.to);
+      if (!channel) {
+        throw new Error(`${where} 需要配置 SMTP_HOST、SMTP_PORT、SMTP_USER、SMTP_PASS、ALERT_EMAIL_FROM 环境变量`);
+      }
+      return channel;
+    }
+    case "telegram":
+      if (!raw.chatId) {
+        throw new Error(`${where} 缺少 chatId`);
+      }
+      return new TelegramChannel(id, {
+        botToken: readEnv(raw.botTokenEnv, where),
+        chatId: String(raw.chatId),
+        apiBaseURL: raw.apiBaseURL,
+      });
+    case "discord":
+      return new DiscordChannel(id, readEnv(raw.webhookUrlEnv, where));
+    case "slack":
+      return new SlackChannel(id, readEnv(raw.webhookUrlEnv, where));
+    case "webhook":
+      if (!raw.url && !raw.urlEnv) {
+        throw new Error(`${where} 缺少 url 或 urlEnv`);
+      }
+      return new WebhookChannel(id, {
+        url: raw.urlEnv ? readEnv(raw.urlEnv, where) : String(raw.url),
+        secret: raw.secretEnv ? readEnv(raw.secretEnv, where) : undefined,
+        headers: raw.headers,
+      });
+    default:
+      throw new Error(`${where} 的类型无效: "${raw.type}"，可选值: email, telegram, discord, slack, webhook`);
+  }
+}
+
+/**
+ * 校验路由规则
+ */
+function parseRoute(raw: any, index: number, channelIds: Set<string>): NotificationRoute {
+  const where = `通知路由 #${index + 1}`;
+  const channels: string[] = Array.isArray(raw?.channels) ? raw.channels.map(String) : [];
+  if (channels.length === 0) {
+    throw new Error(`${where} 缺少 channels`);
+  }
+  const unknown = channels.filter(id => !channelIds.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`${where} 引用了不存在的渠道: ${unknown.join(", ")}`);
+  }
+
+  const events: NotificationEventType[] | undefined = raw.events === undefined ? undefined : [].concat(raw.events);
+  const invalidEvents = (events || []).filter(e => !NOTIFICATION_EVENT_TYPES.includes(e));
+  if (invalidEvents.length > 0) {
+    throw new Error(`${where} 的事件类型无效: ${invalidEvents.join(", ")}，可选值: ${NOTIFICATION_EVENT_TYPES.join(", ")}`);
+  }
+
+  return {
+    events,
+    minLevel: raw.minLevel !== undefined ? parseLevel(raw.minLevel, where) : undefined,
+    channels,
+  };
+}
+
+/**
+ * 从配置文件加载
+ */
+function loadFromFile(path: string): LoadedNotificationConfig {
+  if (!existsSync(path)) {
+    throw new Error(`通知配置文件不存在: ${path}`);
+  }
+
+  const content = JSON.parse(readFileSync(path, "utf-8"));
+  const rawChannels = Array.isArray(content.channels) ? content.channels : [];
+  const channels = rawChannels.map((raw: any, index: number) => parseChannel(raw, index));
+  const ids = new Set<string>();
+  for (const channel of channels) {
+    if (ids.has(channel.id)) {
+      throw new Error(`通知渠道ID重复: ${channel.id}`);
+    }
+    ids.add(channel.id);
+  }
+
+  // 未配置路由时所有事件发送到所有渠道
+  const routes = Array.isArray(content.routes)
+    ? content.routes.map((raw: any, index: number) => parseRoute(raw, index, ids))
+    : [{ channels: [...ids] }];
+
+  return {
+    channels,
+    routes,
+    dedupWindowSeconds: content.dedupWindowSeconds,
+    rateLimitPerMinute: content.rateLimitPerMinute,
+  };
+}
+
+/**
+ * 由环境变量启用渠道
+ */
+function loadFromEnv(): LoadedNotificationConfig {
+  const channels: NotificationChannel[] = [];
+
+  const email = buildEmailChannelFromEnv("email");
+  if (email) {
+    channels.push(email);
+  }
+  if (process.env.TELEGRAM_BOT_TOKEN && process.env.TELEGRAM_CHAT_ID) {
+    channels.push(new TelegramChannel("telegram", {
+      botToken: process.env.TELEGRAM_BOT_TOKEN,
+      chatId: process.env.TELEGRAM_CHAT_ID,
+    }));
+  }
+  if (process.env.DISCORD_WEBHOOK_URL) {
+    channels.push(new DiscordChannel("discord", process.env.DISCORD_WEBHOOK_URL));
+  }
+  if (process.env.SLACK_WEBHOOK_URL) {
+    channels.push(new SlackChannel("slack", process.env.SLACK_WEBHOOK_URL));
+  }
+  if (process.env.NOTIFY_WEBHOOK_URL) {
+    channels.push(new WebhookChannel("webhook", {
+      url: process.env.NOTIFY_WEBHOOK_URL,
+      secret: process.env.NOTIFY_WEBHOOK_SECRET || undefined,
+    }));
+  }
+
+  const minLevel = process.env.NOTIFY_MIN_LEVEL ? parseLevel(process.env.NOTIFY_MIN_LEVEL, "NOTIFY_MIN_LEVEL") : undefined;
+  return {
+    channels,
+    routes: channels.length > 0 ? [{ minLevel, channels: channels.map(c => c.id) }] : [],
+  };
+}
+
+/**
+ * 加载通知配置
+ */
+export function loadNotifierOptions(): NotifierOptions {
+  const configPath = process.env.NOTIFICATION_CONFIG_PATH;
+  const loaded = configPath ? loadFromFile(configPath) : loadFromEnv();
+
+  const options: NotifierOptions = {
+    channels: loaded.channels,
+    routes: loaded.routes,
+    dedupWindowMs: (loaded.dedupWindowSeconds ?? getNumberEnv("NOTIFY_DEDUP_WINDOW_SECONDS", 300)) * 1000,
+    rateLimitPerMinute: loaded.rateLimitPerMinute ?? getNumberEnv("NOTIFY_RATE_LIMIT_PER_MINUTE", 20),
+  };
+
+  if (options.channels.length === 0) {
+    logger.info('未配置通知渠道，告警和交易提醒将仅记录日志');
+    logger.info('如需启用，请配置 SMTP_*、TELEGRAM_BOT_TOKEN/TELEGRAM_CHAT_ID、DISCORD_WEBHOOK_URL、SLACK_WEBHOOK_URL、NOTIFY_WEBHOOK_URL 或 NOTIFICATION_CONFIG_PATH');
+  } else {
+    logger.info(`✅ 通知渠道: ${options.channels.map(c => `${c.id}(${c.type})`).join(", ")}`);
+  }
+  return options;
+}
@@ -0,0 +1,61 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 聊天类渠道（Telegram、Discord、Slack）使用的纯文本格式
+ */
+import { AlertLevel, type Notification } from "./types";
+
+export const LEVEL_EMOJI: Record<AlertLevel, string> = {
+  [AlertLevel.INFO]: "ℹ️",
+  [AlertLevel.WARNING]: "⚠️",
+  [AlertLevel.ERROR]: "❌",
+  [AlertLevel.CRITICAL]: "🚨",
+};
+
+/**
+ * 详细信息转为 "键: 值" 行（嵌套对象序列化为 JSON）
+ */
+export function formatNotificationDetails(details: any): string[] {
+  if (details === undefined || details === null) {
+    return [];
+  }
+  if (typeof details !== "object" || Array.isArray(details)) {
+    return [typeof details === "string" ? details : JSON.stringify(details)];
+  }
+  return Object.entries(details).map(([key, value]) =>
+    `${key}: ${value !== null && typeof value === "object" ? JSON.stringify(value) : String(value)}`);
+}
+
+/**
+ * 标题 + 消息 + 详细信息，超出长度时截断
+ */
+export function formatNotificationText(notification: Notification, maxLength: number = 3500): string {
+  const lines = [
+    `${LEVEL_EMOJI[notification.level]} [${notification.level}] ${notification.title}`,
+    notification.message,
+  ];
+  const details = formatNotificationDetails(notification.details);
+  if (details.length > 0) {
+    lines.push("", ...details);
+  }
+  lines.push("", `时间: ${notification.timestamp}`);
+
+  const text = lines.join("\n");
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+}
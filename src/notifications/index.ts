@@ -0,0 +1,93 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 通知服务
+ * 健康检查告警、交易提醒、熔断事件统一经此发送，按路由规则分发到邮件、Telegram、Discord、Slack、Webhook 渠道
+ */
+import { createLogger } from "../utils/logger";
+import { loadNotifierOptions } from "./config";
+import { Notifier, type NotifyResult } from "./Notifier";
+import type { NotificationInput, TradeNotification } from "./types";
+
+export { Notifier, type NotificationRoute, type NotifierOptions, type NotifyResult } from "./Notifier";
+export { signWebhookPayload } from "./channels/WebhookChannel";
+export * from "./types";
+
+const logger = createLogger({
+  name: "notifier",
+  level: "info",
+});
+
+let notifierInstance: Notifier | null = null;
+
+/**
+ * 获取通知分发器（首次调用时加载配置）
+ */
+export function getNotifier(): Notifier {
+  if (!notifierInstance) {
+    notifierInstance = new Notifier(loadNotifierOptions());
+  }
+  return notifierInstance;
+}
+
+/**
+ * 启动时加载通知配置（配置错误时尽早失败）
+ */
+export function initializeNotifier(): void {
+  getNotifier();
+}
+
+/**
+ * 重置通知分发器（主要用于测试）
+ */
+export function resetNotifier(): void {
+  notifierInstance = null;
+}
+
+/**
+ * 配置加载失败时返回 null（只记录日志，不影响调用方）
+ */
+function tryGetNotifier(): Notifier | null {
+  try {
+    return getNotifier();
+  } catch (error: any) {
+    logger.error(`通知配置加载失败: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * 发送通知（不会抛出异常）
+ */
+export async function notify(input: NotificationInput): Promise<NotifyResult> {
+  const notifier = tryGetNotifier();
+  return notifier
+    ? notifier.notify(input)
+    : { deduplicated: false, delivered: [], failed: [], rateLimited: [] };
+}
+
+/**
+ * 发送交易提醒（不会抛出异常）
+ */
+export async function notifyTrade(trade: TradeNotification): Promise<NotifyResult> {
+  const notifier = tryGetNotifier();
+  return notifier
+    ? notifier.notifyTrade(trade)
+    : { deduplicated: false, delivered: [], failed: [], rateLimited: [] };
+}
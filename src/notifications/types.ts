@@ -0,0 +1,120 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 通知类型定义
+ */
+
+export enum AlertLevel {
+  INFO = 'INFO',
+  WARNING = 'WARNING',
+  ERROR = 'ERROR',
+  CRITICAL = 'CRITICAL'
+}
+
+/**
+ * 告警级别排序（路由规则的 minLevel 按此比较）
+ */
+export const ALERT_LEVEL_ORDER: Record<AlertLevel, number> = {
+  [AlertLevel.INFO]: 0,
+  [AlertLevel.WARNING]: 1,
+  [AlertLevel.ERROR]: 2,
+  [AlertLevel.CRITICAL]: 3,
+};
+
+/**
+ * 通知事件类型（路由规则按事件类型分发到渠道）
+ * - health_check: 健康检查、持仓一致性、自动修复
+ * - trade: 开仓/平仓提醒
+ * - circuit_breaker: 交易所 API 熔断、IP 封禁
+ * - trading_state: 回撤熔断状态切换
+ * - system: 其他系统消息
+ */
+export type NotificationEventType = 'health_check' | 'trade' | 'circuit_breaker' | 'trading_state' | 'system';
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = ['health_check', 'trade', 'circuit_breaker', 'trading_state', 'system'];
+
+export interface AlertMessage {
+  level: AlertLevel;
+  title: string;
+  message: string;
+  details?: any;
+  timestamp?: string;
+}
+
+/**
+ * 发送给渠道的通知
+ */
+export interface Notification extends AlertMessage {
+  event: NotificationEventType;
+  timestamp: string;
+  accountId: string;
+}
+
+/**
+ * 发送通知的参数
+ */
+export interface NotificationInput extends AlertMessage {
+  event: NotificationEventType;
+  /** 去重键，默认 事件类型 + 级别 + 标题；去重窗口内相同键的通知只发送一次 */
+  dedupKey?: string;
+  /** 默认取当前账户上下文 */
+  accountId?: string;
+}
+
+export type NotificationChannelType = 'email' | 'telegram' | 'discord' | 'slack' | 'webhook';
+
+/**
+ * 通知渠道
+ */
+export interface NotificationChannel {
+  readonly id: string;
+  readonly type: NotificationChannelType;
+  /** 发送失败时抛出异常 */
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * 交易提醒信息接口
+ */
+export interface TradeNotification {
+  type: 'open' | 'close';
+  symbol: string;
+  side: 'long' | 'short';
+  quantity: number;
+  price: number;
+  leverage: number;
+  // 开仓特有字段
+  margin?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  liquidationPrice?: number;
+  marketState?: string;
+  strategyType?: string;
+  opportunityScore?: number;
+  // 平仓特有字段
+  entryPrice?: number;
+  exitPrice?: number;
+  pnl?: number;
+  pnlPercent?: number;
+  fee?: number;
+  closeReason?: string;
+  totalBalance?: number;
+  orderId?: string;
+  timestamp?: string;
+}
@@ -0,0 +1,199 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 提示词回放命令行工具
+ *
+ * 用法：
+ *   tsx --env-file=.env ./src/replay/cli.ts list [--limit 20] [--account main]
+ *   tsx --env-file=.env ./src/replay/cli.ts run --ids 12,15 [--provider backup] [--model x/new-model] [--prompt compact|full|recorded] [--actions-only]
+ *   tsx --env-file=.env ./src/replay/cli.ts run --last 10 [--account main] ...
+ *
+ * 说明：
+ *   - 快照由交易循环在每个 AI 决策周期自动保存（PROMPT_SNAPSHOT_ENABLED=false 关闭）
+ *   - 默认用当前代码从快照输入重新生成提示词（--prompt 指定精简版/完整版，recorded 使用当时的原始提示词）
+ *   - --provider 选择模型供应商链中的供应商，--model 覆盖其模型名称
+ *   - 回放使用桩工具：查询返回快照中记录的结果，交易操作只模拟成功，不会访问交易所或下单
+ *   - 输出回放与实盘工具调用序列的差异（= 相同，~ 参数变化，- 仅实盘执行，+ 仅回放执行）
+ */
+import { createClient } from "@libsql/client";
+import { loadPromptSnapshots } from "./promptSnapshots";
+
+// 解析命令行参数（--actions-only 为开关参数）
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options: Record<string, string> = {};
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'list';
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) continue;
+    if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      options[args[i].slice(2)] = args[i + 1];
+      i++;
+    } else {
+      options[args[i].slice(2)] = 'true';
+    }
+  }
+
+  return { command, options };
+}
+
+function parseIds(value: string): number[] {
+  const ids = value.split(',').map(s => Number.parseInt(s.trim()));
+  if (ids.some(id => !Number.isFinite(id))) {
+    throw new Error(`无效的快照ID: ${value}`);
+  }
+  return ids;
+}
+
+async function main() {
+  const { command, options } = parseArgs();
+
+  const dbClient = createClient({
+    url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+  });
+
+  if (command === 'list') {
+    const snapshots = await loadPromptSnapshots(dbClient, {
+      accountId: options.account,
+      limit: options.limit ? Number.parseInt(options.limit) : 20,
+    });
+    if (snapshots.length === 0) {
+      console.log('暂无提示词快照');
+      return;
+    }
+    for (const snapshot of snapshots) {
+      const actions = snapshot.toolCalls === null ? '未完成' : `${snapshot.toolCalls.length} 次工具调用`;
+      console.log(`#${snapshot.id}  ${snapshot.timestamp}  [${snapshot.accountId}] 第${snapshot.iteration}次  ${snapshot.strategy}/${snapshot.decisionMode}/${snapshot.promptMode}  ${snapshot.providerId ?? '-'}(${snapshot.model ?? '-'})  ${actions}`);
+    }
+    return;
+  }
+
+  if (command === 'run') {
+    if (!options.ids && !options.last) {
+      throw new Error('缺少参数 --ids 或 --last');
+    }
+    const promptOption = options.prompt;
+    if (promptOption && !['compact', 'full', 'recorded'].includes(promptOption)) {
+      throw new Error(`无效的提示词参数 --prompt: ${promptOption}（可选：compact, full, recorded）`);
+    }
+
+    const snapshots = await loadPromptSnapshots(dbClient, options.ids
+      ? { ids: parseIds(options.ids), accountId: options.account }
+      : { accountId: options.account, limit: Number.parseInt(options.last) });
+    const completed = snapshots.filter(s => s.toolCalls !== null);
+    if (completed.length < snapshots.length) {
+      console.log(`⚠️ 跳过 ${snapshots.length - completed.length} 个未完成决策的快照`);
+    }
+    if (completed.length === 0) {
+      throw new Error('没有可回放的快照');
+    }
+
+    const { getAccount, getPrimaryAccount } = await import("../config/accounts");
+    const { getDefaultLLMProvider, getLLMProviderChain } = await import("../agents/llmProviders");
+    const { runWithAccount } = await import("../utils/accountContext");
+    const { createTradingAgent, generateTradingPrompt } = await import("../agents/tradingAgent");
+    const { generateCompactPrompt } = await import("../agents/compactPrompt");
+    const { executeStructuredDecision } = await import("../services/structuredDecisionExecutor");
+    const { createReplayToolExecutor, createStubTools } = await import("./replayTools");
+    const { diffToolCalls, formatToolCallDiff } = await import("./toolCallDiff");
+
+    let provider = getDefaultLLMProvider();
+    if (options.provider) {
+      const found = getLLMProviderChain().find(p => p.id === options.provider);
+      if (!found || found.type === 'rule') {
+        throw new Error(`未找到模型供应商: ${options.provider}`);
+      }
+      provider = found;
+    }
+    if (options.model) {
+      provider = { ...provider, model: options.model };
+    }
+    const actionsOnly = options['actions-only'] === 'true';
+    console.log(`🔁 回放 ${completed.length} 个快照，模型 ${provider.id}(${provider.model})${actionsOnly ? '，只对比交易操作' : ''}\n`);
+
+    let identical = 0;
+    for (const snapshot of completed) {
+      const account = getAccount(snapshot.accountId) ?? getPrimaryAccount();
+      const promptMode = promptOption ?? snapshot.promptMode;
+      // Agent 指令按 USE_COMPACT_PROMPT 选择精简版或完整版，与提示词保持一致
+      process.env.USE_COMPACT_PROMPT = promptMode === 'full' ? 'false' : 'true';
+
+      const replayed = await runWithAccount({ ...account, strategy: snapshot.strategy }, async () => {
+        const inputs = snapshot.inputs;
+        const prompt = promptMode === 'recorded'
+          ? snapshot.prompt
+          : promptMode === 'full'
+          ? await generateTradingPrompt(inputs)
+          : await generateCompactPrompt(inputs);
+
+        const executor = createReplayToolExecutor(snapshot.toolCalls ?? []);
+        const structuredOutput = snapshot.decisionMode === 'structured';
+        const agentResponse = await createTradingAgent(inputs.intervalMinutes, provider, {
+          structuredOutput,
+          mapTools: tools => createStubTools(tools, executor),
+        }).generateText(prompt, {
+          maxOutputTokens: promptMode === 'full' ? 8192 : 4096,
+          maxSteps: 20,
+          temperature: 0.4,
+          maxRetries: provider.maxRetries,
+        });
+        if (structuredOutput) {
+          // 结构化模式：决策对象经风控检查后由桩工具执行，调用同样记录在执行器中
+          const stub = (name: string) => ({
+            name,
+            execute: async (args: Record<string, unknown>) => executor.execute(name, args),
+          });
+          try {
+            await executeStructuredDecision(agentResponse.text, {
+              accountInfo: inputs.accountInfo,
+              positions: inputs.positions,
+              marketData: inputs.marketData,
+              tools: {
+                openPosition: stub('openPosition'),
+                closePosition: stub('closePosition'),
+                updatePositionStopLoss: stub('updatePositionStopLoss'),
+              },
+            });
+          } catch (error: any) {
+            console.log(`⚠️ 快照 #${snapshot.id} 回放的决策对象无效: ${error.message}`);
+          }
+        }
+        return executor.calls;
+      });
+
+      const diff = diffToolCalls(snapshot.toolCalls ?? [], replayed, { actionsOnly });
+      if (diff.identical) identical++;
+      console.log(`#${snapshot.id} ${snapshot.timestamp} [${snapshot.accountId}] 第${snapshot.iteration}次  实盘 ${snapshot.providerId ?? '-'}(${snapshot.model ?? '-'})  ${diff.identical ? '✅ 一致' : '⚠️ 不一致'}`);
+      console.log(formatToolCallDiff(diff));
+      console.log(`  相同 ${diff.counts.same} / 参数变化 ${diff.counts.changed} / 仅实盘 ${diff.counts.removed} / 仅回放 ${diff.counts.added}\n`);
+    }
+
+    console.log(`📊 回放结果: ${identical}/${completed.length} 个快照的工具调用序列与实盘一致`);
+    return;
+  }
+
+  throw new Error(`未知命令: ${command}（可用命令：list, run）`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ 回放失败:', error);
+    process.exit(1);
+  });
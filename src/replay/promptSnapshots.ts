@@ -0,0 +1,199 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 提示词输入快照
+ * 
+ * 每个 AI 决策周期保存生成提示词的全部输入（collectMarketData 行情、持仓、账户、近期决策、组合风险、熔断状态），
+ * 决策完成后补充实际执行的工具调用序列；回放工具用当前代码重新生成提示词并与之对比。
+ */
+import type { Client } from "@libsql/client";
+import type { PortfolioRiskSnapshot } from "../services/portfolioRiskEngine";
+import type { TradingStateRecord } from "../services/tradingStateMachine";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import type { RecordedToolCall } from "./replayTools";
+
+const logger = createLogger({
+  name: "prompt-snapshots",
+  level: "info",
+});
+
+export type PromptMode = "compact" | "full";
+
+/**
+ * generateTradingPrompt / generateCompactPrompt 的输入
+ */
+export interface PromptSnapshotInputs {
+  minutesElapsed: number;
+  iteration: number;
+  intervalMinutes: number;
+  marketData: any;
+  accountInfo: any;
+  positions: any[];
+  tradeHistory: any[];
+  recentDecisions: any[];
+  closeEvents: any[];
+  portfolioRisk: PortfolioRiskSnapshot | null;
+  tradingState: TradingStateRecord | null;
+}
+
+export interface PromptSnapshot {
+  id: number;
+  accountId: string;
+  decisionId: number | null;
+  timestamp: string;
+  iteration: number;
+  strategy: string;
+  decisionMode: string;
+  promptMode: PromptMode;
+  providerId: string | null;
+  model: string | null;
+  inputs: PromptSnapshotInputs;
+  prompt: string;
+  toolCalls: RecordedToolCall[] | null;   // 决策未完成（如全部供应商失败）时为 null
+}
+
+export interface PromptSnapshotFilter {
+  ids?: number[];
+  accountId?: string;
+  limit?: number;
+}
+
+/**
+ * 是否保存提示词快照（PROMPT_SNAPSHOT_ENABLED=false 关闭）
+ */
+export function isPromptSnapshotEnabled(): boolean {
+  return process.env.PROMPT_SNAPSHOT_ENABLED !== "false";
+}
+
+/**
+ * 保存提示词输入快照，返回快照ID（失败只记录错误，不影响交易周期）
+ */
+export async function savePromptSnapshot(
+  dbClient: Client,
+  snapshot: {
+    inputs: PromptSnapshotInputs;
+    prompt: string;
+    promptMode: PromptMode;
+    decisionMode: string;
+    strategy: string;
+  },
+): Promise<number | null> {
+  try {
+    const result = await dbClient.execute({
+      sql: `INSERT INTO prompt_snapshots
+            (account_id, timestamp, iteration, strategy, decision_mode, prompt_mode, inputs_json, prompt)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        getCurrentAccountId(),
+        getChinaTimeISO(),
+        snapshot.inputs.iteration,
+        snapshot.strategy,
+        snapshot.decisionMode,
+        snapshot.promptMode,
+        JSON.stringify(snapshot.inputs),
+        snapshot.prompt,
+      ],
+    });
+    return Number(result.lastInsertRowid);
+  } catch (error) {
+    logger.error("保存提示词快照失败:", error as any);
+    return null;
+  }
+}
+
+/**
+ * 决策完成后关联决策记录、实际使用的模型和执行的工具调用
+ */
+export async function completePromptSnapshot(
+  dbClient: Client,
+  snapshotId: number,
+  result: {
+    decisionId: number;
+    providerId: string | null;
+    model: string | null;
+    toolCalls: RecordedToolCall[];
+  },
+): Promise<void> {
+  try {
+    await dbClient.execute({
+      sql: `UPDATE prompt_snapshots
+            SET decision_id = ?, provider_id = ?, model = ?, tool_calls_json = ?
+            WHERE id = ? AND account_id = ?`,
+      args: [
+        result.decisionId,
+        result.providerId,
+        result.model,
+        JSON.stringify(result.toolCalls),
+        snapshotId,
+        getCurrentAccountId(),
+      ],
+    });
+  } catch (error) {
+    logger.error(`更新提示词快照 #${snapshotId} 失败:`, error as any);
+  }
+}
+
+function toSnapshot(row: any): PromptSnapshot {
+  return {
+    id: Number(row.id),
+    accountId: row.account_id as string,
+    decisionId: row.decision_id === null ? null : Number(row.decision_id),
+    timestamp: row.timestamp as string,
+    iteration: Number(row.iteration),
+    strategy: row.strategy as string,
+    decisionMode: row.decision_mode as string,
+    promptMode: row.prompt_mode === "full" ? "full" : "compact",
+    providerId: (row.provider_id as string | null) ?? null,
+    model: (row.model as string | null) ?? null,
+    inputs: JSON.parse(row.inputs_json as string),
+    prompt: row.prompt as string,
+    toolCalls: row.tool_calls_json ? JSON.parse(row.tool_calls_json as string) : null,
+  };
+}
+
+/**
+ * 加载快照（指定ID时按ID顺序返回，否则返回最近的 limit 条，按时间正序）
+ */
+export async function loadPromptSnapshots(dbClient: Client, filter: PromptSnapshotFilter = {}): Promise<PromptSnapshot[]> {
+  const conditions: string[] = [];
+  const args: Array<string | number> = [];
+  if (filter.ids && filter.ids.length > 0) {
+    conditions.push(`id IN (${filter.ids.map(() => "?").join(", ")})`);
+    args.push(...filter.ids);
+  }
+  if (filter.accountId) {
+    conditions.push("account_id = ?");
+    args.push(filter.accountId);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  const result = await dbClient.execute({
+    sql: `SELECT * FROM prompt_snapshots ${where} ORDER BY id DESC LIMIT ?`,
+    args: [...args, filter.ids?.length || filter.limit || 20],
+  });
+  const snapshots = result.rows.map(toSnapshot);
+
+  if (filter.ids && filter.ids.length > 0) {
+    const order = new Map(filter.ids.map((id, index) => [id, index]));
+    return snapshots.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+  }
+  return snapshots.reverse();
+}
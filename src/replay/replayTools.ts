@@ -0,0 +1,117 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回放桩工具
+ *
+ * 回放时 Agent 使用与实盘同名、同参数的工具，但执行结果取自快照中记录的工具调用，
+ * 不访问交易所、不写入交易数据：
+ *   1. 同名且参数相同的记录调用 → 返回记录的结果
+ *   2. 同名且币种相同的记录调用 → 返回记录的结果（参数细节不同，如杠杆或金额）
+ *   3. 交易操作 → 返回模拟成功，不实际下单
+ *   4. 其余查询 → 返回失败，提示快照中没有该数据
+ */
+import { createTool, type Tool } from "@voltagent/core";
+import { TRADING_ACTION_TOOLS } from "../agents/llmFallbackChain";
+
+/**
+ * 一次工具调用（名称、参数和返回结果）
+ */
+export interface RecordedToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+  result: unknown;
+}
+
+export interface ReplayToolExecutor {
+  execute(tool: string, args: Record<string, unknown>): unknown;
+  calls: RecordedToolCall[];   // 回放过程中的工具调用序列
+}
+
+/**
+ * 从 Agent 响应的 steps 中提取工具调用序列
+ * （AI SDK 使用 input/output，规则引擎与结构化决策使用 args/result）
+ */
+export function extractToolCalls(steps: any[]): RecordedToolCall[] {
+  const calls: RecordedToolCall[] = [];
+  for (const step of steps) {
+    const results = new Map<string, unknown>();
+    for (const toolResult of step.toolResults || []) {
+      results.set(toolResult.toolCallId, toolResult.output ?? toolResult.result);
+    }
+    for (const toolCall of step.toolCalls || []) {
+      if (!toolCall.toolName) continue;
+      calls.push({
+        tool: toolCall.toolName,
+        args: toolCall.input ?? toolCall.args ?? {},
+        result: results.has(toolCall.toolCallId) ? results.get(toolCall.toolCallId) : null,
+      });
+    }
+  }
+  return calls;
+}
+
+function sameArgs(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  return JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort());
+}
+
+/**
+ * 创建回放执行器，每条记录的调用最多被匹配一次
+ */
+export function createReplayToolExecutor(recorded: RecordedToolCall[]): ReplayToolExecutor {
+  const used = new Set<number>();
+  const calls: RecordedToolCall[] = [];
+
+  const take = (predicate: (call: RecordedToolCall) => boolean): RecordedToolCall | null => {
+    const index = recorded.findIndex((call, i) => !used.has(i) && predicate(call));
+    if (index === -1) return null;
+    used.add(index);
+    return recorded[index];
+  };
+
+  return {
+    calls,
+    execute(tool, args) {
+      const match = take(call => call.tool === tool && sameArgs(call.args, args))
+        ?? (args.symbol !== undefined ? take(call => call.tool === tool && call.args.symbol === args.symbol) : null);
+
+      let result: unknown;
+      if (match) {
+        result = match.result;
+      } else if (TRADING_ACTION_TOOLS.has(tool)) {
+        result = { success: true, replay: true, message: "回放模式：操作未实际执行" };
+      } else {
+        result = { success: false, replay: true, message: "回放模式：快照中没有该工具调用的结果" };
+      }
+      calls.push({ tool, args, result });
+      return result;
+    },
+  };
+}
+
+/**
+ * 用回放执行器替换工具实现（保留名称、描述和参数定义，Agent 看到的工具与实盘一致）
+ */
+export function createStubTools(tools: Tool<any, any>[], executor: ReplayToolExecutor): Tool<any, any>[] {
+  return tools.map(tool => createTool({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    execute: async (args: Record<string, unknown>) => executor.execute(tool.name, args),
+  }) as Tool<any, any>);
+}
@@ -0,0 +1,164 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 工具调用序列对比
+ *
+ * 按工具名做最长公共子序列对齐，对齐上的调用再逐个比较参数，
+ * 得到 相同 / 参数变化 / 仅实盘执行 / 仅回放执行 四类差异。
+ */
+import { TRADING_ACTION_TOOLS } from "../agents/llmFallbackChain";
+import type { RecordedToolCall } from "./replayTools";
+
+export type ToolCallDiffKind = "same" | "changed" | "removed" | "added";
+
+export interface ToolArgChange {
+  key: string;
+  recorded: unknown;
+  replayed: unknown;
+}
+
+export interface ToolCallDiffEntry {
+  kind: ToolCallDiffKind;
+  tool: string;
+  recorded: RecordedToolCall | null;   // 实盘执行的调用
+  replayed: RecordedToolCall | null;   // 回放产生的调用
+  argChanges: ToolArgChange[];
+}
+
+export interface ToolCallDiff {
+  entries: ToolCallDiffEntry[];
+  identical: boolean;
+  counts: Record<ToolCallDiffKind, number>;
+}
+
+export interface ToolCallDiffOptions {
+  actionsOnly?: boolean;         // 只对比交易操作（开平仓、撤单、止损止盈），忽略查询类工具
+  numericTolerance?: number;     // 数值参数的相对误差容忍度，默认 0.001
+}
+
+function sameValue(a: unknown, b: unknown, tolerance: number): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    const scale = Math.max(Math.abs(a), Math.abs(b));
+    return scale === 0 || Math.abs(a - b) / scale <= tolerance;
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a.toUpperCase() === b.toUpperCase();
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compareArgs(recorded: Record<string, unknown>, replayed: Record<string, unknown>, tolerance: number): ToolArgChange[] {
+  const keys = new Set([...Object.keys(recorded), ...Object.keys(replayed)]);
+  const changes: ToolArgChange[] = [];
+  for (const key of [...keys].sort()) {
+    if (!sameValue(recorded[key], replayed[key], tolerance)) {
+      changes.push({ key, recorded: recorded[key], replayed: replayed[key] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * 对比实盘执行与回放的工具调用序列
+ */
+export function diffToolCalls(
+  recorded: RecordedToolCall[],
+  replayed: RecordedToolCall[],
+  options: ToolCallDiffOptions = {},
+): ToolCallDiff {
+  const tolerance = options.numericTolerance ?? 0.001;
+  const filter = (calls: RecordedToolCall[]) =>
+    options.actionsOnly ? calls.filter(call => TRADING_ACTION_TOOLS.has(call.tool)) : calls;
+  const a = filter(recorded);
+  const b = filter(replayed);
+
+  // 最长公共子序列（按工具名）
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].tool === b[j].tool
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const entries: ToolCallDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].tool === b[j].tool) {
+      const argChanges = compareArgs(a[i].args, b[j].args, tolerance);
+      entries.push({
+        kind: argChanges.length > 0 ? "changed" : "same",
+        tool: a[i].tool,
+        recorded: a[i],
+        replayed: b[j],
+        argChanges,
+      });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      entries.push({ kind: "removed", tool: a[i].tool, recorded: a[i], replayed: null, argChanges: [] });
+      i++;
+    } else {
+      entries.push({ kind: "added", tool: b[j].tool, recorded: null, replayed: b[j], argChanges: [] });
+      j++;
+    }
+  }
+
+  const counts: Record<ToolCallDiffKind, number> = { same: 0, changed: 0, removed: 0, added: 0 };
+  for (const entry of entries) {
+    counts[entry.kind]++;
+  }
+
+  return {
+    entries,
+    identical: counts.changed === 0 && counts.removed === 0 && counts.added === 0,
+    counts,
+  };
+}
+
+function formatArgs(args: Record<string, unknown>): string {
+  return Object.entries(args).map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(", ");
+}
+
+/**
+ * 格式化为命令行输出（= 相同，~ 参数变化，- 仅实盘执行，+ 仅回放执行）
+ */
+export function formatToolCallDiff(diff: ToolCallDiff): string {
+  const lines: string[] = [];
+  for (const entry of diff.entries) {
+    if (entry.kind === "same") {
+      lines.push(`  = ${entry.tool}(${formatArgs(entry.recorded?.args ?? {})})`);
+    } else if (entry.kind === "changed") {
+      lines.push(`  ~ ${entry.tool}`);
+      for (const change of entry.argChanges) {
+        lines.push(`      ${change.key}: ${JSON.stringify(change.recorded)} → ${JSON.stringify(change.replayed)}`);
+      }
+    } else if (entry.kind === "removed") {
+      lines.push(`  - ${entry.tool}(${formatArgs(entry.recorded?.args ?? {})})`);
+    } else {
+      lines.push(`  + ${entry.tool}(${formatArgs(entry.replayed?.args ?? {})})`);
+    }
+  }
+  if (lines.length === 0) {
+    lines.push("  （无工具调用）");
+  }
+  return lines.join("\n");
+}
@@ -25,6 +25,9 @@ import { createLogger } from "../utils/logger";
 import { createClient } from "@libsql/client";
 import { getExchangeClient } from "../exchanges";
 import { getChinaTimeISO } from "../utils/timeUtils";
+import { getAccounts } from "../config/accounts";
+import { getCurrentAccountId, runWithAccount } from "../utils/accountContext";
+import { isComponentPaused } from "./schedulerControl";
 
 const logger = createLogger({
   name: "account-recorder",
@@ -41,7 +44,7 @@ const dbClient = createClient({
  * Record account assets including unrealized PnL
  * 记录账户资产（包含未实现盈亏）
  */
-async function recordAccountAssets() {
+export async function recordAccountAssets() {
   try {
     const exchangeClient = getExchangeClient();
     
@@ -61,9 +64,11 @@ async function recordAccountAssets() {
     const totalBalance = accountTotal + unrealisedPnl;
     
     // Get initial balance from database
-    const initialResult = await dbClient.execute(
-      "SELECT total_value FROM account_history ORDER BY timestamp ASC LIMIT 1"
-    );
+    const accountId = getCurrentAccountId();
+    const initialResult = await dbClient.execute({
+      sql: "SELECT total_value FROM account_history WHERE account_id = ? ORDER BY timestamp ASC LIMIT 1",
+      args: [accountId],
+    });
     const initialBalance = initialResult.rows[0]
       ? Number.parseFloat(initialResult.rows[0].total_value as string)
       : totalBalance; // Use current balance as initial if no history exists
@@ -77,9 +82,10 @@ async function recordAccountAssets() {
     // Save to database
     await dbClient.execute({
       sql: `INSERT INTO account_history 
-            (timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent)
-            VALUES (?, ?, ?, ?, ?, ?)`,
+            (account_id, timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
       args: [
+        accountId,
         getChinaTimeISO(),
         totalBalance,
         availableBalance,
@@ -90,7 +96,7 @@ async function recordAccountAssets() {
     });
     
     logger.info(
-      `📊 Account recorded: Total=${totalBalance.toFixed(2)} USDT, ` +
+      `📊 [${accountId}] Account recorded: Total=${totalBalance.toFixed(2)} USDT, ` +
       `Available=${availableBalance.toFixed(2)} USDT, ` +
       `Unrealized PnL=${unrealisedPnl >= 0 ? '+' : ''}${unrealisedPnl.toFixed(2)} USDT, ` +
       `Return=${returnPercent >= 0 ? '+' : ''}${returnPercent.toFixed(2)}%`
@@ -100,6 +106,19 @@ async function recordAccountAssets() {
   }
 }
 
+/**
+ * Record assets for every registered account
+ * 依次记录所有交易账户的资产
+ */
+async function recordAllAccountAssets() {
+  for (const account of getAccounts()) {
+    if (isComponentPaused("account-recorder", account.id)) {
+      continue;
+    }
+    await runWithAccount(account, () => recordAccountAssets());
+  }
+}
+
 /**
  * Start account recorder
  * 启动账户资产记录器
@@ -112,12 +131,12 @@ export function startAccountRecorder() {
   logger.info(`Starting account recorder, interval: ${intervalMinutes} minutes`);
   
   // Execute immediately on startup
-  recordAccountAssets();
+  recordAllAccountAssets();
   
   // Schedule periodic recording
   const cronExpression = `*/${intervalMinutes} * * * *`;
   cron.schedule(cronExpression, () => {
-    recordAccountAssets();
+    recordAllAccountAssets();
   });
   
   logger.info(`Account recorder scheduled: ${cronExpression}`);
@@ -28,6 +28,7 @@
  */
 
 import { createLogger } from "../utils/logger";
+import { getCurrentAccountId } from "../utils/accountContext";
 import type { Client } from "@libsql/client";
 import type { IExchangeClient } from "../exchanges/IExchangeClient";
 
@@ -136,7 +137,8 @@ export class DataConsistencyChecker {
 
     // 2. 获取数据库持仓
     const dbPositionsResult = await this.dbClient.execute({
-      sql: `SELECT symbol, side, quantity FROM positions ORDER BY symbol`
+      sql: `SELECT symbol, side, quantity FROM positions WHERE account_id = ? ORDER BY symbol`,
+      args: [getCurrentAccountId()]
     });
     logger.info(`数据库持仓数: ${dbPositionsResult.rows.length}`);
 
@@ -193,7 +195,8 @@ export class DataConsistencyChecker {
 
     // 5. 检查孤儿条件单（持仓已平但条件单仍活跃）
     const activePriceOrders = await this.dbClient.execute({
-      sql: `SELECT id, order_id, symbol, side, type FROM price_orders WHERE status = 'active'`
+      sql: `SELECT id, order_id, symbol, side, type FROM price_orders WHERE account_id = ? AND status = 'active'`,
+      args: [getCurrentAccountId()]
     });
     
     for (const order of activePriceOrders.rows) {
@@ -294,8 +297,8 @@ export class DataConsistencyChecker {
   private async removePosition(symbol: string, side: string) {
     try {
       await this.dbClient.execute({
-        sql: `DELETE FROM positions WHERE symbol = ? AND side = ?`,
-        args: [symbol, side]
+        sql: `DELETE FROM positions WHERE account_id = ? AND symbol = ? AND side = ?`,
+        args: [getCurrentAccountId(), symbol, side]
       });
       logger.debug(`  ✅ 已删除持仓记录`);
     } catch (error: any) {
@@ -310,8 +313,8 @@ export class DataConsistencyChecker {
     try {
       const result = await this.dbClient.execute({
         sql: `SELECT order_id FROM price_orders 
-              WHERE symbol = ? AND side = ? AND status = 'active'`,
-        args: [symbol, side]
+              WHERE account_id = ? AND symbol = ? AND side = ? AND status = 'active'`,
+        args: [getCurrentAccountId(), symbol, side]
       });
 
       for (const row of result.rows) {
@@ -343,8 +346,8 @@ export class DataConsistencyChecker {
       await this.dbClient.execute({
         sql: `UPDATE price_orders 
               SET status = ?, updated_at = ?
-              WHERE order_id = ?`,
-        args: [status, now, orderId]
+              WHERE account_id = ? AND order_id = ?`,
+        args: [status, now, getCurrentAccountId(), orderId]
       });
       logger.debug(`  ✅ 已更新条件单状态: ${orderId} -> ${status}`);
     } catch (error: any) {
@@ -15,9 +15,12 @@
 import { createClient } from "@libsql/client";
 import { getExchangeClient } from "../exchanges";
 import { createLogger } from "../utils/logger";
-import { emailAlertService, AlertLevel } from "../utils/emailAlert";
-import { positionStateManager } from "../utils/positionStateManager";
+import { AlertLevel, notify } from "../notifications";
+import { getActivePositionLocks } from "../services/positionLock";
 import { PartialTakeProfitExecutor } from "../services/partialTakeProfitExecutor";
+import { getAccounts } from "../config/accounts";
+import { getCurrentAccountId, runWithAccount } from "../utils/accountContext";
+import { isComponentPaused } from "./schedulerControl";
 
 const logger = createLogger({
   name: "health-check",
@@ -45,7 +48,8 @@ class AlertTracker {
     
     // 连续失败3次，发送告警
     if (this.healthCheckFailures >= 3) {
-      emailAlertService.sendAlert({
+      notify({
+        event: 'health_check',
         level: AlertLevel.ERROR,
         title: '健康检查连续失败',
         message: `健康检查已连续失败 ${this.healthCheckFailures} 次，系统可能存在严重问题`,
@@ -78,7 +82,8 @@ class AlertTracker {
         
         // 连续增长2次，发送告警
         if (this.inconsistentGrowthCount >= 2) {
-          emailAlertService.sendAlert({
+          notify({
+            event: 'health_check',
             level: AlertLevel.CRITICAL,
             title: '不一致状态持续增长',
             message: `系统检测到 ${count} 个未解决的不一致状态，且数量持续增长，需要立即人工介入`,
@@ -119,7 +124,8 @@ class AlertTracker {
     if (failureDuration >= 1 * 60 * 1000) {
       logger.error(`🚨 交易所API已连续不可用 ${failureMinutes} 分钟 ${failureSeconds % 60} 秒`);
       
-      emailAlertService.sendAlert({
+      notify({
+        event: 'health_check',
         level: AlertLevel.ERROR,
         title: '交易所API连续不可用',
         message: `交易所API已连续不可用 ${failureMinutes} 分钟，请检查网络连接和API密钥`,
@@ -174,10 +180,9 @@ interface HealthCheckResult {
 }
 
 /**
- * 缓存的健康检查结果（避免频繁执行完整检查）
+ * 缓存的健康检查结果（避免频繁执行完整检查，按账户缓存）
  */
-let cachedHealthResult: HealthCheckResult | null = null;
-let lastCheckTime = 0;
+const healthResultCache = new Map<string, { result: HealthCheckResult; checkTime: number }>();
 const CACHE_TTL = 60 * 1000; // 缓存有效期：60秒
 
 /**
@@ -187,9 +192,11 @@ const CACHE_TTL = 60 * 1000; // 缓存有效期：60秒
 export async function performHealthCheck(forceCheck = false): Promise<HealthCheckResult> {
   // 如果有缓存且未过期，直接返回缓存结果
   const now = Date.now();
-  if (!forceCheck && cachedHealthResult && (now - lastCheckTime) < CACHE_TTL) {
-    logger.debug(`[系统健康检查] 返回缓存结果 (缓存时间: ${Math.floor((now - lastCheckTime) / 1000)}秒)`);
-    return cachedHealthResult;
+  const accountId = getCurrentAccountId();
+  const cached = healthResultCache.get(accountId);
+  if (!forceCheck && cached && (now - cached.checkTime) < CACHE_TTL) {
+    logger.debug(`[系统健康检查] 返回缓存结果 (缓存时间: ${Math.floor((now - cached.checkTime) / 1000)}秒)`);
+    return cached.result;
   }
   
   const startTime = Date.now();
@@ -249,12 +256,13 @@ export async function performHealthCheck(forceCheck = false): Promise<HealthChec
       sql: `
         SELECT po.order_id, po.symbol, po.side, po.type, po.created_at
         FROM price_orders po
-        LEFT JOIN positions p ON po.symbol = p.symbol AND po.side = p.side
-        WHERE po.status = 'active' 
+        LEFT JOIN positions p ON po.account_id = p.account_id AND po.symbol = p.symbol AND po.side = p.side
+        WHERE po.account_id = ?
+        AND po.status = 'active' 
         AND p.symbol IS NULL
         AND po.created_at < ?
       `,
-      args: [graceTimeISO]
+      args: [accountId, graceTimeISO]
     });
     
     if (orphanOrders.rows.length > 0) {
@@ -299,8 +307,8 @@ export async function performHealthCheck(forceCheck = false): Promise<HealthChec
           await dbClient.execute({
             sql: `UPDATE price_orders 
                   SET status = 'cancelled', updated_at = ?
-                  WHERE order_id = ?`,
-            args: [new Date().toISOString(), order.order_id]
+                  WHERE account_id = ? AND order_id = ?`,
+            args: [new Date().toISOString(), accountId, order.order_id]
           });
         }
       }
@@ -313,11 +321,14 @@ export async function performHealthCheck(forceCheck = false): Promise<HealthChec
     // ========== 检查项4: 未解决的不一致状态 ==========
     logger.debug('检查4: 不一致状态...');
     
-    const inconsistentStates = await dbClient.execute(`
-      SELECT * FROM inconsistent_states 
-      WHERE resolved = 0 
-      ORDER BY created_at DESC
-    `);
+    const inconsistentStates = await dbClient.execute({
+      sql: `
+        SELECT * FROM inconsistent_states 
+        WHERE account_id = ? AND resolved = 0 
+        ORDER BY created_at DESC
+      `,
+      args: [accountId]
+    });
     
     if (inconsistentStates.rows.length > 0) {
       details.inconsistentStates = inconsistentStates.rows.length;
@@ -340,7 +351,10 @@ export async function performHealthCheck(forceCheck = false): Promise<HealthChec
     try {
       const exchangeClient = getExchangeClient();
       const exchangePositions = await exchangeClient.getPositions();
-      const dbPositions = await dbClient.execute('SELECT symbol, side FROM positions');
+      const dbPositions = await dbClient.execute({
+        sql: 'SELECT symbol, side FROM positions WHERE account_id = ?',
+        args: [accountId]
+      });
       
       // 解析持仓大小的辅助函数
       const parsePositionSize = (size: any): number => {
@@ -373,18 +387,18 @@ export async function performHealthCheck(forceCheck = false): Promise<HealthChec
       let onlyInDB = [...dbKeys].filter(k => !exchangeKeys.has(k));
       
       // 🔧 关键修复：过滤掉正在进行开仓/平仓操作的品种，避免误判
-      const activeOperations = positionStateManager.getActiveOperations();
+      const activeOperations = await getActivePositionLocks(dbClient);
       if (activeOperations.length > 0) {
         logger.debug(`📝 检测到 ${activeOperations.length} 个正在进行的操作，将跳过这些品种的检查`);
         
         for (const op of activeOperations) {
           const key = `${op.symbol}_${op.side}`;
           
-          if (op.operation === 'opening') {
+          if (op.purpose === 'opening') {
             // 正在开仓：忽略"交易所有但数据库没有"的警告
             onlyInExchange = onlyInExchange.filter(k => k !== key);
             logger.debug(`  跳过正在开仓的品种: ${key}`);
-          } else if (op.operation === 'closing') {
+          } else if (op.purpose === 'closing') {
             // 正在平仓：忽略"数据库有但交易所没有"的警告
             onlyInDB = onlyInDB.filter(k => k !== key);
             logger.debug(`  跳过正在平仓的品种: ${key}`);
@@ -470,7 +484,8 @@ export async function performHealthCheck(forceCheck = false): Promise<HealthChec
               `${d.symbol} ${d.side}: reversalScore=${d.reversalScore}`
             ).join(', ');
             
-            emailAlertService.sendAlert({
+            notify({
+              event: 'health_check',
               level: AlertLevel.WARNING,
               title: '健康检查触发反转平仓',
               message: `健康检查检测到 ${reversalResult.closed} 个持仓需要紧急平仓，反转监控线程可能未及时处理`,
@@ -545,12 +560,23 @@ export async function performHealthCheck(forceCheck = false): Promise<HealthChec
   }
   
   // 更新缓存
-  cachedHealthResult = result;
-  lastCheckTime = Date.now();
+  healthResultCache.set(accountId, { result, checkTime: Date.now() });
   
   return result;
 }
 
+/**
+ * 依次对所有交易账户执行健康检查
+ */
+async function performAllAccountsHealthCheck() {
+  for (const account of getAccounts()) {
+    if (isComponentPaused("health-check", account.id)) {
+      continue;
+    }
+    await runWithAccount(account, () => performHealthCheck(true));
+  }
+}
+
 /**
  * 启动健康检查定时任务
  */
@@ -564,13 +590,13 @@ export function startHealthCheck() {
   logger.info('='.repeat(80));
   
   // 立即执行一次（强制检查）
-  performHealthCheck(true).catch(error => {
+  performAllAccountsHealthCheck().catch(error => {
     logger.error('[系统健康检查] 初始检查失败:', error);
   });
   
   // 定时执行（强制检查）
   setInterval(() => {
-    performHealthCheck(true).catch(error => {
+    performAllAccountsHealthCheck().catch(error => {
       logger.error('[系统健康检查] 定时检查失败:', error);
     });
   }, intervalMinutes * 60 * 1000);
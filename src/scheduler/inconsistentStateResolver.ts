@@ -16,7 +16,10 @@ import { createClient } from "@libsql/client";
 import { getExchangeClient } from "../exchanges";
 import { createLogger } from "../utils/logger";
 import { getQuantoMultiplier } from "../utils/contractUtils";
-import { emailAlertService, AlertLevel } from "../utils/emailAlert";
+import { AlertLevel, notify } from "../notifications";
+import { getAccount } from "../config/accounts";
+import { getCurrentAccountId, runWithAccount } from "../utils/accountContext";
+import { isComponentPaused } from "./schedulerControl";
 
 const logger = createLogger({
   name: "inconsistent-state-resolver",
@@ -44,7 +47,8 @@ class ResolveFailureTracker {
 
     // 单个状态连续失败超过5次
     if (count >= 5) {
-      emailAlertService.sendAlert({
+      notify({
+        event: 'health_check',
         level: AlertLevel.ERROR,
         title: '自动修复连续失败',
         message: `状态ID ${stateId} 已连续修复失败 ${count} 次，需要人工介入`,
@@ -73,7 +77,8 @@ class ResolveFailureTracker {
     // 连续失败超过10次（多个不同状态）
     if (this.consecutiveFailures >= 10) {
       const failedCount = this.failedStates.size;
-      emailAlertService.sendAlert({
+      notify({
+        event: 'health_check',
         level: AlertLevel.CRITICAL,
         title: '自动修复系统异常',
         message: `自动修复服务已连续失败 ${this.consecutiveFailures} 次，涉及 ${failedCount} 个不同状态，系统可能存在严重问题`,
@@ -151,7 +156,16 @@ export class InconsistentStateResolver {
         const state: any = row;
         
         try {
-          const resolved = await this.resolveState(state);
+          // 在不一致状态所属账户的上下文中修复（使用该账户的交易所客户端）
+          const account = getAccount(state.account_id);
+          if (!account) {
+            logger.warn(`不一致状态 #${state.id} 所属账户 ${state.account_id} 未注册，跳过`);
+            continue;
+          }
+          if (isComponentPaused("inconsistent-state-resolver", account.id)) {
+            continue;
+          }
+          const resolved = await runWithAccount(account, () => this.resolveState(state));
           
           if (resolved) {
             // 标记为已解决
@@ -249,9 +263,9 @@ export class InconsistentStateResolver {
       // 3. 查询开仓信息（用于计算盈亏）
       const openTradeResult = await dbClient.execute({
         sql: `SELECT * FROM trades 
-              WHERE symbol = ? AND side = ? AND type = 'open' 
+              WHERE account_id = ? AND symbol = ? AND side = ? AND type = 'open' 
               ORDER BY timestamp DESC LIMIT 1`,
-        args: [symbol, side]
+        args: [getCurrentAccountId(), symbol, side]
       });
 
       if (openTradeResult.rows.length === 0) {
@@ -301,57 +315,54 @@ export class InconsistentStateResolver {
         pnlPercent = (netPnl / margin) * 100;
       }
 
-      // 5. 开启事务补充数据库记录
+      // 5. 在同一个事务中补充数据库记录（任一步失败整体回滚）
       const timestamp = new Date().toISOString();
-      await dbClient.execute('BEGIN TRANSACTION');
+      const accountId = getCurrentAccountId();
 
       try {
-        // 删除持仓记录
-        await dbClient.execute({
-          sql: 'DELETE FROM positions WHERE symbol = ? AND side = ?',
-          args: [symbol, side]
-        });
-
-        // 更新条件单状态
-        await dbClient.execute({
-          sql: `UPDATE price_orders 
-                SET status = 'cancelled', updated_at = ?
-                WHERE symbol = ? AND side = ? AND status = 'active'`,
-          args: [timestamp, symbol, side]
-        });
-
-        // 插入交易记录
-        await dbClient.execute({
-          sql: `INSERT INTO trades 
-                (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          args: [
-            exchange_order_id, symbol, side, 'close',
-            exitPrice, quantity, leverage, netPnl, totalFee, timestamp, 'filled'
-          ]
-        });
-
-        // 插入平仓事件
-        await dbClient.execute({
-          sql: `INSERT INTO position_close_events 
-                (symbol, side, entry_price, close_price, quantity, leverage,
-                 pnl, pnl_percent, fee, close_reason, trigger_type, order_id,
-                 created_at, processed)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          args: [
-            symbol, side, entryPrice, exitPrice, quantity, leverage,
-            netPnl, pnlPercent, totalFee, 'system_recovered', 'auto_fix',
-            exchange_order_id, timestamp, 1
-          ]
-        });
-
-        await dbClient.execute('COMMIT');
+        await dbClient.batch([
+          // 删除持仓记录
+          {
+            sql: 'DELETE FROM positions WHERE account_id = ? AND symbol = ? AND side = ?',
+            args: [accountId, symbol, side]
+          },
+          // 更新条件单状态
+          {
+            sql: `UPDATE price_orders 
+                  SET status = 'cancelled', updated_at = ?
+                  WHERE account_id = ? AND symbol = ? AND side = ? AND status = 'active'`,
+            args: [timestamp, accountId, symbol, side]
+          },
+          // 插入交易记录
+          {
+            sql: `INSERT INTO trades 
+                  (account_id, order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+              accountId, exchange_order_id, symbol, side, 'close',
+              exitPrice, quantity, leverage, netPnl, totalFee, timestamp, 'filled'
+            ]
+          },
+          // 插入平仓事件
+          {
+            sql: `INSERT INTO position_close_events 
+                  (account_id, symbol, side, entry_price, close_price, quantity, leverage,
+                   pnl, pnl_percent, fee, close_reason, trigger_type, order_id,
+                   created_at, processed)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+              accountId, symbol, side, entryPrice, exitPrice, quantity, leverage,
+              netPnl, pnlPercent, totalFee, 'system_recovered', 'auto_fix',
+              exchange_order_id, timestamp, 1
+            ]
+          },
+        ], 'write');
+
         logger.info(`✅ 已补充 ${symbol} 的平仓记录`);
         return true;
 
       } catch (dbError: any) {
-        await dbClient.execute('ROLLBACK');
-        logger.error('补充数据库记录失败:', dbError);
+        logger.error('补充数据库记录失败，已回滚:', dbError);
         return false;
       }
 
@@ -23,14 +23,20 @@
 /**
  * 条件单监控服务
  * 定期检测条件单触发情况，更新数据库状态，记录平仓交易
+ * 交易所订单推送在线时由触发/成交事件驱动检测，轮询降级为低频兜底核对
  */
+import { AsyncResource } from "node:async_hooks";
 import { createLogger } from "../utils/logger";
-import { getChinaTimeISO } from "../utils/timeUtils";
+import { getChinaTimeISO, nowMs } from "../utils/timeUtils";
 import { getQuantoMultiplier } from "../utils/contractUtils";
 import { FeeService } from "../services/feeService";
 import { extractOrderId, createOrderIdMap } from "../utils/orderIdExtractor";
+import { DEFAULT_ACCOUNT_ID } from "../utils/accountContext";
+import { isComponentPaused } from "./schedulerControl";
+import { withPositionLock } from "../services/positionLock";
 import type { Client } from "@libsql/client";
 import type { IExchangeClient } from "../exchanges/IExchangeClient";
+import type { ExchangeStream, OrderUpdateEvent } from "../exchanges/streams/ExchangeStream";
 
 /**
  * 统一格式化成交数据，兼容币安和Gate.io
@@ -47,7 +53,7 @@ function formatTradeRecord(trade: any): {
     price: trade.price?.toString() || trade.avgPrice?.toString() || trade.deal_price?.toString() || '0',
     size: trade.size?.toString() || trade.qty?.toString() || trade.amount?.toString() || '0',
     fee: trade.fee?.toString() || trade.commission?.toString() || trade.fee_amount?.toString() || '0',
-    timestamp: Number(trade.timestamp || trade.time || trade.create_time || Date.now()),
+    timestamp: Number(trade.timestamp || trade.time || trade.create_time || nowMs()),
   };
 }
 
@@ -56,6 +62,9 @@ const logger = createLogger({
   level: "info",
 });
 
+// 订单事件触发检测前的等待时间：合并同一批推送，并等待交易所 REST 接口反映成交
+const EVENT_CHECK_DEBOUNCE_MS = 2000;
+
 interface DBPriceOrder {
   id: number;
   order_id: string;
@@ -71,10 +80,17 @@ export class PriceOrderMonitor {
   private checkInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
   private feeService: FeeService;
+  private lastCheckAt = 0;
+  private eventCheckTimer: NodeJS.Timeout | null = null;
+  private streamUnsubscribers: Array<() => void> = [];
   
+  /**
+   * @param accountId 所属交易账户ID（多账户运行时每个账户一个监控实例）
+   */
   constructor(
     private dbClient: Client,
-    private exchangeClient: IExchangeClient
+    private exchangeClient: IExchangeClient,
+    private accountId: string = DEFAULT_ACCOUNT_ID
   ) {
     this.feeService = new FeeService(exchangeClient);
   }
@@ -96,16 +112,72 @@ export class PriceOrderMonitor {
     logger.info('立即执行首次检测，捕获系统离线期间的平仓事件...');
     await this.checkTriggeredOrders();
 
+    // 订阅订单推送（交易所客户端启用了 WebSocket 数据流时）
+    const stream = this.exchangeClient.getMarketStream?.() || null;
+    if (stream) {
+      this.attachStream(stream);
+    }
+    const fallbackSeconds = Number.parseInt(process.env.PRICE_ORDER_STREAM_FALLBACK_INTERVAL || '300');
+
     // 定期执行
     this.checkInterval = setInterval(async () => {
+      // 订单推送在线时由事件驱动检测，轮询只按兜底间隔核对一次
+      if (stream?.isUserDataActive() && Date.now() - this.lastCheckAt < fallbackSeconds * 1000) {
+        return;
+      }
       await this.checkTriggeredOrders();
     }, intervalSeconds * 1000);
   }
 
+  /**
+   * 订阅订单推送：条件单触发、平仓成交或数据流重连后立即检测
+   * 监听器绑定到启动时的异步上下文（多账户运行时保持所属账户）
+   */
+  private attachStream(stream: ExchangeStream) {
+    const onOrderUpdate = AsyncResource.bind((event: OrderUpdateEvent) => {
+      const closed = event.status === 'filled' && event.reduceOnly;
+      const priceOrderDone = event.isPriceOrder && event.status !== 'open' && event.status !== 'partially_filled';
+      if (closed || priceOrderDone) {
+        this.scheduleEventCheck(`${event.contract} 订单 ${event.orderId} ${event.status}`);
+      }
+    });
+    const onResync = AsyncResource.bind((reason: string) => {
+      this.scheduleEventCheck(`数据流重新同步(${reason})`);
+    });
+    this.streamUnsubscribers.push(stream.onOrderUpdate(onOrderUpdate), stream.onResync(onResync));
+    logger.info(`📡 [${this.accountId}] 已订阅 ${stream.getExchangeName()} 订单推送，条件单触发将实时检测`);
+  }
+
+  /**
+   * 合并短时间内的多个事件，延迟后执行一次检测（检测进行中时顺延）
+   */
+  private scheduleEventCheck(reason: string) {
+    if (this.eventCheckTimer) {
+      return;
+    }
+    logger.info(`⚡ [${this.accountId}] ${reason}，即将检测条件单`);
+    this.eventCheckTimer = setTimeout(async () => {
+      this.eventCheckTimer = null;
+      if (this.isRunning) {
+        this.scheduleEventCheck(reason);
+        return;
+      }
+      await this.checkTriggeredOrders();
+    }, EVENT_CHECK_DEBOUNCE_MS);
+  }
+
   /**
    * 停止监控服务
    */
   stop() {
+    for (const unsubscribe of this.streamUnsubscribers) {
+      unsubscribe();
+    }
+    this.streamUnsubscribers = [];
+    if (this.eventCheckTimer) {
+      clearTimeout(this.eventCheckTimer);
+      this.eventCheckTimer = null;
+    }
     if (this.checkInterval) {
       clearInterval(this.checkInterval);
       this.checkInterval = null;
@@ -116,7 +188,11 @@ export class PriceOrderMonitor {
   /**
    * 检测已触发的条件单
    */
-  private async checkTriggeredOrders() {
+  async checkTriggeredOrders() {
+    if (isComponentPaused('price-order-monitor', this.accountId)) {
+      logger.debug(`⏸️ [${this.accountId}] 条件单监控已暂停，跳过本次检测`);
+      return;
+    }
     if (this.isRunning) {
       logger.debug('⏭️  上一次检测尚未完成，跳过本次检测');
       return;
@@ -124,6 +200,7 @@ export class PriceOrderMonitor {
 
     this.isRunning = true;
     const startTime = Date.now();
+    this.lastCheckAt = startTime;
     
     try {
       // 1. 获取数据库中active的条件单
@@ -135,7 +212,7 @@ export class PriceOrderMonitor {
 
       // 🔧 过滤掉刚创建的条件单（30秒保护窗口）
       // 原因：币安测试网API响应慢，刚创建的条件单可能1-2分钟内查不到，避免误判为"消失"
-      const now = Date.now();
+      const now = nowMs();
       const GRACE_PERIOD_MS = 30 * 1000; // 30秒保护窗口（币安测试网需要更长时间）
       const ordersToCheck = activeOrders.filter(order => {
         const createdAt = new Date(order.created_at).getTime();
@@ -236,8 +313,8 @@ export class PriceOrderMonitor {
                 // 更新数据库中的条件单ID
                 try {
                   await this.dbClient.execute({
-                    sql: 'UPDATE price_orders SET order_id = ?, updated_at = ? WHERE order_id = ?',
-                    args: [newOrderId, new Date().toISOString(), dbOrder.order_id]
+                    sql: 'UPDATE price_orders SET order_id = ?, updated_at = ? WHERE account_id = ? AND order_id = ?',
+                    args: [newOrderId, getChinaTimeISO(), this.accountId, dbOrder.order_id]
                   });
                   
                   // 更新本地对象
@@ -335,7 +412,15 @@ export class PriceOrderMonitor {
             
             if (shouldHandle) {
               logger.info(`✅ 触发检测: ${dbOrder.symbol} ${dbOrder.type} - ${detectionReason}`);
-              await this.handleTriggeredOrder(dbOrder);
+              // 持有持仓锁处理，避免与平仓工具、分批止盈、反转监控同时修改该持仓；锁被占用时下次检测重试
+              const locked = await withPositionLock(
+                this.dbClient,
+                { symbol: dbOrder.symbol, side: dbOrder.side, purpose: "closing", owner: "price-order-monitor" },
+                () => this.handleTriggeredOrder(dbOrder),
+              );
+              if (!locked.acquired) {
+                logger.info(`🔒 ${dbOrder.symbol} ${dbOrder.side} 持仓正在被 ${locked.holder ?? '其他操作'} 处理，下次检测重试`);
+              }
             }
           }
         } catch (error: any) {
@@ -363,8 +448,9 @@ export class PriceOrderMonitor {
     const result = await this.dbClient.execute({
       sql: `SELECT id, order_id, symbol, side, type, trigger_price, quantity, created_at
             FROM price_orders
-            WHERE status = 'active'
-            ORDER BY symbol, created_at DESC`
+            WHERE account_id = ? AND status = 'active'
+            ORDER BY symbol, created_at DESC`,
+      args: [this.accountId]
     });
 
     return result.rows.map(row => ({
@@ -389,8 +475,8 @@ export class PriceOrderMonitor {
     // 🔧 关键修复1：严格的幂等性检查 - 只检查trigger_order_id
     try {
       const existingEvent = await this.dbClient.execute({
-        sql: `SELECT id FROM position_close_events WHERE trigger_order_id = ? LIMIT 1`,
-        args: [order.order_id]
+        sql: `SELECT id FROM position_close_events WHERE account_id = ? AND trigger_order_id = ? LIMIT 1`,
+        args: [this.accountId, order.order_id]
       });
       
       if (existingEvent.rows.length > 0) {
@@ -405,12 +491,12 @@ export class PriceOrderMonitor {
     // 🔧 关键修复2：检查近期平仓记录（扩大时间窗口到2分钟）
     // 注意：只有完全平仓才需要去重，分批平仓不应该跳过
     try {
-      const recentCloseTime = new Date(Date.now() - 120 * 1000).toISOString(); // 2分钟
+      const recentCloseTime = new Date(nowMs() - 120 * 1000).toISOString(); // 2分钟
       const recentClose = await this.dbClient.execute({
         sql: `SELECT id, close_reason, created_at, trigger_order_id FROM position_close_events 
-              WHERE symbol = ? AND side = ? AND created_at > ?
+              WHERE account_id = ? AND symbol = ? AND side = ? AND created_at > ?
               ORDER BY created_at DESC LIMIT 1`,
-        args: [order.symbol, order.side, recentCloseTime]
+        args: [this.accountId, order.symbol, order.side, recentCloseTime]
       });
       
       if (recentClose.rows.length > 0) {
@@ -536,7 +622,7 @@ export class PriceOrderMonitor {
       logger.error(`   - 创建时间: ${order.created_at}`);
       
       // 记录不一致状态到数据库，供后续人工排查
-      const timestamp = new Date().toISOString();
+      const timestamp = getChinaTimeISO();
       
       await this.dbClient.execute('BEGIN TRANSACTION');
       try {
@@ -546,17 +632,18 @@ export class PriceOrderMonitor {
         
         // 删除持仓记录（持仓已在交易所不存在）
         await this.dbClient.execute({
-          sql: 'DELETE FROM positions WHERE symbol = ? AND side = ?',
-          args: [order.symbol, order.side]
+          sql: 'DELETE FROM positions WHERE account_id = ? AND symbol = ? AND side = ?',
+          args: [this.accountId, order.symbol, order.side]
         });
         
         // 记录到不一致状态表
         await this.dbClient.execute({
           sql: `INSERT INTO inconsistent_states 
-                (operation, symbol, side, exchange_success, db_success, 
+                (account_id, operation, symbol, side, exchange_success, db_success, 
                  exchange_order_id, error_message, created_at, resolved)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           args: [
+            this.accountId,
             'price_order_triggered_no_trade',
             order.symbol,
             order.side,
@@ -632,9 +719,9 @@ export class PriceOrderMonitor {
     let openFee: number;
     try {
       const openTradeResult = await this.dbClient.execute({
-        sql: `SELECT fee FROM trades WHERE symbol = ? AND side = ? AND type = 'open' 
+        sql: `SELECT fee FROM trades WHERE account_id = ? AND symbol = ? AND side = ? AND type = 'open' 
               ORDER BY timestamp DESC LIMIT 1`,
-        args: [order.symbol, order.side]
+        args: [this.accountId, order.symbol, order.side]
       });
       
       if (openTradeResult.rows.length > 0 && openTradeResult.rows[0].fee) {
@@ -665,7 +752,7 @@ export class PriceOrderMonitor {
     logger.info(`💰 盈亏: 毛利=${grossPnl.toFixed(2)} USDT, 手续费=${totalFee.toFixed(2)} USDT, 净利=${netPnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
 
     // 阶段5: 数据库事务操作
-    const timestamp = new Date().toISOString();
+    const timestamp = getChinaTimeISO();
     
     await this.dbClient.execute('BEGIN TRANSACTION');
     
@@ -673,8 +760,8 @@ export class PriceOrderMonitor {
       // ⭐️ 5.1 先删除持仓记录
       // 即使后续步骤失败，也不会误认为持仓存在
       await this.dbClient.execute({
-        sql: 'DELETE FROM positions WHERE symbol = ? AND side = ?',
-        args: [order.symbol, order.side]
+        sql: 'DELETE FROM positions WHERE account_id = ? AND symbol = ? AND side = ?',
+        args: [this.accountId, order.symbol, order.side]
       });
       logger.debug('✅ [事务] 步骤1: 持仓记录已删除');
       
@@ -689,9 +776,10 @@ export class PriceOrderMonitor {
       // 5.4 记录平仓交易
       await this.dbClient.execute({
         sql: `INSERT INTO trades 
-              (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              (account_id, order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
+          this.accountId,
           trade.id || order.order_id,
           order.symbol,
           order.side,
@@ -719,12 +807,12 @@ export class PriceOrderMonitor {
       
       await this.dbClient.execute({
         sql: `INSERT INTO position_close_events 
-              (symbol, side, close_reason, trigger_type, trigger_price, close_price, 
+              (account_id, symbol, side, close_reason, trigger_type, trigger_price, close_price, 
                entry_price, quantity, leverage, pnl, pnl_percent, fee, 
                trigger_order_id, close_trade_id, order_id, position_order_id, created_at, processed)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
-          order.symbol, order.side, closeReason, 'exchange_order',
+          this.accountId, order.symbol, order.side, closeReason, 'exchange_order',
           parseFloat(order.trigger_price), exitPrice, entryPrice,
           quantity, leverage, netPnl, pnlPercent, totalFee,
           order.order_id, trade.id, closeOrderId, entryOrderId || null, timestamp, 1  // 已处理
@@ -736,10 +824,10 @@ export class PriceOrderMonitor {
       await this.dbClient.execute('COMMIT');
       logger.info(`✅ [事务] ${order.symbol} ${order.type} 触发处理完成`);
       
-      // 📧 发送平仓提醒邮件
+      // 📧 发送平仓提醒（按通知路由分发到各渠道）
       try {
-        const { emailAlertService } = await import("../utils/emailAlert.js");
-        await emailAlertService.sendTradeNotification({
+        const { notifyTrade } = await import("../notifications/index.js");
+        await notifyTrade({
           type: 'close',
           symbol: order.symbol,
           side: order.side,
@@ -755,8 +843,8 @@ export class PriceOrderMonitor {
           orderId: closeOrderId,
           timestamp,
         });
-      } catch (emailError: any) {
-        logger.warn(`发送平仓提醒邮件失败: ${emailError.message}`);
+      } catch (notifyError: any) {
+        logger.warn(`发送平仓提醒失败: ${notifyError.message}`);
       }
       
     } catch (error: any) {
@@ -768,10 +856,11 @@ export class PriceOrderMonitor {
       try {
         await this.dbClient.execute({
           sql: `INSERT INTO inconsistent_states 
-                (operation, symbol, side, exchange_success, db_success, 
+                (account_id, operation, symbol, side, exchange_success, db_success, 
                  exchange_order_id, error_message, created_at, resolved)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           args: [
+            this.accountId,
             'price_order_triggered',
             order.symbol,
             order.side,
@@ -798,62 +887,28 @@ export class PriceOrderMonitor {
     
     const result = await this.dbClient.execute({
       sql: `SELECT order_id FROM price_orders 
-            WHERE symbol = ? AND side = ? AND type = ? AND status = 'active'
+            WHERE account_id = ? AND symbol = ? AND side = ? AND type = ? AND status = 'active'
             LIMIT 1`,
-      args: [triggeredOrder.symbol, triggeredOrder.side, oppositeType]
+      args: [this.accountId, triggeredOrder.symbol, triggeredOrder.side, oppositeType]
     });
     
     if (result.rows.length > 0) {
       const oppositeOrderId = result.rows[0].order_id as string;
       
-      // 🔧 优化: 先尝试在交易所端取消（兼容币安和Gate.io）
-      try {
-        const contract = this.exchangeClient.normalizeContract(triggeredOrder.symbol);
-        
-        // 检查交易所类型并调用对应的取消方法
-        const exchangeName = process.env.EXCHANGE_NAME?.toLowerCase() || 'gate';
-        
-        if (exchangeName === 'gate') {
-          // Gate.io: 使用单个订单取消API
-          const gateClient = this.exchangeClient as any;
-          if (gateClient.futuresApi && typeof gateClient.futuresApi.cancelPriceTriggeredOrder === 'function') {
-            await gateClient.futuresApi.cancelPriceTriggeredOrder(
-              gateClient.settle,
-              oppositeOrderId
-            );
-            logger.debug(`✅ 已在Gate.io交易所取消反向条件单: ${oppositeOrderId}`);
-          }
-        } else if (exchangeName === 'binance') {
-          // 🔧 币安关键修复: 使用正确的API路径和参数格式
-          const binanceClient = this.exchangeClient as any;
-          if (binanceClient.privateRequest && typeof binanceClient.privateRequest === 'function') {
-            // 币安要求symbol必须是大写且无下划线的格式 (如: ETHUSDT)
-            const symbol = contract.replace('_', '').toUpperCase();
-            
-            // 使用正确的API端点: DELETE /fapi/v1/order
-            // 参数: symbol (必需), orderId (必需)
-            await binanceClient.privateRequest('/fapi/v1/order', {
-              symbol,
-              orderId: oppositeOrderId
-            }, 'DELETE', 2);
-            
-            logger.debug(`✅ 已在Binance交易所取消反向条件单: ${oppositeOrderId} (symbol=${symbol})`);
-          }
-        }
-      } catch (cancelError: any) {
-        // 如果取消失败（订单可能已被触发或不存在），记录警告但继续更新数据库
-        // 这是正常的：币安在止损触发时会自动取消止盈单
-        const errorMsg = cancelError.message || String(cancelError);
-        if (errorMsg.includes('Unknown order') || 
-            errorMsg.includes('does not exist') ||
-            errorMsg.includes('Order does not exist')) {
-          logger.debug(`反向条件单已不在交易所（可能已被自动取消）: ${oppositeOrderId}`);
-        } else {
-          logger.warn(`⚠️ 交易所端取消反向条件单失败: ${errorMsg}`);
-        }
+      // 通过本账户的交易所客户端取消（多账户时各账户可能使用不同交易所）
+      const contract = this.exchangeClient.normalizeContract(triggeredOrder.symbol);
+      const cancelResult = await this.exchangeClient.cancelPriceOrder(contract, oppositeOrderId);
+
+      if (!cancelResult.success && !cancelResult.notFound) {
+        // 交易所未确认取消：保留 active 状态，下次检测时继续跟踪，避免数据库与交易所不一致
+        logger.warn(`⚠️ [${this.accountId}] 交易所端取消反向条件单失败: ${oppositeOrderId} - ${cancelResult.message}`);
+        return;
       }
-      
-      // 更新数据库状态（无论交易所是否成功取消）
+      if (cancelResult.notFound) {
+        // 这是正常的：部分交易所在止损触发时会自动取消止盈单
+        logger.debug(`反向条件单已不在交易所（可能已被自动取消）: ${oppositeOrderId}`);
+      }
+
       await this.updateOrderStatus(oppositeOrderId, 'cancelled');
       logger.debug(`✅ 已更新反向条件单数据库状态为cancelled: ${oppositeOrderId}`);
     }
@@ -866,7 +921,7 @@ export class PriceOrderMonitor {
   private async findCloseTrade(order: DBPriceOrder, retries: number = 3): Promise<any | null> {
     try {
       const contract = this.exchangeClient.normalizeContract(order.symbol);
-      const currentTime = Date.now();
+      const currentTime = nowMs();
       const orderCreateTime = new Date(order.created_at).getTime();
       
       // 🔧 币安条件单触发后，成交记录可能有延迟，添加重试机制
@@ -1019,12 +1074,13 @@ export class PriceOrderMonitor {
     try {
       const result = await this.dbClient.execute({
         sql: `SELECT * FROM trades 
-              WHERE symbol = ? 
+              WHERE account_id = ?
+              AND symbol = ? 
               AND side = ? 
               AND type = 'open' 
               ORDER BY timestamp DESC 
               LIMIT 1`,
-        args: [symbol, side]
+        args: [this.accountId, symbol, side]
       });
 
       return result.rows.length > 0 ? result.rows[0] : null;
@@ -1038,15 +1094,15 @@ export class PriceOrderMonitor {
    * 更新条件单状态
    */
   private async updateOrderStatus(orderId: string, status: 'triggered' | 'cancelled') {
-    const now = new Date().toISOString();
+    const now = getChinaTimeISO();
     
     await this.dbClient.execute({
       sql: `UPDATE price_orders
             SET status = ?,
                 updated_at = ?,
                 triggered_at = ?
-            WHERE order_id = ?`,
-      args: [status, now, status === 'triggered' ? now : null, orderId]
+            WHERE account_id = ? AND order_id = ?`,
+      args: [status, now, status === 'triggered' ? now : null, this.accountId, orderId]
     });
 
     logger.debug(`更新条件单状态: ${orderId} -> ${status}`);
@@ -1062,12 +1118,13 @@ export class PriceOrderMonitor {
       
       const result = await this.dbClient.execute({
         sql: `SELECT * FROM price_orders 
-              WHERE symbol = ? 
+              WHERE account_id = ?
+              AND symbol = ? 
               AND side = ? 
               AND type = ? 
               AND status = 'active'
               LIMIT 1`,
-        args: [triggeredOrder.symbol, triggeredOrder.side, oppositeType]
+        args: [this.accountId, triggeredOrder.symbol, triggeredOrder.side, oppositeType]
       });
 
       if (result.rows.length === 0) {
@@ -1149,8 +1206,8 @@ export class PriceOrderMonitor {
   private async getPositionInfo(symbol: string, side: 'long' | 'short'): Promise<any | null> {
     try {
       const result = await this.dbClient.execute({
-        sql: `SELECT * FROM positions WHERE symbol = ? AND side = ? LIMIT 1`,
-        args: [symbol, side]
+        sql: `SELECT * FROM positions WHERE account_id = ? AND symbol = ? AND side = ? LIMIT 1`,
+        args: [this.accountId, symbol, side]
       });
 
       return result.rows.length > 0 ? result.rows[0] : null;
@@ -1202,9 +1259,10 @@ export class PriceOrderMonitor {
       
       await this.dbClient.execute({
         sql: `INSERT INTO trades 
-              (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              (account_id, order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
+          this.accountId,
           trade.id,
           order.symbol,
           order.side,
@@ -1245,11 +1303,12 @@ export class PriceOrderMonitor {
       
       await this.dbClient.execute({
         sql: `INSERT INTO position_close_events 
-              (symbol, side, close_reason, trigger_type, trigger_price, close_price, entry_price, 
+              (account_id, symbol, side, close_reason, trigger_type, trigger_price, close_price, entry_price, 
                quantity, leverage, pnl, pnl_percent, fee, trigger_order_id, close_trade_id, order_id, 
                position_order_id, created_at, processed)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
+          this.accountId,
           order.symbol,
           order.side,
           closeReason,
@@ -1266,7 +1325,7 @@ export class PriceOrderMonitor {
           trade.id,
           closeOrderId,
           positionEntryOrderId,
-          new Date().toISOString(),
+          getChinaTimeISO(),
           0 // 未处理
         ]
       });
@@ -1277,8 +1336,8 @@ export class PriceOrderMonitor {
       
       // 验证记录是否成功插入
       const verifyResult = await this.dbClient.execute({
-        sql: `SELECT COUNT(*) as count FROM trades WHERE order_id = ? AND type = 'close'`,
-        args: [trade.id]
+        sql: `SELECT COUNT(*) as count FROM trades WHERE account_id = ? AND order_id = ? AND type = 'close'`,
+        args: [this.accountId, trade.id]
       });
       const recordCount = Number(verifyResult.rows[0]?.count || 0);
       if (recordCount > 0) {
@@ -1308,8 +1367,8 @@ export class PriceOrderMonitor {
   private async removePosition(symbol: string, side: 'long' | 'short') {
     try {
       await this.dbClient.execute({
-        sql: `DELETE FROM positions WHERE symbol = ? AND side = ?`,
-        args: [symbol, side]
+        sql: `DELETE FROM positions WHERE account_id = ? AND symbol = ? AND side = ?`,
+        args: [this.accountId, symbol, side]
       });
 
       logger.debug(`已删除持仓记录: ${symbol} ${side}`);
@@ -1334,8 +1393,8 @@ export class PriceOrderMonitor {
       
       // 从数据库读取持仓信息，获取正确的数量和止损价
       const dbPosition = await this.dbClient.execute({
-        sql: 'SELECT * FROM positions WHERE symbol = ? AND side = ?',
-        args: [order.symbol, order.side]
+        sql: 'SELECT * FROM positions WHERE account_id = ? AND symbol = ? AND side = ?',
+        args: [this.accountId, order.symbol, order.side]
       });
       
       if (dbPosition.rows.length === 0) {
@@ -1374,11 +1433,12 @@ export class PriceOrderMonitor {
         // 2. 插入新止损单记录
         await this.dbClient.execute({
           sql: `INSERT INTO price_orders 
-                (order_id, symbol, side, type, trigger_price, order_price, quantity, 
+                (account_id, order_id, symbol, side, type, trigger_price, order_price, quantity, 
                  status, position_order_id, created_at)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           args: [
-            newStopLossOrderId || `recreated-${Date.now()}`,
+            this.accountId,
+            newStopLossOrderId || `recreated-${nowMs()}`,
             order.symbol,
             order.side,
             'stop_loss',
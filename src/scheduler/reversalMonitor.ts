@@ -16,6 +16,9 @@
 
 import { createLogger } from "../utils/logger";
 import { ReversalMonitorExecutor } from "../services/reversalMonitorExecutor";
+import { getAccounts } from "../config/accounts";
+import { runWithAccount } from "../utils/accountContext";
+import { isComponentPaused } from "./schedulerControl";
 
 const logger = createLogger({ 
   name: "reversal-monitor", 
@@ -37,37 +40,47 @@ export function startReversalMonitor() {
   logger.info(`   阈值配置: 30分预警, 70分平仓`);
   logger.info('='.repeat(80));
   
-  // 立即执行一次
-  ReversalMonitorExecutor.executeCheck('reversal-monitor').catch(error => {
-    logger.error('[反转监控] 初始检查失败:', error);
-  });
+  // 每个交易账户独立检测（定时器继承账户上下文）
+  for (const account of getAccounts()) {
+    runWithAccount(account, () => {
+      // 立即执行一次
+      if (!isComponentPaused("reversal-monitor", account.id)) {
+        ReversalMonitorExecutor.executeCheck('reversal-monitor').catch(error => {
+          logger.error(`[反转监控][${account.id}] 初始检查失败:`, error);
+        });
+      }
   
-  // 定时执行
-  setInterval(async () => {
-    try {
-      const result = await ReversalMonitorExecutor.executeCheck('reversal-monitor');
+      // 定时执行
+      setInterval(async () => {
+        if (isComponentPaused("reversal-monitor", account.id)) {
+          return;
+        }
+        try {
+          const result = await ReversalMonitorExecutor.executeCheck('reversal-monitor');
       
-      if (result.success) {
-        if (result.closed > 0) {
-          logger.info(`✅ [反转监控] 自动平仓 ${result.closed} 个持仓`);
+          if (result.success) {
+            if (result.closed > 0) {
+              logger.info(`✅ [反转监控][${account.id}] 自动平仓 ${result.closed} 个持仓`);
           
-          // 详细记录成功平仓的持仓
-          const closedDetails = result.details.filter(d => d.action === 'closed');
-          for (const detail of closedDetails) {
-            logger.info(`  🚨 ${detail.symbol} ${detail.side} - score=${detail.reversalScore}`);
+              // 详细记录成功平仓的持仓
+              const closedDetails = result.details.filter(d => d.action === 'closed');
+              for (const detail of closedDetails) {
+                logger.info(`  🚨 ${detail.symbol} ${detail.side} - score=${detail.reversalScore}`);
+              }
+            }
+            if (result.warned > 0) {
+              logger.info(`⚠️ [反转监控][${account.id}] 发出 ${result.warned} 个预警`);
+            }
+            if (result.skipped > 0) {
+              logger.debug(`跳过 ${result.skipped} 个持仓（已平仓或锁占用）`);
+            }
           }
+        } catch (error) {
+          logger.error(`[反转监控][${account.id}] 定时检查失败:`, error);
         }
-        if (result.warned > 0) {
-          logger.info(`⚠️ [反转监控] 发出 ${result.warned} 个预警`);
-        }
-        if (result.skipped > 0) {
-          logger.debug(`跳过 ${result.skipped} 个持仓（已平仓或锁占用）`);
-        }
-      }
-    } catch (error) {
-      logger.error('[反转监控] 定时检查失败:', error);
-    }
-  }, MONITOR_INTERVAL);
+      }, MONITOR_INTERVAL);
+    });
+  }
   
   logger.info(`✅ [反转监控线程] 定时任务已启动`);
 }
@@ -0,0 +1,142 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 调度组件暂停控制
+ * 交易循环和各监控服务按账户独立暂停/恢复，暂停后定时任务跳过该账户的执行；
+ * 暂停状态持久化到 system_config 表，进程重启后保持
+ */
+import type { Client } from "@libsql/client";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import { getCurrentAccountId } from "../utils/accountContext";
+
+const logger = createLogger({
+  name: "scheduler-control",
+  level: "info",
+});
+
+/**
+ * 可暂停的调度组件
+ */
+export const SCHEDULER_COMPONENTS = [
+  "trading-loop",
+  "price-order-monitor",
+  "reversal-monitor",
+  "account-recorder",
+  "health-check",
+  "inconsistent-state-resolver",
+] as const;
+
+export type SchedulerComponent = (typeof SCHEDULER_COMPONENTS)[number];
+
+export const SCHEDULER_COMPONENT_LABELS: Record<SchedulerComponent, string> = {
+  "trading-loop": "交易循环",
+  "price-order-monitor": "条件单监控",
+  "reversal-monitor": "反转监控",
+  "account-recorder": "账户资产记录",
+  "health-check": "健康检查",
+  "inconsistent-state-resolver": "不一致状态修复",
+};
+
+export interface ComponentState {
+  component: SchedulerComponent;
+  label: string;
+  paused: boolean;
+}
+
+const PAUSE_KEY_PREFIX = "paused:";
+
+// 账户ID -> 已暂停的组件
+const pausedComponents = new Map<string, Set<SchedulerComponent>>();
+
+export function isSchedulerComponent(value: unknown): value is SchedulerComponent {
+  return typeof value === "string" && (SCHEDULER_COMPONENTS as readonly string[]).includes(value);
+}
+
+/**
+ * 组件在指定账户（默认当前账户）下是否已暂停
+ */
+export function isComponentPaused(component: SchedulerComponent, accountId: string = getCurrentAccountId()): boolean {
+  return pausedComponents.get(accountId)?.has(component) ?? false;
+}
+
+/**
+ * 暂停或恢复组件并持久化
+ * 已在执行中的周期不会被中断，暂停从下一次定时触发开始生效
+ */
+export async function setComponentPaused(
+  dbClient: Client,
+  component: SchedulerComponent,
+  paused: boolean,
+  accountId: string = getCurrentAccountId(),
+): Promise<void> {
+  await dbClient.execute({
+    sql: "INSERT OR REPLACE INTO system_config (account_id, key, value, updated_at) VALUES (?, ?, ?, ?)",
+    args: [accountId, `${PAUSE_KEY_PREFIX}${component}`, paused ? "true" : "false", getChinaTimeISO()],
+  });
+
+  let set = pausedComponents.get(accountId);
+  if (!set) {
+    set = new Set();
+    pausedComponents.set(accountId, set);
+  }
+  if (paused) {
+    set.add(component);
+  } else {
+    set.delete(component);
+  }
+  logger.warn(`${paused ? "⏸️ 已暂停" : "▶️ 已恢复"} [${accountId}] ${SCHEDULER_COMPONENT_LABELS[component]}`);
+}
+
+/**
+ * 从数据库恢复所有账户的暂停状态（启动时调用）
+ */
+export async function restorePausedComponents(dbClient: Client): Promise<void> {
+  const result = await dbClient.execute({
+    sql: "SELECT account_id, key, value FROM system_config WHERE key LIKE ?",
+    args: [`${PAUSE_KEY_PREFIX}%`],
+  });
+
+  pausedComponents.clear();
+  for (const row of result.rows) {
+    const component = String(row.key).slice(PAUSE_KEY_PREFIX.length);
+    if (!isSchedulerComponent(component) || row.value !== "true") {
+      continue;
+    }
+    const accountId = String(row.account_id);
+    let set = pausedComponents.get(accountId);
+    if (!set) {
+      set = new Set();
+      pausedComponents.set(accountId, set);
+    }
+    set.add(component);
+    logger.warn(`⏸️ [${accountId}] ${SCHEDULER_COMPONENT_LABELS[component]} 处于暂停状态（已从数据库恢复）`);
+  }
+}
+
+/**
+ * 获取指定账户（默认当前账户）下各组件的暂停状态
+ */
+export function getComponentStates(accountId: string = getCurrentAccountId()): ComponentState[] {
+  return SCHEDULER_COMPONENTS.map((component) => ({
+    component,
+    label: SCHEDULER_COMPONENT_LABELS[component],
+    paused: isComponentPaused(component, accountId),
+  }));
+}
@@ -20,16 +20,31 @@
  * 交易循环 - 定时执行交易决策
  */
 import cron from "node-cron";
+import { createHooks } from "@voltagent/core";
 import { parsePositionSize } from "../utils";
 import { createLogger } from "../utils/logger";
 import { createClient } from "@libsql/client";
-import { createTradingAgent, generateTradingPrompt, getAccountRiskConfig, getTradingStrategy, getStrategyParams } from "../agents/tradingAgent";
+import { createTradingAgent, generateTradingPrompt, getAccountRiskConfig, getTradingStrategy, getStrategyParams, type AccountRiskConfig } from "../agents/tradingAgent";
+import { executeRuleBasedDecision, getDecisionMode } from "../services/ruleBasedDecisionEngine";
+import { getLLMProviderChain, type LLMProviderConfig } from "../agents/llmProviders";
+import { executeWithFallback, recordLLMUsage, type LLMAttemptRecord } from "../agents/llmFallbackChain";
+import { executeStructuredDecision, recordStructuredDecision } from "../services/structuredDecisionExecutor";
 import { generateCompactPrompt } from "../agents/compactPrompt";
 import { getExchangeClient } from "../exchanges";
-import { getChinaTimeISO } from "../utils/timeUtils";
+import { getChinaTimeISO, nowMs } from "../utils/timeUtils";
 import { RISK_PARAMS } from "../config/riskParams";
+import { getAccounts } from "../config/accounts";
+import { getCurrentAccountId, runWithAccount } from "../utils/accountContext";
 import { getQuantoMultiplier } from "../utils/contractUtils";
+import { assessPortfolio, type PortfolioPosition, type PortfolioRiskSnapshot } from "../services/portfolioRiskEngine";
+import { completeFlatten, evaluateTradingState, TRADING_STATE_LABELS, type TradingStateRecord } from "../services/tradingStateMachine";
+import { isComponentPaused, restorePausedComponents } from "./schedulerControl";
 import { formatPrice, formatUSDT, formatPercent, formatATR, formatStopLossPrice, getDecimalPlacesBySymbol } from "../utils/priceFormatter";
+import { calculateATR, calculateEMA, calculateMACD, calculateRSI, EMA, indicatorSeries, MACD, normalizeCandles, RSI } from "../utils/indicators";
+import { completePromptSnapshot, isPromptSnapshotEnabled, savePromptSnapshot } from "../replay/promptSnapshots";
+import { acquirePositionLock } from "../services/positionLock";
+import { extractToolCalls } from "../replay/replayTools";
+import { forecastPositionFunding, getFundingSnapshot, syncFundingSettlements, type FundingSnapshot } from "../services/fundingBasis";
 
 const logger = createLogger({
   name: "trading-loop",
@@ -40,15 +55,40 @@ const dbClient = createClient({
   url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
 });
 
-// 支持的币种 - 从配置中读取
-const SYMBOLS = [...RISK_PARAMS.TRADING_SYMBOLS] as string[];
+/**
+ * 单个账户的交易循环状态（多账户运行时按账户隔离）
+ */
+interface TradingLoopState {
+  tradingStartTime: Date;              // 交易开始时间
+  iterationCount: number;              // 交易周期计数
+  accountRiskConfig: AccountRiskConfig; // 账户风险配置
+}
 
-// 交易开始时间
-let tradingStartTime = new Date();
-let iterationCount = 0;
+const loopStates = new Map<string, TradingLoopState>();
+
+/**
+ * 获取当前账户的交易循环状态（首次访问时创建）
+ */
+function getLoopState(): TradingLoopState {
+  const accountId = getCurrentAccountId();
+  let state = loopStates.get(accountId);
+  if (!state) {
+    state = {
+      tradingStartTime: new Date(),
+      iterationCount: 0,
+      accountRiskConfig: getAccountRiskConfig(),
+    };
+    loopStates.set(accountId, state);
+  }
+  return state;
+}
 
-// 账户风险配置
-let accountRiskConfig = getAccountRiskConfig();
+/**
+ * 当前账户支持的币种 - 从配置中读取（账户可覆盖 TRADING_SYMBOLS）
+ */
+function getTradingSymbols(): string[] {
+  return [...RISK_PARAMS.TRADING_SYMBOLS] as string[];
+}
 
 /**
  * 确保数值是有效的有限数字，否则返回默认值
@@ -80,7 +120,7 @@ async function collectMarketData() {
   const exchangeClient = getExchangeClient();
   const marketData: Record<string, any> = {};
 
-  for (const symbol of SYMBOLS) {
+  for (const symbol of getTradingSymbols()) {
     try {
       const contract = exchangeClient.normalizeContract(symbol);
       
@@ -137,7 +177,7 @@ async function collectMarketData() {
       const indicators = indicators5m;
       
       // 验证技术指标有效性和数据完整性
-      const dataTimestamp = new Date().toISOString();
+      const dataTimestamp = getChinaTimeISO();
       const dataQuality = {
         price: Number.isFinite(Number.parseFloat(ticker.last || "0")),
         ema20: Number.isFinite(indicators.ema20),
@@ -191,14 +231,12 @@ async function collectMarketData() {
         logger.debug(`${symbol} 数据质量检查通过 [${dataTimestamp}]`);
       }
       
-      // 获取资金费率
+      // 获取资金费率（同时记录费率和基差历史）
       let fundingRate = 0;
+      let funding: FundingSnapshot | undefined;
       try {
-        const fr = await exchangeClient.getFundingRate(contract);
-        fundingRate = Number.parseFloat(fr.r || "0");
-        if (!Number.isFinite(fundingRate)) {
-          fundingRate = 0;
-        }
+        funding = await getFundingSnapshot(dbClient, exchangeClient, symbol);
+        fundingRate = funding.rate;
       } catch (error) {
         logger.warn(`获取 ${symbol} 资金费率失败:`, error as any);
       }
@@ -213,6 +251,7 @@ async function collectMarketData() {
         change24h: Number.parseFloat(ticker.change_percentage || "0"),
         volume24h: Number.parseFloat(ticker.volume_24h || "0"),
         fundingRate,
+        funding,
         openInterest,
         ...indicators,
         // 添加时序数据（参照 1.md 格式）
@@ -232,9 +271,10 @@ async function collectMarketData() {
       // 保存技术指标到数据库（确保所有数值都是有效的）
       await dbClient.execute({
         sql: `INSERT INTO trading_signals 
-              (symbol, timestamp, price, ema_20, ema_50, macd, rsi_7, rsi_14, volume, funding_rate)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              (account_id, symbol, timestamp, price, ema_20, ema_50, macd, rsi_7, rsi_14, volume, funding_rate)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
+          getCurrentAccountId(),
           symbol,
           getChinaTimeISO(),
           ensureFinite(marketData[symbol].price),
@@ -261,24 +301,7 @@ async function collectMarketData() {
  * @param candles 全部历史数据（至少60个数据点）
  */
 function calculateIntradaySeries(candles: any[]) {
-  if (!candles || candles.length === 0) {
-    return {
-      midPrices: [],
-      ema20Series: [],
-      macdSeries: [],
-      rsi7Series: [],
-      rsi14Series: [],
-    };
-  }
-
-  // 提取收盘价
-  const closes = candles.map((c) => {
-    if (c && typeof c === 'object') {
-      if ('close' in c) return typeof c.close === 'string' ? Number.parseFloat(c.close) : c.close;
-      if ('c' in c) return typeof c.c === 'string' ? Number.parseFloat(c.c) : c.c;
-    }
-    return NaN;
-  }).filter(n => Number.isFinite(n));
+  const closes = normalizeCandles(candles).map(c => c.close);
   
   if (closes.length === 0) {
     return {
@@ -290,34 +313,16 @@ function calculateIntradaySeries(candles: any[]) {
     };
   }
 
-  // 计算每个时间点的指标
-  const midPrices = closes;
-  const ema20Series: number[] = [];
-  const macdSeries: number[] = [];
-  const rsi7Series: number[] = [];
-  const rsi14Series: number[] = [];
-
-  // 为每个数据点计算指标（使用截至该点的所有历史数据）
-  for (let i = 0; i < closes.length; i++) {
-    const historicalPrices = closes.slice(0, i + 1);
-    
-    // EMA20 - 需要至少20个数据点
-    ema20Series.push(historicalPrices.length >= 20 ? calcEMA(historicalPrices, 20) : historicalPrices[historicalPrices.length - 1]);
-    
-    // MACD - 需要至少26个数据点
-    macdSeries.push(historicalPrices.length >= 26 ? calcMACD(historicalPrices) : 0);
-    
-    // RSI7 - 需要至少8个数据点
-    rsi7Series.push(historicalPrices.length >= 8 ? calcRSI(historicalPrices, 7) : 50);
-    
-    // RSI14 - 需要至少15个数据点
-    rsi14Series.push(historicalPrices.length >= 15 ? calcRSI(historicalPrices, 14) : 50);
-  }
+  // 逐根K线增量计算指标（与最终值使用同一套实现）
+  const ema20Series = indicatorSeries(new EMA(20), closes);
+  const macdSeries = indicatorSeries(new MACD(), closes).map(v => v.macd);
+  const rsi7Series = indicatorSeries(new RSI(7), closes);
+  const rsi14Series = indicatorSeries(new RSI(14), closes);
 
   // 只返回最近10个数据点
-  const sliceIndex = Math.max(0, midPrices.length - 10);
+  const sliceIndex = Math.max(0, closes.length - 10);
   return {
-    midPrices: midPrices.slice(sliceIndex),
+    midPrices: closes.slice(sliceIndex),
     ema20Series: ema20Series.slice(sliceIndex),
     macdSeries: macdSeries.slice(sliceIndex),
     rsi7Series: rsi7Series.slice(sliceIndex),
@@ -330,7 +335,8 @@ function calculateIntradaySeries(candles: any[]) {
  * 参照 1.md 格式
  */
 function calculateLongerTermContext(candles: any[]) {
-  if (!candles || candles.length < 26) {
+  const normalized = normalizeCandles(candles);
+  if (normalized.length < 26) {
     return {
       ema20: 0,
       ema50: 0,
@@ -343,72 +349,23 @@ function calculateLongerTermContext(candles: any[]) {
     };
   }
 
-  const closes = candles.map((c) => {
-    if (c && typeof c === 'object') {
-      if ('close' in c) return typeof c.close === 'string' ? Number.parseFloat(c.close) : c.close;
-      if ('c' in c) return typeof c.c === 'string' ? Number.parseFloat(c.c) : c.c;
-    }
-    return NaN;
-  }).filter(n => Number.isFinite(n));
-  
-  const highs = candles.map((c) => {
-    if (c && typeof c === 'object') {
-      if ('high' in c) return typeof c.high === 'string' ? Number.parseFloat(c.high) : c.high;
-      if ('h' in c) return typeof c.h === 'string' ? Number.parseFloat(c.h) : c.h;
-    }
-    return NaN;
-  }).filter(n => Number.isFinite(n));
-  
-  const lows = candles.map((c) => {
-    if (c && typeof c === 'object') {
-      if ('low' in c) return typeof c.low === 'string' ? Number.parseFloat(c.low) : c.low;
-      if ('l' in c) return typeof c.l === 'string' ? Number.parseFloat(c.l) : c.l;
-    }
-    return NaN;
-  }).filter(n => Number.isFinite(n));
-  
-  const volumes = candles.map((c) => {
-    if (c && typeof c === 'object') {
-      if ('volume' in c) {
-        const vol = typeof c.volume === 'string' ? Number.parseFloat(c.volume) : c.volume;
-        return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-      }
-      if ('v' in c) {
-        const vol = typeof c.v === 'string' ? Number.parseFloat(c.v) : c.v;
-        return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-      }
-    }
-    return 0;
-  }).filter(n => Number.isFinite(n));
-
-  // 计算 EMA
-  const ema20 = calcEMA(closes, 20);
-  const ema50 = calcEMA(closes, 50);
-
-  // 计算 ATR
-  const atr3 = calcATR(highs, lows, closes, 3);
-  const atr14 = calcATR(highs, lows, closes, 14);
+  const closes = normalized.map(c => c.close);
+  const volumes = normalized.map(c => c.volume);
 
   // 计算成交量
-  const currentVolume = volumes.length > 0 ? volumes[volumes.length - 1] : 0;
-  const avgVolume = volumes.length > 0 ? volumes.reduce((a, b) => a + b, 0) / volumes.length : 0;
+  const currentVolume = volumes[volumes.length - 1];
+  const avgVolume = volumes.reduce((a, b) => a + b, 0) / volumes.length;
 
-  // 计算最近10个数据点的 MACD 和 RSI14
-  const macdSeries: number[] = [];
-  const rsi14Series: number[] = [];
-  
-  const recentPoints = Math.min(10, closes.length);
-  for (let i = closes.length - recentPoints; i < closes.length; i++) {
-    const historicalPrices = closes.slice(0, i + 1);
-    macdSeries.push(calcMACD(historicalPrices));
-    rsi14Series.push(calcRSI(historicalPrices, 14));
-  }
+  // 最近10个数据点的 MACD 和 RSI14
+  const sliceIndex = Math.max(0, closes.length - 10);
+  const macdSeries = indicatorSeries(new MACD(), closes).map(v => v.macd).slice(sliceIndex);
+  const rsi14Series = indicatorSeries(new RSI(14), closes).slice(sliceIndex);
 
   return {
-    ema20,
-    ema50,
-    atr3,
-    atr14,
+    ema20: calculateEMA(closes, 20),
+    ema50: calculateEMA(closes, 50),
+    atr3: calculateATR(normalized, 3),
+    atr14: calculateATR(normalized, 14),
     currentVolume,
     avgVolume,
     macdSeries,
@@ -416,80 +373,6 @@ function calculateLongerTermContext(candles: any[]) {
   };
 }
 
-/**
- * 计算 ATR (Average True Range)
- */
-function calcATR(highs: number[], lows: number[], closes: number[], period: number) {
-  if (highs.length < period + 1 || lows.length < period + 1 || closes.length < period + 1) {
-    return 0;
-  }
-
-  const trueRanges: number[] = [];
-  for (let i = 1; i < highs.length; i++) {
-    const high = highs[i];
-    const low = lows[i];
-    const prevClose = closes[i - 1];
-    
-    const tr = Math.max(
-      high - low,
-      Math.abs(high - prevClose),
-      Math.abs(low - prevClose)
-    );
-    trueRanges.push(tr);
-  }
-
-  // 计算平均
-  const recentTR = trueRanges.slice(-period);
-  const atr = recentTR.reduce((sum, tr) => sum + tr, 0) / recentTR.length;
-  
-  return Number.isFinite(atr) ? atr : 0;
-}
-
-// 计算 EMA
-function calcEMA(prices: number[], period: number) {
-  if (prices.length === 0) return 0;
-  const k = 2 / (period + 1);
-  let ema = prices[0];
-  for (let i = 1; i < prices.length; i++) {
-    ema = prices[i] * k + ema * (1 - k);
-  }
-  return Number.isFinite(ema) ? ema : 0;
-}
-
-// 计算 RSI
-function calcRSI(prices: number[], period: number) {
-  if (prices.length < period + 1) return 50; // 数据不足，返回中性值
-  
-  let gains = 0;
-  let losses = 0;
-
-  for (let i = prices.length - period; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    if (change > 0) gains += change;
-    else losses -= change;
-  }
-
-  const avgGain = gains / period;
-  const avgLoss = losses / period;
-  
-  if (avgLoss === 0) return avgGain > 0 ? 100 : 50;
-  
-  const rs = avgGain / avgLoss;
-  const rsi = 100 - 100 / (1 + rs);
-  
-  // 确保RSI在0-100范围内
-  return ensureRange(rsi, 0, 100, 50);
-}
-
-// 计算 MACD
-function calcMACD(prices: number[]) {
-  if (prices.length < 26) return 0; // 数据不足
-  const ema12 = calcEMA(prices, 12);
-  const ema26 = calcEMA(prices, 26);
-  const macd = ema12 - ema26;
-  return Number.isFinite(macd) ? macd : 0;
-}
-
 /**
  * 计算技术指标
  * 
@@ -505,7 +388,8 @@ function calcMACD(prices: number[]) {
  * }
  */
 function calculateIndicators(candles: any[]) {
-  if (!candles || candles.length === 0) {
+  const normalized = normalizeCandles(candles);
+  if (normalized.length === 0) {
     return {
       currentPrice: 0,
       ema20: 0,
@@ -518,74 +402,18 @@ function calculateIndicators(candles: any[]) {
     };
   }
 
-  // 处理对象格式的K线数据（统一转换为数组格式）
-  const closes = candles
-    .map((c) => {
-      // 如果是对象格式（FuturesCandlestick）
-      if (c && typeof c === 'object') {
-        // 优先使用标准化字段 close
-        if ('close' in c) {
-          return typeof c.close === 'string' ? Number.parseFloat(c.close) : c.close;
-        }
-        // 兼容原始字段 c
-        if ('c' in c) {
-          return typeof c.c === 'string' ? Number.parseFloat(c.c) : c.c;
-        }
-      }
-      // 如果是数组格式（兼容旧代码）
-      if (Array.isArray(c)) {
-        return Number.parseFloat(c[2]);
-      }
-      return NaN;
-    })
-    .filter(n => Number.isFinite(n));
-
-  const volumes = candles
-    .map((c) => {
-      // 如果是对象格式（FuturesCandlestick）
-      if (c && typeof c === 'object') {
-        // 优先使用标准化字段 volume
-        if ('volume' in c) {
-          const vol = typeof c.volume === 'string' ? Number.parseFloat(c.volume) : c.volume;
-          return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-        }
-        // 兼容原始字段 v
-        if ('v' in c) {
-          const vol = typeof c.v === 'string' ? Number.parseFloat(c.v) : c.v;
-          return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-        }
-      }
-      // 如果是数组格式（兼容旧代码）
-      if (Array.isArray(c)) {
-        const vol = Number.parseFloat(c[1]);
-        return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-      }
-      return 0;
-    })
-    .filter(n => n >= 0); // 过滤掉负数成交量
-
-  if (closes.length === 0 || volumes.length === 0) {
-    return {
-      currentPrice: 0,
-      ema20: 0,
-      ema50: 0,
-      macd: 0,
-      rsi7: 50,
-      rsi14: 50,
-      volume: 0,
-      avgVolume: 0,
-    };
-  }
+  const closes = normalized.map(c => c.close);
+  const volumes = normalized.map(c => c.volume);
 
   return {
-    currentPrice: ensureFinite(closes.at(-1) || 0),
-    ema20: ensureFinite(calcEMA(closes, 20)),
-    ema50: ensureFinite(calcEMA(closes, 50)),
-    macd: ensureFinite(calcMACD(closes)),
-    rsi7: ensureRange(calcRSI(closes, 7), 0, 100, 50),
-    rsi14: ensureRange(calcRSI(closes, 14), 0, 100, 50),
-    volume: ensureFinite(volumes.at(-1) || 0),
-    avgVolume: ensureFinite(volumes.length > 0 ? volumes.reduce((a, b) => a + b, 0) / volumes.length : 0),
+    currentPrice: ensureFinite(closes[closes.length - 1]),
+    ema20: ensureFinite(calculateEMA(closes, 20)),
+    ema50: ensureFinite(calculateEMA(closes, 50)),
+    macd: ensureFinite(calculateMACD(closes).macd),
+    rsi7: ensureRange(calculateRSI(closes, 7), 0, 100, 50),
+    rsi14: ensureRange(calculateRSI(closes, 14), 0, 100, 50),
+    volume: ensureFinite(volumes[volumes.length - 1]),
+    avgVolume: ensureFinite(volumes.reduce((a, b) => a + b, 0) / volumes.length),
   };
 }
 
@@ -598,8 +426,9 @@ async function calculateSharpeRatio(): Promise<number> {
     // 尝试获取所有账户历史数据（不限制30天）
     const result = await dbClient.execute({
       sql: `SELECT total_value, timestamp FROM account_history 
+            WHERE account_id = ?
             ORDER BY timestamp ASC`,
-      args: [],
+      args: [getCurrentAccountId()],
     });
     
     if (!result.rows || result.rows.length < 2) {
@@ -663,17 +492,19 @@ async function getAccountInfo() {
     const account = await exchangeClient.getFuturesAccount();
     
     // 从数据库获取初始资金
-    const initialResult = await dbClient.execute(
-      "SELECT total_value FROM account_history ORDER BY timestamp ASC LIMIT 1"
-    );
+    const initialResult = await dbClient.execute({
+      sql: "SELECT total_value FROM account_history WHERE account_id = ? ORDER BY timestamp ASC LIMIT 1",
+      args: [getCurrentAccountId()],
+    });
     const initialBalance = initialResult.rows[0]
       ? Number.parseFloat(initialResult.rows[0].total_value as string)
       : 100;
     
     // 从数据库获取峰值净值
-    const peakResult = await dbClient.execute(
-      "SELECT MAX(total_value) as peak FROM account_history"
-    );
+    const peakResult = await dbClient.execute({
+      sql: "SELECT MAX(total_value) as peak FROM account_history WHERE account_id = ?",
+      args: [getCurrentAccountId()],
+    });
     const peakBalance = peakResult.rows[0]?.peak 
       ? Number.parseFloat(peakResult.rows[0].peak as string)
       : initialBalance;
@@ -732,7 +563,10 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
   try {
     // 如果提供了缓存数据，使用缓存；否则重新获取
     const exchangePositions = cachedPositions || await exchangeClient.getPositions();
-    const dbResult = await dbClient.execute("SELECT symbol, sl_order_id, tp_order_id, stop_loss, profit_target, entry_order_id, opened_at, peak_pnl_percent, partial_close_percentage FROM positions");
+    const dbResult = await dbClient.execute({
+      sql: "SELECT symbol, sl_order_id, tp_order_id, stop_loss, profit_target, entry_order_id, opened_at, peak_pnl_percent, partial_close_percentage FROM positions WHERE account_id = ?",
+      args: [getCurrentAccountId()],
+    });
     const dbPositionsMap = new Map(
       dbResult.rows.map((row: any) => [row.symbol, row])
     );
@@ -761,7 +595,10 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
     }
     
     // 查询数据库的price_orders表，用于辅助判断订单类型
-    const dbPriceOrdersResult = await dbClient.execute("SELECT order_id, symbol, type, trigger_price FROM price_orders WHERE status = 'active'");
+    const dbPriceOrdersResult = await dbClient.execute({
+      sql: "SELECT order_id, symbol, type, trigger_price FROM price_orders WHERE account_id = ? AND status = 'active'",
+      args: [getCurrentAccountId()],
+    });
     const dbPriceOrdersMap = new Map<string, { type: string; triggerPrice: number }>();
     for (const row of dbPriceOrdersResult.rows) {
       dbPriceOrdersMap.set(row.order_id as string, {
@@ -823,7 +660,10 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
       priceOrdersMap.set(orderSymbol, existing);
     }
     
-    await dbClient.execute("DELETE FROM positions");
+    await dbClient.execute({
+      sql: "DELETE FROM positions WHERE account_id = ?",
+      args: [getCurrentAccountId()],
+    });
     
     let syncedCount = 0;
     
@@ -864,7 +704,7 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
       const dbPos = dbPositionsMap.get(symbol);
       
       // 保留原有的 entry_order_id，不要覆盖
-      const entryOrderId = dbPos?.entry_order_id || `synced-${symbol}-${Date.now()}`;
+      const entryOrderId = dbPos?.entry_order_id || `synced-${symbol}-${nowMs()}`;
       
       // 🔧 关键修复：优先使用交易所的条件单数据，其次使用数据库数据
       let priceOrders = priceOrdersMap.get(symbol);
@@ -900,10 +740,11 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
       
       await dbClient.execute({
         sql: `INSERT INTO positions 
-              (symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl, 
+              (account_id, symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl, 
                leverage, side, stop_loss, profit_target, sl_order_id, tp_order_id, entry_order_id, opened_at, peak_pnl_percent, partial_close_percentage)
-              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
+          getCurrentAccountId(),
           symbol,
           quantity,
           entryPrice,
@@ -917,7 +758,7 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
           slOrderId,
           tpOrderId,
           entryOrderId, // 保留原有的订单ID
-          dbPos?.opened_at || new Date().toISOString(), // 保留原有的开仓时间
+          dbPos?.opened_at || getChinaTimeISO(), // 保留原有的开仓时间
           dbPos?.peak_pnl_percent || 0, // 保留峰值盈利
           dbPos?.partial_close_percentage || 0, // 保留已平仓百分比（关键修复）
         ],
@@ -936,7 +777,8 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
     try {
       // 获取所有活跃的止损止盈订单
       const activeOrdersResult = await dbClient.execute({
-        sql: "SELECT DISTINCT symbol FROM price_orders WHERE status = 'active'",
+        sql: "SELECT DISTINCT symbol FROM price_orders WHERE account_id = ? AND status = 'active'",
+        args: [getCurrentAccountId()],
       });
       
       const orphanSymbols: string[] = [];
@@ -951,13 +793,13 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
         logger.warn(`发现 ${orphanSymbols.length} 个币种的孤儿止损止盈订单，准备清理: ${orphanSymbols.join(', ')}`);
         
         // 批量更新这些订单的状态为 cancelled
-        const now = new Date().toISOString();
+        const now = getChinaTimeISO();
         for (const symbol of orphanSymbols) {
           // 获取该币种的所有活跃订单
           const ordersResult = await dbClient.execute({
             sql: `SELECT order_id, type FROM price_orders 
-                  WHERE symbol = ? AND status = 'active'`,
-            args: [symbol]
+                  WHERE account_id = ? AND symbol = ? AND status = 'active'`,
+            args: [getCurrentAccountId(), symbol]
           });
           
           // 尝试在交易所取消这些订单（先取消交易所，再更新数据库）
@@ -978,8 +820,8 @@ async function syncPositionsFromGate(cachedPositions?: any[]) {
           await dbClient.execute({
             sql: `UPDATE price_orders 
                   SET status = 'cancelled', updated_at = ?
-                  WHERE symbol = ? AND status = 'active'`,
-            args: [now, symbol]
+                  WHERE account_id = ? AND symbol = ? AND status = 'active'`,
+            args: [now, getCurrentAccountId(), symbol]
           });
           
           logger.info(`✅ 已清理 ${symbol} 的数据库孤儿订单记录，共 ${ordersResult.rows.length} 个`);
@@ -1007,7 +849,10 @@ async function getPositions(cachedExchangePositions?: any[]) {
     const exchangePositions = cachedExchangePositions || await exchangeClient.getPositions();
     
     // 从数据库获取持仓的开仓时间、entry_order_id、metadata（反转预警）、partial_close_percentage（分批止盈进度）和 stop_loss（止损价）
-    const dbResult = await dbClient.execute("SELECT symbol, opened_at, entry_order_id, metadata, partial_close_percentage, stop_loss, profit_target FROM positions");
+    const dbResult = await dbClient.execute({
+      sql: "SELECT symbol, opened_at, entry_order_id, metadata, partial_close_percentage, stop_loss, profit_target FROM positions WHERE account_id = ?",
+      args: [getCurrentAccountId()],
+    });
     const dbDataMap = new Map(
       dbResult.rows.map((row: any) => [row.symbol, { 
         opened_at: row.opened_at, 
@@ -1075,6 +920,62 @@ async function getPositions(cachedExchangePositions?: any[]) {
   }
 }
 
+/**
+ * 同步资金费结算流水，并为持仓附加下次结算的资金费预测（pos.funding），用于提示词展示
+ * 失败时不影响主流程
+ */
+async function attachFundingForecasts(positions: any[], marketData: Record<string, any>): Promise<void> {
+  try {
+    await syncFundingSettlements(dbClient, getExchangeClient());
+  } catch (error) {
+    logger.warn("同步资金费结算失败:", error as any);
+  }
+
+  for (const p of positions) {
+    const snapshot: FundingSnapshot | undefined = marketData[p.symbol]?.funding;
+    if (!snapshot) {
+      continue;
+    }
+    try {
+      const notional = p.quantity * p.current_price * await getQuantoMultiplier(p.contract);
+      p.funding = await forecastPositionFunding(dbClient, snapshot, {
+        side: p.side,
+        notional,
+        positionOrderId: p.entry_order_id,
+      });
+    } catch (error) {
+      logger.warn(`预测 ${p.symbol} 资金费失败:`, error as any);
+    }
+  }
+}
+
+/**
+ * 计算组合风险快照（敞口 + 相关性），用于提示词展示
+ * 计算失败时返回 null，不影响主流程
+ */
+async function getPortfolioRiskSnapshot(positions: any[], accountInfo: any): Promise<PortfolioRiskSnapshot | null> {
+  if (!RISK_PARAMS.PORTFOLIO_RISK_ENABLED) {
+    return null;
+  }
+  try {
+    const portfolioPositions: PortfolioPosition[] = [];
+    for (const p of positions) {
+      const quantoMultiplier = await getQuantoMultiplier(p.contract);
+      const notional = p.quantity * p.current_price * quantoMultiplier;
+      portfolioPositions.push({
+        symbol: p.symbol,
+        side: p.side,
+        notional,
+        margin: p.margin || notional / Math.max(1, p.leverage),
+      });
+    }
+    return await assessPortfolio(getExchangeClient(), portfolioPositions, accountInfo.totalBalance);
+  } catch (error) {
+    logger.warn("计算组合风险失败:", error as any);
+    return null;
+  }
+}
+
 /**
  * 获取历史成交记录（最近10条）
  * 从数据库获取历史交易记录（监控页的交易历史）
@@ -1083,8 +984,8 @@ async function getTradeHistory(limit: number = 10) {
   try {
     // 从数据库获取历史交易记录
     const result = await dbClient.execute({
-      sql: `SELECT * FROM trades ORDER BY timestamp DESC LIMIT ?`,
-      args: [limit],
+      sql: `SELECT * FROM trades WHERE account_id = ? ORDER BY timestamp DESC LIMIT ?`,
+      args: [getCurrentAccountId(), limit],
     });
     
     if (!result.rows || result.rows.length === 0) {
@@ -1125,9 +1026,10 @@ async function getRecentDecisions(limit: number = 3) {
     const result = await dbClient.execute({
       sql: `SELECT timestamp, iteration, decision, account_value, positions_count 
             FROM agent_decisions 
+            WHERE account_id = ?
             ORDER BY timestamp DESC 
             LIMIT ?`,
-      args: [limit],
+      args: [getCurrentAccountId(), limit],
     });
     
     if (!result.rows || result.rows.length === 0) {
@@ -1158,13 +1060,13 @@ async function syncConfigToDatabase() {
     
     // 更新或插入配置
     await dbClient.execute({
-      sql: `INSERT OR REPLACE INTO system_config (key, value, updated_at) VALUES (?, ?, ?)`,
-      args: ['account_stop_loss_usdt', config.stopLossUsdt.toString(), timestamp],
+      sql: `INSERT OR REPLACE INTO system_config (account_id, key, value, updated_at) VALUES (?, ?, ?, ?)`,
+      args: [getCurrentAccountId(), 'account_stop_loss_usdt', config.stopLossUsdt.toString(), timestamp],
     });
     
     await dbClient.execute({
-      sql: `INSERT OR REPLACE INTO system_config (key, value, updated_at) VALUES (?, ?, ?)`,
-      args: ['account_take_profit_usdt', config.takeProfitUsdt.toString(), timestamp],
+      sql: `INSERT OR REPLACE INTO system_config (account_id, key, value, updated_at) VALUES (?, ?, ?, ?)`,
+      args: [getCurrentAccountId(), 'account_take_profit_usdt', config.takeProfitUsdt.toString(), timestamp],
     });
     
     logger.info(`配置已同步到数据库: 止损线=${config.stopLossUsdt} USDT, 止盈线=${config.takeProfitUsdt} USDT`);
@@ -1179,23 +1081,24 @@ async function syncConfigToDatabase() {
 async function loadConfigFromDatabase() {
   try {
     const stopLossResult = await dbClient.execute({
-      sql: `SELECT value FROM system_config WHERE key = ?`,
-      args: ['account_stop_loss_usdt'],
+      sql: `SELECT value FROM system_config WHERE account_id = ? AND key = ?`,
+      args: [getCurrentAccountId(), 'account_stop_loss_usdt'],
     });
     
     const takeProfitResult = await dbClient.execute({
-      sql: `SELECT value FROM system_config WHERE key = ?`,
-      args: ['account_take_profit_usdt'],
+      sql: `SELECT value FROM system_config WHERE account_id = ? AND key = ?`,
+      args: [getCurrentAccountId(), 'account_take_profit_usdt'],
     });
     
     if (stopLossResult.rows.length > 0 && takeProfitResult.rows.length > 0) {
-      accountRiskConfig = {
+      const state = getLoopState();
+      state.accountRiskConfig = {
         stopLossUsdt: Number.parseFloat(stopLossResult.rows[0].value as string),
         takeProfitUsdt: Number.parseFloat(takeProfitResult.rows[0].value as string),
-        syncOnStartup: accountRiskConfig.syncOnStartup,
+        syncOnStartup: state.accountRiskConfig.syncOnStartup,
       };
       
-      logger.info(`从数据库加载配置: 止损线=${accountRiskConfig.stopLossUsdt} USDT, 止盈线=${accountRiskConfig.takeProfitUsdt} USDT`);
+      logger.info(`从数据库加载配置: 止损线=${state.accountRiskConfig.stopLossUsdt} USDT, 止盈线=${state.accountRiskConfig.takeProfitUsdt} USDT`);
     }
   } catch (error) {
     logger.warn("从数据库加载配置失败，使用环境变量配置:", error as any);
@@ -1207,19 +1110,24 @@ async function loadConfigFromDatabase() {
  * 每个周期结束时自动调用，确保所有交易记录的盈亏计算正确
  */
 /**
- * 清仓所有持仓
+ * 清仓所有持仓（指定币种时只平该币种）
+ * @returns 已成功平仓的币种
  */
-async function closeAllPositions(reason: string): Promise<void> {
+export async function closeAllPositions(reason: string, onlySymbol?: string): Promise<string[]> {
   const exchangeClient = getExchangeClient();
+  const closedSymbols: string[] = [];
   
   try {
-    logger.warn(`清仓所有持仓，原因: ${reason}`);
+    logger.warn(`${onlySymbol ? `平仓 ${onlySymbol}` : "清仓所有持仓"}，原因: ${reason}`);
     
     const positions = await exchangeClient.getPositions();
-    const activePositions = positions.filter((p: any) => parsePositionSize(p.size) !== 0);
+    const activePositions = positions.filter((p: any) =>
+      parsePositionSize(p.size) !== 0 &&
+      (!onlySymbol || exchangeClient.extractSymbol(p.contract) === onlySymbol)
+    );
     
     if (activePositions.length === 0) {
-      return;
+      return closedSymbols;
     }
     
     for (const pos of activePositions) {
@@ -1227,20 +1135,37 @@ async function closeAllPositions(reason: string): Promise<void> {
       const contract = pos.contract;
       const symbol = exchangeClient.extractSymbol(contract);
       
+      // 持有持仓锁平仓，锁被占用说明该持仓正在被其他操作平仓或调整
+      const positionLock = await acquirePositionLock(dbClient, {
+        symbol,
+        side: size > 0 ? "long" : "short",
+        purpose: "closing",
+        owner: "trading-loop",
+      });
+      if (!positionLock) {
+        logger.warn(`🔒 ${symbol} 持仓正在被其他操作处理，跳过平仓`);
+        continue;
+      }
+      
       try {
+        await positionLock.verify();
         await exchangeClient.placeOrder({
           contract,
           size: -size,
           price: 0, // 市价单必须传 price: 0
         });
         
+        closedSymbols.push(symbol);
         logger.info(`已平仓: ${symbol} ${Math.abs(size)}张`);
       } catch (error) {
         logger.error(`平仓失败: ${symbol}`, error as any);
+      } finally {
+        await positionLock.release();
       }
     }
     
     logger.warn(`清仓完成`);
+    return closedSymbols;
   } catch (error) {
     logger.error("清仓失败:", error as any);
     throw error;
@@ -1253,6 +1178,7 @@ async function closeAllPositions(reason: string): Promise<void> {
  */
 async function checkAccountThresholds(accountInfo: any): Promise<boolean> {
   const totalBalance = accountInfo.totalBalance;
+  const { accountRiskConfig } = getLoopState();
   
   // 检查止损线
   if (totalBalance <= accountRiskConfig.stopLossUsdt) {
@@ -1274,25 +1200,28 @@ async function checkAccountThresholds(accountInfo: any): Promise<boolean> {
 /**
  * 执行交易决策
  * 优化：增强错误处理和数据验证，确保数据实时准确
+ * 回测引擎也会在模拟时钟下逐周期调用此函数
  */
-async function executeTradingDecision() {
-  iterationCount++;
-  const minutesElapsed = Math.floor((Date.now() - tradingStartTime.getTime()) / 60000);
+export async function executeTradingDecision() {
+  const loopState = getLoopState();
+  const iterationCount = ++loopState.iterationCount;
+  const minutesElapsed = Math.floor((nowMs() - loopState.tradingStartTime.getTime()) / 60000);
   const intervalMinutes = Number.parseInt(process.env.TRADING_INTERVAL_MINUTES || "5");
   
   logger.info(`${"=".repeat(80)}`);
-  logger.info(`交易周期 #${iterationCount} (运行${minutesElapsed}分钟)`);
+  logger.info(`[${getCurrentAccountId()}] 交易周期 #${iterationCount} (运行${minutesElapsed}分钟)`);
   logger.info(`${"=".repeat(80)}`);
 
   let marketData: any = {};
   let accountInfo: any = null;
   let positions: any[] = [];
+  let tradingState: TradingStateRecord | null = null;
 
   try {
     // 1. 收集市场数据
     try {
       marketData = await collectMarketData();
-      const validSymbols = SYMBOLS.filter(symbol => {
+      const validSymbols = getTradingSymbols().filter(symbol => {
         const data = marketData[symbol];
         if (!data || data.price === 0) {
           return false;
@@ -1328,6 +1257,33 @@ async function executeTradingDecision() {
         return;
       }
       
+      // 回撤熔断：根据峰值回撤、日内亏损和连续亏损推进交易状态
+      if (RISK_PARAMS.CIRCUIT_BREAKER_ENABLED) {
+        const equity = accountInfo.totalBalance + accountInfo.unrealisedPnl;
+        const evaluation = await evaluateTradingState(dbClient, equity);
+        tradingState = evaluation.record;
+        
+        if (tradingState.state === 'flatten') {
+          await closeAllPositions(`回撤熔断强制平仓（${tradingState.reason}）`);
+          const remaining = (await getExchangeClient().getPositions()).filter((p: any) => parsePositionSize(p.size) !== 0);
+          if (remaining.length === 0) {
+            await completeFlatten(dbClient, equity);
+          } else {
+            logger.error(`强制平仓后仍有 ${remaining.length} 个持仓，下个周期重试`);
+          }
+          return;
+        }
+        
+        if (tradingState.state === 'halted') {
+          logger.warn(`🛑 交易已停止（${tradingState.reason}），跳过本周期，调用 POST /api/trading-state/reset 恢复`);
+          return;
+        }
+        
+        if (tradingState.state !== 'normal') {
+          logger.warn(`🚦 当前交易状态: ${TRADING_STATE_LABELS[tradingState.state]}（${tradingState.reason}）`);
+        }
+      }
+      
     } catch (error) {
       logger.error("获取账户信息失败:", error as any);
       return;
@@ -1342,7 +1298,10 @@ async function executeTradingDecision() {
       positions = await getPositions(rawGatePositions);
       await syncPositionsFromGate(rawGatePositions);
       
-      const dbPositions = await dbClient.execute("SELECT COUNT(*) as count FROM positions");
+      const dbPositions = await dbClient.execute({
+        sql: "SELECT COUNT(*) as count FROM positions WHERE account_id = ?",
+        args: [getCurrentAccountId()],
+      });
       const dbCount = (dbPositions.rows[0] as any).count;
       
       if (positions.length !== dbCount) {
@@ -1374,8 +1333,8 @@ async function executeTradingDecision() {
       let peakPnlPercent = 0;
       try {
         const dbPosResult = await dbClient.execute({
-          sql: "SELECT peak_pnl_percent FROM positions WHERE symbol = ?",
-          args: [symbol],
+          sql: "SELECT peak_pnl_percent FROM positions WHERE account_id = ? AND symbol = ?",
+          args: [getCurrentAccountId(), symbol],
         });
         
         if (dbPosResult.rows.length > 0) {
@@ -1385,8 +1344,8 @@ async function executeTradingDecision() {
           if (pnlPercent > peakPnlPercent) {
             peakPnlPercent = pnlPercent;
             await dbClient.execute({
-              sql: "UPDATE positions SET peak_pnl_percent = ? WHERE symbol = ?",
-              args: [peakPnlPercent, symbol],
+              sql: "UPDATE positions SET peak_pnl_percent = ? WHERE account_id = ? AND symbol = ?",
+              args: [peakPnlPercent, getCurrentAccountId(), symbol],
             });
             logger.info(`${symbol} 峰值盈利更新: ${formatPercent(peakPnlPercent)}%`);
           }
@@ -1400,7 +1359,7 @@ async function executeTradingDecision() {
       
       // a) 36小时强制平仓检查
       const openedTime = new Date(pos.opened_at);
-      const now = new Date();
+      const now = new Date(nowMs());
       const holdingHours = (now.getTime() - openedTime.getTime()) / (1000 * 60 * 60);
       
       if (holdingHours >= 36) {
@@ -1441,11 +1400,22 @@ async function executeTradingDecision() {
       // 执行强制平仓
       if (shouldClose) {
         logger.warn(`【强制平仓】${symbol} ${side} - ${closeReason}`);
+        const positionLock = await acquirePositionLock(dbClient, {
+          symbol,
+          side: side as 'long' | 'short',
+          purpose: "closing",
+          owner: "trading-loop",
+        });
+        if (!positionLock) {
+          logger.warn(`🔒 ${symbol} ${side} 持仓正在被其他操作处理，本周期跳过强制平仓`);
+          continue;
+        }
         try {
           const contract = exchangeClient.normalizeContract(symbol);
           const size = side === 'long' ? -pos.quantity : pos.quantity;
           
-          // 1. 执行平仓订单
+          // 1. 执行平仓订单（下单前确认持仓锁仍有效）
+          await positionLock.verify();
           const order = await exchangeClient.placeOrder({
             contract,
             size,
@@ -1558,9 +1528,10 @@ async function executeTradingDecision() {
             logger.info(`  净盈亏: ${pnl.toFixed(2)} USDT, 手续费: ${totalFee.toFixed(4)} USDT`);
             
             await dbClient.execute({
-              sql: `INSERT INTO trades (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              sql: `INSERT INTO trades (account_id, order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
               args: [
+                getCurrentAccountId(),
                 order.id?.toString() || "",
                 symbol,
                 side,
@@ -1570,7 +1541,7 @@ async function executeTradingDecision() {
                 pos.leverage || 1,
                 pnl, // 已验证和修正的盈亏
                 totalFee,
-                new Date().toISOString(), // 统一使用UTC ISO格式
+                getChinaTimeISO(), // 统一使用UTC ISO格式
                 orderFilled ? "filled" : "pending",
               ],
             });
@@ -1602,11 +1573,12 @@ async function executeTradingDecision() {
                 
               await dbClient.execute({
                 sql: `INSERT INTO position_close_events 
-                      (symbol, side, entry_price, close_price, quantity, leverage, 
+                      (account_id, symbol, side, entry_price, close_price, quantity, leverage, 
                        pnl, pnl_percent, fee, close_reason, trigger_type, order_id, 
                        created_at, processed)
-                      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                 args: [
+                  getCurrentAccountId(),
                   symbol,
                   side,
                   pos.entry_price,
@@ -1645,8 +1617,8 @@ async function executeTradingDecision() {
           
           // 4. 从数据库删除持仓记录
           await dbClient.execute({
-            sql: "DELETE FROM positions WHERE symbol = ?",
-            args: [symbol],
+            sql: "DELETE FROM positions WHERE account_id = ? AND symbol = ?",
+            args: [getCurrentAccountId(), symbol],
           });
           
           logger.info(`强制平仓完成 ${symbol}，原因：${closeReason}`);
@@ -1655,12 +1627,15 @@ async function executeTradingDecision() {
           logger.error(`强制平仓失败 ${symbol}: ${closeError.message}`);
           // 即使失败也记录到日志
           logger.error(`强制平仓失败详情: symbol=${symbol}, side=${side}, quantity=${pos.quantity}, reason=${closeReason}`);
+        } finally {
+          await positionLock.release();
         }
       }
     }
     
     // 重新获取持仓（可能已经被强制平仓）
     positions = await getPositions();
+    await attachFundingForecasts(positions, marketData);
     
     // 4. 不再保存账户历史（已移除资金曲线模块）
     // try {
@@ -1705,9 +1680,10 @@ async function executeTradingDecision() {
     try {
       const result = await dbClient.execute({
         sql: `SELECT * FROM position_close_events 
-              WHERE created_at > datetime('now', '-24 hours')
+              WHERE account_id = ? AND created_at > datetime('now', '-24 hours')
               ORDER BY created_at DESC
-              LIMIT 10`
+              LIMIT 10`,
+        args: [getCurrentAccountId()],
       });
       closeEvents = result.rows || [];
       
@@ -1716,7 +1692,8 @@ async function executeTradingDecision() {
         await dbClient.execute({
           sql: `UPDATE position_close_events 
                 SET processed = 1 
-                WHERE created_at > datetime('now', '-24 hours') AND processed = 0`
+                WHERE account_id = ? AND created_at > datetime('now', '-24 hours') AND processed = 0`,
+          args: [getCurrentAccountId()],
         });
       }
     } catch (error) {
@@ -1724,11 +1701,15 @@ async function executeTradingDecision() {
       // 不影响主流程，继续执行
     }
     
-    // 9. 生成提示词并调用 Agent
+    // 9. 生成提示词并调用 Agent（规则模式下不调用 AI，直接执行策略信号）
+    const decisionMode = getDecisionMode();
     // 优化: 使用精简版提示词减少tokens消耗(约70%),降低API费用
     const useCompactPrompt = process.env.USE_COMPACT_PROMPT !== 'false'; // 默认启用精简模式
+    const portfolioRisk = decisionMode === 'rule' ? null : await getPortfolioRiskSnapshot(positions, accountInfo);
     
-    const prompt = useCompactPrompt 
+    const prompt = decisionMode === 'rule'
+      ? ''
+      : useCompactPrompt 
       ? await generateCompactPrompt({
           minutesElapsed,
           iteration: iterationCount,
@@ -1736,6 +1717,8 @@ async function executeTradingDecision() {
           marketData,
           accountInfo,
           positions,
+          portfolioRisk,
+          tradingState,
         })
       : await generateTradingPrompt({
           minutesElapsed,
@@ -1747,26 +1730,99 @@ async function executeTradingDecision() {
           tradeHistory,
           recentDecisions,
           closeEvents,
+          portfolioRisk,
+          tradingState,
         });
     
-    // 输出完整提示词到日志
-    logger.info("【入参 - AI 提示词】");
-    logger.info("=".repeat(80));
-    logger.info(prompt);
-    logger.info("=".repeat(80) + "\n");
+    // 保存提示词输入快照，供回放工具用新的提示词或模型重新决策并对比
+    const promptSnapshotId = decisionMode !== 'rule' && isPromptSnapshotEnabled()
+      ? await savePromptSnapshot(dbClient, {
+          inputs: {
+            minutesElapsed,
+            iteration: iterationCount,
+            intervalMinutes,
+            marketData,
+            accountInfo,
+            positions,
+            tradeHistory,
+            recentDecisions,
+            closeEvents,
+            portfolioRisk,
+            tradingState,
+          },
+          prompt,
+          promptMode: useCompactPrompt ? 'compact' : 'full',
+          decisionMode,
+          strategy: getTradingStrategy(),
+        })
+      : null;
     
-    const agent = createTradingAgent(intervalMinutes);
+    if (decisionMode === 'rule') {
+      logger.info("【决策模式 - 规则引擎】跳过 AI 调用，直接执行策略路由信号");
+    } else {
+      if (decisionMode === 'structured') {
+        logger.info("【决策模式 - 结构化决策】AI 返回决策对象，经风控检查后由系统执行");
+      }
+      // 输出完整提示词到日志
+      logger.info("【入参 - AI 提示词】");
+      logger.info("=".repeat(80));
+      logger.info(prompt);
+      logger.info("=".repeat(80) + "\n");
+    }
     
     try {
       // 优化: 根据提示词模式调整maxOutputTokens
       // 精简模式下AI响应也应该更简洁,减少输出tokens
       const maxOutputTokens = useCompactPrompt ? 4096 : 8192;
       
-      const response = await agent.generateText(prompt, {
-        maxOutputTokens,
-        maxSteps: 20,
-        temperature: 0.4,
-      });
+      // 规则模式返回与 Agent 相同的 steps 结构，复用下方的解析和决策记录逻辑
+      // AI 模式按供应商链依次尝试，链尾的规则引擎同样返回该结构
+      let llmAttempts: LLMAttemptRecord[] = [];
+      let llmProvider: LLMProviderConfig | null = null;
+      let response: any;
+      if (decisionMode === 'rule') {
+        response = await executeRuleBasedDecision({ accountInfo, positions });
+      } else {
+        const result = await executeWithFallback(getLLMProviderChain(), async (provider, attempt) => {
+          if (provider.type === 'rule') {
+            return executeRuleBasedDecision({ accountInfo, positions });
+          }
+          const agentResponse = await createTradingAgent(intervalMinutes, provider, {
+            structuredOutput: decisionMode === 'structured',
+          }).generateText(prompt, {
+            maxOutputTokens,
+            maxSteps: 20,
+            temperature: 0.4,
+            maxRetries: provider.maxRetries,
+            abortSignal: attempt.signal,
+            hooks: createHooks({
+              onToolStart: ({ tool }) => attempt.onToolStart(tool.name),
+            }),
+          });
+          if (decisionMode !== 'structured') {
+            return agentResponse;
+          }
+          // 结构化模式：Agent 只做分析并返回决策对象，由系统校验后执行（格式错误时切换供应商）
+          const structured = await executeStructuredDecision(agentResponse.text, {
+            accountInfo,
+            positions,
+            marketData,
+            onToolStart: attempt.onToolStart,
+          });
+          return {
+            ...structured,
+            steps: [...(agentResponse.steps || []), ...structured.steps],
+            totalUsage: agentResponse.totalUsage,
+          };
+        });
+        llmAttempts = result.attempts;
+        if (!result.response) {
+          await recordLLMUsage(dbClient, null, iterationCount, llmAttempts);
+          throw new Error(`所有模型供应商均调用失败: ${llmAttempts.map(a => `${a.providerId}(${a.status})`).join(', ')}`);
+        }
+        response = result.response;
+        llmProvider = result.provider;
+      }
       
       // 从响应中提取AI的完整回复和工具调用记录
       let decisionText = "";
@@ -1900,12 +1956,13 @@ async function executeTradingDecision() {
       const actionsJson = JSON.stringify(toolCallsRecord);
       logger.debug(`工具调用记录: ${actionsJson}`);
       
-      await dbClient.execute({
+      const decisionResult = await dbClient.execute({
         sql: `INSERT INTO agent_decisions 
-              (timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
-              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+              (account_id, timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
-          new Date().toISOString(),
+          getCurrentAccountId(),
+          getChinaTimeISO(),
           iterationCount,
           JSON.stringify(marketData),
           decisionText,
@@ -1915,6 +1972,29 @@ async function executeTradingDecision() {
         ],
       });
       
+      if (llmAttempts.length > 0) {
+        try {
+          await recordLLMUsage(dbClient, Number(decisionResult.lastInsertRowid), iterationCount, llmAttempts);
+        } catch (usageError) {
+          logger.warn("记录模型调用用量失败:", usageError as any);
+        }
+      }
+      if (promptSnapshotId !== null) {
+        await completePromptSnapshot(dbClient, promptSnapshotId, {
+          decisionId: Number(decisionResult.lastInsertRowid),
+          providerId: llmProvider?.id ?? null,
+          model: llmProvider?.model ?? null,
+          toolCalls: extractToolCalls(response.steps || []),
+        });
+      }
+      if (response.structured) {
+        try {
+          await recordStructuredDecision(dbClient, Number(decisionResult.lastInsertRowid), response.structured);
+        } catch (auditError) {
+          logger.warn("记录结构化决策失败:", auditError as any);
+        }
+      }
+      
       // Agent 执行后重新同步持仓数据（优化：只调用一次API）
       const updatedRawPositions = await exchangeClient.getPositions();
       await syncPositionsFromGate(updatedRawPositions);
@@ -2003,28 +2083,57 @@ async function executeTradingDecision() {
  * 初始化交易系统配置
  */
 export async function initTradingSystem() {
-  logger.info("初始化交易系统配置...");
+  logger.info(`[${getCurrentAccountId()}] 初始化交易系统配置...`);
   
   // 1. 加载配置
-  accountRiskConfig = getAccountRiskConfig();
-  logger.info(`环境变量配置: 止损线=${accountRiskConfig.stopLossUsdt} USDT, 止盈线=${accountRiskConfig.takeProfitUsdt} USDT`);
+  const state = getLoopState();
+  state.accountRiskConfig = getAccountRiskConfig();
+  logger.info(`环境变量配置: 止损线=${state.accountRiskConfig.stopLossUsdt} USDT, 止盈线=${state.accountRiskConfig.takeProfitUsdt} USDT`);
   
   // 2. 如果启用了启动时同步，则同步配置到数据库
-  if (accountRiskConfig.syncOnStartup) {
+  if (state.accountRiskConfig.syncOnStartup) {
     await syncConfigToDatabase();
   } else {
     // 否则从数据库加载配置
     await loadConfigFromDatabase();
   }
   
-  logger.info(`最终配置: 止损线=${accountRiskConfig.stopLossUsdt} USDT, 止盈线=${accountRiskConfig.takeProfitUsdt} USDT`);
+  logger.info(`最终配置: 止损线=${state.accountRiskConfig.stopLossUsdt} USDT, 止盈线=${state.accountRiskConfig.takeProfitUsdt} USDT`);
   
   // 注意：孤儿订单清理已由条件单监控服务(priceOrderMonitor)处理
   // 移除启动时的清理逻辑，避免误标记条件单为cancelled
 }
 
 /**
- * 启动交易循环
+ * 依次为所有账户执行一个交易周期
+ * 账户之间串行执行：各模块共享数据库连接上的事务，并发执行会互相干扰
+ */
+async function executeTradingDecisionForAllAccounts() {
+  for (const account of getAccounts()) {
+    if (isComponentPaused("trading-loop", account.id)) {
+      logger.info(`⏸️ [${account.id}] 交易循环已暂停，跳过本周期`);
+      continue;
+    }
+    try {
+      await runWithAccount(account, () => executeTradingDecision());
+    } catch (error) {
+      logger.error(`[${account.id}] 交易周期执行失败:`, error as any);
+    }
+  }
+}
+
+/**
+ * 为所有账户初始化交易系统配置
+ */
+export async function initAllTradingSystems() {
+  await restorePausedComponents(dbClient);
+  for (const account of getAccounts()) {
+    await runWithAccount(account, () => initTradingSystem());
+  }
+}
+
+/**
+ * 启动交易循环（所有账户共用同一个定时器）
  */
 export function startTradingLoop() {
   const intervalMinutes = Number.parseInt(
@@ -2032,15 +2141,17 @@ export function startTradingLoop() {
   );
   
   logger.info(`启动交易循环，间隔: ${intervalMinutes} 分钟`);
-  logger.info(`支持币种: ${SYMBOLS.join(", ")}`);
+  for (const account of getAccounts()) {
+    logger.info(`[${account.id}] 支持币种: ${account.symbols.join(", ")}`);
+  }
   
   // 立即执行一次
-  executeTradingDecision();
+  executeTradingDecisionForAllAccounts();
   
   // 使用 setInterval 而不是 cron，确保固定间隔执行
   setInterval(() => {
     logger.info(`定时任务触发 - ${new Date().toISOString()}`);
-    executeTradingDecision();
+    executeTradingDecisionForAllAccounts();
   }, intervalMinutes * 60 * 1000);
   
   logger.info(`定时任务已设置: 每 ${intervalMinutes} 分钟执行一次`);
@@ -2050,13 +2161,13 @@ export function startTradingLoop() {
  * 重置交易开始时间（用于恢复之前的交易）
  */
 export function setTradingStartTime(time: Date) {
-  tradingStartTime = time;
+  getLoopState().tradingStartTime = time;
 }
 
 /**
  * 重置迭代计数（用于恢复之前的交易）
  */
 export function setIterationCount(count: number) {
-  iterationCount = count;
+  getLoopState().iterationCount = count;
 }
 
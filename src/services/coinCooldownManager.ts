@@ -30,6 +30,7 @@
 
 import { createClient } from "@libsql/client";
 import { createLogger } from "../utils/logger";
+import { getCurrentAccountId } from "../utils/accountContext";
 
 const logger = createLogger({
   name: "cooldown-manager",
@@ -64,11 +65,12 @@ export async function isSymbolInCooldown(symbol: string): Promise<{
     const result = await dbClient.execute({
       sql: `SELECT symbol, pnl_percent, close_reason, created_at
             FROM position_close_events
-            WHERE symbol = ?
+            WHERE account_id = ?
+              AND symbol = ?
               AND pnl < 0
               AND created_at > datetime('now', '-24 hours')
             ORDER BY created_at DESC`,
-      args: [symbol],
+      args: [getCurrentAccountId(), symbol],
     });
     
     if (!result.rows || result.rows.length === 0) {
@@ -173,20 +175,22 @@ export async function getSymbolLossStats(symbol: string): Promise<{
     const result24h = await dbClient.execute({
       sql: `SELECT pnl, pnl_percent, close_reason
             FROM position_close_events
-            WHERE symbol = ?
+            WHERE account_id = ?
+              AND symbol = ?
               AND pnl < 0
               AND created_at > datetime('now', '-24 hours')`,
-      args: [symbol],
+      args: [getCurrentAccountId(), symbol],
     });
     
     // 48小时内的亏损
     const result48h = await dbClient.execute({
       sql: `SELECT pnl, pnl_percent, close_reason
             FROM position_close_events
-            WHERE symbol = ?
+            WHERE account_id = ?
+              AND symbol = ?
               AND pnl < 0
               AND created_at > datetime('now', '-48 hours')`,
-      args: [symbol],
+      args: [getCurrentAccountId(), symbol],
     });
     
     const losses24h = result24h.rows || [];
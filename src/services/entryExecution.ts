@@ -0,0 +1,491 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 开仓执行模块
+ *
+ * 按策略配置的开仓方式下单：
+ * - market: 市价单（Taker）立即成交
+ * - limit: 在己方最优价（做多挂买一、做空挂卖一）挂 GTC 限价单
+ * - post_only: 同样挂在己方最优价，但只做 Maker（tif=poc），会立即成交时被交易所拒绝
+ *
+ * 限价挂单每隔 repriceIntervalSeconds 秒未完全成交则撤单，按最新盘口重新挂剩余数量；
+ * 总时长超过 timeoutSeconds、盘口相对计划价格不利偏离超过 maxAdverseMovePercent，
+ * 或连续被拒绝时，剩余数量转市价单成交。每笔子订单的成交分别记录，
+ * 用于按 Maker/Taker 区分手续费并在成交记录中逐笔写入
+ */
+import type { IExchangeClient, OrderResponse, TradeRecord } from "../exchanges/IExchangeClient";
+import { RISK_PARAMS } from "../config/riskParams";
+import { createLogger } from "../utils/logger";
+import { parseOrderBook } from "./liquidityModel";
+
+const logger = createLogger({
+  name: "entry-execution",
+  level: "info",
+});
+
+// 挂单期间查询订单状态的间隔
+const ORDER_POLL_INTERVAL_MS = 1000;
+// 市价单提交后等待交易所更新订单和持仓的时间
+const MARKET_SETTLE_MS = 2000;
+// 读取市价单成交的重试次数和间隔
+const MARKET_READ_RETRIES = 3;
+const MARKET_READ_RETRY_DELAY_MS = 300;
+// 撤单后确认订单终态的重试次数
+const CANCEL_CONFIRM_RETRIES = 3;
+// 连续被拒绝（只做 Maker 会立即成交或下单报错）多少次后转市价
+const MAX_CONSECUTIVE_REJECTS = 3;
+
+export type EntryExecutionMode = "market" | "limit" | "post_only";
+
+export type EntryFallbackReason = "timeout" | "adverse_move" | "rejected" | "no_quote";
+
+/**
+ * 策略的开仓执行配置
+ */
+export interface EntryExecutionConfig {
+  mode: EntryExecutionMode;
+  repriceIntervalSeconds: number; // 挂单多久未完全成交后撤单重挂
+  timeoutSeconds: number;         // 限价挂单总时长，超时后剩余数量转市价
+  maxAdverseMovePercent: number;  // 盘口相对计划价格的不利偏离上限（百分比），超过时转市价
+}
+
+export interface EntryExecutionRequest {
+  contract: string;
+  side: "long" | "short";
+  quantity: number;               // 下单数量（绝对值，交易所数量单位）
+  referencePrice: number;         // 计划开仓价格
+  minSize: number;                // 最小下单数量，剩余数量低于该值时停止挂单
+  config: EntryExecutionConfig;
+}
+
+export interface EntryExecutionHooks {
+  beforeOrder?: () => Promise<void>;                                    // 每次下单前调用（如校验持仓锁），抛出异常则中止
+  onOrderPlaced?: (orderId: string, orderIds: string[]) => Promise<void>; // 交易所接受订单后调用
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+/**
+ * 单笔子订单的成交
+ */
+export interface EntryFill {
+  orderId: string;
+  quantity: number;
+  price: number;
+  liquidity: "maker" | "taker";   // 下单时的假设，attachEntryFees 按成交记录中的角色更正
+  fee: number | null;             // 由 attachEntryFees 填写，Maker 返佣为负数
+}
+
+export interface EntryExecutionResult {
+  mode: EntryExecutionMode;
+  orderIds: string[];             // 提交过的全部订单（含未成交撤销的挂单）
+  fills: EntryFill[];
+  filledQuantity: number;
+  averagePrice: number;           // 按成交数量加权的平均成交价（无成交时为计划价格）
+  makerQuantity: number;
+  takerQuantity: number;
+  repriceCount: number;
+  fallbackReason: EntryFallbackReason | null;
+  status: "filled" | "pending";   // pending: 市价单读取时仍未完成
+}
+
+export const FALLBACK_REASON_LABELS: Record<EntryFallbackReason, string> = {
+  timeout: "挂单超时",
+  adverse_move: "价格不利偏离",
+  rejected: "挂单连续被拒绝",
+  no_quote: "无法获取盘口",
+};
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function roundQuantity(value: number): number {
+  return Number.parseFloat(value.toFixed(8));
+}
+
+function isLiveOrder(order: OrderResponse): boolean {
+  return order.status === "open" || order.status === "partially_filled";
+}
+
+/**
+ * 应用环境变量 ENTRY_EXECUTION_MODE（统一覆盖所有策略的开仓方式）
+ */
+export function resolveEntryExecutionConfig(config: EntryExecutionConfig): EntryExecutionConfig {
+  const override = process.env.ENTRY_EXECUTION_MODE?.trim().toLowerCase();
+  if (override === "market" || override === "limit" || override === "post_only") {
+    return { ...config, mode: override };
+  }
+  return config;
+}
+
+/**
+ * 从订单详情读取已成交数量和成交均价
+ */
+export function readOrderFill(order: OrderResponse, fallbackPrice: number): { quantity: number; price: number } {
+  const total = Math.abs(Number.parseFloat(String(order.size ?? 0))) || 0;
+  const left = order.left !== undefined && order.left !== null
+    ? Math.abs(Number.parseFloat(String(order.left))) || 0
+    : (order.status === "finished" ? 0 : total);
+  const fillPrice = Number.parseFloat(String(order.fill_price ?? 0));
+  const orderPrice = Number.parseFloat(String(order.price ?? 0));
+  return {
+    quantity: roundQuantity(Math.max(0, total - left)),
+    price: fillPrice > 0 ? fillPrice : orderPrice > 0 ? orderPrice : fallbackPrice,
+  };
+}
+
+/**
+ * 按数量加权汇总成交
+ */
+export function summarizeEntryFills(fills: EntryFill[], referencePrice: number): Pick<
+  EntryExecutionResult, "filledQuantity" | "averagePrice" | "makerQuantity" | "takerQuantity"
+> {
+  let filledQuantity = 0;
+  let notional = 0;
+  let makerQuantity = 0;
+  for (const fill of fills) {
+    filledQuantity += fill.quantity;
+    notional += fill.quantity * fill.price;
+    if (fill.liquidity === "maker") {
+      makerQuantity += fill.quantity;
+    }
+  }
+  return {
+    filledQuantity: roundQuantity(filledQuantity),
+    averagePrice: filledQuantity > 0 ? notional / filledQuantity : referencePrice,
+    makerQuantity: roundQuantity(makerQuantity),
+    takerQuantity: roundQuantity(filledQuantity - makerQuantity),
+  };
+}
+
+/**
+ * 下单并记录订单ID（调用前先执行 beforeOrder）
+ */
+async function submitOrder(
+  exchangeClient: IExchangeClient,
+  hooks: EntryExecutionHooks,
+  orderIds: string[],
+  params: Parameters<IExchangeClient["placeOrder"]>[0],
+): Promise<OrderResponse> {
+  const order = await exchangeClient.placeOrder(params);
+  const orderId = order.id?.toString() || "";
+  if (orderId) {
+    orderIds.push(orderId);
+    await hooks.onOrderPlaced?.(orderId, [...orderIds]);
+  }
+  return order;
+}
+
+/**
+ * 市价单成交剩余数量
+ * 读取订单详情失败时按计划价格和下单数量估算（与交易所持仓对账由启动时的意图修复兜底）
+ */
+async function executeMarketOrder(
+  exchangeClient: IExchangeClient,
+  request: EntryExecutionRequest,
+  quantity: number,
+  hooks: EntryExecutionHooks,
+  orderIds: string[],
+  fills: EntryFill[],
+): Promise<"filled" | "pending"> {
+  const sleep = hooks.sleep ?? defaultSleep;
+  await hooks.beforeOrder?.();
+  const order = await submitOrder(exchangeClient, hooks, orderIds, {
+    contract: request.contract,
+    size: request.side === "long" ? quantity : -quantity,
+    price: 0, // 市价单必须传 price: 0
+  });
+  const orderId = order.id?.toString() || "";
+
+  // 等待交易所更新订单和持仓
+  await sleep(MARKET_SETTLE_MS);
+
+  let detail: OrderResponse | null = null;
+  if (orderId) {
+    for (let attempt = 1; attempt <= MARKET_READ_RETRIES; attempt++) {
+      try {
+        detail = await exchangeClient.getOrder(orderId);
+        break;
+      } catch (error: any) {
+        if (attempt >= MARKET_READ_RETRIES) {
+          logger.error(`获取订单详情失败（重试${attempt}次）: ${error.message}`);
+        } else {
+          logger.warn(`获取订单详情失败，${attempt}/${MARKET_READ_RETRIES} 次重试...`);
+          await sleep(MARKET_READ_RETRY_DELAY_MS);
+        }
+      }
+    }
+  }
+
+  if (!detail) {
+    logger.warn(`使用预估值继续: 数量=${quantity}, 价格=${request.referencePrice}`);
+    fills.push({ orderId, quantity, price: request.referencePrice, liquidity: "taker", fee: null });
+    return "filled";
+  }
+
+  const filled = readOrderFill(detail, request.referencePrice);
+  if (filled.quantity > 0) {
+    fills.push({ orderId, quantity: filled.quantity, price: filled.price, liquidity: "taker", fee: null });
+  }
+  return detail.status === "open" ? "pending" : "filled";
+}
+
+/**
+ * 撤销挂单并读取终态（撤单与成交可能同时发生，以撤单后的订单详情为准）
+ */
+async function cancelAndConfirm(
+  exchangeClient: IExchangeClient,
+  orderId: string,
+  current: OrderResponse,
+  sleep: (ms: number) => Promise<void>,
+): Promise<OrderResponse> {
+  try {
+    await exchangeClient.cancelOrder(orderId);
+  } catch (error: any) {
+    // 订单可能已在撤单前完全成交
+    logger.debug(`撤销挂单 ${orderId} 失败: ${error.message}`);
+  }
+
+  let detail = current;
+  for (let attempt = 1; attempt <= CANCEL_CONFIRM_RETRIES; attempt++) {
+    try {
+      detail = await exchangeClient.getOrder(orderId);
+      if (!isLiveOrder(detail)) {
+        break;
+      }
+    } catch (error: any) {
+      logger.warn(`确认挂单 ${orderId} 状态失败: ${error.message}`);
+    }
+    if (attempt < CANCEL_CONFIRM_RETRIES) {
+      await sleep(ORDER_POLL_INTERVAL_MS);
+    }
+  }
+  return detail;
+}
+
+/**
+ * 按策略配置执行开仓
+ *
+ * 下单失败（第一笔订单即被拒绝且无任何成交）时抛出异常；已有成交后的下单失败只记录日志，
+ * 返回已成交部分，由调用方按实际成交数量记录持仓
+ */
+export async function executeEntry(
+  exchangeClient: IExchangeClient,
+  request: EntryExecutionRequest,
+  hooks: EntryExecutionHooks = {},
+): Promise<EntryExecutionResult> {
+  const { contract, side, config, referencePrice, minSize } = request;
+  const sleep = hooks.sleep ?? defaultSleep;
+  const now = hooks.now ?? Date.now;
+  const target = roundQuantity(Math.abs(request.quantity));
+  const orderIds: string[] = [];
+  const fills: EntryFill[] = [];
+  let repriceCount = 0;
+  let fallbackReason: EntryFallbackReason | null = null;
+  let status: "filled" | "pending" = "filled";
+
+  const remainingQuantity = () => roundQuantity(target - fills.reduce((sum, fill) => sum + fill.quantity, 0));
+
+  if (config.mode !== "market") {
+    const deadline = now() + config.timeoutSeconds * 1000;
+    const repriceMs = Math.max(config.repriceIntervalSeconds * 1000, ORDER_POLL_INTERVAL_MS);
+    const adverseLimit = side === "long"
+      ? referencePrice * (1 + config.maxAdverseMovePercent / 100)
+      : referencePrice * (1 - config.maxAdverseMovePercent / 100);
+    let consecutiveRejects = 0;
+
+    while (remainingQuantity() >= minSize) {
+      if (now() >= deadline) {
+        fallbackReason = "timeout";
+        break;
+      }
+
+      let bestBid = 0;
+      let bestAsk = 0;
+      try {
+        const book = parseOrderBook(await exchangeClient.getOrderBook(contract, 5));
+        bestBid = book.bids[0]?.price ?? 0;
+        bestAsk = book.asks[0]?.price ?? 0;
+      } catch (error: any) {
+        logger.warn(`获取 ${contract} 盘口失败: ${error.message}`);
+      }
+      if (bestBid <= 0 || bestAsk <= 0) {
+        fallbackReason = "no_quote";
+        break;
+      }
+
+      // 做多时卖一高于上限（做空时买一低于下限）说明价格已向不利方向跑开，不再等待挂单成交
+      if (side === "long" ? bestAsk > adverseLimit : bestBid < adverseLimit) {
+        fallbackReason = "adverse_move";
+        logger.info(`📉 ${contract} 盘口不利偏离超过 ${config.maxAdverseMovePercent}%（计划价 ${referencePrice}，买一 ${bestBid} / 卖一 ${bestAsk}）`);
+        break;
+      }
+
+      const remaining = remainingQuantity();
+      const price = side === "long" ? bestBid : bestAsk;
+      await hooks.beforeOrder?.();
+      let order: OrderResponse;
+      try {
+        order = await submitOrder(exchangeClient, hooks, orderIds, {
+          contract,
+          size: side === "long" ? remaining : -remaining,
+          price,
+          tif: config.mode === "post_only" ? "poc" : "gtc",
+        });
+      } catch (error: any) {
+        // 只做 Maker 订单会立即成交时部分交易所直接返回错误
+        consecutiveRejects++;
+        logger.warn(`⚠️ ${contract} 限价挂单被拒绝（${consecutiveRejects}/${MAX_CONSECUTIVE_REJECTS}）: ${error.message}`);
+        if (consecutiveRejects >= MAX_CONSECUTIVE_REJECTS) {
+          fallbackReason = "rejected";
+          break;
+        }
+        await sleep(ORDER_POLL_INTERVAL_MS);
+        continue;
+      }
+
+      const orderId = order.id?.toString() || "";
+      if (orderIds.length > 1) {
+        repriceCount++;
+      }
+      logger.info(`📌 ${contract} ${config.mode === "post_only" ? "只做Maker" : "限价"}挂单 ${side === "long" ? "买入" : "卖出"} ${remaining} @ ${price}（订单 ${orderId}）`);
+
+      // 等待成交，到重挂时间或总时长时撤单
+      const orderDeadline = Math.min(now() + repriceMs, deadline);
+      let detail = order;
+      let cancelledByUs = false;
+      while (isLiveOrder(detail) && now() < orderDeadline) {
+        await sleep(Math.min(ORDER_POLL_INTERVAL_MS, orderDeadline - now()));
+        try {
+          detail = await exchangeClient.getOrder(orderId);
+        } catch (error: any) {
+          logger.warn(`查询挂单 ${orderId} 失败: ${error.message}`);
+        }
+      }
+      if (isLiveOrder(detail)) {
+        detail = await cancelAndConfirm(exchangeClient, orderId, detail, sleep);
+        cancelledByUs = true;
+      }
+
+      const filled = readOrderFill(detail, price);
+      if (filled.quantity > 0) {
+        fills.push({
+          orderId,
+          quantity: Math.min(filled.quantity, remaining),
+          price: filled.price,
+          // 只做Maker订单不会吃单；GTC 限价单在盘口挂单时可能与对手价成交，先按 Taker 计，以成交记录中的角色为准
+          liquidity: config.mode === "post_only" ? "maker" : "taker",
+          fee: null,
+        });
+        consecutiveRejects = 0;
+      } else if (!cancelledByUs) {
+        // 订单未经撤单即结束且无成交：只做 Maker 订单被拒绝
+        consecutiveRejects++;
+        logger.info(`↩️ ${contract} 只做Maker挂单被拒绝（${consecutiveRejects}/${MAX_CONSECUTIVE_REJECTS}），按最新盘口重挂`);
+        if (consecutiveRejects >= MAX_CONSECUTIVE_REJECTS) {
+          fallbackReason = "rejected";
+          break;
+        }
+        await sleep(ORDER_POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  const remaining = remainingQuantity();
+  if (remaining >= minSize && (config.mode === "market" || fallbackReason)) {
+    if (fallbackReason) {
+      logger.info(`⏩ ${contract} ${FALLBACK_REASON_LABELS[fallbackReason]}，剩余 ${remaining} 转市价成交`);
+    }
+    try {
+      status = await executeMarketOrder(exchangeClient, request, remaining, hooks, orderIds, fills);
+    } catch (error: any) {
+      if (fills.length === 0) {
+        throw error;
+      }
+      logger.error(`❌ ${contract} 剩余数量市价单失败，按已成交部分继续: ${error.message}`);
+    }
+  }
+
+  const summary = summarizeEntryFills(fills, referencePrice);
+  if (config.mode !== "market") {
+    logger.info(`✅ ${contract} 开仓执行完成: 成交 ${summary.filledQuantity}/${target}，均价 ${summary.averagePrice}，Maker ${summary.makerQuantity} / Taker ${summary.takerQuantity}，重挂 ${repriceCount} 次`);
+  }
+
+  return {
+    mode: config.mode,
+    orderIds,
+    fills,
+    ...summary,
+    repriceCount,
+    fallbackReason,
+    status,
+  };
+}
+
+/**
+ * 获取 Maker/Taker 费率（按交易所的手续费参考和网络类型）
+ */
+export function getEntryFeeRates(exchangeClient: IExchangeClient): { maker: number; taker: number } {
+  const exchangeName = exchangeClient.getFeeProfile?.() || exchangeClient.getExchangeName();
+  const rates = RISK_PARAMS.FEE_RATES[exchangeName as keyof typeof RISK_PARAMS.FEE_RATES]
+    ?? RISK_PARAMS.FEE_RATES.gate;
+  return exchangeClient.isTestnet() ? rates.testnet : rates.mainnet;
+}
+
+/**
+ * 为每笔成交填写手续费和 Maker/Taker 角色：优先使用交易所成交记录中的真实值（同一订单有任一 Taker 成交即记为 Taker），
+ * 找不到时按下单时假设的角色和费率估算，并更新结果中的 Maker/Taker 成交数量
+ * Maker 返佣（如 Gate）记为负数手续费
+ *
+ * @returns 手续费合计（USDT）
+ */
+export async function attachEntryFees(
+  exchangeClient: IExchangeClient,
+  contract: string,
+  execution: EntryExecutionResult,
+  quantoMultiplier: number,
+): Promise<number> {
+  let trades: TradeRecord[] = [];
+  try {
+    trades = await exchangeClient.getMyTrades(contract, 100);
+  } catch (error: any) {
+    logger.warn(`⚠️ 获取成交记录失败，使用估算手续费: ${error.message}`);
+  }
+
+  const rates = getEntryFeeRates(exchangeClient);
+  let total = 0;
+  for (const fill of execution.fills) {
+    const matched = trades.filter(t => t.order_id === fill.orderId || t.id === fill.orderId);
+    if (matched.length > 0) {
+      fill.fee = matched.reduce((sum, t) => sum + (Number.parseFloat(t.fee || "0") || 0), 0);
+      const roles = matched.map(t => t.role).filter(role => role === "maker" || role === "taker");
+      if (roles.length > 0) {
+        fill.liquidity = roles.every(role => role === "maker") ? "maker" : "taker";
+      }
+    } else {
+      const notional = fill.quantity * quantoMultiplier * fill.price;
+      fill.fee = notional * (fill.liquidity === "maker" ? rates.maker : rates.taker);
+    }
+    total += fill.fee;
+  }
+
+  const summary = summarizeEntryFills(execution.fills, execution.averagePrice);
+  execution.makerQuantity = summary.makerQuantity;
+  execution.takerQuantity = summary.takerQuantity;
+  return total;
+}
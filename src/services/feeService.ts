@@ -110,12 +110,13 @@ export class FeeService {
    * @param isMaker 是否为maker订单
    */
   estimateFee(notionalValue: number, isMaker: boolean = false): FeeCalculationResult {
-    const exchangeName = this.exchangeClient.getExchangeName();
+    // 回测等模拟交易所通过 getFeeProfile() 指定参考的费率表
+    const exchangeName = this.exchangeClient.getFeeProfile?.() || this.exchangeClient.getExchangeName();
     const isTestnet = this.exchangeClient.isTestnet();
 
     const networkType = isTestnet ? 'testnet' : 'mainnet';
     const feeConfig =
-      RISK_PARAMS.FEE_RATES[exchangeName as 'binance' | 'gate'][networkType];
+      RISK_PARAMS.FEE_RATES[exchangeName as keyof typeof RISK_PARAMS.FEE_RATES][networkType];
     const feeRate = isMaker ? feeConfig.maker : feeConfig.taker;
 
     const fee = Math.abs(notionalValue * feeRate);
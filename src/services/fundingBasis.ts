@@ -0,0 +1,386 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 资金费率与基差
+ *
+ * - 每个交易周期记录各币种的资金费率（结算前以最新预测值覆盖）和基差（标记价格相对指数价格的溢价）
+ * - 根据当前费率和历史费率预测持仓下次结算的资金费
+ * - 从交易所同步资金费结算流水，按持仓的开平仓时间归属到持仓（positions.entry_order_id）
+ *
+ * 资金费符号约定：费率为正时多头支付空头；金额为正表示收取，为负表示支付
+ */
+import type { Client } from "@libsql/client";
+import type { IExchangeClient } from "../exchanges/IExchangeClient";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO, nowMs } from "../utils/timeUtils";
+
+const logger = createLogger({
+  name: "funding-basis",
+  level: "info",
+});
+
+// 计算平均费率使用的已结算历史条数
+const FUNDING_HISTORY_SIZE = 21;
+
+export interface FundingQuote {
+  symbol: string;
+  rate: number;                 // 本次费率（predicted 为 true 时是下次结算的预测费率）
+  fundingTime: number;          // 费率对应的结算时间（毫秒）
+  predicted: boolean;           // 是否为尚未结算的预测费率
+  nextFundingTime: number;      // 下次结算时间（毫秒）
+  markPrice: number | null;
+  indexPrice: number | null;
+  basis: number | null;         // (标记价格 - 指数价格) / 指数价格
+}
+
+export interface FundingSnapshot extends FundingQuote {
+  averageRate: number | null;   // 已结算历史费率均值
+  historyCount: number;
+  sameSignShare: number | null; // 历史费率中与当前费率同号的比例
+}
+
+export interface FundingForecast {
+  symbol: string;
+  side: "long" | "short";
+  rate: number;
+  nextFundingTime: number;
+  expectedPnl: number;          // 下次结算预计资金费（正数为收取）
+  accumulatedPnl: number;       // 持仓已结算的资金费合计
+  settlementCount: number;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * 资金费结算间隔（毫秒，FUNDING_INTERVAL_HOURS，默认 8 小时）
+ */
+export function getFundingIntervalMs(): number {
+  const hours = Number.parseFloat(process.env.FUNDING_INTERVAL_HOURS || "8");
+  return (Number.isFinite(hours) && hours > 0 ? hours : 8) * 60 * 60 * 1000;
+}
+
+/**
+ * 基差（标记价格或指数价格无效时返回 null）
+ */
+export function calculateBasis(markPrice: number | null, indexPrice: number | null): number | null {
+  if (!markPrice || !indexPrice || markPrice <= 0 || indexPrice <= 0) {
+    return null;
+  }
+  return (markPrice - indexPrice) / indexPrice;
+}
+
+/**
+ * 解析交易所资金费率响应
+ *
+ * 兼容 Gate 格式（r/t，t 为最近一次结算时间，秒）和其他交易所附带的 funding_rate/next_funding_time（毫秒）、
+ * mark_price/index_price；Gate 的 t 早于当前时间时视为已结算费率，下次结算时间按结算间隔推算
+ */
+export function parseFundingRate(symbol: string, raw: any, now: number = nowMs()): FundingQuote {
+  const rate = toNumber(raw?.r) ?? toNumber(raw?.funding_rate) ?? toNumber(raw?.fundingRate) ?? 0;
+  const interval = getFundingIntervalMs();
+  const nextFromExchange = toNumber(raw?.next_funding_time);
+  const t = toNumber(raw?.t);
+
+  let fundingTime: number;
+  let predicted: boolean;
+  let nextFundingTime: number;
+  if (nextFromExchange && nextFromExchange > 0) {
+    fundingTime = nextFromExchange;
+    predicted = nextFromExchange > now;
+    nextFundingTime = predicted ? nextFromExchange : (Math.floor(now / interval) + 1) * interval;
+  } else if (t && t * 1000 > now) {
+    fundingTime = t * 1000;
+    predicted = true;
+    nextFundingTime = fundingTime;
+  } else {
+    nextFundingTime = (Math.floor(now / interval) + 1) * interval;
+    fundingTime = t ? t * 1000 : nextFundingTime;
+    predicted = !t;
+  }
+
+  const markPrice = toNumber(raw?.mark_price);
+  const indexPrice = toNumber(raw?.index_price);
+  return {
+    symbol,
+    rate,
+    fundingTime,
+    predicted,
+    nextFundingTime,
+    markPrice,
+    indexPrice,
+    basis: calculateBasis(markPrice, indexPrice),
+  };
+}
+
+/**
+ * 记录资金费率（同一结算时间只保留最新一次记录）
+ */
+export async function recordFundingRate(dbClient: Client, quote: FundingQuote): Promise<void> {
+  await dbClient.execute({
+    sql: `INSERT INTO funding_rates (account_id, symbol, funding_time, rate, mark_price, index_price, basis, recorded_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(account_id, symbol, funding_time) DO UPDATE SET
+            rate = excluded.rate,
+            mark_price = COALESCE(excluded.mark_price, funding_rates.mark_price),
+            index_price = COALESCE(excluded.index_price, funding_rates.index_price),
+            basis = COALESCE(excluded.basis, funding_rates.basis),
+            recorded_at = excluded.recorded_at`,
+    args: [
+      getCurrentAccountId(),
+      quote.symbol,
+      quote.fundingTime,
+      quote.rate,
+      quote.markPrice,
+      quote.indexPrice,
+      quote.basis,
+      getChinaTimeISO(),
+    ],
+  });
+}
+
+/**
+ * 已结算的历史费率（按结算时间倒序）
+ */
+export async function getFundingHistory(
+  dbClient: Client,
+  symbol: string,
+  limit: number = FUNDING_HISTORY_SIZE,
+): Promise<Array<{ fundingTime: number; rate: number; basis: number | null }>> {
+  const result = await dbClient.execute({
+    sql: `SELECT funding_time, rate, basis FROM funding_rates
+          WHERE account_id = ? AND symbol = ? AND funding_time <= ?
+          ORDER BY funding_time DESC LIMIT ?`,
+    args: [getCurrentAccountId(), symbol, nowMs(), limit],
+  });
+  return result.rows.map(row => ({
+    fundingTime: Number(row.funding_time),
+    rate: Number(row.rate),
+    basis: toNumber(row.basis),
+  }));
+}
+
+/**
+ * 合并当前费率与历史费率
+ */
+export function buildFundingSnapshot(
+  quote: FundingQuote,
+  history: Array<{ fundingTime: number; rate: number }>,
+): FundingSnapshot {
+  if (history.length === 0) {
+    return { ...quote, averageRate: null, historyCount: 0, sameSignShare: null };
+  }
+  const averageRate = history.reduce((sum, h) => sum + h.rate, 0) / history.length;
+  const sameSign = quote.rate === 0 ? 0 : history.filter(h => Math.sign(h.rate) === Math.sign(quote.rate)).length;
+  return {
+    ...quote,
+    averageRate,
+    historyCount: history.length,
+    sameSignShare: sameSign / history.length,
+  };
+}
+
+/**
+ * 获取币种的资金费率快照：查询交易所当前费率（交易所客户端自带缓存），记录后合并历史费率
+ */
+export async function getFundingSnapshot(
+  dbClient: Client,
+  exchangeClient: IExchangeClient,
+  symbol: string,
+): Promise<FundingSnapshot> {
+  const contract = exchangeClient.normalizeContract(symbol);
+  const quote = parseFundingRate(symbol, await exchangeClient.getFundingRate(contract));
+
+  if (quote.basis === null) {
+    // 资金费率接口没有价格时从行情补充标记价格和指数价格
+    try {
+      const ticker: any = await exchangeClient.getFuturesTicker(contract, undefined, undefined, true);
+      quote.markPrice = toNumber(ticker.markPrice ?? ticker.mark_price);
+      quote.indexPrice = toNumber(ticker.indexPrice ?? ticker.index_price);
+      quote.basis = calculateBasis(quote.markPrice, quote.indexPrice);
+    } catch (error) {
+      logger.debug(`获取 ${symbol} 标记价格失败，基差未知:`, error as any);
+    }
+  }
+
+  await recordFundingRate(dbClient, quote);
+  const history = await getFundingHistory(dbClient, symbol);
+  return buildFundingSnapshot(quote, history);
+}
+
+/**
+ * 预测下次结算的资金费（正数为收取）：费率为正时多头支付、空头收取
+ */
+export function predictFundingPnl(side: "long" | "short", notional: number, rate: number): number {
+  const pnl = (side === "long" ? -1 : 1) * notional * rate;
+  return pnl === 0 ? 0 : pnl;
+}
+
+/**
+ * 持仓已结算的资金费合计
+ */
+export async function getPositionFundingPnl(
+  dbClient: Client,
+  positionOrderId: string,
+): Promise<{ total: number; count: number }> {
+  const result = await dbClient.execute({
+    sql: `SELECT COALESCE(SUM(amount), 0) as total, COUNT(*) as count FROM funding_settlements
+          WHERE account_id = ? AND position_order_id = ?`,
+    args: [getCurrentAccountId(), positionOrderId],
+  });
+  return { total: Number(result.rows[0]?.total ?? 0), count: Number(result.rows[0]?.count ?? 0) };
+}
+
+/**
+ * 预测持仓下次结算的资金费，并附带已结算的资金费合计
+ */
+export async function forecastPositionFunding(
+  dbClient: Client,
+  snapshot: FundingSnapshot,
+  position: { side: "long" | "short"; notional: number; positionOrderId?: string | null },
+): Promise<FundingForecast> {
+  const settled = position.positionOrderId
+    ? await getPositionFundingPnl(dbClient, position.positionOrderId)
+    : { total: 0, count: 0 };
+  return {
+    symbol: snapshot.symbol,
+    side: position.side,
+    rate: snapshot.rate,
+    nextFundingTime: snapshot.nextFundingTime,
+    expectedPnl: predictFundingPnl(position.side, position.notional, snapshot.rate),
+    accumulatedPnl: settled.total,
+    settlementCount: settled.count,
+  };
+}
+
+/**
+ * 持仓的生命周期窗口：开仓时间到最后一次平仓时间（未平仓为无穷大）
+ */
+async function loadPositionWindows(
+  dbClient: Client,
+): Promise<Array<{ positionOrderId: string; symbol: string; openedAt: number; closedAt: number }>> {
+  const accountId = getCurrentAccountId();
+  const [openResult, entryResult, closeResult] = await Promise.all([
+    dbClient.execute({
+      sql: "SELECT symbol, entry_order_id, opened_at FROM positions WHERE account_id = ?",
+      args: [accountId],
+    }),
+    dbClient.execute({
+      sql: "SELECT position_order_id, symbol, opened_at FROM position_entries WHERE account_id = ?",
+      args: [accountId],
+    }),
+    dbClient.execute({
+      sql: `SELECT position_order_id, MAX(created_at) as closed_at FROM position_close_events
+            WHERE account_id = ? AND position_order_id IS NOT NULL
+            GROUP BY position_order_id`,
+      args: [accountId],
+    }),
+  ]);
+
+  const closedAt = new Map(closeResult.rows.map(row => [row.position_order_id as string, new Date(row.closed_at as string).getTime()]));
+  const windows = new Map<string, { positionOrderId: string; symbol: string; openedAt: number; closedAt: number }>();
+  for (const row of entryResult.rows) {
+    const id = row.position_order_id as string;
+    const close = closedAt.get(id);
+    if (close !== undefined) {
+      windows.set(id, { positionOrderId: id, symbol: row.symbol as string, openedAt: new Date(row.opened_at as string).getTime(), closedAt: close });
+    }
+  }
+  // 仍在持仓表中的持仓未平仓（分批止盈也会写入平仓事件）
+  for (const row of openResult.rows) {
+    const id = row.entry_order_id as string;
+    windows.set(id, { positionOrderId: id, symbol: row.symbol as string, openedAt: new Date(row.opened_at as string).getTime(), closedAt: Number.POSITIVE_INFINITY });
+  }
+  return Array.from(windows.values()).filter(w => Number.isFinite(w.openedAt));
+}
+
+/**
+ * 把未归属的资金费结算归属到结算时正在持有的持仓
+ *
+ * @returns 本次归属的结算条数
+ */
+export async function attributeFundingSettlements(dbClient: Client): Promise<number> {
+  const accountId = getCurrentAccountId();
+  const pending = await dbClient.execute({
+    sql: "SELECT id, symbol, settled_at FROM funding_settlements WHERE account_id = ? AND position_order_id IS NULL",
+    args: [accountId],
+  });
+  if (pending.rows.length === 0) {
+    return 0;
+  }
+
+  const windows = await loadPositionWindows(dbClient);
+  const updates = [];
+  for (const row of pending.rows) {
+    const settledAt = Number(row.settled_at);
+    const window = windows.find(w => w.symbol === row.symbol && settledAt >= w.openedAt && settledAt <= w.closedAt);
+    if (window) {
+      updates.push({
+        sql: "UPDATE funding_settlements SET position_order_id = ? WHERE id = ?",
+        args: [window.positionOrderId, row.id],
+      });
+    }
+  }
+  if (updates.length > 0) {
+    await dbClient.batch(updates, "write");
+  }
+  return updates.length;
+}
+
+/**
+ * 同步交易所资金费结算流水并归属到持仓
+ */
+export async function syncFundingSettlements(
+  dbClient: Client,
+  exchangeClient: IExchangeClient,
+  limit: number = 100,
+): Promise<{ inserted: number; attributed: number }> {
+  const records = await exchangeClient.getSettlementHistory(undefined, limit);
+  const accountId = getCurrentAccountId();
+  const inserts = [];
+  for (const record of records) {
+    const time = toNumber(record.time);
+    const amount = toNumber(record.change);
+    if (!time || amount === null || !record.contract) {
+      continue;
+    }
+    inserts.push({
+      sql: `INSERT OR IGNORE INTO funding_settlements (account_id, symbol, settled_at, amount, external_id)
+            VALUES (?, ?, ?, ?, ?)`,
+      args: [accountId, exchangeClient.extractSymbol(record.contract), Math.round(time * 1000), amount, record.text ?? null],
+    });
+  }
+
+  let inserted = 0;
+  if (inserts.length > 0) {
+    const results = await dbClient.batch(inserts, "write");
+    inserted = results.reduce((sum, r) => sum + r.rowsAffected, 0);
+  }
+  const attributed = await attributeFundingSettlements(dbClient);
+  if (inserted > 0 || attributed > 0) {
+    logger.info(`💸 同步资金费结算: 新增 ${inserted} 条，归属到持仓 ${attributed} 条`);
+  }
+  return { inserted, attributed };
+}
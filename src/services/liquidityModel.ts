@@ -0,0 +1,434 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 订单簿流动性模型
+ *
+ * - 从订单簿计算买卖价差、中间价 ±0.5%/±1% 内的深度（USDT）
+ * - 按订单簿逐档成交估算市价单的平均成交价和滑点，并反推滑点上限内的最大下单数量
+ * - 订单簿在内存中缓存 LIQUIDITY_CACHE_TTL_SECONDS 秒，每次采样写入 liquidity_snapshots，
+ *   评分使用 LIQUIDITY_HISTORY_HOURS 小时内的价差和深度均值，避免单次快照的偶然波动
+ * - 同一币种的并发请求共用一次采样；估算参考订单用的账户净值同样按该有效期缓存，
+ *   一轮评分内每个币种只请求一次订单簿、只请求一次账户
+ *
+ * 订单簿数量与 calculateQuantity 返回的数量单位一致（Gate 为张数，其他交易所为币数量），
+ * 换算 USDT 时乘以合约乘数
+ */
+import type { Client } from "@libsql/client";
+import type { IExchangeClient } from "../exchanges/IExchangeClient";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+import { nowMs } from "../utils/timeUtils";
+
+const logger = createLogger({
+  name: "liquidity-model",
+  level: "info",
+});
+
+// 获取的订单簿档位数（Binance 只接受 5/10/20/50/100 等固定值）
+const ORDER_BOOK_DEPTH = 50;
+
+// 评分区间：价差 ≤0.02% 满分、≥0.2% 零分；±1% 深度（较薄一侧）≥500万 USDT 满分、≤5万 USDT 零分（对数刻度）
+const SPREAD_BEST_PERCENT = 0.02;
+const SPREAD_WORST_PERCENT = 0.2;
+const DEPTH_BEST_USDT = 5_000_000;
+const DEPTH_WORST_USDT = 50_000;
+
+export interface OrderBookLevel {
+  price: number;
+  size: number;                 // 交易所数量单位（Gate 为张数）
+}
+
+export interface ParsedOrderBook {
+  bids: OrderBookLevel[];       // 价格从高到低
+  asks: OrderBookLevel[];       // 价格从低到高
+}
+
+export interface LiquidityMetrics {
+  symbol: string;
+  midPrice: number;
+  spreadPercent: number;        // 买卖价差（相对中间价，百分比）
+  bidDepth05: number;           // 中间价下方 0.5% 内的买单深度（USDT）
+  askDepth05: number;
+  bidDepth1: number;            // 中间价下方 1% 内的买单深度（USDT）
+  askDepth1: number;
+}
+
+export interface LiquidityProfile extends LiquidityMetrics {
+  sampledAt: number;
+  orderBook: ParsedOrderBook;
+  quantoMultiplier: number;
+  averageSpreadPercent: number; // 历史窗口内的价差均值（含本次）
+  averageDepth1: number;        // 历史窗口内 ±1% 较薄一侧深度的均值（含本次）
+  sampleCount: number;
+}
+
+export interface SlippageEstimate {
+  side: "long" | "short";
+  quantity: number;
+  filledQuantity: number;       // 订单簿可成交的数量
+  fullyFilled: boolean;
+  averagePrice: number;
+  notional: number;             // 成交金额（USDT）
+  slippagePercent: number;      // 平均成交价相对中间价的不利偏离（百分比）
+}
+
+export interface EntrySlippageCheck {
+  action: "accept" | "reduce" | "reject";
+  quantity: number;             // 允许的下单数量（reduce 时为缩减后的上限，reject 时为 0）
+  estimate: SlippageEstimate;
+  reason: string;
+}
+
+const profileCache = new Map<string, LiquidityProfile>();
+const pendingProfiles = new Map<string, Promise<LiquidityProfile>>();
+const equityCache = new Map<string, { equity: number; sampledAt: number }>();
+
+function toPositiveNumber(value: unknown): number | null {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : null;
+}
+
+function getCacheTtlMs(): number {
+  const seconds = Number.parseFloat(process.env.LIQUIDITY_CACHE_TTL_SECONDS || "60");
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : 60) * 1000;
+}
+
+function getHistoryWindowMs(): number {
+  const hours = Number.parseFloat(process.env.LIQUIDITY_HISTORY_HOURS || "24");
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+/**
+ * 解析订单簿（统一的 [{p, s}] 格式），丢弃无效档位并排序
+ */
+export function parseOrderBook(raw: any): ParsedOrderBook {
+  const parseLevels = (levels: any): OrderBookLevel[] => {
+    if (!Array.isArray(levels)) {
+      return [];
+    }
+    const parsed: OrderBookLevel[] = [];
+    for (const level of levels) {
+      const price = toPositiveNumber(level?.p ?? level?.[0]);
+      // Gate 卖单数量可能为负数
+      const size = toPositiveNumber(Math.abs(Number(level?.s ?? level?.[1])));
+      if (price !== null && size !== null) {
+        parsed.push({ price, size });
+      }
+    }
+    return parsed;
+  };
+  return {
+    bids: parseLevels(raw?.bids).sort((a, b) => b.price - a.price),
+    asks: parseLevels(raw?.asks).sort((a, b) => a.price - b.price),
+  };
+}
+
+/**
+ * 计算价差和深度（买卖任一侧为空时返回 null）
+ */
+export function measureOrderBook(symbol: string, book: ParsedOrderBook, quantoMultiplier: number = 1): LiquidityMetrics | null {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (!bestBid || !bestAsk || bestAsk < bestBid) {
+    return null;
+  }
+  const midPrice = (bestBid + bestAsk) / 2;
+  const depth = (levels: OrderBookLevel[], rangePercent: number, side: "bid" | "ask") => {
+    const limit = side === "bid" ? midPrice * (1 - rangePercent / 100) : midPrice * (1 + rangePercent / 100);
+    let total = 0;
+    for (const level of levels) {
+      if (side === "bid" ? level.price < limit : level.price > limit) {
+        break;
+      }
+      total += level.price * level.size * quantoMultiplier;
+    }
+    return total;
+  };
+
+  return {
+    symbol,
+    midPrice,
+    spreadPercent: ((bestAsk - bestBid) / midPrice) * 100,
+    bidDepth05: depth(book.bids, 0.5, "bid"),
+    askDepth05: depth(book.asks, 0.5, "ask"),
+    bidDepth1: depth(book.bids, 1, "bid"),
+    askDepth1: depth(book.asks, 1, "ask"),
+  };
+}
+
+/**
+ * 估算市价单逐档成交的平均价格和滑点（做多吃卖单，做空吃买单）
+ * 订单簿不足以成交全部数量时，剩余部分按最后一档价格计算，fullyFilled 为 false
+ */
+export function estimateSlippage(
+  profile: Pick<LiquidityProfile, "orderBook" | "midPrice" | "quantoMultiplier">,
+  side: "long" | "short",
+  quantity: number,
+): SlippageEstimate {
+  const levels = side === "long" ? profile.orderBook.asks : profile.orderBook.bids;
+  let remaining = quantity;
+  let cost = 0;
+  let lastPrice = levels[0]?.price ?? profile.midPrice;
+  for (const level of levels) {
+    if (remaining <= 0) {
+      break;
+    }
+    const take = Math.min(remaining, level.size);
+    cost += take * level.price;
+    remaining -= take;
+    lastPrice = level.price;
+  }
+  const filledQuantity = quantity - Math.max(0, remaining);
+  if (remaining > 0) {
+    cost += remaining * lastPrice;
+  }
+
+  const averagePrice = quantity > 0 ? cost / quantity : profile.midPrice;
+  const deviation = side === "long" ? averagePrice - profile.midPrice : profile.midPrice - averagePrice;
+  return {
+    side,
+    quantity,
+    filledQuantity,
+    fullyFilled: remaining <= 0,
+    averagePrice,
+    notional: cost * profile.quantoMultiplier,
+    slippagePercent: Math.max(0, (deviation / profile.midPrice) * 100),
+  };
+}
+
+/**
+ * 平均成交滑点不超过 maxSlippagePercent 时可下单的最大数量
+ */
+export function maxQuantityWithinSlippage(
+  profile: Pick<LiquidityProfile, "orderBook" | "midPrice">,
+  side: "long" | "short",
+  maxSlippagePercent: number,
+): number {
+  const levels = side === "long" ? profile.orderBook.asks : profile.orderBook.bids;
+  const sign = side === "long" ? 1 : -1;
+  // 平均成交价的上限（做多）或下限（做空）
+  const limitPrice = profile.midPrice * (1 + (sign * maxSlippagePercent) / 100);
+  let quantity = 0;
+  let cost = 0;
+  for (const level of levels) {
+    if (sign * (level.price - limitPrice) <= 0) {
+      quantity += level.size;
+      cost += level.size * level.price;
+      continue;
+    }
+    // 加入本档后均价仍可能在上限内，最多吃 x：(cost + x * price) / (quantity + x) = limitPrice
+    const partial = (limitPrice * quantity - cost) / (level.price - limitPrice);
+    if (partial < level.size) {
+      return quantity + Math.max(0, partial);
+    }
+    quantity += level.size;
+    cost += level.size * level.price;
+  }
+  return quantity;
+}
+
+/**
+ * 开仓滑点检查：预计滑点超过上限时缩减到上限内的最大数量，缩减后低于 minQuantity 则拒绝
+ */
+export function evaluateEntrySlippage(
+  profile: LiquidityProfile,
+  side: "long" | "short",
+  quantity: number,
+  maxSlippagePercent: number,
+  minQuantity: number,
+): EntrySlippageCheck {
+  const estimate = estimateSlippage(profile, side, quantity);
+  const limitText = `上限 ${maxSlippagePercent.toFixed(3)}%`;
+  if (estimate.fullyFilled && estimate.slippagePercent <= maxSlippagePercent) {
+    return {
+      action: "accept",
+      quantity,
+      estimate,
+      reason: `预计滑点 ${estimate.slippagePercent.toFixed(3)}% ≤ ${limitText}`,
+    };
+  }
+
+  const maxQuantity = maxQuantityWithinSlippage(profile, side, maxSlippagePercent);
+  const depthText = estimate.fullyFilled
+    ? `预计滑点 ${estimate.slippagePercent.toFixed(3)}% > ${limitText}`
+    : `订单簿只能成交 ${estimate.filledQuantity} / ${quantity}`;
+  if (maxQuantity < minQuantity) {
+    return {
+      action: "reject",
+      quantity: 0,
+      estimate,
+      reason: `${depthText}，滑点上限内可成交数量 ${maxQuantity} 小于最小下单量 ${minQuantity}`,
+    };
+  }
+  return {
+    action: "reduce",
+    quantity: maxQuantity,
+    estimate,
+    reason: `${depthText}，缩减到滑点上限内的数量 ${maxQuantity}`,
+  };
+}
+
+/**
+ * 流动性评分（0-1）：价差 30%、±1% 深度 40%、参考订单滑点 30%
+ * 没有参考订单时只按价差和深度评分；价差和深度使用历史窗口均值
+ */
+export function scoreLiquidityProfile(
+  profile: LiquidityProfile,
+  slippage?: SlippageEstimate | null,
+  maxSlippagePercent?: number,
+): number {
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  const spreadScore = clamp(
+    (SPREAD_WORST_PERCENT - profile.averageSpreadPercent) / (SPREAD_WORST_PERCENT - SPREAD_BEST_PERCENT),
+  );
+  const depthScore = profile.averageDepth1 > 0
+    ? clamp(Math.log10(profile.averageDepth1 / DEPTH_WORST_USDT) / Math.log10(DEPTH_BEST_USDT / DEPTH_WORST_USDT))
+    : 0;
+
+  if (!slippage || !maxSlippagePercent || maxSlippagePercent <= 0) {
+    return spreadScore * 0.4 + depthScore * 0.6;
+  }
+  const slippageScore = slippage.fullyFilled ? clamp(1 - slippage.slippagePercent / maxSlippagePercent) : 0;
+  return spreadScore * 0.3 + depthScore * 0.4 + slippageScore * 0.3;
+}
+
+/**
+ * 记录流动性快照并清理历史窗口之外的记录
+ */
+async function recordLiquiditySnapshot(dbClient: Client, metrics: LiquidityMetrics, sampledAt: number): Promise<void> {
+  const accountId = getCurrentAccountId();
+  await dbClient.batch([
+    {
+      sql: `INSERT INTO liquidity_snapshots (account_id, symbol, mid_price, spread_percent, bid_depth_05, ask_depth_05, bid_depth_1, ask_depth_1, recorded_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        accountId,
+        metrics.symbol,
+        metrics.midPrice,
+        metrics.spreadPercent,
+        metrics.bidDepth05,
+        metrics.askDepth05,
+        metrics.bidDepth1,
+        metrics.askDepth1,
+        sampledAt,
+      ],
+    },
+    {
+      sql: "DELETE FROM liquidity_snapshots WHERE account_id = ? AND symbol = ? AND recorded_at < ?",
+      args: [accountId, metrics.symbol, sampledAt - getHistoryWindowMs()],
+    },
+  ], "write");
+}
+
+/**
+ * 获取币种的流动性画像（缓存有效期内直接返回缓存，采样进行中时等待同一次采样）
+ */
+export async function getLiquidityProfile(
+  dbClient: Client,
+  exchangeClient: IExchangeClient,
+  symbol: string,
+): Promise<LiquidityProfile> {
+  const cacheKey = `${getCurrentAccountId()}:${symbol}`;
+  const cached = profileCache.get(cacheKey);
+  if (cached && nowMs() - cached.sampledAt < getCacheTtlMs()) {
+    return cached;
+  }
+  const pending = pendingProfiles.get(cacheKey);
+  if (pending) {
+    return pending;
+  }
+
+  const sampling = sampleLiquidityProfile(dbClient, exchangeClient, symbol)
+    .then((profile) => {
+      profileCache.set(cacheKey, profile);
+      return profile;
+    })
+    .finally(() => {
+      pendingProfiles.delete(cacheKey);
+    });
+  pendingProfiles.set(cacheKey, sampling);
+  return sampling;
+}
+
+/**
+ * 采样订单簿、写入快照并按历史窗口计算均值
+ */
+async function sampleLiquidityProfile(
+  dbClient: Client,
+  exchangeClient: IExchangeClient,
+  symbol: string,
+): Promise<LiquidityProfile> {
+  const now = nowMs();
+  const contract = exchangeClient.normalizeContract(symbol);
+  const [rawBook, contractInfo] = await Promise.all([
+    exchangeClient.getOrderBook(contract, ORDER_BOOK_DEPTH),
+    exchangeClient.getContractInfo(contract),
+  ]);
+  const quantoMultiplier = toPositiveNumber(contractInfo?.quantoMultiplier) ?? 1;
+  const orderBook = parseOrderBook(rawBook);
+  const metrics = measureOrderBook(symbol, orderBook, quantoMultiplier);
+  if (!metrics) {
+    throw new Error(`${symbol} 订单簿为空或无效`);
+  }
+
+  await recordLiquiditySnapshot(dbClient, metrics, now);
+  const history = await dbClient.execute({
+    sql: `SELECT AVG(spread_percent) as avg_spread, AVG(MIN(bid_depth_1, ask_depth_1)) as avg_depth, COUNT(*) as count
+          FROM liquidity_snapshots WHERE account_id = ? AND symbol = ? AND recorded_at >= ?`,
+    args: [getCurrentAccountId(), symbol, now - getHistoryWindowMs()],
+  });
+  const row = history.rows[0];
+
+  const profile: LiquidityProfile = {
+    ...metrics,
+    sampledAt: now,
+    orderBook,
+    quantoMultiplier,
+    averageSpreadPercent: Number(row?.avg_spread ?? metrics.spreadPercent),
+    averageDepth1: Number(row?.avg_depth ?? Math.min(metrics.bidDepth1, metrics.askDepth1)),
+    sampleCount: Number(row?.count ?? 1),
+  };
+  logger.debug(`${symbol} 流动性: 价差 ${metrics.spreadPercent.toFixed(4)}%, ±1%深度 ${metrics.bidDepth1.toFixed(0)}/${metrics.askDepth1.toFixed(0)} USDT`);
+  return profile;
+}
+
+/**
+ * 账户净值（总额扣除未实现盈亏），用于估算参考订单滑点；缓存有效期同订单簿
+ */
+export async function getReferenceEquity(exchangeClient: IExchangeClient): Promise<number> {
+  const accountId = getCurrentAccountId();
+  const now = nowMs();
+  const cached = equityCache.get(accountId);
+  if (cached && now - cached.sampledAt < getCacheTtlMs()) {
+    return cached.equity;
+  }
+  const account = await exchangeClient.getFuturesAccount();
+  const equity = Number.parseFloat(account.total || "0") - Number.parseFloat(account.unrealisedPnl || "0");
+  equityCache.set(accountId, { equity, sampledAt: now });
+  return equity;
+}
+
+/**
+ * 清空流动性缓存（用于测试）
+ */
+export function clearLiquidityCache(): void {
+  profileCache.clear();
+  pendingProfiles.clear();
+  equityCache.clear();
+}
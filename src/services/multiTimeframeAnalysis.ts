@@ -22,6 +22,20 @@
 
 import { createLogger } from "../utils/logger";
 import { getExchangeClient } from "../exchanges";
+import {
+  calculateADX,
+  calculateATR,
+  calculateEMA,
+  calculateKeltnerChannels,
+  calculateMACD,
+  calculateOBV,
+  calculateRSI,
+  calculateStochasticRSI,
+  calculateVWAP,
+  indicatorSeries,
+  MACD,
+  normalizeCandles,
+} from "../utils/indicators";
 
 const logger = createLogger({
   name: "multi-timeframe",
@@ -98,90 +112,6 @@ function ensureRange(value: number, min: number, max: number, defaultValue?: num
   return value;
 }
 
-/**
- * 计算EMA
- */
-function calculateEMA(prices: number[], period: number): number {
-  if (prices.length < period) return 0;
-  
-  const k = 2 / (period + 1);
-  let ema = prices.slice(0, period).reduce((a, b) => a + b, 0) / period;
-  
-  for (let i = period; i < prices.length; i++) {
-    ema = prices[i] * k + ema * (1 - k);
-  }
-  
-  return ensureFinite(ema);
-}
-
-/**
- * 计算RSI
- */
-function calculateRSI(prices: number[], period: number): number {
-  if (prices.length < period + 1) return 50;
-  
-  const changes = [];
-  for (let i = 1; i < prices.length; i++) {
-    changes.push(prices[i] - prices[i - 1]);
-  }
-  
-  let gains = 0;
-  let losses = 0;
-  
-  for (let i = 0; i < period; i++) {
-    if (changes[i] >= 0) {
-      gains += changes[i];
-    } else {
-      losses -= changes[i];
-    }
-  }
-  
-  let avgGain = gains / period;
-  let avgLoss = losses / period;
-  
-  for (let i = period; i < changes.length; i++) {
-    if (changes[i] >= 0) {
-      avgGain = (avgGain * (period - 1) + changes[i]) / period;
-      avgLoss = (avgLoss * (period - 1)) / period;
-    } else {
-      avgGain = (avgGain * (period - 1)) / period;
-      avgLoss = (avgLoss * (period - 1) - changes[i]) / period;
-    }
-  }
-  
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  const rsi = 100 - 100 / (1 + rs);
-  // 确保RSI在0-100范围内
-  return ensureRange(rsi, 0, 100, 50);
-}
-
-/**
- * 计算MACD
- */
-function calculateMACD(prices: number[]): { macd: number; signal: number; histogram: number } {
-  const ema12 = calculateEMA(prices, 12);
-  const ema26 = calculateEMA(prices, 26);
-  const macd = ema12 - ema26;
-  
-  const macdLine = [];
-  for (let i = 26; i <= prices.length; i++) {
-    const slice = prices.slice(0, i);
-    const e12 = calculateEMA(slice, 12);
-    const e26 = calculateEMA(slice, 26);
-    macdLine.push(e12 - e26);
-  }
-  
-  const signal = calculateEMA(macdLine, 9);
-  const histogram = macd - signal;
-  
-  return { 
-    macd: ensureFinite(macd), 
-    signal: ensureFinite(signal), 
-    histogram: ensureFinite(histogram) 
-  };
-}
-
 /**
  * 单个时间框架的原始数据
  */
@@ -213,6 +143,24 @@ export interface TimeframeIndicators {
   atr: number;
   atrRatio: number; // 当前ATR / 历史平均ATR
   
+  // 趋势强度（ADX14）
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+  
+  // 随机RSI（14, 14, 3, 3）
+  stochRsiK: number;
+  stochRsiD: number;
+  
+  // 肯特纳通道（EMA20 ± 2 × ATR10）
+  keltnerUpper: number;
+  keltnerMiddle: number;
+  keltnerLower: number;
+  
+  // 成交量加权均价和能量潮
+  vwap: number;
+  obv: number;
+  
   // 成交量
   volume: number;
   avgVolume: number;
@@ -257,22 +205,10 @@ export async function analyzeTimeframe(
     throw new Error(`无法获取 ${symbol} 的 ${config.interval} K线数据`);
   }
   
-  // 提取价格和成交量数据
-  // 🔧 兼容两种数据格式：
-  // - GateExchangeClient 返回: { close, volume }
-  // - BinanceExchangeClient 可能返回: { c, v }
-  const closes = candles.map((c: any) => {
-    const closeVal = c.close || c.c;
-    return Number.parseFloat(closeVal || "0");
-  }).filter((n: number) => Number.isFinite(n));
-  
-  // 🔧 成交量数据处理：兼容不同字段名和数据格式
-  const volumes = candles.map((c: any) => {
-    // 支持多种字段名：volume (标准), v (简写)
-    const volStr = c.volume || c.v || "0";
-    const vol = Number.parseFloat(volStr);
-    return Number.isFinite(vol) && vol >= 0 ? vol : 0;
-  }).filter((n: number) => n >= 0);
+  // 提取价格和成交量数据（兼容 { close, volume } 与 { c, v } 等格式）
+  const normalized = normalizeCandles(candles);
+  const closes = normalized.map(c => c.close);
+  const volumes = normalized.map(c => c.volume);
   
   const currentPrice = closes[closes.length - 1] || 0;
   
@@ -290,10 +226,14 @@ export async function analyzeTimeframe(
   const bb = calculateBollingerBands(closes, 20, 2);
   
   // ATR和波动率
-  const atr = calculateATR(candles, 14);
-  const historicalATR = candles.length >= 40 ? calculateATR(candles.slice(0, -20), 14) : atr;
+  const atr = calculateATR(normalized, 14);
+  const historicalATR = normalized.length >= 40 ? calculateATR(normalized.slice(0, -20), 14) : atr;
   const atrRatio = historicalATR !== 0 ? atr / historicalATR : 1;
   
+  const adx = calculateADX(normalized, 14);
+  const stochRsi = calculateStochasticRSI(closes);
+  const keltner = calculateKeltnerChannels(normalized);
+  
   // 成交量
   const avgVolume = volumes.length > 0 
     ? volumes.reduce((a: number, b: number) => a + b, 0) / volumes.length 
@@ -328,6 +268,16 @@ export async function analyzeTimeframe(
     bollingerBandwidth: bb.bandwidth,
     atr: ensureFinite(atr),
     atrRatio: ensureFinite(atrRatio),
+    adx: ensureRange(adx.adx, 0, 100, 0),
+    plusDI: ensureRange(adx.plusDI, 0, 100, 0),
+    minusDI: ensureRange(adx.minusDI, 0, 100, 0),
+    stochRsiK: ensureRange(stochRsi.k, 0, 100, 50),
+    stochRsiD: ensureRange(stochRsi.d, 0, 100, 50),
+    keltnerUpper: ensureFinite(keltner.upper),
+    keltnerMiddle: ensureFinite(keltner.middle),
+    keltnerLower: ensureFinite(keltner.lower),
+    vwap: ensureFinite(calculateVWAP(normalized)),
+    obv: ensureFinite(calculateOBV(normalized)),
     volume: ensureFinite(currentVolume),
     avgVolume: ensureFinite(avgVolume),
     volumeRatio: ensureFinite(volumeRatio),
@@ -454,34 +404,6 @@ function calculateKeyLevels(
   };
 }
 
-/**
- * 计算ATR (Average True Range)
- */
-function calculateATR(candles: any[], period: number = 14): number {
-  if (!candles || candles.length < period + 1) return 0;
-  
-  const trueRanges: number[] = [];
-  
-  for (let i = 1; i < candles.length; i++) {
-    const high = parseFloat(candles[i].high || candles[i].h || "0");
-    const low = parseFloat(candles[i].low || candles[i].l || "0");
-    const prevClose = parseFloat(candles[i - 1].close || candles[i - 1].c || "0");
-    
-    const tr = Math.max(
-      high - low,
-      Math.abs(high - prevClose),
-      Math.abs(low - prevClose)
-    );
-    trueRanges.push(tr);
-  }
-  
-  // 计算ATR（简单移动平均）
-  if (trueRanges.length < period) return 0;
-  
-  const atr = trueRanges.slice(-period).reduce((a, b) => a + b, 0) / period;
-  return ensureFinite(atr);
-}
-
 /**
  * 计算布林带 (Bollinger Bands)
  */
@@ -523,14 +445,8 @@ export function calculateBollingerBands(
 export function detectMACDHistogramTurn(prices: number[]): number {
   if (prices.length < 30) return 0;
   
-  const macdHistory: number[] = [];
-  
-  // 计算最近的MACD柱状线
-  for (let i = 26; i <= prices.length; i++) {
-    const slice = prices.slice(0, i);
-    const { histogram } = calculateMACD(slice);
-    macdHistory.push(histogram);
-  }
+  // 计算MACD柱状线序列（从慢线就绪的第26根K线开始）
+  const macdHistory = indicatorSeries(new MACD(), prices).slice(25).map(v => v.histogram);
   
   if (macdHistory.length < 3) return 0;
   
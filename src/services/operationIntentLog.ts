@@ -0,0 +1,634 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 开平仓操作意图日志（预写日志）
+ *
+ * 开平仓涉及交易所下单和多张表的写入，进程在任意步骤崩溃都可能留下与交易所不一致的记录。每次操作按以下顺序推进：
+ * 1. pending：下单前记录操作意图（参数、计划价格、预估盈亏）
+ * 2. submitted：交易所返回订单后记录订单ID，随后逐步补充成交价、数量、条件单等结果
+ * 3. committed：所有数据库写入与意图状态更新在同一个事务中提交，要么全部生效要么全部不生效
+ * 交易所明确拒绝或下单后已回滚的操作记为 failed。
+ *
+ * 启动时 reconcileOperationIntents 以交易所持仓为准修复未完成（pending/submitted）的意图，结果只取决于
+ * 意图记录和交易所当前状态：
+ * - 开仓：交易所有持仓则按记录补写持仓/条件单（缺少条件单ID时重新挂单）；无持仓则视为未执行
+ *   （已成交但中断期间被平仓的只补开仓成交记录，并撤销残留条件单）
+ * - 平仓：按交易所持仓减少的数量补写平仓记录（全部平仓时删除持仓并取消条件单）；持仓未减少则视为未执行
+ */
+import type { Client, InStatement } from "@libsql/client";
+import type { IExchangeClient } from "../exchanges/IExchangeClient";
+import { parsePositionSize } from "../utils";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO } from "../utils/timeUtils";
+
+const logger = createLogger({
+  name: "operation-intent-log",
+  level: "info",
+});
+
+export type OperationIntentType = "open_position" | "close_position";
+
+export type OperationIntentStatus = "pending" | "submitted" | "committed" | "failed" | "reconciled";
+
+export interface OperationIntent {
+  id: number;
+  accountId: string;
+  operation: OperationIntentType;
+  symbol: string;
+  side: "long" | "short" | null;
+  status: OperationIntentStatus;
+  exchangeOrderId: string | null;
+  payload: Record<string, any>;
+  resolution: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 开仓需要写入的数据（成交记录、持仓、条件单、开仓快照）
+ */
+export interface OpenPositionRecord {
+  symbol: string;
+  side: "long" | "short";
+  orderId: string;
+  fillPrice: number;
+  quantity: number;
+  leverage: number;
+  fee: number;
+  tradeStatus: "filled" | "pending";
+  liquidationPrice: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  slOrderId: string | null;
+  tpOrderId: string | null;
+  marketState: string | null;
+  strategyType: string | null;
+  signalStrength: number | null;
+  opportunityScore: number | null;
+  metadata: string | null;
+  timestamp: string;
+  // 限价开仓分多笔子订单成交时的成交明细（每笔写一条成交记录），为空时按 orderId 写一条
+  fills?: Array<{ orderId: string; price: number; quantity: number; fee: number }>;
+}
+
+/**
+ * 平仓需要写入的数据（持仓删除/减仓、条件单状态、成交记录、平仓事件）
+ */
+export interface ClosePositionRecord {
+  symbol: string;
+  side: "long" | "short";
+  fullClose: boolean;
+  orderId: string;
+  entryPrice: number;
+  exitPrice: number;
+  closeSize: number;
+  remainingQuantity: number;
+  leverage: number;
+  pnl: number;
+  pnlPercent: number;
+  fee: number;
+  tradeStatus: "filled" | "pending";
+  reason: string;
+  triggerType: string;
+  entryOrderId: string | null;
+  /** 部分平仓后重新挂出的条件单ID（undefined 表示不更新） */
+  slOrderId?: string | null;
+  tpOrderId?: string | null;
+  timestamp: string;
+}
+
+export interface ReconcileResult {
+  intentId: number;
+  operation: OperationIntentType;
+  symbol: string;
+  status: "reconciled" | "failed";
+  resolution: string;
+}
+
+function rowToIntent(row: any): OperationIntent {
+  return {
+    id: Number(row.id),
+    accountId: row.account_id as string,
+    operation: row.operation as OperationIntentType,
+    symbol: row.symbol as string,
+    side: (row.side as "long" | "short" | null) ?? null,
+    status: row.status as OperationIntentStatus,
+    exchangeOrderId: (row.exchange_order_id as string | null) ?? null,
+    payload: JSON.parse((row.payload as string) || "{}"),
+    resolution: (row.resolution as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+// ============ 意图记录 ============
+
+/**
+ * 下单前记录操作意图
+ * @returns 意图ID
+ */
+export async function recordOperationIntent(
+  dbClient: Client,
+  intent: { operation: OperationIntentType; symbol: string; side?: "long" | "short" | null; payload: Record<string, unknown> },
+): Promise<number> {
+  const now = getChinaTimeISO();
+  const result = await dbClient.execute({
+    sql: `INSERT INTO operation_intents (account_id, operation, symbol, side, status, payload, created_at, updated_at)
+          VALUES (?, ?, ?, ?, 'pending', ?, ?, ?)`,
+    args: [getCurrentAccountId(), intent.operation, intent.symbol, intent.side ?? null, JSON.stringify(intent.payload), now, now],
+  });
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * 合并补充意图的阶段结果（成交价、条件单等），null 值会删除对应字段
+ */
+export async function updateOperationIntent(dbClient: Client, id: number, details: Record<string, unknown>): Promise<void> {
+  await dbClient.execute({
+    sql: "UPDATE operation_intents SET payload = json_patch(payload, ?), updated_at = ? WHERE id = ?",
+    args: [JSON.stringify(details), getChinaTimeISO(), id],
+  });
+}
+
+/**
+ * 交易所已接受订单
+ */
+export async function markOperationIntentSubmitted(
+  dbClient: Client,
+  id: number,
+  exchangeOrderId: string | null,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  await dbClient.execute({
+    sql: `UPDATE operation_intents
+          SET status = 'submitted', exchange_order_id = ?, payload = json_patch(payload, ?), updated_at = ?
+          WHERE id = ?`,
+    args: [exchangeOrderId, JSON.stringify(details), getChinaTimeISO(), id],
+  });
+}
+
+/**
+ * 操作未在交易所执行（下单被拒绝、未成交或已回滚）
+ */
+export async function markOperationIntentFailed(dbClient: Client, id: number, resolution: string): Promise<void> {
+  await dbClient.execute({
+    sql: "UPDATE operation_intents SET status = 'failed', resolution = ?, updated_at = ? WHERE id = ?",
+    args: [resolution, getChinaTimeISO(), id],
+  });
+}
+
+/**
+ * 在同一个事务中执行数据库写入并结束意图
+ */
+async function finishOperationIntent(
+  dbClient: Client,
+  id: number,
+  status: "committed" | "reconciled",
+  statements: InStatement[],
+  resolution: string | null = null,
+): Promise<void> {
+  await dbClient.batch(
+    [
+      ...statements,
+      {
+        sql: "UPDATE operation_intents SET status = ?, resolution = ?, updated_at = ? WHERE id = ?",
+        args: [status, resolution, getChinaTimeISO(), id],
+      },
+    ],
+    "write"
+  );
+}
+
+/**
+ * 原子提交操作的全部数据库写入，失败时整体回滚，意图保持 submitted 等待修复
+ */
+export async function commitOperationIntent(dbClient: Client, id: number, statements: InStatement[]): Promise<void> {
+  await finishOperationIntent(dbClient, id, "committed", statements);
+}
+
+/**
+ * 查询当前账户未完成的意图（按记录顺序）
+ */
+export async function loadIncompleteOperationIntents(dbClient: Client): Promise<OperationIntent[]> {
+  const result = await dbClient.execute({
+    sql: `SELECT * FROM operation_intents
+          WHERE account_id = ? AND status IN ('pending', 'submitted')
+          ORDER BY id ASC`,
+    args: [getCurrentAccountId()],
+  });
+  return result.rows.map(rowToIntent);
+}
+
+// ============ 数据库写入语句 ============
+
+function buildOpenTradeStatements(accountId: string, record: OpenPositionRecord): InStatement[] {
+  const fills = record.fills?.length
+    ? record.fills
+    : [{ orderId: record.orderId, price: record.fillPrice, quantity: record.quantity, fee: record.fee }];
+  return fills.map((fill) => ({
+    sql: `INSERT INTO trades (account_id, order_id, symbol, side, type, price, quantity, leverage, fee, timestamp, status)
+          VALUES (?, ?, ?, ?, 'open', ?, ?, ?, ?, ?, ?)`,
+    args: [
+      accountId, fill.orderId, record.symbol, record.side, fill.price, fill.quantity,
+      record.leverage, fill.fee, record.timestamp, record.tradeStatus,
+    ],
+  }));
+}
+
+/**
+ * 开仓写入：成交记录、持仓（含条件单ID）、条件单、开仓快照
+ */
+export function buildOpenPositionStatements(accountId: string, record: OpenPositionRecord): InStatement[] {
+  const statements: InStatement[] = [
+    ...buildOpenTradeStatements(accountId, record),
+    // 新开仓的分批止盈百分比初始化为0，防止复用旧持仓的分批止盈记录
+    {
+      sql: `INSERT OR REPLACE INTO positions
+            (account_id, symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl,
+             leverage, side, entry_order_id, opened_at, profit_target, stop_loss,
+             tp_order_id, sl_order_id, market_state, strategy_type, signal_strength, opportunity_score, metadata, partial_close_percentage)
+            VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`,
+      args: [
+        accountId, record.symbol, record.quantity, record.fillPrice, record.fillPrice, record.liquidationPrice,
+        record.leverage, record.side, record.orderId, record.timestamp, record.takeProfit, record.stopLoss,
+        record.tpOrderId, record.slOrderId, record.marketState, record.strategyType, record.signalStrength,
+        record.opportunityScore, record.metadata,
+      ],
+    },
+  ];
+
+  for (const [type, orderId, price] of [
+    ["stop_loss", record.slOrderId, record.stopLoss],
+    ["take_profit", record.tpOrderId, record.takeProfit],
+  ] as const) {
+    if (orderId) {
+      statements.push({
+        sql: `INSERT INTO price_orders
+              (account_id, order_id, symbol, side, type, trigger_price, order_price, quantity, status, created_at, position_order_id)
+              VALUES (?, ?, ?, ?, ?, ?, 0, ?, 'active', ?, ?)`,
+        args: [accountId, orderId, record.symbol, record.side, type, price, record.quantity, record.timestamp, record.orderId],
+      });
+    }
+  }
+
+  // 开仓快照（平仓后持仓记录会被删除，绩效分析需要开仓时的止损和策略信息）
+  if (record.orderId) {
+    statements.push({
+      sql: `INSERT OR REPLACE INTO position_entries
+            (account_id, position_order_id, symbol, side, entry_price, quantity, leverage, initial_stop_loss, initial_take_profit,
+             market_state, strategy_type, signal_strength, opportunity_score, metadata, opened_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        accountId, record.orderId, record.symbol, record.side, record.fillPrice, record.quantity, record.leverage,
+        record.stopLoss, record.takeProfit, record.marketState, record.strategyType, record.signalStrength,
+        record.opportunityScore, record.metadata, record.timestamp,
+      ],
+    });
+  }
+
+  return statements;
+}
+
+/**
+ * 平仓写入：删除持仓并取消条件单（全部平仓）或更新剩余数量（部分平仓），记录成交和平仓事件
+ */
+export function buildClosePositionStatements(accountId: string, record: ClosePositionRecord): InStatement[] {
+  const statements: InStatement[] = [];
+
+  if (record.fullClose) {
+    statements.push(
+      {
+        sql: "DELETE FROM positions WHERE account_id = ? AND symbol = ?",
+        args: [accountId, record.symbol],
+      },
+      // 防止条件单监控服务误判为触发
+      {
+        sql: `UPDATE price_orders SET status = 'cancelled', updated_at = ?
+              WHERE account_id = ? AND symbol = ? AND status = 'active'`,
+        args: [record.timestamp, accountId, record.symbol],
+      },
+    );
+  } else if (record.slOrderId !== undefined || record.tpOrderId !== undefined) {
+    // 条件单已按剩余数量重新挂出：旧记录标记为已取消，新条件单沿用持仓的止损止盈价格和开仓订单关联
+    statements.push({
+      sql: `UPDATE price_orders SET status = 'cancelled', updated_at = ?
+            WHERE account_id = ? AND symbol = ? AND status = 'active'`,
+      args: [record.timestamp, accountId, record.symbol],
+    });
+    for (const [type, orderId, priceColumn] of [
+      ["stop_loss", record.slOrderId, "stop_loss"],
+      ["take_profit", record.tpOrderId, "profit_target"],
+    ] as const) {
+      if (orderId) {
+        statements.push({
+          sql: `INSERT INTO price_orders
+                (account_id, order_id, symbol, side, type, trigger_price, order_price, quantity, status, created_at, position_order_id)
+                SELECT account_id, ?, symbol, side, ?, ${priceColumn}, 0, ?, 'active', ?, entry_order_id
+                FROM positions WHERE account_id = ? AND symbol = ? AND ${priceColumn} IS NOT NULL`,
+          args: [orderId, type, record.remainingQuantity, record.timestamp, accountId, record.symbol],
+        });
+      }
+    }
+    statements.push({
+      sql: "UPDATE positions SET quantity = ?, sl_order_id = ?, tp_order_id = ? WHERE account_id = ? AND symbol = ?",
+      args: [record.remainingQuantity, record.slOrderId ?? null, record.tpOrderId ?? null, accountId, record.symbol],
+    });
+  } else {
+    statements.push({
+      sql: "UPDATE positions SET quantity = ? WHERE account_id = ? AND symbol = ?",
+      args: [record.remainingQuantity, accountId, record.symbol],
+    });
+  }
+
+  statements.push(
+    {
+      sql: `INSERT INTO trades (account_id, order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
+            VALUES (?, ?, ?, ?, 'close', ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        accountId, record.orderId, record.symbol, record.side, record.exitPrice, record.closeSize,
+        record.leverage, record.pnl, record.fee, record.timestamp, record.tradeStatus,
+      ],
+    },
+    {
+      sql: `INSERT INTO position_close_events
+            (account_id, symbol, side, entry_price, close_price, quantity, leverage,
+             pnl, pnl_percent, fee, close_reason, trigger_type, order_id,
+             position_order_id, created_at, processed)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)`,
+      args: [
+        accountId, record.symbol, record.side, record.entryPrice, record.exitPrice, record.closeSize, record.leverage,
+        record.pnl, record.pnlPercent, record.fee, record.reason, record.triggerType, record.orderId,
+        record.entryOrderId, record.timestamp,
+      ],
+    },
+  );
+
+  return statements;
+}
+
+// ============ 启动修复 ============
+
+function toNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+async function findExchangePosition(exchangeClient: IExchangeClient, symbol: string) {
+  const contract = exchangeClient.normalizeContract(symbol);
+  const positions = await exchangeClient.getPositions();
+  const position = positions.find((p) => p.contract === contract && parsePositionSize(p.size) !== 0);
+  return { contract, position };
+}
+
+/**
+ * 修复未完成的开仓意图
+ */
+async function reconcileOpenIntent(
+  dbClient: Client,
+  exchangeClient: IExchangeClient,
+  intent: OperationIntent,
+): Promise<ReconcileResult> {
+  const accountId = getCurrentAccountId();
+  const payload = intent.payload;
+  const side = intent.side ?? "long";
+  const result = (status: ReconcileResult["status"], resolution: string): ReconcileResult => ({
+    intentId: intent.id, operation: intent.operation, symbol: intent.symbol, status, resolution,
+  });
+
+  // 限价开仓中断时交易所可能残留未成交的挂单，先撤销，避免修复后继续成交导致持仓与记录不一致
+  for (const entryOrderId of Array.isArray(payload.entryOrderIds) ? payload.entryOrderIds : []) {
+    try {
+      await exchangeClient.cancelOrder(String(entryOrderId));
+    } catch {
+      // 已成交或已撤销的订单无需处理
+    }
+  }
+
+  const existing = await dbClient.execute({
+    sql: "SELECT entry_order_id FROM positions WHERE account_id = ? AND symbol = ? LIMIT 1",
+    args: [accountId, intent.symbol],
+  });
+  if (existing.rows.length > 0) {
+    const resolution = "数据库已有该币种持仓记录，无需补写";
+    await finishOperationIntent(dbClient, intent.id, "reconciled", [], resolution);
+    return result("reconciled", resolution);
+  }
+
+  const { contract, position } = await findExchangePosition(exchangeClient, intent.symbol);
+  const orderId = intent.exchangeOrderId || `intent-${intent.id}`;
+  const timestamp = getChinaTimeISO();
+
+  if (!position) {
+    if (intent.status === "pending") {
+      const resolution = "交易所无持仓，开仓未执行";
+      await markOperationIntentFailed(dbClient, intent.id, resolution);
+      return result("failed", resolution);
+    }
+    // 限价挂单期间中断（尚未记录成交结果，也还没有挂止损）且交易所无持仓：挂单未成交
+    if (Array.isArray(payload.entryOrderIds) && payload.fillPrice === undefined) {
+      const resolution = "交易所无持仓，限价开仓挂单未成交（已撤销）";
+      await markOperationIntentFailed(dbClient, intent.id, resolution);
+      return result("failed", resolution);
+    }
+    // 已成交但中断期间被平仓（如止损触发）：撤销残留条件单，只补开仓成交记录
+    await exchangeClient.cancelPositionStopLoss(contract);
+    const record = buildRecoveredOpenRecord(intent, orderId, timestamp, null);
+    const resolution = "交易所持仓已不存在（中断期间已平仓），仅补写开仓成交记录";
+    await finishOperationIntent(dbClient, intent.id, "reconciled", buildOpenTradeStatements(accountId, record), resolution);
+    return result("reconciled", resolution);
+  }
+
+  const positionSide = parsePositionSize(position.size) > 0 ? "long" : "short";
+  if (positionSide !== side) {
+    const resolution = `交易所持仓方向(${positionSide})与开仓意图(${side})不一致，未补写`;
+    await markOperationIntentFailed(dbClient, intent.id, resolution);
+    return result("failed", resolution);
+  }
+
+  const record = buildRecoveredOpenRecord(intent, orderId, timestamp, position);
+
+  // 已记录条件单ID则直接使用；只记录了计划价格（挂单结果未知）时撤销后重新挂单，保证数据库与交易所一致
+  if (!record.slOrderId && !record.tpOrderId && (record.stopLoss || record.takeProfit)) {
+    await exchangeClient.cancelPositionStopLoss(contract);
+    const placed = await exchangeClient.setPositionStopLoss(contract, record.stopLoss || undefined, record.takeProfit || undefined);
+    if (placed.success) {
+      record.slOrderId = placed.stopLossOrderId ?? null;
+      record.tpOrderId = placed.takeProfitOrderId ?? null;
+      record.stopLoss = placed.actualStopLoss ?? record.stopLoss;
+      record.takeProfit = placed.actualTakeProfit ?? record.takeProfit;
+    } else {
+      logger.warn(`⚠️  [${intent.symbol}] 修复开仓时重新挂止损止盈失败: ${placed.message}`);
+      record.stopLoss = null;
+      record.takeProfit = null;
+    }
+  }
+
+  const resolution = `按交易所持仓补写开仓记录（数量 ${record.quantity}，开仓价 ${record.fillPrice}）`;
+  await finishOperationIntent(dbClient, intent.id, "reconciled", buildOpenPositionStatements(accountId, record), resolution);
+  return result("reconciled", resolution);
+}
+
+/**
+ * 由意图记录（优先）和交易所持仓组装开仓写入数据
+ */
+function buildRecoveredOpenRecord(
+  intent: OperationIntent,
+  orderId: string,
+  timestamp: string,
+  position: { size: string; entryPrice: string; leverage: string; liqPrice?: string } | null,
+): OpenPositionRecord {
+  const payload = intent.payload;
+  const side = intent.side ?? "long";
+  const fillPrice = toNumber(payload.fillPrice, position ? toNumber(position.entryPrice, 0) : toNumber(payload.plannedPrice, 0));
+  const leverage = toNumber(payload.leverage, position ? toNumber(position.leverage, 1) : 1);
+  const quantity = position ? Math.abs(parsePositionSize(position.size)) : toNumber(payload.quantity, Math.abs(toNumber(payload.size, 0)));
+  const liquidationPrice = toNumber(
+    position?.liqPrice,
+    side === "long" ? fillPrice * (1 - 0.9 / leverage) : fillPrice * (1 + 0.9 / leverage)
+  );
+
+  return {
+    symbol: intent.symbol,
+    side,
+    orderId,
+    fillPrice,
+    quantity,
+    leverage,
+    fee: toNumber(payload.fee, 0),
+    tradeStatus: payload.orderStatus === "pending" ? "pending" : "filled",
+    liquidationPrice,
+    stopLoss: payload.stopLoss ?? null,
+    takeProfit: payload.takeProfit ?? null,
+    slOrderId: payload.slOrderId ?? null,
+    tpOrderId: payload.tpOrderId ?? null,
+    marketState: payload.marketState ?? null,
+    strategyType: payload.strategyType ?? null,
+    signalStrength: payload.signalStrength ?? null,
+    opportunityScore: payload.opportunityScore ?? null,
+    metadata: payload.metadata ?? null,
+    timestamp,
+  };
+}
+
+/**
+ * 修复未完成的平仓意图
+ */
+async function reconcileCloseIntent(
+  dbClient: Client,
+  exchangeClient: IExchangeClient,
+  intent: OperationIntent,
+): Promise<ReconcileResult> {
+  const accountId = getCurrentAccountId();
+  const payload = intent.payload;
+  const side = intent.side ?? "long";
+  const result = (status: ReconcileResult["status"], resolution: string): ReconcileResult => ({
+    intentId: intent.id, operation: intent.operation, symbol: intent.symbol, status, resolution,
+  });
+
+  const dbPosition = await dbClient.execute({
+    sql: "SELECT quantity, entry_order_id FROM positions WHERE account_id = ? AND symbol = ? LIMIT 1",
+    args: [accountId, intent.symbol],
+  });
+  const { contract, position } = await findExchangePosition(exchangeClient, intent.symbol);
+  const remaining = position ? Math.abs(parsePositionSize(position.size)) : 0;
+
+  if (dbPosition.rows.length === 0) {
+    if (!position) {
+      // 持仓已不存在，确保没有残留条件单
+      await exchangeClient.cancelPositionStopLoss(contract);
+    }
+    const resolution = "数据库持仓记录已不存在，无需补写";
+    await finishOperationIntent(dbClient, intent.id, "reconciled", [], resolution);
+    return result("reconciled", resolution);
+  }
+
+  const quantityBefore = toNumber(payload.quantityBefore, toNumber(dbPosition.rows[0].quantity, 0));
+  const closed = quantityBefore - remaining;
+  if (closed <= quantityBefore * 1e-9) {
+    const resolution = "交易所持仓未减少，平仓未执行";
+    await markOperationIntentFailed(dbClient, intent.id, resolution);
+    return result("failed", resolution);
+  }
+
+  const fullClose = !position;
+  if (fullClose) {
+    await exchangeClient.cancelPositionStopLoss(contract);
+  }
+
+  const entryPrice = toNumber(payload.entryPrice, 0);
+  const exitPrice = toNumber(payload.exitPrice, toNumber(payload.plannedExitPrice, entryPrice));
+  const leverage = toNumber(payload.leverage, 1);
+  const record: ClosePositionRecord = {
+    symbol: intent.symbol,
+    side,
+    fullClose,
+    orderId: intent.exchangeOrderId || `intent-${intent.id}`,
+    entryPrice,
+    exitPrice,
+    closeSize: toNumber(payload.closeSize, closed),
+    remainingQuantity: remaining,
+    leverage,
+    pnl: toNumber(payload.pnl, toNumber(payload.estimatedPnl, 0)),
+    pnlPercent: toNumber(
+      payload.pnlPercent,
+      entryPrice > 0 ? (exitPrice - entryPrice) / entryPrice * 100 * (side === "long" ? 1 : -1) * leverage : 0
+    ),
+    fee: toNumber(payload.fee, toNumber(payload.estimatedFee, 0)),
+    tradeStatus: "filled",
+    reason: payload.reason || "manual_close",
+    triggerType: "auto_fix",
+    entryOrderId: (dbPosition.rows[0].entry_order_id as string | null) ?? null,
+    slOrderId: fullClose ? undefined : payload.slOrderId,
+    tpOrderId: fullClose ? undefined : payload.tpOrderId,
+    timestamp: getChinaTimeISO(),
+  };
+
+  const resolution = fullClose
+    ? `交易所持仓已全部平仓，补写平仓记录（数量 ${record.closeSize}）`
+    : `交易所持仓已部分平仓，剩余 ${remaining}，补写平仓记录`;
+  await finishOperationIntent(dbClient, intent.id, "reconciled", buildClosePositionStatements(accountId, record), resolution);
+  return result("reconciled", resolution);
+}
+
+/**
+ * 启动时修复当前账户所有未完成的开平仓意图（需在交易循环启动前执行）
+ */
+export async function reconcileOperationIntents(
+  dbClient: Client,
+  exchangeClient: IExchangeClient,
+): Promise<ReconcileResult[]> {
+  const intents = await loadIncompleteOperationIntents(dbClient);
+  const results: ReconcileResult[] = [];
+
+  for (const intent of intents) {
+    try {
+      const result = intent.operation === "open_position"
+        ? await reconcileOpenIntent(dbClient, exchangeClient, intent)
+        : await reconcileCloseIntent(dbClient, exchangeClient, intent);
+      logger.info(`${result.status === "reconciled" ? "✅" : "⏭️ "} 意图 #${intent.id} ${intent.operation} ${intent.symbol}: ${result.resolution}`);
+      results.push(result);
+    } catch (error: any) {
+      // 保持未完成状态，下次启动再次修复
+      logger.error(`❌ 修复意图 #${intent.id} ${intent.operation} ${intent.symbol} 失败: ${error.message}`);
+    }
+  }
+
+  return results;
+}
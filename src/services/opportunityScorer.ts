@@ -25,11 +25,15 @@
  * 2. 趋势一致性 (20-35分)
  * 3. 波动率适配 (15-20分)
  * 4. 风险收益比 (10-20分)
- * 5. 市场活跃度 (10-15分)
+ * 5. 市场活跃度 (10-15分)：订单簿价差、深度和参考订单滑点
+ * 
+ * 权重和最低评分默认取 STRATEGY_SCORE_WEIGHTS，激活了离线校准配置（npm run calibrate）的策略使用校准后的配置；
+ * 每次评分的维度因子记录到 opportunity_scores，供校准与平仓结果关联
  */
 
+import { createClient } from "@libsql/client";
 import { createLogger } from "../utils/logger";
-import { getTradingStrategy } from "../agents/tradingAgent";
+import { getStrategyParams, getTradingStrategy } from "../agents/tradingAgent";
 import type { TradingStrategy } from "../agents/tradingAgent";
 import type { 
   OpportunityScore, 
@@ -41,12 +45,20 @@ import {
   calculateHistoricalLossPenalty,
   isSymbolInCooldown 
 } from "./coinCooldownManager";
+import { getExchangeClient } from "../exchanges";
+import { estimateSlippage, getLiquidityProfile, getReferenceEquity, scoreLiquidityProfile, type SlippageEstimate } from "./liquidityModel";
+import { getActiveScoreWeightConfig } from "../calibration/scoreWeightConfigs";
+import { recordOpportunityScore } from "../calibration/scoreSnapshots";
 
 const logger = createLogger({
   name: "opportunity-scorer",
   level: "info",
 });
 
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
 /**
  * 策略评分权重配置
  */
@@ -106,6 +118,21 @@ export const STRATEGY_SCORE_WEIGHTS: Record<TradingStrategy, StrategyScoreWeight
   },
 };
 
+/**
+ * 获取策略的评分权重：优先使用激活的校准配置，没有或读取失败时使用默认权重
+ */
+async function getScoreWeights(strategy: TradingStrategy): Promise<{ weights: StrategyScoreWeights; version: number | null }> {
+  try {
+    const config = await getActiveScoreWeightConfig(dbClient, strategy);
+    if (config) {
+      return { weights: { ...config.weights, minScore: config.minScore }, version: config.version };
+    }
+  } catch (error) {
+    logger.warn(`读取 ${strategy} 评分权重配置失败，使用默认权重:`, error as any);
+  }
+  return { weights: STRATEGY_SCORE_WEIGHTS[strategy], version: null };
+}
+
 /**
  * 波动率偏好配置
  */
@@ -245,12 +272,14 @@ function calculateWaitScore(
  * @param strategyResult 策略结果
  * @param marketState 市场状态分析
  * @param strategy 当前交易策略（可选，默认从环境变量读取）
+ * @param referenceMargin 参考订单保证金（可选，用于按订单簿估算开仓滑点）
  * @returns 机会评分
  */
 export async function scoreOpportunity(
   strategyResult: StrategyResult,
   marketState: MarketStateAnalysis,
-  strategy?: TradingStrategy
+  strategy?: TradingStrategy,
+  referenceMargin?: number
 ): Promise<OpportunityScore> {
   // 获取当前策略
   const currentStrategy = strategy ?? getTradingStrategy();
@@ -260,24 +289,29 @@ export async function scoreOpportunity(
     return calculateWaitScore(strategyResult, marketState, currentStrategy);
   }
   
-  // 获取策略权重配置
-  const weights = STRATEGY_SCORE_WEIGHTS[currentStrategy];
+  // 获取策略权重配置（激活的校准配置或默认权重）
+  const { weights, version: weightsVersion } = await getScoreWeights(currentStrategy);
   
   // 1. 信号强度评分
-  const signalScore = strategyResult.signalStrength * weights.signalStrength;
+  const signalFactor = strategyResult.signalStrength;
+  const signalScore = signalFactor * weights.signalStrength;
   
   // 2. 趋势一致性评分
-  const trendScore = marketState.timeframeAlignment.alignmentScore * weights.trendConsistency;
+  const trendFactor = marketState.timeframeAlignment.alignmentScore;
+  const trendScore = trendFactor * weights.trendConsistency;
   
   // 3. 波动率适配评分（策略化）
-  const volatilityScore = calculateVolatilityFitScore(marketState, currentStrategy) * weights.volatilityFit;
+  const volatilityFactor = calculateVolatilityFitScore(marketState, currentStrategy);
+  const volatilityScore = volatilityFactor * weights.volatilityFit;
   
   // 4. 风险收益比评分
-  const rrScore = calculateRiskRewardScore(strategyResult, marketState, currentStrategy) * weights.riskRewardRatio;
+  const rrFactor = calculateRiskRewardScore(strategyResult, marketState, currentStrategy);
+  const rrScore = rrFactor * weights.riskRewardRatio;
   
-  // 5. 流动性评分（策略化 + 动态成交量）
+  // 5. 流动性评分（订单簿价差、深度和参考订单滑点，滑点上限按策略配置）
   const volume24h = strategyResult.keyMetrics.volume24h;
-  const liquidityScore = calculateLiquidityScore(strategyResult.symbol, currentStrategy, volume24h) * weights.liquidity;
+  const liquidityFactor = await calculateLiquidityScore(strategyResult, currentStrategy, referenceMargin);
+  const liquidityScore = liquidityFactor * weights.liquidity;
   
   // 6. 历史失败惩罚（新增）
   let historicalPenalty = 0;
@@ -320,8 +354,27 @@ export async function scoreOpportunity(
   const baseScore = signalScore + trendScore + volatilityScore + rrScore + liquidityScore;
   const totalScore = Math.max(0, baseScore - historicalPenalty - trendStabilityPenalty - volatilityPenalty);
   
+  // 记录评分快照（维度因子，供离线校准）
+  await recordOpportunityScore(dbClient, {
+    symbol: strategyResult.symbol,
+    direction: strategyResult.action,
+    strategy: currentStrategy,
+    strategyType: strategyResult.strategyType,
+    marketState: marketState.state,
+    totalScore,
+    factors: {
+      signalStrength: signalFactor,
+      trendConsistency: trendFactor,
+      volatilityFit: volatilityFactor,
+      riskRewardRatio: rrFactor,
+      liquidity: liquidityFactor,
+    },
+    penalty: historicalPenalty + trendStabilityPenalty + volatilityPenalty,
+    weightsVersion,
+  });
+  
   // 记录评分明细日志
-  logger.debug(`${strategyResult.symbol} 评分明细 [策略: ${currentStrategy}]:`, {
+  logger.debug(`${strategyResult.symbol} 评分明细 [策略: ${currentStrategy}${weightsVersion === null ? "" : `, 权重 v${weightsVersion}`}]:`, {
     总分: Math.round(totalScore),
     信号强度: `${Math.round(signalScore)}/${weights.signalStrength}`,
     趋势一致性: `${Math.round(trendScore)}/${weights.trendConsistency}`,
@@ -356,7 +409,7 @@ export async function scoreOpportunity(
     },
     confidence,
     recommendation: {
-      strategyType: strategyResult.strategyType as any,
+      strategyType: strategyResult.strategyType,
       direction: strategyResult.action === "long" ? "long" : strategyResult.action === "short" ? "short" : "wait",
       confidence,
       reason: strategyResult.reason,
@@ -443,51 +496,76 @@ function calculateRiskRewardScore(
 
 /**
  * 计算流动性评分 (0-1)
- * 基于交易品种的流动性（策略化 + 动态成交量）
+ * 基于订单簿的价差、±1% 深度（历史均值）和参考订单的预计滑点；获取订单簿失败时按24h成交量评分
  * 
- * @param symbol 币种符号
- * @param strategy 交易策略
- * @param volume24h 可选的24h成交量(USDT)
+ * @param strategyResult 策略结果（币种、方向、推荐杠杆、24h成交量）
+ * @param strategy 交易策略（决定滑点上限）
+ * @param referenceMargin 可选的参考订单保证金(USDT)
  */
-function calculateLiquidityScore(symbol: string, strategy: TradingStrategy, volume24h?: number): number {
-  // 1. 基础静态评分（基于币种分级）
-  let baseScore = 0.6;
-  
-  const tier1 = ["BTC", "ETH"];  // 超级主流
-  const tier2 = ["BNB", "SOL", "XRP", "ADA"];  // 主流
-  const tier3 = ["DOGE", "AVAX", "DOT", "MATIC", "LTC", "ARB", "OP"];  // 二线
-  
-  if (tier1.includes(symbol)) {
-    baseScore = 1.0;
-  } else if (tier2.includes(symbol)) {
-    baseScore = 0.85;
-  } else if (tier3.includes(symbol)) {
-    baseScore = 0.7;
-  }
+async function calculateLiquidityScore(
+  strategyResult: StrategyResult,
+  strategy: TradingStrategy,
+  referenceMargin?: number
+): Promise<number> {
+  const { symbol, action } = strategyResult;
+  const maxSlippage = getStrategyParams(strategy).maxEntrySlippage;
   
-  // 2. 动态成交量加成（如果有数据）
-  if (volume24h !== undefined && volume24h > 0) {
-    if (volume24h >= 1_000_000_000) {  // ≥10亿USDT
-      baseScore = Math.min(1.0, baseScore + 0.1);
-    } else if (volume24h >= 500_000_000) {  // ≥5亿USDT
-      baseScore = Math.min(1.0, baseScore + 0.05);
-    } else if (volume24h < 100_000_000) {  // <1亿USDT
-      baseScore = Math.max(0.3, baseScore - 0.1);
+  try {
+    const exchangeClient = getExchangeClient();
+    const profile = await getLiquidityProfile(dbClient, exchangeClient, symbol);
+    
+    // 按 calculateQuantity 计算参考订单数量，逐档估算市价单滑点
+    let slippage: SlippageEstimate | null = null;
+    if (referenceMargin && referenceMargin > 0 && action !== "wait") {
+      const leverage = Math.max(1, strategyResult.recommendedLeverage || 1);
+      const contract = exchangeClient.normalizeContract(symbol);
+      const quantity = await exchangeClient.calculateQuantity(referenceMargin, profile.midPrice, leverage, contract);
+      slippage = estimateSlippage(profile, action, quantity);
     }
+    
+    const score = scoreLiquidityProfile(profile, slippage, maxSlippage);
+    const slippageText = slippage ? `, 参考订单滑点 ${slippage.slippagePercent.toFixed(3)}%/${maxSlippage}%` : "";
+    logger.debug(`${symbol} 流动性评分 ${score.toFixed(2)}: 平均价差 ${profile.averageSpreadPercent.toFixed(4)}%, ±1%深度 ${(profile.averageDepth1 / 1_000_000).toFixed(2)}M USDT (${profile.sampleCount}次采样)${slippageText}`);
+    return score;
+  } catch (error) {
+    logger.warn(`获取 ${symbol} 订单簿流动性失败，按24h成交量评分`, error);
+    return calculateVolumeLiquidityScore(strategyResult.keyMetrics.volume24h);
   }
-  
-  // 3. 策略差异化调整
-  if (strategy === "ultra-short" && baseScore < 0.7) {
-    // 超短线对流动性要求严格
-    baseScore *= 0.8;
+}
+
+/**
+ * 按24h成交量估算流动性评分 (0-1)，订单簿不可用时的回退
+ */
+function calculateVolumeLiquidityScore(volume24h?: number): number {
+  if (volume24h === undefined || volume24h <= 0) {
+    return 0.6;
   }
-  
-  if (strategy === "swing-trend" && baseScore >= 0.6) {
-    // 波段策略对流动性要求宽松
-    baseScore = Math.min(1.0, baseScore + 0.05);
+  if (volume24h >= 1_000_000_000) {  // ≥10亿USDT
+    return 0.9;
+  }
+  if (volume24h >= 500_000_000) {  // ≥5亿USDT
+    return 0.75;
+  }
+  if (volume24h < 100_000_000) {  // <1亿USDT
+    return 0.4;
+  }
+  return 0.6;
+}
+
+/**
+ * 参考订单保证金：账户净值 × 策略最大仓位比例（获取账户失败时返回 undefined）
+ */
+async function getReferenceOrderMargin(strategy: TradingStrategy): Promise<number | undefined> {
+  try {
+    const totalBalance = await getReferenceEquity(getExchangeClient());
+    if (!Number.isFinite(totalBalance) || totalBalance <= 0) {
+      return undefined;
+    }
+    return totalBalance * getStrategyParams(strategy).positionSizeMax / 100;
+  } catch (error) {
+    logger.warn("获取账户净值失败，流动性评分不估算参考订单滑点", error);
+    return undefined;
   }
-  
-  return baseScore;
 }
 
 /**
@@ -508,10 +586,10 @@ export async function scoreAndRankOpportunities(
   // 获取当前策略
   const currentStrategy = strategy ?? getTradingStrategy();
   
-  // 获取策略权重配置
-  const weights = STRATEGY_SCORE_WEIGHTS[currentStrategy];
+  // 获取策略权重配置（激活的校准配置或默认权重）
+  const { weights } = await getScoreWeights(currentStrategy);
   
-  // 确定最低评分阈值（自定义阈值 > 环境变量 > 策略默认值）
+  // 确定最低评分阈值（自定义阈值 > 环境变量 > 策略配置）
   const minScore = customMinScore ?? 
     (process.env.MIN_OPPORTUNITY_SCORE ? Number.parseInt(process.env.MIN_OPPORTUNITY_SCORE, 10) : weights.minScore);
   
@@ -519,6 +597,9 @@ export async function scoreAndRankOpportunities(
   
   const scores: OpportunityScore[] = [];
   
+  // 参考订单保证金（用于估算各币种的开仓滑点）
+  const referenceMargin = await getReferenceOrderMargin(currentStrategy);
+  
   for (const result of strategyResults) {
     const marketState = marketStates.get(result.symbol);
     if (!marketState) {
@@ -533,7 +614,7 @@ export async function scoreAndRankOpportunities(
       continue;
     }
     
-    const score = await scoreOpportunity(result, marketState, currentStrategy);
+    const score = await scoreOpportunity(result, marketState, currentStrategy, referenceMargin);
     
     // 只保留评分达标的机会
     if (score.totalScore >= minScore) {
@@ -16,7 +16,9 @@
 import { createClient } from "@libsql/client";
 import { createLogger } from "../utils/logger";
 import { getExchangeClient } from "../exchanges";
+import { getCurrentAccountId } from "../utils/accountContext";
 import { calculateRMultiple } from "../tools/trading/takeProfitManagement";
+import { withPositionLock } from "./positionLock";
 
 const logger = createLogger({
   name: "partial-tp-executor",
@@ -28,112 +30,27 @@ const dbClient = createClient({
 });
 
 /**
- * 分布式锁管理器
+ * 检查最近是否有执行记录（防止重复执行）
+ * @param symbol 币种
+ * @param stage 阶段
+ * @param windowSeconds 时间窗口（秒）
+ * @returns true-最近有执行, false-没有
  */
-class DistributedLock {
-  private static readonly LOCK_TIMEOUT_MS = 30000; // 30秒锁超时
-
-  /**
-   * 尝试获取锁
-   * @param key 锁的键
-   * @param holder 锁持有者标识
-   * @returns true-获取成功, false-锁被占用
-   */
-  static async tryAcquire(key: string, holder: string): Promise<boolean> {
-    try {
-      // 检查是否已有锁
-      const checkResult = await dbClient.execute({
-        sql: 'SELECT value, updated_at FROM system_config WHERE key = ?',
-        args: [key]
-      });
-
-      if (checkResult.rows.length > 0) {
-        const lockValue = checkResult.rows[0].value as string;
-        const lockTime = new Date(checkResult.rows[0].updated_at as string).getTime();
-        const now = Date.now();
-        const lockAge = now - lockTime;
-
-        // 如果锁未过期，检查是否是自己持有的锁
-        if (lockAge < this.LOCK_TIMEOUT_MS) {
-          if (lockValue === holder) {
-            // 自己持有的锁，刷新时间
-            await dbClient.execute({
-              sql: 'UPDATE system_config SET updated_at = ? WHERE key = ?',
-              args: [new Date().toISOString(), key]
-            });
-            return true;
-          }
-          // 其他服务持有的锁
-          logger.debug(`锁 ${key} 被 ${lockValue} 持有，剩余 ${Math.ceil((this.LOCK_TIMEOUT_MS - lockAge) / 1000)}秒`);
-          return false;
-        }
-
-        // 锁已过期，可以抢占
-        logger.warn(`锁 ${key} 已过期(${lockValue})，强制获取`);
-      }
-
-      // 获取锁
-      await dbClient.execute({
-        sql: 'INSERT OR REPLACE INTO system_config (key, value, updated_at) VALUES (?, ?, ?)',
-        args: [key, holder, new Date().toISOString()]
-      });
-
-      logger.debug(`✅ ${holder} 获取锁: ${key}`);
-      return true;
-    } catch (error: any) {
-      logger.error(`获取锁失败: ${error.message}`);
-      return false;
-    }
-  }
-
-  /**
-   * 释放锁
-   * @param key 锁的键
-   * @param holder 锁持有者标识（必须匹配才能释放）
-   */
-  static async release(key: string, holder: string): Promise<void> {
-    try {
-      // 只有锁的持有者才能释放
-      const checkResult = await dbClient.execute({
-        sql: 'SELECT value FROM system_config WHERE key = ?',
-        args: [key]
-      });
-
-      if (checkResult.rows.length > 0 && checkResult.rows[0].value === holder) {
-        await dbClient.execute({
-          sql: 'DELETE FROM system_config WHERE key = ?',
-          args: [key]
-        });
-        logger.debug(`🔓 ${holder} 释放锁: ${key}`);
-      }
-    } catch (error: any) {
-      logger.error(`释放锁失败: ${error.message}`);
-    }
-  }
-
-  /**
-   * 检查最近是否有执行记录（防止重复执行）
-   * @param symbol 币种
-   * @param stage 阶段
-   * @param windowSeconds 时间窗口（秒）
-   * @returns true-最近有执行, false-没有
-   */
-  static async hasRecentExecution(symbol: string, stage: number, windowSeconds: number = 30): Promise<boolean> {
-    try {
-      const cutoffTime = new Date(Date.now() - windowSeconds * 1000).toISOString();
-      
-      const result = await dbClient.execute({
-        sql: `SELECT COUNT(*) as count FROM partial_take_profit_history 
-              WHERE symbol = ? AND stage = ? AND timestamp > ? AND status = 'completed'`,
-        args: [symbol, stage, cutoffTime]
-      });
-
-      const count = Number(result.rows[0]?.count || 0);
-      return count > 0;
-    } catch (error: any) {
-      logger.error(`检查执行记录失败: ${error.message}`);
-      return false;
-    }
+async function hasRecentExecution(symbol: string, stage: number, windowSeconds: number = 30): Promise<boolean> {
+  try {
+    const cutoffTime = new Date(Date.now() - windowSeconds * 1000).toISOString();
+    
+    const result = await dbClient.execute({
+      sql: `SELECT COUNT(*) as count FROM partial_take_profit_history 
+            WHERE account_id = ? AND symbol = ? AND stage = ? AND timestamp > ? AND status = 'completed'`,
+      args: [getCurrentAccountId(), symbol, stage, cutoffTime]
+    });
+
+    const count = Number(result.rows[0]?.count || 0);
+    return count > 0;
+  } catch (error: any) {
+    logger.error(`检查执行记录失败: ${error.message}`);
+    return false;
   }
 }
 
@@ -159,7 +76,8 @@ export class PartialTakeProfitExecutor {
     try {
       // 获取所有持仓
       const dbPositions = await dbClient.execute({
-        sql: 'SELECT symbol, side, entry_price, stop_loss, quantity FROM positions WHERE quantity != 0'
+        sql: 'SELECT symbol, side, entry_price, stop_loss, quantity FROM positions WHERE account_id = ? AND quantity != 0',
+        args: [getCurrentAccountId()]
       });
 
       if (dbPositions.rows.length === 0) {
@@ -200,10 +118,8 @@ export class PartialTakeProfitExecutor {
 
         // 检查Stage1条件（≥1R）
         if (currentR >= 1.0) {
-          const lockKey = `partial_tp_${symbol}_${side}_stage1`;
-          
           // 检查是否最近已执行
-          const hasRecent = await DistributedLock.hasRecentExecution(symbol, 1, 30);
+          const hasRecent = await hasRecentExecution(symbol, 1, 30);
           if (hasRecent) {
             logger.debug(`${symbol} Stage1 最近30秒内已执行，跳过`);
             skippedCount++;
@@ -211,20 +127,12 @@ export class PartialTakeProfitExecutor {
             continue;
           }
 
-          // 尝试获取锁
-          const lockAcquired = await DistributedLock.tryAcquire(lockKey, caller);
-          if (!lockAcquired) {
-            logger.debug(`${symbol} Stage1 锁被占用，跳过`);
-            skippedCount++;
-            executed.push({ symbol, stage: 1, result: 'lock_busy' });
-            continue;
-          }
-
-          try {
+          // 持有持仓锁执行（与平仓、条件单监控、反转监控互斥；分批止盈工具内部复用该锁）
+          const locked = await withPositionLock(dbClient, { symbol, side, purpose: "closing", owner: caller }, async () => {
             // 检查是否已执行Stage1
             const historyCheck = await dbClient.execute({
-              sql: 'SELECT COUNT(*) as count FROM partial_take_profit_history WHERE symbol = ? AND stage = 1 AND status = \'completed\'',
-              args: [symbol]
+              sql: 'SELECT COUNT(*) as count FROM partial_take_profit_history WHERE account_id = ? AND symbol = ? AND stage = 1 AND status = \'completed\'',
+              args: [getCurrentAccountId(), symbol]
             });
 
             const stage1Executed = Number(historyCheck.rows[0]?.count || 0) > 0;
@@ -252,18 +160,18 @@ export class PartialTakeProfitExecutor {
               skippedCount++;
               executed.push({ symbol, stage: 1, result: 'already_executed' });
             }
-          } finally {
-            // 释放锁
-            await DistributedLock.release(lockKey, caller);
+          });
+          if (!locked.acquired) {
+            logger.debug(`${symbol} Stage1 持仓锁被 ${locked.holder ?? '其他操作'} 占用，跳过`);
+            skippedCount++;
+            executed.push({ symbol, stage: 1, result: 'lock_busy' });
           }
         }
 
         // 检查Stage2条件（≥2R）
         if (currentR >= 2.0) {
-          const lockKey = `partial_tp_${symbol}_${side}_stage2`;
-          
           // 检查是否最近已执行
-          const hasRecent = await DistributedLock.hasRecentExecution(symbol, 2, 30);
+          const hasRecent = await hasRecentExecution(symbol, 2, 30);
           if (hasRecent) {
             logger.debug(`${symbol} Stage2 最近30秒内已执行，跳过`);
             skippedCount++;
@@ -271,20 +179,12 @@ export class PartialTakeProfitExecutor {
             continue;
           }
 
-          // 尝试获取锁
-          const lockAcquired = await DistributedLock.tryAcquire(lockKey, caller);
-          if (!lockAcquired) {
-            logger.debug(`${symbol} Stage2 锁被占用，跳过`);
-            skippedCount++;
-            executed.push({ symbol, stage: 2, result: 'lock_busy' });
-            continue;
-          }
-
-          try {
+          // 持有持仓锁执行（与平仓、条件单监控、反转监控互斥；分批止盈工具内部复用该锁）
+          const locked = await withPositionLock(dbClient, { symbol, side, purpose: "closing", owner: caller }, async () => {
             // 检查是否已执行Stage2
             const historyCheck = await dbClient.execute({
-              sql: 'SELECT COUNT(*) as count FROM partial_take_profit_history WHERE symbol = ? AND stage = 2 AND status = \'completed\'',
-              args: [symbol]
+              sql: 'SELECT COUNT(*) as count FROM partial_take_profit_history WHERE account_id = ? AND symbol = ? AND stage = 2 AND status = \'completed\'',
+              args: [getCurrentAccountId(), symbol]
             });
 
             const stage2Executed = Number(historyCheck.rows[0]?.count || 0) > 0;
@@ -312,9 +212,11 @@ export class PartialTakeProfitExecutor {
               skippedCount++;
               executed.push({ symbol, stage: 2, result: 'already_executed' });
             }
-          } finally {
-            // 释放锁
-            await DistributedLock.release(lockKey, caller);
+          });
+          if (!locked.acquired) {
+            logger.debug(`${symbol} Stage2 持仓锁被 ${locked.holder ?? '其他操作'} 占用，跳过`);
+            skippedCount++;
+            executed.push({ symbol, stage: 2, result: 'lock_busy' });
           }
         }
       }
@@ -0,0 +1,655 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 绩效分析
+ * 
+ * 以 position_close_events 为准按持仓聚合已平仓交易（分批平仓合并为一笔），
+ * 开仓属性（初始止损、策略类型、市场状态）取自开仓快照 position_entries，
+ * 快照缺失的历史交易依次回退到未删除的 positions 记录、开仓成交记录和最早的止损条件单；
+ * 风险指标基于 account_history 的净值曲线按 UTC 日收益率计算（加密市场按 365 天年化）。
+ */
+import type { Client } from "@libsql/client";
+import { getCurrentAccountId } from "../utils/accountContext";
+
+const DAYS_PER_YEAR = 365;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * R 倍数分布区间（左闭右开）
+ */
+const R_MULTIPLE_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: "<-1R", min: Number.NEGATIVE_INFINITY, max: -1 },
+  { label: "-1R~0R", min: -1, max: 0 },
+  { label: "0R~1R", min: 0, max: 1 },
+  { label: "1R~2R", min: 1, max: 2 },
+  { label: "2R~3R", min: 2, max: 3 },
+  { label: ">=3R", min: 3, max: Number.POSITIVE_INFINITY },
+];
+
+/**
+ * 平仓事件及其关联的开仓属性（loadClosedTrades 的查询结果）
+ */
+export interface CloseEventRow {
+  id: number;
+  symbol: string;
+  side: "long" | "short";
+  closeReason: string;
+  closePrice: number;
+  entryPrice: number;
+  quantity: number;
+  leverage: number;
+  pnl: number;
+  fee: number;
+  positionOrderId: string | null;
+  createdAt: string;
+  openedAt: string | null;
+  entryQuantity: number | null;
+  initialStopLoss: number | null;
+  strategyType: string | null;
+  marketState: string | null;
+  metadata: string | null;
+  opportunityScore: number | null;
+}
+
+/**
+ * 一笔已平仓交易（同一持仓的多次平仓事件合并）
+ */
+export interface ClosedTrade {
+  positionOrderId: string | null;
+  symbol: string;
+  side: "long" | "short";
+  entryPrice: number;
+  exitPrice: number;       // 按数量加权的平均平仓价
+  quantity: number;
+  leverage: number;
+  pnl: number;
+  fee: number;
+  openedAt: string | null;
+  closedAt: string;        // 最后一次平仓时间
+  holdingHours: number | null;
+  initialStopLoss: number | null;
+  rMultiple: number | null;
+  strategyType: string;
+  marketState: string;
+  opportunityScore: number | null; // 开仓时的机会评分
+  closeReasons: string[];
+}
+
+export interface TradePerformance {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;             // 百分比
+  totalPnl: number;
+  grossProfit: number;
+  grossLoss: number;           // 绝对值
+  profitFactor: number | null; // 无亏损交易时为 null
+  averageWin: number;
+  averageLoss: number;         // 绝对值
+  winLossRatio: number | null;
+  breakEvenWinRate: number | null; // 按当前盈亏比保本所需胜率（百分比）
+  expectancy: number;          // 每笔期望盈亏（USDT）
+  largestWin: number;
+  largestLoss: number;
+  totalFees: number;
+}
+
+export interface RMultipleStats {
+  count: number;               // 可计算 R 倍数的交易数（有初始止损）
+  average: number | null;
+  median: number | null;
+  best: number | null;
+  worst: number | null;
+  distribution: Array<{ label: string; count: number }>;
+}
+
+export interface HoldingTimeStats {
+  count: number;
+  averageHours: number | null;
+  medianHours: number | null;
+  averageWinHours: number | null;
+  averageLossHours: number | null;
+  longestHours: number | null;
+}
+
+export type BreakdownDimension = "symbol" | "strategy_type" | "market_state" | "hour";
+
+export const BREAKDOWN_DIMENSIONS: BreakdownDimension[] = ["symbol", "strategy_type", "market_state", "hour"];
+
+export interface BreakdownRow {
+  key: string;
+  trades: number;
+  wins: number;
+  winRate: number;
+  totalPnl: number;
+  profitFactor: number | null;
+  averageR: number | null;
+  averageHoldingHours: number | null;
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  equity: number;
+}
+
+/**
+ * 一次回撤：从峰值跌破阈值开始，到净值重新回到峰值结束（未恢复时 end 为 null）
+ */
+export interface DrawdownEpisode {
+  start: string;
+  trough: string;
+  end: string | null;
+  peakEquity: number;
+  troughEquity: number;
+  drawdownPercent: number;
+  durationHours: number;       // 峰值到恢复（未恢复时到最后一个数据点）
+  recoveryHours: number | null; // 谷底到恢复
+}
+
+export interface RiskMetrics {
+  days: number;                // 净值曲线覆盖的天数
+  totalReturnPercent: number | null;
+  annualReturnPercent: number | null;
+  annualVolatilityPercent: number | null;
+  downsideDeviationPercent: number | null; // 年化下行偏差
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  calmarRatio: number | null;
+  maxDrawdownPercent: number;
+  currentDrawdownPercent: number;
+}
+
+export interface PerformanceReport {
+  since: string | null;
+  generatedAt: string;
+  performance: TradePerformance;
+  rMultiples: RMultipleStats;
+  holdingTime: HoldingTimeStats;
+  risk: RiskMetrics;
+  drawdowns: DrawdownEpisode[];
+  breakdowns: Record<BreakdownDimension, BreakdownRow[]>;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? sum(values) / values.length : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function hoursBetween(from: string, to: string): number | null {
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isFinite(ms) && ms >= 0 ? ms / HOUR_MS : null;
+}
+
+/**
+ * 计算 R 倍数：已实现价格变动 / 初始风险（入场价到初始止损的距离）
+ * 部分平仓时按平仓数量占开仓数量的比例折算；止损缺失或位于错误一侧时返回 null
+ */
+export function computeRMultiple(
+  side: "long" | "short",
+  entryPrice: number,
+  initialStopLoss: number | null,
+  exits: Array<{ price: number; quantity: number }>,
+  entryQuantity: number | null = null,
+): number | null {
+  if (!initialStopLoss || !(entryPrice > 0)) {
+    return null;
+  }
+  const direction = side === "long" ? 1 : -1;
+  const riskPerUnit = (entryPrice - initialStopLoss) * direction;
+  if (riskPerUnit <= 0) {
+    return null;
+  }
+  const closedQuantity = sum(exits.map((e) => Math.abs(e.quantity)));
+  const baseQuantity = Math.max(entryQuantity ? Math.abs(entryQuantity) : 0, closedQuantity);
+  if (baseQuantity <= 0) {
+    return null;
+  }
+  const realizedMove = sum(exits.map((e) => (e.price - entryPrice) * direction * Math.abs(e.quantity)));
+  return realizedMove / (riskPerUnit * baseQuantity);
+}
+
+/**
+ * 从持仓元数据中读取开仓时的市场状态
+ */
+function marketStateFromMetadata(metadata: string | null): string | null {
+  if (!metadata) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(metadata);
+    return typeof parsed?.marketState === "string" ? parsed.marketState : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 按持仓聚合平仓事件（无 position_order_id 的历史事件各自作为一笔交易）
+ */
+export function buildClosedTrades(rows: CloseEventRow[]): ClosedTrade[] {
+  const groups = new Map<string, CloseEventRow[]>();
+  for (const row of rows) {
+    const key = row.positionOrderId ? `${row.symbol}:${row.positionOrderId}` : `event:${row.id}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+
+  const trades: ClosedTrade[] = [];
+  for (const events of groups.values()) {
+    events.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const first = events[0];
+    const last = events[events.length - 1];
+    const quantity = sum(events.map((e) => Math.abs(e.quantity)));
+    const exitPrice = quantity > 0
+      ? sum(events.map((e) => e.closePrice * Math.abs(e.quantity))) / quantity
+      : last.closePrice;
+    const openedAt = first.openedAt;
+
+    trades.push({
+      positionOrderId: first.positionOrderId,
+      symbol: first.symbol,
+      side: first.side,
+      entryPrice: first.entryPrice,
+      exitPrice,
+      quantity,
+      leverage: first.leverage,
+      pnl: sum(events.map((e) => e.pnl)),
+      fee: sum(events.map((e) => e.fee)),
+      openedAt,
+      closedAt: last.createdAt,
+      holdingHours: openedAt ? hoursBetween(openedAt, last.createdAt) : null,
+      initialStopLoss: first.initialStopLoss,
+      rMultiple: computeRMultiple(
+        first.side,
+        first.entryPrice,
+        first.initialStopLoss,
+        events.map((e) => ({ price: e.closePrice, quantity: e.quantity })),
+        first.entryQuantity,
+      ),
+      strategyType: first.strategyType || "unknown",
+      marketState: first.marketState || marketStateFromMetadata(first.metadata) || "unknown",
+      opportunityScore: first.opportunityScore ?? null,
+      closeReasons: [...new Set(events.map((e) => e.closeReason))],
+    });
+  }
+
+  return trades.sort((a, b) => a.closedAt.localeCompare(b.closedAt));
+}
+
+/**
+ * 盈亏统计：胜率、盈利因子、盈亏比、保本胜率、期望值
+ */
+export function computeTradePerformance(trades: ClosedTrade[]): TradePerformance {
+  const wins = trades.filter((t) => t.pnl > 0);
+  const losses = trades.filter((t) => t.pnl < 0);
+  const grossProfit = sum(wins.map((t) => t.pnl));
+  const grossLoss = Math.abs(sum(losses.map((t) => t.pnl)));
+  const averageWin = wins.length > 0 ? grossProfit / wins.length : 0;
+  const averageLoss = losses.length > 0 ? grossLoss / losses.length : 0;
+  const winLossRatio = averageLoss > 0 ? averageWin / averageLoss : null;
+  const totalPnl = sum(trades.map((t) => t.pnl));
+
+  return {
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    totalPnl,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    averageWin,
+    averageLoss,
+    winLossRatio,
+    breakEvenWinRate: winLossRatio !== null ? (1 / (1 + winLossRatio)) * 100 : null,
+    expectancy: trades.length > 0 ? totalPnl / trades.length : 0,
+    largestWin: wins.length > 0 ? Math.max(...wins.map((t) => t.pnl)) : 0,
+    largestLoss: losses.length > 0 ? Math.min(...losses.map((t) => t.pnl)) : 0,
+    totalFees: sum(trades.map((t) => t.fee)),
+  };
+}
+
+/**
+ * R 倍数分布和统计（期望 R 即平均 R）
+ */
+export function computeRMultipleStats(trades: ClosedTrade[]): RMultipleStats {
+  const values = trades.map((t) => t.rMultiple).filter((r): r is number => r !== null);
+  return {
+    count: values.length,
+    average: mean(values),
+    median: median(values),
+    best: values.length > 0 ? Math.max(...values) : null,
+    worst: values.length > 0 ? Math.min(...values) : null,
+    distribution: R_MULTIPLE_BUCKETS.map((bucket) => ({
+      label: bucket.label,
+      count: values.filter((r) => r >= bucket.min && r < bucket.max).length,
+    })),
+  };
+}
+
+/**
+ * 持仓时长统计（缺少开仓时间的交易不参与）
+ */
+export function computeHoldingTimeStats(trades: ClosedTrade[]): HoldingTimeStats {
+  const withTime = trades.filter((t) => t.holdingHours !== null);
+  const hours = withTime.map((t) => t.holdingHours as number);
+  return {
+    count: withTime.length,
+    averageHours: mean(hours),
+    medianHours: median(hours),
+    averageWinHours: mean(withTime.filter((t) => t.pnl > 0).map((t) => t.holdingHours as number)),
+    averageLossHours: mean(withTime.filter((t) => t.pnl < 0).map((t) => t.holdingHours as number)),
+    longestHours: hours.length > 0 ? Math.max(...hours) : null,
+  };
+}
+
+function breakdownKey(trade: ClosedTrade, dimension: BreakdownDimension): string {
+  switch (dimension) {
+    case "symbol":
+      return trade.symbol;
+    case "strategy_type":
+      return trade.strategyType;
+    case "market_state":
+      return trade.marketState;
+    case "hour": {
+      // 按开仓时间的 UTC 小时分组，缺少开仓时间时使用平仓时间
+      const hour = new Date(trade.openedAt || trade.closedAt).getUTCHours();
+      return Number.isNaN(hour) ? "unknown" : String(hour).padStart(2, "0");
+    }
+  }
+}
+
+/**
+ * 按维度分组统计（按总盈亏降序；按小时分组时按小时升序）
+ */
+export function computeBreakdown(trades: ClosedTrade[], dimension: BreakdownDimension): BreakdownRow[] {
+  const groups = new Map<string, ClosedTrade[]>();
+  for (const trade of trades) {
+    const key = breakdownKey(trade, dimension);
+    const group = groups.get(key);
+    if (group) {
+      group.push(trade);
+    } else {
+      groups.set(key, [trade]);
+    }
+  }
+
+  const rows = [...groups.entries()].map(([key, group]): BreakdownRow => {
+    const performance = computeTradePerformance(group);
+    return {
+      key,
+      trades: performance.trades,
+      wins: performance.wins,
+      winRate: performance.winRate,
+      totalPnl: performance.totalPnl,
+      profitFactor: performance.profitFactor,
+      averageR: computeRMultipleStats(group).average,
+      averageHoldingHours: computeHoldingTimeStats(group).averageHours,
+    };
+  });
+
+  return dimension === "hour"
+    ? rows.sort((a, b) => a.key.localeCompare(b.key))
+    : rows.sort((a, b) => b.totalPnl - a.totalPnl);
+}
+
+/**
+ * 识别回撤区间：净值低于历史峰值超过 minDrawdownPercent 的区间，按开始时间排序
+ */
+export function findDrawdownEpisodes(points: EquityPoint[], minDrawdownPercent: number = 1): DrawdownEpisode[] {
+  const episodes: DrawdownEpisode[] = [];
+  if (points.length === 0) {
+    return episodes;
+  }
+
+  let peak = points[0];
+  let trough = points[0];
+  const closeEpisode = (end: EquityPoint | null) => {
+    const drawdownPercent = peak.equity > 0 ? ((peak.equity - trough.equity) / peak.equity) * 100 : 0;
+    if (drawdownPercent < minDrawdownPercent) {
+      return;
+    }
+    const last = end ?? points[points.length - 1];
+    episodes.push({
+      start: peak.timestamp,
+      trough: trough.timestamp,
+      end: end?.timestamp ?? null,
+      peakEquity: peak.equity,
+      troughEquity: trough.equity,
+      drawdownPercent,
+      durationHours: hoursBetween(peak.timestamp, last.timestamp) ?? 0,
+      recoveryHours: end ? hoursBetween(trough.timestamp, end.timestamp) : null,
+    });
+  };
+
+  for (const point of points.slice(1)) {
+    if (point.equity >= peak.equity) {
+      if (trough.equity < peak.equity) {
+        closeEpisode(point);
+      }
+      peak = point;
+      trough = point;
+    } else if (point.equity < trough.equity) {
+      trough = point;
+    }
+  }
+  if (trough.equity < peak.equity) {
+    closeEpisode(null);
+  }
+
+  return episodes;
+}
+
+/**
+ * 按 UTC 日取收盘净值计算日收益率
+ */
+export function computeDailyReturns(points: EquityPoint[]): number[] {
+  const closes = new Map<string, number>();
+  for (const point of points) {
+    closes.set(point.timestamp.slice(0, 10), point.equity);
+  }
+  const values = [...closes.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, equity]) => equity);
+
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    if (values[i - 1] > 0) {
+      returns.push(values[i] / values[i - 1] - 1);
+    }
+  }
+  return returns;
+}
+
+/**
+ * 风险调整收益指标（无风险利率按 0 计）
+ * 夏普 = 日均收益 / 日收益标准差 × √365；索提诺 = 日均收益 / 下行偏差 × √365；卡玛 = 年化收益 / 最大回撤
+ */
+export function computeRiskMetrics(points: EquityPoint[]): RiskMetrics {
+  const drawdowns = findDrawdownEpisodes(points, 0);
+  const maxDrawdownPercent = drawdowns.length > 0 ? Math.max(...drawdowns.map((d) => d.drawdownPercent)) : 0;
+  const ongoing = drawdowns.find((d) => d.end === null);
+  const last = points[points.length - 1];
+  const currentDrawdownPercent = ongoing && ongoing.peakEquity > 0
+    ? ((ongoing.peakEquity - last.equity) / ongoing.peakEquity) * 100
+    : 0;
+
+  const metrics: RiskMetrics = {
+    days: 0,
+    totalReturnPercent: null,
+    annualReturnPercent: null,
+    annualVolatilityPercent: null,
+    downsideDeviationPercent: null,
+    sharpeRatio: null,
+    sortinoRatio: null,
+    calmarRatio: null,
+    maxDrawdownPercent,
+    currentDrawdownPercent,
+  };
+  if (points.length < 2) {
+    return metrics;
+  }
+
+  const first = points[0];
+  const spanMs = Date.parse(last.timestamp) - Date.parse(first.timestamp);
+  metrics.days = Number.isFinite(spanMs) ? spanMs / DAY_MS : 0;
+  if (first.equity > 0) {
+    const growth = last.equity / first.equity;
+    metrics.totalReturnPercent = (growth - 1) * 100;
+    // 不足一天时年化没有意义
+    if (metrics.days >= 1 && growth > 0) {
+      metrics.annualReturnPercent = (growth ** (DAYS_PER_YEAR / metrics.days) - 1) * 100;
+    }
+  }
+
+  const returns = computeDailyReturns(points);
+  if (returns.length >= 2) {
+    const avg = mean(returns) as number;
+    const variance = sum(returns.map((r) => (r - avg) ** 2)) / (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+    const downside = Math.sqrt(sum(returns.map((r) => Math.min(r, 0) ** 2)) / returns.length);
+    const annualize = Math.sqrt(DAYS_PER_YEAR);
+
+    metrics.annualVolatilityPercent = stdDev * annualize * 100;
+    metrics.downsideDeviationPercent = downside * annualize * 100;
+    metrics.sharpeRatio = stdDev > 0 ? (avg / stdDev) * annualize : null;
+    metrics.sortinoRatio = downside > 0 ? (avg / downside) * annualize : null;
+  }
+  if (metrics.annualReturnPercent !== null && maxDrawdownPercent > 0) {
+    metrics.calmarRatio = metrics.annualReturnPercent / maxDrawdownPercent;
+  }
+
+  return metrics;
+}
+
+/**
+ * 读取当前账户的已平仓交易
+ * @param since 只统计该时间之后平仓的事件（ISO 时间）
+ */
+export async function loadClosedTrades(dbClient: Client, since: string | null = null): Promise<ClosedTrade[]> {
+  const result = await dbClient.execute({
+    sql: `SELECT e.id, e.symbol, e.side, e.close_reason, e.close_price, e.entry_price, e.quantity, e.leverage,
+                 e.pnl, e.fee, e.position_order_id, e.created_at,
+                 COALESCE(s.opened_at, p.opened_at,
+                   (SELECT MIN(t.timestamp) FROM trades t
+                    WHERE t.account_id = e.account_id AND t.order_id = e.position_order_id AND t.type = 'open')) AS opened_at,
+                 s.quantity AS entry_quantity,
+                 COALESCE(s.initial_stop_loss,
+                   (SELECT po.trigger_price FROM price_orders po
+                    WHERE po.account_id = e.account_id AND po.position_order_id = e.position_order_id AND po.type = 'stop_loss'
+                    ORDER BY po.id ASC LIMIT 1)) AS initial_stop_loss,
+                 COALESCE(s.strategy_type, p.strategy_type) AS strategy_type,
+                 COALESCE(s.market_state, p.market_state) AS market_state,
+                 COALESCE(s.metadata, p.metadata) AS metadata,
+                 COALESCE(s.opportunity_score, p.opportunity_score) AS opportunity_score
+          FROM position_close_events e
+          LEFT JOIN position_entries s ON s.account_id = e.account_id AND s.position_order_id = e.position_order_id
+          LEFT JOIN positions p ON p.account_id = e.account_id AND p.entry_order_id = e.position_order_id
+          WHERE e.account_id = ? AND (? IS NULL OR e.created_at >= ?)
+          ORDER BY e.created_at ASC`,
+    args: [getCurrentAccountId(), since, since],
+  });
+
+  const toNumber = (value: unknown): number | null =>
+    value === null || value === undefined || value === "" ? null : Number(value);
+
+  return buildClosedTrades(result.rows.map((row: any): CloseEventRow => ({
+    id: Number(row.id),
+    symbol: String(row.symbol),
+    side: row.side === "short" ? "short" : "long",
+    closeReason: String(row.close_reason),
+    closePrice: Number(row.close_price),
+    entryPrice: Number(row.entry_price),
+    quantity: Number(row.quantity),
+    leverage: Number(row.leverage),
+    pnl: Number(row.pnl),
+    fee: toNumber(row.fee) ?? 0,
+    positionOrderId: row.position_order_id ? String(row.position_order_id) : null,
+    createdAt: String(row.created_at),
+    openedAt: row.opened_at ? String(row.opened_at) : null,
+    entryQuantity: toNumber(row.entry_quantity),
+    initialStopLoss: toNumber(row.initial_stop_loss),
+    strategyType: row.strategy_type ? String(row.strategy_type) : null,
+    marketState: row.market_state ? String(row.market_state) : null,
+    metadata: row.metadata ? String(row.metadata) : null,
+    opportunityScore: toNumber(row.opportunity_score),
+  })));
+}
+
+/**
+ * 读取当前账户的净值曲线（account_history.total_value）
+ */
+export async function loadEquityCurve(dbClient: Client, since: string | null = null): Promise<EquityPoint[]> {
+  const result = await dbClient.execute({
+    sql: `SELECT timestamp, total_value FROM account_history
+          WHERE account_id = ? AND (? IS NULL OR timestamp >= ?)
+          ORDER BY timestamp ASC`,
+    args: [getCurrentAccountId(), since, since],
+  });
+  return result.rows
+    .map((row: any) => ({ timestamp: String(row.timestamp), equity: Number(row.total_value) }))
+    .filter((p) => Number.isFinite(p.equity));
+}
+
+/**
+ * 生成当前账户的绩效报告
+ * @param since 只统计该时间之后的数据（不传时统计全部历史）
+ * @param minDrawdownPercent 回撤区间的最小幅度
+ */
+export async function generatePerformanceReport(
+  dbClient: Client,
+  options: { since?: string | null; minDrawdownPercent?: number } = {},
+): Promise<PerformanceReport> {
+  const since = options.since ?? null;
+  const [trades, equity] = await Promise.all([
+    loadClosedTrades(dbClient, since),
+    loadEquityCurve(dbClient, since),
+  ]);
+
+  const breakdowns = {} as Record<BreakdownDimension, BreakdownRow[]>;
+  for (const dimension of BREAKDOWN_DIMENSIONS) {
+    breakdowns[dimension] = computeBreakdown(trades, dimension);
+  }
+
+  return {
+    since,
+    generatedAt: new Date().toISOString(),
+    performance: computeTradePerformance(trades),
+    rMultiples: computeRMultipleStats(trades),
+    holdingTime: computeHoldingTimeStats(trades),
+    risk: computeRiskMetrics(equity),
+    drawdowns: findDrawdownEpisodes(equity, options.minDrawdownPercent ?? 1),
+    breakdowns,
+  };
+}
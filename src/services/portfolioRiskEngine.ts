@@ -0,0 +1,499 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 组合风险引擎
+ * 
+ * 单笔风控只限制持仓数和杠杆，无法阻止同时开出多个高度相关的同向仓位。
+ * 本模块基于 TRADING_SYMBOLS 的K线收益率计算滚动相关性，统计总/净/单方向名义敞口和占用保证金，
+ * 并在开仓前判断新订单是否突破组合限制（可缩减仓位则缩减，否则拒绝）。
+ */
+import type { CandleData, IExchangeClient } from "../exchanges/IExchangeClient";
+import { RISK_PARAMS } from "../config/riskParams";
+import { createLogger } from "../utils/logger";
+import { formatPercent, formatUSDT } from "../utils/priceFormatter";
+
+const logger = createLogger({
+  name: "portfolio-risk",
+  level: "info",
+});
+
+/**
+ * 计算相关系数所需的最少重叠收益率样本数，不足时视为相关性未知
+ */
+const MIN_CORRELATION_SAMPLES = 20;
+
+/**
+ * 相关性矩阵缓存（K线周期内变化很小，避免每次开仓都拉取全部币种K线）
+ * key: 交易所:周期:窗口:币种列表
+ */
+const correlationCache = new Map<string, { matrix: CorrelationMatrix; timestamp: number }>();
+const CORRELATION_CACHE_TTL = 15 * 60 * 1000; // 缓存15分钟
+
+export type PositionSide = "long" | "short";
+
+/**
+ * 参与组合风险计算的持仓（名义价值 = 数量 × 价格 × 合约乘数）
+ */
+export interface PortfolioPosition {
+  symbol: string;
+  side: PositionSide;
+  notional: number;
+  margin: number;
+}
+
+/**
+ * 相关系数矩阵，matrix[A][B] 为 A、B 收益率的皮尔逊相关系数
+ */
+export type CorrelationMatrix = Record<string, Record<string, number>>;
+
+export interface PortfolioRiskLimits {
+  maxGrossExposureRatio: number;
+  maxNetExposureRatio: number;
+  maxDirectionExposureRatio: number;
+  maxMarginAtRiskPercent: number;
+  correlationThreshold: number;
+  maxCorrelatedPositions: number;
+  maxCorrelatedExposureRatio: number;
+  minOrderScale: number;
+}
+
+export interface PortfolioExposure {
+  equity: number;
+  positionCount: number;
+  grossNotional: number;
+  netNotional: number;
+  longNotional: number;
+  shortNotional: number;
+  marginUsed: number;
+  grossRatio: number;
+  netRatio: number;
+  longRatio: number;
+  shortRatio: number;
+  marginAtRiskPercent: number;
+}
+
+export interface PortfolioRiskSnapshot {
+  exposure: PortfolioExposure;
+  positions: PortfolioPosition[];
+  correlations: CorrelationMatrix;
+  limits: PortfolioRiskLimits;
+}
+
+export interface PortfolioOrder {
+  symbol: string;
+  side: PositionSide;
+  notional: number;
+  margin: number;
+}
+
+export interface CorrelatedPosition {
+  symbol: string;
+  side: PositionSide;
+  correlation: number;
+  notional: number;
+}
+
+export interface PortfolioOrderCheck {
+  allowed: boolean;
+  /** 订单缩放比例（1 表示无需缩减） */
+  scale: number;
+  notional: number;
+  margin: number;
+  reasons: string[];
+  correlatedPositions: CorrelatedPosition[];
+}
+
+/**
+ * 读取当前账户生效的组合风险限制
+ */
+export function getPortfolioRiskLimits(): PortfolioRiskLimits {
+  return {
+    maxGrossExposureRatio: RISK_PARAMS.PORTFOLIO_MAX_GROSS_EXPOSURE_RATIO,
+    maxNetExposureRatio: RISK_PARAMS.PORTFOLIO_MAX_NET_EXPOSURE_RATIO,
+    maxDirectionExposureRatio: RISK_PARAMS.PORTFOLIO_MAX_DIRECTION_EXPOSURE_RATIO,
+    maxMarginAtRiskPercent: RISK_PARAMS.PORTFOLIO_MAX_MARGIN_AT_RISK_PERCENT,
+    correlationThreshold: RISK_PARAMS.PORTFOLIO_CORRELATION_THRESHOLD,
+    maxCorrelatedPositions: RISK_PARAMS.PORTFOLIO_MAX_CORRELATED_POSITIONS,
+    maxCorrelatedExposureRatio: RISK_PARAMS.PORTFOLIO_MAX_CORRELATED_EXPOSURE_RATIO,
+    minOrderScale: RISK_PARAMS.PORTFOLIO_MIN_ORDER_SCALE,
+  };
+}
+
+/**
+ * 计算对数收益率，按K线时间戳索引（便于不同币种按时间对齐）
+ */
+export function computeReturns(candles: Array<Pick<CandleData, "timestamp" | "close">>): Map<number, number> {
+  const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+  const returns = new Map<number, number>();
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = Number.parseFloat(sorted[i - 1].close);
+    const curr = Number.parseFloat(sorted[i].close);
+    if (prev > 0 && curr > 0) {
+      returns.set(sorted[i].timestamp, Math.log(curr / prev));
+    }
+  }
+  return returns;
+}
+
+/**
+ * 皮尔逊相关系数，样本不足或方差为0时返回 null
+ */
+export function pearsonCorrelation(a: number[], b: number[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n < 3) {
+    return null;
+  }
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < n; i++) {
+    sumA += a[i];
+    sumB += b[i];
+  }
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  if (varA === 0 || varB === 0) {
+    return null;
+  }
+  return Math.max(-1, Math.min(1, cov / Math.sqrt(varA * varB)));
+}
+
+/**
+ * 由各币种K线构建相关性矩阵（只使用时间戳重叠的收益率）
+ */
+export function buildCorrelationMatrix(
+  candlesBySymbol: Record<string, Array<Pick<CandleData, "timestamp" | "close">>>,
+  minSamples: number = MIN_CORRELATION_SAMPLES,
+): CorrelationMatrix {
+  const symbols = Object.keys(candlesBySymbol);
+  const returns = new Map(symbols.map(s => [s, computeReturns(candlesBySymbol[s])]));
+  const matrix: CorrelationMatrix = {};
+  for (const symbol of symbols) {
+    matrix[symbol] = { [symbol]: 1 };
+  }
+
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      const ra = returns.get(symbols[i]) as Map<number, number>;
+      const rb = returns.get(symbols[j]) as Map<number, number>;
+      const a: number[] = [];
+      const b: number[] = [];
+      for (const [timestamp, value] of ra) {
+        const other = rb.get(timestamp);
+        if (other !== undefined) {
+          a.push(value);
+          b.push(other);
+        }
+      }
+      if (a.length < minSamples) {
+        continue;
+      }
+      const correlation = pearsonCorrelation(a, b);
+      if (correlation !== null) {
+        matrix[symbols[i]][symbols[j]] = correlation;
+        matrix[symbols[j]][symbols[i]] = correlation;
+      }
+    }
+  }
+  return matrix;
+}
+
+/**
+ * 查询两个币种的相关系数，未知时返回 null
+ */
+export function getCorrelation(matrix: CorrelationMatrix, a: string, b: string): number | null {
+  if (a === b) {
+    return 1;
+  }
+  return matrix[a]?.[b] ?? null;
+}
+
+/**
+ * 统计组合敞口
+ */
+export function computeExposure(positions: PortfolioPosition[], equity: number): PortfolioExposure {
+  let longNotional = 0;
+  let shortNotional = 0;
+  let marginUsed = 0;
+  for (const pos of positions) {
+    if (pos.side === "long") {
+      longNotional += pos.notional;
+    } else {
+      shortNotional += pos.notional;
+    }
+    marginUsed += pos.margin;
+  }
+  const grossNotional = longNotional + shortNotional;
+  const netNotional = longNotional - shortNotional;
+  const ratio = (value: number) => (equity > 0 ? value / equity : 0);
+
+  return {
+    equity,
+    positionCount: positions.length,
+    grossNotional,
+    netNotional,
+    longNotional,
+    shortNotional,
+    marginUsed,
+    grossRatio: ratio(grossNotional),
+    netRatio: ratio(netNotional),
+    longRatio: ratio(longNotional),
+    shortRatio: ratio(shortNotional),
+    marginAtRiskPercent: ratio(marginUsed) * 100,
+  };
+}
+
+/**
+ * 找出与指定方向的新仓位构成同一风险敞口的持仓：
+ * 正相关且同向，或负相关且反向（例如做多A、做空与A负相关的B）
+ */
+export function findCorrelatedPositions(
+  snapshot: PortfolioRiskSnapshot,
+  symbol: string,
+  side: PositionSide,
+): CorrelatedPosition[] {
+  const result: CorrelatedPosition[] = [];
+  for (const pos of snapshot.positions) {
+    if (pos.symbol === symbol) {
+      continue;
+    }
+    const correlation = getCorrelation(snapshot.correlations, symbol, pos.symbol);
+    if (correlation === null || Math.abs(correlation) < snapshot.limits.correlationThreshold) {
+      continue;
+    }
+    const sameDirection = pos.side === side;
+    if ((correlation > 0 && sameDirection) || (correlation < 0 && !sameDirection)) {
+      result.push({ symbol: pos.symbol, side: pos.side, correlation, notional: pos.notional });
+    }
+  }
+  return result;
+}
+
+/**
+ * 评估新订单对组合风险的影响
+ * 
+ * 敞口类限制（总/净/单方向/保证金/相关敞口）按剩余额度缩减订单，
+ * 缩减后不足原订单 minOrderScale 时拒绝；高相关持仓数超限无法通过缩减解决，直接拒绝。
+ */
+export function evaluatePortfolioOrder(snapshot: PortfolioRiskSnapshot, order: PortfolioOrder): PortfolioOrderCheck {
+  const { exposure, limits } = snapshot;
+  const equity = exposure.equity;
+  const correlatedPositions = findCorrelatedPositions(snapshot, order.symbol, order.side);
+  const reject = (reasons: string[]): PortfolioOrderCheck => ({
+    allowed: false,
+    scale: 0,
+    notional: 0,
+    margin: 0,
+    reasons,
+    correlatedPositions,
+  });
+
+  if (!(equity > 0) || !(order.notional > 0) || !(order.margin > 0)) {
+    return reject([`账户净值或订单金额异常（净值 ${formatUSDT(equity)}，名义价值 ${formatUSDT(order.notional)}）`]);
+  }
+
+  if (correlatedPositions.length + 1 > limits.maxCorrelatedPositions) {
+    const list = correlatedPositions.map(p => `${p.symbol}(${p.side === "long" ? "多" : "空"},ρ=${p.correlation.toFixed(2)})`).join("、");
+    return reject([`与 ${list} 高度相关，同一风险敞口持仓数将达到 ${correlatedPositions.length + 1} 个（上限 ${limits.maxCorrelatedPositions}）`]);
+  }
+
+  const direction = order.side === "long" ? 1 : -1;
+  const leverage = order.notional / order.margin;
+  const headrooms: Array<{ label: string; notional: number }> = [
+    {
+      label: `总敞口上限 ${limits.maxGrossExposureRatio}x净值`,
+      notional: limits.maxGrossExposureRatio * equity - exposure.grossNotional,
+    },
+    {
+      label: `${order.side === "long" ? "多头" : "空头"}敞口上限 ${limits.maxDirectionExposureRatio}x净值`,
+      notional: limits.maxDirectionExposureRatio * equity - (order.side === "long" ? exposure.longNotional : exposure.shortNotional),
+    },
+    {
+      label: `净敞口上限 ${limits.maxNetExposureRatio}x净值`,
+      notional: limits.maxNetExposureRatio * equity - direction * exposure.netNotional,
+    },
+    {
+      label: `占用保证金上限 ${limits.maxMarginAtRiskPercent}%`,
+      notional: (limits.maxMarginAtRiskPercent / 100 * equity - exposure.marginUsed) * leverage,
+    },
+  ];
+  if (correlatedPositions.length > 0) {
+    const weighted = correlatedPositions.reduce((sum, p) => sum + Math.abs(p.correlation) * p.notional, 0);
+    headrooms.push({
+      label: `相关敞口上限 ${limits.maxCorrelatedExposureRatio}x净值（${correlatedPositions.map(p => p.symbol).join("/")}）`,
+      notional: limits.maxCorrelatedExposureRatio * equity - weighted,
+    });
+  }
+
+  const binding = headrooms.filter(h => h.notional < order.notional);
+  if (binding.length === 0) {
+    return {
+      allowed: true,
+      scale: 1,
+      notional: order.notional,
+      margin: order.margin,
+      reasons: [],
+      correlatedPositions,
+    };
+  }
+
+  const allowedNotional = Math.max(0, Math.min(...binding.map(h => h.notional)));
+  const scale = allowedNotional / order.notional;
+  const reasons = binding.map(h => `${h.label}，剩余额度 ${formatUSDT(Math.max(0, h.notional))} USDT`);
+  if (scale < limits.minOrderScale) {
+    reasons.push(`可开名义价值 ${formatUSDT(allowedNotional)} USDT 不足原订单的 ${formatPercent(limits.minOrderScale * 100)}%`);
+    return reject(reasons);
+  }
+
+  return {
+    allowed: true,
+    scale,
+    notional: allowedNotional,
+    margin: order.margin * scale,
+    reasons,
+    correlatedPositions,
+  };
+}
+
+/**
+ * 加载交易币种的收益率相关性矩阵（带缓存），单个币种K线获取失败时跳过该币种
+ */
+export async function loadCorrelationMatrix(
+  client: IExchangeClient,
+  symbols: string[],
+  timeframe: string = RISK_PARAMS.PORTFOLIO_CORRELATION_TIMEFRAME,
+  lookback: number = RISK_PARAMS.PORTFOLIO_CORRELATION_LOOKBACK,
+): Promise<CorrelationMatrix> {
+  const uniqueSymbols = [...new Set(symbols)].sort();
+  const key = `${client.getExchangeName()}:${timeframe}:${lookback}:${uniqueSymbols.join(",")}`;
+  const now = Date.now();
+  const cached = correlationCache.get(key);
+  if (cached && now - cached.timestamp < CORRELATION_CACHE_TTL) {
+    return cached.matrix;
+  }
+
+  const candlesBySymbol: Record<string, CandleData[]> = {};
+  for (const symbol of uniqueSymbols) {
+    try {
+      candlesBySymbol[symbol] = await client.getFuturesCandles(client.normalizeContract(symbol), timeframe, lookback + 1);
+    } catch (error: any) {
+      logger.warn(`⚠️ 获取 ${symbol} K线失败，跳过相关性计算: ${error.message}`);
+    }
+  }
+
+  const matrix = buildCorrelationMatrix(candlesBySymbol);
+  correlationCache.set(key, { matrix, timestamp: now });
+  logger.debug(`相关性矩阵已更新: ${Object.keys(matrix).length} 个币种, 周期 ${timeframe}, 窗口 ${lookback}`);
+  return matrix;
+}
+
+/**
+ * 清空相关性缓存
+ */
+export function resetCorrelationCache(): void {
+  correlationCache.clear();
+}
+
+/**
+ * 生成当前组合风险快照（相关性获取失败时按无相关处理，不阻断开仓）
+ */
+export async function assessPortfolio(
+  client: IExchangeClient,
+  positions: PortfolioPosition[],
+  equity: number,
+  limits: PortfolioRiskLimits = getPortfolioRiskLimits(),
+): Promise<PortfolioRiskSnapshot> {
+  let correlations: CorrelationMatrix = {};
+  try {
+    const symbols = [...RISK_PARAMS.TRADING_SYMBOLS, ...positions.map(p => p.symbol)];
+    correlations = await loadCorrelationMatrix(client, symbols);
+  } catch (error: any) {
+    logger.warn(`⚠️ 计算相关性失败，仅检查敞口限制: ${error.message}`);
+  }
+  return {
+    exposure: computeExposure(positions, equity),
+    positions,
+    correlations,
+    limits,
+  };
+}
+
+/**
+ * 当前持仓中两两高相关的组合（用于提示词展示）
+ */
+export function getCorrelatedPositionPairs(
+  snapshot: PortfolioRiskSnapshot,
+): Array<{ a: string; b: string; correlation: number; stacked: boolean }> {
+  const pairs: Array<{ a: string; b: string; correlation: number; stacked: boolean }> = [];
+  const { positions, correlations, limits } = snapshot;
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) {
+      const correlation = getCorrelation(correlations, positions[i].symbol, positions[j].symbol);
+      if (correlation === null || Math.abs(correlation) < limits.correlationThreshold) {
+        continue;
+      }
+      const sameDirection = positions[i].side === positions[j].side;
+      pairs.push({
+        a: positions[i].symbol,
+        b: positions[j].symbol,
+        correlation,
+        stacked: correlation > 0 ? sameDirection : !sameDirection,
+      });
+    }
+  }
+  return pairs;
+}
+
+/**
+ * 格式化组合风险（提示词使用）
+ * @param compact 精简格式（用于精简版提示词）
+ */
+export function formatPortfolioRisk(snapshot: PortfolioRiskSnapshot, compact: boolean = false): string {
+  const { exposure: e, limits } = snapshot;
+  const pairs = getCorrelatedPositionPairs(snapshot);
+  const net = `${e.netNotional >= 0 ? "+" : ""}${e.netRatio.toFixed(2)}x`;
+
+  if (compact) {
+    let line = `【组合】总${e.grossRatio.toFixed(2)}x/${limits.maxGrossExposureRatio}x|净${net}/±${limits.maxNetExposureRatio}x|多${e.longRatio.toFixed(2)}x空${e.shortRatio.toFixed(2)}x/${limits.maxDirectionExposureRatio}x|保证金${formatPercent(e.marginAtRiskPercent, 0)}%/${limits.maxMarginAtRiskPercent}%`;
+    if (pairs.length > 0) {
+      line += `|相关:${pairs.map(p => `${p.a}-${p.b}${p.correlation.toFixed(2)}${p.stacked ? "叠加" : "对冲"}`).join(",")}`;
+    }
+    return `${line}\n`;
+  }
+
+  let text = `组合风险敞口（名义价值相对账户净值 ${formatUSDT(e.equity)} USDT）:\n`;
+  text += `- 总敞口: ${formatUSDT(e.grossNotional)} USDT (${e.grossRatio.toFixed(2)}x，上限 ${limits.maxGrossExposureRatio}x)\n`;
+  text += `- 净敞口: ${formatUSDT(e.netNotional)} USDT (${net}，上限 ±${limits.maxNetExposureRatio}x)\n`;
+  text += `- 多头 ${formatUSDT(e.longNotional)} USDT (${e.longRatio.toFixed(2)}x) / 空头 ${formatUSDT(e.shortNotional)} USDT (${e.shortRatio.toFixed(2)}x)，单方向上限 ${limits.maxDirectionExposureRatio}x\n`;
+  text += `- 占用保证金: ${formatUSDT(e.marginUsed)} USDT (${formatPercent(e.marginAtRiskPercent)}%，上限 ${limits.maxMarginAtRiskPercent}%)\n`;
+  if (pairs.length > 0) {
+    text += `- 高相关持仓(|ρ|≥${limits.correlationThreshold}): ${pairs.map(p => `${p.a}/${p.b} ρ=${p.correlation.toFixed(2)}${p.stacked ? "（风险叠加）" : "（相互对冲）"}`).join("，")}\n`;
+  }
+  text += `- 同向高相关持仓最多 ${limits.maxCorrelatedPositions} 个，超出敞口限制的开仓会被自动缩减或拒绝\n`;
+  return text;
+}
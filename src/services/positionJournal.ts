@@ -0,0 +1,449 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 持仓生命周期日志
+ * 
+ * 以开仓订单ID（positions.entry_order_id）为键，把分散在各表中的持仓事件合并为按时间排序的时间线：
+ * - 开仓决策：开仓后第一条 agent_decisions 记录，结构化决策中对应开仓操作的理由和置信度
+ * - 开仓：position_entries 快照（回退到 positions 和开仓成交记录），含市场状态、机会评分和手续费
+ * - 止损/止盈设置和移动：price_orders 中该持仓的条件单（按创建时间，后一条即移动后的价格）
+ * - 分批止盈：partial_take_profit_history
+ * - 反转预警：position_journal（positions.metadata 只保留最近一次）
+ * - 平仓：position_close_events，含平仓原因、盈亏和手续费
+ */
+import type { Client } from "@libsql/client";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO } from "../utils/timeUtils";
+
+const logger = createLogger({
+  name: "position-journal",
+  level: "info",
+});
+
+// 开仓后查找开仓决策的时间窗口（决策记录在交易周期结束时写入，晚于开仓成交）
+const DECISION_LOOKUP_WINDOW_MS = 30 * 60 * 1000;
+
+export type PositionJournalEventType = "reversal_warning";
+
+export interface PositionJournalEntry {
+  positionOrderId: string;
+  symbol: string;
+  side: "long" | "short";
+  eventType: PositionJournalEventType;
+  price?: number | null;
+  details?: Record<string, unknown>;
+}
+
+export type TimelineEventType =
+  | "decision"
+  | "open"
+  | "stop_loss"
+  | "take_profit"
+  | "partial_take_profit"
+  | "reversal_warning"
+  | "funding"
+  | "close";
+
+export interface TimelineEvent {
+  type: TimelineEventType;
+  timestamp: string;
+  price: number | null;
+  quantity: number | null;
+  pnl: number | null;
+  fee: number | null;
+  details: Record<string, unknown>;
+}
+
+export interface PositionTimeline {
+  positionOrderId: string;
+  symbol: string;
+  side: "long" | "short";
+  status: "open" | "closed";
+  leverage: number;
+  entryPrice: number;
+  quantity: number;
+  openedAt: string | null;
+  closedAt: string | null;
+  marketState: string | null;
+  strategyType: string | null;
+  signalStrength: number | null;
+  opportunityScore: number | null;
+  initialStopLoss: number | null;
+  initialTakeProfit: number | null;
+  realizedPnl: number;
+  totalFee: number;
+  fundingPnl: number; // 持仓期间结算的资金费合计（正数为收取）
+  events: TimelineEvent[];
+}
+
+// 同一时间的事件按生命周期顺序排列
+const EVENT_ORDER: Record<TimelineEventType, number> = {
+  decision: 0,
+  open: 1,
+  stop_loss: 2,
+  take_profit: 3,
+  reversal_warning: 4,
+  funding: 5,
+  partial_take_profit: 6,
+  close: 7,
+};
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function parseJson(value: unknown): any {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function timeOf(timestamp: string): number {
+  const time = new Date(timestamp).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * 写入持仓日志（失败只记录错误，不影响调用方）
+ */
+export async function recordPositionJournal(dbClient: Client, entry: PositionJournalEntry): Promise<void> {
+  try {
+    await dbClient.execute({
+      sql: `INSERT INTO position_journal
+            (account_id, position_order_id, symbol, side, event_type, price, details, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        getCurrentAccountId(),
+        entry.positionOrderId,
+        entry.symbol,
+        entry.side,
+        entry.eventType,
+        entry.price ?? null,
+        entry.details ? JSON.stringify(entry.details) : null,
+        getChinaTimeISO(),
+      ],
+    });
+  } catch (error) {
+    logger.error(`写入持仓日志失败 ${entry.symbol} ${entry.eventType}:`, error as any);
+  }
+}
+
+/**
+ * 条件单历史转为止损/止盈事件：第一条为初始设置，之后每条为一次移动
+ */
+function priceOrderEvents(rows: any[], type: "stop_loss" | "take_profit"): TimelineEvent[] {
+  let previous: number | null = null;
+  return rows
+    .filter(row => row.type === type)
+    .map((row) => {
+      const price = Number(row.trigger_price);
+      const event: TimelineEvent = {
+        type,
+        timestamp: row.created_at as string,
+        price,
+        quantity: toNumber(row.quantity),
+        pnl: null,
+        fee: null,
+        details: {
+          orderId: row.order_id,
+          status: row.status,
+          previousPrice: previous,
+          triggeredAt: row.triggered_at ?? null,
+        },
+      };
+      previous = price;
+      return event;
+    });
+}
+
+/**
+ * 查找开仓决策：开仓后时间窗口内的第一条决策记录，附带结构化决策中该币种开仓操作的理由
+ */
+async function loadOpeningDecision(
+  dbClient: Client,
+  symbol: string,
+  openedAt: string,
+): Promise<TimelineEvent | null> {
+  const openedTime = timeOf(openedAt);
+  if (!openedTime) {
+    return null;
+  }
+
+  const result = await dbClient.execute({
+    sql: `SELECT d.id, d.timestamp, d.iteration, d.decision, s.decision_json
+          FROM agent_decisions d
+          LEFT JOIN structured_decisions s ON s.decision_id = d.id
+          WHERE d.account_id = ? AND d.timestamp >= ? AND d.timestamp <= ?
+          ORDER BY d.timestamp ASC
+          LIMIT 1`,
+    args: [
+      getCurrentAccountId(),
+      new Date(openedTime).toISOString(),
+      new Date(openedTime + DECISION_LOOKUP_WINDOW_MS).toISOString(),
+    ],
+  });
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const structured = parseJson(row.decision_json);
+  const action = Array.isArray(structured?.actions)
+    ? structured.actions.find((a: any) => a.action === "open" && a.symbol === symbol)
+    : null;
+
+  return {
+    type: "decision",
+    timestamp: row.timestamp as string,
+    price: null,
+    quantity: null,
+    pnl: null,
+    fee: null,
+    details: {
+      decisionId: Number(row.id),
+      iteration: Number(row.iteration),
+      decision: row.decision,
+      rationale: action?.rationale ?? null,
+      confidence: action?.confidence ?? null,
+    },
+  };
+}
+
+/**
+ * 加载持仓的完整生命周期（持仓不存在时返回 null）
+ */
+export async function loadPositionTimeline(
+  dbClient: Client,
+  positionOrderId: string,
+): Promise<PositionTimeline | null> {
+  const accountId = getCurrentAccountId();
+  const args = [accountId, positionOrderId];
+
+  const [entryResult, positionResult, openTradeResult, priceOrderResult, partialResult, journalResult, closeResult, fundingResult] =
+    await Promise.all([
+      dbClient.execute({ sql: "SELECT * FROM position_entries WHERE account_id = ? AND position_order_id = ?", args }),
+      dbClient.execute({ sql: "SELECT * FROM positions WHERE account_id = ? AND entry_order_id = ?", args }),
+      dbClient.execute({
+        sql: "SELECT * FROM trades WHERE account_id = ? AND order_id = ? AND type = 'open' ORDER BY timestamp ASC LIMIT 1",
+        args,
+      }),
+      dbClient.execute({
+        sql: "SELECT * FROM price_orders WHERE account_id = ? AND position_order_id = ? ORDER BY created_at ASC, id ASC",
+        args,
+      }),
+      dbClient.execute({
+        sql: "SELECT * FROM partial_take_profit_history WHERE account_id = ? AND position_order_id = ? ORDER BY timestamp ASC",
+        args,
+      }),
+      dbClient.execute({
+        sql: "SELECT * FROM position_journal WHERE account_id = ? AND position_order_id = ? ORDER BY timestamp ASC",
+        args,
+      }),
+      dbClient.execute({
+        sql: `SELECT e.*, t.fee as trade_fee
+              FROM position_close_events e
+              LEFT JOIN trades t ON t.account_id = e.account_id AND t.order_id = e.order_id AND t.type = 'close'
+              WHERE e.account_id = ? AND e.position_order_id = ?
+              ORDER BY e.created_at ASC, e.id ASC`,
+        args,
+      }),
+      dbClient.execute({
+        sql: "SELECT * FROM funding_settlements WHERE account_id = ? AND position_order_id = ? ORDER BY settled_at ASC",
+        args,
+      }),
+    ]);
+
+  const entry: any = entryResult.rows[0];
+  const position: any = positionResult.rows[0];
+  const openTrade: any = openTradeResult.rows[0];
+  const closeRows: any[] = closeResult.rows;
+  const source = entry || position || openTrade || closeRows[0];
+  if (!source) {
+    return null;
+  }
+
+  const metadata = parseJson(entry?.metadata) || parseJson(position?.metadata) || {};
+  const symbol = source.symbol as string;
+  const side = source.side as "long" | "short";
+  const openedAt = (entry?.opened_at || position?.opened_at || openTrade?.timestamp || null) as string | null;
+  const entryPrice = toNumber(entry?.entry_price ?? position?.entry_price ?? openTrade?.price ?? closeRows[0]?.entry_price) ?? 0;
+  const quantity = toNumber(entry?.quantity ?? openTrade?.quantity ?? position?.quantity ?? closeRows[0]?.quantity) ?? 0;
+  const leverage = toNumber(entry?.leverage ?? position?.leverage ?? openTrade?.leverage ?? closeRows[0]?.leverage) ?? 1;
+  const stopLossOrders = priceOrderResult.rows.filter((row: any) => row.type === "stop_loss");
+  const takeProfitOrders = priceOrderResult.rows.filter((row: any) => row.type === "take_profit");
+  const initialStopLoss = toNumber(entry?.initial_stop_loss) ?? toNumber(stopLossOrders[0]?.trigger_price);
+  const initialTakeProfit = toNumber(entry?.initial_take_profit) ?? toNumber(takeProfitOrders[0]?.trigger_price);
+  const openFee = toNumber(openTrade?.fee) ?? 0;
+
+  const events: TimelineEvent[] = [];
+
+  if (openedAt) {
+    const decision = await loadOpeningDecision(dbClient, symbol, openedAt);
+    if (decision) {
+      events.push(decision);
+    }
+    events.push({
+      type: "open",
+      timestamp: openedAt,
+      price: entryPrice,
+      quantity,
+      pnl: null,
+      fee: openFee,
+      details: {
+        leverage,
+        marketState: entry?.market_state ?? position?.market_state ?? metadata.marketState ?? null,
+        strategyType: entry?.strategy_type ?? position?.strategy_type ?? null,
+        signalStrength: toNumber(entry?.signal_strength ?? position?.signal_strength),
+        opportunityScore: toNumber(entry?.opportunity_score ?? position?.opportunity_score),
+        stopLoss: initialStopLoss,
+        takeProfit: initialTakeProfit,
+      },
+    });
+  }
+
+  events.push(...priceOrderEvents(priceOrderResult.rows, "stop_loss"));
+  events.push(...priceOrderEvents(priceOrderResult.rows, "take_profit"));
+
+  // 分批止盈同时写入平仓事件（close_reason = partial_close），按成交订单合并，手续费取自平仓事件
+  const closeFeeByOrder = new Map<string, number>();
+  for (const row of closeRows) {
+    if (row.order_id) {
+      closeFeeByOrder.set(row.order_id as string, toNumber(row.fee) ?? toNumber(row.trade_fee) ?? 0);
+    }
+  }
+  const partialOrderIds = new Set<string>();
+  for (const row of partialResult.rows as any[]) {
+    if (row.order_id) {
+      partialOrderIds.add(row.order_id as string);
+    }
+    events.push({
+      type: "partial_take_profit",
+      timestamp: row.timestamp,
+      price: toNumber(row.trigger_price),
+      quantity: toNumber(row.closed_quantity),
+      pnl: toNumber(row.pnl),
+      fee: row.order_id ? (closeFeeByOrder.get(row.order_id as string) ?? null) : null,
+      details: {
+        stage: Number(row.stage),
+        rMultiple: toNumber(row.r_multiple),
+        closePercent: toNumber(row.close_percent),
+        remainingQuantity: toNumber(row.remaining_quantity),
+        newStopLoss: toNumber(row.new_stop_loss_price),
+        status: row.status,
+        notes: row.notes ?? null,
+      },
+    });
+  }
+
+  for (const row of journalResult.rows as any[]) {
+    events.push({
+      type: row.event_type as TimelineEventType,
+      timestamp: row.timestamp,
+      price: toNumber(row.price),
+      quantity: null,
+      pnl: null,
+      fee: null,
+      details: parseJson(row.details) || {},
+    });
+  }
+
+  let fundingPnl = 0;
+  for (const row of fundingResult.rows as any[]) {
+    const amount = Number(row.amount);
+    fundingPnl += amount;
+    events.push({
+      type: "funding",
+      timestamp: new Date(Number(row.settled_at)).toISOString(),
+      price: null,
+      quantity: null,
+      pnl: amount,
+      fee: null,
+      details: { externalId: row.external_id ?? null },
+    });
+  }
+
+  let realizedPnl = 0;
+  let closeFees = 0;
+  for (const row of closeRows) {
+    const fee = toNumber(row.fee) ?? toNumber(row.trade_fee) ?? 0;
+    const pnl = Number(row.pnl);
+    realizedPnl += pnl;
+    closeFees += fee;
+    if (row.order_id && partialOrderIds.has(row.order_id as string)) {
+      continue;
+    }
+    events.push({
+      type: "close",
+      timestamp: row.created_at,
+      price: Number(row.close_price),
+      quantity: Number(row.quantity),
+      pnl,
+      fee,
+      details: {
+        closeReason: row.close_reason,
+        triggerType: row.trigger_type,
+        triggerPrice: toNumber(row.trigger_price),
+        pnlPercent: toNumber(row.pnl_percent),
+      },
+    });
+  }
+
+  events.sort((a, b) => {
+    // 开仓决策记录晚于开仓成交写入，固定排在开仓之前
+    if (a.type === "decision" || b.type === "decision") {
+      return EVENT_ORDER[a.type] - EVENT_ORDER[b.type];
+    }
+    return timeOf(a.timestamp) - timeOf(b.timestamp) || EVENT_ORDER[a.type] - EVENT_ORDER[b.type];
+  });
+
+  // 持仓记录仍存在即未平仓（分批止盈后也有平仓事件）
+  const closed = !position && closeRows.length > 0;
+
+  return {
+    positionOrderId,
+    symbol,
+    side,
+    status: closed ? "closed" : "open",
+    leverage,
+    entryPrice,
+    quantity,
+    openedAt,
+    closedAt: closed ? (closeRows[closeRows.length - 1].created_at as string) : null,
+    marketState: entry?.market_state ?? position?.market_state ?? metadata.marketState ?? null,
+    strategyType: entry?.strategy_type ?? position?.strategy_type ?? null,
+    signalStrength: toNumber(entry?.signal_strength ?? position?.signal_strength),
+    opportunityScore: toNumber(entry?.opportunity_score ?? position?.opportunity_score),
+    initialStopLoss,
+    initialTakeProfit,
+    realizedPnl,
+    totalFee: openFee + closeFees,
+    fundingPnl,
+    events,
+  };
+}
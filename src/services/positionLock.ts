@@ -0,0 +1,305 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 持仓锁服务（租约 + 隔离令牌）
+ *
+ * 交易循环、条件单监控、分批止盈执行器和反转监控执行器在平仓或调整仓位前都需要获取同一把锁，
+ * 锁的粒度为 账户 + 币种 + 方向，保证同一持仓同时只有一个操作在执行。
+ *
+ * - 租约：获取时写入到期时间，持有期间按 TTL 的 1/3 定时续期；进程崩溃后租约到期即可被其他操作获取
+ * - 隔离令牌：每次获取递增，下单前校验令牌仍属于自己（verify），防止租约过期后被接管时旧持有者继续操作
+ * - 可重入：withPositionLock 内部调用的工具再次获取同一把锁时直接复用外层租约
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import type { Client, ResultSet } from "@libsql/client";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO } from "../utils/timeUtils";
+
+const logger = createLogger({
+  name: "position-lock",
+  level: "info",
+});
+
+export type PositionLockPurpose = "opening" | "closing";
+
+export interface PositionLockRequest {
+  symbol: string;
+  side: "long" | "short";
+  purpose: PositionLockPurpose;
+  /** 调用方标识（如 'close-position', 'price-order-monitor'） */
+  owner: string;
+  /** 租约时长（毫秒），默认 POSITION_LOCK_TTL_SECONDS */
+  ttlMs?: number;
+}
+
+export interface PositionLease {
+  accountId: string;
+  symbol: string;
+  side: "long" | "short";
+  purpose: PositionLockPurpose;
+  holder: string;
+  fencingToken: number;
+  ttlMs: number;
+}
+
+export interface PositionLockHandle {
+  lease: PositionLease;
+  /** 复用了外层已持有的租约（release 不会释放） */
+  reentrant: boolean;
+  /** 校验租约仍有效，已被接管或过期时抛出 PositionLockLostError */
+  verify(): Promise<void>;
+  release(): Promise<void>;
+}
+
+export interface ActivePositionLock {
+  symbol: string;
+  side: "long" | "short";
+  purpose: PositionLockPurpose;
+  holder: string;
+  fencingToken: number;
+  acquiredAt: string;
+  expiresAt: number;
+}
+
+export type PositionLockResult<T> =
+  | { acquired: true; result: T }
+  | { acquired: false; holder: string | null };
+
+/**
+ * 租约已过期或已被其他操作接管
+ */
+export class PositionLockLostError extends Error {
+  constructor(
+    readonly lease: PositionLease,
+    readonly currentHolder: string | null,
+  ) {
+    super(`${lease.symbol} ${lease.side} 持仓锁已失效（令牌 ${lease.fencingToken}，当前持有者 ${currentHolder ?? "无"}）`);
+    this.name = "PositionLockLostError";
+  }
+}
+
+const heldLeases = new AsyncLocalStorage<Map<string, PositionLease>>();
+
+export function getPositionLockTtlMs(): number {
+  return Number.parseFloat(process.env.POSITION_LOCK_TTL_SECONDS || "30") * 1000;
+}
+
+/**
+ * 锁使用的币种格式（BTC、BTC_USDT、BTCUSDT 视为同一币种）
+ */
+export function normalizeLockSymbol(symbol: string): string {
+  return symbol.toUpperCase().replace(/[_/-]?USDT$/, "");
+}
+
+function leaseKey(accountId: string, symbol: string, side: string): string {
+  return `${accountId}:${symbol}:${side}`;
+}
+
+/**
+ * 获取持仓锁，锁被其他操作持有时返回 null
+ */
+export async function acquirePositionLock(
+  dbClient: Client,
+  request: PositionLockRequest,
+): Promise<PositionLockHandle | null> {
+  const accountId = getCurrentAccountId();
+  const symbol = normalizeLockSymbol(request.symbol);
+
+  const held = heldLeases.getStore()?.get(leaseKey(accountId, symbol, request.side));
+  if (held) {
+    return {
+      lease: held,
+      reentrant: true,
+      verify: () => verifyPositionLease(dbClient, held),
+      release: async () => {},
+    };
+  }
+
+  const ttlMs = request.ttlMs ?? getPositionLockTtlMs();
+  const holder = `${request.owner}#${process.pid}-${randomUUID().slice(0, 8)}`;
+  const now = Date.now();
+
+  let result: ResultSet;
+  try {
+    // 单条 UPSERT 完成"检查未被持有或已过期 → 占用并递增令牌"，多个进程并发获取时只有一个成功
+    result = await dbClient.execute({
+      sql: `INSERT INTO position_locks (account_id, symbol, side, holder, purpose, fencing_token, acquired_at, expires_at)
+            VALUES (?, ?, ?, ?, ?, 1, ?, ?)
+            ON CONFLICT(account_id, symbol, side) DO UPDATE SET
+              holder = excluded.holder,
+              purpose = excluded.purpose,
+              fencing_token = position_locks.fencing_token + 1,
+              acquired_at = excluded.acquired_at,
+              expires_at = excluded.expires_at
+            WHERE position_locks.holder IS NULL OR position_locks.expires_at <= ?
+            RETURNING fencing_token`,
+      args: [accountId, symbol, request.side, holder, request.purpose, getChinaTimeISO(), now + ttlMs, now],
+    });
+  } catch (error: any) {
+    logger.error(`获取持仓锁失败 ${symbol} ${request.side}: ${error.message}`);
+    return null;
+  }
+
+  if (result.rows.length === 0) {
+    logger.debug(`🔒 ${symbol} ${request.side} 持仓锁被占用，${request.owner} 跳过`);
+    return null;
+  }
+
+  const lease: PositionLease = {
+    accountId,
+    symbol,
+    side: request.side,
+    purpose: request.purpose,
+    holder,
+    fencingToken: Number(result.rows[0].fencing_token),
+    ttlMs,
+  };
+  logger.debug(`✅ ${holder} 获取持仓锁: ${symbol} ${request.side} (令牌 ${lease.fencingToken})`);
+
+  // 定时续期，直到释放
+  const renewTimer = setInterval(() => {
+    renewPositionLock(dbClient, lease)
+      .then((renewed) => {
+        if (!renewed) {
+          logger.error(`❌ ${symbol} ${request.side} 持仓锁续期失败，租约已被接管（令牌 ${lease.fencingToken}）`);
+          clearInterval(renewTimer);
+        }
+      })
+      .catch((error: any) => logger.warn(`持仓锁续期异常: ${error.message}`));
+  }, Math.max(10, Math.floor(ttlMs / 3)));
+  renewTimer.unref?.();
+
+  let released = false;
+  return {
+    lease,
+    reentrant: false,
+    verify: () => verifyPositionLease(dbClient, lease),
+    release: async () => {
+      if (released) return;
+      released = true;
+      clearInterval(renewTimer);
+      await releasePositionLock(dbClient, lease);
+    },
+  };
+}
+
+/**
+ * 续期租约（令牌未变化时有效，即使已过期但尚未被其他操作获取）
+ * @returns false 表示租约已被接管
+ */
+export async function renewPositionLock(dbClient: Client, lease: PositionLease): Promise<boolean> {
+  const result = await dbClient.execute({
+    sql: `UPDATE position_locks SET expires_at = ?
+          WHERE account_id = ? AND symbol = ? AND side = ? AND holder = ? AND fencing_token = ?`,
+    args: [Date.now() + lease.ttlMs, lease.accountId, lease.symbol, lease.side, lease.holder, lease.fencingToken],
+  });
+  return result.rowsAffected > 0;
+}
+
+/**
+ * 释放租约（只释放自己持有的，保留行以延续令牌）
+ */
+export async function releasePositionLock(dbClient: Client, lease: PositionLease): Promise<void> {
+  try {
+    await dbClient.execute({
+      sql: `UPDATE position_locks SET holder = NULL, purpose = NULL, expires_at = 0
+            WHERE account_id = ? AND symbol = ? AND side = ? AND holder = ? AND fencing_token = ?`,
+      args: [lease.accountId, lease.symbol, lease.side, lease.holder, lease.fencingToken],
+    });
+    logger.debug(`🔓 ${lease.holder} 释放持仓锁: ${lease.symbol} ${lease.side}`);
+  } catch (error: any) {
+    logger.error(`释放持仓锁失败: ${error.message}`);
+  }
+}
+
+/**
+ * 校验租约仍由自己持有且未过期（交易所下单前调用）
+ */
+export async function verifyPositionLease(dbClient: Client, lease: PositionLease): Promise<void> {
+  const result = await dbClient.execute({
+    sql: "SELECT holder, fencing_token, expires_at FROM position_locks WHERE account_id = ? AND symbol = ? AND side = ?",
+    args: [lease.accountId, lease.symbol, lease.side],
+  });
+  const row = result.rows[0];
+  const valid = row
+    && row.holder === lease.holder
+    && Number(row.fencing_token) === lease.fencingToken
+    && Number(row.expires_at) > Date.now();
+  if (!valid) {
+    throw new PositionLockLostError(lease, (row?.holder as string | null) ?? null);
+  }
+}
+
+/**
+ * 持有持仓锁执行函数，结束后释放；函数内部（含调用的工具）再次获取同一把锁时复用该租约
+ */
+export async function withPositionLock<T>(
+  dbClient: Client,
+  request: PositionLockRequest,
+  fn: (lease: PositionLease) => Promise<T>,
+): Promise<PositionLockResult<T>> {
+  const handle = await acquirePositionLock(dbClient, request);
+  if (!handle) {
+    return { acquired: false, holder: await getPositionLockHolder(dbClient, request.symbol, request.side) };
+  }
+
+  try {
+    const leases = new Map(heldLeases.getStore() ?? []);
+    leases.set(leaseKey(handle.lease.accountId, handle.lease.symbol, handle.lease.side), handle.lease);
+    const result = await heldLeases.run(leases, () => fn(handle.lease));
+    return { acquired: true, result };
+  } finally {
+    await handle.release();
+  }
+}
+
+/**
+ * 查询当前持有者（未被持有或已过期时返回 null）
+ */
+export async function getPositionLockHolder(dbClient: Client, symbol: string, side: "long" | "short"): Promise<string | null> {
+  const result = await dbClient.execute({
+    sql: `SELECT holder FROM position_locks
+          WHERE account_id = ? AND symbol = ? AND side = ? AND holder IS NOT NULL AND expires_at > ?`,
+    args: [getCurrentAccountId(), normalizeLockSymbol(symbol), side, Date.now()],
+  });
+  return (result.rows[0]?.holder as string | undefined) ?? null;
+}
+
+/**
+ * 当前账户所有未过期的持仓锁（健康检查据此跳过正在开平仓的持仓）
+ */
+export async function getActivePositionLocks(dbClient: Client): Promise<ActivePositionLock[]> {
+  const result = await dbClient.execute({
+    sql: `SELECT symbol, side, purpose, holder, fencing_token, acquired_at, expires_at FROM position_locks
+          WHERE account_id = ? AND holder IS NOT NULL AND expires_at > ?
+          ORDER BY symbol, side`,
+    args: [getCurrentAccountId(), Date.now()],
+  });
+  return result.rows.map((row) => ({
+    symbol: row.symbol as string,
+    side: row.side as "long" | "short",
+    purpose: row.purpose as PositionLockPurpose,
+    holder: row.holder as string,
+    fencingToken: Number(row.fencing_token),
+    acquiredAt: row.acquired_at as string,
+    expiresAt: Number(row.expires_at),
+  }));
+}
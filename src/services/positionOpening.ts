@@ -0,0 +1,998 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 开仓服务
+ * openPosition 工具（AI/规则引擎）和控制接口的手动开仓共用同一套风控检查、下单执行和记录逻辑
+ */
+import { parsePositionSize } from "../utils";
+import { getExchangeClient } from "../exchanges";
+import { createClient } from "@libsql/client";
+import { createLogger } from "../utils/logger";
+import { getChinaTimeISO, nowMs } from "../utils/timeUtils";
+import { RISK_PARAMS, checkTradingSymbol } from "../config/riskParams";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { getQuantoMultiplier } from "../utils/contractUtils";
+import { formatPriceNumber, formatStopLossPrice } from "../utils/priceFormatter";
+import { analyzeMarketState } from "./marketStateAnalyzer";
+import { assessPortfolio, evaluatePortfolioOrder, type PortfolioPosition } from "./portfolioRiskEngine";
+import { canOpenNewPositions, getPositionSizeFactor, getTradingState, TRADING_STATE_LABELS } from "./tradingStateMachine";
+import {
+  buildOpenPositionStatements,
+  commitOperationIntent,
+  markOperationIntentFailed,
+  markOperationIntentSubmitted,
+  recordOperationIntent,
+  updateOperationIntent,
+} from "./operationIntentLog";
+import { acquirePositionLock } from "./positionLock";
+import { evaluateEntrySlippage, getLiquidityProfile } from "./liquidityModel";
+import {
+  attachEntryFees,
+  executeEntry,
+  FALLBACK_REASON_LABELS,
+  resolveEntryExecutionConfig,
+  type EntryExecutionResult,
+} from "./entryExecution";
+
+const logger = createLogger({
+  name: "position-opening",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/**
+ * 开仓参数
+ */
+export interface OpenPositionParams {
+  symbol: string;
+  side: "long" | "short";
+  leverage: number;
+  amountUsdt: number;
+  // 策略信息（可选）- 用于记录开仓决策依据
+  marketState?: string;
+  strategyType?: string;
+  signalStrength?: number;
+  opportunityScore?: number;
+}
+
+/**
+ * 开仓结果（拒绝或失败时只有 success=false 和 message）
+ */
+export interface OpenPositionResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  orderId?: string;
+  symbol?: string;
+  side?: "long" | "short";
+  size?: number;            // 数量（Gate.io=张数, Binance=币数量）
+  contractAmount?: number;  // 实际币的数量
+  price?: number;
+  leverage?: number;
+  actualMargin?: number;
+}
+
+/**
+ * 开仓：经过完整的开仓前风控检查后下单，成交后记录持仓并自动设置科学止损
+ */
+export async function openPosition(params: OpenPositionParams): Promise<OpenPositionResult> {
+  const { symbol, side, leverage, marketState, strategyType, signalStrength, opportunityScore } = params;
+  // 低流动性时段会缩减开仓金额
+  let { amountUsdt } = params;
+
+  const symbolError = checkTradingSymbol(symbol);
+  if (symbolError) {
+    return {
+      success: false,
+      message: symbolError,
+    };
+  }
+
+  const exchangeClient = getExchangeClient();
+  const contract = exchangeClient.normalizeContract(symbol);
+  
+  // 🔒 获取持仓锁：同一持仓同时只允许一个操作开平仓或调整仓位（健康检查据此跳过正在开仓的持仓）
+  const positionLock = await acquirePositionLock(dbClient, { symbol, side, purpose: "opening", owner: "open-position" });
+  if (!positionLock) {
+    return {
+      success: false,
+      message: `${symbol} ${side === "long" ? "多单" : "空单"}正在被其他操作处理，请稍后再试`,
+    };
+  }
+  
+  try {
+    //  参数验证
+    if (!Number.isFinite(amountUsdt) || amountUsdt <= 0) {
+      return {
+        success: false,
+        message: `无效的开仓金额: ${amountUsdt}`,
+      };
+    }
+    
+    if (!Number.isFinite(leverage) || leverage < 1 || leverage > RISK_PARAMS.MAX_LEVERAGE) {
+      return {
+        success: false,
+        message: `无效的杠杆倍数: ${leverage}（必须在1-${RISK_PARAMS.MAX_LEVERAGE}之间，最大值由环境变量MAX_LEVERAGE控制）`,
+      };
+    }
+    
+    // ====== 开仓前强制风控检查 ======
+    
+    // 0. 回撤熔断状态（禁止开仓/强制平仓/停止交易时拒绝）
+    const tradingState = RISK_PARAMS.CIRCUIT_BREAKER_ENABLED
+      ? await getTradingState(dbClient)
+      : { state: "normal" as const, reason: "" };
+    if (!canOpenNewPositions(tradingState.state)) {
+      return {
+        success: false,
+        message: `❌ 拒绝开仓: 账户处于【${TRADING_STATE_LABELS[tradingState.state]}】状态（${tradingState.reason}），只允许平仓和调整止损`,
+      };
+    }
+    
+    // 1. 检查持仓数量（最多5个）
+    const allPositions = await exchangeClient.getPositions();
+    const activePositions = allPositions.filter((p: any) => Math.abs(parsePositionSize(p.size)) !== 0);
+    
+    if (activePositions.length >= RISK_PARAMS.MAX_POSITIONS) {
+      return {
+        success: false,
+        message: `已达到最大持仓数量限制（${RISK_PARAMS.MAX_POSITIONS}个），当前持仓 ${activePositions.length} 个，无法开新仓`,
+      };
+    }
+    
+    // 2. 检查该币种是否已有持仓
+    const existingPosition = activePositions.find((p: any) => {
+      const posSymbol = exchangeClient.extractSymbol(p.contract);
+      return posSymbol === symbol;
+    });
+    
+    // 3. 如果方向不同，禁止双向持仓
+    if (existingPosition) {
+      const existingSize = parsePositionSize(existingPosition.size);
+      const existingSide = existingSize > 0 ? "long" : "short";
+      
+      if (existingSide !== side) {
+        return {
+          success: false,
+          message: `${symbol} 已有${existingSide === "long" ? "多" : "空"}单持仓，禁止同时持有双向持仓。请先平掉${existingSide === "long" ? "多" : "空"}单后再开${side === "long" ? "多" : "空"}单。`,
+        };
+      }
+      
+      // 3. 如果方向相同，不允许加仓
+      if (existingSide === side) {
+        return {
+          success: false,
+          message: `${symbol} 已有${existingSide === "long" ? "多" : "空"}单持仓，禁止加仓。`,
+        };
+      }
+    }
+    
+    // 3. 获取账户信息
+    const account = await exchangeClient.getFuturesAccount();
+    const unrealisedPnl = Number.parseFloat(account.unrealisedPnl || "0");
+    const totalBalance = Number.parseFloat(account.total || "0") - unrealisedPnl;
+    const availableBalance = Number.parseFloat(account.available || "0");
+    const positionMargin = Number.parseFloat(account.positionMargin || "0");
+    
+    // 🔧 详细日志：账户状态
+    logger.info(`💰 账户状态: 总资产=${totalBalance.toFixed(2)} USDT, 可用=${availableBalance.toFixed(2)} USDT, 持仓保证金=${positionMargin.toFixed(2)} USDT, 未实现盈亏=${unrealisedPnl.toFixed(2)} USDT`);
+    
+    if (!Number.isFinite(availableBalance) || availableBalance <= 0) {
+      return {
+        success: false,
+        message: `账户可用资金异常: ${availableBalance} USDT`,
+      };
+    }
+    
+    // 🔧 检查保证金是否充足（预留 1% 作为手续费缓冲）
+    const requiredMargin = amountUsdt * 1.01; // 加 1% 手续费缓冲
+    if (requiredMargin > availableBalance) {
+      return {
+        success: false,
+        message: `保证金不足: 需要 ${requiredMargin.toFixed(2)} USDT（含手续费），可用 ${availableBalance.toFixed(2)} USDT。建议降低开仓金额或平仓释放保证金。`,
+      };
+    }
+          
+    // 4. 检查总敞口（不超过账户净值的15倍）
+    let currentTotalExposure = 0;
+    const portfolioPositions: PortfolioPosition[] = [];
+    for (const pos of activePositions) {
+      const signedSize = parsePositionSize(pos.size);
+      const posSize = Math.abs(signedSize);
+      const entryPrice = Number.parseFloat(pos.entryPrice || "0");
+      const posLeverage = Number.parseInt(pos.leverage || "1");
+      // 获取合约乘数
+      const posQuantoMultiplier = await getQuantoMultiplier(pos.contract);
+      const posValue = posSize * entryPrice * posQuantoMultiplier;
+      currentTotalExposure += posValue;
+      
+      // 组合风险按标记价格计算当前名义价值
+      const markPrice = Number.parseFloat(pos.markPrice || "0") || entryPrice;
+      const markValue = posSize * markPrice * posQuantoMultiplier;
+      portfolioPositions.push({
+        symbol: exchangeClient.extractSymbol(pos.contract),
+        side: signedSize > 0 ? "long" : "short",
+        notional: markValue,
+        margin: Number.parseFloat(pos.margin || "0") || markValue / Math.max(1, posLeverage),
+      });
+    }
+    
+    const newExposure = amountUsdt * leverage;
+    const totalExposure = currentTotalExposure + newExposure;
+    const maxAllowedExposure = totalBalance * RISK_PARAMS.MAX_LEVERAGE; // 使用配置的最大杠杆
+    
+    if (totalExposure > maxAllowedExposure) {
+      return {
+        success: false,
+        message: `新开仓将导致总敞口 ${totalExposure.toFixed(2)} USDT 超过限制 ${maxAllowedExposure.toFixed(2)} USDT（账户净值的${RISK_PARAMS.MAX_LEVERAGE}倍），拒绝开仓`,
+      };
+    }
+    
+    // 5. 检查单笔仓位（建议不超过账户净值的30%）
+    const maxSinglePosition = totalBalance * 0.30; // 30%
+    if (amountUsdt > maxSinglePosition) {
+      logger.warn(`开仓金额 ${amountUsdt.toFixed(2)} USDT 超过建议仓位 ${maxSinglePosition.toFixed(2)} USDT（账户净值的30%）`);
+    }
+    
+    // ====== 流动性保护检查 ======
+    
+    // 1. 检查交易时段（UTC时间）
+    const now = new Date(nowMs());
+    const hourUTC = now.getUTCHours();
+    const dayOfWeek = now.getUTCDay(); // 0=周日，6=周六
+    
+    // 低流动性时段警告（UTC 2:00-6:00，亚洲时段凌晨）
+    if (hourUTC >= 2 && hourUTC <= 6) {
+      logger.warn(`⚠️  当前处于低流动性时段 (UTC ${hourUTC}:00)，建议谨慎交易`);
+      // 在低流动性时段降低仓位
+      amountUsdt = Math.max(10, amountUsdt * 0.7);
+    }
+    
+    // 周末流动性检查
+    if ((dayOfWeek === 5 && hourUTC >= 22) || dayOfWeek === 6 || (dayOfWeek === 0 && hourUTC < 20)) {
+      logger.warn(`⚠️  当前处于周末时段，流动性可能较低`);
+      amountUsdt = Math.max(10, amountUsdt * 0.8);
+    }
+    
+    // ====== 波动率自适应调整 ======
+    
+    // 获取当前策略和市场数据
+    const { getStrategyParams, getTradingStrategy } = await import("../agents/tradingAgent.js");
+    const strategy = getTradingStrategy();
+    const strategyParams = getStrategyParams(strategy);
+    
+    let adjustedLeverage = leverage;
+    let adjustedAmountUsdt = amountUsdt;
+    
+    // 从market data中获取ATR（需要从上下文传入）
+    // 这里先计算ATR百分比
+    let atrPercent = 0;
+    let volatilityLevel = "normal";
+    
+    try {
+      // 获取市场数据（包含ATR）
+      const marketDataModule = await import("../tools/trading/marketData.js");
+      const ticker = await exchangeClient.getFuturesTicker(contract);
+      const currentPrice = Number.parseFloat(ticker.last || "0");
+      
+      // 获取1小时K线计算ATR
+      const candles1h = await exchangeClient.getFuturesCandles(contract, "1h", 24);
+      if (candles1h && candles1h.length > 14) {
+        // 计算ATR14
+        const trs = [];
+        for (let i = 1; i < candles1h.length; i++) {
+          const high = Number.parseFloat(candles1h[i].high);
+          const low = Number.parseFloat(candles1h[i].low);
+          const prevClose = Number.parseFloat(candles1h[i - 1].close);
+          const tr = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+          trs.push(tr);
+        }
+        const atr14 = trs.slice(-14).reduce((a, b) => a + b, 0) / 14;
+        atrPercent = (atr14 / currentPrice) * 100;
+        
+        // 确定波动率级别
+        if (atrPercent > 5) {
+          volatilityLevel = "high";
+        } else if (atrPercent < 2) {
+          volatilityLevel = "low";
+        }
+      }
+    } catch (error) {
+      logger.warn(`计算波动率失败: ${error}`);
+    }
+    
+    // 根据波动率调整参数
+    if (volatilityLevel === "high") {
+      const adjustment = strategyParams.volatilityAdjustment.highVolatility;
+      adjustedLeverage = Math.max(1, Math.round(leverage * adjustment.leverageFactor));
+      adjustedAmountUsdt = Math.max(10, amountUsdt * adjustment.positionFactor);
+      logger.info(`🌊 高波动市场 (ATR ${atrPercent.toFixed(2)}%)：杠杆 ${leverage}x → ${adjustedLeverage}x，仓位 ${amountUsdt.toFixed(0)} → ${adjustedAmountUsdt.toFixed(0)} USDT`);
+    } else if (volatilityLevel === "low") {
+      const adjustment = strategyParams.volatilityAdjustment.lowVolatility;
+      adjustedLeverage = Math.min(RISK_PARAMS.MAX_LEVERAGE, Math.round(leverage * adjustment.leverageFactor));
+      adjustedAmountUsdt = Math.min(totalBalance * 0.32, amountUsdt * adjustment.positionFactor);
+      logger.info(`🌊 低波动市场 (ATR ${atrPercent.toFixed(2)}%)：杠杆 ${leverage}x → ${adjustedLeverage}x，仓位 ${amountUsdt.toFixed(0)} → ${adjustedAmountUsdt.toFixed(0)} USDT`);
+    } else {
+      logger.info(`🌊 正常波动市场 (ATR ${atrPercent.toFixed(2)}%)：保持原始参数`);
+    }
+    
+    // 谨慎状态下按系数缩减仓位
+    const sizeFactor = getPositionSizeFactor(tradingState.state);
+    if (sizeFactor < 1) {
+      logger.info(`🚦 账户处于${TRADING_STATE_LABELS[tradingState.state]}状态：仓位 ${adjustedAmountUsdt.toFixed(0)} → ${(adjustedAmountUsdt * sizeFactor).toFixed(0)} USDT`);
+      adjustedAmountUsdt *= sizeFactor;
+    }
+    
+    // ====== 组合风险检查（相关性、净敞口、方向敞口、占用保证金） ======
+    if (RISK_PARAMS.PORTFOLIO_RISK_ENABLED) {
+      const portfolio = await assessPortfolio(exchangeClient, portfolioPositions, totalBalance);
+      const portfolioCheck = evaluatePortfolioOrder(portfolio, {
+        symbol,
+        side,
+        notional: adjustedAmountUsdt * adjustedLeverage,
+        margin: adjustedAmountUsdt,
+      });
+      
+      if (!portfolioCheck.allowed) {
+        logger.warn(`🧺 组合风险拒绝开仓 ${symbol} ${side}: ${portfolioCheck.reasons.join('；')}`);
+        const reasonLines = portfolioCheck.reasons.map(reason => `   ${reason}`).join('\n');
+        return {
+          success: false,
+          message: `❌ 拒绝开仓: 超出组合风险限制\n${reasonLines}\n   建议: 先平掉同向或高相关持仓，或选择与现有持仓相关性低的币种`,
+        };
+      }
+      
+      if (portfolioCheck.scale < 1) {
+        logger.info(`🧺 组合风险缩减仓位 ${symbol}: ${adjustedAmountUsdt.toFixed(2)} → ${portfolioCheck.margin.toFixed(2)} USDT（${portfolioCheck.reasons.join('；')}）`);
+        adjustedAmountUsdt = portfolioCheck.margin;
+      }
+    }
+    
+    // ====== 🔴 关键步骤：开仓前强制验证科学止损 ======
+    
+    // 获取当前价格
+    const ticker = await exchangeClient.getFuturesTicker(contract);
+    const currentPrice = Number.parseFloat(ticker.last || "0");
+    
+    logger.info(`📊 步骤1: 开仓前计算科学止损位...`);
+    
+    let preCalculatedStopLoss: number;
+    let stopLossDistancePercent: number;
+    let stopLossQualityScore: number;
+    let stopLossMethod: string;
+    
+    if (RISK_PARAMS.ENABLE_SCIENTIFIC_STOP_LOSS) {
+      try {
+        // 动态导入止损计算服务
+        const { calculateScientificStopLoss } = await import("./stopLossCalculator.js");
+        
+        // 构建止损配置
+        const stopLossConfig = {
+          atrPeriod: RISK_PARAMS.ATR_PERIOD,
+          atrMultiplier: RISK_PARAMS.ATR_MULTIPLIER,
+          lookbackPeriod: RISK_PARAMS.SUPPORT_RESISTANCE_LOOKBACK,
+          bufferPercent: RISK_PARAMS.SUPPORT_RESISTANCE_BUFFER,
+          useATR: RISK_PARAMS.USE_ATR_STOP_LOSS,
+          useSupportResistance: RISK_PARAMS.USE_SUPPORT_RESISTANCE_STOP_LOSS,
+          minStopLossPercent: RISK_PARAMS.MIN_STOP_LOSS_PERCENT,
+          maxStopLossPercent: RISK_PARAMS.MAX_STOP_LOSS_PERCENT,
+        };
+        
+        // 计算止损位（使用当前市场价格）
+        const stopLossResult = await calculateScientificStopLoss(
+          symbol,
+          side,
+          currentPrice,
+          stopLossConfig,
+          "1h"
+        );
+        
+        preCalculatedStopLoss = stopLossResult.stopLossPrice;
+        stopLossDistancePercent = stopLossResult.stopLossDistancePercent;
+        stopLossQualityScore = stopLossResult.qualityScore;
+        stopLossMethod = stopLossResult.method;
+        
+        // 获取策略配置的止损距离范围
+        const minDistance = strategyParams.scientificStopLoss?.minDistance || 0.5;
+        const maxDistance = strategyParams.scientificStopLoss?.maxDistance || 5.0;
+        
+        logger.info(`✅ 科学止损预计算完成:`);
+        logger.info(`   计划入场价: ${currentPrice.toFixed(2)}`);
+        logger.info(`   计算止损价: ${preCalculatedStopLoss.toFixed(2)}`);
+        logger.info(`   止损距离: ${stopLossDistancePercent.toFixed(2)}%`);
+        logger.info(`   计算方法: ${stopLossMethod}`);
+        logger.info(`   质量评分: ${stopLossQualityScore}/100`);
+        logger.info(`   配置范围: ${minDistance}% ~ ${maxDistance}%`);
+        
+        // 🔴 严格验证：止损距离必须在配置范围内
+        if (stopLossDistancePercent < minDistance) {
+          return {
+            success: false,
+            message: `❌ 拒绝开仓: 止损距离 ${stopLossDistancePercent.toFixed(2)}% < 最小要求 ${minDistance}%\n` +
+                     `   计算止损价: ${preCalculatedStopLoss.toFixed(2)}\n` +
+                     `   当前价格: ${currentPrice.toFixed(2)}\n` +
+                     `   原因: 止损过近，容易被正常波动误触发\n` +
+                     `   建议: 等待更好的入场时机，或调整策略参数`,
+          };
+        }
+        
+        if (stopLossDistancePercent > maxDistance) {
+          return {
+            success: false,
+            message: `❌ 拒绝开仓: 止损距离 ${stopLossDistancePercent.toFixed(2)}% > 最大允许 ${maxDistance}%\n` +
+                     `   计算止损价: ${preCalculatedStopLoss.toFixed(2)}\n` +
+                     `   当前价格: ${currentPrice.toFixed(2)}\n` +
+                     `   原因: 止损过远，单笔风险过大\n` +
+                     `   建议: 等待市场波动降低，或降低杠杆倍数`,
+          };
+        }
+        
+        logger.info(`✅ 止损距离验证通过: ${stopLossDistancePercent.toFixed(2)}% 在 [${minDistance}%, ${maxDistance}%] 范围内`);
+        logger.info(`📊 步骤2: 止损验证通过，继续开仓流程...`);
+        
+      } catch (error: any) {
+        logger.error(`❌ 计算科学止损失败: ${error.message}`);
+        return {
+          success: false,
+          message: `❌ 拒绝开仓: 无法计算有效的止损位\n` +
+                   `   错误: ${error.message}\n` +
+                   `   建议: 检查市场数据是否正常，或稍后重试`,
+        };
+      }
+    } else {
+      // 如果未启用科学止损，使用传统的固定百分比验证
+      logger.warn(`⚠️  科学止损系统未启用，将使用传统固定百分比验证`);
+      const minDistance = strategyParams.scientificStopLoss?.minDistance || 0.5;
+      const maxDistance = strategyParams.scientificStopLoss?.maxDistance || 5.0;
+      
+      // 使用策略配置的默认止损距离（通常为2-3%）
+      const defaultStopLossPercent = (minDistance + maxDistance) / 2;
+      stopLossDistancePercent = defaultStopLossPercent;
+      
+      preCalculatedStopLoss = side === "long"
+        ? currentPrice * (1 - defaultStopLossPercent / 100)
+        : currentPrice * (1 + defaultStopLossPercent / 100);
+      
+      logger.info(`使用默认止损距离: ${defaultStopLossPercent.toFixed(2)}%`);
+    }
+    
+    // ====== 止损验证通过，继续开仓 ======
+    
+    // 设置杠杆（使用调整后的杠杆）
+    await exchangeClient.setLeverage(contract, adjustedLeverage);
+    
+    // 重新获取合约信息
+    const contractInfo = await exchangeClient.getContractInfo(contract);
+    
+    // 🔧 使用交易所特定的计算方法
+    // Gate.io (反向合约): 张数 = (保证金 * 杠杆) / (quantoMultiplier * 价格)
+    // Binance (正向合约): 数量(币) = (保证金 * 杠杆) / 价格
+    let quantity = await exchangeClient.calculateQuantity(
+      adjustedAmountUsdt,
+      currentPrice,
+      adjustedLeverage,
+      contract
+    );
+    
+    const minSize = contractInfo.orderSizeMin || 1;
+    const maxSize = contractInfo.orderSizeMax || 1000000;
+    
+    // 确保数量在允许范围内
+    quantity = Math.max(quantity, minSize);
+    quantity = Math.min(quantity, maxSize);
+    
+    // ====== 滑点检查：按订单簿逐档估算市价单滑点，超过策略上限时缩减仓位或拒绝开仓 ======
+    try {
+      const liquidity = await getLiquidityProfile(dbClient, exchangeClient, symbol);
+      const slippageCheck = evaluateEntrySlippage(liquidity, side, quantity, strategyParams.maxEntrySlippage, minSize);
+      
+      if (slippageCheck.action === "reject") {
+        logger.warn(`💧 滑点检查拒绝开仓 ${symbol} ${side}: ${slippageCheck.reason}`);
+        return {
+          success: false,
+          message: `❌ 拒绝开仓: 流动性不足（${slippageCheck.reason}）\n` +
+                   `   价差: ${liquidity.spreadPercent.toFixed(4)}%，±1%深度: 买 ${liquidity.bidDepth1.toFixed(0)} / 卖 ${liquidity.askDepth1.toFixed(0)} USDT\n` +
+                   `   建议: 降低开仓金额，或选择流动性更好的币种`,
+        };
+      }
+      
+      if (slippageCheck.action === "reduce") {
+        // 按比例缩减保证金后用交易所方法重新计算数量（保证数量精度符合交易所要求）
+        const ratio = slippageCheck.quantity / quantity;
+        const reducedAmountUsdt = adjustedAmountUsdt * ratio;
+        const reducedQuantity = Math.min(
+          await exchangeClient.calculateQuantity(reducedAmountUsdt, currentPrice, adjustedLeverage, contract),
+          slippageCheck.quantity,
+        );
+        logger.info(`💧 滑点缩减仓位 ${symbol}: ${quantity} → ${reducedQuantity}（${slippageCheck.reason}）`);
+        quantity = reducedQuantity;
+        adjustedAmountUsdt = reducedAmountUsdt;
+      } else {
+        logger.info(`💧 滑点检查通过 ${symbol}: ${slippageCheck.reason}`);
+      }
+    } catch (error) {
+      logger.warn(`获取订单簿流动性失败，跳过滑点检查: ${error}`);
+      // 如果无法获取订单簿，发出警告但继续
+    }
+    
+    let size = side === "long" ? quantity : -quantity;
+    
+    // 最后验证：如果 size 为 0 或者太小，放弃开仓
+    if (Math.abs(size) < minSize) {
+      return {
+        success: false,
+        message: `计算的数量 ${Math.abs(size)} 小于最小限制 ${minSize}，需要更多保证金（当前${adjustedAmountUsdt.toFixed(2)} USDT，杠杆${adjustedLeverage}x）`,
+      };
+    }
+    
+    // 计算实际使用的保证金（使用交易所方法重新计算）
+    const contractType = exchangeClient.getContractType();
+    let actualMargin: number;
+    
+    if (contractType === 'inverse') {
+      // Gate.io: 保证金 = (张数 * quantoMultiplier * 价格) / 杠杆
+      const quantoMultiplier = await getQuantoMultiplier(contract);
+      actualMargin = (Math.abs(size) * quantoMultiplier * currentPrice) / adjustedLeverage;
+    } else {
+      // Binance: 保证金 = (数量 * 价格) / 杠杆
+      actualMargin = (Math.abs(size) * currentPrice) / adjustedLeverage;
+    }
+    
+    const unitName = contractType === 'inverse' ? '张' : symbol;
+    logger.info(`开仓 ${symbol} ${side === "long" ? "做多" : "做空"} ${Math.abs(size)}${unitName} (杠杆${adjustedLeverage}x)`);
+    
+    // 📝 下单前记录开仓意图，进程中断后启动时据此与交易所持仓对账
+    const intentId = await recordOperationIntent(dbClient, {
+      operation: "open_position",
+      symbol,
+      side,
+      payload: {
+        contract,
+        size,
+        plannedPrice: currentPrice,
+        leverage,
+        marketState: marketState || null,
+        strategyType: strategyType || null,
+        signalStrength: signalStrength ?? null,
+        opportunityScore: opportunityScore ?? null,
+        fencingToken: positionLock.lease.fencingToken,
+      },
+    });
+    
+    // 按策略的开仓方式下单（市价 / 限价 / 只做Maker），限价挂单超时或价格不利偏离时剩余数量转市价
+    const entryConfig = resolveEntryExecutionConfig(strategyParams.entryExecution);
+    let execution: EntryExecutionResult;
+    try {
+      execution = await executeEntry(exchangeClient, {
+        contract,
+        side,
+        quantity: Math.abs(size),
+        referencePrice: currentPrice,
+        minSize,
+        config: entryConfig,
+      }, {
+        beforeOrder: () => positionLock.verify(),
+        // 限价挂单记录全部子订单ID，中断后启动修复时撤销残留挂单
+        onOrderPlaced: (_orderId, orderIds) => markOperationIntentSubmitted(
+          dbClient, intentId, orderIds[0], entryConfig.mode === "market" ? {} : { entryOrderIds: orderIds }
+        ),
+      });
+    } catch (orderError: any) {
+      await markOperationIntentFailed(dbClient, intentId, `下单失败: ${orderError.message}`);
+      throw orderError;
+    }
+    
+    // 如果订单未成交，返回失败
+    if (execution.filledQuantity <= 0) {
+      const reason = execution.fallbackReason ? `，${FALLBACK_REASON_LABELS[execution.fallbackReason]}` : "";
+      await markOperationIntentFailed(dbClient, intentId, `订单未成交${reason}`);
+      return {
+        success: false,
+        message: `开仓失败：订单未成交${reason}（订单ID: ${execution.orderIds.join(", ") || "无"}）`,
+      };
+    }
+    
+    //  使用实际成交数量和成交均价（限价开仓可能分多笔子订单成交）
+    const finalOrderStatus = execution.status;
+    const actualFillSize = execution.filledQuantity;
+    const actualFillPrice = execution.averagePrice;
+    const entryOrderId = execution.fills[0]?.orderId || execution.orderIds[0] || "";
+    
+    const unit = contractType === 'inverse' ? '张' : symbol;
+    logger.info(`成交: ${actualFillSize.toFixed(6)}${unit} @ ${actualFillPrice.toFixed(2)} USDT`);
+    
+    //  验证成交价格的合理性（滑点保护）
+    const priceDeviation = Math.abs(actualFillPrice - currentPrice) / currentPrice;
+    if (priceDeviation > 0.02) {
+      // 滑点超过2%，拒绝此次交易（回滚）
+      logger.error(`❌ 成交价偏离超过2%: ${currentPrice.toFixed(2)} → ${actualFillPrice.toFixed(2)} (偏离 ${(priceDeviation * 100).toFixed(2)}%)，拒绝交易`);
+      
+      // 按实际成交数量平仓回滚
+      try {
+        await exchangeClient.placeOrder({
+          contract,
+          size: side === "long" ? -actualFillSize : actualFillSize,
+          price: 0,
+          reduceOnly: true,
+        });
+        logger.info(`已回滚交易`);
+        await markOperationIntentFailed(dbClient, intentId, "成交价偏离超过2%，已平仓回滚");
+      } catch (rollbackError: any) {
+        logger.error(`回滚失败: ${rollbackError.message}，请手动处理`);
+      }
+      
+      return {
+        success: false,
+        message: `开仓失败：成交价偏离超过2% (${currentPrice.toFixed(2)} → ${actualFillPrice.toFixed(2)})，已拒绝交易`,
+      };
+    }
+    
+    const finalQuantity = actualFillSize;
+    if (finalQuantity < Math.abs(size)) {
+      // 部分成交：按实际成交数量记录持仓，保证金按比例折算
+      logger.warn(`⚠️ ${symbol} 部分成交: ${finalQuantity}/${Math.abs(size)}${unit}，按实际成交数量记录持仓`);
+      actualMargin = actualMargin * finalQuantity / Math.abs(size);
+    }
+    
+    // 🔧 获取手续费：逐笔子订单匹配交易所成交记录，找不到时按 Maker/Taker 费率估算
+    const quantoMultiplier = await getQuantoMultiplier(contract);
+    const fee = await attachEntryFees(exchangeClient, contract, execution, quantoMultiplier);
+    logger.info(`开仓手续费: ${fee.toFixed(8)} USDT（Maker ${execution.makerQuantity} / Taker ${execution.takerQuantity}）`);
+    
+    // 记录开仓交易
+    // side: 持仓方向（long=做多, short=做空）
+    // 实际执行: long开仓=买入(+size), short开仓=卖出(-size)
+    // 市价单读取时仍未完成记为 pending
+    // 开仓成交记录与持仓、条件单在同一个事务中写入
+    const dbStatus = finalOrderStatus;
+    await updateOperationIntent(dbClient, intentId, {
+      fillPrice: actualFillPrice,
+      quantity: finalQuantity,
+      fee,
+      orderStatus: dbStatus,
+    });
+    
+    // 🆕 分析并记录开仓时的市场状态
+    let entryMarketState: string | undefined;
+    try {
+      logger.debug(`📊 分析开仓时的市场状态...`);
+      const stateAnalysis = await analyzeMarketState(symbol);
+      entryMarketState = stateAnalysis.state;
+      logger.info(`✅ 开仓时市场状态: ${entryMarketState}`);
+    } catch (e) {
+      logger.warn(`⚠️  无法分析开仓时的市场状态: ${e}`);
+    }
+    // 限价开仓记录执行结果（Maker/Taker 成交数量、重挂次数、转市价原因），用于评估手续费优化效果
+    const entryExecutionInfo = execution.mode === "market" ? null : {
+      mode: execution.mode,
+      makerQuantity: execution.makerQuantity,
+      takerQuantity: execution.takerQuantity,
+      repriceCount: execution.repriceCount,
+      fallbackReason: execution.fallbackReason,
+    };
+    const entryMetadata = entryMarketState || entryExecutionInfo
+      ? JSON.stringify({
+          ...(entryMarketState ? { marketState: entryMarketState, entryTime: nowMs() } : {}),
+          ...(entryExecutionInfo ? { entryExecution: entryExecutionInfo } : {}),
+        })
+      : null;
+    
+    // ✨ 科学止损：开仓后自动设置止损单
+    // 🔴 使用预计算的止损价格，并根据实际成交价格微调
+    let slOrderId: string | undefined;
+    let tpOrderId: string | undefined;
+    let calculatedStopLoss: number | null = null;
+    let calculatedTakeProfit: number | null = null;
+    
+    // 🔧 关键修复: 先创建临时持仓记录，避免健康检查误判条件单为孤儿单
+    // 稍后会更新完整的持仓信息（包含强平价等）
+    logger.debug(`📝 预先创建持仓记录，避免条件单被误判为孤儿单...`);
+    const tempLiquidationPrice = side === "long" 
+      ? actualFillPrice * (1 - 0.9 / leverage)
+      : actualFillPrice * (1 + 0.9 / leverage);
+    
+    if (RISK_PARAMS.ENABLE_SCIENTIFIC_STOP_LOSS && preCalculatedStopLoss) {
+      try {
+        logger.info(`📊 步骤3: 根据实际成交价格调整止损止盈...`);
+        
+        // 🔴 关键逻辑：根据实际成交价格调整预计算的止损位
+        // 保持止损距离百分比不变，但使用实际成交价格重新计算
+        const priceDifference = actualFillPrice - currentPrice;
+        const priceDeviationPercent = Math.abs(priceDifference / currentPrice) * 100;
+        
+        if (priceDeviationPercent > 0.1) {
+          // 如果实际成交价格偏离超过0.1%，重新计算止损价格
+          logger.info(`实际成交价 ${actualFillPrice.toFixed(2)} 偏离计划价 ${currentPrice.toFixed(2)}，调整止损位...`);
+          
+          // 按相同的距离百分比计算新的止损价格
+          calculatedStopLoss = formatPriceNumber(side === "long"
+            ? actualFillPrice * (1 - stopLossDistancePercent / 100)
+            : actualFillPrice * (1 + stopLossDistancePercent / 100));
+        } else {
+          // 成交价格基本符合预期，使用预计算的止损位
+          calculatedStopLoss = preCalculatedStopLoss;
+        }
+        
+        // 计算止盈位（基于止损距离）
+        const stopLossDistance = Math.abs(actualFillPrice - calculatedStopLoss);
+        
+        // 获取策略配置的极端止盈倍数
+        const extremeRMultiple = strategyParams.partialTakeProfit?.extremeTakeProfit?.rMultiple || 5;
+        
+        calculatedTakeProfit = formatPriceNumber(side === "long"
+          ? actualFillPrice + stopLossDistance * extremeRMultiple
+          : actualFillPrice - stopLossDistance * extremeRMultiple);
+        
+        // 提取币种符号用于价格格式化
+        const symbolName = symbol.replace(/_USDT$/, '').replace(/USDT$/, '');
+        
+        // 计算各阶段R-multiple目标价格（用于日志展示）
+        const stage1Price = side === "long"
+          ? actualFillPrice + stopLossDistance * (strategyParams.partialTakeProfit?.stage1?.rMultiple || 1)
+          : actualFillPrice - stopLossDistance * (strategyParams.partialTakeProfit?.stage1?.rMultiple || 1);
+        const stage2Price = side === "long"
+          ? actualFillPrice + stopLossDistance * (strategyParams.partialTakeProfit?.stage2?.rMultiple || 2)
+          : actualFillPrice - stopLossDistance * (strategyParams.partialTakeProfit?.stage2?.rMultiple || 2);
+        const stage3Price = side === "long"
+          ? actualFillPrice + stopLossDistance * (strategyParams.partialTakeProfit?.stage3?.rMultiple || 3)
+          : actualFillPrice - stopLossDistance * (strategyParams.partialTakeProfit?.stage3?.rMultiple || 3);
+        
+        logger.info(`✅ 止损止盈价格计算完成:`);
+        logger.info(`   实际入场价: ${formatStopLossPrice(symbolName, actualFillPrice)}`);
+        logger.info(`   止损价: ${formatStopLossPrice(symbolName, calculatedStopLoss)} (${stopLossDistancePercent.toFixed(2)}% 价格距离)`);
+        logger.info(`   实际亏损: ${stopLossDistancePercent.toFixed(2)}% × ${adjustedLeverage}x杠杆 = ${(stopLossDistancePercent * adjustedLeverage).toFixed(2)}%`);
+        logger.info(`   风险距离 R = ${stopLossDistance.toFixed(2)} (${stopLossDistancePercent.toFixed(2)}%)`);
+        logger.info(``);
+        logger.info(`📊 分批止盈策略（基于风险倍数）:`);
+        logger.info(`   Stage1 (${strategyParams.partialTakeProfit?.stage1?.rMultiple || 1}R): ${formatStopLossPrice(symbolName, stage1Price)} - ${strategyParams.partialTakeProfit?.stage1?.description || '首次止盈'}`);
+        logger.info(`   Stage2 (${strategyParams.partialTakeProfit?.stage2?.rMultiple || 2}R): ${formatStopLossPrice(symbolName, stage2Price)} - ${strategyParams.partialTakeProfit?.stage2?.description || '二次止盈'}`);
+        logger.info(`   Stage3 (${strategyParams.partialTakeProfit?.stage3?.rMultiple || 3}R): ${formatStopLossPrice(symbolName, stage3Price)} - ${strategyParams.partialTakeProfit?.stage3?.description || '移动止损'}`);
+        logger.info(`   极端止盈 (${extremeRMultiple}R): ${formatStopLossPrice(symbolName, calculatedTakeProfit!)} - ${strategyParams.partialTakeProfit?.extremeTakeProfit?.description || '极限兜底保护'}`);
+        logger.info(`   ⚠️  分批止盈由AI系统自动管理，极端止盈(${extremeRMultiple}R)仅作为最后防线`);
+
+        
+        // 设置止损止盈订单（先记录计划价格：挂单结果未知时启动修复会撤销后重新挂单）
+        await updateOperationIntent(dbClient, intentId, {
+          stopLoss: calculatedStopLoss,
+          takeProfit: calculatedTakeProfit,
+          metadata: entryMetadata,
+        });
+        const setStopLossResult = await exchangeClient.setPositionStopLoss(
+          contract,
+          calculatedStopLoss,
+          calculatedTakeProfit
+        );
+        
+        if (setStopLossResult.success) {
+          slOrderId = setStopLossResult.stopLossOrderId;
+          tpOrderId = setStopLossResult.takeProfitOrderId;
+          
+          // 使用交易所返回的实际价格（可能被调整过）
+          const actualStopLoss = setStopLossResult.actualStopLoss || calculatedStopLoss;
+          const actualTakeProfit = setStopLossResult.actualTakeProfit || calculatedTakeProfit;
+          
+          // 如果价格被调整，记录日志
+          if (actualStopLoss !== calculatedStopLoss) {
+            logger.info(`⚠️  止损价格已由交易所调整: ${formatStopLossPrice(symbolName, calculatedStopLoss)} → ${formatStopLossPrice(symbolName, actualStopLoss)}`);
+          }
+          if (actualTakeProfit !== calculatedTakeProfit) {
+            logger.info(`⚠️  止盈价格已由交易所调整: ${formatStopLossPrice(symbolName, calculatedTakeProfit)} → ${formatStopLossPrice(symbolName, actualTakeProfit)}`);
+          }
+          
+          logger.info(`✅ 止损止盈订单已设置 (止损单ID: ${slOrderId}, 止盈单ID: ${tpOrderId})`);
+          
+          // 🔧 关键修复: 先保存条件单ID，稍后与持仓一起写入数据库
+          // 这样可以确保持仓记录先写入，避免健康检查误判为孤儿单
+          await updateOperationIntent(dbClient, intentId, {
+            slOrderId: slOrderId || null,
+            tpOrderId: tpOrderId || null,
+          });
+        } else {
+          logger.warn(`⚠️  设置止损止盈订单失败: ${setStopLossResult.message}`);
+        }
+        
+      } catch (error: any) {
+        logger.error(`❌ 科学止损设置失败: ${error.message}`);
+        logger.warn(`将不设置止损单，请手动管理风险`);
+      }
+    } else {
+      logger.info(`科学止损系统未启用，不设置止损单`);
+    }
+    
+    //  获取持仓信息以获取 Gate.io 返回的强平价
+    // Gate.io API 有延迟，需要等待并重试
+    let liquidationPrice = 0;
+    let gatePositionSize = 0;
+    let maxRetries = 5;
+    let retryCount = 0;
+    
+    while (retryCount < maxRetries) {
+      try {
+        await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1))); // 递增等待时间
+        
+        const positions = await exchangeClient.getPositions();
+        
+        const gatePosition = positions.find((p: any) => p.contract === contract);
+        if (gatePosition) {
+          gatePositionSize = parsePositionSize(gatePosition.size);
+          
+          if (gatePositionSize !== 0) {
+            if (gatePosition.liqPrice) {
+              liquidationPrice = Number.parseFloat(gatePosition.liqPrice);
+            }
+            break; // 持仓已存在，跳出循环
+          }
+        }
+        
+        retryCount++;
+        
+        if (retryCount >= maxRetries) {
+          logger.error(`❌ 警告：Gate.io 查询显示持仓为0，但订单状态为 ${finalOrderStatus}`);
+          logger.error(`订单ID: ${entryOrderId}, 成交数量: ${actualFillSize}, 计算数量: ${finalQuantity}`);
+          logger.error(`可能原因：Gate.io API 延迟或持仓需要更长时间更新`);
+        }
+      } catch (error) {
+        logger.warn(`获取持仓失败（重试${retryCount + 1}/${maxRetries}）: ${error}`);
+        retryCount++;
+      }
+    }
+    
+    // 如果未能从 Gate.io 获取强平价，使用估算公式（仅作为后备）
+    if (liquidationPrice === 0) {
+      liquidationPrice = side === "long" 
+        ? actualFillPrice * (1 - 0.9 / leverage)
+        : actualFillPrice * (1 + 0.9 / leverage);
+      logger.warn(`使用估算强平价: ${liquidationPrice}`);
+    }
+      
+    // 🔧 关键修复: 使用事务确保成交、持仓和条件单记录的原子性写入
+    // 这样可以避免健康检查在中间时刻误判为孤儿单
+    logger.debug(`📝 开始事务: 插入持仓记录并保存条件单...`);
+    
+    const nowTimestamp = getChinaTimeISO();
+    const positionOrderId = entryOrderId;
+    
+    try {
+      await commitOperationIntent(dbClient, intentId, buildOpenPositionStatements(getCurrentAccountId(), {
+        symbol,
+        side,
+        orderId: positionOrderId,
+        fillPrice: actualFillPrice, // 使用实际成交价格
+        quantity: finalQuantity,    // 使用实际成交数量
+        leverage,
+        fee,
+        tradeStatus: dbStatus,
+        liquidationPrice,
+        stopLoss: calculatedStopLoss || null,
+        takeProfit: calculatedTakeProfit || null,
+        slOrderId: slOrderId || null,
+        tpOrderId: tpOrderId || null,
+        marketState: marketState || null,
+        strategyType: strategyType || null,
+        signalStrength: signalStrength || null,
+        opportunityScore: opportunityScore || null,
+        metadata: entryMetadata,
+        timestamp: nowTimestamp,
+        fills: execution.fills.map(fill => ({ orderId: fill.orderId, price: fill.price, quantity: fill.quantity, fee: fill.fee ?? 0 })),
+      }));
+      logger.info(`✅ [事务] 成交、持仓和条件单记录已原子性提交到数据库`);
+      
+    } catch (dbError: any) {
+      // 事务已整体回滚，开仓意图保持 submitted，下次启动时按交易所持仓补写
+      logger.error(`❌ [事务] 数据库操作失败，已回滚: ${dbError.message}`);
+      
+      // 记录不一致状态
+      try {
+        await dbClient.execute({
+          sql: `INSERT INTO inconsistent_states 
+                (account_id, operation, symbol, side, exchange_success, db_success, error_message, created_at, resolved)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          args: [
+            getCurrentAccountId(),
+            'open_position_and_orders',
+            symbol,
+            side,
+            1, // 交易所操作成功（持仓和条件单已创建）
+            0, // 数据库操作失败
+            dbError.message,
+            nowTimestamp,
+            0
+          ]
+        });
+        logger.warn(`⚠️  已记录不一致状态，等待系统自动修复`);
+      } catch (e) {
+        logger.error('记录不一致状态失败:', e);
+      }
+    }
+    
+    // 🔧 计算合约数量和总价值
+    let contractAmount: number;
+    let totalValue: number;
+    
+    if (contractType === 'inverse') {
+      // Gate.io: 实际币数量 = 张数 * quantoMultiplier
+      const quantoMultiplier = await getQuantoMultiplier(contract);
+      contractAmount = finalQuantity * quantoMultiplier;
+      totalValue = contractAmount * actualFillPrice;
+    } else {
+      // Binance: 数量就是币的数量
+      contractAmount = finalQuantity;
+      totalValue = contractAmount * actualFillPrice;
+    }
+    
+    const returnMessage = `✅ 成功开仓 ${symbol} ${side === "long" ? "做多" : "做空"} ${finalQuantity} 张 (${contractAmount.toFixed(4)} ${symbol})，成交价 ${actualFillPrice.toFixed(2)}，保证金 ${actualMargin.toFixed(2)} USDT，杠杆 ${leverage}x。${
+      marketState || strategyType 
+        ? `\n📊 策略信息: ${strategyType ? `策略=${strategyType}` : ''}${marketState ? `, 市场状态=${marketState}` : ''}${signalStrength !== undefined ? `, 信号强度=${(signalStrength * 100).toFixed(0)}%` : ''}${opportunityScore !== undefined ? `, 机会评分=${opportunityScore.toFixed(0)}/100` : ''}` 
+        : ''
+    }\n⚠️ 未设置止盈止损，请在每个周期主动决策是否平仓。`;
+    
+    // 记录策略信息到日志
+    if (marketState || strategyType) {
+      logger.info(`📊 开仓策略信息: symbol=${symbol}, strategy=${strategyType || 'N/A'}, market_state=${marketState || 'N/A'}, signal_strength=${signalStrength?.toFixed(2) || 'N/A'}, opportunity_score=${opportunityScore?.toFixed(0) || 'N/A'}`);
+    }
+    
+    // 📧 发送开仓提醒（按通知路由分发到各渠道）
+    try {
+      const { notifyTrade } = await import("../notifications/index.js");
+      await notifyTrade({
+        type: 'open',
+        symbol,
+        side,
+        quantity: finalQuantity,
+        price: actualFillPrice,
+        leverage: adjustedLeverage,
+        margin: actualMargin,
+        stopLoss: calculatedStopLoss || undefined,
+        takeProfit: calculatedTakeProfit || undefined,
+        liquidationPrice,
+        marketState,
+        strategyType,
+        opportunityScore,
+        orderId: entryOrderId,
+        timestamp: nowTimestamp,
+      });
+    } catch (notifyError: any) {
+      logger.warn(`发送开仓提醒失败: ${notifyError.message}`);
+    }
+    
+    return {
+      success: true,
+      orderId: entryOrderId,
+      symbol,
+      side,
+      size: finalQuantity, // 数量（Gate.io=张数, Binance=币数量）
+      contractAmount, // 实际币的数量
+      price: actualFillPrice,
+      leverage: adjustedLeverage,
+      actualMargin,
+      message: returnMessage,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message,
+      message: `开仓失败: ${error.message}`,
+    };
+  } finally {
+    await positionLock.release();
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 持仓止损止盈更新服务
+ * updatePositionStopLoss 工具和控制接口共用：校验止损只能向降低风险的方向移动，替换交易所条件单并同步数据库
+ */
+import { createClient } from "@libsql/client";
+import { createLogger } from "../utils/logger";
+import { checkTradingSymbol } from "../config/riskParams";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { formatStopLossPrice } from "../utils/priceFormatter";
+
+const logger = createLogger({
+  name: "position-stop-loss",
+  level: "info",
+});
+
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
+/**
+ * 止损止盈更新参数（不传则取消对应的条件单）
+ */
+export interface UpdatePositionStopLossParams {
+  symbol: string;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+/**
+ * 止损止盈更新结果
+ */
+export interface UpdatePositionStopLossResult {
+  success: boolean;
+  message: string;
+  data?: {
+    symbol: string;
+    stopLoss?: number;
+    takeProfit?: number;
+    stopLossOrderId?: string;
+    takeProfitOrderId?: string;
+  };
+}
+
+/**
+ * 更新持仓的止损止盈订单
+ */
+export async function updatePositionStopLoss(params: UpdatePositionStopLossParams): Promise<UpdatePositionStopLossResult> {
+  const { symbol, stopLoss } = params;
+  // 未指定止盈时沿用现有止盈
+  let { takeProfit } = params;
+
+  const symbolError = checkTradingSymbol(symbol);
+  if (symbolError) {
+    return {
+      success: false,
+      message: symbolError,
+    };
+  }
+
+  try {
+    const { getExchangeClient } = await import("../exchanges/index.js");
+    const exchangeClient = getExchangeClient();
+    const contract = exchangeClient.normalizeContract(symbol);
+
+    // 获取当前持仓
+    const positions = await exchangeClient.getPositions();
+    const position = positions.find((p: any) => {
+      const posSymbol = exchangeClient.extractSymbol(p.contract);
+      return posSymbol === symbol;
+    });
+
+    if (!position || Math.abs(parseFloat(position.size)) === 0) {
+      return {
+        success: false,
+        message: `未找到 ${symbol} 的持仓，无法设置止损`,
+      };
+    }
+
+    // 🔥 关键保护：如果提供了新止损价，必须验证方向
+    if (stopLoss !== undefined) {
+      // 从数据库读取当前止损价
+      const result = await dbClient.execute({
+        sql: "SELECT stop_loss, side, entry_price FROM positions WHERE account_id = ? AND symbol = ?",
+        args: [getCurrentAccountId(), symbol],
+      });
+      
+      if (result.rows.length > 0) {
+        const currentStopLoss = result.rows[0].stop_loss ? Number(result.rows[0].stop_loss) : null;
+        const side = result.rows[0].side as 'long' | 'short';
+        const entryPrice = Number(result.rows[0].entry_price);
+        
+        // 如果已存在止损，验证移动方向
+        if (currentStopLoss && currentStopLoss > 0) {
+          const isValidMove = side === 'long' 
+            ? stopLoss > currentStopLoss  // 多单：新止损必须更高
+            : stopLoss < currentStopLoss; // 空单：新止损必须更低
+          
+          if (!isValidMove) {
+            const symbolName = symbol.replace(/_USDT$/, '').replace(/USDT$/, '');
+            logger.warn(`❌ 止损移动方向错误！${symbol} ${side}`, {
+              currentStopLoss: formatStopLossPrice(symbolName, currentStopLoss),
+              newStopLoss: formatStopLossPrice(symbolName, stopLoss),
+              direction: side === 'long' ? '多单只能上移' : '空单只能下移'
+            });
+            
+            return {
+              success: false,
+              message: `❌ 止损移动方向错误！${side === 'long' ? '多单' : '空单'}止损${side === 'long' ? '不能下移' : '不能上移'}（当前: ${formatStopLossPrice(symbolName, currentStopLoss)}, 新: ${formatStopLossPrice(symbolName, stopLoss)}）`,
+            };
+          }
+          
+          // 验证通过，记录日志
+          const improvement = Math.abs(stopLoss - currentStopLoss);
+          const improvementPercent = (improvement / currentStopLoss) * 100;
+          const symbolName = symbol.replace(/_USDT$/, '').replace(/USDT$/, '');
+          logger.info(`✅ 止损移动验证通过: ${symbol} ${side}`, {
+            old: formatStopLossPrice(symbolName, currentStopLoss),
+            new: formatStopLossPrice(symbolName, stopLoss),
+            improvement: `${improvementPercent.toFixed(2)}%`,
+            direction: side === 'long' ? '上移' : '下移'
+          });
+        }
+      }
+    }
+
+    // 🔧 如果没有传 takeProfit，从数据库读取原来的止盈价格，保持不变
+    if (takeProfit === undefined) {
+      try {
+        const result = await dbClient.execute({
+          sql: "SELECT profit_target FROM positions WHERE account_id = ? AND symbol = ?",
+          args: [getCurrentAccountId(), symbol],
+        });
+        
+        if (result.rows.length > 0 && result.rows[0].profit_target) {
+          takeProfit = Number(result.rows[0].profit_target);
+          logger.info(`📌 保留原止盈价格: ${symbol} = ${takeProfit}`);
+        }
+      } catch (error: any) {
+        logger.warn(`读取原止盈价格失败: ${error.message}`);
+      }
+    }
+
+    // 调用交易所接口设置止损止盈
+    const result = await exchangeClient.setPositionStopLoss(
+      contract,
+      stopLoss,
+      takeProfit
+    );
+
+    if (result.success) {
+      // 更新数据库中的持仓信息和条件单记录
+      try {
+        const now = new Date().toISOString();
+        const accountId = getCurrentAccountId();
+        
+        // 0. 获取 position_order_id（开仓订单ID）
+        let positionOrderId: string | null = null;
+        try {
+          // 0.1 首先尝试从旧的条件单中获取
+          const oldOrderResult = await dbClient.execute({
+            sql: `SELECT position_order_id FROM price_orders 
+                  WHERE account_id = ? AND symbol = ? AND status = 'active' AND position_order_id IS NOT NULL
+                  LIMIT 1`,
+            args: [accountId, symbol],
+          });
+          
+          if (oldOrderResult.rows.length > 0 && oldOrderResult.rows[0].position_order_id) {
+            positionOrderId = oldOrderResult.rows[0].position_order_id as string;
+            logger.info(`📎 从旧条件单获取到关联的开仓订单ID: ${positionOrderId}`);
+          } else {
+            // 0.2 从 positions 表获取 entry_order_id
+            const positionResult = await dbClient.execute({
+              sql: `SELECT entry_order_id FROM positions WHERE account_id = ? AND symbol = ? LIMIT 1`,
+              args: [accountId, symbol],
+            });
+            
+            if (positionResult.rows.length > 0 && positionResult.rows[0].entry_order_id) {
+              positionOrderId = positionResult.rows[0].entry_order_id as string;
+              logger.info(`📎 从 positions 表获取到关联的开仓订单ID: ${positionOrderId}`);
+            } else {
+              // 0.3 如果还是没有，从 trades 表查找该币种的开仓订单
+              const tradeResult = await dbClient.execute({
+                sql: `SELECT order_id FROM trades 
+                      WHERE account_id = ? AND symbol = ? AND type = 'open' AND status = 'filled'
+                      ORDER BY id DESC LIMIT 1`,
+                args: [accountId, symbol],
+              });
+              
+              if (tradeResult.rows.length > 0 && tradeResult.rows[0].order_id) {
+                positionOrderId = tradeResult.rows[0].order_id as string;
+                logger.info(`📎 从 trades 表获取到开仓订单ID: ${positionOrderId}`);
+              } else {
+                logger.warn(`⚠️ 未找到 ${symbol} 的开仓订单ID，条件单将不关联持仓`);
+              }
+            }
+          }
+        } catch (error: any) {
+          logger.warn(`获取开仓订单ID失败: ${error.message}`);
+        }
+        
+        // 1. 标记旧的条件单为已取消（如果存在）
+        await dbClient.execute({
+          sql: `UPDATE price_orders 
+                SET status = 'cancelled', updated_at = ?
+                WHERE account_id = ? AND symbol = ? AND status = 'active'`,
+          args: [now, accountId, symbol],
+        });
+        
+        // 2. 插入新的条件单记录（如果有 positionOrderId，则保持关联）
+        if (result.stopLossOrderId && stopLoss) {
+          await dbClient.execute({
+            sql: `INSERT INTO price_orders 
+                  (account_id, order_id, symbol, side, type, trigger_price, order_price, quantity, status, created_at, position_order_id)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+              accountId,
+              result.stopLossOrderId,
+              symbol,
+              parseFloat(position.size) > 0 ? 'long' : 'short',
+              'stop_loss',
+              stopLoss,
+              0,
+              Math.abs(parseFloat(position.size)),
+              'active',
+              now,
+              positionOrderId  // 保持与原开仓订单的关联
+            ]
+          });
+        }
+        
+        if (result.takeProfitOrderId && takeProfit) {
+          await dbClient.execute({
+            sql: `INSERT INTO price_orders 
+                  (account_id, order_id, symbol, side, type, trigger_price, order_price, quantity, status, created_at, position_order_id)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+              accountId,
+              result.takeProfitOrderId,
+              symbol,
+              parseFloat(position.size) > 0 ? 'long' : 'short',
+              'take_profit',
+              takeProfit,
+              0,
+              Math.abs(parseFloat(position.size)),
+              'active',
+              now,
+              positionOrderId  // 保持与原开仓订单的关联
+            ]
+          });
+        }
+
+        // 3. 更新持仓表
+        await dbClient.execute({
+          sql: `UPDATE positions 
+                SET stop_loss = ?, profit_target = ?, sl_order_id = ?, tp_order_id = ?
+                WHERE account_id = ? AND symbol = ?`,
+          args: [
+            stopLoss || null,
+            takeProfit || null,
+            result.stopLossOrderId || null,
+            result.takeProfitOrderId || null,
+            accountId,
+            symbol,
+          ],
+        });
+
+        logger.info(`✅ 数据库已更新: ${symbol} 止损=${stopLoss || 'null'}, 止盈=${takeProfit || 'null'}, 订单ID=${result.stopLossOrderId}/${result.takeProfitOrderId}`);
+      } catch (dbError: any) {
+        logger.error(`更新数据库失败: ${dbError.message}`);
+        // 数据库更新失败不影响订单已设置的事实
+      }
+
+      return {
+        success: true,
+        data: {
+          symbol,
+          stopLoss,
+          takeProfit,
+          stopLossOrderId: result.stopLossOrderId,
+          takeProfitOrderId: result.takeProfitOrderId,
+        },
+        message: `✅ ${result.message}`,
+      };
+    } else {
+      return {
+        success: false,
+        message: `❌ ${result.message}`,
+      };
+    }
+  } catch (error: any) {
+    logger.error(`更新持仓止损失败: ${error.message}`);
+    return {
+      success: false,
+      message: `更新失败: ${error.message}`,
+    };
+  }
+}
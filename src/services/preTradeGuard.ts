@@ -0,0 +1,190 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 开仓前风控检查 - 在执行结构化决策前逐条校验操作
+ *
+ * 检查项：
+ * - 币种在交易列表中，同一币种每周期只允许一个操作，禁止同币种双向持仓
+ * - 杠杆在策略区间内且不超过 MAX_LEVERAGE，保证金占比在策略仓位区间内，累计保证金不超过可用余额
+ * - 持仓数不超过 MAX_POSITIONS（先处理平仓，腾出的仓位可用于本周期开仓）
+ * - 止损止盈在价格正确的一侧，止损距离在 MIN_STOP_LOSS_PERCENT ~ MAX_STOP_LOSS_PERCENT 之间
+ * - 开仓置信度不低于最低要求
+ */
+import type { RiskParams } from "../config/riskParams";
+import type { StrategyParams } from "../agents/tradingAgent";
+import type { TradeAction, TradingDecision } from "../agents/decisionSchema";
+
+// 与规则引擎一致：保留 5% 可用余额应对手续费和价格波动
+const AVAILABLE_BALANCE_RATIO = 0.95;
+// 仓位占比的容差（模型常把金额四舍五入）
+const SIZE_PERCENT_TOLERANCE = 0.5;
+
+/**
+ * 风控检查所需的上下文
+ */
+export interface PreTradeGuardContext {
+  riskParams: Pick<RiskParams, "TRADING_SYMBOLS" | "MAX_POSITIONS" | "MAX_LEVERAGE" | "MIN_STOP_LOSS_PERCENT" | "MAX_STOP_LOSS_PERCENT">;
+  strategyParams: Pick<StrategyParams, "name" | "leverageMin" | "leverageMax" | "positionSizeMin" | "positionSizeMax">;
+  accountInfo: {
+    totalBalance: number;
+    availableBalance: number;
+  };
+  positions: Array<{ symbol: string; side: string }>;
+  prices: Record<string, number>;   // 各币种最新价格
+  minConfidence: number;
+}
+
+/**
+ * 单个操作的检查结果
+ */
+export interface GuardedAction {
+  action: TradeAction;
+  approved: boolean;
+  reasons: string[];   // 拒绝原因（通过时为空）
+}
+
+export interface PreTradeGuardResult {
+  checks: GuardedAction[];          // 按执行顺序排列（平仓 → 调整止损 → 开仓 → 观望）
+  approved: TradeAction[];
+  rejected: GuardedAction[];
+}
+
+const EXECUTION_ORDER: Record<TradeAction["action"], number> = { close: 0, adjust: 1, open: 2, hold: 3 };
+
+/**
+ * 从环境变量读取开仓最低置信度
+ */
+export function getMinDecisionConfidence(): number {
+  return Number.parseFloat(process.env.STRUCTURED_DECISION_MIN_CONFIDENCE || "0.5");
+}
+
+/**
+ * 校验止损止盈方向和止损距离
+ */
+function checkStopAndTarget(
+  side: "long" | "short",
+  price: number | undefined,
+  stopLoss: number,
+  takeProfit: number,
+  riskParams: PreTradeGuardContext["riskParams"],
+): string[] {
+  if (!price || price <= 0) {
+    return ["缺少最新价格，无法校验止损止盈"];
+  }
+  const reasons: string[] = [];
+  const stopOnRightSide = side === "long" ? stopLoss < price : stopLoss > price;
+  const targetOnRightSide = side === "long" ? takeProfit > price : takeProfit < price;
+  if (!stopOnRightSide) {
+    reasons.push(`${side === "long" ? "多单止损应低于" : "空单止损应高于"}当前价 ${price}（止损 ${stopLoss}）`);
+  } else {
+    const distancePercent = Math.abs(price - stopLoss) / price * 100;
+    if (distancePercent < riskParams.MIN_STOP_LOSS_PERCENT || distancePercent > riskParams.MAX_STOP_LOSS_PERCENT) {
+      reasons.push(`止损距离 ${distancePercent.toFixed(2)}% 超出允许范围 ${riskParams.MIN_STOP_LOSS_PERCENT}-${riskParams.MAX_STOP_LOSS_PERCENT}%`);
+    }
+  }
+  if (!targetOnRightSide) {
+    reasons.push(`${side === "long" ? "多单止盈应高于" : "空单止盈应低于"}当前价 ${price}（止盈 ${takeProfit}）`);
+  }
+  return reasons;
+}
+
+/**
+ * 检查结构化决策，返回可执行和被拒绝的操作
+ */
+export function checkTradingDecision(decision: TradingDecision, context: PreTradeGuardContext): PreTradeGuardResult {
+  const { riskParams, strategyParams, accountInfo } = context;
+  const allowedSymbols = new Set<string>(riskParams.TRADING_SYMBOLS);
+  const positionSides = new Map(context.positions.map(p => [p.symbol, p.side as "long" | "short"]));
+  const maxLeverage = Math.min(strategyParams.leverageMax, riskParams.MAX_LEVERAGE);
+  const touchedSymbols = new Set<string>();
+  let openPositions = context.positions.length;
+  let remainingBalance = accountInfo.availableBalance * AVAILABLE_BALANCE_RATIO;
+
+  const ordered = [...decision.actions].sort((a, b) => EXECUTION_ORDER[a.action] - EXECUTION_ORDER[b.action]);
+  const checks: GuardedAction[] = [];
+
+  for (const action of ordered) {
+    const reasons: string[] = [];
+
+    if (action.action === "hold") {
+      checks.push({ action, approved: true, reasons });
+      continue;
+    }
+
+    if (!allowedSymbols.has(action.symbol)) {
+      reasons.push(`${action.symbol} 不在交易币种列表中`);
+    }
+    if (touchedSymbols.has(action.symbol)) {
+      reasons.push(`${action.symbol} 本周期已有其他操作`);
+    }
+
+    const heldSide = positionSides.get(action.symbol);
+    if (action.action === "close") {
+      if (!heldSide) {
+        reasons.push(`${action.symbol} 没有持仓`);
+      }
+    } else if (action.action === "adjust") {
+      if (!heldSide) {
+        reasons.push(`${action.symbol} 没有持仓`);
+      } else {
+        reasons.push(...checkStopAndTarget(heldSide, context.prices[action.symbol], action.stopLoss, action.takeProfit, riskParams));
+      }
+    } else {
+      if (heldSide) {
+        reasons.push(`${action.symbol} 已有${heldSide === "long" ? "多" : "空"}单持仓，禁止重复或双向开仓`);
+      }
+      if (openPositions >= riskParams.MAX_POSITIONS) {
+        reasons.push(`持仓数已达上限 ${riskParams.MAX_POSITIONS}`);
+      }
+      if (action.leverage < strategyParams.leverageMin || action.leverage > maxLeverage) {
+        reasons.push(`杠杆 ${action.leverage}x 超出${strategyParams.name}策略允许范围 ${strategyParams.leverageMin}-${maxLeverage}x`);
+      }
+      const sizePercent = accountInfo.totalBalance > 0 ? action.sizeUsdt / accountInfo.totalBalance * 100 : Number.POSITIVE_INFINITY;
+      if (sizePercent < strategyParams.positionSizeMin - SIZE_PERCENT_TOLERANCE || sizePercent > strategyParams.positionSizeMax + SIZE_PERCENT_TOLERANCE) {
+        reasons.push(`保证金占比 ${sizePercent.toFixed(1)}% 超出策略仓位范围 ${strategyParams.positionSizeMin}-${strategyParams.positionSizeMax}%`);
+      }
+      if (action.sizeUsdt > remainingBalance) {
+        reasons.push(`保证金 ${action.sizeUsdt} USDT 超过可用余额 ${remainingBalance.toFixed(2)} USDT`);
+      }
+      if (action.confidence < context.minConfidence) {
+        reasons.push(`置信度 ${action.confidence} 低于最低要求 ${context.minConfidence}`);
+      }
+      reasons.push(...checkStopAndTarget(action.side, context.prices[action.symbol], action.stopLoss, action.takeProfit, riskParams));
+    }
+
+    const approved = reasons.length === 0;
+    checks.push({ action, approved, reasons });
+    touchedSymbols.add(action.symbol);
+    if (!approved) {
+      continue;
+    }
+    if (action.action === "close" && action.percentage >= 100) {
+      openPositions--;
+    } else if (action.action === "open") {
+      openPositions++;
+      remainingBalance -= action.sizeUsdt;
+    }
+  }
+
+  return {
+    checks,
+    approved: checks.filter(c => c.approved).map(c => c.action),
+    rejected: checks.filter(c => !c.approved),
+  };
+}
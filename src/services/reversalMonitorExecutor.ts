@@ -17,7 +17,10 @@
 import { createClient } from "@libsql/client";
 import { createLogger } from "../utils/logger";
 import { getExchangeClient } from "../exchanges";
+import { getCurrentAccountId } from "../utils/accountContext";
 import { analyzeMarketState } from "./marketStateAnalyzer";
+import { recordPositionJournal } from "./positionJournal";
+import { verifyPositionLease, withPositionLock } from "./positionLock";
 
 const logger = createLogger({
   name: "reversal-executor",
@@ -29,108 +32,26 @@ const dbClient = createClient({
 });
 
 /**
- * 分布式锁管理器（复用 PartialTakeProfitExecutor 的设计）
+ * 检查最近是否有平仓记录（防止重复平仓）
+ * @param symbol 币种
+ * @param side 方向
+ * @param windowSeconds 时间窗口（秒）
  */
-class DistributedLock {
-  private static readonly LOCK_TIMEOUT_MS = 30000; // 30秒锁超时
-
-  /**
-   * 尝试获取锁
-   * @param key 锁的键（如 "reversal_close_BTC_USDT_long"）
-   * @param holder 锁持有者标识（如 "health-check", "reversal-monitor"）
-   * @returns true-获取成功, false-锁被占用
-   */
-  static async tryAcquire(key: string, holder: string): Promise<boolean> {
-    try {
-      // 检查是否已有锁
-      const checkResult = await dbClient.execute({
-        sql: 'SELECT value, updated_at FROM system_config WHERE key = ?',
-        args: [key]
-      });
-
-      if (checkResult.rows.length > 0) {
-        const lockValue = checkResult.rows[0].value as string;
-        const lockTime = new Date(checkResult.rows[0].updated_at as string).getTime();
-        const now = Date.now();
-        const lockAge = now - lockTime;
-
-        // 如果锁未过期，检查是否是自己持有的锁
-        if (lockAge < this.LOCK_TIMEOUT_MS) {
-          if (lockValue === holder) {
-            // 自己持有的锁，刷新时间
-            await dbClient.execute({
-              sql: 'UPDATE system_config SET updated_at = ? WHERE key = ?',
-              args: [new Date().toISOString(), key]
-            });
-            return true;
-          }
-          // 其他服务持有的锁
-          logger.debug(`锁 ${key} 被 ${lockValue} 持有，剩余 ${Math.ceil((this.LOCK_TIMEOUT_MS - lockAge) / 1000)}秒`);
-          return false;
-        }
-
-        // 锁已过期，可以抢占
-        logger.warn(`锁 ${key} 已过期(${lockValue})，强制获取`);
-      }
-
-      // 获取锁
-      await dbClient.execute({
-        sql: 'INSERT OR REPLACE INTO system_config (key, value, updated_at) VALUES (?, ?, ?)',
-        args: [key, holder, new Date().toISOString()]
-      });
-
-      logger.debug(`✅ ${holder} 获取锁: ${key}`);
-      return true;
-    } catch (error: any) {
-      logger.error(`获取锁失败: ${error.message}`);
-      return false;
-    }
-  }
-
-  /**
-   * 释放锁
-   */
-  static async release(key: string, holder: string): Promise<void> {
-    try {
-      const checkResult = await dbClient.execute({
-        sql: 'SELECT value FROM system_config WHERE key = ?',
-        args: [key]
-      });
-
-      if (checkResult.rows.length > 0 && checkResult.rows[0].value === holder) {
-        await dbClient.execute({
-          sql: 'DELETE FROM system_config WHERE key = ?',
-          args: [key]
-        });
-        logger.debug(`🔓 ${holder} 释放锁: ${key}`);
-      }
-    } catch (error: any) {
-      logger.error(`释放锁失败: ${error.message}`);
-    }
-  }
-
-  /**
-   * 检查最近是否有平仓记录（防止重复平仓）
-   * @param symbol 币种
-   * @param side 方向
-   * @param windowSeconds 时间窗口（秒）
-   */
-  static async hasRecentClose(symbol: string, side: string, windowSeconds: number = 30): Promise<boolean> {
-    try {
-      const cutoffTime = new Date(Date.now() - windowSeconds * 1000).toISOString();
-      
-      const result = await dbClient.execute({
-        sql: `SELECT COUNT(*) as count FROM position_close_events 
-              WHERE symbol = ? AND side = ? AND created_at > ? AND close_reason LIKE '%reversal%'`,
-        args: [symbol, side, cutoffTime]
-      });
-
-      const count = Number(result.rows[0]?.count || 0);
-      return count > 0;
-    } catch (error: any) {
-      logger.error(`检查平仓记录失败: ${error.message}`);
-      return false;
-    }
+async function hasRecentClose(symbol: string, side: string, windowSeconds: number = 30): Promise<boolean> {
+  try {
+    const cutoffTime = new Date(Date.now() - windowSeconds * 1000).toISOString();
+    
+    const result = await dbClient.execute({
+      sql: `SELECT COUNT(*) as count FROM position_close_events 
+            WHERE account_id = ? AND symbol = ? AND side = ? AND created_at > ? AND close_reason LIKE '%reversal%'`,
+      args: [getCurrentAccountId(), symbol, side, cutoffTime]
+    });
+
+    const count = Number(result.rows[0]?.count || 0);
+    return count > 0;
+  } catch (error: any) {
+    logger.error(`检查平仓记录失败: ${error.message}`);
+    return false;
   }
 }
 
@@ -164,7 +85,8 @@ export class ReversalMonitorExecutor {
     try {
       // 获取所有持仓
       const dbPositions = await dbClient.execute({
-        sql: 'SELECT symbol, side, entry_price, current_price, unrealized_pnl, quantity, leverage FROM positions WHERE quantity != 0'
+        sql: 'SELECT symbol, side, entry_price, current_price, unrealized_pnl, quantity, leverage, entry_order_id, metadata FROM positions WHERE account_id = ? AND quantity != 0',
+        args: [getCurrentAccountId()]
       });
 
       if (dbPositions.rows.length === 0) {
@@ -216,6 +138,24 @@ export class ReversalMonitorExecutor {
         if (reversalScore >= 30 && reversalScore < 70) {
           logger.warn(`⚠️ [${caller}] ${symbol} 早期反转预警 (${reversalScore.toFixed(0)}分)`);
           
+          // 首次预警或评分上升10分以上时写入持仓日志（每次检查都会重复预警，避免刷屏）
+          let previousWarning: any = {};
+          try {
+            previousWarning = pos.metadata ? JSON.parse(pos.metadata as string) : {};
+          } catch {
+            previousWarning = {};
+          }
+          if (pos.entry_order_id && (!previousWarning.reversalWarning || reversalScore >= (previousWarning.warningScore || 0) + 10)) {
+            await recordPositionJournal(dbClient, {
+              positionOrderId: pos.entry_order_id as string,
+              symbol,
+              side,
+              eventType: 'reversal_warning',
+              price: currentPrice,
+              details: { reversalScore, pnlPercent, caller },
+            });
+          }
+          
           // 更新持仓metadata（非锁字段，只是标记）
           await dbClient.execute({
             sql: `UPDATE positions SET metadata = json_set(
@@ -223,8 +163,8 @@ export class ReversalMonitorExecutor {
                     '$.reversalWarning', 1,
                     '$.warningScore', ?,
                     '$.warningTime', ?
-                  ) WHERE symbol = ? AND side = ?`,
-            args: [reversalScore, new Date().toISOString(), symbol, side]
+                  ) WHERE account_id = ? AND symbol = ? AND side = ?`,
+            args: [reversalScore, new Date().toISOString(), getCurrentAccountId(), symbol, side]
           });
 
           warnedCount++;
@@ -240,10 +180,8 @@ export class ReversalMonitorExecutor {
 
         // 🚨 紧急平仓（≥70分）
         if (reversalScore >= 70) {
-          const lockKey = `reversal_close_${symbol}_${side}`;
-          
           // 检查是否最近已平仓
-          const hasRecent = await DistributedLock.hasRecentClose(symbol, side, 30);
+          const hasRecent = await hasRecentClose(symbol, side, 30);
           if (hasRecent) {
             logger.debug(`${symbol} ${side} 最近30秒内已平仓，跳过`);
             skippedCount++;
@@ -257,28 +195,14 @@ export class ReversalMonitorExecutor {
             continue;
           }
 
-          // 尝试获取锁
-          const lockAcquired = await DistributedLock.tryAcquire(lockKey, caller);
-          if (!lockAcquired) {
-            logger.debug(`${symbol} ${side} 锁被占用，跳过`);
-            skippedCount++;
-            details.push({ 
-              symbol, 
-              side,
-              reversalScore, 
-              action: 'skipped', 
-              reason: 'lock_busy' 
-            });
-            continue;
-          }
-
-          try {
+          // 持有持仓锁执行（与平仓、条件单监控、分批止盈互斥）
+          const locked = await withPositionLock(dbClient, { symbol, side, purpose: "closing", owner: caller }, async (lease) => {
             logger.error(`🚨 [${caller}] ${symbol} ${side} 触发紧急平仓: score=${reversalScore.toFixed(0)}, pnl=${pnlPercent.toFixed(2)}%`);
 
             // 再次确认持仓仍存在（双重检查）
             const checkResult = await dbClient.execute({
-              sql: "SELECT * FROM positions WHERE symbol = ? AND side = ?",
-              args: [symbol, side]
+              sql: "SELECT * FROM positions WHERE account_id = ? AND symbol = ? AND side = ?",
+              args: [getCurrentAccountId(), symbol, side]
             });
 
             if (checkResult.rows.length === 0) {
@@ -291,7 +215,7 @@ export class ReversalMonitorExecutor {
                 action: 'skipped', 
                 reason: 'already_closed' 
               });
-              continue;
+              return;
             }
 
             // 调用平仓API（适配币安和gate.io）
@@ -301,6 +225,9 @@ export class ReversalMonitorExecutor {
             // 计算平仓数量（与持仓方向相反）
             const closeSize = side === 'long' ? -Math.abs(parseFloat(pos.quantity as string)) : Math.abs(parseFloat(pos.quantity as string));
             
+            // 下单前确认租约仍有效（防止租约过期被接管后重复平仓）
+            await verifyPositionLease(dbClient, lease);
+
             // 使用市价单减仓平仓
             await exchangeClient.placeOrder({
               contract,
@@ -313,13 +240,13 @@ export class ReversalMonitorExecutor {
             await dbClient.execute({
               sql: `
                 INSERT INTO position_close_events (
-                  symbol, side, close_reason, trigger_type,
+                  account_id, symbol, side, close_reason, trigger_type,
                   close_price, entry_price, quantity, leverage,
                   pnl, pnl_percent, created_at, processed
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
               `,
               args: [
-                symbol, side, `reversal_monitor_emergency_by_${caller}`, 'system_risk',
+                getCurrentAccountId(), symbol, side, `reversal_monitor_emergency_by_${caller}`, 'system_risk',
                 currentPrice, entryPrice, pos.quantity, pos.leverage,
                 pos.unrealized_pnl, pnlPercent, new Date().toISOString()
               ]
@@ -327,8 +254,8 @@ export class ReversalMonitorExecutor {
 
             // 从positions表删除
             await dbClient.execute({
-              sql: "DELETE FROM positions WHERE symbol = ? AND side = ?",
-              args: [symbol, side]
+              sql: "DELETE FROM positions WHERE account_id = ? AND symbol = ? AND side = ?",
+              args: [getCurrentAccountId(), symbol, side]
             });
 
             logger.info(`✅ [${caller}] ${symbol} ${side} 紧急平仓完成`);
@@ -340,10 +267,17 @@ export class ReversalMonitorExecutor {
               action: 'closed', 
               reason: 'emergency' 
             });
-
-          } finally {
-            // 释放锁（必须执行，即使发生异常）
-            await DistributedLock.release(lockKey, caller);
+          });
+          if (!locked.acquired) {
+            logger.debug(`${symbol} ${side} 持仓锁被 ${locked.holder ?? '其他操作'} 占用，跳过`);
+            skippedCount++;
+            details.push({ 
+              symbol, 
+              side,
+              reversalScore, 
+              action: 'skipped', 
+              reason: 'lock_busy' 
+            });
           }
         }
       }
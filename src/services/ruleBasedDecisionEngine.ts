@@ -0,0 +1,242 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 规则决策引擎 - 不调用 AI，直接执行策略路由器的信号
+ *
+ * 决策规则与精简版提示词中的【决策流程】保持一致：
+ * 1. 持仓管理：reversal≥70 立即全平；reversal 50-70 且盈利时平仓锁利；其余交给分批止盈执行器
+ * 2. 新开仓：analyze_opening_opportunities 评分达标 → checkOpenPosition 校验 → openPosition 执行
+ *
+ * 所有交易都通过与 AI 相同的工具（openPositionTool / closePositionTool 等）执行，
+ * 返回值模拟 Agent.generateText 的 steps 结构，便于交易循环复用决策记录逻辑。
+ */
+import { createLogger } from "../utils/logger";
+import { RISK_PARAMS } from "../config/riskParams";
+import { getStrategyParams, getTradingStrategy, getMinOpportunityScore } from "../agents/tradingAgent";
+import { analyzeMarketState } from "./marketStateAnalyzer";
+import { PartialTakeProfitExecutor } from "./partialTakeProfitExecutor";
+import { planRuleEntry } from "./ruleEntryPlanner";
+import {
+  openPositionTool,
+  closePositionTool,
+  checkOpenPositionTool,
+  analyzeOpeningOpportunitiesTool,
+} from "../tools/trading";
+
+const logger = createLogger({
+  name: "rule-decision",
+  level: "info",
+});
+
+/**
+ * 决策模式：ai = 调用 AI Agent（默认），rule = 规则引擎直接执行策略信号，
+ * structured = AI 返回结构化决策对象，经风控检查后由系统执行
+ */
+export type DecisionMode = "ai" | "rule" | "structured";
+
+/**
+ * 从环境变量读取决策模式
+ */
+export function getDecisionMode(): DecisionMode {
+  const mode = (process.env.DECISION_MODE || "ai").toLowerCase();
+  return mode === "rule" || mode === "structured" ? mode : "ai";
+}
+
+/**
+ * 规则引擎的一个执行步骤（结构与 Agent 响应的 step 一致）
+ */
+interface RuleDecisionStep {
+  text: string;
+  toolCalls: Array<{ toolCallId: string; toolName: string; args: any }>;
+  toolResults: Array<{ toolCallId: string; result: any }>;
+}
+
+/**
+ * 规则引擎响应（结构与 Agent.generateText 的返回值一致）
+ */
+export interface RuleDecisionResponse {
+  text: string;
+  steps: RuleDecisionStep[];
+}
+
+/**
+ * 规则引擎输入
+ */
+export interface RuleDecisionContext {
+  accountInfo: {
+    totalBalance: number;
+    availableBalance: number;
+  };
+  positions: Array<{
+    symbol: string;
+    side: string;
+    entry_price: number;
+    unrealized_pnl: number;
+    leverage: number;
+    margin?: number;
+  }>;
+}
+
+/**
+ * 执行规则决策
+ */
+export async function executeRuleBasedDecision(context: RuleDecisionContext): Promise<RuleDecisionResponse> {
+  const steps: RuleDecisionStep[] = [];
+  const summary: string[] = [];
+  let callSeq = 0;
+
+  // 调用工具并记录为一个决策步骤
+  const callTool = async (tool: any, args: any, text: string): Promise<any> => {
+    const toolCallId = `rule-${++callSeq}`;
+    let result: any;
+    try {
+      result = await tool.execute(args);
+    } catch (error: any) {
+      logger.error(`规则引擎调用 ${tool.name} 失败:`, error as any);
+      result = { success: false, message: error.message };
+    }
+    steps.push({
+      text,
+      toolCalls: [{ toolCallId, toolName: tool.name, args }],
+      toolResults: [{ toolCallId, result }],
+    });
+    return result;
+  };
+
+  const strategy = getTradingStrategy();
+  const params = getStrategyParams(strategy);
+  const minScore = getMinOpportunityScore();
+  const remainingPositions: typeof context.positions = [];
+
+  // ========== 1. 持仓管理 ==========
+  for (const pos of context.positions) {
+    const side = pos.side as "long" | "short";
+    const margin = pos.margin || 0;
+    const pnlPercent = margin > 0 ? (pos.unrealized_pnl / margin) * 100 : 0;
+
+    let reversalScore = 0;
+    try {
+      const state = await analyzeMarketState(pos.symbol, { direction: side });
+      reversalScore = state.reversalAnalysis?.reversalScore || 0;
+    } catch (error: any) {
+      logger.warn(`分析 ${pos.symbol} 市场状态失败，保持持仓: ${error.message}`);
+      remainingPositions.push(pos);
+      continue;
+    }
+
+    const shouldClose = reversalScore >= 70 || (reversalScore >= 50 && pnlPercent > 0);
+    if (shouldClose) {
+      const reason = reversalScore >= 70
+        ? `${pos.symbol} ${side} 反转得分 ${reversalScore}≥70，立即全平`
+        : `${pos.symbol} ${side} 反转得分 ${reversalScore}（50-70）且盈利 ${pnlPercent.toFixed(2)}%，平仓锁利`;
+      logger.info(`🔄 ${reason}`);
+      const result = await callTool(closePositionTool, {
+        symbol: pos.symbol,
+        percentage: 100,
+        reason: "trend_reversal",
+      }, reason);
+      summary.push(`${result?.success ? "✅" : "❌"} ${reason}`);
+      if (!result?.success) {
+        remainingPositions.push(pos);
+      }
+    } else {
+      summary.push(`⏸️ ${pos.symbol} ${side} 持有（反转得分 ${reversalScore}，盈亏 ${pnlPercent.toFixed(2)}%）`);
+      remainingPositions.push(pos);
+    }
+  }
+
+  // 分批止盈（与健康检查共用执行器，内部有锁防止重复执行）
+  if (remainingPositions.length > 0) {
+    const result = await PartialTakeProfitExecutor.executeCheck("rule-engine");
+    if (result.executed > 0) {
+      summary.push(`💰 分批止盈执行 ${result.executed} 笔`);
+    }
+  }
+
+  // ========== 2. 新开仓 ==========
+  const availableSlots = RISK_PARAMS.MAX_POSITIONS - remainingPositions.length;
+  if (availableSlots <= 0) {
+    summary.push(`📦 持仓已满（${remainingPositions.length}/${RISK_PARAMS.MAX_POSITIONS}），不开新仓`);
+  } else {
+    const analysis = await callTool(analyzeOpeningOpportunitiesTool, {}, "分析开仓机会");
+    const opportunities: any[] = analysis?.success ? analysis.topOpportunities || [] : [];
+    const heldSymbols = new Set(remainingPositions.map(p => p.symbol));
+    let opened = 0;
+    // 本周期已开仓占用的保证金，后续开仓从可用余额中扣除
+    let committedMargin = 0;
+    const entryContext = {
+      riskParams: RISK_PARAMS,
+      strategyParams: params,
+      minScore,
+      accountInfo: context.accountInfo,
+    };
+
+    for (const opp of opportunities) {
+      if (opened >= availableSlots) break;
+      if (opp.action !== "long" && opp.action !== "short") continue;
+      if (opp.score < minScore || heldSymbols.has(opp.symbol)) continue;
+
+      const check = await callTool(checkOpenPositionTool, {
+        symbol: opp.symbol,
+        side: opp.action,
+        entryPrice: opp.keyMetrics.price,
+      }, `开仓前检查 ${opp.symbol} ${opp.action}`);
+      if (!check?.shouldOpen) {
+        summary.push(`⛔ ${opp.symbol} ${opp.action} 未通过开仓检查: ${check?.message || "未知原因"}`);
+        continue;
+      }
+
+      const { leverage, sizePercent, amountUsdt } = planRuleEntry(opp, entryContext, committedMargin);
+      if (amountUsdt <= 0) {
+        summary.push("💸 可用余额不足，停止开仓");
+        break;
+      }
+
+      const text = `${opp.symbol} ${opp.action} 评分 ${opp.score}（${opp.strategyType}/${opp.marketState}），${leverage}x 杠杆，保证金 ${amountUsdt.toFixed(2)} USDT（${sizePercent.toFixed(1)}%）`;
+      logger.info(`🎯 规则开仓: ${text}`);
+      const result = await callTool(openPositionTool, {
+        symbol: opp.symbol,
+        side: opp.action,
+        leverage,
+        amountUsdt: Number.parseFloat(amountUsdt.toFixed(2)),
+        marketState: opp.marketState,
+        strategyType: opp.strategyType,
+        signalStrength: opp.signalStrength / 100,
+        opportunityScore: opp.score,
+      }, text);
+      summary.push(`${result?.success ? "✅ 开仓" : "❌ 开仓失败"} ${text}${result?.success ? "" : `: ${result?.message}`}`);
+      if (result?.success) {
+        opened++;
+        heldSymbols.add(opp.symbol);
+        // 优先使用实际占用的保证金（数量取整后可能与计划金额不同）
+        const actualMargin = Number(result.actualMargin);
+        committedMargin += Number.isFinite(actualMargin) && actualMargin > 0 ? actualMargin : amountUsdt;
+      }
+    }
+
+    if (opportunities.length === 0) {
+      summary.push(`👀 无评分≥${minScore}的开仓机会，观望`);
+    }
+  }
+
+  const text = [`【规则决策 - ${params.name}】`, ...summary].join("\n");
+  steps.push({ text, toolCalls: [], toolResults: [] });
+
+  return { text, steps };
+}
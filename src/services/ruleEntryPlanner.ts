@@ -0,0 +1,79 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 规则引擎开仓规划 - 根据机会评分计算杠杆和保证金
+ *
+ * - 杠杆取机会推荐杠杆，限制在策略杠杆区间和 MAX_LEVERAGE 内
+ * - 保证金占比按评分在策略仓位区间内插值，不超过剩余可用余额
+ * - 同一周期内每次开仓后扣除已占用的保证金，后续开仓按剩余余额计算
+ */
+import type { RiskParams } from "../config/riskParams";
+import type { StrategyParams } from "../agents/tradingAgent";
+
+// 与开仓前风控一致：保留 5% 可用余额应对手续费和价格波动
+const AVAILABLE_BALANCE_RATIO = 0.95;
+
+/**
+ * 开仓规划所需的上下文
+ */
+export interface RuleEntryContext {
+  riskParams: Pick<RiskParams, "MAX_LEVERAGE">;
+  strategyParams: Pick<StrategyParams, "leverageMin" | "leverageMax" | "positionSizeMin" | "positionSizeMax">;
+  minScore: number;
+  accountInfo: {
+    totalBalance: number;
+    availableBalance: number;
+  };
+}
+
+export interface RuleEntryPlan {
+  leverage: number;
+  sizePercent: number;
+  amountUsdt: number;           // 保证金（USDT），余额不足时 ≤0
+}
+
+/**
+ * 根据机会评分在策略仓位区间内插值计算仓位百分比
+ */
+export function calculatePositionSizePercent(score: number, minScore: number, sizeMin: number, sizeMax: number): number {
+  const ratio = Math.min(1, Math.max(0, (score - minScore) / Math.max(1, 100 - minScore)));
+  return sizeMin + (sizeMax - sizeMin) * ratio;
+}
+
+/**
+ * 计算一个开仓机会的杠杆和保证金
+ *
+ * @param committedMargin 本周期已开仓占用的保证金
+ */
+export function planRuleEntry(
+  opportunity: { score: number; recommendedLeverage?: number },
+  context: RuleEntryContext,
+  committedMargin = 0,
+): RuleEntryPlan {
+  const { strategyParams: params, accountInfo } = context;
+  const leverage = Math.round(Math.min(
+    params.leverageMax,
+    Math.max(params.leverageMin, opportunity.recommendedLeverage || params.leverageMin),
+    context.riskParams.MAX_LEVERAGE
+  ));
+  const sizePercent = calculatePositionSizePercent(opportunity.score, context.minScore, params.positionSizeMin, params.positionSizeMax);
+  const remainingBalance = accountInfo.availableBalance * AVAILABLE_BALANCE_RATIO - committedMargin;
+  const amountUsdt = Math.min(accountInfo.totalBalance * sizePercent / 100, remainingBalance);
+  return { leverage, sizePercent, amountUsdt };
+}
@@ -31,6 +31,7 @@
 import { createLogger } from "../utils/logger";
 import { getExchangeClient } from "../exchanges";
 import { formatStopLossPrice, formatPriceNumber } from "../utils/priceFormatter";
+import { calculateATR as calculateIndicatorATR, normalizeCandles } from "../utils/indicators";
 
 const logger = createLogger({
   name: "stop-loss-calculator",
@@ -119,7 +120,7 @@ export interface StopLossResult {
 }
 
 /**
- * 计算 ATR (Average True Range)
+ * 计算 ATR (Average True Range，Wilder 平滑，与指标库一致)
  */
 export function calculateATR(candles: Candle[], period: number = 14): number {
   if (candles.length < period + 1) {
@@ -127,32 +128,7 @@ export function calculateATR(candles: Candle[], period: number = 14): number {
     return 0;
   }
   
-  const trueRanges: number[] = [];
-  
-  for (let i = 1; i < candles.length; i++) {
-    const high = candles[i].high;
-    const low = candles[i].low;
-    const prevClose = candles[i - 1].close;
-    
-    // True Range = max(H-L, |H-PC|, |L-PC|)
-    const tr = Math.max(
-      high - low,
-      Math.abs(high - prevClose),
-      Math.abs(low - prevClose)
-    );
-    
-    trueRanges.push(tr);
-  }
-  
-  // 计算前 period 个 TR 的平均值作为初始 ATR
-  let atr = trueRanges.slice(0, period).reduce((a, b) => a + b, 0) / period;
-  
-  // 使用指数移动平均平滑 ATR
-  for (let i = period; i < trueRanges.length; i++) {
-    atr = (atr * (period - 1) + trueRanges[i]) / period;
-  }
-  
-  return atr;
+  return calculateIndicatorATR(candles, period);
 }
 
 /**
@@ -272,14 +248,7 @@ export async function calculateScientificStopLoss(
   }
   
   // 转换为标准格式
-  const candles: Candle[] = rawCandles.map((c: any) => ({
-    time: c.t || c.time || 0,
-    open: Number.parseFloat(c.open || c.o || "0"),
-    high: Number.parseFloat(c.high || c.h || "0"),
-    low: Number.parseFloat(c.low || c.l || "0"),
-    close: Number.parseFloat(c.close || c.c || "0"),
-    volume: Number.parseFloat(c.volume || c.v || "0"),
-  }));
+  const candles: Candle[] = normalizeCandles(rawCandles);
   
   const currentPrice = candles[candles.length - 1].close;
   
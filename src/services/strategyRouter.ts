@@ -19,16 +19,21 @@
 /**
  * 策略路由器
  * 
- * 根据市场状态自动选择最优策略
+ * 根据市场状态从策略注册表中取出所有适用的策略，运行后选择置信度最高的候选
  */
 
+import { createClient } from "@libsql/client";
 import { createLogger } from "../utils/logger";
 import { analyzeMarketState, getCachedMTFData } from "./marketStateAnalyzer";
-import { performMultiTimeframeAnalysis } from "./multiTimeframeAnalysis";
-import { trendFollowingStrategy } from "../strategies/trendFollowingStrategy";
-import { meanReversionStrategy } from "../strategies/meanReversionStrategy";
-import { breakoutStrategy } from "../strategies/breakoutStrategy";
+import {
+  getRequiredTimeframes,
+  getStrategiesForState,
+  initializeStrategyRegistry,
+  selectBestStrategyResult,
+} from "../strategies/registry";
+import type { StandardizedStrategyResult } from "../strategies/strategyUtils";
 import { getExchangeClient } from "../exchanges";
+import { getFundingSnapshot, type FundingSnapshot } from "./fundingBasis";
 import type { StrategyResult, MarketStateAnalysis } from "../types/marketState";
 
 const logger = createLogger({
@@ -36,6 +41,10 @@ const logger = createLogger({
   level: "info",
 });
 
+const dbClient = createClient({
+  url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+});
+
 /**
  * 策略路由器 - 根据市场状态选择最优策略
  * 
@@ -57,11 +66,24 @@ export async function routeStrategy(
     logger.debug(`${symbol}: 复用已分析的市场状态，跳过重复API调用`);
   }
   
-  // 2. 获取多时间框架数据（使用缓存避免重复API调用）
-  const mtfData = await getCachedMTFData(symbol, ["SHORT_CONFIRM", "MEDIUM"]);
+  // 2. 取出当前市场状态下适用的策略，获取它们所需的多时间框架数据（使用缓存避免重复API调用）
+  await initializeStrategyRegistry();
+  const candidates = getStrategiesForState(marketState.state);
+  // 观望结果的关键指标固定取 15分钟/1小时 数据
+  const timeframeNames = getRequiredTimeframes(candidates);
+  for (const name of ["SHORT_CONFIRM", "MEDIUM"]) {
+    if (!timeframeNames.includes(name)) timeframeNames.push(name);
+  }
+  let mtfData = await getCachedMTFData(symbol, timeframeNames);
+  const timeframeData = (name: string) =>
+    mtfData.timeframes[name.toLowerCase().replace(/_/g, "") as keyof typeof mtfData.timeframes];
+  if (timeframeNames.some(name => !timeframeData(name))) {
+    // 缓存可能来自市场状态分析（时间框架组合不同），缺少策略声明的时间框架时重新获取
+    mtfData = await getCachedMTFData(symbol, timeframeNames, { skipCache: true });
+  }
   
-  const tf15m = mtfData.timeframes.shortconfirm;
-  const tf1h = mtfData.timeframes.medium;
+  const tf15m = timeframeData("SHORT_CONFIRM");
+  const tf1h = timeframeData("MEDIUM");
   
   if (!tf15m || !tf1h) {
     return {
@@ -87,82 +109,66 @@ export async function routeStrategy(
     };
   }
   
-  // 3. 根据市场状态路由到相应策略
-  let baseResult: any;
-  
-  switch (marketState.state) {
-    case "uptrend_oversold":
-      // 上涨趋势中的超卖 -> 趋势跟踪做多
-      logger.info(`${symbol}: 上涨趋势中的超卖，使用趋势跟踪做多策略`);
-      baseResult = await trendFollowingStrategy(symbol, "long", marketState, tf15m, tf1h);
-      break;
-      
-    case "downtrend_overbought":
-      // 下跌趋势中的超买 -> 趋势跟踪做空
-      logger.info(`${symbol}: 下跌趋势中的超买，使用趋势跟踪做空策略`);
-      baseResult = await trendFollowingStrategy(symbol, "short", marketState, tf15m, tf1h);
-      break;
-      
-    case "downtrend_oversold":
-      // 🔧 新增：下跌趋势中的超卖 -> 均值回归做多（逆势反弹）
-      logger.info(`${symbol}: 下跌趋势中的超卖，使用均值回归做多策略（逆势反弹）`);
-      baseResult = await meanReversionStrategy(symbol, "long", marketState, tf15m, tf1h);
-      break;
-      
-    case "uptrend_overbought":
-      // 🔧 新增：上涨趋势中的超买 -> 均值回归做空（逆势回调）
-      logger.info(`${symbol}: 上涨趋势中的超买，使用均值回归做空策略（逆势回调）`);
-      baseResult = await meanReversionStrategy(symbol, "short", marketState, tf15m, tf1h);
-      break;
-      
-    case "uptrend_continuation":
-      // 上涨趋势延续 -> 趋势跟踪做多（较低置信度）
-      logger.info(`${symbol}: 上涨趋势延续，使用趋势跟踪做多策略`);
-      baseResult = await trendFollowingStrategy(symbol, "long", marketState, tf15m, tf1h);
-      break;
-      
-    case "downtrend_continuation":
-      // 下跌趋势延续 -> 趋势跟踪做空（较低置信度）
-      logger.info(`${symbol}: 下跌趋势延续，使用趋势跟踪做空策略`);
-      baseResult = await trendFollowingStrategy(symbol, "short", marketState, tf15m, tf1h);
-      break;
-      
-    case "ranging_oversold":
-      // 震荡市超卖 -> 均值回归做多
-      logger.info(`${symbol}: 震荡市超卖，使用均值回归做多策略`);
-      baseResult = await meanReversionStrategy(symbol, "long", marketState, tf15m, tf1h);
-      break;
-      
-    case "ranging_overbought":
-      // 震荡市超买 -> 均值回归做空
-      logger.info(`${symbol}: 震荡市超买，使用均值回归做空策略`);
-      baseResult = await meanReversionStrategy(symbol, "short", marketState, tf15m, tf1h);
-      break;
-      
-    case "ranging_neutral":
-    case "no_clear_signal":
-    default:
-      // 无明确信号 -> 观望
-      logger.info(`${symbol}: 无明确信号，建议观望`);
-      baseResult = {
-        symbol,
-        action: "wait",
-        confidence: "low",
-        signalStrength: 0,
-        recommendedLeverage: 0,
-        marketState: marketState.state,
-        strategyType: "none",
-        reason: `市场状态: ${marketState.state}，暂无明确交易信号`,
-        keyMetrics: {
-          rsi7: tf15m.rsi7,
-          rsi14: tf15m.rsi14,
-          macd: tf15m.macd,
-          ema20: tf1h.ema20,
-          ema50: tf1h.ema50,
-          price: tf15m.currentPrice,
-          atrRatio: tf1h.atrRatio,
-        },
-      };
+  // 资金费率快照只在有策略需要时获取
+  let funding: FundingSnapshot | undefined;
+  if (candidates.some(c => c.strategy.needsFunding)) {
+    try {
+      funding = await getFundingSnapshot(dbClient, getExchangeClient(), symbol);
+    } catch (error) {
+      logger.warn(`${symbol}: 获取资金费率失败，跳过依赖资金费率的策略`, error);
+    }
+  }
+  
+  // 3. 运行所有适用的策略，选择置信度最高的候选
+  const results: StandardizedStrategyResult[] = [];
+  for (const { strategy, direction } of candidates) {
+    if (strategy.needsFunding && !funding) {
+      continue;
+    }
+
+    const timeframes: Record<string, any> = {};
+    const missing = strategy.timeframes.filter(name => {
+      timeframes[name] = timeframeData(name);
+      return !timeframes[name];
+    });
+    if (missing.length > 0) {
+      logger.warn(`${symbol}: 策略 ${strategy.id} 缺少时间框架数据 ${missing.join(", ")}，跳过`);
+      continue;
+    }
+    
+    try {
+      const result = await strategy.signal({ symbol, direction, marketState, timeframes, funding });
+      logger.info(`${symbol}: ${strategy.name}${direction === "long" ? "做多" : "做空"} -> ${result.action} (${result.confidence}, 强度 ${(result.signalStrength * 100).toFixed(0)}%)`);
+      results.push({ ...result, strategyType: result.strategyType || strategy.id, marketState: marketState.state });
+    } catch (error) {
+      logger.warn(`${symbol}: 策略 ${strategy.id} 执行失败，跳过`, error);
+    }
+  }
+  
+  let baseResult: any = selectBestStrategyResult(results);
+  
+  if (!baseResult) {
+    // 无适用策略 -> 观望
+    logger.info(`${symbol}: 无明确信号，建议观望`);
+    baseResult = {
+      symbol,
+      action: "wait",
+      confidence: "low",
+      signalStrength: 0,
+      recommendedLeverage: 0,
+      marketState: marketState.state,
+      strategyType: "none",
+      reason: `市场状态: ${marketState.state}，暂无明确交易信号`,
+      keyMetrics: {
+        rsi7: tf15m.rsi7,
+        rsi14: tf15m.rsi14,
+        macd: tf15m.macd,
+        ema20: tf1h.ema20,
+        ema50: tf1h.ema50,
+        price: tf15m.currentPrice,
+        atrRatio: tf1h.atrRatio,
+      },
+    };
   }
   
   // 4. 获取24h成交量数据（用于流动性评分）
@@ -0,0 +1,237 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 结构化决策执行器
+ * 解析 Agent 返回的决策对象 → 开仓前风控检查 → 通过与 AI 相同的交易工具执行已批准的操作
+ *
+ * 返回值与规则引擎一致（模拟 Agent.generateText 的 steps 结构），并附带完整的决策对象和风控结果供审计
+ */
+import type { Client } from "@libsql/client";
+import { createLogger } from "../utils/logger";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import { RISK_PARAMS } from "../config/riskParams";
+import { getStrategyParams, getTradingStrategy } from "../agents/tradingAgent";
+import { DECISION_SCHEMA_VERSION, parseTradingDecision, type TradeAction, type TradingDecision } from "../agents/decisionSchema";
+import { checkTradingDecision, getMinDecisionConfidence, type PreTradeGuardResult } from "./preTradeGuard";
+import type { RuleDecisionResponse } from "./ruleBasedDecisionEngine";
+import { openPositionTool, closePositionTool, updatePositionStopLossTool } from "../tools/trading";
+
+const logger = createLogger({
+  name: "structured-decision",
+  level: "info",
+});
+
+/**
+ * 单个操作的执行结果
+ */
+export interface StructuredActionResult {
+  action: TradeAction;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * 结构化决策审计记录（写入 structured_decisions 表）
+ */
+export interface StructuredDecisionRecord {
+  schemaVersion: number;
+  rawOutput: string;
+  decision: TradingDecision;
+  guard: PreTradeGuardResult;
+  results: StructuredActionResult[];
+}
+
+export interface StructuredDecisionResponse extends RuleDecisionResponse {
+  structured: StructuredDecisionRecord;
+}
+
+/**
+ * 执行上下文
+ */
+export interface StructuredDecisionContext {
+  accountInfo: {
+    totalBalance: number;
+    availableBalance: number;
+  };
+  positions: Array<{ symbol: string; side: string; current_price?: number }>;
+  marketData: Record<string, { price?: number }>;
+  onToolStart?: (toolName: string) => void;   // 后备链据此判断是否已执行交易操作
+  tools?: {                                   // 提示词回放时替换为桩工具，默认使用真实交易工具
+    openPosition: any;
+    closePosition: any;
+    updatePositionStopLoss: any;
+  };
+}
+
+/**
+ * 解析、检查并执行结构化决策（决策格式错误时抛出 StructuredDecisionError）
+ */
+export async function executeStructuredDecision(
+  rawOutput: string,
+  context: StructuredDecisionContext,
+): Promise<StructuredDecisionResponse> {
+  const decision = parseTradingDecision(rawOutput);
+  const params = getStrategyParams(getTradingStrategy());
+
+  const prices: Record<string, number> = {};
+  for (const pos of context.positions) {
+    if (pos.current_price) prices[pos.symbol] = pos.current_price;
+  }
+  for (const [symbol, data] of Object.entries(context.marketData)) {
+    if (data?.price) prices[symbol] = data.price;
+  }
+
+  const guard = checkTradingDecision(decision, {
+    riskParams: RISK_PARAMS,
+    strategyParams: params,
+    accountInfo: context.accountInfo,
+    positions: context.positions,
+    prices,
+    minConfidence: getMinDecisionConfidence(),
+  });
+
+  const tools = context.tools ?? {
+    openPosition: openPositionTool,
+    closePosition: closePositionTool,
+    updatePositionStopLoss: updatePositionStopLossTool,
+  };
+  const steps: RuleDecisionResponse["steps"] = [];
+  const summary: string[] = [];
+  const results: StructuredActionResult[] = [];
+  let callSeq = 0;
+
+  // 调用工具并记录为一个决策步骤
+  const callTool = async (tool: any, args: any, text: string): Promise<any> => {
+    const toolCallId = `structured-${++callSeq}`;
+    context.onToolStart?.(tool.name);
+    let result: any;
+    try {
+      result = await tool.execute(args);
+    } catch (error: any) {
+      logger.error(`结构化决策调用 ${tool.name} 失败:`, error as any);
+      result = { success: false, message: error.message };
+    }
+    steps.push({
+      text,
+      toolCalls: [{ toolCallId, toolName: tool.name, args }],
+      toolResults: [{ toolCallId, result }],
+    });
+    return result;
+  };
+
+  for (const check of guard.rejected) {
+    const label = check.action.symbol ? `${check.action.action} ${check.action.symbol}` : check.action.action;
+    logger.warn(`⛔ 风控拒绝 ${label}: ${check.reasons.join("；")}`);
+    summary.push(`⛔ 拒绝 ${label}: ${check.reasons.join("；")}`);
+  }
+
+  for (const action of guard.approved) {
+    let result: any = { success: true, message: "" };
+    let text = "";
+
+    if (action.action === "close") {
+      text = `平仓 ${action.symbol} ${action.percentage}%：${action.rationale}`;
+      result = await callTool(tools.closePosition, {
+        symbol: action.symbol,
+        percentage: action.percentage,
+        reason: "ai_decision",
+      }, text);
+    } else if (action.action === "adjust") {
+      text = `调整 ${action.symbol} 止损 ${action.stopLoss} / 止盈 ${action.takeProfit}：${action.rationale}`;
+      result = await callTool(tools.updatePositionStopLoss, {
+        symbol: action.symbol,
+        stopLoss: action.stopLoss,
+        takeProfit: action.takeProfit,
+      }, text);
+    } else if (action.action === "open") {
+      text = `开仓 ${action.symbol} ${action.side} ${action.leverage}x 保证金 ${action.sizeUsdt} USDT（置信度 ${action.confidence}）：${action.rationale}`;
+      result = await callTool(tools.openPosition, {
+        symbol: action.symbol,
+        side: action.side,
+        leverage: action.leverage,
+        amountUsdt: action.sizeUsdt,
+        signalStrength: action.confidence,
+      }, text);
+      if (result?.success) {
+        // 开仓后按决策中的止损止盈设置条件单（工具内部会拒绝放宽已有止损）
+        const stopResult = await callTool(tools.updatePositionStopLoss, {
+          symbol: action.symbol,
+          stopLoss: action.stopLoss,
+          takeProfit: action.takeProfit,
+        }, `设置 ${action.symbol} 止损 ${action.stopLoss} / 止盈 ${action.takeProfit}`);
+        if (!stopResult?.success) {
+          logger.warn(`⚠️ ${action.symbol} 开仓成功但设置决策止损止盈失败: ${stopResult?.message}`);
+        }
+      }
+    } else {
+      text = `观望${action.symbol ? ` ${action.symbol}` : ""}：${action.rationale}`;
+    }
+
+    const success = !!result?.success;
+    results.push({ action, success, message: result?.message || "" });
+    if (action.action === "hold") {
+      summary.push(`⏸️ ${text}`);
+    } else {
+      summary.push(`${success ? "✅" : "❌"} ${text}${success ? "" : `: ${result?.message}`}`);
+    }
+  }
+
+  const text = [`【结构化决策 - ${params.name}】${decision.summary}`, ...summary].join("\n");
+  steps.push({ text, toolCalls: [], toolResults: [] });
+
+  return {
+    text,
+    steps,
+    structured: {
+      schemaVersion: DECISION_SCHEMA_VERSION,
+      rawOutput,
+      decision,
+      guard,
+      results,
+    },
+  };
+}
+
+/**
+ * 保存结构化决策审计记录
+ */
+export async function recordStructuredDecision(
+  dbClient: Client,
+  decisionId: number,
+  record: StructuredDecisionRecord,
+): Promise<void> {
+  await dbClient.execute({
+    sql: `INSERT INTO structured_decisions
+          (account_id, decision_id, timestamp, schema_version, raw_output, decision_json, guard_json, results_json, approved_count, rejected_count)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      getCurrentAccountId(),
+      decisionId,
+      getChinaTimeISO(),
+      record.schemaVersion,
+      record.rawOutput,
+      JSON.stringify(record.decision),
+      JSON.stringify(record.guard),
+      JSON.stringify(record.results),
+      record.guard.approved.length,
+      record.guard.rejected.length,
+    ],
+  });
+}
@@ -0,0 +1,465 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 账户交易状态机（回撤熔断）
+ * 
+ * 状态由低到高：
+ * - normal         正常交易
+ * - cautious       谨慎：新开仓按 CAUTIOUS_POSITION_SIZE_FACTOR 缩减
+ * - no_new_entries 禁止开仓：只允许平仓和调整止损
+ * - flatten        强制平仓：平掉所有持仓，完成后进入 halted
+ * - halted         停止交易：跳过交易周期，只能通过 API 手动重置
+ * 
+ * 驱动指标：峰值净值回撤（account_history）、日内亏损、连续亏损次数。
+ * 谨慎/禁止开仓在指标回落（含恢复缓冲）后自动恢复；强制平仓和停止交易需手动重置。
+ * 状态持久化在 trading_state 表，每次切换写入 trading_state_transitions 并发送邮件告警。
+ */
+import type { Client } from "@libsql/client";
+import { RISK_PARAMS } from "../config/riskParams";
+import { createLogger } from "../utils/logger";
+import { getCurrentAccountId } from "../utils/accountContext";
+import { getChinaTimeISO } from "../utils/timeUtils";
+import { formatPercent, formatUSDT } from "../utils/priceFormatter";
+import { AlertLevel, notify } from "../notifications";
+
+const logger = createLogger({
+  name: "trading-state",
+  level: "info",
+});
+
+export type TradingState = "normal" | "cautious" | "no_new_entries" | "flatten" | "halted";
+
+/**
+ * 状态严重程度（数值越大越严格）
+ */
+const STATE_LEVELS: Record<TradingState, number> = {
+  normal: 0,
+  cautious: 1,
+  no_new_entries: 2,
+  flatten: 3,
+  halted: 4,
+};
+
+export const TRADING_STATE_LABELS: Record<TradingState, string> = {
+  normal: "正常",
+  cautious: "谨慎",
+  no_new_entries: "禁止开仓",
+  flatten: "强制平仓",
+  halted: "停止交易",
+};
+
+export interface CircuitBreakerThresholds {
+  warningDrawdownPercent: number;
+  noNewEntriesDrawdownPercent: number;
+  flattenDrawdownPercent: number;
+  dailyLossLimitPercent: number;
+  cautiousConsecutiveLosses: number;
+  maxConsecutiveLosses: number;
+  recoveryBufferPercent: number;
+}
+
+export interface TradingStateMetrics {
+  equity: number;
+  peakEquity: number;
+  drawdownPercent: number;
+  dayStartEquity: number;
+  dailyLossPercent: number;
+  consecutiveLosses: number;
+}
+
+export interface TradingStateRecord {
+  state: TradingState;
+  reason: string;
+  peakEquity: number;
+  tradingDay: string;
+  dayStartEquity: number;
+  resetAt: string;   // 上次手动重置时间，空字符串表示从未重置
+  updatedAt: string;
+}
+
+export interface TradingStateEvaluation {
+  previous: TradingState;
+  record: TradingStateRecord;
+  metrics: TradingStateMetrics;
+  changed: boolean;
+}
+
+/**
+ * 读取当前账户生效的熔断阈值
+ */
+export function getCircuitBreakerThresholds(): CircuitBreakerThresholds {
+  return {
+    warningDrawdownPercent: RISK_PARAMS.ACCOUNT_DRAWDOWN_WARNING_PERCENT,
+    noNewEntriesDrawdownPercent: RISK_PARAMS.ACCOUNT_DRAWDOWN_NO_NEW_POSITION_PERCENT,
+    flattenDrawdownPercent: RISK_PARAMS.ACCOUNT_DRAWDOWN_FORCE_CLOSE_PERCENT,
+    dailyLossLimitPercent: RISK_PARAMS.DAILY_LOSS_LIMIT_PERCENT,
+    cautiousConsecutiveLosses: RISK_PARAMS.CAUTIOUS_CONSECUTIVE_LOSSES,
+    maxConsecutiveLosses: RISK_PARAMS.MAX_CONSECUTIVE_LOSSES,
+    recoveryBufferPercent: RISK_PARAMS.CIRCUIT_BREAKER_RECOVERY_BUFFER_PERCENT,
+  };
+}
+
+/**
+ * 是否允许开新仓
+ */
+export function canOpenNewPositions(state: TradingState): boolean {
+  return STATE_LEVELS[state] < STATE_LEVELS.no_new_entries;
+}
+
+/**
+ * 新开仓的仓位系数
+ */
+export function getPositionSizeFactor(state: TradingState): number {
+  if (state === "normal") {
+    return 1;
+  }
+  return state === "cautious" ? RISK_PARAMS.CAUTIOUS_POSITION_SIZE_FACTOR : 0;
+}
+
+/**
+ * 根据指标计算目标状态（不含锁定逻辑）
+ * @param buffer 阈值下调的百分点（用于判断能否恢复）
+ */
+function targetState(
+  metrics: TradingStateMetrics,
+  t: CircuitBreakerThresholds,
+  buffer: number,
+): { state: TradingState; reasons: string[] } {
+  const drawdown = metrics.drawdownPercent;
+  const dd = `峰值回撤 ${formatPercent(drawdown)}%`;
+
+  if (drawdown >= t.flattenDrawdownPercent - buffer) {
+    return { state: "flatten", reasons: [`${dd} ≥ ${t.flattenDrawdownPercent}%`] };
+  }
+
+  const noEntries: string[] = [];
+  if (drawdown >= t.noNewEntriesDrawdownPercent - buffer) {
+    noEntries.push(`${dd} ≥ ${t.noNewEntriesDrawdownPercent}%`);
+  }
+  if (metrics.dailyLossPercent >= t.dailyLossLimitPercent - buffer) {
+    noEntries.push(`日内亏损 ${formatPercent(metrics.dailyLossPercent)}% ≥ ${t.dailyLossLimitPercent}%`);
+  }
+  if (metrics.consecutiveLosses >= t.maxConsecutiveLosses) {
+    noEntries.push(`连续亏损 ${metrics.consecutiveLosses} 笔 ≥ ${t.maxConsecutiveLosses} 笔`);
+  }
+  if (noEntries.length > 0) {
+    return { state: "no_new_entries", reasons: noEntries };
+  }
+
+  const cautious: string[] = [];
+  if (drawdown >= t.warningDrawdownPercent - buffer) {
+    cautious.push(`${dd} ≥ ${t.warningDrawdownPercent}%`);
+  }
+  if (metrics.consecutiveLosses >= t.cautiousConsecutiveLosses) {
+    cautious.push(`连续亏损 ${metrics.consecutiveLosses} 笔 ≥ ${t.cautiousConsecutiveLosses} 笔`);
+  }
+  if (cautious.length > 0) {
+    return { state: "cautious", reasons: cautious };
+  }
+  return { state: "normal", reasons: [] };
+}
+
+/**
+ * 状态转移规则
+ * - flatten / halted 锁定，只能手动重置（flatten 完成平仓后由 completeFlatten 转入 halted）
+ * - 指标恶化时立即升级
+ * - 指标好转时需低于阈值减恢复缓冲才降级，避免在阈值附近反复切换
+ */
+export function resolveTradingState(
+  current: TradingState,
+  metrics: TradingStateMetrics,
+  thresholds: CircuitBreakerThresholds,
+): { state: TradingState; reason: string } {
+  if (current === "flatten" || current === "halted") {
+    return { state: current, reason: "" };
+  }
+
+  const target = targetState(metrics, thresholds, 0);
+  if (STATE_LEVELS[target.state] >= STATE_LEVELS[current]) {
+    return { state: target.state, reason: target.reasons.join("；") };
+  }
+
+  // 好转：带缓冲的目标状态仍不低于当前状态时保持不变
+  const buffered = targetState(metrics, thresholds, thresholds.recoveryBufferPercent);
+  if (STATE_LEVELS[buffered.state] >= STATE_LEVELS[current]) {
+    return { state: current, reason: "" };
+  }
+  const recovered = STATE_LEVELS[buffered.state] > STATE_LEVELS[target.state] ? buffered : target;
+  return {
+    state: recovered.state,
+    reason: recovered.reasons.length > 0 ? recovered.reasons.join("；") : "风险指标已恢复",
+  };
+}
+
+function buildMetrics(equity: number, peakEquity: number, dayStartEquity: number, consecutiveLosses: number): TradingStateMetrics {
+  return {
+    equity,
+    peakEquity,
+    drawdownPercent: peakEquity > 0 ? Math.max(0, (peakEquity - equity) / peakEquity * 100) : 0,
+    dayStartEquity,
+    dailyLossPercent: dayStartEquity > 0 ? Math.max(0, (dayStartEquity - equity) / dayStartEquity * 100) : 0,
+    consecutiveLosses,
+  };
+}
+
+function rowToRecord(row: any): TradingStateRecord {
+  return {
+    state: row.state as TradingState,
+    reason: row.reason as string,
+    peakEquity: Number(row.peak_equity),
+    tradingDay: row.trading_day as string,
+    dayStartEquity: Number(row.day_start_equity),
+    resetAt: row.reset_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * 读取当前账户的交易状态（尚未初始化时返回 null）
+ */
+export async function loadTradingState(dbClient: Client): Promise<TradingStateRecord | null> {
+  const result = await dbClient.execute({
+    sql: "SELECT * FROM trading_state WHERE account_id = ?",
+    args: [getCurrentAccountId()],
+  });
+  return result.rows[0] ? rowToRecord(result.rows[0]) : null;
+}
+
+/**
+ * 查询当前状态，未初始化视为正常（开仓检查使用）
+ */
+export async function getTradingState(dbClient: Client): Promise<{ state: TradingState; reason: string }> {
+  const record = await loadTradingState(dbClient);
+  return record ? { state: record.state, reason: record.reason } : { state: "normal", reason: "" };
+}
+
+/**
+ * 统计自 since 以来最近的连续亏损笔数（遇到盈利即停止）
+ */
+async function countConsecutiveLosses(dbClient: Client, since: string): Promise<number> {
+  const result = await dbClient.execute({
+    sql: `SELECT pnl FROM position_close_events
+          WHERE account_id = ? AND created_at > ?
+          ORDER BY created_at DESC, id DESC
+          LIMIT 50`,
+    args: [getCurrentAccountId(), since],
+  });
+  let count = 0;
+  for (const row of result.rows) {
+    if (Number(row.pnl) >= 0) {
+      break;
+    }
+    count++;
+  }
+  return count;
+}
+
+async function saveTradingState(dbClient: Client, record: TradingStateRecord): Promise<void> {
+  await dbClient.execute({
+    sql: `INSERT INTO trading_state (account_id, state, reason, peak_equity, trading_day, day_start_equity, reset_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(account_id) DO UPDATE SET
+            state = excluded.state, reason = excluded.reason, peak_equity = excluded.peak_equity,
+            trading_day = excluded.trading_day, day_start_equity = excluded.day_start_equity,
+            reset_at = excluded.reset_at, updated_at = excluded.updated_at`,
+    args: [
+      getCurrentAccountId(),
+      record.state,
+      record.reason,
+      record.peakEquity,
+      record.tradingDay,
+      record.dayStartEquity,
+      record.resetAt,
+      record.updatedAt,
+    ],
+  });
+}
+
+/**
+ * 记录状态切换并发送邮件告警
+ */
+async function recordTransition(
+  dbClient: Client,
+  from: TradingState,
+  to: TradingState,
+  reason: string,
+  triggeredBy: "auto" | "manual",
+  metrics: TradingStateMetrics,
+): Promise<void> {
+  const accountId = getCurrentAccountId();
+  await dbClient.execute({
+    sql: `INSERT INTO trading_state_transitions
+          (account_id, timestamp, from_state, to_state, reason, triggered_by, equity, drawdown_percent, daily_loss_percent, consecutive_losses)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      accountId,
+      getChinaTimeISO(),
+      from,
+      to,
+      reason,
+      triggeredBy,
+      metrics.equity,
+      metrics.drawdownPercent,
+      metrics.dailyLossPercent,
+      metrics.consecutiveLosses,
+    ],
+  });
+
+  const escalated = STATE_LEVELS[to] > STATE_LEVELS[from];
+  const level = !escalated
+    ? AlertLevel.INFO
+    : STATE_LEVELS[to] >= STATE_LEVELS.flatten
+      ? AlertLevel.CRITICAL
+      : STATE_LEVELS[to] >= STATE_LEVELS.no_new_entries ? AlertLevel.ERROR : AlertLevel.WARNING;
+
+  await notify({
+    event: "trading_state",
+    level,
+    title: `[${accountId}] 交易状态: ${TRADING_STATE_LABELS[from]} → ${TRADING_STATE_LABELS[to]}`,
+    message: `${triggeredBy === "manual" ? "手动重置" : "自动切换"}，原因: ${reason}`,
+    details: {
+      accountId,
+      from,
+      to,
+      equity: formatUSDT(metrics.equity),
+      peakEquity: formatUSDT(metrics.peakEquity),
+      drawdownPercent: formatPercent(metrics.drawdownPercent),
+      dailyLossPercent: formatPercent(metrics.dailyLossPercent),
+      consecutiveLosses: metrics.consecutiveLosses,
+    },
+  });
+}
+
+/**
+ * 每个交易周期调用：更新峰值/当日起始净值，计算指标并推进状态
+ * @param equity 当前净值（含未实现盈亏，与 account_history.total_value 口径一致）
+ */
+export async function evaluateTradingState(
+  dbClient: Client,
+  equity: number,
+  thresholds: CircuitBreakerThresholds = getCircuitBreakerThresholds(),
+): Promise<TradingStateEvaluation> {
+  const now = getChinaTimeISO();
+  const today = now.slice(0, 10);
+  const existing = await loadTradingState(dbClient);
+  // 首次评估（新部署或升级后）从当前净值开始跟踪，不回溯之前的账户历史峰值和亏损记录，
+  // 否则已处于历史回撤中的账户会在第一个周期被直接强制平仓
+  const resetAt = existing ? existing.resetAt : now;
+
+  // 峰值取状态表、上次重置以来的账户历史和当前净值中的最大值
+  const historyPeak = await dbClient.execute({
+    sql: "SELECT MAX(total_value) as peak FROM account_history WHERE account_id = ? AND timestamp > ?",
+    args: [getCurrentAccountId(), resetAt],
+  });
+  const peakEquity = Math.max(
+    existing?.peakEquity ?? 0,
+    Number(historyPeak.rows[0]?.peak ?? 0),
+    equity,
+  );
+  const dayStartEquity = existing && existing.tradingDay === today ? existing.dayStartEquity : equity;
+
+  const metrics = buildMetrics(equity, peakEquity, dayStartEquity, await countConsecutiveLosses(dbClient, resetAt));
+
+  const previous = existing?.state ?? "normal";
+  const next = resolveTradingState(previous, metrics, thresholds);
+  const changed = next.state !== previous;
+  const record: TradingStateRecord = {
+    state: next.state,
+    reason: changed ? next.reason : existing?.reason ?? "",
+    peakEquity,
+    tradingDay: today,
+    dayStartEquity,
+    resetAt,
+    updatedAt: now,
+  };
+  await saveTradingState(dbClient, record);
+
+  if (changed) {
+    logger.warn(`🚦 交易状态切换: ${TRADING_STATE_LABELS[previous]} → ${TRADING_STATE_LABELS[next.state]}（${next.reason}）`);
+    await recordTransition(dbClient, previous, next.state, next.reason, "auto", metrics);
+  }
+  return { previous, record, metrics, changed };
+}
+
+/**
+ * 强制平仓完成后转入停止交易
+ */
+export async function completeFlatten(dbClient: Client, equity: number): Promise<void> {
+  const record = await loadTradingState(dbClient);
+  if (!record || record.state !== "flatten") {
+    return;
+  }
+  const reason = `强制平仓完成（${record.reason}）`;
+  await saveTradingState(dbClient, { ...record, state: "halted", reason, updatedAt: getChinaTimeISO() });
+  const consecutiveLosses = await countConsecutiveLosses(dbClient, record.resetAt);
+  await recordTransition(dbClient, "flatten", "halted", reason, "auto",
+    buildMetrics(equity, record.peakEquity, record.dayStartEquity, consecutiveLosses));
+  logger.warn("🛑 强制平仓完成，交易已停止，需手动重置后恢复");
+}
+
+/**
+ * 手动重置为正常状态：峰值和当日起始净值以当前净值重新计算，连续亏损重新计数
+ */
+export async function resetTradingState(
+  dbClient: Client,
+  equity: number,
+  reason: string,
+): Promise<TradingStateRecord> {
+  const now = getChinaTimeISO();
+  const existing = await loadTradingState(dbClient);
+  const previous = existing?.state ?? "normal";
+  const record: TradingStateRecord = {
+    state: "normal",
+    reason,
+    peakEquity: equity,
+    tradingDay: now.slice(0, 10),
+    dayStartEquity: equity,
+    resetAt: now,
+    updatedAt: now,
+  };
+  await saveTradingState(dbClient, record);
+  await recordTransition(dbClient, previous, "normal", reason, "manual", buildMetrics(equity, equity, equity, 0));
+  logger.warn(`🔄 交易状态已手动重置: ${TRADING_STATE_LABELS[previous]} → ${TRADING_STATE_LABELS.normal}（${reason}）`);
+  return record;
+}
+
+/**
+ * 查询最近的状态切换记录
+ */
+export async function getTradingStateTransitions(dbClient: Client, limit: number = 20): Promise<any[]> {
+  const result = await dbClient.execute({
+    sql: `SELECT timestamp, from_state, to_state, reason, triggered_by, equity, drawdown_percent, daily_loss_percent, consecutive_losses
+          FROM trading_state_transitions WHERE account_id = ? ORDER BY id DESC LIMIT ?`,
+    args: [getCurrentAccountId(), limit],
+  });
+  return result.rows;
+}
+
+/**
+ * 格式化交易状态（提示词使用），正常状态返回空字符串
+ */
+export function formatTradingStateForPrompt(state: TradingState, reason: string): string {
+  if (state === "normal") {
+    return "";
+  }
+  if (state === "cautious") {
+    return `⚠️ 账户处于【谨慎】状态（${reason}）：新开仓将自动缩减至 ${formatPercent(RISK_PARAMS.CAUTIOUS_POSITION_SIZE_FACTOR * 100, 0)}%，只做高确定性机会\n`;
+  }
+  return `🛑 账户处于【${TRADING_STATE_LABELS[state]}】状态（${reason}）：禁止开新仓，只管理现有持仓（平仓、止损、分批止盈）\n`;
+}
@@ -4,6 +4,7 @@
  */
 
 import type { MarketStateAnalysis } from '../types/marketState';
+import type { StrategyPlugin } from './registry';
 import {
   calculateSignalStrength,
   checkMultiTimeframeAlignment,
@@ -385,3 +386,20 @@ export async function breakoutStrategy(
     return breakoutShortSignal(symbol, timeframe15m, timeframe1h, marketState);
   }
 }
+
+/**
+ * 突破策略插件（内置，由策略注册表注册）
+ */
+export const breakoutPlugin: StrategyPlugin = {
+  id: 'breakout',
+  name: '突破',
+  description: '价格放量突破关键支撑/阻力位时进场（震荡区间突破、趋势延续中的新高新低）',
+  marketStates: {
+    uptrend_continuation: ['long'],
+    downtrend_continuation: ['short'],
+    ranging_neutral: ['long', 'short'],
+  },
+  timeframes: ['SHORT_CONFIRM', 'MEDIUM'],
+  signal: ({ symbol, direction, marketState, timeframes }) =>
+    breakoutStrategy(symbol, direction, marketState, timeframes.SHORT_CONFIRM, timeframes.MEDIUM),
+};
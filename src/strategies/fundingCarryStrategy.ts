@@ -0,0 +1,171 @@
+/**
+ * 资金费率套利（Carry）策略
+ * 在趋势中性的震荡市中站在收取资金费的一方：费率为正时做空，费率为负时做多
+ */
+
+import type { MarketStateAnalysis } from '../types/marketState';
+import type { FundingSnapshot } from '../services/fundingBasis';
+import type { StrategyPlugin } from './registry';
+import {
+  calculateVolatilityAdjustment,
+  calculateRecommendedLeverage,
+  standardizeStrategyResult,
+  type StandardizedStrategyResult,
+} from './strategyUtils';
+
+/**
+ * 触发策略的最小资金费率绝对值（每次结算，默认 0.03%）
+ */
+function getMinCarryRate(): number {
+  const value = Number.parseFloat(process.env.FUNDING_CARRY_MIN_RATE || '0.0003');
+  return Number.isFinite(value) && value > 0 ? value : 0.0003;
+}
+
+/**
+ * 资金费率套利信号
+ * 条件：
+ * - 当前（预测）费率绝对值达到 FUNDING_CARRY_MIN_RATE，方向为收取资金费的一方
+ * - 历史费率多数与当前同号（费率持续性）
+ * - 基差与费率同号时加分（溢价/折价支撑当前费率）
+ * - 15分钟 RSI 未处于极端区域（避免逆着短线急涨急跌收费）
+ */
+export function fundingCarrySignal(
+  symbol: string,
+  direction: 'long' | 'short',
+  funding: FundingSnapshot | undefined,
+  tf15m: any,
+  tf1h: any,
+  marketState: MarketStateAnalysis,
+  maxLeverage: number = 10
+): StandardizedStrategyResult {
+  const keyMetrics = extractKeyMetrics(tf15m, tf1h);
+  const wait = (reason: string): StandardizedStrategyResult => ({
+    symbol,
+    action: 'wait',
+    confidence: 'low',
+    signalStrength: 0,
+    recommendedLeverage: 0,
+    marketState: marketState.state,
+    strategyType: 'funding_carry',
+    reason,
+    keyMetrics,
+  });
+
+  if (!funding) {
+    return wait('缺少资金费率数据');
+  }
+
+  // 1. 收取资金费的方向
+  const rate = funding.rate;
+  const ratePercent = `${(rate * 100).toFixed(4)}%`;
+  const receivingSide = rate > 0 ? 'short' : rate < 0 ? 'long' : null;
+  if (receivingSide !== direction) {
+    return wait(`资金费率${ratePercent}，${direction === 'long' ? '做多' : '做空'}不收取资金费`);
+  }
+
+  const minRate = getMinCarryRate();
+  if (Math.abs(rate) < minRate) {
+    return wait(`资金费率${ratePercent}未达到阈值(${(minRate * 100).toFixed(4)}%)`);
+  }
+
+  // 2. 避免在短线极端行情中逆势收费
+  const warnings: string[] = [];
+  if ((direction === 'short' && tf15m.rsi7 < 25) || (direction === 'long' && tf15m.rsi7 > 75)) {
+    return wait(`15分钟RSI7处于极端区域(${tf15m.rsi7.toFixed(1)})，逆向持仓风险大于资金费收益`);
+  }
+
+  // 3. 信号强度：费率幅度(50%) + 费率持续性(30%) + 基差确认(20%)
+  const rateScore = Math.min(Math.abs(rate) / (minRate * 3), 1);
+  const persistence = funding.sameSignShare ?? 0.5;
+  if (funding.historyCount < 3) {
+    warnings.push('历史费率样本不足');
+  } else if (persistence < 0.5) {
+    warnings.push('历史费率方向不稳定');
+  }
+
+  let basisScore = 0.5;
+  if (funding.basis !== null) {
+    if (Math.sign(funding.basis) === Math.sign(rate)) {
+      basisScore = 1;
+    } else {
+      basisScore = 0;
+      warnings.push('基差与费率方向相反');
+    }
+  }
+
+  let signalStrength = rateScore * 0.5 + persistence * 0.3 + basisScore * 0.2;
+
+  // 4. 波动率调整（套利收益有限，波动过大时明显降权）
+  const volatilityAdj = calculateVolatilityAdjustment(marketState.keyMetrics.atr_ratio, 1.0);
+  if (volatilityAdj.status === 'extreme') {
+    warnings.push('波动率极端，价格风险远大于资金费收益');
+    signalStrength *= 0.5;
+  } else if (volatilityAdj.status === 'high') {
+    warnings.push('波动率偏高');
+    signalStrength *= 0.7;
+  }
+
+  // 5. 推荐杠杆（套利仓位使用低杠杆）
+  const recommendedLeverage = calculateRecommendedLeverage(
+    2,
+    signalStrength,
+    volatilityAdj.leverageMultiplier,
+    Math.min(maxLeverage, 3) // 最高3倍
+  );
+
+  // 6. 生成决策理由
+  let reason = `资金费率套利${direction === 'long' ? '做多' : '做空'}信号: `;
+  reason += `资金费率${ratePercent}(${direction === 'long' ? '空头支付多头' : '多头支付空头'}), `;
+  if (funding.averageRate !== null) {
+    reason += `历史均值${(funding.averageRate * 100).toFixed(4)}%(${funding.historyCount}次), `;
+  }
+  if (funding.basis !== null) {
+    reason += `基差${(funding.basis * 100).toFixed(3)}%, `;
+  }
+  reason += `信号强度${(signalStrength * 100).toFixed(0)}%`;
+
+  if (warnings.length > 0) {
+    reason += ` [注意: ${warnings.join('; ')}]`;
+  }
+
+  return standardizeStrategyResult({
+    symbol,
+    action: direction,
+    signalStrength,
+    recommendedLeverage,
+    marketState: marketState.state,
+    strategyType: 'funding_carry',
+    reason,
+    warnings,
+    keyMetrics,
+  });
+}
+
+function extractKeyMetrics(tf15m: any, tf1h: any) {
+  return {
+    rsi7: tf15m.rsi7,
+    rsi14: tf15m.rsi14,
+    macd: tf15m.macd,
+    ema20: tf1h.ema20,
+    ema50: tf1h.ema50,
+    price: tf15m.currentPrice,
+    atrRatio: 1.0,
+    priceDeviationFromEma20: ((tf15m.currentPrice - tf15m.ema20) / tf15m.ema20) * 100,
+  };
+}
+
+/**
+ * 资金费率套利策略插件（内置，由策略注册表注册）
+ */
+export const fundingCarryPlugin: StrategyPlugin = {
+  id: 'funding_carry',
+  name: '资金费率套利',
+  description: '趋势中性时站在收取资金费的一方（费率为正做空，费率为负做多）',
+  marketStates: {
+    ranging_neutral: ['long', 'short'],
+  },
+  timeframes: ['SHORT_CONFIRM', 'MEDIUM'],
+  needsFunding: true,
+  signal: ({ symbol, direction, marketState, timeframes, funding }) =>
+    fundingCarrySignal(symbol, direction, funding, timeframes.SHORT_CONFIRM, timeframes.MEDIUM, marketState),
+};
@@ -4,6 +4,7 @@
  */
 
 import type { MarketStateAnalysis } from '../types/marketState';
+import type { StrategyPlugin } from './registry';
 import {
   calculateSignalStrength,
   checkMultiTimeframeAlignment,
@@ -353,3 +354,21 @@ export async function meanReversionStrategy(
     return meanReversionShortSignal(symbol, timeframe15m, timeframe1h, marketState);
   }
 }
+
+/**
+ * 均值回归策略插件（内置，由策略注册表注册）
+ */
+export const meanReversionPlugin: StrategyPlugin = {
+  id: 'mean_reversion',
+  name: '均值回归',
+  description: '在震荡市或趋势末端的极端超买超卖处逆势进场',
+  marketStates: {
+    downtrend_oversold: ['long'],
+    ranging_oversold: ['long'],
+    uptrend_overbought: ['short'],
+    ranging_overbought: ['short'],
+  },
+  timeframes: ['SHORT_CONFIRM', 'MEDIUM'],
+  signal: ({ symbol, direction, marketState, timeframes }) =>
+    meanReversionStrategy(symbol, direction, marketState, timeframes.SHORT_CONFIRM, timeframes.MEDIUM),
+};
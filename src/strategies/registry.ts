@@ -0,0 +1,262 @@
+/**
+ * 策略注册表
+ * 策略以插件形式声明自己处理的市场状态（及对应方向）、所需的时间框架和信号函数，
+ * 策略路由器按当前市场状态取出所有适用的策略，运行后选出置信度最高的候选。
+ *
+ * - 内置策略（趋势跟踪、均值回归、突破、资金费率套利）在模块加载时注册
+ * - 用户策略放在 STRATEGY_PLUGINS_DIR 目录下，每个 .ts/.js/.mjs 文件默认导出一个策略或策略数组，
+ *   启动时由 initializeStrategyRegistry() 按文件名顺序加载
+ */
+
+import { existsSync, readdirSync, statSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { createLogger } from '../utils/logger';
+import type { MarketState, MarketStateAnalysis } from '../types/marketState';
+import type { FundingSnapshot } from '../services/fundingBasis';
+import type { StandardizedStrategyResult } from './strategyUtils';
+import { trendFollowingPlugin } from './trendFollowingStrategy';
+import { meanReversionPlugin } from './meanReversionStrategy';
+import { breakoutPlugin } from './breakoutStrategy';
+import { fundingCarryPlugin } from './fundingCarryStrategy';
+
+const logger = createLogger({
+  name: 'strategy-registry',
+  level: 'info',
+});
+
+export type StrategyDirection = 'long' | 'short';
+
+/**
+ * 策略信号函数的输入
+ */
+export interface StrategyContext {
+  symbol: string;
+  direction: StrategyDirection;
+  marketState: MarketStateAnalysis;
+  // 按时间框架名称（如 SHORT_CONFIRM、MEDIUM）索引的指标数据，包含策略声明的全部时间框架
+  timeframes: Record<string, any>;
+  // 资金费率快照（仅在策略声明 needsFunding 时提供，获取失败时该策略不参与本轮路由）
+  funding?: FundingSnapshot;
+}
+
+/**
+ * 策略插件
+ */
+export interface StrategyPlugin {
+  id: string; // 写入结果的 strategyType（如 trend_following），在注册表中唯一
+  name: string; // 显示名称
+  description?: string;
+  marketStates: Partial<Record<MarketState, StrategyDirection[]>>; // 处理的市场状态及该状态下的交易方向
+  timeframes: string[]; // 所需时间框架（TIMEFRAMES 的键）
+  needsFunding?: boolean; // 是否需要资金费率快照
+  signal: (context: StrategyContext) => StandardizedStrategyResult | Promise<StandardizedStrategyResult>;
+}
+
+/**
+ * 某个市场状态下适用的策略及方向
+ */
+export interface StrategyCandidate {
+  strategy: StrategyPlugin;
+  direction: StrategyDirection;
+}
+
+export class StrategyPluginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StrategyPluginError';
+  }
+}
+
+const MARKET_STATES: MarketState[] = [
+  'uptrend_oversold',
+  'uptrend_overbought',
+  'downtrend_overbought',
+  'downtrend_oversold',
+  'uptrend_continuation',
+  'downtrend_continuation',
+  'ranging_oversold',
+  'ranging_overbought',
+  'ranging_neutral',
+  'no_clear_signal',
+];
+
+const BUILTIN_STRATEGIES: StrategyPlugin[] = [
+  trendFollowingPlugin,
+  meanReversionPlugin,
+  breakoutPlugin,
+  fundingCarryPlugin,
+];
+
+const PLUGIN_FILE_PATTERN = /\.(ts|js|mjs)$/;
+
+const CONFIDENCE_RANK: Record<StandardizedStrategyResult['confidence'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+const strategies = new Map<string, StrategyPlugin>();
+let initialization: Promise<void> | null = null;
+
+function validateStrategyPlugin(plugin: any, source: string): asserts plugin is StrategyPlugin {
+  const fail = (reason: string) => {
+    throw new StrategyPluginError(`无效的策略插件 (${source}): ${reason}`);
+  };
+
+  if (!plugin || typeof plugin !== 'object') fail('必须导出策略对象');
+  if (typeof plugin.id !== 'string' || plugin.id.trim() === '') fail('缺少 id');
+  if (plugin.id === 'none') fail('id "none" 保留给观望结果');
+  if (typeof plugin.name !== 'string' || plugin.name.trim() === '') fail(`${plugin.id} 缺少 name`);
+  if (typeof plugin.signal !== 'function') fail(`${plugin.id} 缺少 signal 函数`);
+  if (!Array.isArray(plugin.timeframes) || plugin.timeframes.length === 0 || plugin.timeframes.some((tf: unknown) => typeof tf !== 'string')) {
+    fail(`${plugin.id} 的 timeframes 必须是非空的时间框架名称数组`);
+  }
+  if (!plugin.marketStates || typeof plugin.marketStates !== 'object') fail(`${plugin.id} 缺少 marketStates`);
+
+  const entries = Object.entries(plugin.marketStates);
+  if (entries.length === 0) fail(`${plugin.id} 未声明任何市场状态`);
+  for (const [state, directions] of entries) {
+    if (!MARKET_STATES.includes(state as MarketState)) fail(`${plugin.id} 声明了未知的市场状态 ${state}`);
+    if (!Array.isArray(directions) || directions.length === 0 || directions.some(d => d !== 'long' && d !== 'short')) {
+      fail(`${plugin.id} 在 ${state} 下的方向必须是 long/short 组成的非空数组`);
+    }
+  }
+}
+
+/**
+ * 注册策略（ID 重复时抛出 StrategyPluginError）
+ */
+export function registerStrategy(plugin: StrategyPlugin, source: string = 'code'): void {
+  validateStrategyPlugin(plugin, source);
+  if (strategies.has(plugin.id)) {
+    throw new StrategyPluginError(`策略 ID 重复 (${source}): ${plugin.id}`);
+  }
+  strategies.set(plugin.id, plugin);
+}
+
+/**
+ * 注销策略
+ */
+export function unregisterStrategy(id: string): boolean {
+  return strategies.delete(id);
+}
+
+/**
+ * 获取所有已注册的策略（按注册顺序）
+ */
+export function getRegisteredStrategies(): StrategyPlugin[] {
+  return Array.from(strategies.values());
+}
+
+/**
+ * 获取某个市场状态下适用的策略及方向（按注册顺序）
+ */
+export function getStrategiesForState(state: MarketState): StrategyCandidate[] {
+  const candidates: StrategyCandidate[] = [];
+  for (const strategy of strategies.values()) {
+    for (const direction of strategy.marketStates[state] ?? []) {
+      candidates.push({ strategy, direction });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * 汇总候选策略所需的时间框架（去重，保持声明顺序）
+ */
+export function getRequiredTimeframes(candidates: StrategyCandidate[]): string[] {
+  return Array.from(new Set(candidates.flatMap(c => c.strategy.timeframes)));
+}
+
+function compareStrategyResults(
+  a: Pick<StandardizedStrategyResult, 'action' | 'confidence' | 'signalStrength'>,
+  b: Pick<StandardizedStrategyResult, 'action' | 'confidence' | 'signalStrength'>
+): number {
+  const actionable = Number(a.action !== 'wait') - Number(b.action !== 'wait');
+  if (actionable !== 0) return actionable;
+  const confidence = (CONFIDENCE_RANK[a.confidence] ?? 0) - (CONFIDENCE_RANK[b.confidence] ?? 0);
+  if (confidence !== 0) return confidence;
+  return (a.signalStrength || 0) - (b.signalStrength || 0);
+}
+
+/**
+ * 从候选结果中选出最优结果
+ * 有交易信号的优先于观望，其次按置信度、信号强度排序；完全相同时保留先注册的策略
+ */
+export function selectBestStrategyResult<T extends Pick<StandardizedStrategyResult, 'action' | 'confidence' | 'signalStrength'>>(
+  results: T[]
+): T | null {
+  let best: T | null = null;
+  for (const result of results) {
+    if (!best || compareStrategyResults(result, best) > 0) {
+      best = result;
+    }
+  }
+  return best;
+}
+
+/**
+ * 从目录加载用户策略
+ * 每个文件的默认导出可以是单个策略或策略数组，任何文件无效时抛出 StrategyPluginError
+ *
+ * @returns 本次加载的策略
+ */
+export async function loadStrategyPlugins(dir: string): Promise<StrategyPlugin[]> {
+  const absoluteDir = resolve(dir);
+  if (!existsSync(absoluteDir) || !statSync(absoluteDir).isDirectory()) {
+    throw new StrategyPluginError(`策略插件目录不存在: ${absoluteDir}`);
+  }
+
+  const files = readdirSync(absoluteDir)
+    .filter(file => PLUGIN_FILE_PATTERN.test(file) && !file.endsWith('.d.ts'))
+    .sort();
+
+  const loaded: StrategyPlugin[] = [];
+  for (const file of files) {
+    const path = join(absoluteDir, file);
+    let imported: any;
+    try {
+      imported = await import(pathToFileURL(path).href);
+    } catch (error: any) {
+      throw new StrategyPluginError(`加载策略插件失败 (${file}): ${error.message}`);
+    }
+
+    const exported = imported.default;
+    const plugins = Array.isArray(exported) ? exported : [exported];
+    for (const plugin of plugins) {
+      registerStrategy(plugin, file);
+      loaded.push(plugin);
+      logger.info(`🧩 已加载策略插件: ${plugin.id} (${plugin.name}) - ${file}`);
+    }
+  }
+  return loaded;
+}
+
+/**
+ * 初始化策略注册表：加载 STRATEGY_PLUGINS_DIR 中的用户策略（只执行一次）
+ */
+export function initializeStrategyRegistry(): Promise<void> {
+  if (!initialization) {
+    const dir = process.env.STRATEGY_PLUGINS_DIR?.trim();
+    initialization = dir
+      ? loadStrategyPlugins(dir).then(loaded => {
+          logger.info(`策略注册表: ${getRegisteredStrategies().length} 个策略（用户策略 ${loaded.length} 个）`);
+        })
+      : Promise.resolve();
+  }
+  return initialization;
+}
+
+/**
+ * 重置注册表为内置策略（用于测试或重新加载配置）
+ */
+export function resetStrategyRegistry(): void {
+  strategies.clear();
+  initialization = null;
+  for (const plugin of BUILTIN_STRATEGIES) {
+    registerStrategy(plugin, 'builtin');
+  }
+}
+
+resetStrategyRegistry();
@@ -4,6 +4,7 @@
  */
 
 import type { MarketStateAnalysis } from '../types/marketState';
+import type { StrategyPlugin } from './registry';
 import {
   calculateSignalStrength,
   checkMultiTimeframeAlignment,
@@ -344,3 +345,21 @@ export async function trendFollowingStrategy(
     return trendFollowingShortSignal(symbol, timeframe15m, timeframe1h, marketState);
   }
 }
+
+/**
+ * 趋势跟踪策略插件（内置，由策略注册表注册）
+ */
+export const trendFollowingPlugin: StrategyPlugin = {
+  id: 'trend_following',
+  name: '趋势跟踪',
+  description: '在确认的趋势中顺势进场（超卖回调做多、超买反弹做空、趋势延续）',
+  marketStates: {
+    uptrend_oversold: ['long'],
+    uptrend_continuation: ['long'],
+    downtrend_overbought: ['short'],
+    downtrend_continuation: ['short'],
+  },
+  timeframes: ['SHORT_CONFIRM', 'MEDIUM'],
+  signal: ({ symbol, direction, marketState, timeframes }) =>
+    trendFollowingStrategy(symbol, direction, marketState, timeframes.SHORT_CONFIRM, timeframes.MEDIUM),
+};
@@ -32,7 +32,8 @@ import { parsePositionSize } from "../../utils";
 import { z } from "zod";
 import { getExchangeClient } from "../../exchanges";
 import { createClient } from "@libsql/client";
-import { RISK_PARAMS } from "../../config/riskParams";
+import { RISK_PARAMS, checkTradingSymbol } from "../../config/riskParams";
+import { getCurrentAccountId } from "../../utils/accountContext";
 import { getQuantoMultiplier } from "../../utils/contractUtils";
 
 const dbClient = createClient({
@@ -161,9 +162,17 @@ export const getOpenOrdersTool = createTool({
   name: "getOpenOrders",
   description: "获取所有未成交的挂单",
   parameters: z.object({
-    symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).optional().describe("可选：仅获取指定币种的订单"),
+    symbol: z.string().optional().describe("可选：仅获取指定币种的订单"),
   }),
   execute: async ({ symbol }) => {
+    const symbolError = symbol ? checkTradingSymbol(symbol) : undefined;
+    if (symbolError) {
+      return {
+        error: symbolError,
+        message: `获取未成交订单失败: ${symbolError}`,
+      };
+    }
+
     const client = getExchangeClient();
     
     try {
@@ -304,9 +313,10 @@ export const calculateRiskTool = createTool({
       const usedMarginPercent = totalBalance > 0 ? (totalMargin / totalBalance) * 100 : 0;
       
       // 从数据库获取初始资金
-      const initialBalanceResult = await dbClient.execute(
-        "SELECT total_value FROM account_history ORDER BY timestamp ASC LIMIT 1"
-      );
+      const initialBalanceResult = await dbClient.execute({
+        sql: "SELECT total_value FROM account_history WHERE account_id = ? ORDER BY timestamp ASC LIMIT 1",
+        args: [getCurrentAccountId()],
+      });
       const initialBalance = initialBalanceResult.rows[0]
         ? Number.parseFloat(initialBalanceResult.rows[0].total_value as string)
         : 100;
@@ -358,7 +368,11 @@ export const syncPositionsTool = createTool({
       const positions = await exchangeClient.getPositions();
       
       // 清空本地持仓表
-      await dbClient.execute("DELETE FROM positions");
+      const accountId = getCurrentAccountId();
+      await dbClient.execute({
+        sql: "DELETE FROM positions WHERE account_id = ?",
+        args: [accountId],
+      });
       
       // 插入当前持仓
       for (const p of positions) {
@@ -372,10 +386,11 @@ export const syncPositionsTool = createTool({
         // 🔧 同步持仓时，初始化分批止盈百分比为0（全新同步的持仓不应有分批记录）
         await dbClient.execute({
           sql: `INSERT INTO positions 
-                (symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl, 
+                (account_id, symbol, quantity, entry_price, current_price, liquidation_price, unrealized_pnl, 
                  leverage, side, entry_order_id, opened_at, partial_close_percentage)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           args: [
+            accountId,
             symbol,
             Math.abs(size),
             Number.parseFloat(pos.entryPrice || "0"),
@@ -435,12 +450,13 @@ export const getCloseEventsTool = createTool({
           created_at,
           processed
         FROM position_close_events
+        WHERE account_id = ?
       `;
       
-      const args: any[] = [];
+      const args: any[] = [getCurrentAccountId()];
       
       if (symbol) {
-        sql += " WHERE symbol = ?";
+        sql += " AND symbol = ?";
         args.push(symbol);
       }
       
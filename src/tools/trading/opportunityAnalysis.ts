@@ -33,6 +33,7 @@
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
 import { createLogger } from "../../utils/logger";
+import { getCurrentAccountId } from "../../utils/accountContext";
 import { createClient } from "@libsql/client";
 import { analyzeMultipleMarketStates } from "../../services/marketStateAnalyzer";
 import { routeMultipleStrategies } from "../../services/strategyRouter";
@@ -63,7 +64,7 @@ export const analyzeOpeningOpportunitiesTool = createTool({
 
 这个工具会：
 1. 自动识别每个币种的市场状态（上涨趋势、下跌趋势、震荡等）
-2. 根据市场状态选择最优策略（趋势跟踪、均值回归、突破）
+2. 根据市场状态运行所有适用的已注册策略（内置趋势跟踪、均值回归、突破，以及 STRATEGY_PLUGINS_DIR 中的自定义策略），选择置信度最高的信号
 3. 对所有机会进行量化评分（0-100分）
 4. 自动过滤已有持仓的币种
 5. 返回评分最高的前N个开仓机会（N由环境变量 MAX_OPPORTUNITIES_TO_SHOW 控制）
@@ -124,9 +125,10 @@ export const analyzeOpeningOpportunitiesTool = createTool({
         const dbClient = createClient({ url: dbUrl });
         
         // positions表没有status字段，通过quantity != 0判断是否有持仓
-        const openPositions = await dbClient.execute(
-          "SELECT symbol, side FROM positions WHERE quantity != 0"
-        );
+        const openPositions = await dbClient.execute({
+          sql: "SELECT symbol, side FROM positions WHERE account_id = ? AND quantity != 0",
+          args: [getCurrentAccountId()],
+        });
         
         openPositionSymbols = openPositions.rows.map((p: any) => p.symbol as string);
         
@@ -25,7 +25,8 @@ import { createTool } from "@voltagent/core";
 import { z } from "zod";
 import { createClient } from "@libsql/client";
 import { createLogger } from "../../utils/logger";
-import { RISK_PARAMS } from "../../config/riskParams";
+import { RISK_PARAMS, checkTradingSymbol } from "../../config/riskParams";
+import { getCurrentAccountId } from "../../utils/accountContext";
 import { formatStopLossPrice } from "../../utils/priceFormatter";
 import {
   calculateScientificStopLoss,
@@ -34,6 +35,7 @@ import {
   DEFAULT_STOP_LOSS_CONFIG,
   type StopLossConfig,
 } from "../../services/stopLossCalculator";
+import { updatePositionStopLoss } from "../../services/positionStopLoss";
 
 const logger = createLogger({
   name: "stop-loss-management",
@@ -69,12 +71,20 @@ export const calculateStopLossTool = createTool({
 - 风险建议
 - 质量评分（0-100）`,
   parameters: z.object({
-    symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).describe("币种代码"),
+    symbol: z.string().describe("币种代码（须为当前账户的交易币种）"),
     side: z.enum(["long", "short"]).describe("方向：long=做多，short=做空"),
     entryPrice: z.number().describe("入场价格"),
     timeframe: z.enum(["1m", "5m", "15m", "1h", "4h"]).optional().describe("K线周期（默认1h）"),
   }),
   execute: async ({ symbol, side, entryPrice, timeframe = "1h" }) => {
+    const symbolError = checkTradingSymbol(symbol);
+    if (symbolError) {
+      return {
+        success: false,
+        message: symbolError,
+      };
+    }
+
     try {
       if (!RISK_PARAMS.ENABLE_SCIENTIFIC_STOP_LOSS) {
         return {
@@ -157,11 +167,19 @@ export const checkOpenPositionTool = createTool({
 
 建议：在执行 openPosition 之前，先调用此工具检查。如果返回 shouldOpen=false，建议放弃此次交易机会。`,
   parameters: z.object({
-    symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).describe("币种代码"),
+    symbol: z.string().describe("币种代码（须为当前账户的交易币种）"),
     side: z.enum(["long", "short"]).describe("方向：long=做多，short=做空"),
     entryPrice: z.number().describe("计划入场价格（当前市场价）"),
   }),
   execute: async ({ symbol, side, entryPrice }) => {
+    const symbolError = checkTradingSymbol(symbol);
+    if (symbolError) {
+      return {
+        success: false,
+        message: symbolError,
+      };
+    }
+
     try {
       if (!RISK_PARAMS.ENABLE_STOP_LOSS_FILTER) {
         return {
@@ -260,13 +278,21 @@ export const updateTrailingStopTool = createTool({
 - 市场波动率变化，需要调整止损空间
 - 持仓盈利达到一定阈值（如 +3%, +5%），考虑上移止损锁定利润`,
   parameters: z.object({
-    symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).describe("币种代码"),
+    symbol: z.string().describe("币种代码（须为当前账户的交易币种）"),
     side: z.enum(["long", "short"]).describe("方向"),
     entryPrice: z.number().describe("入场价格"),
     currentPrice: z.number().describe("当前市场价格"),
     currentStopLoss: z.number().describe("当前止损价格"),
   }),
   execute: async ({ symbol, side, entryPrice, currentPrice, currentStopLoss }) => {
+    const symbolError = checkTradingSymbol(symbol);
+    if (symbolError) {
+      return {
+        success: false,
+        message: symbolError,
+      };
+    }
+
     try {
       if (!RISK_PARAMS.ENABLE_TRAILING_STOP_LOSS) {
         return {
@@ -279,9 +305,9 @@ export const updateTrailingStopTool = createTool({
       // 检查该持仓是否在最近5分钟内执行过分批止盈
       const recentPartialTakeProfit = await dbClient.execute({
         sql: `SELECT timestamp FROM partial_take_profit_history 
-              WHERE symbol = ? AND status = 'completed' 
+              WHERE account_id = ? AND symbol = ? AND status = 'completed' 
               ORDER BY timestamp DESC LIMIT 1`,
-        args: [symbol],
+        args: [getCurrentAccountId(), symbol],
       });
 
       if (recentPartialTakeProfit.rows.length > 0) {
@@ -404,260 +430,11 @@ export const updatePositionStopLossTool = createTool({
 无论使用哪种方法，系统都会严格验证止损移动方向，
 确保不会出现多单止损下移或空单止损上移的错误行为。`,
   parameters: z.object({
-    symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS).describe("币种代码"),
+    symbol: z.string().describe("币种代码（须为当前账户的交易币种）"),
     stopLoss: z.number().optional().describe("新的止损价格（可选，不传则取消止损）"),
     takeProfit: z.number().optional().describe("新的止盈价格（可选，不传则取消止盈）"),
   }),
-  execute: async ({ symbol, stopLoss, takeProfit }) => {
-    try {
-      const { getExchangeClient } = await import("../../exchanges/index.js");
-      const exchangeClient = getExchangeClient();
-      const contract = exchangeClient.normalizeContract(symbol);
-
-      // 获取当前持仓
-      const positions = await exchangeClient.getPositions();
-      const position = positions.find((p: any) => {
-        const posSymbol = exchangeClient.extractSymbol(p.contract);
-        return posSymbol === symbol;
-      });
-
-      if (!position || Math.abs(parseFloat(position.size)) === 0) {
-        return {
-          success: false,
-          message: `未找到 ${symbol} 的持仓，无法设置止损`,
-        };
-      }
-
-      // 🔥 关键保护：如果提供了新止损价，必须验证方向
-      if (stopLoss !== undefined) {
-        // 从数据库读取当前止损价
-        const { createClient } = await import("@libsql/client");
-        const dbClient = createClient({
-          url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
-        });
-        
-        const result = await dbClient.execute({
-          sql: "SELECT stop_loss, side, entry_price FROM positions WHERE symbol = ?",
-          args: [symbol],
-        });
-        
-        if (result.rows.length > 0) {
-          const currentStopLoss = result.rows[0].stop_loss ? Number(result.rows[0].stop_loss) : null;
-          const side = result.rows[0].side as 'long' | 'short';
-          const entryPrice = Number(result.rows[0].entry_price);
-          
-          // 如果已存在止损，验证移动方向
-          if (currentStopLoss && currentStopLoss > 0) {
-            const isValidMove = side === 'long' 
-              ? stopLoss > currentStopLoss  // 多单：新止损必须更高
-              : stopLoss < currentStopLoss; // 空单：新止损必须更低
-            
-            if (!isValidMove) {
-              const symbolName = symbol.replace(/_USDT$/, '').replace(/USDT$/, '');
-              logger.warn(`❌ 止损移动方向错误！${symbol} ${side}`, {
-                currentStopLoss: formatStopLossPrice(symbolName, currentStopLoss),
-                newStopLoss: formatStopLossPrice(symbolName, stopLoss),
-                direction: side === 'long' ? '多单只能上移' : '空单只能下移'
-              });
-              
-              return {
-                success: false,
-                message: `❌ 止损移动方向错误！${side === 'long' ? '多单' : '空单'}止损${side === 'long' ? '不能下移' : '不能上移'}（当前: ${formatStopLossPrice(symbolName, currentStopLoss)}, 新: ${formatStopLossPrice(symbolName, stopLoss)}）`,
-              };
-            }
-            
-            // 验证通过，记录日志
-            const improvement = Math.abs(stopLoss - currentStopLoss);
-            const improvementPercent = (improvement / currentStopLoss) * 100;
-            const symbolName = symbol.replace(/_USDT$/, '').replace(/USDT$/, '');
-            logger.info(`✅ 止损移动验证通过: ${symbol} ${side}`, {
-              old: formatStopLossPrice(symbolName, currentStopLoss),
-              new: formatStopLossPrice(symbolName, stopLoss),
-              improvement: `${improvementPercent.toFixed(2)}%`,
-              direction: side === 'long' ? '上移' : '下移'
-            });
-          }
-        }
-      }
-
-      // 🔧 如果没有传 takeProfit，从数据库读取原来的止盈价格，保持不变
-      if (takeProfit === undefined) {
-        try {
-          const { createClient } = await import("@libsql/client");
-          const dbClient = createClient({
-            url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
-          });
-          
-          const result = await dbClient.execute({
-            sql: "SELECT profit_target FROM positions WHERE symbol = ?",
-            args: [symbol],
-          });
-          
-          if (result.rows.length > 0 && result.rows[0].profit_target) {
-            takeProfit = Number(result.rows[0].profit_target);
-            logger.info(`📌 保留原止盈价格: ${symbol} = ${takeProfit}`);
-          }
-        } catch (error: any) {
-          logger.warn(`读取原止盈价格失败: ${error.message}`);
-        }
-      }
-
-      // 调用交易所接口设置止损止盈
-      const result = await exchangeClient.setPositionStopLoss(
-        contract,
-        stopLoss,
-        takeProfit
-      );
-
-      if (result.success) {
-        // 更新数据库中的持仓信息和条件单记录
-        try {
-          const { createClient } = await import("@libsql/client");
-          const dbClient = createClient({
-            url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
-          });
-
-          const now = new Date().toISOString();
-          
-          // 0. 获取 position_order_id（开仓订单ID）
-          let positionOrderId: string | null = null;
-          try {
-            // 0.1 首先尝试从旧的条件单中获取
-            const oldOrderResult = await dbClient.execute({
-              sql: `SELECT position_order_id FROM price_orders 
-                    WHERE symbol = ? AND status = 'active' AND position_order_id IS NOT NULL
-                    LIMIT 1`,
-              args: [symbol],
-            });
-            
-            if (oldOrderResult.rows.length > 0 && oldOrderResult.rows[0].position_order_id) {
-              positionOrderId = oldOrderResult.rows[0].position_order_id as string;
-              logger.info(`📎 从旧条件单获取到关联的开仓订单ID: ${positionOrderId}`);
-            } else {
-              // 0.2 从 positions 表获取 entry_order_id
-              const positionResult = await dbClient.execute({
-                sql: `SELECT entry_order_id FROM positions WHERE symbol = ? LIMIT 1`,
-                args: [symbol],
-              });
-              
-              if (positionResult.rows.length > 0 && positionResult.rows[0].entry_order_id) {
-                positionOrderId = positionResult.rows[0].entry_order_id as string;
-                logger.info(`📎 从 positions 表获取到关联的开仓订单ID: ${positionOrderId}`);
-              } else {
-                // 0.3 如果还是没有，从 trades 表查找该币种的开仓订单
-                const tradeResult = await dbClient.execute({
-                  sql: `SELECT order_id FROM trades 
-                        WHERE symbol = ? AND type = 'open' AND status = 'filled'
-                        ORDER BY id DESC LIMIT 1`,
-                  args: [symbol],
-                });
-                
-                if (tradeResult.rows.length > 0 && tradeResult.rows[0].order_id) {
-                  positionOrderId = tradeResult.rows[0].order_id as string;
-                  logger.info(`📎 从 trades 表获取到开仓订单ID: ${positionOrderId}`);
-                } else {
-                  logger.warn(`⚠️ 未找到 ${symbol} 的开仓订单ID，条件单将不关联持仓`);
-                }
-              }
-            }
-          } catch (error: any) {
-            logger.warn(`获取开仓订单ID失败: ${error.message}`);
-          }
-          
-          // 1. 标记旧的条件单为已取消（如果存在）
-          await dbClient.execute({
-            sql: `UPDATE price_orders 
-                  SET status = 'cancelled', updated_at = ?
-                  WHERE symbol = ? AND status = 'active'`,
-            args: [now, symbol],
-          });
-          
-          // 2. 插入新的条件单记录（如果有 positionOrderId，则保持关联）
-          if (result.stopLossOrderId && stopLoss) {
-            await dbClient.execute({
-              sql: `INSERT INTO price_orders 
-                    (order_id, symbol, side, type, trigger_price, order_price, quantity, status, created_at, position_order_id)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-              args: [
-                result.stopLossOrderId,
-                symbol,
-                parseFloat(position.size) > 0 ? 'long' : 'short',
-                'stop_loss',
-                stopLoss,
-                0,
-                Math.abs(parseFloat(position.size)),
-                'active',
-                now,
-                positionOrderId  // 保持与原开仓订单的关联
-              ]
-            });
-          }
-          
-          if (result.takeProfitOrderId && takeProfit) {
-            await dbClient.execute({
-              sql: `INSERT INTO price_orders 
-                    (order_id, symbol, side, type, trigger_price, order_price, quantity, status, created_at, position_order_id)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-              args: [
-                result.takeProfitOrderId,
-                symbol,
-                parseFloat(position.size) > 0 ? 'long' : 'short',
-                'take_profit',
-                takeProfit,
-                0,
-                Math.abs(parseFloat(position.size)),
-                'active',
-                now,
-                positionOrderId  // 保持与原开仓订单的关联
-              ]
-            });
-          }
-
-          // 3. 更新持仓表
-          await dbClient.execute({
-            sql: `UPDATE positions 
-                  SET stop_loss = ?, profit_target = ?, sl_order_id = ?, tp_order_id = ?
-                  WHERE symbol = ?`,
-            args: [
-              stopLoss || null,
-              takeProfit || null,
-              result.stopLossOrderId || null,
-              result.takeProfitOrderId || null,
-              symbol,
-            ],
-          });
-
-          logger.info(`✅ 数据库已更新: ${symbol} 止损=${stopLoss || 'null'}, 止盈=${takeProfit || 'null'}, 订单ID=${result.stopLossOrderId}/${result.takeProfitOrderId}`);
-        } catch (dbError: any) {
-          logger.error(`更新数据库失败: ${dbError.message}`);
-          // 数据库更新失败不影响订单已设置的事实
-        }
-
-        return {
-          success: true,
-          data: {
-            symbol,
-            stopLoss,
-            takeProfit,
-            stopLossOrderId: result.stopLossOrderId,
-            takeProfitOrderId: result.takeProfitOrderId,
-          },
-          message: `✅ ${result.message}`,
-        };
-      } else {
-        return {
-          success: false,
-          message: `❌ ${result.message}`,
-        };
-      }
-    } catch (error: any) {
-      logger.error(`更新持仓止损失败: ${error.message}`);
-      return {
-        success: false,
-        message: `更新失败: ${error.message}`,
-      };
-    }
-  },
+  execute: async (params) => updatePositionStopLoss(params),
 });
 
 /**
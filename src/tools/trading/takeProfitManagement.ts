@@ -32,12 +32,14 @@ import { getExchangeClient } from "../../exchanges";
 import { createClient } from "@libsql/client";
 import { createLogger } from "../../utils/logger";
 import { getChinaTimeISO } from "../../utils/timeUtils";
+import { getCurrentAccountId } from "../../utils/accountContext";
 import { 
   formatStopLossPrice, 
   calculatePartialCloseQuantity,
   getDecimalPlacesBySymbol
 } from "../../utils/priceFormatter";
 import { calculateATR } from "../../services/stopLossCalculator";
+import { acquirePositionLock, type PositionLockHandle } from "../../services/positionLock";
 
 const logger = createLogger({
   name: "take-profit-management",
@@ -272,10 +274,10 @@ async function getPartialTakeProfitHistory(symbol: string, positionOrderId?: str
     const result = await dbClient.execute({
       sql: `
         SELECT * FROM partial_take_profit_history
-        WHERE position_order_id = ? AND status = 'completed'
+        WHERE account_id = ? AND position_order_id = ? AND status = 'completed'
         ORDER BY timestamp DESC
       `,
-      args: [positionOrderId],
+      args: [getCurrentAccountId(), positionOrderId],
     });
     
     return result.rows as any[];
@@ -286,10 +288,10 @@ async function getPartialTakeProfitHistory(symbol: string, positionOrderId?: str
   let result = await dbClient.execute({
     sql: `
       SELECT * FROM partial_take_profit_history
-      WHERE symbol = ? AND status = 'completed'
+      WHERE account_id = ? AND symbol = ? AND status = 'completed'
       ORDER BY timestamp DESC
     `,
-    args: [symbol],
+    args: [getCurrentAccountId(), symbol],
   });
   
   // 如果没找到，尝试Binance格式（无下划线）
@@ -297,10 +299,10 @@ async function getPartialTakeProfitHistory(symbol: string, positionOrderId?: str
     result = await dbClient.execute({
       sql: `
         SELECT * FROM partial_take_profit_history
-        WHERE symbol = ? AND status = 'completed'
+        WHERE account_id = ? AND symbol = ? AND status = 'completed'
         ORDER BY timestamp DESC
       `,
-      args: [contract],
+      args: [getCurrentAccountId(), contract],
     });
   }
   
@@ -310,10 +312,10 @@ async function getPartialTakeProfitHistory(symbol: string, positionOrderId?: str
     result = await dbClient.execute({
       sql: `
         SELECT * FROM partial_take_profit_history
-        WHERE symbol = ? AND status = 'completed'
+        WHERE account_id = ? AND symbol = ? AND status = 'completed'
         ORDER BY timestamp DESC
       `,
-      args: [gateFormat],
+      args: [getCurrentAccountId(), gateFormat],
     });
   }
   
@@ -344,8 +346,8 @@ async function recordPartialTakeProfit(data: {
   try {
     await dbClient.execute({
       sql: `DELETE FROM partial_take_profit_history 
-            WHERE symbol LIKE ? AND stage = ? AND status = 'pending'`,
-      args: [`%${data.symbol}%`, data.stage]
+            WHERE account_id = ? AND symbol LIKE ? AND stage = ? AND status = 'pending'`,
+      args: [getCurrentAccountId(), `%${data.symbol}%`, data.stage]
     });
   } catch (cleanupError: any) {
     logger.warn(`清理pending记录失败: ${cleanupError.message}`);
@@ -354,12 +356,13 @@ async function recordPartialTakeProfit(data: {
   await dbClient.execute({
     sql: `
       INSERT INTO partial_take_profit_history (
-        symbol, side, stage, r_multiple, trigger_price, close_percent,
+        account_id, symbol, side, stage, r_multiple, trigger_price, close_percent,
         closed_quantity, remaining_quantity, pnl, new_stop_loss_price,
         order_id, position_order_id, status, notes, timestamp
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     args: [
+      getCurrentAccountId(),
       data.symbol,
       data.side,
       data.stage,
@@ -419,8 +422,8 @@ export const partialTakeProfitTool = createTool({
       if (placeholderId) {
         try {
           await dbClient.execute({
-            sql: `DELETE FROM partial_take_profit_history WHERE order_id = ? AND status = 'pending'`,
-            args: [placeholderId]
+            sql: `DELETE FROM partial_take_profit_history WHERE account_id = ? AND order_id = ? AND status = 'pending'`,
+            args: [getCurrentAccountId(), placeholderId]
           });
           logger.debug(`✅ 已清理pending占位记录: ${placeholderId}`);
         } catch (cleanupError: any) {
@@ -429,6 +432,7 @@ export const partialTakeProfitTool = createTool({
       }
     };
     
+    let positionLock: PositionLockHandle | null = null;
     try {
       // 🔧 关键修复：数据库统一使用简化符号（BTC、ETH等），而非完整合约名
       // 这样可以在 Gate.io 和 Binance 之间保持一致性
@@ -441,8 +445,8 @@ export const partialTakeProfitTool = createTool({
       const cutoffTime = new Date(Date.now() - 30000).toISOString();
       const recentCheck = await dbClient.execute({
         sql: `SELECT COUNT(*) as count FROM partial_take_profit_history 
-              WHERE symbol LIKE ? AND stage = ? AND timestamp > ?`,
-        args: [`%${symbol}%`, requestedStage, cutoffTime]
+              WHERE account_id = ? AND symbol LIKE ? AND stage = ? AND timestamp > ?`,
+        args: [getCurrentAccountId(), `%${symbol}%`, requestedStage, cutoffTime]
       });
       
       const recentExecutions = Number(recentCheck.rows[0]?.count || 0);
@@ -464,8 +468,8 @@ export const partialTakeProfitTool = createTool({
         // 再次检查是否已有记录（在事务保护下）
         const doubleCheck = await dbClient.execute({
           sql: `SELECT COUNT(*) as count FROM partial_take_profit_history 
-                WHERE symbol LIKE ? AND stage = ? AND status = 'completed'`,
-          args: [`%${symbol}%`, requestedStage]
+                WHERE account_id = ? AND symbol LIKE ? AND stage = ? AND status = 'completed'`,
+          args: [getCurrentAccountId(), `%${symbol}%`, requestedStage]
         });
         
         const existingCount = Number(doubleCheck.rows[0]?.count || 0);
@@ -483,10 +487,11 @@ export const partialTakeProfitTool = createTool({
         placeholderId = `pending_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         await dbClient.execute({
           sql: `INSERT INTO partial_take_profit_history 
-                (symbol, side, stage, r_multiple, trigger_price, close_percent, 
+                (account_id, symbol, side, stage, r_multiple, trigger_price, close_percent, 
                  closed_quantity, remaining_quantity, pnl, order_id, status, timestamp)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           args: [
+            getCurrentAccountId(),
             symbol, 'pending', requestedStage, 0, 0, 0, 0, 0, 0, 
             placeholderId, 'pending', new Date().toISOString()
           ]
@@ -540,8 +545,8 @@ export const partialTakeProfitTool = createTool({
       // 3. Gate.io格式（带下划线）：ETH_USDT
       
       let dbPosition = await dbClient.execute({
-        sql: "SELECT * FROM positions WHERE symbol = ? AND quantity != 0 LIMIT 1",
-        args: [symbol],
+        sql: "SELECT * FROM positions WHERE account_id = ? AND symbol = ? AND quantity != 0 LIMIT 1",
+        args: [getCurrentAccountId(), symbol],
       });
       
       // 如果找到了，更新 dbSymbol 为数据库中实际的格式
@@ -553,8 +558,8 @@ export const partialTakeProfitTool = createTool({
       // 如果没找到，尝试Binance格式（ETHUSDT）
       if (dbPosition.rows.length === 0) {
         dbPosition = await dbClient.execute({
-          sql: "SELECT * FROM positions WHERE symbol = ? AND quantity != 0 LIMIT 1",
-          args: [contract],
+          sql: "SELECT * FROM positions WHERE account_id = ? AND symbol = ? AND quantity != 0 LIMIT 1",
+          args: [getCurrentAccountId(), contract],
         });
         
         if (dbPosition.rows.length > 0) {
@@ -567,8 +572,8 @@ export const partialTakeProfitTool = createTool({
       if (dbPosition.rows.length === 0) {
         const gateFormat = symbol + '_USDT';
         dbPosition = await dbClient.execute({
-          sql: "SELECT * FROM positions WHERE symbol = ? AND quantity != 0 LIMIT 1",
-          args: [gateFormat],
+          sql: "SELECT * FROM positions WHERE account_id = ? AND symbol = ? AND quantity != 0 LIMIT 1",
+          args: [getCurrentAccountId(), gateFormat],
         });
         
         if (dbPosition.rows.length > 0) {
@@ -596,10 +601,21 @@ export const partialTakeProfitTool = createTool({
         position = row; // 使用数据库记录
       }
       
+      // 🔒 获取持仓锁（由分批止盈执行器调用时复用执行器已持有的锁）
+      positionLock = await acquirePositionLock(dbClient, { symbol: dbSymbol, side, purpose: "closing", owner: "partial-take-profit" });
+      if (!positionLock) {
+        await cleanupPendingRecord(placeholderId);
+        return {
+          success: false,
+          message: `${symbol} ${side === "long" ? "多单" : "空单"}正在被其他操作处理，请稍后重试`,
+          reason: 'lock_busy',
+        };
+      }
+      
       // 2. 从数据库获取止损价和开仓订单ID
       const positionResult = await dbClient.execute({
-        sql: "SELECT stop_loss, partial_close_percentage, entry_order_id FROM positions WHERE symbol = ? AND quantity != 0 LIMIT 1",
-        args: [dbSymbol],
+        sql: "SELECT stop_loss, partial_close_percentage, entry_order_id FROM positions WHERE account_id = ? AND symbol = ? AND quantity != 0 LIMIT 1",
+        args: [getCurrentAccountId(), dbSymbol],
       });
       
       if (positionResult.rows.length === 0) {
@@ -790,8 +806,8 @@ export const partialTakeProfitTool = createTool({
         if (placeholderId) {
           try {
             await dbClient.execute({
-              sql: `DELETE FROM partial_take_profit_history WHERE order_id = ? AND status = 'pending'`,
-              args: [placeholderId]
+              sql: `DELETE FROM partial_take_profit_history WHERE account_id = ? AND order_id = ? AND status = 'pending'`,
+              args: [getCurrentAccountId(), placeholderId]
             });
             logger.debug(`✅ 已清理pending占位记录: ${placeholderId}`);
           } catch (cleanupError: any) {
@@ -906,6 +922,7 @@ export const partialTakeProfitTool = createTool({
           // 对于 short 仓位，平仓数量应该是正数（买入）
           const closeSize = side === "long" ? -closeQuantityInCoin : closeQuantityInCoin;
           
+          await positionLock.verify();
           closeOrderResponse = await exchangeClient.placeOrder({
             contract,
             size: closeSize,
@@ -1004,9 +1021,10 @@ export const partialTakeProfitTool = createTool({
       try {
         await dbClient.execute({
           sql: `INSERT INTO trades 
-                (order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                (account_id, order_id, symbol, side, type, price, quantity, leverage, pnl, fee, timestamp, status)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           args: [
+            getCurrentAccountId(),
             closeOrderResponse.id,
             dbSymbol,
             side,
@@ -1033,8 +1051,8 @@ export const partialTakeProfitTool = createTool({
       
       // 从数据库获取当前的止损、止盈价格和开仓订单ID
       const posResult = await dbClient.execute({
-        sql: "SELECT stop_loss, profit_target, entry_order_id FROM positions WHERE symbol = ?",
-        args: [dbSymbol],
+        sql: "SELECT stop_loss, profit_target, entry_order_id FROM positions WHERE account_id = ? AND symbol = ?",
+        args: [getCurrentAccountId(), dbSymbol],
       });
       
       const currentStopLoss = posResult.rows.length > 0 
@@ -1055,8 +1073,8 @@ export const partialTakeProfitTool = createTool({
       if (newStopLossPrice) {
         logger.info(`更新止损价: ${currentStopLoss} -> ${newStopLossPrice}`);
         await dbClient.execute({
-          sql: "UPDATE positions SET stop_loss = ? WHERE symbol = ?",
-          args: [newStopLossPrice, dbSymbol],
+          sql: "UPDATE positions SET stop_loss = ? WHERE account_id = ? AND symbol = ?",
+          args: [newStopLossPrice, getCurrentAccountId(), dbSymbol],
         });
       }
       
@@ -1065,8 +1083,8 @@ export const partialTakeProfitTool = createTool({
         try {
           // ⭐ 先在数据库中标记旧条件单为已取消
           await dbClient.execute({
-            sql: "UPDATE price_orders SET status = 'cancelled', updated_at = ? WHERE symbol = ? AND status = 'active'",
-            args: [getChinaTimeISO(), dbSymbol],
+            sql: "UPDATE price_orders SET status = 'cancelled', updated_at = ? WHERE account_id = ? AND symbol = ? AND status = 'active'",
+            args: [getChinaTimeISO(), getCurrentAccountId(), dbSymbol],
           });
           logger.info(`✅ 数据库中的旧条件单已标记为取消: ${symbol}`);
           
@@ -1086,23 +1104,24 @@ export const partialTakeProfitTool = createTool({
             
             // ⭐ 更新数据库中的持仓数量
             await dbClient.execute({
-              sql: "UPDATE positions SET quantity = ? WHERE symbol = ?",
-              args: [remainingQuantityInCoin, dbSymbol],
+              sql: "UPDATE positions SET quantity = ? WHERE account_id = ? AND symbol = ?",
+              args: [remainingQuantityInCoin, getCurrentAccountId(), dbSymbol],
             });
             
             // 更新数据库中的订单ID
             if (result.stopLossOrderId) {
               await dbClient.execute({
-                sql: "UPDATE positions SET sl_order_id = ? WHERE symbol = ?",
-                args: [result.stopLossOrderId, dbSymbol],
+                sql: "UPDATE positions SET sl_order_id = ? WHERE account_id = ? AND symbol = ?",
+                args: [result.stopLossOrderId, getCurrentAccountId(), dbSymbol],
               });
               
               // ⭐ 在 price_orders 表中记录新的止损条件单（使用开仓订单ID）
               await dbClient.execute({
                 sql: `INSERT INTO price_orders 
-                      (order_id, symbol, side, type, trigger_price, quantity, status, position_order_id, created_at)
-                      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                      (account_id, order_id, symbol, side, type, trigger_price, quantity, status, position_order_id, created_at)
+                      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                 args: [
+                  getCurrentAccountId(),
                   result.stopLossOrderId,
                   symbol,
                   side,
@@ -1118,17 +1137,18 @@ export const partialTakeProfitTool = createTool({
             
             if (result.takeProfitOrderId) {
               await dbClient.execute({
-                sql: "UPDATE positions SET tp_order_id = ? WHERE symbol = ?",
-                args: [result.takeProfitOrderId, dbSymbol],
+                sql: "UPDATE positions SET tp_order_id = ? WHERE account_id = ? AND symbol = ?",
+                args: [result.takeProfitOrderId, getCurrentAccountId(), dbSymbol],
               });
               
               // ⭐ 在 price_orders 表中记录新的止盈条件单（使用开仓订单ID）
               if (result.actualTakeProfit && result.actualTakeProfit > 0) {
                 await dbClient.execute({
                   sql: `INSERT INTO price_orders 
-                        (order_id, symbol, side, type, trigger_price, quantity, status, position_order_id, created_at)
-                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                        (account_id, order_id, symbol, side, type, trigger_price, quantity, status, position_order_id, created_at)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                   args: [
+                    getCurrentAccountId(),
                     result.takeProfitOrderId,
                     symbol,
                     side,
@@ -1154,8 +1174,8 @@ export const partialTakeProfitTool = createTool({
         // ⭐ 测试模式：仍需更新数据库中的条件单和持仓数量
         // 1. 标记旧条件单为已取消
         await dbClient.execute({
-          sql: "UPDATE price_orders SET status = 'cancelled', updated_at = ? WHERE symbol = ? AND status = 'active'",
-          args: [getChinaTimeISO(), dbSymbol],
+          sql: "UPDATE price_orders SET status = 'cancelled', updated_at = ? WHERE account_id = ? AND symbol = ? AND status = 'active'",
+          args: [getChinaTimeISO(), getCurrentAccountId(), dbSymbol],
         });
         
         // 2. 插入新的止损条件单（使用新的止损价和剩余数量，使用开仓订单ID）
@@ -1163,9 +1183,10 @@ export const partialTakeProfitTool = createTool({
           const newSlOrderId = `SL_TEST_${Date.now()}`;
           await dbClient.execute({
             sql: `INSERT INTO price_orders 
-                  (order_id, symbol, side, type, trigger_price, quantity, status, position_order_id, created_at)
-                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                  (account_id, order_id, symbol, side, type, trigger_price, quantity, status, position_order_id, created_at)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             args: [
+              getCurrentAccountId(),
               newSlOrderId,
               dbSymbol,
               side,
@@ -1180,8 +1201,8 @@ export const partialTakeProfitTool = createTool({
           
           // 更新positions表的sl_order_id
           await dbClient.execute({
-            sql: "UPDATE positions SET sl_order_id = ? WHERE symbol = ?",
-            args: [newSlOrderId, dbSymbol],
+            sql: "UPDATE positions SET sl_order_id = ? WHERE account_id = ? AND symbol = ?",
+            args: [newSlOrderId, getCurrentAccountId(), dbSymbol],
           });
         }
         
@@ -1190,9 +1211,10 @@ export const partialTakeProfitTool = createTool({
           const newTpOrderId = `TP_TEST_${Date.now()}`;
           await dbClient.execute({
             sql: `INSERT INTO price_orders 
-                  (order_id, symbol, side, type, trigger_price, quantity, status, position_order_id, created_at)
-                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                  (account_id, order_id, symbol, side, type, trigger_price, quantity, status, position_order_id, created_at)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             args: [
+              getCurrentAccountId(),
               newTpOrderId,
               dbSymbol,
               side,
@@ -1207,8 +1229,8 @@ export const partialTakeProfitTool = createTool({
           
           // 更新positions表的tp_order_id
           await dbClient.execute({
-            sql: "UPDATE positions SET tp_order_id = ? WHERE symbol = ?",
-            args: [newTpOrderId, dbSymbol],
+            sql: "UPDATE positions SET tp_order_id = ? WHERE account_id = ? AND symbol = ?",
+            args: [newTpOrderId, getCurrentAccountId(), dbSymbol],
           });
         }
       }
@@ -1238,8 +1260,8 @@ export const partialTakeProfitTool = createTool({
       }
       
       await dbClient.execute({
-        sql: "UPDATE positions SET quantity = ?, partial_close_percentage = ?, unrealized_pnl = ?, current_price = ? WHERE symbol = ?",
-        args: [remainingQuantityInCoin, newClosedPercent, updatedUnrealizedPnl, currentPrice, dbSymbol],
+        sql: "UPDATE positions SET quantity = ?, partial_close_percentage = ?, unrealized_pnl = ?, current_price = ? WHERE account_id = ? AND symbol = ?",
+        args: [remainingQuantityInCoin, newClosedPercent, updatedUnrealizedPnl, currentPrice, getCurrentAccountId(), dbSymbol],
       });
       
       // 10. 记录分批止盈历史
@@ -1264,8 +1286,8 @@ export const partialTakeProfitTool = createTool({
       if (placeholderId) {
         try {
           await dbClient.execute({
-            sql: `DELETE FROM partial_take_profit_history WHERE order_id = ? AND status = 'pending'`,
-            args: [placeholderId]
+            sql: `DELETE FROM partial_take_profit_history WHERE account_id = ? AND order_id = ? AND status = 'pending'`,
+            args: [getCurrentAccountId(), placeholderId]
           });
           logger.debug(`✅ 已清理pending占位记录: ${placeholderId}`);
         } catch (cleanupError: any) {
@@ -1301,11 +1323,12 @@ export const partialTakeProfitTool = createTool({
         
         await dbClient.execute({
           sql: `INSERT INTO position_close_events 
-                (symbol, side, entry_price, close_price, quantity, leverage, 
+                (account_id, symbol, side, entry_price, close_price, quantity, leverage, 
                  pnl, pnl_percent, fee, close_reason, trigger_type, trigger_order_id, order_id, 
                  position_order_id, created_at, processed)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           args: [
+            getCurrentAccountId(),
             dbSymbol,
             side,
             entryPrice,
@@ -1351,9 +1374,9 @@ export const partialTakeProfitTool = createTool({
       try {
         await dbClient.execute({
           sql: `DELETE FROM partial_take_profit_history 
-                WHERE symbol LIKE ? AND stage = ? AND status = 'pending' 
+                WHERE account_id = ? AND symbol LIKE ? AND stage = ? AND status = 'pending' 
                 AND timestamp > datetime('now', '-5 minutes')`,
-          args: [`%${symbol}%`, Number.parseInt(stage, 10)]
+          args: [getCurrentAccountId(), `%${symbol}%`, Number.parseInt(stage, 10)]
         });
         logger.debug(`已清理异常pending记录: ${symbol} Stage${stage}`);
       } catch (cleanupError: any) {
@@ -1364,6 +1387,8 @@ export const partialTakeProfitTool = createTool({
         success: false,
         message: `分批止盈执行失败: ${error.message}`,
       };
+    } finally {
+      await positionLock?.release();
     }
   },
 });
@@ -1428,8 +1453,8 @@ export const checkPartialTakeProfitOpportunityTool = createTool({
       // 如果交易所无持仓，从数据库读取
       if (activePositions.length === 0) {
         const dbPositions = await dbClient.execute({
-          sql: "SELECT * FROM positions WHERE quantity != 0",
-          args: [],
+          sql: "SELECT * FROM positions WHERE account_id = ? AND quantity != 0",
+          args: [getCurrentAccountId()],
         });
         
         if (dbPositions.rows.length === 0) {
@@ -1466,15 +1491,15 @@ export const checkPartialTakeProfitOpportunityTool = createTool({
         
         // 优先使用简化符号查询（标准格式）
         let positionResult = await dbClient.execute({
-          sql: "SELECT stop_loss, entry_order_id FROM positions WHERE symbol = ? AND quantity != 0 LIMIT 1",
-          args: [symbol],
+          sql: "SELECT stop_loss, entry_order_id FROM positions WHERE account_id = ? AND symbol = ? AND quantity != 0 LIMIT 1",
+          args: [getCurrentAccountId(), symbol],
         });
         
         // 如果没找到，尝试使用完整合约名查询（兼容旧数据）
         if (positionResult.rows.length === 0) {
           positionResult = await dbClient.execute({
-            sql: "SELECT stop_loss, entry_order_id FROM positions WHERE symbol = ? AND quantity != 0 LIMIT 1",
-            args: [position.contract],
+            sql: "SELECT stop_loss, entry_order_id FROM positions WHERE account_id = ? AND symbol = ? AND quantity != 0 LIMIT 1",
+            args: [getCurrentAccountId(), position.contract],
           });
           logger.info(`🔍 数据库查询结果（完整格式）: contract=${position.contract}, rows=${positionResult.rows.length}, stop_loss=${positionResult.rows[0]?.stop_loss || 'NULL'}`);
         } else {
@@ -1518,8 +1543,8 @@ export const checkPartialTakeProfitOpportunityTool = createTool({
                 // 🔧 同步到数据库，避免下次重复查询
                 try {
                   await dbClient.execute({
-                    sql: "UPDATE positions SET stop_loss = ?, sl_order_id = ? WHERE symbol = ? AND quantity != 0",
-                    args: [stopLossPrice.toString(), slOrderId, symbol]
+                    sql: "UPDATE positions SET stop_loss = ?, sl_order_id = ? WHERE account_id = ? AND symbol = ? AND quantity != 0",
+                    args: [stopLossPrice.toString(), slOrderId, getCurrentAccountId(), symbol]
                   });
                   logger.info(`✅ ${symbol} 止损价已同步到数据库`);
                 } catch (updateError: any) {
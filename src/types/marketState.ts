@@ -140,7 +140,7 @@ export interface MarketStateAnalysis {
  * 策略推荐
  */
 export interface StrategyRecommendation {
-  strategyType: "trend_following" | "mean_reversion" | "breakout" | "none";
+  strategyType: string; // 策略注册表中的策略 ID（如 "trend_following"），观望时为 "none"
   direction: "long" | "short" | "wait";
   confidence: "high" | "medium" | "low";
   reason: string;
@@ -178,7 +178,7 @@ export interface StrategyResult {
   opportunityScore: number; // 0-100
   recommendedLeverage: number; // 推荐杠杆倍数
   marketState: MarketState;
-  strategyType: string; // "trend_following" | "mean_reversion" | "breakout"
+  strategyType: string; // 策略注册表中的策略 ID（如 "trend_following"、"mean_reversion"、"breakout"）
   reason: string; // 人类可读的决策理由
   
   keyMetrics: { // 关键指标快照
@@ -0,0 +1,53 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 账户上下文
+ * 基于 AsyncLocalStorage 在异步调用链中传递当前交易账户，
+ * 使交易所客户端、风险参数和数据库读写在多账户运行时自动按账户隔离
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { AccountConfig } from "../config/accounts";
+
+/**
+ * 默认账户ID（单账户部署及历史数据使用）
+ */
+export const DEFAULT_ACCOUNT_ID = "default";
+
+const accountStorage = new AsyncLocalStorage<AccountConfig>();
+
+/**
+ * 在指定账户上下文中执行函数（包括其中创建的定时器和异步回调）
+ */
+export function runWithAccount<T>(account: AccountConfig, fn: () => T): T {
+  return accountStorage.run(account, fn);
+}
+
+/**
+ * 获取当前账户配置（不在任何账户上下文中时返回 undefined）
+ */
+export function getCurrentAccount(): AccountConfig | undefined {
+  return accountStorage.getStore();
+}
+
+/**
+ * 获取当前账户ID（不在任何账户上下文中时返回默认账户）
+ */
+export function getCurrentAccountId(): string {
+  return accountStorage.getStore()?.id || DEFAULT_ACCOUNT_ID;
+}
@@ -0,0 +1,590 @@
+/**
+ * ai-auto-trading - AI 加密货币自动交易系统
+ * Copyright (C) 2025 losesky
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 技术指标库
+ *
+ * 交易循环（提示词）、市场数据工具、多时间框架分析（评分）和止损计算器共用同一套实现，
+ * 保证同一组K线在各处得到相同的指标值。
+ *
+ * 统一约定：
+ * - EMA 与 Wilder 平滑都以前 period 个值的简单平均作为初值，之后递推（与 TA-Lib / TradingView 一致）；
+ *   数据不足 period 个时返回已有数据的简单平均，isReady 为 false
+ * - RSI、ATR、ADX 使用 Wilder 平滑；真实波幅从第二根K线开始计算（需要前收盘价）
+ * - RSI 数据不足时返回中性值 50，MACD 在慢线就绪前返回 0
+ *
+ * 每个指标都是可增量更新的类（update 传入最新一根K线或收盘价，返回当前值），
+ * 也提供 calculateXxx 批量函数（返回最后一个值）和 indicatorSeries（返回逐根K线的序列）。
+ */
+
+/**
+ * 标准化后的K线
+ */
+export interface OHLCV {
+  time: number;     // 毫秒时间戳（无时间时为 0）
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * 指标计算所需的K线字段
+ */
+export type IndicatorCandle = Pick<OHLCV, "high" | "low" | "close"> & Partial<Pick<OHLCV, "time" | "volume">>;
+
+/**
+ * 可增量更新的指标
+ */
+export interface StreamingIndicator<I, O> {
+  update(input: I): O;
+  readonly value: O;
+  readonly isReady: boolean;
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface ADXValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface StochasticRSIValue {
+  k: number;
+  d: number;
+}
+
+export interface KeltnerChannelsValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === "string" ? Number.parseFloat(value) : Number(value);
+}
+
+function pickNumber(candle: Record<string, unknown>, ...keys: string[]): number {
+  for (const key of keys) {
+    if (candle[key] !== undefined && candle[key] !== null) {
+      return toNumber(candle[key]);
+    }
+  }
+  return Number.NaN;
+}
+
+/**
+ * 将交易所返回的K线统一为数值格式
+ *
+ * 兼容：
+ * - 标准化字段 { time, open, high, low, close, volume }（数值或字符串）
+ * - 原始字段 { t, o, h, l, c, v }（Gate.io FuturesCandlestick 等）
+ * - 旧数组格式 [t, v, c, h, l, o]
+ *
+ * 收盘价无效的K线被丢弃；缺少开高低价时用收盘价补齐，成交量无效时记为 0，秒级时间戳转换为毫秒
+ */
+export function normalizeCandles(candles: any[]): OHLCV[] {
+  const result: OHLCV[] = [];
+  for (const raw of candles || []) {
+    let candle: OHLCV;
+    if (Array.isArray(raw)) {
+      candle = {
+        time: toNumber(raw[0]),
+        volume: toNumber(raw[1]),
+        close: toNumber(raw[2]),
+        high: toNumber(raw[3]),
+        low: toNumber(raw[4]),
+        open: toNumber(raw[5]),
+      };
+    } else if (raw && typeof raw === "object") {
+      candle = {
+        time: pickNumber(raw, "time", "timestamp", "t"),
+        open: pickNumber(raw, "open", "o"),
+        high: pickNumber(raw, "high", "h"),
+        low: pickNumber(raw, "low", "l"),
+        close: pickNumber(raw, "close", "c"),
+        volume: pickNumber(raw, "volume", "v"),
+      };
+    } else {
+      continue;
+    }
+
+    if (!Number.isFinite(candle.close)) continue;
+    if (!Number.isFinite(candle.open)) candle.open = candle.close;
+    if (!Number.isFinite(candle.high)) candle.high = Math.max(candle.open, candle.close);
+    if (!Number.isFinite(candle.low)) candle.low = Math.min(candle.open, candle.close);
+    if (!Number.isFinite(candle.volume) || candle.volume < 0) candle.volume = 0;
+    if (!Number.isFinite(candle.time) || candle.time < 0) candle.time = 0;
+    if (candle.time > 0 && candle.time < 1e12) candle.time *= 1000;
+    result.push(candle);
+  }
+  return result;
+}
+
+function assertPeriod(name: string, period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`${name} 周期必须是正整数: ${period}`);
+  }
+}
+
+function trueRange(candle: IndicatorCandle, prevClose: number): number {
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - prevClose),
+    Math.abs(candle.low - prevClose),
+  );
+}
+
+/**
+ * 以简单平均为初值的递推平均（EMA: alpha = 2/(n+1)，Wilder: alpha = 1/n）
+ */
+class SeededAverage {
+  private count = 0;
+  private sum = 0;
+  private current = 0;
+
+  constructor(
+    private readonly period: number,
+    private readonly alpha: number,
+  ) {}
+
+  update(value: number): number {
+    if (this.count < this.period) {
+      this.count++;
+      this.sum += value;
+      this.current = this.sum / this.count;
+    } else {
+      this.current = this.alpha * value + (1 - this.alpha) * this.current;
+    }
+    return this.current;
+  }
+
+  get value(): number {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.count >= this.period;
+  }
+}
+
+/**
+ * 简单移动平均
+ */
+export class SMA implements StreamingIndicator<number, number> {
+  private readonly window: number[] = [];
+  private sum = 0;
+
+  constructor(private readonly period: number) {
+    assertPeriod("SMA", period);
+  }
+
+  update(value: number): number {
+    this.window.push(value);
+    this.sum += value;
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift() ?? 0;
+    }
+    return this.value;
+  }
+
+  get value(): number {
+    return this.window.length > 0 ? this.sum / this.window.length : 0;
+  }
+
+  get isReady(): boolean {
+    return this.window.length >= this.period;
+  }
+}
+
+/**
+ * 指数移动平均
+ */
+export class EMA implements StreamingIndicator<number, number> {
+  private readonly average: SeededAverage;
+
+  constructor(period: number) {
+    assertPeriod("EMA", period);
+    this.average = new SeededAverage(period, 2 / (period + 1));
+  }
+
+  update(value: number): number {
+    return this.average.update(value);
+  }
+
+  get value(): number {
+    return this.average.value;
+  }
+
+  get isReady(): boolean {
+    return this.average.isReady;
+  }
+}
+
+/**
+ * 相对强弱指数（Wilder 平滑）
+ */
+export class RSI implements StreamingIndicator<number, number> {
+  private readonly gain: SeededAverage;
+  private readonly loss: SeededAverage;
+  private prevClose: number | null = null;
+
+  constructor(period = 14) {
+    assertPeriod("RSI", period);
+    this.gain = new SeededAverage(period, 1 / period);
+    this.loss = new SeededAverage(period, 1 / period);
+  }
+
+  update(close: number): number {
+    if (this.prevClose !== null) {
+      const change = close - this.prevClose;
+      this.gain.update(Math.max(change, 0));
+      this.loss.update(Math.max(-change, 0));
+    }
+    this.prevClose = close;
+    return this.value;
+  }
+
+  get value(): number {
+    if (!this.isReady) return 50;
+    const avgGain = this.gain.value;
+    const avgLoss = this.loss.value;
+    if (avgLoss === 0) return avgGain > 0 ? 100 : 50;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  }
+
+  get isReady(): boolean {
+    return this.gain.isReady;
+  }
+}
+
+/**
+ * MACD（快线 EMA - 慢线 EMA，信号线为 MACD 的 EMA）
+ */
+export class MACD implements StreamingIndicator<number, MACDValue> {
+  private readonly fast: EMA;
+  private readonly slow: EMA;
+  private readonly signal: EMA;
+  private current: MACDValue = { macd: 0, signal: 0, histogram: 0 };
+
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signal = new EMA(signalPeriod);
+  }
+
+  update(close: number): MACDValue {
+    this.fast.update(close);
+    this.slow.update(close);
+    if (this.slow.isReady) {
+      const macd = this.fast.value - this.slow.value;
+      const signal = this.signal.update(macd);
+      this.current = { macd, signal, histogram: macd - signal };
+    }
+    return this.current;
+  }
+
+  get value(): MACDValue {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.signal.isReady;
+  }
+}
+
+/**
+ * 平均真实波幅（Wilder 平滑）
+ */
+export class ATR implements StreamingIndicator<IndicatorCandle, number> {
+  private readonly average: SeededAverage;
+  private prevClose: number | null = null;
+
+  constructor(period = 14) {
+    assertPeriod("ATR", period);
+    this.average = new SeededAverage(period, 1 / period);
+  }
+
+  update(candle: IndicatorCandle): number {
+    if (this.prevClose !== null) {
+      this.average.update(trueRange(candle, this.prevClose));
+    }
+    this.prevClose = candle.close;
+    return this.value;
+  }
+
+  get value(): number {
+    return this.average.value;
+  }
+
+  get isReady(): boolean {
+    return this.average.isReady;
+  }
+}
+
+/**
+ * 平均趋向指数（ADX 及 +DI / -DI，Wilder 平滑）
+ */
+export class ADX implements StreamingIndicator<IndicatorCandle, ADXValue> {
+  private readonly tr: SeededAverage;
+  private readonly plusDM: SeededAverage;
+  private readonly minusDM: SeededAverage;
+  private readonly dx: SeededAverage;
+  private prev: IndicatorCandle | null = null;
+  private current: ADXValue = { adx: 0, plusDI: 0, minusDI: 0 };
+
+  constructor(period = 14) {
+    assertPeriod("ADX", period);
+    this.tr = new SeededAverage(period, 1 / period);
+    this.plusDM = new SeededAverage(period, 1 / period);
+    this.minusDM = new SeededAverage(period, 1 / period);
+    this.dx = new SeededAverage(period, 1 / period);
+  }
+
+  update(candle: IndicatorCandle): ADXValue {
+    if (this.prev) {
+      const up = candle.high - this.prev.high;
+      const down = this.prev.low - candle.low;
+      this.tr.update(trueRange(candle, this.prev.close));
+      this.plusDM.update(up > down && up > 0 ? up : 0);
+      this.minusDM.update(down > up && down > 0 ? down : 0);
+
+      if (this.tr.isReady) {
+        const atr = this.tr.value;
+        const plusDI = atr > 0 ? (100 * this.plusDM.value) / atr : 0;
+        const minusDI = atr > 0 ? (100 * this.minusDM.value) / atr : 0;
+        const sum = plusDI + minusDI;
+        const adx = this.dx.update(sum > 0 ? (100 * Math.abs(plusDI - minusDI)) / sum : 0);
+        this.current = { adx, plusDI, minusDI };
+      }
+    }
+    this.prev = candle;
+    return this.current;
+  }
+
+  get value(): ADXValue {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.dx.isReady;
+  }
+}
+
+/**
+ * 随机 RSI（%K 为 RSI 在窗口内的位置的平滑，%D 为 %K 的平滑）
+ */
+export class StochasticRSI implements StreamingIndicator<number, StochasticRSIValue> {
+  private readonly rsi: RSI;
+  private readonly rsiWindow: number[] = [];
+  private readonly kAverage: SMA;
+  private readonly dAverage: SMA;
+  private current: StochasticRSIValue = { k: 50, d: 50 };
+
+  constructor(
+    rsiPeriod = 14,
+    private readonly stochPeriod = 14,
+    kPeriod = 3,
+    dPeriod = 3,
+  ) {
+    assertPeriod("StochasticRSI", stochPeriod);
+    this.rsi = new RSI(rsiPeriod);
+    this.kAverage = new SMA(kPeriod);
+    this.dAverage = new SMA(dPeriod);
+  }
+
+  update(close: number): StochasticRSIValue {
+    const rsi = this.rsi.update(close);
+    if (!this.rsi.isReady) return this.current;
+
+    this.rsiWindow.push(rsi);
+    if (this.rsiWindow.length > this.stochPeriod) {
+      this.rsiWindow.shift();
+    }
+    if (this.rsiWindow.length < this.stochPeriod) return this.current;
+
+    const min = Math.min(...this.rsiWindow);
+    const max = Math.max(...this.rsiWindow);
+    const stoch = max > min ? ((rsi - min) / (max - min)) * 100 : 50;
+    const k = this.kAverage.update(stoch);
+    const d = this.dAverage.update(k);
+    this.current = { k, d };
+    return this.current;
+  }
+
+  get value(): StochasticRSIValue {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.dAverage.isReady;
+  }
+}
+
+/**
+ * 成交量加权平均价（典型价格 (H+L+C)/3 加权）
+ * session: "none" 在全部K线上累计；"day" 按 UTC 自然日重置（需要K线时间）
+ */
+export class VWAP implements StreamingIndicator<IndicatorCandle, number> {
+  private priceVolume = 0;
+  private volume = 0;
+  private lastPrice = 0;
+  private sessionDay: number | null = null;
+
+  constructor(private readonly session: "none" | "day" = "none") {}
+
+  update(candle: IndicatorCandle): number {
+    if (this.session === "day" && candle.time) {
+      const day = Math.floor(candle.time / 86_400_000);
+      if (day !== this.sessionDay) {
+        this.sessionDay = day;
+        this.priceVolume = 0;
+        this.volume = 0;
+      }
+    }
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    const volume = candle.volume ?? 0;
+    this.priceVolume += typicalPrice * volume;
+    this.volume += volume;
+    this.lastPrice = typicalPrice;
+    return this.value;
+  }
+
+  get value(): number {
+    return this.volume > 0 ? this.priceVolume / this.volume : this.lastPrice;
+  }
+
+  get isReady(): boolean {
+    return this.volume > 0;
+  }
+}
+
+/**
+ * 肯特纳通道（中轨为收盘价 EMA，上下轨为中轨 ± 倍数 × ATR）
+ */
+export class KeltnerChannels implements StreamingIndicator<IndicatorCandle, KeltnerChannelsValue> {
+  private readonly ema: EMA;
+  private readonly atr: ATR;
+
+  constructor(
+    emaPeriod = 20,
+    atrPeriod = 10,
+    private readonly multiplier = 2,
+  ) {
+    this.ema = new EMA(emaPeriod);
+    this.atr = new ATR(atrPeriod);
+  }
+
+  update(candle: IndicatorCandle): KeltnerChannelsValue {
+    this.ema.update(candle.close);
+    this.atr.update(candle);
+    return this.value;
+  }
+
+  get value(): KeltnerChannelsValue {
+    const middle = this.ema.value;
+    const width = this.multiplier * this.atr.value;
+    return { upper: middle + width, middle, lower: middle - width };
+  }
+
+  get isReady(): boolean {
+    return this.ema.isReady && this.atr.isReady;
+  }
+}
+
+/**
+ * 能量潮（收盘价上涨累加成交量，下跌扣减成交量）
+ */
+export class OBV implements StreamingIndicator<IndicatorCandle, number> {
+  private prevClose: number | null = null;
+  private current = 0;
+
+  update(candle: IndicatorCandle): number {
+    if (this.prevClose !== null) {
+      const volume = candle.volume ?? 0;
+      if (candle.close > this.prevClose) this.current += volume;
+      else if (candle.close < this.prevClose) this.current -= volume;
+    }
+    this.prevClose = candle.close;
+    return this.current;
+  }
+
+  get value(): number {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.prevClose !== null;
+  }
+}
+
+/**
+ * 逐个输入更新指标，返回每一步的指标值
+ */
+export function indicatorSeries<I, O>(indicator: StreamingIndicator<I, O>, inputs: I[]): O[] {
+  return inputs.map(input => indicator.update(input));
+}
+
+function lastValue<I, O>(indicator: StreamingIndicator<I, O>, inputs: I[]): O {
+  for (const input of inputs) {
+    indicator.update(input);
+  }
+  return indicator.value;
+}
+
+export function calculateEMA(values: number[], period: number): number {
+  return lastValue(new EMA(period), values);
+}
+
+export function calculateRSI(closes: number[], period = 14): number {
+  return lastValue(new RSI(period), closes);
+}
+
+export function calculateMACD(closes: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MACDValue {
+  return lastValue(new MACD(fastPeriod, slowPeriod, signalPeriod), closes);
+}
+
+export function calculateATR(candles: IndicatorCandle[], period = 14): number {
+  return lastValue(new ATR(period), candles);
+}
+
+export function calculateADX(candles: IndicatorCandle[], period = 14): ADXValue {
+  return lastValue(new ADX(period), candles);
+}
+
+export function calculateStochasticRSI(closes: number[], rsiPeriod = 14, stochPeriod = 14, kPeriod = 3, dPeriod = 3): StochasticRSIValue {
+  return lastValue(new StochasticRSI(rsiPeriod, stochPeriod, kPeriod, dPeriod), closes);
+}
+
+export function calculateVWAP(candles: IndicatorCandle[], session: "none" | "day" = "none"): number {
+  return lastValue(new VWAP(session), candles);
+}
+
+export function calculateKeltnerChannels(candles: IndicatorCandle[], emaPeriod = 20, atrPeriod = 10, multiplier = 2): KeltnerChannelsValue {
+  return lastValue(new KeltnerChannels(emaPeriod, atrPeriod, multiplier), candles);
+}
+
+export function calculateOBV(candles: IndicatorCandle[]): number {
+  return lastValue(new OBV(), candles);
+}
@@ -20,6 +20,33 @@
  * 时间工具模块 - 统一使用中国时间（UTC+8）
  */
 
+/**
+ * 模拟时钟（回测时由回测引擎注入，正常运行时为 null 使用系统时间）
+ */
+let simulatedClock: (() => number) | null = null;
+
+/**
+ * 设置模拟时钟
+ * @param clock 返回当前模拟时间戳（毫秒）的函数，传 null 恢复系统时间
+ */
+export function setSimulatedClock(clock: (() => number) | null): void {
+  simulatedClock = clock;
+}
+
+/**
+ * 是否正在使用模拟时钟（回测模式）
+ */
+export function isSimulatedClock(): boolean {
+  return simulatedClock !== null;
+}
+
+/**
+ * 获取当前时间戳（毫秒），回测模式下返回模拟时间
+ */
+export function nowMs(): number {
+  return simulatedClock ? simulatedClock() : Date.now();
+}
+
 /**
  * 获取当前时间的 ISO 字符串（UTC 格式）
  * ⚠️ 重要修复：统一使用 UTC 格式，避免时区混乱导致的持仓时间计算错误
@@ -29,7 +56,7 @@
 export function getChinaTimeISO(): string {
   // 🔧 核心修复：统一返回 UTC 格式，兼容币安和 Gate.io
   // 之前返回 +08:00 格式导致数据库中存在两种时间格式，造成持仓时间计算错误
-  return new Date().toISOString();
+  return new Date(nowMs()).toISOString();
 }
 
 /**
@@ -41,7 +68,7 @@ export function formatChinaTime(date?: Date | string): string {
   let d: Date;
   
   if (!date) {
-    d = new Date();
+    d = new Date(nowMs());
   } else if (typeof date === 'string') {
     d = new Date(date);
   } else {
@@ -69,7 +96,7 @@ export function formatChinaTime(date?: Date | string): string {
  * @returns 中国时间的 Date 对象（注意：Date对象本身不存储时区，只是调整了时间值）
  */
 export function getChinaTime(): Date {
-  const now = new Date();
+  const now = new Date(nowMs());
   
   // 使用 toLocaleString 获取中国时间字符串
   const chinaTimeString = now.toLocaleString('zh-CN', { 